@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import Fastify, { FastifyInstance, FastifyRequest } from 'fastify'
+import { Keypair } from '@solana/web3.js'
+import nacl from 'tweetnacl'
+import bs58 from 'bs58'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  authenticateApiKey: vi.fn(),
+}))
+
+import { authenticateApiKey } from '@blink402/database'
+import { authenticateRequest, requireScope, verifyWalletAuth } from '../auth.js'
+import { hashApiKey } from '../utils/api-keys.js'
+
+const API_KEY = 'b402k_test_key'
+const KEY_WALLET = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+
+function apiKeyRow(scopes: string[]) {
+  return { id: 'key-1', wallet: KEY_WALLET, scopes } as Awaited<ReturnType<typeof authenticateApiKey>>
+}
+
+function signedBody() {
+  const keypair = Keypair.generate()
+  const wallet = keypair.publicKey.toBase58()
+  const timestamp = Date.now()
+  const message = `Blink402 Auth: ${wallet} at ${timestamp}`
+  const signature = bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), keypair.secretKey))
+  return { wallet, signature, message, timestamp }
+}
+
+describe('authenticateRequest', () => {
+  beforeEach(() => {
+    vi.mocked(authenticateApiKey).mockReset()
+  })
+
+  it('returns the scopes of an API key', async () => {
+    vi.mocked(authenticateApiKey).mockResolvedValue(apiKeyRow(['analytics:read']))
+
+    const auth = await authenticateRequest({ headers: { authorization: `Bearer ${API_KEY}` } } as FastifyRequest)
+
+    expect(authenticateApiKey).toHaveBeenCalledWith(hashApiKey(API_KEY))
+    expect(auth).toEqual({ wallet: KEY_WALLET, method: 'api_key', scopes: ['analytics:read'], sessionId: null })
+  })
+
+  it('rejects unknown or revoked API keys', async () => {
+    vi.mocked(authenticateApiKey).mockResolvedValue(null)
+
+    const auth = await authenticateRequest({ headers: { authorization: `Bearer ${API_KEY}` } } as FastifyRequest)
+
+    expect(auth).toEqual({ code: 401, error: 'Authentication failed', details: 'Invalid or revoked API key' })
+  })
+
+  it('gives signed requests no scopes', async () => {
+    const body = signedBody()
+
+    const auth = await authenticateRequest({ headers: {}, body } as FastifyRequest)
+
+    expect(auth).toEqual({ wallet: body.wallet, method: 'signature', scopes: null, sessionId: null })
+  })
+})
+
+describe('API key scopes on routes', () => {
+  let app: FastifyInstance
+
+  beforeAll(async () => {
+    app = Fastify({ logger: false })
+
+    app.post('/analytics', { preHandler: requireScope('analytics:read') }, async (request) => ({
+      wallet: request.authenticatedWallet,
+      method: request.auth?.method,
+    }))
+    app.post('/wallet-only', { preHandler: verifyWalletAuth }, async (request) => ({
+      wallet: request.authenticatedWallet,
+    }))
+
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    vi.mocked(authenticateApiKey).mockReset()
+  })
+
+  it('accepts an API key with the route scope', async () => {
+    vi.mocked(authenticateApiKey).mockResolvedValue(apiKeyRow(['analytics:read', 'blinks:write']))
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/analytics',
+      headers: { authorization: `Bearer ${API_KEY}` },
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(JSON.parse(response.body)).toEqual({ wallet: KEY_WALLET, method: 'api_key' })
+  })
+
+  it('rejects an API key without the route scope', async () => {
+    vi.mocked(authenticateApiKey).mockResolvedValue(apiKeyRow(['blinks:write']))
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/analytics',
+      headers: { authorization: `Bearer ${API_KEY}` },
+    })
+
+    expect(response.statusCode).toBe(403)
+    expect(JSON.parse(response.body).details).toBe('This API key does not have the analytics:read scope')
+  })
+
+  it('rejects API keys on routes that take no scope', async () => {
+    vi.mocked(authenticateApiKey).mockResolvedValue(apiKeyRow(['blinks:write', 'analytics:read', 'payouts:manage']))
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/wallet-only',
+      headers: { authorization: `Bearer ${API_KEY}` },
+    })
+
+    expect(response.statusCode).toBe(403)
+    expect(JSON.parse(response.body).details).toBe('API keys cannot be used here - sign in with your wallet instead')
+  })
+
+  it('lets wallet signatures through scoped routes', async () => {
+    const body = signedBody()
+
+    const response = await app.inject({ method: 'POST', url: '/analytics', payload: body })
+
+    expect(response.statusCode).toBe(200)
+    expect(JSON.parse(response.body)).toEqual({ wallet: body.wallet, method: 'signature' })
+    expect(authenticateApiKey).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest'
+import { recordLedgerTransaction, recordLedgerPayment } from '@blink402/database'
+
+type LedgerDb = NonNullable<Parameters<typeof recordLedgerPayment>[1]>
+
+const BLINK = {
+  id: 'blink-1',
+  creator_id: 'creator-1',
+  price_usdc: '0.050000',
+  payment_token: 'USDC',
+  payout_wallet: 'CreatorPayoutWa11et',
+  lottery_enabled: false,
+  blockchain: 'solana',
+}
+
+/**
+ * Fake transaction client: answers the blink lookup, then the ledger insert
+ */
+function fakeDb(blink: Record<string, unknown> | null = BLINK) {
+  const query = vi.fn<(sql: string, params?: unknown[]) => Promise<{ rows: unknown[] }>>(async (sql) => (
+    sql.includes('FROM runs r JOIN blinks b')
+      ? { rows: blink ? [blink] : [] }
+      : { rows: [{ transaction_id: 'ltx-1' }, { transaction_id: 'ltx-1' }] }
+  ))
+  return { db: { query } as unknown as LedgerDb, query }
+}
+
+// Parameters of the ledger insert: [kind, key, token, amount, blockchain, run, blink, creator, signature, from, to, metadata, debit, credit]
+function insertParams(query: ReturnType<typeof fakeDb>['query']): unknown[] {
+  const call = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO ledger_transactions'))
+  return call![1]!
+}
+
+function run(overrides: Record<string, unknown> = {}) {
+  return { id: 'run-1', blink_id: 'blink-1', payer: 'PayerWa11et', signature: 'sig-1', metadata: {}, ...overrides }
+}
+
+describe('recordLedgerTransaction', () => {
+  it('writes one debit and one credit under the idempotency key', async () => {
+    const { db, query } = fakeDb()
+
+    const id = await recordLedgerTransaction({
+      kind: 'refund',
+      idempotencyKey: 'refund:rf-1',
+      token: 'SOL',
+      amount: '0.1',
+      debitAccount: 'creator:creator-1',
+      creditAccount: 'wallet:PayerWa11et',
+    }, db)
+
+    expect(id).toBe('ltx-1')
+    const params = insertParams(query)
+    expect(params.slice(0, 4)).toEqual(['refund', 'refund:rf-1', 'SOL', '0.1'])
+    expect(params.slice(-2)).toEqual(['creator:creator-1', 'wallet:PayerWa11et'])
+  })
+
+  it('records nothing for zero amounts', async () => {
+    const { db, query } = fakeDb()
+
+    expect(await recordLedgerTransaction({
+      kind: 'payment',
+      idempotencyKey: 'payment:run-1',
+      token: 'USDC',
+      amount: '0',
+      debitAccount: 'wallet:a',
+      creditAccount: 'creator:b',
+    }, db)).toBeNull()
+    expect(query).not.toHaveBeenCalled()
+  })
+
+  it('returns null when the key was already recorded', async () => {
+    const query = vi.fn(async () => ({ rows: [] }))
+
+    expect(await recordLedgerTransaction({
+      kind: 'payment',
+      idempotencyKey: 'payment:run-1',
+      token: 'USDC',
+      amount: '0.05',
+      debitAccount: 'wallet:a',
+      creditAccount: 'creator:b',
+    }, { query } as unknown as LedgerDb)).toBeNull()
+  })
+})
+
+describe('recordLedgerPayment', () => {
+  it('credits the creator with the payment from the payer wallet', async () => {
+    const { db, query } = fakeDb()
+
+    await recordLedgerPayment(run(), db)
+
+    const params = insertParams(query)
+    expect(params.slice(0, 4)).toEqual(['payment', 'payment:run-1', 'USDC', '0.050000'])
+    expect(params[8]).toBe('sig-1')
+    expect(params.slice(-2)).toEqual(['wallet:PayerWa11et', 'creator:creator-1'])
+  })
+
+  it('moves credit payments from the payer credits to what the treasury owes the creator', async () => {
+    const { db, query } = fakeDb()
+
+    await recordLedgerPayment(run({ signature: null, metadata: { flow: 'credits' } }), db)
+
+    const params = insertParams(query)
+    expect(params[8]).toBeNull()
+    expect(params[10]).toBeNull()
+    expect(params.slice(-2)).toEqual(['credits:PayerWa11et', 'credits_payable:creator-1'])
+  })
+
+  it('sends lottery entries to the pool and revenue split payments to the split account', async () => {
+    const lottery = fakeDb({ ...BLINK, lottery_enabled: true })
+    await recordLedgerPayment(run(), lottery.db)
+    expect(insertParams(lottery.query).at(-1)).toBe('lottery_pool:blink-1')
+
+    const split = fakeDb()
+    await recordLedgerPayment(run({ metadata: { settlementWallet: 'PlatformSettlement' } }), split.db)
+    expect(insertParams(split.query).at(-1)).toBe('revenue_split:blink-1')
+    expect(insertParams(split.query)[10]).toBe('PlatformSettlement')
+  })
+
+  it('records SOL blinks paid through x402 in USDC', async () => {
+    const { db, query } = fakeDb({ ...BLINK, payment_token: 'SOL', price_usdc: '0.1' })
+
+    await recordLedgerPayment(run({ metadata: { flow: 'x402' } }), db)
+
+    expect(insertParams(query)[2]).toBe('USDC')
+  })
+
+  it('records a custom SOL amount in SOL', async () => {
+    const { db, query } = fakeDb({ ...BLINK, payment_token: 'SOL' })
+
+    await recordLedgerPayment(run({ metadata: { amountSol: 0.25 } }), db)
+
+    expect(insertParams(query).slice(2, 4)).toEqual(['SOL', '0.25'])
+  })
+
+  it('skips runs that were not paid by the caller', async () => {
+    for (const flow of ['reward', 'thank-you', 'pass-call']) {
+      const { db, query } = fakeDb()
+      expect(await recordLedgerPayment(run({ metadata: { flow } }), db)).toBeNull()
+      expect(query).not.toHaveBeenCalled()
+    }
+  })
+})
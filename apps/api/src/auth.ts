@@ -1,9 +1,10 @@
 /**
  * Solana Wallet Authentication Middleware
  *
- * Verifies that requests are signed by the claimed wallet address.
+ * Verifies that requests come from the claimed wallet address: through a
+ * Sign-In-With-Solana session, a scoped creator API key, or a signed message.
  * Uses the Solana wallet signature standard for message verification.
- * Uses Redis for nonce tracking (persists across server restarts).
+ * Uses Redis for sessions and nonce tracking (persists across server restarts).
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify'
@@ -15,6 +16,10 @@ import {
   markNonceUsed as markNonceUsedRedis,
   isRedisConnected
 } from '@blink402/redis'
+import { authenticateApiKey } from '@blink402/database'
+import type { ApiKeyScope } from '@blink402/types'
+import { SESSION_TOKEN_PREFIX, getAuthSession, parseSignInMessage } from './utils/sessions.js'
+import { API_KEY_PREFIX, hashApiKey } from './utils/api-keys.js'
 
 export interface WalletAuthBody {
   wallet: string
@@ -121,19 +126,54 @@ interface AuthToken {
   expiresAt: number
 }
 
+export type AuthMethod = 'session' | 'api_key' | 'signature'
+
+/**
+ * Who a request was authenticated as, and how
+ */
+export interface RequestAuth {
+  wallet: string
+  method: AuthMethod
+  scopes: ApiKeyScope[] | null // API keys only
+  sessionId: string | null // Sessions only
+}
+
+interface AuthFailure {
+  code: 401 | 503
+  error: string
+  details: string
+}
+
+const SIGNED_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Expiry of a signed auth token, taken from the signed message rather than the client's expiresAt
+ * Uses the message's Expiration Time, or Issued At + 24 hours.
+ */
+function getSignedExpiry(message: string): number | null {
+  const fields = parseSignInMessage(message)
+  if (!fields) return null
+
+  const issuedAt = fields['Issued At'] ? Date.parse(fields['Issued At']) : NaN
+  const expiresAt = fields['Expiration Time'] ? Date.parse(fields['Expiration Time']) : NaN
+  if (!isNaN(expiresAt)) {
+    return isNaN(issuedAt) ? expiresAt : Math.min(expiresAt, issuedAt + SIGNED_TOKEN_MAX_AGE_MS)
+  }
+  return isNaN(issuedAt) ? null : issuedAt + SIGNED_TOKEN_MAX_AGE_MS
+}
+
 /**
- * Fastify middleware to verify wallet signature on requests
+ * Authenticate a request
  *
- * Supports two authentication methods:
- * 1. Authorization header: Bearer <base64-encoded-token>
- * 2. Request body: { wallet, signature, message, timestamp }
+ * Supports four authentication methods:
+ * 1. Session: Authorization: Bearer b402s_... (from Sign-In-With-Solana, see routes/auth.ts)
+ * 2. API key: Authorization: Bearer b402k_... (scoped creator keys)
+ * 3. Signed token: Authorization: Bearer <base64-encoded-token> (legacy frontend tokens)
+ * 4. Request body: { wallet, signature, message, timestamp } (legacy)
  *
- * The Authorization header method is preferred and used by the frontend.
+ * @returns Authenticated wallet and method, or the failure to send
  */
-export async function verifyWalletAuth(
-  request: FastifyRequest<{ Body: WalletAuthBody }>,
-  reply: FastifyReply
-): Promise<void> {
+export async function authenticateRequest(request: FastifyRequest): Promise<RequestAuth | AuthFailure> {
   let wallet: string | undefined
   let signature: string | undefined
   let message: string | undefined
@@ -142,30 +182,48 @@ export async function verifyWalletAuth(
   // Try to extract from Authorization header first (preferred method)
   const authHeader = request.headers.authorization
   if (authHeader && authHeader.startsWith('Bearer ')) {
+    const token = authHeader.substring(7) // Remove 'Bearer ' prefix
+
+    if (token.startsWith(SESSION_TOKEN_PREFIX)) {
+      if (!isRedisConnected()) {
+        return { code: 503, error: 'Sessions unavailable', details: 'Session storage is not available - try again shortly' }
+      }
+      const session = await getAuthSession(token)
+      if (!session) {
+        return { code: 401, error: 'Authentication failed', details: 'Session has expired or was revoked - sign in again' }
+      }
+      return { wallet: session.wallet, method: 'session', scopes: null, sessionId: session.id }
+    }
+
+    if (token.startsWith(API_KEY_PREFIX)) {
+      const apiKey = await authenticateApiKey(hashApiKey(token))
+      if (!apiKey) {
+        return { code: 401, error: 'Authentication failed', details: 'Invalid or revoked API key' }
+      }
+      return { wallet: apiKey.wallet, method: 'api_key', scopes: apiKey.scopes, sessionId: null }
+    }
+
     try {
-      const token = authHeader.substring(7) // Remove 'Bearer ' prefix
       const authToken: AuthToken = JSON.parse(Buffer.from(token, 'base64').toString('utf-8'))
 
-      // Check token expiration
-      if (Date.now() > authToken.expiresAt) {
-        return reply.code(401).send({
-          error: 'Authentication failed',
-          details: 'Auth token has expired',
-        })
+      // Check token expiration (the signed message decides, the client's expiresAt can only shorten it)
+      const signedExpiry = getSignedExpiry(authToken.message)
+      if (!signedExpiry) {
+        return { code: 401, error: 'Authentication failed', details: 'Auth token message has no issue or expiration time' }
+      }
+      if (Date.now() > Math.min(authToken.expiresAt, signedExpiry)) {
+        return { code: 401, error: 'Authentication failed', details: 'Auth token has expired' }
       }
 
       wallet = authToken.wallet
       signature = authToken.signature
       message = authToken.message
     } catch (error) {
-      return reply.code(401).send({
-        error: 'Authentication failed',
-        details: 'Invalid auth token format',
-      })
+      return { code: 401, error: 'Authentication failed', details: 'Invalid auth token format' }
     }
   } else {
     // Fall back to request body (legacy method)
-    const body = request.body
+    const body = request.body as WalletAuthBody | undefined
     wallet = body?.wallet
     signature = body?.signature
     message = body?.message
@@ -174,54 +232,94 @@ export async function verifyWalletAuth(
 
   // Check required fields
   if (!wallet || !signature || !message) {
-    return reply.code(401).send({
-      error: 'Authentication required',
-      details: 'Missing wallet, signature, or message',
-    })
+    return { code: 401, error: 'Authentication required', details: 'Missing wallet, signature, or message' }
   }
 
   // Verify timestamp if provided
   if (timestamp !== undefined) {
     if (!verifyTimestamp(timestamp)) {
-      return reply.code(401).send({
-        error: 'Authentication failed',
-        details: 'Message timestamp too old or invalid',
-      })
+      return { code: 401, error: 'Authentication failed', details: 'Message timestamp too old or invalid' }
     }
 
     // Verify message format includes timestamp
     const expectedMessagePattern = `Blink402 Auth: ${wallet} at ${timestamp}`
     if (message !== expectedMessagePattern) {
-      return reply.code(401).send({
-        error: 'Authentication failed',
-        details: 'Message format invalid',
-      })
+      return { code: 401, error: 'Authentication failed', details: 'Message format invalid' }
     }
   }
 
   // Check for replay attack (nonce reuse) - now async with Redis
   const nonceAlreadyUsed = await isNonceUsed(signature)
   if (nonceAlreadyUsed) {
-    return reply.code(401).send({
+    return {
+      code: 401,
       error: 'Authentication failed',
       details: 'This signature has already been used (replay attack prevented)',
-    })
+    }
   }
 
   // Verify signature
   const isValid = verifyWalletSignature(wallet, signature, message)
   if (!isValid) {
-    return reply.code(401).send({
-      error: 'Authentication failed',
-      details: 'Invalid wallet signature',
-    })
+    return { code: 401, error: 'Authentication failed', details: 'Invalid wallet signature' }
   }
 
   // Mark signature as used to prevent replay attacks - now async with Redis
   await markNonceUsed(signature)
 
-  // Signature verified - attach wallet to request for downstream use
-  request.authenticatedWallet = wallet
+  return { wallet, method: 'signature', scopes: null, sessionId: null }
+}
+
+/**
+ * Authenticate the request and attach the wallet, or send the failure
+ * @param scope - Scope an API key needs for this route (null = API keys are not accepted)
+ */
+async function applyWalletAuth(
+  request: FastifyRequest<{ Body: WalletAuthBody }>,
+  reply: FastifyReply,
+  scope: ApiKeyScope | null
+): Promise<void> {
+  const auth = await authenticateRequest(request)
+  if ('error' in auth) {
+    return reply.code(auth.code).send({ error: auth.error, details: auth.details })
+  }
+
+  if (auth.method === 'api_key' && (!scope || !auth.scopes!.includes(scope))) {
+    return reply.code(403).send({
+      error: 'Forbidden',
+      details: scope
+        ? `This API key does not have the ${scope} scope`
+        : 'API keys cannot be used here - sign in with your wallet instead',
+    })
+  }
+
+  // Verified - attach wallet to request for downstream use
+  request.authenticatedWallet = auth.wallet
+  request.auth = auth
+}
+
+/**
+ * Fastify middleware to verify the wallet behind a request (sessions and signatures, no API keys)
+ *
+ * The Authorization header is preferred and used by the frontend.
+ */
+export async function verifyWalletAuth(
+  request: FastifyRequest<{ Body: WalletAuthBody }>,
+  reply: FastifyReply
+): Promise<void> {
+  return applyWalletAuth(request, reply, null)
+}
+
+/**
+ * Fastify middleware like verifyWalletAuth that also accepts API keys with the given scope
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return async function verifyScopedAuth(
+    request: FastifyRequest<{ Body: WalletAuthBody }>,
+    reply: FastifyReply
+  ): Promise<void> {
+    return applyWalletAuth(request, reply, scope)
+  }
 }
 
 /**
@@ -91,6 +91,7 @@ import { twitterRoutes } from './routes/twitter.js'
 import { jupiterRoutes } from './routes/jupiter.js'
 import { demoRoutes } from './routes/demo.js'
 import { adminRoutes } from './routes/admin.js'
+import { moderationRoutes } from './routes/moderation.js'
 import { galleryRoutes } from './routes/gallery.js'
 import { profilesRoutes } from './routes/profiles.js'
 import { walletAnalysisRoutes } from './routes/wallet-analysis.js'
@@ -103,11 +104,19 @@ import { thankYouClaimRoutes } from './routes/thank-you-claim.js'
 import { slotsRoutes } from './routes/slots.js'
 import { paymentsRoutes } from './routes/payments.js'
 import { creatorPayoutKeyRoutes } from './routes/creator-payout-key.js'
+import { webhookRoutes } from './routes/webhooks.js'
 import { actionsSlotMachineRoutes } from './routes/actions-slot-machine.js'
 import { lotteryRoutes } from './routes/lottery.js'
 import { actionsSubmitRoutes } from './routes/actions-submit.js'
 import { referralRoutes } from './routes/referrals.js'
 import { tokenRoutes } from './routes/token.js'
+import { artifactsRoutes } from './routes/artifacts.js'
+import { creditRoutes } from './routes/credits.js'
+import { passRoutes } from './routes/passes.js'
+import { couponRoutes } from './routes/coupons.js'
+import { authRoutes } from './routes/auth.js'
+import { apiKeyRoutes } from './routes/api-keys.js'
+import { reviewRoutes } from './routes/reviews.js'
 
 const PORT = parseInt(process.env.PORT || '3001', 10)
 const HOST = process.env.HOST || '0.0.0.0'
@@ -159,13 +168,13 @@ await fastify.register(cors, {
     'WWW-Authenticate',
     'X-Ratelimit-Limit',
     'X-Ratelimit-Remaining',
-    'X-Ratelimit-Reset'
+    'X-Ratelimit-Reset',
+    'X-Pass-Renewal-Due'
   ],
   allowedHeaders: [
     'Content-Type',
     'Authorization',
     'Accept',
-    'x-uploader-wallet',
     'x-request-wallet',
     'x-wallet-signature',
     'x-wallet-address',
@@ -173,6 +182,10 @@ await fastify.register(cors, {
     'x-payment-metadata',
     'x-payment-type',
     'x-payment-tx',
+    'x-credit-authorization',
+    'x-pass-authorization',
+    'x-admin-key',          // Admin and moderation console
+    'x-admin-actor',
     'idempotency-key',      // Fix Pack 5: Standard idempotency key header
     'x-idempotency-key'     // Fix Pack 5: Alternative idempotency key header
   ],
@@ -315,6 +328,7 @@ await fastify.register(twitterRoutes, { prefix: '/twitter' })
 await fastify.register(jupiterRoutes, { prefix: '/api/jupiter' })
 await fastify.register(demoRoutes, { prefix: '/demo' })
 await fastify.register(adminRoutes, { prefix: '/admin' })
+await fastify.register(moderationRoutes, { prefix: '/admin/moderation' })
 await fastify.register(galleryRoutes, { prefix: '/api/gallery' })
 await fastify.register(walletAnalysisRoutes)
 await fastify.register(tokenPriceRoutes, { prefix: '/token-price' })
@@ -326,10 +340,18 @@ await fastify.register(thankYouClaimRoutes, { prefix: '/a' })
 await fastify.register(slotsRoutes, { prefix: '/api/slots' })
 await fastify.register(paymentsRoutes, { prefix: '/api/payments' })
 await fastify.register(creatorPayoutKeyRoutes, { prefix: '/api/creator/payout-key' })
+await fastify.register(webhookRoutes, { prefix: '/api/creator/webhooks' })
 await fastify.register(lotteryRoutes, { prefix: '/lottery' })
 await fastify.register(actionsSlotMachineRoutes, { prefix: '/actions/slot-machine' })
 await fastify.register(referralRoutes, { prefix: '/referrals' })
 await fastify.register(tokenRoutes, { prefix: '/token' })
+await fastify.register(artifactsRoutes, { prefix: '/artifacts' })
+await fastify.register(creditRoutes, { prefix: '/api/credits' })
+await fastify.register(passRoutes, { prefix: '/api/passes' })
+await fastify.register(couponRoutes, { prefix: '/api/creator/coupons' })
+await fastify.register(authRoutes, { prefix: '/api/auth' })
+await fastify.register(apiKeyRoutes, { prefix: '/api/creator/api-keys' })
+await fastify.register(reviewRoutes, { prefix: '/api/reviews' })
 
 // Root endpoint
 fastify.get('/', async () => {
@@ -415,6 +437,48 @@ try {
   const { startLotteryBuyback } = await import('./workers/lottery-buyback.js')
   startLotteryBuyback(fastify.log)
   fastify.log.info('✅ Lottery buyback worker started (automated B402 burn)')
+
+  const { startRefundRetry } = await import('./workers/refund-retry.js')
+  startRefundRetry(fastify.log)
+  fastify.log.info('✅ Refund retry worker started')
+
+  const { startArtifactCleanup } = await import('./workers/artifact-cleanup.js')
+  startArtifactCleanup(fastify.log)
+  fastify.log.info('✅ Artifact cleanup worker started')
+
+  const { startWebhookDispatcher } = await import('./workers/webhook-dispatcher.js')
+  startWebhookDispatcher(fastify.log)
+  fastify.log.info('✅ Webhook dispatcher worker started')
+
+  const { startLedgerReconciliation } = await import('./workers/ledger-reconciliation.js')
+  startLedgerReconciliation(fastify.log)
+  fastify.log.info('✅ Ledger reconciliation worker started')
+
+  const { startPassRenewalReminders } = await import('./workers/pass-renewal-reminders.js')
+  startPassRenewalReminders(fastify.log)
+  fastify.log.info('✅ Pass renewal reminder worker started')
+
+  const { startCreditWithdrawalSettlement } = await import('./workers/credit-withdrawals.js')
+  startCreditWithdrawalSettlement(fastify.log)
+  fastify.log.info('✅ Credit withdrawal settlement worker started')
+
+  const { startCreditSettlements } = await import('./workers/credit-settlements.js')
+  startCreditSettlements(fastify.log)
+  fastify.log.info('✅ Credit settlement worker started')
+
+  const { startRevenueSplitPayouts } = await import('./workers/revenue-split-payout.js')
+  startRevenueSplitPayouts(fastify.log)
+  fastify.log.info('✅ Revenue split payout worker started')
+
+  const { startReferralPayouts } = await import('./workers/referral-payout.js')
+  startReferralPayouts(fastify.log)
+  fastify.log.info('✅ Referral payout worker started')
+
+  // Runs the durable jobs registered above (lottery, Actions executor, ledger reconciliation, pass reminders,
+  // credit withdrawals, revenue split and referral payouts)
+  const { startJobRunner } = await import('./workers/job-runner.js')
+  startJobRunner(fastify.log)
+  fastify.log.info('✅ Job runner started')
 } catch (err) {
   fastify.log.error(err)
   process.exit(1)
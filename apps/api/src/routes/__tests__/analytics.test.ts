@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import Fastify, { FastifyInstance } from 'fastify'
+
+vi.mock('../../auth.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../auth.js')>()),
+  authenticateRequest: vi.fn(),
+}))
+
+import { getPool, closePool } from '@blink402/database'
+import { authenticateRequest } from '../../auth.js'
+import { dashboardRoutes } from '../dashboard.js'
+
+const WALLET = 'CreatorWa11et1111111111111111111111111111111'
+const DAY_1 = new Date('2026-10-01T00:00:00Z')
+const DAY_2 = new Date('2026-10-02T00:00:00Z')
+
+/**
+ * Rows the analytics queries return for one SOL blink over two daily buckets
+ */
+function analyticsRows(sql: string): unknown[] {
+  if (sql.includes('FROM creators')) return [{ id: 'creator-1' }]
+  if (sql.includes('generate_series')) return [{ bucket: DAY_1 }, { bucket: DAY_2 }]
+  if (sql.includes('percentile_cont')) {
+    return [{
+      blink_id: 'blink-1',
+      bucket: DAY_2,
+      paid_runs: 4,
+      executed_runs: 3,
+      failed_runs: 1,
+      latency_p50_ms: 120.4,
+      latency_p95_ms: 480.6,
+      unique_payers: 3,
+      repeat_payers: 1,
+      coupon_redemptions: 2,
+    }]
+  }
+  if (sql.includes('FROM ledger_entries')) {
+    return [
+      { blink_id: 'blink-1', token: 'SOL', bucket: DAY_2, amount: '0.300000000' },
+      { blink_id: 'blink-1', token: 'USDC', bucket: DAY_2, amount: '5.000000' }, // Not in the blink's token
+    ]
+  }
+  if (sql.includes('blink_metadata_views')) return [{ blink_id: 'blink-1', views: 40, runs_created: 6, paid: 4, executed: 3 }]
+  if (sql.includes('FROM coupons')) {
+    return [{ coupon_id: 'coupon-1', code: 'LAUNCH', redemptions: 2, discount_usdc: '0.020000', revenue_usdc: '0.180000' }]
+  }
+  return [{ id: 'blink-1', slug: 'weather', title: 'Weather', payment_token: 'SOL' }]
+}
+
+describe('GET /dashboard/:wallet/analytics', () => {
+  let app: FastifyInstance
+  let query: ReturnType<typeof vi.spyOn>
+
+  beforeAll(async () => {
+    query = vi.spyOn(getPool(), 'query').mockImplementation((async (sql: string) => ({ rows: analyticsRows(sql) })) as never)
+    app = Fastify({ logger: false })
+    await app.register(dashboardRoutes, { prefix: '/dashboard' })
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+    query.mockRestore()
+    await closePool()
+  })
+
+  beforeEach(() => {
+    query.mockClear()
+    vi.mocked(authenticateRequest).mockReset()
+    vi.mocked(authenticateRequest).mockResolvedValue({ wallet: WALLET, method: 'signature', scopes: null, sessionId: null })
+  })
+
+  function getAnalytics(queryString: string) {
+    return app.inject({ method: 'GET', url: `/dashboard/${WALLET}/analytics?${queryString}` })
+  }
+
+  it('returns a point per bucket with run, latency, payer and revenue figures', async () => {
+    const response = await getAnalytics('from=2026-10-01T00:00:00Z&to=2026-10-03T00:00:00Z&bucket=day')
+
+    expect(response.statusCode).toBe(200)
+    const { data } = JSON.parse(response.body)
+    const [blink] = data.blinks
+    expect(blink.series.map((point: { bucket: string }) => point.bucket)).toEqual([DAY_1.toISOString(), DAY_2.toISOString()])
+    expect(blink.series[0]).toMatchObject({ revenue: '0', paid_runs: 0, latency_p50_ms: null })
+    expect(blink.series[1]).toEqual({
+      bucket: DAY_2.toISOString(),
+      revenue: '0.3',
+      paid_runs: 4,
+      executed_runs: 3,
+      failed_runs: 1,
+      latency_p50_ms: 120,
+      latency_p95_ms: 481,
+      unique_payers: 3,
+      repeat_payer_rate: 0.333,
+      coupon_redemptions: 2,
+    })
+    expect(data.funnel).toEqual({ views: 40, runs_created: 6, paid: 4, executed: 3 })
+    expect(data.coupons).toEqual([{ coupon_id: 'coupon-1', code: 'LAUNCH', redemptions: 2, discount_usdc: '0.02', revenue_usdc: '0.18' }])
+  })
+
+  it('requires the creator wallet', async () => {
+    vi.mocked(authenticateRequest).mockResolvedValue({ wallet: 'SomeoneElse', method: 'signature', scopes: null, sessionId: null })
+
+    const response = await getAnalytics('bucket=day')
+
+    expect(response.statusCode).toBe(403)
+    expect(query).not.toHaveBeenCalled()
+  })
+
+  it('requires the analytics:read scope for API keys', async () => {
+    vi.mocked(authenticateRequest).mockResolvedValue({ wallet: WALLET, method: 'api_key', scopes: ['blinks:write'], sessionId: null })
+
+    expect((await getAnalytics('bucket=day')).statusCode).toBe(403)
+  })
+
+  it('rejects unknown buckets, inverted ranges and too many buckets', async () => {
+    expect(JSON.parse((await getAnalytics('bucket=constructor')).body).error).toBe('Invalid bucket')
+    expect(JSON.parse((await getAnalytics('from=2026-10-02T00:00:00Z&to=2026-10-01T00:00:00Z')).body).error).toBe('Invalid date range')
+    expect(JSON.parse((await getAnalytics('from=2026-01-01T00:00:00Z&to=2026-10-01T00:00:00Z&bucket=hour')).body).error).toBe('Range too large')
+    expect(query).not.toHaveBeenCalled()
+  })
+
+  it('returns 404 for wallets that are not creators', async () => {
+    query.mockImplementationOnce((async () => ({ rows: [] })) as never)
+
+    expect((await getAnalytics('bucket=day')).statusCode).toBe(404)
+  })
+})
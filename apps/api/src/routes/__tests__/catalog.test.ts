@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import Fastify, { FastifyInstance } from 'fastify'
+import { getPool, closePool, parseCatalogCursor } from '@blink402/database'
+import { catalogRoutes } from '../catalog.js'
+
+const IDS = ['00000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000002', '00000000-0000-4000-8000-000000000003']
+
+function blinkRow(id: string, index: number) {
+  return {
+    id,
+    slug: `blink-${index}`,
+    title: `Blink ${index}`,
+    description: 'A catalog blink with a long enough description',
+    price_usdc: '0.050000',
+    runs: 10 - index,
+    status: 'active',
+    badges: [],
+    creator_wallet: 'CreatorWa11et',
+    sort_key: String(10 - index),
+  }
+}
+
+/**
+ * Rows for the page query (limit + 1 rows asked) and the facet queries
+ */
+function catalogRows(sql: string, params: unknown[]): unknown[] {
+  if (sql.includes('AS total')) return [{ total: 42 }]
+  if (sql.includes('bucket_0')) return [{ bucket_0: 1, bucket_1: 30, bucket_2: 10, bucket_3: 1 }]
+  if (sql.includes('AS value')) {
+    return sql.includes('b.category') ? [{ value: 'weather', count: 30 }, { value: 'ai', count: 12 }] : []
+  }
+  const limit = params[params.length - (sql.includes('OFFSET') ? 2 : 1)] as number
+  return IDS.slice(0, limit).map(blinkRow)
+}
+
+describe('GET /catalog', () => {
+  let app: FastifyInstance
+  let query: ReturnType<typeof vi.spyOn>
+
+  beforeAll(async () => {
+    query = vi.spyOn(getPool(), 'query').mockImplementation((async (sql: string, params: unknown[] = []) => ({ rows: catalogRows(sql, params) })) as never)
+    app = Fastify({ logger: false })
+    await app.register(catalogRoutes)
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+    query.mockRestore()
+    await closePool()
+  })
+
+  beforeEach(() => {
+    query.mockClear()
+  })
+
+  async function getCatalog(queryString: string) {
+    const response = await app.inject({ method: 'GET', url: `/catalog?${queryString}` })
+    return { statusCode: response.statusCode, body: JSON.parse(response.body) }
+  }
+
+  // The page query is the one selecting blink fields with a sort key
+  function pageQuery(): [string, unknown[]] {
+    const call = query.mock.calls.find(([sql]: unknown[]) => String(sql).includes('AS sort_key'))!
+    return [String(call[0]), call[1] as unknown[]]
+  }
+
+  it('sorts and limits in SQL and returns the exact total and facets', async () => {
+    const { statusCode, body } = await getCatalog('sort=popular&limit=2&offset=20')
+
+    expect(statusCode).toBe(200)
+    const [sql, params] = pageQuery()
+    expect(sql.indexOf('ORDER BY (b.runs) DESC, b.id DESC')).toBeGreaterThan(-1)
+    expect(sql.indexOf('ORDER BY')).toBeLessThan(sql.indexOf('LIMIT'))
+    expect(params.slice(-2)).toEqual([3, 20])
+    expect(body.data).toHaveLength(2)
+    expect(body.pagination).toMatchObject({ limit: 2, offset: 20, total: 42, has_more: true })
+    expect(body.facets.category).toEqual([{ value: 'weather', count: 30 }, { value: 'ai', count: 12 }])
+    expect(body.facets.price.map((bucket: { count: number }) => bucket.count)).toEqual([1, 30, 10, 1])
+  })
+
+  it('returns a cursor for the last row that continues after it', async () => {
+    const { body } = await getCatalog('sort=popular&limit=2')
+
+    expect(parseCatalogCursor(body.pagination.next_cursor, 'popular')).toEqual({ sort: 'popular', key: '9', id: IDS[1] })
+
+    query.mockClear()
+    await getCatalog(`sort=popular&limit=2&cursor=${body.pagination.next_cursor}`)
+    const [sql, params] = pageQuery()
+    expect(sql).toContain('AND ((b.runs), b.id) < ($1::bigint, $2::uuid)')
+    expect(sql).not.toContain('OFFSET')
+    expect(params).toEqual(['9', IDS[1], 3])
+  })
+
+  it('has no next cursor on the last page', async () => {
+    const { body } = await getCatalog('sort=popular&limit=5')
+
+    expect(body.pagination).toMatchObject({ next_cursor: null, has_more: false })
+  })
+
+  it('ranks searches by relevance over the blink and creator name', async () => {
+    const { body } = await getCatalog('search=weather%20forecast')
+
+    expect(body.sort).toBe('relevance')
+    const [sql, params] = pageQuery()
+    expect(sql).toContain("websearch_to_tsquery('english', $1)")
+    expect(sql).toContain('ORDER BY (ts_rank(')
+    expect(params[0]).toBe('weather forecast')
+  })
+
+  it('filters by category, price range and badges', async () => {
+    await getCatalog('category=weather&price_min=0.01&price_max=1&badges=verified,fast')
+
+    const [sql, params] = pageQuery()
+    expect(sql).toContain('b.category = $1')
+    expect(sql).toContain('b.badges @> $4::jsonb')
+    expect(params.slice(0, 4)).toEqual(['weather', 0.01, 1, '["verified","fast"]'])
+  })
+
+  it('rejects unknown sorts and cursors issued for another sort', async () => {
+    const { body: page } = await getCatalog('sort=popular&limit=2')
+    query.mockClear()
+
+    expect((await getCatalog('sort=runs;DROP')).body.error).toBe('Invalid sort')
+    expect((await getCatalog(`sort=newest&cursor=${page.pagination.next_cursor}`)).body.error).toBe('Invalid cursor')
+    expect((await getCatalog('price_min=cheap')).body.error).toBe('Invalid price filter')
+    expect(query).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import Fastify, { FastifyInstance, FastifyRequest } from 'fastify'
+import type { CreditTransaction } from '@blink402/types'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  recordCreditDeposit: vi.fn(),
+  getCreditAccount: vi.fn(),
+}))
+vi.mock('../../auth.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../auth.js')>()),
+  verifyWalletAuth: vi.fn(async (request: FastifyRequest) => {
+    request.authenticatedWallet = WALLET
+  }),
+}))
+vi.mock('../../utils/credits.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/credits.js')>()),
+  getCreditDepositWallet: vi.fn(() => 'DepositWa11et'),
+  verifyCreditDeposit: vi.fn(),
+  sendCreditWithdrawal: vi.fn(),
+}))
+
+import { recordCreditDeposit, getCreditAccount } from '@blink402/database'
+import { verifyCreditDeposit, sendCreditWithdrawal } from '../../utils/credits.js'
+import { creditRoutes } from '../credits.js'
+
+const WALLET = vi.hoisted(() => 'PayerWa11et1111111111111111111111111111111111')
+const TX_SIGNATURE = '5'.repeat(88)
+
+function creditTransaction(overrides: Partial<CreditTransaction> = {}): CreditTransaction {
+  return {
+    id: 'ct-1',
+    wallet: WALLET,
+    kind: 'deposit',
+    amount: '2.5',
+    status: 'completed',
+    signature: TX_SIGNATURE,
+    ...overrides,
+  } as CreditTransaction
+}
+
+describe('credit routes', () => {
+  let app: FastifyInstance
+
+  beforeAll(async () => {
+    app = Fastify({ logger: false })
+    await app.register(creditRoutes, { prefix: '/api/credits' })
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    vi.mocked(verifyCreditDeposit).mockReset()
+    vi.mocked(recordCreditDeposit).mockReset()
+    vi.mocked(sendCreditWithdrawal).mockReset()
+    vi.mocked(getCreditAccount).mockResolvedValue({ wallet: WALLET, balance: '2.5' } as Awaited<ReturnType<typeof getCreditAccount>>)
+  })
+
+  function post(path: string, body: Record<string, unknown>) {
+    return app.inject({ method: 'POST', url: `/api/credits/${path}`, payload: body })
+  }
+
+  describe('POST /api/credits/deposit', () => {
+    it('credits the verified amount once', async () => {
+      vi.mocked(verifyCreditDeposit).mockResolvedValue('2.5')
+      vi.mocked(recordCreditDeposit).mockResolvedValue({ transaction: creditTransaction(), credited: true })
+
+      const response = await post('deposit', { tx_signature: TX_SIGNATURE })
+
+      expect(response.statusCode).toBe(201)
+      expect(recordCreditDeposit).toHaveBeenCalledWith({ wallet: WALLET, amount: '2.5', signature: TX_SIGNATURE, depositWallet: 'DepositWa11et' })
+      expect(JSON.parse(response.body).credits.balance).toBe('2.5')
+    })
+
+    it('returns 200 for a transfer this wallet already claimed', async () => {
+      vi.mocked(verifyCreditDeposit).mockResolvedValue('2.5')
+      vi.mocked(recordCreditDeposit).mockResolvedValue({ transaction: creditTransaction(), credited: false })
+
+      expect((await post('deposit', { tx_signature: TX_SIGNATURE })).statusCode).toBe(200)
+    })
+
+    it('returns 409 for a transfer credited to another wallet', async () => {
+      vi.mocked(verifyCreditDeposit).mockResolvedValue('2.5')
+      vi.mocked(recordCreditDeposit).mockResolvedValue({ transaction: creditTransaction({ wallet: 'SomeoneElse' }), credited: false })
+
+      const response = await post('deposit', { tx_signature: TX_SIGNATURE })
+
+      expect(response.statusCode).toBe(409)
+      expect(JSON.parse(response.body).error).toBe('Deposit already claimed')
+    })
+
+    it('does not record transfers that fail verification', async () => {
+      vi.mocked(verifyCreditDeposit).mockRejectedValue(new Error('USDC was not sent from this wallet'))
+
+      const response = await post('deposit', { tx_signature: TX_SIGNATURE })
+
+      expect(response.statusCode).toBe(400)
+      expect(JSON.parse(response.body).details).toBe('USDC was not sent from this wallet')
+      expect(recordCreditDeposit).not.toHaveBeenCalled()
+    })
+
+    it('requires a transaction signature', async () => {
+      expect((await post('deposit', {})).statusCode).toBe(400)
+      expect(verifyCreditDeposit).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/credits/withdraw', () => {
+    it('returns 200 once the transfer is confirmed and 202 while it is still sending', async () => {
+      vi.mocked(sendCreditWithdrawal).mockResolvedValueOnce(creditTransaction({ kind: 'withdrawal', status: 'completed' }))
+      expect((await post('withdraw', { amount: '1.5' })).statusCode).toBe(200)
+      expect(vi.mocked(sendCreditWithdrawal).mock.calls[0][0]).toMatchObject({ wallet: WALLET, amount: '1.5' })
+
+      vi.mocked(sendCreditWithdrawal).mockResolvedValueOnce(creditTransaction({ kind: 'withdrawal', status: 'sending' }))
+      expect((await post('withdraw', {})).statusCode).toBe(202)
+    })
+
+    it('returns 502 when the transfer could not be sent', async () => {
+      vi.mocked(sendCreditWithdrawal).mockResolvedValue(creditTransaction({ kind: 'withdrawal', status: 'failed' }))
+
+      expect((await post('withdraw', {})).statusCode).toBe(502)
+    })
+
+    it('rejects invalid amounts and overdrafts', async () => {
+      expect((await post('withdraw', { amount: '0.1234567' })).statusCode).toBe(400)
+      expect(sendCreditWithdrawal).not.toHaveBeenCalled()
+
+      vi.mocked(sendCreditWithdrawal).mockRejectedValue(new Error('Insufficient credits: balance is 1.0 USDC'))
+      const response = await post('withdraw', { amount: '5' })
+      expect(response.statusCode).toBe(400)
+      expect(JSON.parse(response.body).details).toBe('Insufficient credits: balance is 1.0 USDC')
+    })
+  })
+})
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import Fastify, { FastifyInstance, FastifyRequest } from 'fastify'
+
+const ADMIN_KEY = vi.hoisted(() => 'test-admin-key-0123456789')
+
+vi.mock('@blink402/config', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/config')>()),
+  getAdminConfig: () => ({ apiKey: ADMIN_KEY, isEnabled: true }),
+}))
+vi.mock('../../auth.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../auth.js')>()),
+  verifyWalletAuth: vi.fn(async (request: FastifyRequest) => {
+    request.authenticatedWallet = 'ReporterWa11et'
+  }),
+}))
+
+import { getPool, closePool } from '@blink402/database'
+import { catalogRoutes } from '../catalog.js'
+import { moderationRoutes } from '../moderation.js'
+
+type Query = (sql: string, params?: unknown[]) => Promise<{ rows: unknown[]; rowCount?: number }>
+
+const BLINK_ID = '00000000-0000-4000-8000-000000000001'
+const REPORT_ID = '00000000-0000-4000-8000-0000000000aa'
+
+describe('moderation', () => {
+  let app: FastifyInstance
+  let connect: ReturnType<typeof vi.spyOn>
+  const query = vi.fn<Query>()
+
+  beforeAll(async () => {
+    // Every moderation write runs in a transaction on a pooled client
+    connect = vi.spyOn(getPool(), 'connect').mockImplementation((async () => ({ query, release: vi.fn() })) as never)
+    app = Fastify({ logger: false })
+    await app.register(catalogRoutes)
+    await app.register(moderationRoutes, { prefix: '/admin/moderation' })
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+    connect.mockRestore()
+    await closePool()
+  })
+
+  beforeEach(() => {
+    query.mockReset()
+  })
+
+  function statements(): string[] {
+    return query.mock.calls.map(([sql]) => sql)
+  }
+
+  function auditedActions(): unknown[] {
+    return query.mock.calls
+      .filter(([sql]) => sql.includes('INSERT INTO moderation_actions'))
+      .map(([, params]) => params![0])
+  }
+
+  describe('POST /catalog/report', () => {
+    /**
+     * Blink in the catalog with `reporters` distinct open reporters once this report is filed
+     */
+    function reportedBlink(reporters: number, publishToCatalog = true): Query {
+      return async (sql) => {
+        if (sql.includes('SET reported_count = reported_count + 1')) {
+          return { rows: [{ creator_id: 'creator-1', publish_to_catalog: publishToCatalog }] }
+        }
+        if (sql.includes('INSERT INTO blink_reports')) return { rows: [{ id: REPORT_ID }] }
+        if (sql.includes('COUNT(DISTINCT reporter_wallet)')) return { rows: [{ reporters }] }
+        return { rows: [] }
+      }
+    }
+
+    function report() {
+      return app.inject({ method: 'POST', url: '/catalog/report', payload: { blink_id: BLINK_ID, reason: 'scam' } })
+    }
+
+    it('takes the blink out of the catalog once enough wallets reported it', async () => {
+      query.mockImplementation(reportedBlink(3))
+
+      expect((await report()).statusCode).toBe(200)
+      expect(statements()).toContainEqual(expect.stringContaining('SET publish_to_catalog = false, catalog_hold = true'))
+      expect(auditedActions()).toEqual(['blink_auto_unpublished'])
+      expect(statements().at(-1)).toBe('COMMIT')
+    })
+
+    it('only records the report below the threshold', async () => {
+      query.mockImplementation(reportedBlink(2))
+
+      expect((await report()).statusCode).toBe(200)
+      expect(statements()).not.toContainEqual(expect.stringContaining('catalog_hold = true'))
+      expect(auditedActions()).toEqual([])
+    })
+
+    it('does not count reports against blinks that are not in the catalog', async () => {
+      query.mockImplementation(reportedBlink(10, false))
+
+      expect((await report()).statusCode).toBe(200)
+      expect(statements()).not.toContainEqual(expect.stringContaining('COUNT(DISTINCT reporter_wallet)'))
+    })
+
+    it('returns 404 for unknown blinks', async () => {
+      query.mockResolvedValue({ rows: [] })
+
+      expect((await report()).statusCode).toBe(404)
+      expect(statements()).toContain('ROLLBACK')
+    })
+  })
+
+  describe('admin endpoints', () => {
+    it('require the admin API key', async () => {
+      for (const [method, url] of [
+        ['GET', '/admin/moderation/reports'],
+        ['POST', `/admin/moderation/blinks/${BLINK_ID}/suspend`],
+        ['POST', `/catalog/${BLINK_ID}/badges`],
+        ['POST', `/catalog/${BLINK_ID}/health`],
+      ] as const) {
+        expect((await app.inject({ method, url, payload: {} })).statusCode).toBe(401)
+        expect((await app.inject({ method, url, payload: {}, headers: { 'x-admin-key': 'wrong-key' } })).statusCode).toBe(403)
+      }
+      expect(query).not.toHaveBeenCalled()
+    })
+
+    function moderate(url: string, payload: Record<string, unknown> = {}) {
+      return app.inject({
+        method: 'POST',
+        url: `/admin/moderation${url}`,
+        payload,
+        headers: { 'x-admin-key': ADMIN_KEY, 'x-admin-actor': 'alice' },
+      })
+    }
+
+    it('dismisses a report, lowers the report count and logs the moderator', async () => {
+      query.mockImplementation(async (sql) => (
+        sql.includes('FROM blink_reports r')
+          ? { rows: [{ id: REPORT_ID, blink_id: BLINK_ID, creator_id: 'creator-1', status: 'pending', reason: 'scam' }] }
+          : { rows: [] }
+      ))
+
+      const response = await moderate(`/reports/${REPORT_ID}/dismissed`, { notes: 'Looks fine' })
+
+      expect(response.statusCode).toBe(200)
+      expect(statements()).toContainEqual(expect.stringContaining('SET reported_count = GREATEST(reported_count - 1, 0)'))
+      const audit = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO moderation_actions'))!
+      expect(audit[1]!.slice(0, 2)).toEqual(['report_dismissed', 'alice'])
+    })
+
+    it('returns 409 for reports that were already closed', async () => {
+      query.mockImplementation(async (sql) => (
+        sql.includes('FROM blink_reports r')
+          ? { rows: [{ id: REPORT_ID, blink_id: BLINK_ID, creator_id: 'creator-1', status: 'resolved', reason: 'scam' }] }
+          : { rows: [] }
+      ))
+
+      const response = await moderate(`/reports/${REPORT_ID}/dismissed`)
+
+      expect(response.statusCode).toBe(409)
+      expect(JSON.parse(response.body).message).toBe('Report is already resolved')
+      expect(auditedActions()).toEqual([])
+    })
+
+    it('requires a reason to suspend', async () => {
+      expect((await moderate(`/blinks/${BLINK_ID}/suspend`)).statusCode).toBe(400)
+      expect((await moderate('/creators/CreatorWa11et/suspend')).statusCode).toBe(400)
+      expect(query).not.toHaveBeenCalled()
+    })
+  })
+})
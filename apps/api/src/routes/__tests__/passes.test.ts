@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import Fastify, { FastifyInstance, FastifyRequest } from 'fastify'
+import type { AccessPass, BlinkData } from '@blink402/types'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  getBlinkBySlug: vi.fn(),
+  createRun: vi.fn(),
+  getRunByReference: vi.fn(),
+  updateRunPaymentAtomic: vi.fn(),
+  grantAccessPass: vi.fn(),
+}))
+vi.mock('../../auth.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../auth.js')>()),
+  verifyWalletAuth: vi.fn(async (request: FastifyRequest) => {
+    request.authenticatedWallet = WALLET
+  }),
+}))
+vi.mock('../../utils/passes.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/passes.js')>()),
+  verifyPassPurchase: vi.fn(),
+}))
+
+import {
+  getPool,
+  closePool,
+  getBlinkBySlug,
+  createRun,
+  getRunByReference,
+  updateRunPaymentAtomic,
+  grantAccessPass,
+  type RunData,
+} from '@blink402/database'
+import { verifyPassPurchase } from '../../utils/passes.js'
+import { passRoutes } from '../passes.js'
+
+const WALLET = vi.hoisted(() => 'HolderWa11et11111111111111111111111111111111')
+const TX_SIGNATURE = '5'.repeat(88)
+const IDEMPOTENCY_KEY = 'purchase-key-1234567890'
+
+const BLINK = {
+  id: 'blink-1',
+  slug: 'weather',
+  status: 'active',
+  payout_wallet: 'PayoutWa11et',
+  payment_mode: 'charge',
+  blockchain: 'solana',
+  access_pass: { price_usdc: '5.00', duration_hours: 168, call_limit: 100 },
+} as unknown as BlinkData
+
+const PASS = { id: 'pass-1', blink_id: 'blink-1', wallet: WALLET, expires_at: new Date('2026-10-26T00:00:00Z') } as unknown as AccessPass
+
+function run(overrides: Partial<RunData> = {}): RunData {
+  return { id: 'run-1', blink_id: 'blink-1', reference: `pass-buy-${TX_SIGNATURE}`, status: 'pending', payer: null, ...overrides } as RunData
+}
+
+describe('POST /api/passes/:slug/purchase', () => {
+  let app: FastifyInstance
+  let query: ReturnType<typeof vi.spyOn>
+
+  beforeAll(async () => {
+    query = vi.spyOn(getPool(), 'query').mockImplementation((async () => ({ rows: [] })) as never)
+    app = Fastify({ logger: false })
+    await app.register(passRoutes, { prefix: '/api/passes' })
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+    query.mockRestore()
+    await closePool()
+  })
+
+  beforeEach(() => {
+    vi.mocked(getBlinkBySlug).mockResolvedValue(BLINK)
+    vi.mocked(verifyPassPurchase).mockReset()
+    vi.mocked(getRunByReference).mockReset()
+    vi.mocked(createRun).mockReset()
+    vi.mocked(updateRunPaymentAtomic).mockReset()
+    vi.mocked(grantAccessPass).mockReset()
+    vi.mocked(grantAccessPass).mockResolvedValue(PASS)
+  })
+
+  function purchase(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+    return app.inject({ method: 'POST', url: '/api/passes/weather/purchase', payload: body, headers })
+  }
+
+  describe('with a USDC transfer', () => {
+    it('grants a pass for a verified transfer', async () => {
+      vi.mocked(verifyPassPurchase).mockResolvedValue('5')
+      vi.mocked(getRunByReference).mockResolvedValue(null)
+      vi.mocked(createRun).mockResolvedValue(run())
+
+      const response = await purchase({ tx_signature: TX_SIGNATURE })
+
+      expect(response.statusCode).toBe(201)
+      expect(verifyPassPurchase).toHaveBeenCalledWith({ wallet: WALLET, payoutWallet: 'PayoutWa11et', price: '5.00', signature: TX_SIGNATURE })
+      expect(updateRunPaymentAtomic).toHaveBeenCalledWith({ reference: `pass-buy-${TX_SIGNATURE}`, signature: TX_SIGNATURE, payer: WALLET })
+      expect(grantAccessPass).toHaveBeenCalledWith({ blinkId: 'blink-1', wallet: WALLET, runId: 'run-1', config: BLINK.access_pass })
+      expect(JSON.parse(response.body).description).toBe('100 calls for 7 days')
+    })
+
+    it('returns the same pass when the transfer was already claimed by this wallet', async () => {
+      vi.mocked(verifyPassPurchase).mockResolvedValue('5')
+      vi.mocked(getRunByReference).mockResolvedValue(run({ status: 'paid', payer: WALLET }))
+
+      expect((await purchase({ tx_signature: TX_SIGNATURE })).statusCode).toBe(201)
+      expect(createRun).not.toHaveBeenCalled()
+      expect(updateRunPaymentAtomic).not.toHaveBeenCalled()
+      expect(grantAccessPass).toHaveBeenCalledWith(expect.objectContaining({ runId: 'run-1' }))
+    })
+
+    it('returns 409 for a transfer that paid for another wallet', async () => {
+      vi.mocked(verifyPassPurchase).mockResolvedValue('5')
+      vi.mocked(getRunByReference).mockResolvedValue(run({ status: 'paid', payer: 'SomeoneElse' }))
+
+      const response = await purchase({ tx_signature: TX_SIGNATURE })
+
+      expect(response.statusCode).toBe(409)
+      expect(JSON.parse(response.body).error).toBe('Payment already claimed')
+      expect(grantAccessPass).not.toHaveBeenCalled()
+    })
+
+    it('does not grant a pass for transfers that fail verification', async () => {
+      vi.mocked(verifyPassPurchase).mockRejectedValue(new Error('USDC was not sent from this wallet'))
+
+      const response = await purchase({ tx_signature: TX_SIGNATURE })
+
+      expect(response.statusCode).toBe(400)
+      expect(JSON.parse(response.body).details).toBe('USDC was not sent from this wallet')
+      expect(createRun).not.toHaveBeenCalled()
+      expect(grantAccessPass).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('with credits', () => {
+    const creditRun = (overrides: Partial<RunData> = {}) => run({ reference: `pass-credits-${IDEMPOTENCY_KEY}`, ...overrides })
+
+    it('charges the pass price once per idempotency key', async () => {
+      vi.mocked(getRunByReference).mockResolvedValueOnce(null)
+      vi.mocked(createRun).mockResolvedValue(creditRun())
+
+      expect((await purchase({ pay_with: 'credits' }, { 'idempotency-key': IDEMPOTENCY_KEY })).statusCode).toBe(201)
+      expect(updateRunPaymentAtomic).toHaveBeenCalledWith({
+        reference: `pass-credits-${IDEMPOTENCY_KEY}`,
+        signature: `pass-credits-${IDEMPOTENCY_KEY}`,
+        payer: WALLET,
+        credits: { amount: '5.00' },
+      })
+
+      vi.mocked(updateRunPaymentAtomic).mockClear()
+      vi.mocked(getRunByReference).mockResolvedValue(creditRun({ status: 'paid', payer: WALLET }))
+
+      expect((await purchase({ pay_with: 'credits' }, { 'idempotency-key': IDEMPOTENCY_KEY })).statusCode).toBe(201)
+      expect(updateRunPaymentAtomic).not.toHaveBeenCalled()
+    })
+
+    it('returns 402 when the credit payment is refused', async () => {
+      vi.mocked(getRunByReference).mockResolvedValueOnce(null).mockResolvedValue(creditRun())
+      vi.mocked(createRun).mockResolvedValue(creditRun())
+      vi.mocked(updateRunPaymentAtomic).mockRejectedValue(new Error('Insufficient credits'))
+
+      const response = await purchase({ pay_with: 'credits' }, { 'idempotency-key': IDEMPOTENCY_KEY })
+
+      expect(response.statusCode).toBe(402)
+      expect(grantAccessPass).not.toHaveBeenCalled()
+    })
+
+    it('requires an idempotency key', async () => {
+      expect((await purchase({ pay_with: 'credits' })).statusCode).toBe(400)
+      expect(createRun).not.toHaveBeenCalled()
+    })
+  })
+
+  it('rejects blinks that do not sell passes', async () => {
+    vi.mocked(getBlinkBySlug).mockResolvedValue({ ...BLINK, access_pass: null } as unknown as BlinkData)
+
+    expect((await purchase({ tx_signature: TX_SIGNATURE })).statusCode).toBe(400)
+    expect(verifyPassPurchase).not.toHaveBeenCalled()
+  })
+})
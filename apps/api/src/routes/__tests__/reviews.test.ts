@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import Fastify, { FastifyInstance, FastifyRequest } from 'fastify'
+import type { BlinkData } from '@blink402/types'
+
+const auth = vi.hoisted(() => ({ wallet: '' }))
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  getBlinkBySlug: vi.fn(),
+}))
+vi.mock('../../auth.js', async (importOriginal) => {
+  const authenticate = async (request: FastifyRequest) => {
+    request.authenticatedWallet = auth.wallet
+  }
+  return {
+    ...(await importOriginal<typeof import('../../auth.js')>()),
+    verifyWalletAuth: vi.fn(authenticate),
+    requireScope: vi.fn(() => authenticate),
+  }
+})
+
+import { getPool, closePool, getBlinkBySlug } from '@blink402/database'
+import { reviewRoutes } from '../reviews.js'
+
+type Query = (sql: string, params?: unknown[]) => Promise<{ rows: unknown[] }>
+
+const CREATOR_WALLET = 'CreatorWa11et1111111111111111111111111111111'
+const PAYER_WALLET = 'PayerWa11et11111111111111111111111111111111'
+const REVIEW = { id: 'review-1', blink_id: 'blink-1', reviewer_wallet: PAYER_WALLET, rating: 5, comment: 'Fast and accurate' }
+
+const BLINK = {
+  id: 'blink-1',
+  slug: 'weather',
+  payment_mode: 'charge',
+  creator: { wallet: CREATOR_WALLET },
+} as unknown as BlinkData
+
+describe('review routes', () => {
+  let app: FastifyInstance
+  let connect: ReturnType<typeof vi.spyOn>
+  let poolQuery: ReturnType<typeof vi.spyOn>
+  const query = vi.fn<Query>()
+
+  beforeAll(async () => {
+    connect = vi.spyOn(getPool(), 'connect').mockImplementation((async () => ({ query, release: vi.fn() })) as never)
+    poolQuery = vi.spyOn(getPool(), 'query')
+    app = Fastify({ logger: false })
+    await app.register(reviewRoutes, { prefix: '/api/reviews' })
+    await app.ready()
+  })
+
+  afterAll(async () => {
+    await app.close()
+    connect.mockRestore()
+    poolQuery.mockRestore()
+    await closePool()
+  })
+
+  beforeEach(() => {
+    auth.wallet = PAYER_WALLET
+    query.mockReset()
+    poolQuery.mockReset()
+    vi.mocked(getBlinkBySlug).mockResolvedValue(BLINK)
+  })
+
+  function statements(): string[] {
+    return query.mock.calls.map(([sql]) => sql)
+  }
+
+  function review(body: Record<string, unknown>) {
+    return app.inject({ method: 'POST', url: '/api/reviews/weather', payload: body })
+  }
+
+  describe('POST /api/reviews/:slug', () => {
+    it('ties the review to the payer\'s executed run and refreshes the rating', async () => {
+      query.mockImplementation(async (sql) => {
+        if (sql.includes('FROM runs')) return { rows: [{ id: 'run-1' }] }
+        if (sql.includes('INSERT INTO blink_reviews')) return { rows: [REVIEW] }
+        return { rows: [] }
+      })
+
+      const response = await review({ rating: 5, comment: '  Fast and accurate  ' })
+
+      expect(response.statusCode).toBe(200)
+      const runLookup = query.mock.calls.find(([sql]) => sql.includes('FROM runs'))!
+      expect(runLookup[0]).toContain("payer = $2 AND status = 'executed'")
+      expect(runLookup[1]).toEqual(['blink-1', PAYER_WALLET])
+      const insert = query.mock.calls.find(([sql]) => sql.includes('INSERT INTO blink_reviews'))!
+      expect(insert[1]).toEqual(['blink-1', 'run-1', PAYER_WALLET, 5, 'Fast and accurate'])
+      expect(statements()).toContainEqual(expect.stringContaining('SET rating_count = s.review_count'))
+      expect(statements().at(-1)).toBe('COMMIT')
+    })
+
+    it('returns 403 for wallets without an executed run of the blink', async () => {
+      query.mockResolvedValue({ rows: [] })
+
+      const response = await review({ rating: 5 })
+
+      expect(response.statusCode).toBe(403)
+      expect(JSON.parse(response.body).error).toBe('Review not allowed')
+      expect(statements()).not.toContainEqual(expect.stringContaining('INSERT INTO blink_reviews'))
+      expect(statements()).toContain('ROLLBACK')
+    })
+
+    it('does not let creators review their own blinks', async () => {
+      auth.wallet = CREATOR_WALLET
+
+      expect((await review({ rating: 5 })).statusCode).toBe(403)
+      expect(query).not.toHaveBeenCalled()
+    })
+
+    it('rejects ratings outside 1-5 and reward blinks', async () => {
+      expect((await review({ rating: 6 })).statusCode).toBe(400)
+      expect((await review({ rating: 4.5 })).statusCode).toBe(400)
+
+      vi.mocked(getBlinkBySlug).mockResolvedValue({ ...BLINK, payment_mode: 'reward' } as BlinkData)
+      expect((await review({ rating: 5 })).statusCode).toBe(400)
+      expect(query).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PUT /api/reviews/:slug/:id/reply', () => {
+    function replyTo(text: string | null) {
+      return app.inject({ method: 'PUT', url: '/api/reviews/weather/review-1/reply', payload: { reply: text } })
+    }
+
+    it('lets the creator reply to a review of their blink', async () => {
+      auth.wallet = CREATOR_WALLET
+      poolQuery.mockImplementation((async () => ({ rows: [{ ...REVIEW, creator_reply: 'Thanks!' }] })) as never)
+
+      const response = await replyTo(' Thanks! ')
+
+      expect(response.statusCode).toBe(200)
+      expect(poolQuery.mock.calls[0][1]).toEqual(['review-1', 'blink-1', 'Thanks!'])
+    })
+
+    it('only lets the creator reply', async () => {
+      expect((await replyTo('Thanks!')).statusCode).toBe(403)
+      expect(poolQuery).not.toHaveBeenCalled()
+    })
+
+    it('returns 404 for reviews of another blink', async () => {
+      auth.wallet = CREATOR_WALLET
+      poolQuery.mockImplementation((async () => ({ rows: [] })) as never)
+
+      expect((await replyTo('Thanks!')).statusCode).toBe(404)
+    })
+  })
+
+  describe('GET /api/reviews/:slug', () => {
+    it('returns the average, star distribution and page', async () => {
+      poolQuery.mockImplementation((async (sql: string) => (
+        sql.includes('GROUP BY rating')
+          ? { rows: [{ rating: 5, count: 2 }, { rating: 2, count: 1 }] }
+          : { rows: [REVIEW] }
+      )) as never)
+
+      const response = await app.inject({ method: 'GET', url: '/api/reviews/weather?limit=1' })
+
+      const body = JSON.parse(response.body)
+      expect(body.summary).toEqual({ average: 4, count: 3, distribution: [0, 1, 0, 0, 2] })
+      expect(body.pagination).toEqual({ limit: 1, offset: 0, total: 3, has_more: true })
+    })
+  })
+})
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import Fastify, { FastifyInstance } from 'fastify'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  getSlotSpinByReference: vi.fn(),
+  getRunByReference: vi.fn(),
+  getActiveSlotSeedPair: vi.fn(),
+  claimSlotSpinNonce: vi.fn(),
+  createSlotSpin: vi.fn(),
+}))
+
+import {
+  getSlotSpinByReference,
+  getRunByReference,
+  getActiveSlotSeedPair,
+  claimSlotSpinNonce,
+  createSlotSpin,
+  type SlotSpinData,
+  type RunData,
+} from '@blink402/database'
+import { slotsRoutes } from '../slots.js'
+import { hashSlotServerSeed, validateClientSeed } from '../../utils/slot-seeds.js'
+
+const SERVER_SEED = 'f'.repeat(64)
+const CLIENT_SEED = 'lucky-seed'
+
+describe('Slot machine seed verification', () => {
+  let app: FastifyInstance
+  let reels: string[]
+
+  beforeAll(async () => {
+    app = Fastify({ logger: false })
+    await app.register(slotsRoutes, { prefix: '/api/slots' })
+    await app.ready()
+
+    // Reels the provably fair calculation gives for these seeds (returned when a claim doesn't match)
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/slots/verify',
+      payload: {
+        serverSeed: SERVER_SEED,
+        serverSeedHash: hashSlotServerSeed(SERVER_SEED),
+        clientSeed: CLIENT_SEED,
+        nonce: '7',
+        reels: ['?', '?', '?'],
+      },
+    })
+    reels = JSON.parse(response.body).expected
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    vi.mocked(getSlotSpinByReference).mockReset()
+    vi.mocked(getRunByReference).mockReset()
+    vi.mocked(getActiveSlotSeedPair).mockReset()
+    vi.mocked(claimSlotSpinNonce).mockReset()
+    vi.mocked(createSlotSpin).mockReset()
+  })
+
+  function storedSpin(overrides: Partial<SlotSpinData> = {}): SlotSpinData {
+    return {
+      id: 'spin-1',
+      run_id: 'run-1',
+      reference: 'ref-123',
+      seed_pair_id: 'pair-1',
+      wallet: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      nonce: 7,
+      reels,
+      payout_usdc: '0',
+      multiplier: '0',
+      created_at: new Date('2026-10-01T00:00:00Z'),
+      server_seed_hash: hashSlotServerSeed(SERVER_SEED),
+      server_seed: SERVER_SEED,
+      client_seed: CLIENT_SEED,
+      ...overrides,
+    }
+  }
+
+  describe('POST /api/slots/verify', () => {
+    it('regenerates three reels deterministically', async () => {
+      expect(reels).toHaveLength(3)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/slots/verify',
+        payload: {
+          serverSeed: SERVER_SEED,
+          serverSeedHash: hashSlotServerSeed(SERVER_SEED),
+          clientSeed: CLIENT_SEED,
+          nonce: '7',
+          reels,
+        },
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.body)).toMatchObject({ success: true, verified: true, reels })
+    })
+
+    it('rejects a server seed that does not match its commitment', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/slots/verify',
+        payload: {
+          serverSeed: SERVER_SEED,
+          serverSeedHash: hashSlotServerSeed('0'.repeat(64)),
+          clientSeed: CLIENT_SEED,
+          nonce: '7',
+          reels,
+        },
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(JSON.parse(response.body).error).toBe('Server seed does not match pre-committed hash. Possible manipulation detected.')
+    })
+  })
+
+  describe('GET /api/slots/verify', () => {
+    it('verifies a spin once its server seed is revealed', async () => {
+      vi.mocked(getSlotSpinByReference).mockResolvedValue(storedSpin())
+
+      const response = await app.inject({ method: 'GET', url: '/api/slots/verify?reference=ref-123' })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.body)).toMatchObject({ success: true, verified: true, replayedReels: reels })
+    })
+
+    it('cannot verify a spin whose server seed is still active', async () => {
+      vi.mocked(getSlotSpinByReference).mockResolvedValue(storedSpin({ server_seed: null }))
+
+      const body = JSON.parse((await app.inject({ method: 'GET', url: '/api/slots/verify?reference=ref-123' })).body)
+
+      expect(body.verified).toBeNull()
+      expect(body.serverSeed).toBeNull()
+    })
+
+    it('flags stored reels that differ from the replay', async () => {
+      const tampered = reels[0] === '🎰' ? ['💎', '💎', '💎'] : ['🎰', '🎰', '🎰']
+      vi.mocked(getSlotSpinByReference).mockResolvedValue(storedSpin({ reels: tampered }))
+
+      const body = JSON.parse((await app.inject({ method: 'GET', url: '/api/slots/verify?reference=ref-123' })).body)
+
+      expect(body.verified).toBe(false)
+      expect(body.message).toBe('Spin result does not match the provably fair calculation.')
+    })
+
+    it('flags a revealed seed that does not match the commitment', async () => {
+      vi.mocked(getSlotSpinByReference).mockResolvedValue(storedSpin({ server_seed_hash: hashSlotServerSeed('0'.repeat(64)) }))
+
+      const body = JSON.parse((await app.inject({ method: 'GET', url: '/api/slots/verify?reference=ref-123' })).body)
+
+      expect(body.verified).toBe(false)
+    })
+
+    it('returns 404 for unknown references', async () => {
+      vi.mocked(getSlotSpinByReference).mockResolvedValue(null)
+
+      const response = await app.inject({ method: 'GET', url: '/api/slots/verify?reference=missing' })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('POST /api/slots/spin', () => {
+    it('rejects a payer other than the wallet that paid for the run', async () => {
+      vi.mocked(getRunByReference).mockResolvedValue({
+        id: 'run-1',
+        reference: 'ref-123',
+        status: 'paid',
+        payer: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      } as RunData)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/slots/spin',
+        payload: { reference: 'ref-123', payer: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB' },
+      })
+
+      expect(response.statusCode).toBe(403)
+      expect(JSON.parse(response.body).error).toBe('This payment was made by a different wallet')
+      expect(getActiveSlotSeedPair).not.toHaveBeenCalled()
+      expect(claimSlotSpinNonce).not.toHaveBeenCalled()
+      expect(createSlotSpin).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('validateClientSeed', () => {
+    it('accepts 1-64 letters, digits, _ and -', () => {
+      expect(validateClientSeed(CLIENT_SEED)).toBeNull()
+      expect(validateClientSeed('a'.repeat(64))).toBeNull()
+    })
+
+    it('rejects seeds that could break the spin hash', () => {
+      for (const seed of ['', 'a'.repeat(65), 'seed:7', 'seed with spaces', 42]) {
+        expect(validateClientSeed(seed)).not.toBeNull()
+      }
+    })
+  })
+})
@@ -9,7 +9,7 @@
  */
 
 import { FastifyPluginAsync } from 'fastify'
-import { getBlinkBySlug, createRun, updateRunPaymentAtomic } from '@blink402/database'
+import { getBlinkBySlug, createRun, updateRunPaymentAtomic, recordBlinkMetadataView } from '@blink402/database'
 import {
   getConnection,
   buildSolTransferTransaction,
@@ -28,6 +28,12 @@ import {
   createTransferCheckedInstruction,
 } from '@solana/spl-token'
 import { createLotteryEntryInternal } from './lottery.js'
+import { buildActionsMetadata, getActionAmountPresets } from '../utils/actions-config.js'
+import { getActionCallbackUrl } from '../utils/action-chaining.js'
+import { quoteRunPrice, priceMetadata } from '../utils/pricing.js'
+import { resolveCoupon } from '../utils/coupons.js'
+import { getPaymentWallet, splitMetadata } from '../utils/revenue-splits.js'
+import type { Coupon } from '@blink402/types'
 
 const USDC_MINT = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v")
 const USDC_DECIMALS = 6
@@ -48,182 +54,13 @@ export const actionsMetadataRoutes: FastifyPluginAsync = async (fastify) => {
         return reply.code(404).send({ error: 'Blink not found' })
       }
 
-      // Build Actions metadata (Dialect standard) for all blinks
+      // Build Actions metadata (Dialect standard) from the blink's stored actions config
       // Always use blink402.dev for production (custom domain)
       const webUrl = 'https://blink402.dev'
+      const metadata = buildActionsMetadata(blink, webUrl)
 
-      // Build actions array with input parameters
-      const actions: any[] = []
-
-      // Lottery blinks - special handling
-      if (blink.lottery_enabled || slug.includes('lottery')) {
-        const entryPrice = parseFloat(blink.price_usdc)
-        actions.push({
-          label: `🎰 Buy Entry (${entryPrice} USDC)`,
-          href: `/api/actions/${slug}`,
-        })
-      }
-      // Dynamic parameter handling: Read from blink.parameters if defined
-      // This allows any blink to declare input parameters via database
-      else if (blink.parameters && blink.parameters.length > 0) {
-        actions.push({
-          label: blink.method === 'POST' ? 'Submit Request' : 'Get Data',
-          href: `/api/actions/${slug}`,
-          parameters: blink.parameters.map(param => ({
-            name: param.name,
-            label: param.label,
-            type: param.type,
-            required: param.required,
-            pattern: param.pattern,
-            patternDescription: param.patternDescription,
-            placeholder: param.placeholder,
-            min: param.min,
-            max: param.max,
-          })),
-        })
-      }
-      // Legacy hardcoded parameters (fallback for existing blinks without parameters defined)
-      else if (slug === 'wallet-tracker' || slug === 'wallet-snapshot' || slug === 'wallet-analyzer') {
-        actions.push({
-          label: 'Analyze Wallet',
-          href: `/api/actions/${slug}`,
-          parameters: [
-            {
-              name: 'wallet',
-              label: 'Enter Solana wallet address',
-              type: 'text',
-              required: true,
-              pattern: '^[1-9A-HJ-NP-Za-km-z]{32,44}$',
-              patternDescription: 'Please enter a valid Solana address',
-            },
-          ],
-        })
-      }
-      else if (slug === 'qr-code' || slug === 'qr-code-generator') {
-        actions.push({
-          label: 'Generate QR Code',
-          href: `/api/actions/${slug}`,
-          parameters: [
-            {
-              name: 'text',
-              label: 'Enter text or URL for QR code',
-              type: 'text',
-              required: true,
-            },
-          ],
-        })
-      }
-      else if (slug === 'token-price' || slug === 'dexscreener-token-data') {
-        actions.push({
-          label: slug === 'token-price' ? 'Get Token Price' : 'Get Token Data',
-          href: `/api/actions/${slug}`,
-          parameters: [
-            {
-              name: 'tokenAddress',
-              label: 'Enter Solana token address',
-              type: 'text',
-              required: true,
-              pattern: '^[1-9A-HJ-NP-Za-km-z]{32,44}$',
-              patternDescription: 'Please enter a valid Solana token address',
-            },
-          ],
-        })
-      }
-      // Buy B402 - Jupiter swap (user signs swap transaction directly)
-      else if (slug === 'buy-b402') {
-        actions.push(
-          {
-            label: '🪐 0.01 SOL → B402',
-            href: `/api/actions/${slug}?amount=0.01`,
-          },
-          {
-            label: '🪐 0.1 SOL → B402',
-            href: `/api/actions/${slug}?amount=0.1`,
-          },
-          {
-            label: '🪐 0.5 SOL → B402',
-            href: `/api/actions/${slug}?amount=0.5`,
-          },
-          {
-            label: '🪐 Custom Amount',
-            href: `/api/actions/${slug}`,
-            parameters: [
-              {
-                name: 'amount',
-                label: 'Enter SOL amount to swap',
-                type: 'number',
-                required: true,
-                min: 0.001,
-                max: 100,
-              },
-            ],
-          }
-        )
-      }
-      // Burn B402 with multiple preset amounts + custom input
-      else if (slug === 'burn-b402') {
-        // Preset amount buttons
-        actions.push(
-          {
-            label: '🔥 0.01 SOL',
-            href: `/api/actions/${slug}?amount=0.01`,
-          },
-          {
-            label: '🔥 0.1 SOL',
-            href: `/api/actions/${slug}?amount=0.1`,
-          },
-          {
-            label: '🔥 1 SOL',
-            href: `/api/actions/${slug}?amount=1`,
-          },
-          {
-            label: '🔥 Burn B402',
-            href: `/api/actions/${slug}`,
-            parameters: [
-              {
-                name: 'amount',
-                label: 'Enter SOL amount to burn',
-                type: 'number',
-                required: true,
-                min: 0.001,
-                max: 100,
-              },
-            ],
-          }
-        )
-      }
-      // Default action for blinks without inputs
-      else {
-        actions.push({
-          label: blink.method === 'POST' ? 'Submit Request' : 'Get Data',
-          href: `/api/actions/${slug}`,
-        })
-      }
-
-      // Use dynamic OG image with text overlay (blink name + description)
-      // Falls back to static images for special blinks
-      let iconUrl: string
-      if (slug === 'buy-b402') {
-        iconUrl = `${webUrl}/Buy-b402.png`
-      } else if (slug === 'burn-b402') {
-        iconUrl = `${webUrl}/Burn-b402.png`
-      } else if (blink.lottery_enabled || slug.includes('lottery')) {
-        iconUrl = `${webUrl}/LOTERRY.png`
-      } else {
-        // Use dynamic OG image endpoint with text overlay
-        iconUrl = blink.icon_url || `${webUrl}/api/og/${slug}`
-      }
-
-      const metadata = {
-        type: 'action',
-        title: blink.title,
-        icon: iconUrl,
-        description: blink.description,
-        label: `Use ${blink.title}`,
-        links: {
-          actions,
-        },
-      }
+      // Top of the checkout funnel in creator analytics (never delays the unfurl)
+      void recordBlinkMetadataView(blink.id)
 
       return reply
         .code(200)
@@ -255,13 +92,16 @@ export const actionsMetadataRoutes: FastifyPluginAsync = async (fastify) => {
         tokenAddress?: string  // For token price lookup blinks
         imagePrompt?: string   // For AI image generation blinks
         amount?: string        // For amount-based blinks
+        coupon?: string        // Creator coupon code
+        [key: string]: string | undefined // Other declared blink parameters
       }
     }
-    Querystring: { amount?: string }
+    Querystring: { amount?: string; coupon?: string }
   }>('/:slug', async (request, reply) => {
     const { slug } = request.params
     const { account, data } = request.body
     const queryAmount = request.query.amount
+    const couponCode = request.query.coupon || data?.coupon
 
     // Extract user input parameters from 'data' object (Solana Actions spec)
     const { wallet, text, tokenAddress, imagePrompt } = data || {}
@@ -285,6 +125,14 @@ export const actionsMetadataRoutes: FastifyPluginAsync = async (fastify) => {
         return reply.code(404).send({ error: 'Blink not found' })
       }
 
+      // Disabled actions (see actions_config) and paused blinks can't be bought through Actions
+      if (blink.status !== 'active' || blink.actions_config?.disabled) {
+        return reply.code(400).send({
+          error: 'Blink unavailable',
+          message: blink.actions_config?.error || 'This blink is currently unavailable',
+        })
+      }
+
       // Special handling for buy-b402 - Platform-mediated Jupiter swap
       // User pays SOL → Platform swaps via Jupiter → Platform sends B402 tokens
       if (slug === 'buy-b402') {
@@ -466,9 +314,38 @@ export const actionsMetadataRoutes: FastifyPluginAsync = async (fastify) => {
         })
       }
 
-      // Parse addresses
+      // Price preset buttons send ?amount=, which must be one of the blink's configured presets
+      let priceUsdc = blink.price_usdc
+      let pricing: ReturnType<typeof priceMetadata> = {}
+      if (queryAmount) {
+        const preset = getActionAmountPresets(blink.actions_config)
+          .find((amount) => parseFloat(amount) === parseFloat(queryAmount))
+        if (!preset) {
+          return reply.code(400).send({
+            error: 'Invalid amount',
+            message: 'amount must match one of this blink\'s price presets',
+          })
+        }
+        priceUsdc = preset
+      } else if (blink.pricing_rules || couponCode) {
+        // Dynamic pricing and coupons: quote the inputs and lock the quote into the run
+        let coupon: Coupon | null = null
+        if (couponCode) {
+          const resolved = await resolveCoupon({ code: couponCode, blink, wallet: account })
+          if ('error' in resolved) {
+            return reply.code(400).send({ error: 'Invalid coupon', message: resolved.error })
+          }
+          coupon = resolved.coupon
+        }
+
+        const quote = await quoteRunPrice({ blink, inputs: data, wallet: account, coupon })
+        priceUsdc = quote.price_usdc
+        pricing = priceMetadata(blink, quote, data)
+      }
+
+      // Parse addresses (revenue split blinks are paid to the settlement wallet)
       const sender = parsePublicKey(account)
-      const recipient = parsePublicKey(blink.payout_wallet)
+      const recipient = parsePublicKey(getPaymentWallet(blink))
 
       if (!sender || !recipient) {
         return reply.code(400).send({ error: 'Invalid wallet address' })
@@ -478,6 +355,10 @@ export const actionsMetadataRoutes: FastifyPluginAsync = async (fastify) => {
       const referenceKeypair = generateReference()
       const reference = referenceKeypair.publicKey
 
+      // The coupon is applied to the quote above, not passed to the blink's API
+      const runInputs = { ...data }
+      delete runInputs.coupon
+
       // Create run in database with user input parameters
       const run = await createRun({
         blinkId: blink.id,
@@ -488,6 +369,11 @@ export const actionsMetadataRoutes: FastifyPluginAsync = async (fastify) => {
           text,                      // For QR code/text blinks
           tokenAddress,              // For token price blinks
           imagePrompt,               // For AI image generation
+          ...(priceUsdc !== blink.price_usdc ? { amountUsdc: priceUsdc } : {}),
+          ...pricing,
+          ...splitMetadata(blink),
+          // Raw parameter values (button params), forwarded when the proxy executes the run
+          ...(data ? { inputs: runInputs } : {}),
         },
       })
 
@@ -500,7 +386,7 @@ export const actionsMetadataRoutes: FastifyPluginAsync = async (fastify) => {
 
       // Build USDC transfer transaction (VersionedTransaction to prevent Phantom blocking)
       const connection = getConnection()
-      const amount = BigInt(Math.round(parseFloat(blink.price_usdc) * 1_000_000))
+      const amount = BigInt(Math.round(parseFloat(priceUsdc) * 1_000_000))
 
       // Get token accounts
       const senderATA = await getAssociatedTokenAddress(USDC_MINT, sender)
@@ -595,7 +481,7 @@ export const actionsMetadataRoutes: FastifyPluginAsync = async (fastify) => {
       // Return transaction with callback for Phantom to send signature after submission
       // CRITICAL: Callback URL must be same-origin as the request (Solana Actions spec requirement)
       // Always use blink402.dev since that's the only domain registered with Dialect
-      const callbackUrl = `https://blink402.dev/api/actions/submit/${reference.toBase58()}`
+      const callbackUrl = getActionCallbackUrl(reference.toBase58())
 
       fastify.log.info({
         'callbackUrl': callbackUrl,
@@ -20,8 +20,10 @@ import {
   getBlinkBySlug,
   getCreatorPayoutKey,
   decrypt,
+  createSlotSpin,
 } from '@blink402/database'
 import type { SlotSymbol } from '@blink402/types'
+import { claimSpinSeed } from '../utils/slot-seeds.js'
 
 // Slot machine configuration (matches slots.ts)
 const SLOT_CONFIG = {
@@ -289,16 +291,23 @@ export const actionsSlotMachineRoutes: FastifyPluginAsync = async (fastify) => {
         })
       }
 
-      // Generate provably fair result
-      const serverSeed = crypto.randomBytes(32).toString('hex')
-      const serverSeedHash = crypto.createHmac('sha256', serverSeed).digest('hex')
-      const clientSeed = account
-      const nonce = run.id
+      // Generate provably fair result from the player's pre-committed seed pair
+      const { seedPairId, serverSeed, clientSeed, nonce } = await claimSpinSeed(account)
 
-      const reels = generateProvablyFairSpin(serverSeed, clientSeed, nonce)
+      const reels = generateProvablyFairSpin(serverSeed, clientSeed, String(nonce))
       const { payout, multiplier, win } = calculatePayout(reels, SLOT_CONFIG.betAmount)
 
-      fastify.log.info({ reels, payout, multiplier, win }, 'Spin result calculated')
+      fastify.log.info({ reels, payout, multiplier, win, seedPairId, nonce }, 'Spin result calculated')
+
+      await createSlotSpin({
+        runId: run.id,
+        seedPairId,
+        wallet: account,
+        nonce,
+        reels,
+        payoutUsdc: payout,
+        multiplier,
+      })
 
       // If win, send instant payout
       let payoutSignature: string | undefined
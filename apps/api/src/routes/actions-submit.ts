@@ -1,6 +1,14 @@
-import { FastifyPluginAsync } from 'fastify'
-import { updateRunPaymentAtomic, markRunExecuted, getRunByReference, getBlinkById } from '@blink402/database'
+import { FastifyPluginAsync, type FastifyInstance } from 'fastify'
+import { updateRunPaymentAtomic, markRunFailed, getRunByReference, getBlinkById, type RunData } from '@blink402/database'
 import { getConnection } from '@blink402/solana'
+import type { BlinkData } from '@blink402/types'
+import {
+  INLINE_RESULT_TIMEOUT_MS,
+  buildRunNextAction,
+  getExternalLinkUrl,
+  type ExternalLinkTarget,
+} from '../utils/action-chaining.js'
+import { refundFailedRun } from '../utils/refunds.js'
 
 /**
  * Verify that a transaction signature exists and is confirmed on-chain
@@ -25,6 +33,57 @@ async function verifyTransactionOnChain(signature: string): Promise<boolean> {
   }
 }
 
+/**
+ * Execute a paid Actions run through the bazaar proxy
+ * The proxy applies everything a paid call gets (upstream auth, request template, response
+ * transform, artifacts, pipelines, URL validation and the refund policy on failure) and stores
+ * the outcome on the run. The run is already paid, so the proxy goes straight to execution.
+ * @param ip - Caller's address, so the call counts against their rate limit rather than the server's
+ */
+async function executeActionRun(
+  fastify: FastifyInstance,
+  run: RunData,
+  blink: BlinkData,
+  ip: string
+): Promise<void> {
+  const { reference } = run
+  try {
+    const response = await fastify.inject({
+      method: 'POST',
+      url: `/bazaar/${encodeURIComponent(blink.slug)}`,
+      remoteAddress: ip,
+      payload: {
+        reference,
+        // Button parameters collected by the action (see actions-metadata.ts)
+        data: run.metadata?.inputs || {},
+      },
+    })
+
+    fastify.log.info({
+      reference,
+      status: response.statusCode
+    }, 'Actions run executed through the proxy')
+  } catch (error) {
+    fastify.log.error({
+      error: error instanceof Error ? error.message : String(error),
+      reference
+    }, 'Failed to execute Actions run')
+
+    // The proxy settles the run itself; this only covers it never getting there.
+    // Let the chained action show the failure instead of "still running" forever.
+    const latestRun = await getRunByReference(reference).catch(() => null)
+    if (latestRun?.status === 'paid') {
+      await markRunFailed(reference).catch(() => null)
+      await refundFailedRun({
+        blink,
+        run: latestRun,
+        reason: error instanceof Error ? error.message : String(error),
+        log: fastify.log,
+      }).catch(() => null)
+    }
+  }
+}
+
 /**
  * POST /api/actions/submit/:reference
  *
@@ -34,9 +93,10 @@ async function verifyTransactionOnChain(signature: string): Promise<boolean> {
  * Flow:
  * 1. Update run with signature
  * 2. Verify payment on-chain
- * 3. Execute API call
- * 4. Store response and mark as executed
- * 5. Return View Results link
+ * 3. Execute the run through the bazaar proxy (waiting up to INLINE_RESULT_TIMEOUT_MS for it)
+ * 4. The proxy stores the response, or marks the run failed and refunds it per the blink's policy
+ * 5. Return the next action: the inline result with run again/share/follow-up
+ *    buttons, or a "Check result" button while the call is still running
  */
 export const actionsSubmitRoutes: FastifyPluginAsync = async (fastify) => {
   // POST endpoint to receive signature from wallet
@@ -69,14 +129,12 @@ export const actionsSubmitRoutes: FastifyPluginAsync = async (fastify) => {
           existingSignature: existingRun.signature
         }, 'Callback already processed, returning cached response (idempotent)')
 
-        return reply.code(200).send({
-          type: 'external-link',
-          icon: 'https://blink402.dev/logo.png',
-          title: '✅ Payment Confirmed!',
-          description: `Transaction: ${existingRun.signature.substring(0, 8)}...${existingRun.signature.substring(existingRun.signature.length - 8)}`,
-          label: 'View Results',
-          externalLink: `https://blink402.dev/results/${reference}`
-        })
+        const existingBlink = await getBlinkById(existingRun.blink_id)
+        if (!existingBlink) {
+          return reply.code(404).send({ error: 'Blink not found' })
+        }
+
+        return reply.code(200).send(await buildRunNextAction(existingRun, existingBlink))
       }
 
       if (!signature || !account) {
@@ -127,65 +185,19 @@ export const actionsSubmitRoutes: FastifyPluginAsync = async (fastify) => {
         return reply.code(404).send({ error: 'Blink not found' })
       }
 
-      // Execute API call in background (don't block response)
+      // Execute API call, answering with the result if it finishes in time
       // Transaction has been verified on-chain before reaching this point
-      setImmediate(async () => {
-        // Execute API call
-        const startTime = Date.now()
-        try {
-          // Build request body from metadata
-          const requestBody: any = {}
-          if (run.metadata?.targetWallet) requestBody.wallet = run.metadata.targetWallet
-          if (run.metadata?.text) requestBody.text = run.metadata.text
-          if (run.metadata?.tokenAddress) requestBody.tokenAddress = run.metadata.tokenAddress
-          if (run.metadata?.imagePrompt) requestBody.imagePrompt = run.metadata.imagePrompt
-
-          const response = await fetch(blink.endpoint_url, {
-            method: blink.method,
-            headers: {
-              'Content-Type': 'application/json',
-              'User-Agent': 'Blink402/1.0'
-            },
-            body: blink.method !== 'GET' ? JSON.stringify(requestBody) : undefined
-          })
-
-          const responseData = await response.json()
-          const duration = Date.now() - startTime
-
-          // Mark run as executed with response data
-          await markRunExecuted({
-            reference,
-            durationMs: duration,
-            responseData: responseData
-          })
-
-          fastify.log.info({
-            reference,
-            duration,
-            status: response.status
-          }, 'API executed successfully after callback')
-
-        } catch (error) {
-          fastify.log.error({
-            error: error instanceof Error ? error.message : String(error),
-            reference
-          }, 'Failed to execute API after callback')
-        }
-      })
+      const execution = executeActionRun(fastify, run, blink, request.ip)
+      await Promise.race([
+        execution,
+        new Promise((resolve) => setTimeout(resolve, INLINE_RESULT_TIMEOUT_MS)),
+      ])
 
-      fastify.log.info({ reference, signature }, 'Callback processed, API execution started in background')
+      const latestRun = (await getRunByReference(reference)) || run
 
-      // Return external link to results page (opens in browser)
-      // Using 'external-link' type per Solana Actions spec to open URL in browser
-      // instead of 'action' type which would treat it as an Action endpoint
-      return reply.code(200).send({
-        type: 'external-link',
-        icon: 'https://blink402.dev/logo.png',
-        title: '✅ Payment Confirmed!',
-        description: `Transaction: ${signature.substring(0, 8)}...${signature.substring(signature.length - 8)}`,
-        label: 'View Results',
-        externalLink: `https://blink402.dev/results/${reference}`
-      })
+      fastify.log.info({ reference, signature, status: latestRun.status }, 'Callback processed, returning next action')
+
+      return reply.code(200).send(await buildRunNextAction(latestRun, blink))
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error)
@@ -205,4 +217,56 @@ export const actionsSubmitRoutes: FastifyPluginAsync = async (fastify) => {
       })
     }
   })
+
+  // POST /api/actions/submit/:reference/status - "Check result" button (chained post action)
+  fastify.post<{
+    Params: { reference: string }
+  }>('/:reference/status', async (request, reply) => {
+    const { reference } = request.params
+
+    try {
+      const run = await getRunByReference(reference)
+      const blink = run ? await getBlinkById(run.blink_id) : null
+      if (!run || !blink) {
+        return reply.code(404).send({ message: 'Run not found' })
+      }
+
+      return reply.code(200).send({
+        type: 'post',
+        links: {
+          next: { type: 'inline', action: await buildRunNextAction(run, blink) }
+        }
+      })
+    } catch (error) {
+      fastify.log.error({ error, reference }, 'Failed to build run status action')
+      return reply.code(500).send({ message: 'Failed to check result' })
+    }
+  })
+
+  // POST /api/actions/submit/:reference/link/:target - External-link buttons (results page, share on X)
+  fastify.post<{
+    Params: { reference: string; target: string }
+  }>('/:reference/link/:target', async (request, reply) => {
+    const { reference, target } = request.params
+
+    if (target !== 'results' && target !== 'share') {
+      return reply.code(404).send({ message: 'Unknown link' })
+    }
+
+    try {
+      const run = await getRunByReference(reference)
+      const blink = run ? await getBlinkById(run.blink_id) : null
+      if (!run || !blink) {
+        return reply.code(404).send({ message: 'Run not found' })
+      }
+
+      return reply.code(200).send({
+        type: 'external-link',
+        externalLink: getExternalLinkUrl(target as ExternalLinkTarget, reference, blink.title)
+      })
+    } catch (error) {
+      fastify.log.error({ error, reference, target }, 'Failed to build external link')
+      return reply.code(500).send({ message: 'Failed to open link' })
+    }
+  })
 }
@@ -1,42 +1,18 @@
 import { FastifyPluginAsync } from 'fastify'
 import { getRedis, isRedisConnected } from '@blink402/redis'
-import { getAdminConfig } from '@blink402/config'
-
-/**
- * Verify admin API key from request headers
- */
-function verifyAdminAuth(request: any, reply: any): boolean {
-  const adminConfig = getAdminConfig()
-
-  // If no admin key is configured, reject all requests
-  if (!adminConfig.isEnabled) {
-    reply.code(503).send({
-      error: 'Admin endpoints disabled',
-      message: 'ADMIN_API_KEY environment variable not configured'
-    })
-    return false
-  }
-
-  const providedKey = request.headers['x-admin-key']
-
-  if (!providedKey) {
-    reply.code(401).send({
-      error: 'Unauthorized',
-      message: 'Missing X-Admin-Key header'
-    })
-    return false
-  }
-
-  if (providedKey !== adminConfig.apiKey) {
-    reply.code(403).send({
-      error: 'Forbidden',
-      message: 'Invalid admin API key'
-    })
-    return false
-  }
-
-  return true
-}
+import {
+  getBackgroundJob,
+  getBackgroundJobs,
+  getBackgroundJobCounts,
+  retryBackgroundJob,
+  getLedgerTransactions,
+  getLedgerReconciliationCounts
+} from '@blink402/database'
+import type { BackgroundJobStatus, LedgerReconciliationStatus } from '@blink402/types'
+import { verifyAdminAuth } from '../utils/admin-auth.js'
+
+const JOB_STATUSES: BackgroundJobStatus[] = ['pending', 'running', 'completed', 'dead']
+const RECONCILIATION_STATUSES: LedgerReconciliationStatus[] = ['pending', 'matched', 'mismatch', 'missing', 'skipped']
 
 export const adminRoutes: FastifyPluginAsync = async (fastify) => {
   // Clear all payment locks
@@ -112,4 +88,96 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.code(500).send({ error: 'Failed to clear cache' })
     }
   })
+
+  // Inspect durable background jobs (status=dead lists the dead-letter queue)
+  fastify.get<{
+    Querystring: { status?: string; name?: string; limit?: string }
+  }>('/jobs', async (request, reply) => {
+    if (!verifyAdminAuth(request, reply)) {
+      return
+    }
+
+    const { status, name } = request.query
+    if (status && !JOB_STATUSES.includes(status as BackgroundJobStatus)) {
+      return reply.code(400).send({ error: 'Invalid status', message: `status must be one of: ${JOB_STATUSES.join(', ')}` })
+    }
+    const limit = Math.min(Math.max(parseInt(request.query.limit || '50', 10) || 50, 1), 500)
+
+    try {
+      const [jobs, counts] = await Promise.all([
+        getBackgroundJobs({ status: status as BackgroundJobStatus | undefined, name, limit }),
+        getBackgroundJobCounts()
+      ])
+
+      // Running jobs whose lease has expired are stuck until another replica reclaims them
+      const now = Date.now()
+      return reply.send({
+        counts,
+        jobs: jobs.map(job => ({
+          ...job,
+          lease_expired: job.status === 'running' && !!job.locked_until && new Date(job.locked_until).getTime() < now
+        }))
+      })
+    } catch (error) {
+      fastify.log.error({ error }, 'Failed to list jobs')
+      return reply.code(500).send({ error: 'Failed to list jobs' })
+    }
+  })
+
+  // Re-run a job now: revives dead-lettered jobs and releases stuck running ones
+  fastify.post<{ Params: { id: string } }>('/jobs/:id/retry', async (request, reply) => {
+    if (!verifyAdminAuth(request, reply)) {
+      return
+    }
+
+    try {
+      const job = await retryBackgroundJob(request.params.id)
+
+      if (!job) {
+        const existing = await getBackgroundJob(request.params.id)
+        if (!existing) {
+          return reply.code(404).send({ error: 'Job not found' })
+        }
+        return reply.code(409).send({
+          error: 'Job cannot be retried',
+          message: existing.status === 'completed'
+            ? 'Job already completed'
+            : 'Another live job with the same key is already queued'
+        })
+      }
+
+      fastify.log.info({ jobId: job.id, name: job.name }, 'Admin re-queued background job')
+      return reply.send({ message: 'Job queued', job })
+    } catch (error) {
+      fastify.log.error({ error, jobId: request.params.id }, 'Failed to retry job')
+      return reply.code(500).send({ error: 'Failed to retry job' })
+    }
+  })
+
+  // Ledger transactions that don't match the chain (default: mismatch)
+  fastify.get<{
+    Querystring: { status?: string; limit?: string }
+  }>('/ledger/reconciliation', async (request, reply) => {
+    if (!verifyAdminAuth(request, reply)) {
+      return
+    }
+
+    const status = (request.query.status || 'mismatch') as LedgerReconciliationStatus
+    if (!RECONCILIATION_STATUSES.includes(status)) {
+      return reply.code(400).send({ error: 'Invalid status', message: `status must be one of: ${RECONCILIATION_STATUSES.join(', ')}` })
+    }
+    const limit = Math.min(Math.max(parseInt(request.query.limit || '50', 10) || 50, 1), 500)
+
+    try {
+      const [transactions, counts] = await Promise.all([
+        getLedgerTransactions({ reconciliationStatus: status, limit }),
+        getLedgerReconciliationCounts()
+      ])
+
+      return reply.send({ counts, transactions })
+    } catch (error) {
+      fastify.log.error({ error }, 'Failed to list ledger reconciliation results')
+      return reply.code(500).send({ error: 'Failed to list ledger reconciliation results' })
+    }
+  })
 }
@@ -0,0 +1,122 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  getOrCreateCreator,
+  createApiKey,
+  getCreatorApiKeys,
+  rotateApiKey,
+  revokeApiKey,
+} from '@blink402/database'
+import { verifyWalletAuth, type WalletAuthBody } from '../auth.js'
+import {
+  MAX_API_KEYS_PER_CREATOR,
+  generateApiKey,
+  validateApiKeyBody,
+  type ApiKeyBody,
+} from '../utils/api-keys.js'
+
+/**
+ * Creator API key management
+ * Every route requires wallet authentication (a session or signature - API keys cannot manage keys).
+ * The key itself is only returned when it is issued or rotated.
+ */
+export const apiKeyRoutes: FastifyPluginAsync = async (fastify) => {
+  // GET /api/creator/api-keys - List the creator's keys (revoked keys included)
+  fastify.get<{ Body: WalletAuthBody }>('/', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+
+    try {
+      const apiKeys = await getCreatorApiKeys(wallet)
+      return reply.code(200).send({ success: true, api_keys: apiKeys })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error listing API keys')
+      return reply.code(500).send({ success: false, error: 'Failed to list API keys' })
+    }
+  })
+
+  // POST /api/creator/api-keys - Issue a key (returned once)
+  fastify.post<{ Body: WalletAuthBody & ApiKeyBody }>('/', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const body = request.body || {}
+
+    const validationError = validateApiKeyBody(body)
+    if (validationError) {
+      return reply.code(400).send({ success: false, error: 'Invalid API key', details: validationError })
+    }
+
+    try {
+      const existing = await getCreatorApiKeys(wallet)
+      if (existing.filter((apiKey) => !apiKey.revoked_at).length >= MAX_API_KEYS_PER_CREATOR) {
+        return reply.code(400).send({
+          success: false,
+          error: 'API key limit reached',
+          details: `Creators can have up to ${MAX_API_KEYS_PER_CREATOR} active API keys - revoke one first`
+        })
+      }
+
+      const creatorId = await getOrCreateCreator(wallet)
+      const { key, keyHash, keyPrefix } = generateApiKey()
+      const apiKey = await createApiKey({
+        creatorId,
+        name: body.name!.trim(),
+        scopes: [...new Set(body.scopes!)],
+        keyHash,
+        keyPrefix,
+      })
+
+      fastify.log.info({ wallet, apiKeyId: apiKey.id, scopes: apiKey.scopes }, 'Issued API key')
+
+      return reply.code(201).send({ success: true, api_key: apiKey, key })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error issuing API key')
+      return reply.code(500).send({ success: false, error: 'Failed to issue API key' })
+    }
+  })
+
+  // POST /api/creator/api-keys/:id/rotate - Replace a key with a new one (the old key stops working)
+  fastify.post<{ Params: { id: string }; Body: WalletAuthBody }>('/:id/rotate', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+
+    try {
+      const { key, keyHash, keyPrefix } = generateApiKey()
+      const apiKey = await rotateApiKey(request.params.id, wallet, { keyHash, keyPrefix })
+
+      if (!apiKey) {
+        return reply.code(404).send({ success: false, error: 'API key not found' })
+      }
+
+      fastify.log.info({ wallet, apiKeyId: request.params.id, replacementId: apiKey.id }, 'Rotated API key')
+
+      return reply.code(200).send({ success: true, api_key: apiKey, key })
+    } catch (error) {
+      fastify.log.error({ error, wallet, apiKeyId: request.params.id }, 'Error rotating API key')
+      return reply.code(500).send({ success: false, error: 'Failed to rotate API key' })
+    }
+  })
+
+  // DELETE /api/creator/api-keys/:id - Revoke a key
+  fastify.delete<{ Params: { id: string }; Body: WalletAuthBody }>('/:id', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+
+    try {
+      const apiKey = await revokeApiKey(request.params.id, wallet)
+      if (!apiKey) {
+        return reply.code(404).send({ success: false, error: 'API key not found' })
+      }
+
+      fastify.log.info({ wallet, apiKeyId: apiKey.id }, 'Revoked API key')
+
+      return reply.code(200).send({ success: true, api_key: apiKey })
+    } catch (error) {
+      fastify.log.error({ error, wallet, apiKeyId: request.params.id }, 'Error revoking API key')
+      return reply.code(500).send({ success: false, error: 'Failed to revoke API key' })
+    }
+  })
+}
@@ -0,0 +1,63 @@
+import { FastifyPluginAsync } from 'fastify'
+import { createReadStream } from 'fs'
+import { access } from 'fs/promises'
+import { getRunArtifact } from '@blink402/database'
+import { verifyArtifactSignature, getArtifactFilePath, getArtifactUrlTtl } from '../utils/artifacts.js'
+
+/**
+ * Run Artifact Downloads
+ *
+ * Serves binary upstream responses (images, audio, video, PDFs) stored per run.
+ * Access is granted by a signed, expiring URL handed out with the run result.
+ */
+export const artifactsRoutes: FastifyPluginAsync = async (fastify) => {
+  // GET /artifacts/:id?expires=&sig= - Download a run artifact
+  fastify.get<{
+    Params: { id: string }
+    Querystring: { expires?: string; sig?: string }
+  }>('/:id', async (request, reply) => {
+    const { id } = request.params
+    const { expires, sig } = request.query
+
+    // Validate UUID format for artifact ID
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(id)) {
+      return reply.code(400).send({ error: 'Invalid artifact ID format' })
+    }
+
+    if (!verifyArtifactSignature(id, expires, sig)) {
+      return reply.code(403).send({
+        error: 'Invalid or expired download link',
+        message: 'Open the results page again to get a fresh link.'
+      })
+    }
+
+    try {
+      const artifact = await getRunArtifact(id)
+      if (!artifact) {
+        return reply.code(404).send({ error: 'Artifact not found' })
+      }
+
+      const filePath = getArtifactFilePath(artifact)
+      try {
+        await access(filePath)
+      } catch {
+        fastify.log.warn({ artifactId: id }, 'Artifact file missing from disk')
+        return reply.code(404).send({ error: 'Artifact not found' })
+      }
+
+      return reply
+        .header('Content-Type', artifact.content_type)
+        .header('Content-Length', artifact.size_bytes)
+        .header('Content-Disposition', 'inline')
+        .header('Cache-Control', `private, max-age=${getArtifactUrlTtl()}`)
+        // Upstream content is untrusted - never let it run as a page on this origin
+        .header('Content-Security-Policy', "default-src 'none'; sandbox")
+        .header('X-Content-Type-Options', 'nosniff')
+        .send(createReadStream(filePath))
+    } catch (error) {
+      fastify.log.error({ error, artifactId: id }, 'Failed to serve artifact')
+      return reply.code(500).send({ error: 'Failed to serve artifact' })
+    }
+  })
+}
@@ -0,0 +1,129 @@
+import { FastifyPluginAsync } from 'fastify'
+import { isRedisConnected } from '@blink402/redis'
+import { isValidSolanaAddress } from '@blink402/solana'
+import { verifyWalletAuth, verifyWalletSignature, type WalletAuthBody } from '../auth.js'
+import {
+  createSignInChallenge,
+  checkSignInMessage,
+  createAuthSession,
+  getWalletAuthSessions,
+  revokeAuthSession,
+} from '../utils/sessions.js'
+
+/**
+ * Sign-In-With-Solana and session management
+ * 1. POST /siws/nonce returns a one-time message for the wallet to sign
+ * 2. POST /siws/verify checks the signature and opens a session (Authorization: Bearer b402s_...)
+ * Sessions live in Redis for 7 days and can be listed and revoked.
+ */
+export const authRoutes: FastifyPluginAsync = async (fastify) => {
+  // POST /api/auth/siws/nonce - Issue a sign-in message for a wallet
+  fastify.post<{ Body: { wallet?: string } }>('/siws/nonce', async (request, reply) => {
+    const { wallet } = request.body || {}
+
+    if (!wallet || !isValidSolanaAddress(wallet)) {
+      return reply.code(400).send({ success: false, error: 'Invalid wallet', details: 'wallet must be a Solana address' })
+    }
+    if (!isRedisConnected()) {
+      return reply.code(503).send({ success: false, error: 'Sign-in unavailable', details: 'Session storage is not available' })
+    }
+
+    try {
+      const challenge = await createSignInChallenge(wallet)
+      return reply.code(200).send({
+        success: true,
+        message: challenge.message,
+        nonce: challenge.nonce,
+        expires_at: challenge.expiresAt.toISOString(),
+      })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error issuing sign-in message')
+      return reply.code(500).send({ success: false, error: 'Failed to issue sign-in message' })
+    }
+  })
+
+  // POST /api/auth/siws/verify - Check the signed message and open a session
+  fastify.post<{ Body: { wallet?: string; message?: string; signature?: string } }>('/siws/verify', async (request, reply) => {
+    const { wallet, message, signature } = request.body || {}
+
+    if (!wallet || !message || !signature) {
+      return reply.code(400).send({ success: false, error: 'Invalid sign-in', details: 'wallet, message and signature are required' })
+    }
+    if (!isRedisConnected()) {
+      return reply.code(503).send({ success: false, error: 'Sign-in unavailable', details: 'Session storage is not available' })
+    }
+
+    try {
+      const messageError = await checkSignInMessage(wallet, message)
+      if (messageError) {
+        return reply.code(401).send({ success: false, error: 'Sign-in failed', details: messageError })
+      }
+      if (!verifyWalletSignature(wallet, signature, message)) {
+        return reply.code(401).send({ success: false, error: 'Sign-in failed', details: 'Invalid wallet signature' })
+      }
+
+      const { token, session } = await createAuthSession(wallet, request.headers['user-agent'])
+      fastify.log.info({ wallet, sessionId: session.id }, 'Opened session')
+
+      return reply.code(200).send({ success: true, token, session })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error opening session')
+      return reply.code(500).send({ success: false, error: 'Failed to sign in' })
+    }
+  })
+
+  // GET /api/auth/sessions - List the wallet's open sessions
+  fastify.get<{ Body: WalletAuthBody }>('/sessions', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+
+    try {
+      const sessions = await getWalletAuthSessions(wallet)
+      return reply.code(200).send({ success: true, sessions, current: request.auth?.sessionId ?? null })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error listing sessions')
+      return reply.code(500).send({ success: false, error: 'Failed to list sessions' })
+    }
+  })
+
+  // DELETE /api/auth/sessions/:id - Revoke a session (e.g. a lost device)
+  fastify.delete<{ Params: { id: string }; Body: WalletAuthBody }>('/sessions/:id', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+
+    try {
+      const revoked = await revokeAuthSession(wallet, request.params.id)
+      if (!revoked) {
+        return reply.code(404).send({ success: false, error: 'Session not found' })
+      }
+
+      fastify.log.info({ wallet, sessionId: request.params.id }, 'Revoked session')
+      return reply.code(200).send({ success: true })
+    } catch (error) {
+      fastify.log.error({ error, wallet, sessionId: request.params.id }, 'Error revoking session')
+      return reply.code(500).send({ success: false, error: 'Failed to revoke session' })
+    }
+  })
+
+  // POST /api/auth/logout - Revoke the session the request was made with
+  fastify.post<{ Body: WalletAuthBody }>('/logout', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const sessionId = request.auth?.sessionId
+
+    if (!sessionId) {
+      return reply.code(400).send({ success: false, error: 'Not signed in with a session' })
+    }
+
+    try {
+      await revokeAuthSession(wallet, sessionId)
+      return reply.code(200).send({ success: true })
+    } catch (error) {
+      fastify.log.error({ error, wallet, sessionId }, 'Error signing out')
+      return reply.code(500).send({ success: false, error: 'Failed to sign out' })
+    }
+  })
+}
@@ -6,10 +6,62 @@ import {
   createBlink,
   updateBlink,
   deleteBlink,
+  saveBlinkCredential,
+  getBlinkCredentialSummary,
+  deleteBlinkCredential,
+  getCreatorSuspension,
 } from '@blink402/database'
-import { verifyWalletAuth, verifyOwnership, type WalletAuthBody } from '../auth.js'
+import { requireScope, verifyOwnership, verifyWalletAuth, type WalletAuthBody } from '../auth.js'
 import { getCacheOrFetch, deleteCache, setCache, isRedisConnected } from '@blink402/redis'
 import { validateEndpoint } from '../utils/endpoint-health.js'
+import { validateUpstreamUrl } from '../utils/upstream-url.js'
+import {
+  validateUpstreamAuthInput,
+  resolveUpstreamAuthInput,
+  encryptUpstreamAuth,
+} from '../utils/upstream-auth.js'
+import { validateRequestTemplate } from '../utils/request-template.js'
+import { validateResponseTransform } from '../utils/response-transform.js'
+import { validatePipelineConfig, sumPipelineStepPrices, getPipelineEndpointMarker } from '../utils/pipelines.js'
+import { validateActionsConfig } from '../utils/actions-config.js'
+import { validateAccessPassConfig } from '../utils/passes.js'
+import { validatePricingRules, quoteRunPrice } from '../utils/pricing.js'
+import { resolveCoupon } from '../utils/coupons.js'
+import { validateRevenueSplits, getSettlementWallet } from '../utils/revenue-splits.js'
+import { isValidEthAddress } from '@blink402/evm'
+import type {
+  RefundPolicy,
+  Blockchain,
+  UpstreamAuthInput,
+  BlinkParameter,
+  RequestTemplate,
+  ResponseTransform,
+  PipelineConfig,
+  BlinkActionsConfig,
+  BlinkAccessPassConfig,
+  BlinkPricingRules,
+  BlinkRevenueSplits,
+  Coupon,
+} from '@blink402/types'
+
+const REFUND_POLICIES: RefundPolicy[] = ['full', 'partial', 'none']
+
+/**
+ * Validate refund policy settings from a create/update body
+ * @returns Error details, or null when valid
+ */
+function validateRefundPolicy(policy?: string, percent?: number): string | null {
+  if (policy !== undefined && !REFUND_POLICIES.includes(policy as RefundPolicy)) {
+    return `refund_policy must be one of: ${REFUND_POLICIES.join(', ')}`
+  }
+  if (percent !== undefined && (!Number.isInteger(percent) || percent < 0 || percent > 100)) {
+    return 'refund_percent must be an integer between 0 and 100'
+  }
+  if (policy === 'partial' && percent === undefined) {
+    return 'refund_percent is required for a partial refund policy'
+  }
+  return null
+}
 
 export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
   // GET /blinks - Get all blinks (with caching)
@@ -51,6 +103,11 @@ export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
       if (!blink) {
         return reply.code(404).send({ success: false, error: 'Blink not found' })
       }
+
+      // Revenue split blinks are paid to the settlement wallet, which pays out the shares
+      if (blink.revenue_splits) {
+        return reply.code(200).send({ success: true, data: { ...blink, payment_wallet: getSettlementWallet() } })
+      }
       return reply.code(200).send({ success: true, data: blink })
     } catch (error) {
       fastify.log.error({ error, slug }, 'Error fetching blink')
@@ -59,10 +116,17 @@ export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
   })
 
   // POST /blinks/test-endpoint - Test endpoint reachability before creating blink
+  // Anonymous tests are allowed; sending upstream credentials requires wallet auth.
   fastify.post<{
-    Body: { endpoint_url: string; method: string }
-  }>('/test-endpoint', async (request, reply) => {
-    const { endpoint_url, method } = request.body
+    Body: WalletAuthBody & { endpoint_url: string; method: string; upstream_auth?: UpstreamAuthInput }
+  }>('/test-endpoint', {
+    preHandler: async (request, reply) => {
+      if (request.body?.upstream_auth !== undefined) {
+        return verifyWalletAuth(request, reply)
+      }
+    },
+  }, async (request, reply) => {
+    const { endpoint_url, method, upstream_auth } = request.body
 
     // Validate input
     if (!endpoint_url || !method) {
@@ -80,9 +144,37 @@ export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
       })
     }
 
+    // Same SSRF checks as the proxy applies before calling an upstream
+    try {
+      await validateUpstreamUrl(endpoint_url)
+    } catch (error) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Endpoint URL not allowed',
+        details: (error as Error).message
+      })
+    }
+
+    // Optional credentials so creators can test authenticated APIs
+    if (upstream_auth !== undefined) {
+      const upstreamAuthError = validateUpstreamAuthInput(upstream_auth)
+      if (upstreamAuthError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid upstream credentials',
+          details: upstreamAuthError
+        })
+      }
+    }
+
     try {
-      fastify.log.info({ endpoint_url, method }, 'Testing endpoint')
-      const validationResult = await validateEndpoint(endpoint_url, method, fastify.log)
+      fastify.log.info({ endpoint_url, method, authType: upstream_auth?.type }, 'Testing endpoint')
+      const validationResult = await validateEndpoint(
+        endpoint_url,
+        method,
+        fastify.log,
+        upstream_auth ? resolveUpstreamAuthInput(upstream_auth) : null
+      )
 
       return reply.code(200).send({
         success: true,
@@ -131,10 +223,16 @@ export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
         category: blink.category,
         icon_url: blink.icon_url,
         payment_token: blink.payment_token,
+        blockchain: blink.blockchain,
         payment_mode: blink.payment_mode,
         reward_amount: blink.reward_amount,
         access_duration_days: blink.access_duration_days,
         max_claims_per_user: blink.max_claims_per_user,
+        parameters: blink.parameters,
+        request_template: blink.request_template,
+        response_transform: blink.response_transform,
+        actions_config: blink.actions_config,
+        pricing_rules: blink.pricing_rules,
         fork_of_blink_id: blink.id,
         original_creator: {
           wallet: blink.creator.wallet,
@@ -153,6 +251,48 @@ export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
     }
   })
 
+  // POST /blinks/:slug/quote - Price of a run with these inputs (public endpoint)
+  // Informational: the price is locked when /bazaar/:slug creates the run.
+  fastify.post<{
+    Params: { slug: string }
+    Body: { inputs?: Record<string, unknown>; wallet?: string; coupon?: string }
+  }>('/:slug/quote', async (request, reply) => {
+    const { slug } = request.params
+    const { inputs, wallet, coupon } = request.body || {}
+
+    if (inputs !== undefined && (!inputs || typeof inputs !== 'object' || Array.isArray(inputs))) {
+      return reply.code(400).send({ success: false, error: 'Invalid quote request', details: 'inputs must be an object' })
+    }
+    if (wallet !== undefined && typeof wallet !== 'string') {
+      return reply.code(400).send({ success: false, error: 'Invalid quote request', details: 'wallet must be a string' })
+    }
+    if (coupon !== undefined && typeof coupon !== 'string') {
+      return reply.code(400).send({ success: false, error: 'Invalid quote request', details: 'coupon must be a string' })
+    }
+
+    try {
+      const blink = await getBlinkBySlug(slug)
+      if (!blink) {
+        return reply.code(404).send({ success: false, error: 'Blink not found' })
+      }
+
+      let resolvedCoupon: Coupon | null = null
+      if (coupon) {
+        const resolved = await resolveCoupon({ code: coupon, blink, wallet })
+        if ('error' in resolved) {
+          return reply.code(400).send({ success: false, error: 'Invalid coupon', details: resolved.error })
+        }
+        resolvedCoupon = resolved.coupon
+      }
+
+      const quote = await quoteRunPrice({ blink, inputs, wallet, coupon: resolvedCoupon })
+      return reply.code(200).send({ success: true, data: quote })
+    } catch (error) {
+      fastify.log.error({ error, slug }, 'Error quoting blink price')
+      return reply.code(500).send({ success: false, error: 'Failed to quote price' })
+    }
+  })
+
   // POST /blinks - Create new blink (requires authentication)
   fastify.post<{
     Body: WalletAuthBody & {
@@ -170,9 +310,21 @@ export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
       creator_wallet?: string
       creator?: { wallet: string }
       fork_of_blink_id?: string
+      refund_policy?: RefundPolicy
+      refund_percent?: number
+      blockchain?: Blockchain
+      parameters?: BlinkParameter[]
+      request_template?: RequestTemplate
+      response_transform?: ResponseTransform
+      pipeline?: PipelineConfig
+      actions_config?: BlinkActionsConfig
+      access_pass?: BlinkAccessPassConfig
+      pricing_rules?: BlinkPricingRules
+      revenue_splits?: BlinkRevenueSplits
+      upstream_auth?: UpstreamAuthInput
     }
   }>('/', {
-    preHandler: verifyWalletAuth,
+    preHandler: requireScope('blinks:write'),
   }, async (request, reply) => {
     const {
       slug,
@@ -189,22 +341,57 @@ export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
       creator_wallet,
       creator,
       fork_of_blink_id,
+      refund_policy,
+      refund_percent,
+      blockchain,
+      parameters,
+      request_template,
+      response_transform,
+      pipeline,
+      actions_config,
+      access_pass,
+      pricing_rules,
+      revenue_splits,
+      upstream_auth,
     } = request.body
 
     try {
-      // Get authenticated wallet (guaranteed by verifyWalletAuth preHandler)
+      // Get authenticated wallet (guaranteed by the requireScope preHandler)
       const authenticatedWallet = request.authenticatedWallet!
 
       // Support both creator_wallet and creator.wallet formats
       const creatorAddress = creator_wallet || creator?.wallet || authenticatedWallet
 
-      // Validate required fields
-      if (!slug || !title || !description || !endpoint_url || !method || !price_usdc) {
+      // Validate required fields (pipelines have no endpoint and default to the sum of their step prices)
+      if (!slug || !title || !description || (!pipeline && (!endpoint_url || !method || !price_usdc))) {
         return reply.code(400).send({ success: false, error: 'Missing required fields' })
       }
 
+      // Validate pipeline steps (this creator's blinks, called in order)
+      let blinkPrice = price_usdc
+      if (pipeline !== undefined) {
+        if (request_template !== undefined || upstream_auth !== undefined) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid pipeline',
+            details: 'Pipeline blinks have no endpoint - configure request_template and upstream_auth on the step blinks'
+          })
+        }
+
+        const pipelineError = await validatePipelineConfig(pipeline, authenticatedWallet)
+        if (pipelineError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid pipeline',
+            details: pipelineError
+          })
+        }
+
+        blinkPrice = price_usdc || await sumPipelineStepPrices(pipeline)
+      }
+
       // Validate price is a valid positive number
-      const priceNum = parseFloat(price_usdc)
+      const priceNum = parseFloat(blinkPrice)
       if (isNaN(priceNum) || priceNum <= 0) {
         return reply.code(400).send({
           success: false,
@@ -213,54 +400,238 @@ export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
         })
       }
 
-      // Validate endpoint URL is reachable
-      fastify.log.info({ endpoint_url, method }, 'Validating endpoint before blink creation')
-      const validationResult = await validateEndpoint(endpoint_url, method, fastify.log)
+      // Validate refund policy (defaults to full refunds on failed calls)
+      const refundPolicyError = validateRefundPolicy(refund_policy, refund_percent)
+      if (refundPolicyError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid refund policy',
+          details: refundPolicyError
+        })
+      }
 
-      if (!validationResult.valid) {
-        fastify.log.warn({ endpoint_url, method, error: validationResult.error }, 'Endpoint validation failed')
+      // Validate blockchain - Base blinks are charged in USDC to an EVM payout wallet
+      const chain: Blockchain = blockchain || 'solana'
+      if (chain !== 'solana' && chain !== 'base') {
         return reply.code(400).send({
           success: false,
-          error: 'Endpoint validation failed',
-          details: validationResult.error || 'The provided endpoint URL is not reachable or did not respond correctly'
+          error: 'Invalid blockchain',
+          details: 'blockchain must be one of: solana, base'
+        })
+      }
+      if (chain === 'base') {
+        if (payment_token && payment_token !== 'USDC') {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid payment token',
+            details: 'Base blinks only support USDC payments'
+          })
+        }
+        if (!payout_wallet || !isValidEthAddress(payout_wallet)) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid payout wallet',
+            details: 'Base blinks require an EVM (0x) payout wallet'
+          })
+        }
+        // Refunds are only sent on Solana - a failed call leaves a Base run paid for a free retry instead
+        if (refund_policy !== undefined && refund_policy !== 'none') {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid refund policy',
+            details: "Base blinks don't support automatic refunds - use refund_policy 'none'"
+          })
+        }
+      }
+
+      // Validate parameter mapping into the upstream request
+      if (parameters !== undefined && !Array.isArray(parameters)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid parameters',
+          details: 'parameters must be an array'
         })
       }
+      if (request_template !== undefined) {
+        const templateError = validateRequestTemplate(request_template, {
+          endpointUrl: endpoint_url,
+          method,
+          parameters,
+        })
+        if (templateError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid request template',
+            details: templateError
+          })
+        }
+      }
 
-      fastify.log.info({
-        endpoint_url,
-        method,
-        statusCode: validationResult.statusCode,
-        responseTime: validationResult.responseTime
-      }, 'Endpoint validation passed')
+      // Validate response shaping (extraction, renaming, redaction, output schema)
+      if (response_transform !== undefined) {
+        const transformError = validateResponseTransform(response_transform)
+        if (transformError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid response transform',
+            details: transformError
+          })
+        }
+      }
+
+      // Validate Solana Actions buttons (may reference the parameters above)
+      if (actions_config !== undefined) {
+        const actionsError = validateActionsConfig(actions_config, parameters)
+        if (actionsError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid actions config',
+            details: actionsError
+          })
+        }
+      }
+
+      // Validate the access pass offer (sold next to per-call payments)
+      if (access_pass !== undefined) {
+        const passError = validateAccessPassConfig(access_pass)
+        if (passError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid access pass',
+            details: passError
+          })
+        }
+      }
+
+      // Validate dynamic pricing (quoted per run on top of price_usdc, USDC only)
+      if (pricing_rules !== undefined) {
+        const pricingError = (payment_token && payment_token !== 'USDC')
+          ? 'Pricing rules are only supported for USDC blinks'
+          : validatePricingRules(pricing_rules, parameters)
+        if (pricingError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid pricing rules',
+            details: pricingError
+          })
+        }
+      }
+
+      // Validate upstream credentials (stored encrypted, injected by the proxy)
+      if (upstream_auth !== undefined) {
+        const upstreamAuthError = validateUpstreamAuthInput(upstream_auth)
+        if (upstreamAuthError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid upstream credentials',
+            details: upstreamAuthError
+          })
+        }
+      }
+
+      // Validate endpoint URL is reachable (with the creator's credentials, if any)
+      if (!pipeline) {
+        fastify.log.info({ endpoint_url, method }, 'Validating endpoint before blink creation')
+        const validationResult = await validateEndpoint(
+          endpoint_url,
+          method,
+          fastify.log,
+          upstream_auth ? resolveUpstreamAuthInput(upstream_auth) : null
+        )
+
+        if (!validationResult.valid) {
+          fastify.log.warn({ endpoint_url, method, error: validationResult.error }, 'Endpoint validation failed')
+          return reply.code(400).send({
+            success: false,
+            error: 'Endpoint validation failed',
+            details: validationResult.error || 'The provided endpoint URL is not reachable or did not respond correctly'
+          })
+        }
+
+        fastify.log.info({
+          endpoint_url,
+          method,
+          statusCode: validationResult.statusCode,
+          responseTime: validationResult.responseTime
+        }, 'Endpoint validation passed')
+      }
 
       // Verify authenticated wallet matches creator wallet
       if (!verifyOwnership(authenticatedWallet, creatorAddress)) {
         return reply.code(403).send({ success: false, error: 'Wallet mismatch: You can only create blinks for your own wallet' })
       }
 
+      if (await getCreatorSuspension(creatorAddress)) {
+        return reply.code(403).send({ success: false, error: 'Creator account is suspended', details: 'Suspended creators cannot create blinks' })
+      }
+
       // Payout wallet defaults to creator wallet if not specified
       const payoutAddress = payout_wallet || creatorAddress
 
+      // Validate revenue splits (Solana USDC only - the settlement wallet pays out the shares)
+      if (revenue_splits !== undefined) {
+        const splitsError = chain !== 'solana' || (payment_token && payment_token !== 'USDC')
+          ? 'Revenue splits are only supported for USDC blinks on Solana'
+          : validateRevenueSplits(revenue_splits, payoutAddress)
+        if (splitsError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid revenue splits',
+            details: splitsError
+          })
+        }
+      }
+
+      // Encrypt credentials before creating the blink so a missing ENCRYPTION_KEY fails cleanly
+      let encryptedAuth: ReturnType<typeof encryptUpstreamAuth> | null = null
+      if (upstream_auth) {
+        try {
+          encryptedAuth = encryptUpstreamAuth(upstream_auth)
+        } catch (error) {
+          fastify.log.error({ error, slug }, 'Failed to encrypt upstream credentials')
+          return reply.code(500).send({
+            success: false,
+            error: 'Failed to encrypt upstream credentials',
+            details: 'Please ensure ENCRYPTION_KEY is configured.'
+          })
+        }
+      }
+
       // Create blink
       const blink = await createBlink({
         slug,
         title,
         description,
-        endpoint_url,
-        method,
-        price_usdc,
+        endpoint_url: pipeline ? getPipelineEndpointMarker(pipeline) : endpoint_url,
+        method: pipeline ? 'POST' : method,
+        price_usdc: blinkPrice,
         category: category || 'general',
         icon_url: icon_url || '/blink-402-webpreview.png',
         status: status || 'active',
         payment_token: payment_token || 'USDC', // Default to USDC (required for PayAI x402)
+        blockchain: chain,
         payment_mode: 'charge', // Default to charge mode (user pays)
         payout_wallet: payoutAddress, // Can differ from creator wallet
         fork_of_blink_id: fork_of_blink_id || undefined, // Track if this is a fork
+        refund_policy: refund_policy || (chain === 'base' ? 'none' : 'full'),
+        refund_percent: refund_policy === 'partial' ? refund_percent : 100,
+        parameters,
+        request_template,
+        response_transform,
+        pipeline,
+        actions_config,
+        access_pass,
+        pricing_rules,
+        revenue_splits,
         creator: {
           wallet: creatorAddress
         }
       })
 
+      if (encryptedAuth) {
+        await saveBlinkCredential({ blinkId: blink.id, ...encryptedAuth })
+      }
+
       // Invalidate caches (if Redis is connected)
       if (isRedisConnected()) {
         await deleteCache('blinks:all')
@@ -297,13 +668,22 @@ export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
       price_usdc?: string
       status?: 'active' | 'paused' | 'archived'
       icon_url?: string
+      refund_policy?: RefundPolicy
+      refund_percent?: number
+      request_template?: RequestTemplate | null
+      response_transform?: ResponseTransform | null
+      pipeline?: PipelineConfig
+      actions_config?: BlinkActionsConfig | null
+      access_pass?: BlinkAccessPassConfig | null
+      pricing_rules?: BlinkPricingRules | null
+      revenue_splits?: BlinkRevenueSplits | null
     }
   }>('/:slug', {
-    preHandler: verifyWalletAuth,
+    preHandler: requireScope('blinks:write'),
   }, async (request, reply) => {
     const { slug } = request.params
     const updates = request.body
-    // Get authenticated wallet (guaranteed by verifyWalletAuth preHandler)
+    // Get authenticated wallet (guaranteed by the requireScope preHandler)
     const authenticatedWallet = request.authenticatedWallet!
 
     try {
@@ -318,6 +698,11 @@ export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
         return reply.code(403).send({ success: false, error: 'Forbidden: You can only update your own blinks' })
       }
 
+      // Suspended blinks stay paused until a moderator lifts the suspension
+      if (existing.suspended_at) {
+        return reply.code(403).send({ success: false, error: 'Blink is suspended', details: 'Suspended blinks cannot be changed' })
+      }
+
       // Validate price if being updated
       if (updates.price_usdc !== undefined) {
         const priceNum = parseFloat(updates.price_usdc)
@@ -330,8 +715,141 @@ export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
         }
       }
 
+      // Validate refund policy if being updated
+      if (updates.refund_policy !== undefined || updates.refund_percent !== undefined) {
+        const refundPolicyError = validateRefundPolicy(
+          updates.refund_policy,
+          updates.refund_percent ?? (updates.refund_policy === 'partial' ? existing.refund_percent : undefined)
+        )
+        if (refundPolicyError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid refund policy',
+            details: refundPolicyError
+          })
+        }
+        if (existing.blockchain === 'base' && updates.refund_policy !== undefined && updates.refund_policy !== 'none') {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid refund policy',
+            details: "Base blinks don't support automatic refunds - use refund_policy 'none'"
+          })
+        }
+      }
+
+      // Validate request template if being updated (null removes it)
+      if (updates.request_template) {
+        const templateError = validateRequestTemplate(updates.request_template, {
+          endpointUrl: existing.endpoint_url,
+          method: existing.method,
+          parameters: existing.parameters,
+        })
+        if (templateError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid request template',
+            details: templateError
+          })
+        }
+      }
+
+      // Validate response transform if being updated (null removes it)
+      if (updates.response_transform) {
+        const transformError = validateResponseTransform(updates.response_transform)
+        if (transformError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid response transform',
+            details: transformError
+          })
+        }
+      }
+
+      // Validate Solana Actions buttons if being updated (null restores the defaults)
+      if (updates.actions_config) {
+        const actionsError = validateActionsConfig(updates.actions_config, existing.parameters)
+        if (actionsError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid actions config',
+            details: actionsError
+          })
+        }
+      }
+
+      // Validate the access pass offer if being updated (null stops selling passes)
+      if (updates.access_pass) {
+        const passError = validateAccessPassConfig(updates.access_pass)
+        if (passError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid access pass',
+            details: passError
+          })
+        }
+        if (existing.payment_mode === 'reward') {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid access pass',
+            details: 'Reward blinks cannot sell access passes'
+          })
+        }
+      }
+
+      // Validate pricing rules if being updated (null goes back to the fixed price)
+      if (updates.pricing_rules) {
+        const pricingError = existing.payment_mode === 'reward' || existing.payment_token !== 'USDC'
+          ? 'Pricing rules are only supported for USDC charge blinks'
+          : validatePricingRules(updates.pricing_rules, existing.parameters)
+        if (pricingError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid pricing rules',
+            details: pricingError
+          })
+        }
+      }
+
+      // Validate revenue splits if being updated (null pays everything to the payout wallet again)
+      if (updates.revenue_splits) {
+        const splitsError = existing.payment_mode === 'reward' || existing.payment_token !== 'USDC' ||
+          existing.blockchain === 'base' || existing.lottery_enabled
+          ? 'Revenue splits are only supported for USDC charge blinks on Solana without a lottery'
+          : validateRevenueSplits(updates.revenue_splits, existing.payout_wallet)
+        if (splitsError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid revenue splits',
+            details: splitsError
+          })
+        }
+      }
+
+      // Validate pipeline steps if being updated (pipeline blinks only)
+      if (updates.pipeline !== undefined) {
+        if (!existing.pipeline) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid pipeline',
+            details: 'Only pipeline blinks have steps - create a new pipeline blink instead'
+          })
+        }
+
+        const pipelineError = await validatePipelineConfig(updates.pipeline, existing.creator.wallet)
+        if (pipelineError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid pipeline',
+            details: pipelineError
+          })
+        }
+      }
+
       // Update blink
-      const blink = await updateBlink(slug, updates)
+      const blink = await updateBlink(slug, {
+        ...updates,
+        ...(updates.pipeline ? { endpoint_url: getPipelineEndpointMarker(updates.pipeline) } : {}),
+      })
 
       // Invalidate caches (if Redis is connected)
       if (isRedisConnected()) {
@@ -350,15 +868,155 @@ export const blinksRoutes: FastifyPluginAsync = async (fastify) => {
     }
   })
 
+  // GET /blinks/:slug/credentials - Masked upstream credential summary (owner only)
+  // Auth comes from the Authorization header here (GET requests have no body)
+  fastify.get<{
+    Params: { slug: string }
+    Body: WalletAuthBody
+  }>('/:slug/credentials', {
+    preHandler: requireScope('blinks:write'),
+  }, async (request, reply) => {
+    const { slug } = request.params
+    const authenticatedWallet = request.authenticatedWallet!
+
+    try {
+      const existing = await getBlinkBySlug(slug)
+      if (!existing) {
+        return reply.code(404).send({ success: false, error: 'Blink not found' })
+      }
+
+      if (!verifyOwnership(authenticatedWallet, existing.creator.wallet)) {
+        return reply.code(403).send({ success: false, error: 'Forbidden: You can only view credentials for your own blinks' })
+      }
+
+      const summary = await getBlinkCredentialSummary(existing.id)
+      return reply.code(200).send({ success: true, data: summary })
+    } catch (error) {
+      fastify.log.error({ error, slug }, 'Error fetching blink credentials')
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to fetch credentials',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  })
+
+  // PUT /blinks/:slug/credentials - Set or rotate upstream credentials (owner only)
+  fastify.put<{
+    Params: { slug: string }
+    Body: WalletAuthBody & { upstream_auth: UpstreamAuthInput }
+  }>('/:slug/credentials', {
+    preHandler: requireScope('blinks:write'),
+  }, async (request, reply) => {
+    const { slug } = request.params
+    const { upstream_auth } = request.body
+    const authenticatedWallet = request.authenticatedWallet!
+
+    const upstreamAuthError = validateUpstreamAuthInput(upstream_auth)
+    if (upstreamAuthError) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid upstream credentials',
+        details: upstreamAuthError
+      })
+    }
+
+    try {
+      const existing = await getBlinkBySlug(slug)
+      if (!existing) {
+        return reply.code(404).send({ success: false, error: 'Blink not found' })
+      }
+
+      if (!verifyOwnership(authenticatedWallet, existing.creator.wallet)) {
+        return reply.code(403).send({ success: false, error: 'Forbidden: You can only update credentials for your own blinks' })
+      }
+
+      // Make sure the endpoint still works with the new credentials
+      const validationResult = await validateEndpoint(
+        existing.endpoint_url,
+        existing.method,
+        fastify.log,
+        resolveUpstreamAuthInput(upstream_auth)
+      )
+      if (!validationResult.valid) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Endpoint validation failed',
+          details: validationResult.error || 'The endpoint did not accept the provided credentials'
+        })
+      }
+
+      let encryptedAuth: ReturnType<typeof encryptUpstreamAuth>
+      try {
+        encryptedAuth = encryptUpstreamAuth(upstream_auth)
+      } catch (error) {
+        fastify.log.error({ error, slug }, 'Failed to encrypt upstream credentials')
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to encrypt upstream credentials',
+          details: 'Please ensure ENCRYPTION_KEY is configured.'
+        })
+      }
+
+      await saveBlinkCredential({ blinkId: existing.id, ...encryptedAuth })
+
+      const summary = await getBlinkCredentialSummary(existing.id)
+      return reply.code(200).send({ success: true, data: summary })
+    } catch (error) {
+      fastify.log.error({ error, slug }, 'Error saving blink credentials')
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to save credentials',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  })
+
+  // DELETE /blinks/:slug/credentials - Remove upstream credentials (owner only)
+  fastify.delete<{
+    Params: { slug: string }
+    Body: WalletAuthBody
+  }>('/:slug/credentials', {
+    preHandler: requireScope('blinks:write'),
+  }, async (request, reply) => {
+    const { slug } = request.params
+    const authenticatedWallet = request.authenticatedWallet!
+
+    try {
+      const existing = await getBlinkBySlug(slug)
+      if (!existing) {
+        return reply.code(404).send({ success: false, error: 'Blink not found' })
+      }
+
+      if (!verifyOwnership(authenticatedWallet, existing.creator.wallet)) {
+        return reply.code(403).send({ success: false, error: 'Forbidden: You can only remove credentials from your own blinks' })
+      }
+
+      const deleted = await deleteBlinkCredential(existing.id)
+      if (!deleted) {
+        return reply.code(404).send({ success: false, error: 'No credentials configured for this blink' })
+      }
+
+      return reply.code(200).send({ success: true, data: { message: 'Credentials removed successfully' } })
+    } catch (error) {
+      fastify.log.error({ error, slug }, 'Error removing blink credentials')
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to remove credentials',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  })
+
   // DELETE /blinks/:slug - Delete blink (requires authentication and ownership)
   fastify.delete<{
     Params: { slug: string }
     Body: WalletAuthBody
   }>('/:slug', {
-    preHandler: verifyWalletAuth,
+    preHandler: requireScope('blinks:write'),
   }, async (request, reply) => {
     const { slug } = request.params
-    // Get authenticated wallet (guaranteed by verifyWalletAuth preHandler)
+    // Get authenticated wallet (guaranteed by the requireScope preHandler)
     const authenticatedWallet = request.authenticatedWallet!
 
     try {
@@ -1,16 +1,19 @@
 import { FastifyPluginAsync } from 'fastify'
 import {
-  getPublicBlinks,
+  searchCatalog,
+  parseCatalogCursor,
   getFeaturedBlinks,
   getTrendingBlinks,
-  toggleBlinkPublic,
-  reportBlink,
+  createBlinkReport,
+  BLINK_REPORT_REASONS,
   getBlinkBySlug,
   updateBlinkBadges,
   updateBlinkHealth
 } from '@blink402/database'
 import { getCacheOrFetch, deleteCache, setCache, isRedisConnected } from '@blink402/redis'
-import type { CatalogFilters } from '@blink402/types'
+import type { BlinkReportReason, CatalogFilters, CatalogSort } from '@blink402/types'
+import { requireScope, verifyOwnership, verifyWalletAuth, type WalletAuthBody } from '../auth.js'
+import { verifyAdminAuth } from '../utils/admin-auth.js'
 
 // Define query parameters for catalog endpoint
 interface CatalogQuery {
@@ -22,18 +25,30 @@ interface CatalogQuery {
   search?: string
   limit?: string
   offset?: string
-  sort?: 'newest' | 'popular' | 'price_low' | 'price_high'
+  cursor?: string
+  sort?: CatalogSort
 }
 
+const CATALOG_SORTS: CatalogSort[] = ['relevance', 'newest', 'popular', 'price_low', 'price_high', 'top_rated']
+
 interface ReportBody {
   blink_id: string
-  reporter_wallet?: string
-  reason: 'spam' | 'scam' | 'broken' | 'inappropriate' | 'copyright' | 'other'
+  reason: BlinkReportReason
   details?: string
 }
 
+const MAX_REPORT_DETAILS_LENGTH = 2000
+
+// Open reports from distinct reporters that take a blink out of the catalog until a moderator reviews it
+const AUTO_UNPUBLISH_REPORTS = parseInt(process.env.MODERATION_AUTO_UNPUBLISH_REPORTS || '3', 10) || 3
+
+// Reports a single IP may file per hour
+const REPORTS_PER_IP_PER_HOUR = parseInt(process.env.MODERATION_REPORTS_PER_IP_PER_HOUR || '10', 10) || 10
+
 export const catalogRoutes: FastifyPluginAsync = async (fastify) => {
-  // Get public catalog blinks with filters
+  // Search public catalog blinks
+  // Filtering, full-text ranking and sorting happen in the database; returns facet counts and the exact total.
+  // Page with offset, or pass pagination.next_cursor back as ?cursor= for stable pages.
   fastify.get<{ Querystring: CatalogQuery }>('/catalog', async (request, reply) => {
     const {
       category,
@@ -41,44 +56,75 @@ export const catalogRoutes: FastifyPluginAsync = async (fastify) => {
       price_max,
       badges,
       media_type,
-      search,
       limit = '20',
       offset = '0',
-      sort = 'newest'
+      cursor
     } = request.query
+    const search = request.query.search?.trim() || undefined
+    // Searches rank by relevance unless another order is asked for
+    let sort: CatalogSort = request.query.sort || (search ? 'relevance' : 'newest')
+
+    if (!CATALOG_SORTS.includes(sort)) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid sort',
+        details: `sort must be one of: ${CATALOG_SORTS.join(', ')}`
+      })
+    }
+    if (sort === 'relevance' && !search) {
+      sort = 'newest'
+    }
+
+    const priceMin = price_min ? parseFloat(price_min) : undefined
+    const priceMax = price_max ? parseFloat(price_max) : undefined
+    if ((priceMin !== undefined && !Number.isFinite(priceMin)) || (priceMax !== undefined && !Number.isFinite(priceMax))) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid price filter',
+        details: 'price_min and price_max must be numbers'
+      })
+    }
+
+    const parsedCursor = cursor ? parseCatalogCursor(cursor, sort) : null
+    if (cursor && !parsedCursor) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid cursor',
+        details: 'cursor must come from a previous response with the same sort'
+      })
+    }
 
     try {
       const filters: CatalogFilters = {
-        category,
-        price_min: price_min ? parseFloat(price_min) : undefined,
-        price_max: price_max ? parseFloat(price_max) : undefined,
-        badges: badges ? badges.split(',') : undefined,
-        media_type,
+        category: category || undefined,
+        price_min: priceMin,
+        price_max: priceMax,
+        badges: badges ? badges.split(',').map((badge) => badge.trim()).filter(Boolean) : undefined,
+        media_type: media_type || undefined,
         search
       }
 
-      const limitNum = Math.min(parseInt(limit, 10), 100) // Max 100 items
-      const offsetNum = parseInt(offset, 10)
+      const limitNum = Math.min(Math.max(parseInt(limit, 10) || 20, 1), 100) // Max 100 items
+      const offsetNum = Math.max(parseInt(offset, 10) || 0, 0)
 
-      const blinks = await getPublicBlinks(filters, limitNum, offsetNum)
-
-      // Apply sorting
-      if (sort === 'popular') {
-        blinks.sort((a, b) => b.runs - a.runs)
-      } else if (sort === 'price_low') {
-        blinks.sort((a, b) => parseFloat(a.price_usdc) - parseFloat(b.price_usdc))
-      } else if (sort === 'price_high') {
-        blinks.sort((a, b) => parseFloat(b.price_usdc) - parseFloat(a.price_usdc))
-      }
-      // Default 'newest' sorting is already applied in database query
+      const result = await searchCatalog(filters, {
+        sort,
+        limit: limitNum,
+        offset: offsetNum,
+        cursor: parsedCursor
+      })
 
       return reply.code(200).send({
         success: true,
-        data: blinks,
+        data: result.blinks,
+        facets: result.facets,
+        sort,
         pagination: {
           limit: limitNum,
-          offset: offsetNum,
-          total: blinks.length // Note: This is the current page count, not total count
+          offset: parsedCursor ? null : offsetNum, // Cursor pages have no offset
+          total: result.total,
+          next_cursor: result.next_cursor,
+          has_more: result.next_cursor !== null
         }
       })
     } catch (error) {
@@ -152,15 +198,14 @@ export const catalogRoutes: FastifyPluginAsync = async (fastify) => {
   // Toggle blink public visibility (creator only)
   fastify.put<{
     Params: { slug: string }
-    Body: { is_public: boolean; publish_to_catalog?: boolean }
-  }>('/catalog/:slug/publish', async (request, reply) => {
+    Body: WalletAuthBody & { is_public: boolean; publish_to_catalog?: boolean }
+  }>('/catalog/:slug/publish', {
+    preHandler: requireScope('blinks:write'),
+  }, async (request, reply) => {
     const { slug } = request.params
     const { is_public, publish_to_catalog = false } = request.body
 
     try {
-      // TODO: Add authentication check here to ensure only creator can toggle
-      // For now, we'll skip auth as it's not implemented yet
-
       const blink = await getBlinkBySlug(slug)
       if (!blink) {
         return reply.code(404).send({
@@ -169,6 +214,13 @@ export const catalogRoutes: FastifyPluginAsync = async (fastify) => {
         })
       }
 
+      if (!verifyOwnership(request.authenticatedWallet!, blink.creator.wallet)) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Forbidden: You can only publish your own blinks'
+        })
+      }
+
       // If trying to publish, validate first
       if (is_public && publish_to_catalog) {
         const { validateBlinkForPublishing, publishBlinkToCatalog, getPool } = await import('@blink402/database')
@@ -276,9 +328,17 @@ export const catalogRoutes: FastifyPluginAsync = async (fastify) => {
     }
   })
 
-  // Report a blink
-  fastify.post<{ Body: ReportBody }>('/catalog/report', async (request, reply) => {
-    const { blink_id, reporter_wallet, reason, details } = request.body
+  // Report a blink (signed by the reporter's wallet, which is what counts toward auto-unpublish)
+  fastify.post<{ Body: WalletAuthBody & ReportBody }>('/catalog/report', {
+    config: {
+      rateLimit: {
+        max: REPORTS_PER_IP_PER_HOUR,
+        timeWindow: '1 hour'
+      }
+    },
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const { blink_id, reason, details } = request.body || {}
 
     // Validate required fields
     if (!blink_id || !reason) {
@@ -287,21 +347,49 @@ export const catalogRoutes: FastifyPluginAsync = async (fastify) => {
         error: 'Missing required fields: blink_id and reason'
       })
     }
+    if (!BLINK_REPORT_REASONS.includes(reason)) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid reason',
+        details: `reason must be one of: ${BLINK_REPORT_REASONS.join(', ')}`
+      })
+    }
+    if (details !== undefined && (typeof details !== 'string' || details.length > MAX_REPORT_DETAILS_LENGTH)) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid details',
+        details: `details must be a string of at most ${MAX_REPORT_DETAILS_LENGTH} characters`
+      })
+    }
 
     try {
-      const success = await reportBlink(blink_id, reporter_wallet || null, reason, details || null)
+      const report = await createBlinkReport({
+        blinkId: blink_id,
+        reporterWallet: request.authenticatedWallet!,
+        reason,
+        details: details || null,
+        autoUnpublishAt: AUTO_UNPUBLISH_REPORTS
+      })
 
-      if (success) {
-        return reply.code(200).send({
-          success: true,
-          message: 'Report submitted successfully'
-        })
-      } else {
-        return reply.code(500).send({
+      if (!report) {
+        return reply.code(404).send({
           success: false,
-          error: 'Failed to submit report'
+          error: 'Blink not found'
         })
       }
+
+      if (report.autoUnpublished) {
+        fastify.log.warn({ blink_id, reportId: report.reportId }, 'Blink removed from catalog pending moderation')
+        if (isRedisConnected()) {
+          await deleteCache('featured_blinks')
+          await deleteCache('trending_blinks_1')
+        }
+      }
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Report submitted successfully'
+      })
     } catch (error) {
       fastify.log.error({ error, blink_id, reason }, 'Error reporting blink')
       return reply.code(500).send({
@@ -311,13 +399,15 @@ export const catalogRoutes: FastifyPluginAsync = async (fastify) => {
     }
   })
 
-  // Update blink badges (internal endpoint for background job)
+  // Update blink badges (internal endpoint for background job, X-Admin-Key)
   fastify.post<{ Params: { id: string } }>('/catalog/:id/badges', async (request, reply) => {
     const { id } = request.params
 
-    try {
-      // TODO: Add internal API key check for security
+    if (!verifyAdminAuth(request, reply)) {
+      return
+    }
 
+    try {
       const success = await updateBlinkBadges(id)
 
       if (success) {
@@ -340,7 +430,7 @@ export const catalogRoutes: FastifyPluginAsync = async (fastify) => {
     }
   })
 
-  // Update blink health status (internal endpoint for background job)
+  // Update blink health status (internal endpoint for background job, X-Admin-Key)
   fastify.post<{
     Params: { id: string }
     Body: { status: 'healthy' | 'degraded' | 'unhealthy' }
@@ -348,9 +438,11 @@ export const catalogRoutes: FastifyPluginAsync = async (fastify) => {
     const { id } = request.params
     const { status } = request.body
 
-    try {
-      // TODO: Add internal API key check for security
+    if (!verifyAdminAuth(request, reply)) {
+      return
+    }
 
+    try {
       const success = await updateBlinkHealth(id, status)
 
       if (success) {
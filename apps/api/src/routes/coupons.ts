@@ -0,0 +1,163 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  getOrCreateCreator,
+  getBlinkBySlug,
+  createCoupon,
+  getCreatorCoupons,
+  updateCreatorCoupon,
+} from '@blink402/database'
+import { requireScope, verifyOwnership, type WalletAuthBody } from '../auth.js'
+import { MAX_COUPONS_PER_CREATOR, validateCouponBody, type CouponBody } from '../utils/coupons.js'
+
+/**
+ * Turn the blink slugs a coupon is scoped to into blink ids
+ * @returns Blink ids (null = all of the creator's blinks), or error details
+ */
+async function resolveCouponBlinks(
+  slugs: string[] | null | undefined,
+  wallet: string
+): Promise<{ blinkIds: string[] | null | undefined } | { error: string }> {
+  if (slugs === undefined || slugs === null) {
+    return { blinkIds: slugs }
+  }
+
+  const blinkIds: string[] = []
+  for (const slug of [...new Set(slugs)]) {
+    const blink = await getBlinkBySlug(slug)
+    if (!blink || !verifyOwnership(wallet, blink.creator.wallet)) {
+      return { error: `Blink "${slug}" not found among your blinks` }
+    }
+    blinkIds.push(blink.id)
+  }
+  return { blinkIds }
+}
+
+/**
+ * Creator coupon management
+ * Every route requires wallet authentication (or an API key with blinks:write); creators only see their own coupons.
+ * Coupons are disabled (is_active: false) rather than deleted, so their redemptions stay in analytics.
+ */
+export const couponRoutes: FastifyPluginAsync = async (fastify) => {
+  // GET /api/creator/coupons - List the creator's coupons with redemption totals
+  fastify.get<{ Body: WalletAuthBody }>('/', {
+    preHandler: requireScope('blinks:write'),
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+
+    try {
+      const coupons = await getCreatorCoupons(wallet)
+      return reply.code(200).send({ success: true, coupons })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error listing coupons')
+      return reply.code(500).send({ success: false, error: 'Failed to list coupons' })
+    }
+  })
+
+  // POST /api/creator/coupons - Issue a coupon
+  fastify.post<{ Body: WalletAuthBody & CouponBody }>('/', {
+    preHandler: requireScope('blinks:write'),
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const body = request.body || {}
+
+    if (body.code === undefined || body.discount_type === undefined || body.discount_value === undefined) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid coupon',
+        details: 'code, discount_type and discount_value are required'
+      })
+    }
+
+    const validationError = validateCouponBody(body)
+    if (validationError) {
+      return reply.code(400).send({ success: false, error: 'Invalid coupon', details: validationError })
+    }
+
+    try {
+      const scope = await resolveCouponBlinks(body.blinks, wallet)
+      if ('error' in scope) {
+        return reply.code(400).send({ success: false, error: 'Invalid coupon', details: scope.error })
+      }
+
+      const existing = await getCreatorCoupons(wallet)
+      if (existing.length >= MAX_COUPONS_PER_CREATOR) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Coupon limit reached',
+          details: `Creators can issue up to ${MAX_COUPONS_PER_CREATOR} coupons (disabled coupons still count)`
+        })
+      }
+      if (existing.some((coupon) => coupon.code === body.code!.toUpperCase())) {
+        return reply.code(409).send({
+          success: false,
+          error: 'Coupon code already exists',
+          details: `You already issued a coupon with code ${body.code!.toUpperCase()}`
+        })
+      }
+
+      const creatorId = await getOrCreateCreator(wallet)
+      const coupon = await createCoupon({
+        creatorId,
+        code: body.code,
+        discountType: body.discount_type,
+        discountValue: body.discount_value,
+        blinkIds: scope.blinkIds,
+        maxRedemptions: body.max_redemptions,
+        maxPerWallet: body.max_per_wallet,
+        expiresAt: body.expires_at ? new Date(body.expires_at) : null,
+      })
+
+      fastify.log.info({ wallet, couponId: coupon.id, code: coupon.code }, 'Created coupon')
+
+      return reply.code(201).send({ success: true, coupon })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error creating coupon')
+      return reply.code(500).send({ success: false, error: 'Failed to create coupon' })
+    }
+  })
+
+  // PUT /api/creator/coupons/:id - Change scope, limits or expiry, or enable/disable
+  fastify.put<{ Params: { id: string }; Body: WalletAuthBody & CouponBody }>('/:id', {
+    preHandler: requireScope('blinks:write'),
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const body = request.body || {}
+
+    if (body.code !== undefined || body.discount_type !== undefined || body.discount_value !== undefined) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid coupon',
+        details: 'code and discount cannot be changed - issue a new coupon instead'
+      })
+    }
+
+    const validationError = validateCouponBody(body)
+    if (validationError) {
+      return reply.code(400).send({ success: false, error: 'Invalid coupon', details: validationError })
+    }
+
+    try {
+      const scope = await resolveCouponBlinks(body.blinks, wallet)
+      if ('error' in scope) {
+        return reply.code(400).send({ success: false, error: 'Invalid coupon', details: scope.error })
+      }
+
+      const coupon = await updateCreatorCoupon(request.params.id, wallet, {
+        blinkIds: scope.blinkIds,
+        maxRedemptions: body.max_redemptions,
+        maxPerWallet: body.max_per_wallet,
+        expiresAt: body.expires_at === undefined ? undefined : body.expires_at ? new Date(body.expires_at) : null,
+        isActive: body.is_active,
+      })
+
+      if (!coupon) {
+        return reply.code(404).send({ success: false, error: 'Coupon not found' })
+      }
+
+      return reply.code(200).send({ success: true, coupon })
+    } catch (error) {
+      fastify.log.error({ error, wallet, couponId: request.params.id }, 'Error updating coupon')
+      return reply.code(500).send({ success: false, error: 'Failed to update coupon' })
+    }
+  })
+}
@@ -10,6 +10,7 @@ import {
   hasCreatorPayoutKey,
   deleteCreatorPayoutKey,
 } from '@blink402/database'
+import { requireScope, verifyOwnership, type WalletAuthBody } from '../auth.js'
 
 export const creatorPayoutKeyRoutes: FastifyPluginAsync = async (fastify) => {
   /**
@@ -76,10 +77,13 @@ export const creatorPayoutKeyRoutes: FastifyPluginAsync = async (fastify) => {
    * POST /api/creator/payout-key
    * Save encrypted payout key for creator
    * Body: { wallet: string, privateKey: string }
+   * Requires wallet authentication (or an API key with payouts:manage)
    */
   fastify.post<{
-    Body: { wallet: string; privateKey: string }
-  }>('/', async (request, reply) => {
+    Body: WalletAuthBody & { privateKey: string }
+  }>('/', {
+    preHandler: requireScope('payouts:manage'),
+  }, async (request, reply) => {
     const { wallet, privateKey } = request.body
 
     if (!wallet || !privateKey) {
@@ -87,6 +91,9 @@ export const creatorPayoutKeyRoutes: FastifyPluginAsync = async (fastify) => {
         error: 'Wallet address and private key required',
       })
     }
+    if (!verifyOwnership(request.authenticatedWallet!, wallet)) {
+      return reply.code(403).send({ error: 'Forbidden: You can only manage your own payout key' })
+    }
 
     // Validate private key format
     if (!isValidPrivateKeyFormat(privateKey)) {
@@ -176,15 +183,21 @@ export const creatorPayoutKeyRoutes: FastifyPluginAsync = async (fastify) => {
    * DELETE /api/creator/payout-key
    * Remove payout key for creator
    * Body: { wallet: string }
+   * Requires wallet authentication (or an API key with payouts:manage)
    */
   fastify.delete<{
-    Body: { wallet: string }
-  }>('/', async (request, reply) => {
+    Body: WalletAuthBody
+  }>('/', {
+    preHandler: requireScope('payouts:manage'),
+  }, async (request, reply) => {
     const { wallet } = request.body
 
     if (!wallet) {
       return reply.code(400).send({ error: 'Wallet address required' })
     }
+    if (!verifyOwnership(request.authenticatedWallet!, wallet)) {
+      return reply.code(403).send({ error: 'Forbidden: You can only manage your own payout key' })
+    }
 
     try {
       await deleteCreatorPayoutKey(wallet)
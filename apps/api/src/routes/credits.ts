@@ -0,0 +1,208 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  getCreditAccount,
+  setCreditLimits,
+  recordCreditDeposit,
+  getCreditTransactions,
+} from '@blink402/database'
+import { verifyWalletAuth, type WalletAuthBody } from '../auth.js'
+import { getCreditDepositWallet, verifyCreditDeposit, sendCreditWithdrawal } from '../utils/credits.js'
+
+const DEFAULT_HISTORY_LIMIT = 50
+const MAX_HISTORY_LIMIT = 200
+
+const USDC_AMOUNT_PATTERN = /^\d+(\.\d{1,6})?$/
+
+/**
+ * Check a USDC amount field (a decimal string with at most 6 decimals)
+ * @returns Error details, or null when valid
+ */
+function validateUsdcAmount(name: string, value: unknown): string | null {
+  if (typeof value !== 'string' || !USDC_AMOUNT_PATTERN.test(value) || !(parseFloat(value) > 0)) {
+    return `${name} must be a positive USDC amount with at most 6 decimals`
+  }
+  return null
+}
+
+/**
+ * Prepaid credits
+ * Every route requires wallet authentication; wallets only see their own balance.
+ * Credits are spent by calling /bazaar/:slug with an X-Credit-Authorization header.
+ */
+export const creditRoutes: FastifyPluginAsync = async (fastify) => {
+  // GET /api/credits - Balance, spend caps and the wallet to deposit to
+  fastify.get<{ Body: WalletAuthBody }>('/', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+
+    try {
+      const account = await getCreditAccount(wallet)
+      let depositWallet: string | null = null
+      try {
+        depositWallet = getCreditDepositWallet()
+      } catch (error) {
+        fastify.log.warn({ error }, 'Credit deposit wallet not configured')
+      }
+
+      return reply.code(200).send({
+        success: true,
+        credits: account || {
+          wallet,
+          balance: '0',
+          per_call_limit: null,
+          daily_limit: null,
+          spent_last_24h: '0',
+        },
+        deposit_wallet: depositWallet,
+      })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error loading credit balance')
+      return reply.code(500).send({ success: false, error: 'Failed to load credit balance' })
+    }
+  })
+
+  // GET /api/credits/history - Deposits, debits, refunds and withdrawals, newest first
+  fastify.get<{ Body: WalletAuthBody; Querystring: { limit?: string; before?: string } }>('/history', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const limit = Math.min(parseInt(request.query.limit || '', 10) || DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT)
+    const before = request.query.before ? new Date(request.query.before) : undefined
+
+    if (before && isNaN(before.getTime())) {
+      return reply.code(400).send({ success: false, error: 'Invalid query', details: 'before must be an ISO date' })
+    }
+
+    try {
+      const transactions = await getCreditTransactions({ wallet, limit, before })
+      return reply.code(200).send({ success: true, transactions })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error loading credit history')
+      return reply.code(500).send({ success: false, error: 'Failed to load credit history' })
+    }
+  })
+
+  // POST /api/credits/deposit - Credit a USDC transfer to the deposit wallet
+  fastify.post<{ Body: WalletAuthBody & { tx_signature?: string } }>('/deposit', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const txSignature = request.body?.tx_signature
+
+    if (typeof txSignature !== 'string' || txSignature.length < 32 || txSignature.length > 128) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid deposit',
+        details: 'tx_signature of the USDC transfer is required'
+      })
+    }
+
+    let amount: string
+    try {
+      amount = await verifyCreditDeposit({ wallet, signature: txSignature })
+    } catch (error) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Deposit verification failed',
+        details: error instanceof Error ? error.message : String(error)
+      })
+    }
+
+    try {
+      const { transaction, credited } = await recordCreditDeposit({
+        wallet,
+        amount,
+        signature: txSignature,
+        depositWallet: getCreditDepositWallet(),
+      })
+
+      if (transaction.wallet !== wallet) {
+        return reply.code(409).send({
+          success: false,
+          error: 'Deposit already claimed',
+          details: 'This transfer was credited to another wallet'
+        })
+      }
+
+      fastify.log.info({ wallet, amount, signature: txSignature, credited }, 'Credit deposit')
+
+      return reply.code(credited ? 201 : 200).send({
+        success: true,
+        transaction,
+        credits: await getCreditAccount(wallet),
+      })
+    } catch (error) {
+      fastify.log.error({ error, wallet, signature: txSignature }, 'Error crediting deposit')
+      return reply.code(500).send({ success: false, error: 'Failed to credit deposit' })
+    }
+  })
+
+  // PUT /api/credits/limits - Set or clear the per-call and daily spend caps
+  fastify.put<{
+    Body: WalletAuthBody & { per_call_limit?: string | null; daily_limit?: string | null }
+  }>('/limits', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const perCallLimit = request.body?.per_call_limit ?? null
+    const dailyLimit = request.body?.daily_limit ?? null
+
+    const validationError =
+      (perCallLimit !== null && validateUsdcAmount('per_call_limit', perCallLimit)) ||
+      (dailyLimit !== null && validateUsdcAmount('daily_limit', dailyLimit))
+    if (validationError) {
+      return reply.code(400).send({ success: false, error: 'Invalid limits', details: validationError })
+    }
+
+    try {
+      const credits = await setCreditLimits({ wallet, perCallLimit, dailyLimit })
+      return reply.code(200).send({ success: true, credits })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error updating credit limits')
+      return reply.code(500).send({ success: false, error: 'Failed to update credit limits' })
+    }
+  })
+
+  // POST /api/credits/withdraw - Send unused credits back to the wallet (whole balance by default)
+  fastify.post<{ Body: WalletAuthBody & { amount?: string } }>('/withdraw', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const amount = request.body?.amount
+
+    if (amount !== undefined) {
+      const validationError = validateUsdcAmount('amount', amount)
+      if (validationError) {
+        return reply.code(400).send({ success: false, error: 'Invalid withdrawal', details: validationError })
+      }
+    }
+
+    try {
+      const transaction = await sendCreditWithdrawal({ wallet, amount, log: fastify.log })
+
+      if (transaction.status === 'failed') {
+        return reply.code(502).send({
+          success: false,
+          error: 'Withdrawal failed',
+          details: 'The transfer could not be sent - the amount is back on your balance',
+          transaction,
+        })
+      }
+
+      // Broadcast but not confirmed yet - settled on-chain by the credit withdrawal worker
+      if (transaction.status === 'sending') {
+        return reply.code(202).send({ success: true, transaction, credits: await getCreditAccount(wallet) })
+      }
+
+      return reply.code(200).send({ success: true, transaction, credits: await getCreditAccount(wallet) })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      if (message.startsWith('Insufficient credits') || message === 'No credits to withdraw') {
+        return reply.code(400).send({ success: false, error: 'Invalid withdrawal', details: message })
+      }
+      fastify.log.error({ error, wallet }, 'Error withdrawing credits')
+      return reply.code(500).send({ success: false, error: 'Failed to withdraw credits' })
+    }
+  })
+}
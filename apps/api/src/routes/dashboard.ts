@@ -1,6 +1,76 @@
 import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify'
-import { getDashboardData } from '@blink402/database'
+import {
+  getPool,
+  getDashboardData,
+  getCreatorAnalytics,
+  getLedgerTransactions,
+  ledgerAccount,
+  type LedgerTransactionData
+} from '@blink402/database'
 import { getCacheOrFetch, deleteCache, isRedisConnected } from '@blink402/redis'
+import type { AnalyticsBucket } from '@blink402/types'
+import { authenticateRequest } from '../auth.js'
+
+const DEFAULT_EXPORT_LIMIT = 1000
+const MAX_EXPORT_LIMIT = 10000
+
+const ANALYTICS_BUCKET_MS: Record<AnalyticsBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+}
+const DEFAULT_ANALYTICS_RANGE_MS = 30 * 24 * 60 * 60 * 1000 // 30 days
+const MAX_ANALYTICS_BUCKETS = 500
+
+const CSV_COLUMNS = [
+  'created_at', 'kind', 'blink', 'run_reference', 'token', 'amount', 'creator_amount',
+  'debit_account', 'credit_account', 'signature', 'reconciliation_status',
+]
+
+/**
+ * Check that the request is authenticated as the requested wallet
+ * (a session, a signed token, or an API key with the analytics:read scope)
+ */
+async function isDashboardOwner(request: FastifyRequest, wallet: string): Promise<boolean> {
+  const auth = await authenticateRequest(request)
+  if ('error' in auth) {
+    request.log.debug({ error: auth.details }, 'Unauthenticated dashboard request')
+    return false
+  }
+  if (auth.method === 'api_key' && !auth.scopes!.includes('analytics:read')) {
+    return false
+  }
+  return auth.wallet === wallet
+}
+
+function escapeCsv(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One export row: the transaction plus its signed effect on the creator's account
+ */
+function toExportRow(tx: LedgerTransactionData, creatorId: string) {
+  const account = ledgerAccount.creator(creatorId)
+  const creatorAmount = tx.entries
+    .filter((entry) => entry.account === account)
+    .reduce((sum, entry) => sum + (entry.direction === 'credit' ? 1 : -1) * parseFloat(entry.amount), 0)
+
+  return {
+    created_at: new Date(tx.created_at).toISOString(),
+    kind: tx.kind,
+    blink: tx.blink_slug,
+    run_reference: tx.run_reference,
+    token: tx.token,
+    amount: tx.amount,
+    creator_amount: creatorAmount.toString(),
+    debit_account: tx.entries.find((entry) => entry.direction === 'debit')?.account || null,
+    credit_account: tx.entries.find((entry) => entry.direction === 'credit')?.account || null,
+    signature: tx.signature,
+    reconciliation_status: tx.reconciliation_status,
+  }
+}
 
 export const dashboardRoutes: FastifyPluginAsync = async (fastify) => {
   // GET /dashboard - Get creator dashboard data (requires wallet ownership)
@@ -15,27 +85,8 @@ export const dashboardRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.code(400).send({ success: false, error: 'Missing wallet query parameter' })
     }
 
-    // Check if request has authorization header for private data
-    const authHeader = request.headers.authorization
-    let isOwner = false
-
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      try {
-        const token = authHeader.substring(7)
-        const authToken = JSON.parse(Buffer.from(token, 'base64').toString('utf-8'))
-
-        // Check if the authenticated wallet matches the requested wallet
-        if (authToken.wallet === wallet) {
-          isOwner = true
-        }
-      } catch (error) {
-        // Invalid auth token, continue as public view
-        fastify.log.debug({ error }, 'Invalid auth token in dashboard request')
-      }
-    }
-
     // For non-owners, only show limited public data
-    if (!isOwner) {
+    if (!(await isDashboardOwner(request, wallet))) {
       fastify.log.info({ wallet }, 'Public dashboard access')
       // Could return limited data here or require auth
       return reply.code(403).send({
@@ -68,4 +119,131 @@ export const dashboardRoutes: FastifyPluginAsync = async (fastify) => {
       })
     }
   })
+
+  // GET /dashboard/ledger - Export the creator's ledger transactions (requires wallet ownership)
+  // Query: ?wallet=<address>&format=json|csv&from=<ISO date>&to=<ISO date>&limit=<n>
+  fastify.get<{
+    Querystring: { wallet: string; format?: string; from?: string; to?: string; limit?: string }
+  }>('/ledger', async (request, reply) => {
+    const { wallet, format = 'json', from, to, limit } = request.query
+
+    if (!wallet) {
+      return reply.code(400).send({ success: false, error: 'Missing wallet query parameter' })
+    }
+    if (!(await isDashboardOwner(request, wallet))) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Authentication required to export the ledger',
+        details: 'The ledger contains private information and requires wallet ownership'
+      })
+    }
+    if (format !== 'json' && format !== 'csv') {
+      return reply.code(400).send({ success: false, error: 'Invalid format', details: 'format must be json or csv' })
+    }
+
+    const fromDate = from ? new Date(from) : undefined
+    const toDate = to ? new Date(to) : undefined
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return reply.code(400).send({ success: false, error: 'Invalid date range', details: 'from and to must be ISO dates' })
+    }
+
+    const parsedLimit = limit ? parseInt(limit, 10) : DEFAULT_EXPORT_LIMIT
+    if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_EXPORT_LIMIT) {
+      return reply.code(400).send({ success: false, error: 'Invalid limit', details: `limit must be between 1 and ${MAX_EXPORT_LIMIT}` })
+    }
+
+    try {
+      const creatorResult = await getPool().query('SELECT id FROM creators WHERE wallet = $1', [wallet])
+      const creatorId: string | undefined = creatorResult.rows[0]?.id
+      const transactions = creatorId
+        ? await getLedgerTransactions({ creatorId, from: fromDate, to: toDate, limit: parsedLimit })
+        : []
+      const rows = transactions.map((tx) => toExportRow(tx, creatorId!))
+
+      if (format === 'csv') {
+        const lines = [
+          CSV_COLUMNS.join(','),
+          ...rows.map((row) => CSV_COLUMNS.map((column) => escapeCsv((row as Record<string, unknown>)[column])).join(',')),
+        ]
+        return reply
+          .header('Content-Type', 'text/csv; charset=utf-8')
+          .header('Content-Disposition', `attachment; filename="blink402-ledger-${wallet}.csv"`)
+          .send(lines.join('\n') + '\n')
+      }
+
+      return reply.code(200).send({ success: true, data: { wallet, transactions: rows } })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error exporting ledger')
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to export ledger',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  })
+
+  // GET /dashboard/:wallet/analytics - Per-blink time series and checkout funnel (requires wallet ownership)
+  // Query: ?from=<ISO date>&to=<ISO date>&bucket=hour|day|week&blink=<slug>
+  // Defaults: the last 30 days in daily buckets
+  fastify.get<{
+    Params: { wallet: string }
+    Querystring: { from?: string; to?: string; bucket?: string; blink?: string }
+  }>('/:wallet/analytics', async (request, reply) => {
+    const { wallet } = request.params
+    const { bucket = 'day', blink } = request.query
+
+    if (!(await isDashboardOwner(request, wallet))) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Authentication required to view analytics',
+        details: 'Analytics contain private information and require wallet ownership'
+      })
+    }
+    if (!Object.hasOwn(ANALYTICS_BUCKET_MS, bucket)) {
+      return reply.code(400).send({ success: false, error: 'Invalid bucket', details: 'bucket must be hour, day or week' })
+    }
+
+    const to = request.query.to ? new Date(request.query.to) : new Date()
+    const from = request.query.from ? new Date(request.query.from) : new Date(to.getTime() - DEFAULT_ANALYTICS_RANGE_MS)
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return reply.code(400).send({ success: false, error: 'Invalid date range', details: 'from and to must be ISO dates with from before to' })
+    }
+
+    const bucketCount = Math.ceil((to.getTime() - from.getTime()) / ANALYTICS_BUCKET_MS[bucket as AnalyticsBucket])
+    if (bucketCount > MAX_ANALYTICS_BUCKETS) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Range too large',
+        details: `At most ${MAX_ANALYTICS_BUCKETS} ${bucket} buckets per request - use a larger bucket or a shorter range`
+      })
+    }
+
+    try {
+      const fetchAnalytics = () => getCreatorAnalytics({
+        wallet,
+        from,
+        to,
+        bucket: bucket as AnalyticsBucket,
+        blinkSlug: blink,
+      })
+
+      // Explicit ranges are cached for a minute; "up to now" ranges always change
+      const data = isRedisConnected() && request.query.to
+        ? await getCacheOrFetch(`analytics:${wallet}:${bucket}:${from.toISOString()}:${to.toISOString()}:${blink || ''}`, fetchAnalytics, 60)
+        : await fetchAnalytics()
+
+      if (!data) {
+        return reply.code(404).send({ success: false, error: 'Creator not found' })
+      }
+
+      return reply.code(200).send({ success: true, data })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error fetching creator analytics')
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to fetch analytics',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  })
 }
@@ -15,6 +15,7 @@ import {
   type GalleryAccess,
 } from '@blink402/database'
 import { processImage, validateImage } from '../utils/imageProcessor.js'
+import { verifyWalletAuth, verifyOwnership, type WalletAuthBody } from '../auth.js'
 
 const UPLOAD_DIR = join(process.cwd(), 'uploads', 'galleries')
 const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
@@ -24,12 +25,14 @@ export const galleryRoutes: FastifyPluginAsync = async (fastify) => {
   // Note: Upload directory is created automatically by image processor
 
   // POST /api/gallery/upload - Upload image to creator's gallery
+  // Requires wallet authentication in the Authorization header (the body is the file)
   fastify.post<{
-    Querystring: { wallet: string; uploaderWallet?: string }
-    Headers: { 'x-uploader-wallet'?: string }
-  }>('/upload', async (request, reply) => {
-    const { wallet, uploaderWallet } = request.query
-    const headerWallet = request.headers['x-uploader-wallet']
+    Querystring: { wallet: string }
+    Body: WalletAuthBody
+  }>('/upload', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const { wallet } = request.query
 
     if (!wallet) {
       return reply.code(400).send({ error: 'wallet query parameter required' })
@@ -42,8 +45,8 @@ export const galleryRoutes: FastifyPluginAsync = async (fastify) => {
     }
 
     // Verify uploader owns the gallery
-    const actualUploader = headerWallet || uploaderWallet || wallet
-    if (actualUploader !== wallet) {
+    const actualUploader = request.authenticatedWallet!
+    if (!verifyOwnership(actualUploader, wallet)) {
       fastify.log.warn({ wallet, actualUploader }, 'Unauthorized upload attempt to gallery')
       return reply.code(403).send({ error: 'Unauthorized: You can only upload to your own gallery' })
     }
@@ -391,7 +394,7 @@ export const galleryRoutes: FastifyPluginAsync = async (fastify) => {
         result = await updateBlink(slug, blinkData)
       } else {
         // Create new blink
-        result = await createBlink(blinkData)
+        result = await createBlink({ ...blinkData, blockchain: 'solana' })
       }
 
       fastify.log.info({ wallet, slug }, 'Gallery blink configured')
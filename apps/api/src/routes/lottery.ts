@@ -13,11 +13,18 @@ import {
   getLotteryStatsByBlink,
   getLotteryHistory,
   getRoundById,
+  getRoundByNumber,
   getRunByReference,
   createRun,
   updateRunPaymentAtomic
 } from '@blink402/database'
 import { getConnection, getUsdcMint } from '@blink402/solana'
+import {
+  createSeedCommitment,
+  computeDrawSeed,
+  selectWinners,
+  DRAW_ALGORITHM_DESCRIPTION
+} from '../utils/lottery-fairness.js'
 // PayAI x402 SDK for payment verification and settlement
 import { X402PaymentHandler } from 'x402-solana/server'
 
@@ -31,7 +38,8 @@ import type {
   LotteryEntryRequest,
   LotteryEntryResponse,
   LotteryCurrentRoundResponse,
-  LotteryWinnersResponse
+  LotteryWinnersResponse,
+  LotteryRoundProofResponse
 } from '@blink402/types'
 
 /**
@@ -47,10 +55,10 @@ export async function createLotteryEntryInternal(
   // 1. Get or create active round
   let activeRound = await getActiveRound(blink.id)
   if (!activeRound) {
-    // Get max round number and create next round
+    // Get max round number and create next round, committing to its server seed up front
     const maxRoundNumber = await getMaxRoundNumber(blink.id)
     const nextRoundNumber = maxRoundNumber + 1
-    activeRound = await createLotteryRound(blink.id, nextRoundNumber)
+    activeRound = await createLotteryRound(blink.id, nextRoundNumber, createSeedCommitment())
     logger.info({ blinkId: blink.id, roundId: activeRound.id, roundNumber: nextRoundNumber }, 'Created new lottery round')
   }
 
@@ -379,6 +387,7 @@ export const lotteryRoutes: FastifyPluginAsync = async (fastify) => {
         next_draw_at: nextDrawAt,
         time_remaining_seconds: timeRemainingSeconds,
         user_entries: userEntries,
+        server_seed_hash: activeRound.server_seed_hash,
         prize_breakdown: prizeBreakdown
       }
 
@@ -489,6 +498,89 @@ export const lotteryRoutes: FastifyPluginAsync = async (fastify) => {
     }
   })
 
+  // GET /lottery/:slug/rounds/:roundNumber/proof - Commit-reveal data to recompute a round's winners
+  fastify.get<{
+    Params: { slug: string; roundNumber: string }
+  }>('/:slug/rounds/:roundNumber/proof', async (request, reply) => {
+    const { slug } = request.params
+    const roundNumber = parseInt(request.params.roundNumber, 10)
+
+    if (!Number.isInteger(roundNumber) || roundNumber < 1) {
+      return reply.code(400).send({ error: 'Invalid round number' })
+    }
+
+    try {
+      // 1. Validate blink
+      const blink = await getBlinkBySlug(slug)
+      if (!blink) {
+        return reply.code(404).send({ error: 'Lottery not found' })
+      }
+
+      if (!blink.lottery_enabled) {
+        return reply.code(400).send({ error: 'This blink is not a lottery' })
+      }
+
+      // 2. Get round
+      const round = await getRoundByNumber(blink.id, roundNumber)
+      if (!round) {
+        return reply.code(404).send({ error: 'Round not found' })
+      }
+
+      if (!round.server_seed_hash) {
+        return reply.code(404).send({ error: 'No fairness proof for this round (drawn before commit-reveal)' })
+      }
+
+      // 3. Entries in draw order, and the recorded winners
+      const entries = await getRoundEntries(round.id)
+      const winners = await getRoundWinners(round.id)
+
+      // 4. Recompute the draw once the seed is revealed
+      const drawSeed = round.server_seed && round.entropy_blockhash
+        ? computeDrawSeed(round.server_seed, round.entropy_blockhash)
+        : null
+      let verified: boolean | null = null
+      if (drawSeed) {
+        const recomputed = selectWinners(entries, 3, drawSeed)
+        verified = recomputed.length === winners.length &&
+          recomputed.every((entry, i) => winners[i].payout_rank === i + 1 && winners[i].winner_wallet === entry.payer_wallet)
+      }
+
+      const response: LotteryRoundProofResponse = {
+        round_id: round.id,
+        round_number: round.round_number,
+        status: round.status,
+        started_at: round.started_at,
+        ended_at: round.ended_at,
+        server_seed_hash: round.server_seed_hash,
+        server_seed: round.server_seed ?? null,
+        entropy: {
+          source: 'solana_blockhash',
+          target_slot: round.entropy_target_slot ?? null,
+          slot: round.entropy_slot ?? null,
+          blockhash: round.entropy_blockhash ?? null
+        },
+        draw_seed: drawSeed,
+        algorithm: DRAW_ALGORITHM_DESCRIPTION,
+        entries: entries.map(e => ({
+          entry_id: e.id,
+          payer_wallet: e.payer_wallet,
+          entry_timestamp: e.entry_timestamp
+        })),
+        winners: winners.map(w => ({
+          rank: w.payout_rank,
+          wallet: w.winner_wallet
+        })),
+        verified
+      }
+
+      return reply.code(200).send(response)
+
+    } catch (error) {
+      fastify.log.error({ error, slug, roundNumber }, 'Error fetching lottery round proof')
+      return reply.code(500).send({ error: 'Internal server error' })
+    }
+  })
+
   // GET /lottery/:slug/stats - Get overall lottery statistics
   fastify.get<{
     Params: { slug: string }
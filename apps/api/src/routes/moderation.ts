@@ -0,0 +1,276 @@
+import { FastifyPluginAsync, FastifyReply } from 'fastify'
+import {
+  getModerationReports,
+  getModerationReportCounts,
+  updateBlinkReportStatus,
+  unpublishBlinkForModeration,
+  releaseCatalogHold,
+  suspendBlink,
+  unsuspendBlink,
+  suspendCreator,
+  unsuspendCreator,
+  getModerationActions,
+  BLINK_REPORT_REASONS,
+  type ModerationResult
+} from '@blink402/database'
+import { deleteCache, isRedisConnected } from '@blink402/redis'
+import type { BlinkReportReason, BlinkReportStatus } from '@blink402/types'
+import { verifyAdminAuth, getAdminActor } from '../utils/admin-auth.js'
+
+const REPORT_STATUSES: BlinkReportStatus[] = ['pending', 'reviewing', 'resolved', 'dismissed']
+const BLINK_ACTIONS = ['unpublish', 'release-hold', 'suspend', 'unsuspend'] as const
+const MAX_NOTES_LENGTH = 2000
+
+type BlinkAction = typeof BLINK_ACTIONS[number]
+
+interface ModerationBody {
+  notes?: string
+  reason?: string // Required when suspending
+}
+
+/**
+ * Trim notes/reasons from a request body
+ * @returns Text (null when empty), or an error message
+ */
+function readText(value: unknown, field: string): { text: string | null } | { error: string } {
+  if (value === undefined || value === null || value === '') {
+    return { text: null }
+  }
+  if (typeof value !== 'string' || value.length > MAX_NOTES_LENGTH) {
+    return { error: `${field} must be a string of at most ${MAX_NOTES_LENGTH} characters` }
+  }
+  return { text: value.trim() || null }
+}
+
+/**
+ * Send the outcome of a moderation action (null = target not found)
+ */
+function sendResult(reply: FastifyReply, result: ModerationResult | null, notFound: string) {
+  if (!result) {
+    return reply.code(404).send({ error: notFound })
+  }
+  if (!result.success) {
+    return reply.code(409).send({ error: 'Action not applicable', message: result.error })
+  }
+  return reply.send({ success: true, affected_blinks: result.affectedBlinks })
+}
+
+/**
+ * Clear cached catalog lists after a blink leaves or changes in the catalog
+ */
+async function clearCatalogCache(): Promise<void> {
+  if (isRedisConnected()) {
+    await deleteCache('featured_blinks')
+    await deleteCache('trending_blinks_1')
+  }
+}
+
+/**
+ * Moderation console API (X-Admin-Key; X-Admin-Actor names the moderator in the audit log)
+ * Reports are triaged (pending -> reviewing -> resolved/dismissed); blinks can be unpublished
+ * (held out of the catalog), suspended and unsuspended, and creators suspended with all their blinks.
+ */
+export const moderationRoutes: FastifyPluginAsync = async (fastify) => {
+  // GET /admin/moderation/reports - Moderation queue (default: pending)
+  fastify.get<{
+    Querystring: { status?: string; reason?: string; blink_id?: string; limit?: string }
+  }>('/reports', async (request, reply) => {
+    if (!verifyAdminAuth(request, reply)) {
+      return
+    }
+
+    const status = (request.query.status || 'pending') as BlinkReportStatus | 'all'
+    const { reason, blink_id } = request.query
+    if (status !== 'all' && !REPORT_STATUSES.includes(status)) {
+      return reply.code(400).send({ error: 'Invalid status', message: `status must be all or one of: ${REPORT_STATUSES.join(', ')}` })
+    }
+    if (reason && !BLINK_REPORT_REASONS.includes(reason as BlinkReportReason)) {
+      return reply.code(400).send({ error: 'Invalid reason', message: `reason must be one of: ${BLINK_REPORT_REASONS.join(', ')}` })
+    }
+    const limit = Math.min(Math.max(parseInt(request.query.limit || '50', 10) || 50, 1), 500)
+
+    try {
+      const [reports, counts] = await Promise.all([
+        getModerationReports({
+          status: status === 'all' ? undefined : status,
+          reason: reason as BlinkReportReason | undefined,
+          blinkId: blink_id,
+          limit
+        }),
+        getModerationReportCounts()
+      ])
+
+      return reply.send({ counts, reports })
+    } catch (error) {
+      fastify.log.error({ error }, 'Failed to list reports')
+      return reply.code(500).send({ error: 'Failed to list reports' })
+    }
+  })
+
+  // POST /admin/moderation/reports/:id/:status - Triage a report (reviewing, resolved or dismissed)
+  fastify.post<{
+    Params: { id: string; status: string }
+    Body: ModerationBody
+  }>('/reports/:id/:status', async (request, reply) => {
+    if (!verifyAdminAuth(request, reply)) {
+      return
+    }
+
+    const { id } = request.params
+    const status = request.params.status as Exclude<BlinkReportStatus, 'pending'>
+    if (!['reviewing', 'resolved', 'dismissed'].includes(status)) {
+      return reply.code(400).send({ error: 'Invalid status', message: 'status must be reviewing, resolved or dismissed' })
+    }
+    const notes = readText(request.body?.notes, 'notes')
+    if ('error' in notes) {
+      return reply.code(400).send({ error: 'Invalid notes', message: notes.error })
+    }
+
+    const actor = getAdminActor(request)
+
+    try {
+      const result = await updateBlinkReportStatus(id, { status, actor, notes: notes.text })
+      if (result?.success) {
+        fastify.log.info({ reportId: id, status, actor }, 'Moderator updated report')
+      }
+      return sendResult(reply, result, 'Report not found')
+    } catch (error) {
+      fastify.log.error({ error, reportId: id, status }, 'Failed to update report')
+      return reply.code(500).send({ error: 'Failed to update report' })
+    }
+  })
+
+  // POST /admin/moderation/blinks/:id/:action - unpublish, release-hold, suspend or unsuspend a blink
+  fastify.post<{
+    Params: { id: string; action: string }
+    Body: ModerationBody
+  }>('/blinks/:id/:action', async (request, reply) => {
+    if (!verifyAdminAuth(request, reply)) {
+      return
+    }
+
+    const { id } = request.params
+    const action = request.params.action as BlinkAction
+    if (!BLINK_ACTIONS.includes(action)) {
+      return reply.code(400).send({ error: 'Invalid action', message: `action must be one of: ${BLINK_ACTIONS.join(', ')}` })
+    }
+
+    const notes = readText(request.body?.notes, 'notes')
+    const reason = readText(request.body?.reason, 'reason')
+    if ('error' in notes || 'error' in reason) {
+      return reply.code(400).send({ error: 'Invalid request', message: 'error' in notes ? notes.error : (reason as { error: string }).error })
+    }
+    if (action === 'suspend' && !reason.text) {
+      return reply.code(400).send({ error: 'Missing reason', message: 'A reason is required to suspend a blink' })
+    }
+
+    const actor = getAdminActor(request)
+
+    try {
+      let result: ModerationResult | null
+      if (action === 'unpublish') {
+        result = await unpublishBlinkForModeration(id, actor, notes.text)
+      } else if (action === 'release-hold') {
+        result = await releaseCatalogHold(id, actor, notes.text)
+      } else if (action === 'suspend') {
+        result = await suspendBlink(id, actor, reason.text!)
+      } else {
+        result = await unsuspendBlink(id, actor, notes.text)
+      }
+
+      if (result?.success) {
+        fastify.log.info({ blinkId: id, action, actor }, 'Moderator action on blink')
+        await clearCatalogCache()
+      }
+      return sendResult(reply, result, 'Blink not found')
+    } catch (error) {
+      fastify.log.error({ error, blinkId: id, action }, 'Failed to moderate blink')
+      return reply.code(500).send({ error: 'Failed to moderate blink' })
+    }
+  })
+
+  // POST /admin/moderation/creators/:wallet/suspend - Suspend a creator and their active blinks
+  fastify.post<{
+    Params: { wallet: string }
+    Body: ModerationBody
+  }>('/creators/:wallet/suspend', async (request, reply) => {
+    if (!verifyAdminAuth(request, reply)) {
+      return
+    }
+
+    const { wallet } = request.params
+    const reason = readText(request.body?.reason, 'reason')
+    if ('error' in reason) {
+      return reply.code(400).send({ error: 'Invalid reason', message: reason.error })
+    }
+    if (!reason.text) {
+      return reply.code(400).send({ error: 'Missing reason', message: 'A reason is required to suspend a creator' })
+    }
+
+    const actor = getAdminActor(request)
+
+    try {
+      const result = await suspendCreator(wallet, actor, reason.text)
+      if (result?.success) {
+        fastify.log.warn({ wallet, actor, blinks: result.affectedBlinks }, 'Moderator suspended creator')
+        await clearCatalogCache()
+      }
+      return sendResult(reply, result, 'Creator not found')
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Failed to suspend creator')
+      return reply.code(500).send({ error: 'Failed to suspend creator' })
+    }
+  })
+
+  // POST /admin/moderation/creators/:wallet/unsuspend - Lift a creator suspension (restores the blinks it paused)
+  fastify.post<{
+    Params: { wallet: string }
+    Body: ModerationBody
+  }>('/creators/:wallet/unsuspend', async (request, reply) => {
+    if (!verifyAdminAuth(request, reply)) {
+      return
+    }
+
+    const { wallet } = request.params
+    const notes = readText(request.body?.notes, 'notes')
+    if ('error' in notes) {
+      return reply.code(400).send({ error: 'Invalid notes', message: notes.error })
+    }
+
+    const actor = getAdminActor(request)
+
+    try {
+      const result = await unsuspendCreator(wallet, actor, notes.text)
+      if (result?.success) {
+        fastify.log.info({ wallet, actor, blinks: result.affectedBlinks }, 'Moderator unsuspended creator')
+      }
+      return sendResult(reply, result, 'Creator not found')
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Failed to unsuspend creator')
+      return reply.code(500).send({ error: 'Failed to unsuspend creator' })
+    }
+  })
+
+  // GET /admin/moderation/actions - Audit log of moderator and automatic actions
+  fastify.get<{
+    Querystring: { blink_id?: string; creator_wallet?: string; limit?: string }
+  }>('/actions', async (request, reply) => {
+    if (!verifyAdminAuth(request, reply)) {
+      return
+    }
+
+    const limit = Math.min(Math.max(parseInt(request.query.limit || '100', 10) || 100, 1), 500)
+
+    try {
+      const actions = await getModerationActions({
+        blinkId: request.query.blink_id,
+        creatorWallet: request.query.creator_wallet,
+        limit
+      })
+      return reply.send({ actions })
+    } catch (error) {
+      fastify.log.error({ error }, 'Failed to list moderation actions')
+      return reply.code(500).send({ error: 'Failed to list moderation actions' })
+    }
+  })
+}
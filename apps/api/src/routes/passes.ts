@@ -0,0 +1,216 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  getBlinkBySlug,
+  getPool,
+  createRun,
+  getRunByReference,
+  updateRunPaymentAtomic,
+  grantAccessPass,
+  getAccessPasses,
+  type RunData,
+} from '@blink402/database'
+import { parsePublicKey } from '@blink402/solana'
+import { verifyWalletAuth, type WalletAuthBody } from '../auth.js'
+import {
+  describeAccessPass,
+  isValidPassPurchaseKey,
+  passCreditPurchaseReference,
+  passPurchaseReference,
+  verifyPassPurchase,
+} from '../utils/passes.js'
+
+/**
+ * Access passes
+ * A pass covers a blink's calls for a period (optionally up to a number of calls).
+ * Pass holders call /bazaar/:slug with an X-Pass-Authorization header instead of paying.
+ */
+export const passRoutes: FastifyPluginAsync = async (fastify) => {
+  // GET /api/passes?wallet=&slug= - A wallet's current and upcoming passes (public, like gallery access checks)
+  fastify.get<{ Querystring: { wallet?: string; slug?: string } }>('/', async (request, reply) => {
+    const { wallet, slug } = request.query
+
+    if (!wallet || !parsePublicKey(wallet)) {
+      return reply.code(400).send({ success: false, error: 'Invalid query', details: 'wallet must be a valid Solana address' })
+    }
+
+    try {
+      const passes = await getAccessPasses({ wallet, slug: slug || undefined })
+      return reply.code(200).send({ success: true, passes })
+    } catch (error) {
+      fastify.log.error({ error, wallet, slug }, 'Error loading access passes')
+      return reply.code(500).send({ success: false, error: 'Failed to load access passes' })
+    }
+  })
+
+  // POST /api/passes/:slug/purchase - Buy a pass with a USDC transfer to the payout wallet or with credits
+  // Credit purchases need an Idempotency-Key header; retrying with the same key returns the same pass.
+  fastify.post<{
+    Params: { slug: string }
+    Body: WalletAuthBody & { tx_signature?: string; pay_with?: 'transfer' | 'credits' }
+  }>('/:slug/purchase', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const { slug } = request.params
+    const payWith = request.body?.pay_with || 'transfer'
+    const txSignature = request.body?.tx_signature
+
+    if (payWith !== 'transfer' && payWith !== 'credits') {
+      return reply.code(400).send({ success: false, error: 'Invalid purchase', details: "pay_with must be 'transfer' or 'credits'" })
+    }
+    if (payWith === 'transfer' && (typeof txSignature !== 'string' || txSignature.length < 32 || txSignature.length > 100)) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid purchase',
+        details: 'tx_signature of the USDC transfer is required'
+      })
+    }
+
+    const blink = await getBlinkBySlug(slug)
+    if (!blink) {
+      return reply.code(404).send({ success: false, error: 'Blink not found' })
+    }
+    if (!blink.access_pass || blink.payment_mode === 'reward') {
+      return reply.code(400).send({ success: false, error: 'This blink does not sell access passes' })
+    }
+    if (blink.status !== 'active') {
+      return reply.code(403).send({ success: false, error: 'Blink is not active' })
+    }
+
+    const config = blink.access_pass
+    let run: RunData
+
+    if (payWith === 'credits') {
+      // The client's key is the purchase: sending it again returns the same pass instead of charging twice
+      const idempotencyKey = request.headers['idempotency-key'] || request.headers['x-idempotency-key']
+      if (!isValidPassPurchaseKey(idempotencyKey)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid purchase',
+          details: 'An Idempotency-Key header (16-64 letters, digits, _ or -) is required to pay with credits'
+        })
+      }
+
+      const reference = passCreditPurchaseReference(idempotencyKey)
+      try {
+        run = (await getRunByReference(reference)) ?? await createRun({
+          blinkId: blink.id,
+          reference,
+          metadata: { flow: 'credits', amountUsdc: config.price_usdc, access_pass: true },
+          blockchain: blink.blockchain || 'solana',
+        })
+      } catch (error) {
+        // A concurrent request with the same key created the run first
+        const existing = await getRunByReference(reference)
+        if (!existing) {
+          fastify.log.error({ error, slug, wallet }, 'Error recording access pass purchase')
+          return reply.code(500).send({ success: false, error: 'Failed to record pass payment' })
+        }
+        run = existing
+      }
+
+      if (run.blink_id !== blink.id || (run.status !== 'pending' && run.payer !== wallet)) {
+        return reply.code(409).send({
+          success: false,
+          error: 'Idempotency key already used',
+          details: 'This key already paid for another pass'
+        })
+      }
+
+      if (run.status === 'pending') {
+        try {
+          await updateRunPaymentAtomic({
+            reference,
+            signature: reference,
+            payer: wallet,
+            credits: { amount: config.price_usdc },
+          })
+          await getPool().query(
+            `UPDATE runs SET payment_method = $1, facilitator = $2 WHERE reference = $3`,
+            ['credits', 'Blink402 Credits', reference]
+          )
+        } catch (error) {
+          // A concurrent request with the same key may have paid it already
+          const latest = await getRunByReference(reference)
+          if (latest?.status !== 'paid' || latest.payer !== wallet) {
+            fastify.log.warn({ error, slug, wallet }, 'Credit payment for access pass refused')
+            return reply.code(402).send({
+              success: false,
+              error: 'Credit payment failed',
+              details: error instanceof Error ? error.message : String(error)
+            })
+          }
+          run = latest
+        }
+      }
+    } else {
+      if (blink.blockchain === 'base') {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid purchase',
+          details: 'Passes for Base blinks can only be bought with credits'
+        })
+      }
+
+      let amountPaid: string
+      try {
+        amountPaid = await verifyPassPurchase({
+          wallet,
+          payoutWallet: blink.payout_wallet,
+          price: config.price_usdc,
+          signature: txSignature!,
+        })
+      } catch (error) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Payment verification failed',
+          details: error instanceof Error ? error.message : String(error)
+        })
+      }
+
+      // The transfer is the purchase: claiming it again returns the same pass
+      const reference = passPurchaseReference(txSignature!)
+      try {
+        run = (await getRunByReference(reference)) ?? await createRun({
+          blinkId: blink.id,
+          reference,
+          metadata: { flow: 'pass', amountUsdc: amountPaid },
+        })
+
+        if (run.blink_id !== blink.id || (run.status !== 'pending' && run.payer !== wallet)) {
+          return reply.code(409).send({
+            success: false,
+            error: 'Payment already claimed',
+            details: 'This transfer already paid for another pass'
+          })
+        }
+
+        if (run.status === 'pending') {
+          await updateRunPaymentAtomic({ reference, signature: txSignature!, payer: wallet })
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        if (message === 'Signature already used for another payment') {
+          return reply.code(409).send({ success: false, error: 'Payment already claimed', details: message })
+        }
+        fastify.log.error({ error, slug, wallet, signature: txSignature }, 'Error recording access pass payment')
+        return reply.code(500).send({ success: false, error: 'Failed to record pass payment' })
+      }
+    }
+
+    try {
+      const pass = await grantAccessPass({ blinkId: blink.id, wallet, runId: run.id, config })
+
+      fastify.log.info({ slug, wallet, passId: pass.id, expiresAt: pass.expires_at }, 'Access pass purchased')
+
+      return reply.code(201).send({
+        success: true,
+        pass,
+        description: describeAccessPass(config),
+      })
+    } catch (error) {
+      fastify.log.error({ error, slug, wallet, runId: run.id }, 'Error granting access pass')
+      return reply.code(500).send({ success: false, error: 'Failed to grant access pass' })
+    }
+  })
+}
@@ -6,6 +6,7 @@
  */
 
 import { FastifyPluginAsync } from 'fastify'
+import { PassThrough } from 'stream'
 import { VersionedTransaction } from '@solana/web3.js'
 import {
   getBlinkBySlug,
@@ -17,7 +18,8 @@ import {
   getRewardClaimCount,
   createRewardClaim,
   calculateReferralCommission,
-  markCommissionPaid,
+  getRefundByRunId,
+  getPassRenewalDue,
 } from '@blink402/database'
 import {
   getConnection,
@@ -45,14 +47,53 @@ import {
   getChallenge,
   markNonceUsed,
   isNonceUsed,
+  isDuplicate,
+  clearDuplicate,
 } from '@blink402/redis'
 // PayAI x402 SDK for payment verification and settlement
 import { X402PaymentHandler } from 'x402-solana/server'
 import { updateCircuitBreaker } from '../utils/endpoint-health.js'
+import { refundFailedRun, formatRefundResponse, type RefundOutcome } from '../utils/refunds.js'
+import { loadUpstreamAuth, applyUpstreamAuthToUrl } from '../utils/upstream-auth.js'
+import { validateUpstreamUrl, getInternalApiBaseUrl } from '../utils/upstream-url.js'
+import { executePipeline, type PipelineStepSummary } from '../utils/pipelines.js'
+import { checkRequestTemplateInputs, buildTemplatedRequest } from '../utils/request-template.js'
+import {
+  isEventStream,
+  isBinaryContentType,
+  readBodyWithLimit,
+  pipeEventStream,
+  endEventStreamWithError,
+  UpstreamHttpError,
+  isRefundableUpstreamError,
+} from '../utils/upstream-response.js'
+import { applyResponseTransform, checkOutputSchema } from '../utils/response-transform.js'
+import {
+  parseCreditAuthorization,
+  verifyCreditAuthorization,
+  checkCreditMaxAmount,
+  creditRunReference,
+} from '../utils/credits.js'
+import { parsePassAuthorization, verifyPassAuthorization, passRunReference, describeAccessPass } from '../utils/passes.js'
+import { quoteRunPrice, priceMetadata, checkPricedInputs, getRunPriceUsdc } from '../utils/pricing.js'
+import { getPaymentWallet, getRunPaymentWallet, splitMetadata } from '../utils/revenue-splits.js'
+import { resolveCoupon } from '../utils/coupons.js'
+import type { Coupon, PriceQuote } from '@blink402/types'
+import { saveRunArtifact, toArtifactResponse, withArtifactUrl, getArtifactUrlTtl } from '../utils/artifacts.js'
+import {
+  issueBaseReference,
+  getPendingBasePayment,
+  buildBasePaymentRequired,
+  extractBaseTxHash,
+  verifyBasePayment,
+  BASE_RECEIPT_TIMEOUT_MS,
+} from '../utils/base-payments.js'
 
 // Constants
 const MAX_RESPONSE_SIZE = 10 * 1024 * 1024 // 10MB
 const UPSTREAM_TIMEOUT = 30000 // 30 seconds
+const MAX_STREAM_DURATION = 5 * 60 * 1000 // 5 minutes for text/event-stream pass-through
+const MAX_STREAM_TRANSCRIPT_SIZE = 1024 * 1024 // 1MB of a stream kept for the results page
 const BLINK_CACHE_TTL = 300 // 5 minutes
 
 // ========== FIX PACK 6: RATE LIMITING CONFIGURATION ==========
@@ -69,143 +110,6 @@ const payaiHandler = new X402PaymentHandler({
   facilitatorUrl: 'https://facilitator.payai.network',
 })
 
-/**
- * Read response with size limit (prevents DoS)
- */
-async function readResponseWithLimit(response: Response, maxSize: number): Promise<string> {
-  const reader = response.body?.getReader()
-  if (!reader) throw new Error('No response body')
-
-  const chunks: Uint8Array[] = []
-  let totalSize = 0
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read()
-      if (done) break
-
-      totalSize += value.length
-      if (totalSize > maxSize) {
-        throw new Error(`Response exceeds maximum size of ${maxSize} bytes`)
-      }
-
-      chunks.push(value)
-    }
-  } finally {
-    reader.releaseLock()
-  }
-
-  const allChunks = new Uint8Array(totalSize)
-  let position = 0
-  for (const chunk of chunks) {
-    allChunks.set(chunk, position)
-    position += chunk.length
-  }
-
-  return new TextDecoder().decode(allChunks)
-}
-
-/**
- * Validate upstream URL to prevent SSRF attacks
- * Implements comprehensive protection against various SSRF bypass techniques
- */
-async function validateUpstreamUrl(urlString: string): Promise<void> {
-  let url: URL
-  try {
-    url = new URL(urlString)
-  } catch {
-    throw new Error('Invalid URL format')
-  }
-
-  // Only allow HTTP/HTTPS
-  if (!['http:', 'https:'].includes(url.protocol)) {
-    throw new Error('Only HTTP/HTTPS protocols allowed')
-  }
-
-  const hostname = url.hostname.toLowerCase()
-
-  // Block localhost variations (including IPv6)
-  const localhostPatterns = [
-    /^localhost$/i,
-    /^127\./,  // 127.0.0.0/8
-    /^0\.0\.0\.0$/,
-    /^::1$/,   // IPv6 localhost
-    /^::$/,    // IPv6 any
-    /^0:0:0:0:0:0:0:1$/,  // IPv6 localhost expanded
-  ]
-
-  for (const pattern of localhostPatterns) {
-    if (pattern.test(hostname)) {
-      throw new Error('Localhost access not allowed')
-    }
-  }
-
-  // Block private IP ranges (RFC 1918)
-  const privateIpPatterns = [
-    /^10\./,                           // 10.0.0.0/8
-    /^172\.(1[6-9]|2[0-9]|3[0-1])\./,  // 172.16.0.0/12
-    /^192\.168\./,                     // 192.168.0.0/16
-    /^169\.254\./,                     // Link-local (169.254.0.0/16)
-    /^fc00:/i,                         // IPv6 private (fc00::/7)
-    /^fd[0-9a-f]{2}:/i,                // IPv6 ULA
-    /^fe80:/i,                         // IPv6 link-local
-  ]
-
-  for (const pattern of privateIpPatterns) {
-    if (pattern.test(hostname)) {
-      throw new Error('Private IP ranges not allowed')
-    }
-  }
-
-  // Block cloud metadata endpoints
-  const metadataPatterns = [
-    /metadata\.google\.internal/i,     // Google Cloud
-    /169\.254\.169\.254/,              // AWS, Azure, etc.
-    /metadata\.azure\./i,               // Azure
-    /metadata\.packet\./i,              // Packet/Equinix
-    /metadata\.platformequinix\./i,     // Platform Equinix
-  ]
-
-  for (const pattern of metadataPatterns) {
-    if (pattern.test(hostname)) {
-      throw new Error('Cloud metadata endpoints not allowed')
-    }
-  }
-
-  // Block decimal/octal/hex IP notation
-  // e.g., http://2130706433 (127.0.0.1 in decimal)
-  if (/^\d+$/.test(hostname)) {
-    throw new Error('Decimal IP notation not allowed')
-  }
-
-  // Block URLs with credentials (potential for SSRF through auth)
-  if (url.username || url.password) {
-    throw new Error('URLs with credentials not allowed')
-  }
-
-  // Additional validation: ensure hostname has at least one dot (prevents single-word internal hostnames)
-  // Exception: allow localhost-style names only if they're not blocked above
-  if (!hostname.includes('.') && !hostname.includes(':')) {
-    throw new Error('Invalid hostname format')
-  }
-
-  // Block common internal TLDs
-  const blockedTlds = [
-    '.local',
-    '.internal',
-    '.corp',
-    '.home',
-    '.lan',
-    '.intranet',
-  ]
-
-  for (const tld of blockedTlds) {
-    if (hostname.endsWith(tld)) {
-      throw new Error('Internal TLDs not allowed')
-    }
-  }
-}
-
 // ========== FIX PACK 6: WALLET ADDRESS EXTRACTION HELPER ==========
 /**
  * Extract wallet address from various sources for rate limiting
@@ -333,7 +237,7 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
   // POST /bazaar/:slug - x402 proxy endpoint with Redis locking
   fastify.post<{
     Params: { slug: string }
-    Body: { reference?: string; signature?: string; data?: any; paymentTx?: string }
+    Body: { reference?: string; signature?: string; data?: any; paymentTx?: string; coupon?: string }
   }>('/:slug', async (request, reply) => {
     const startTime = Date.now()
     const { slug } = request.params
@@ -341,8 +245,12 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
     // Extract payment headers:
     // 1. X-PAYMENT: x402 protocol format (base64 encoded transaction)
     // 2. X-Payment-Tx: ONCHAIN Connect SDK format (simple txHash)
+    // 3. X-Credit-Authorization: signed authorization to pay from prepaid credits
+    // 4. X-Pass-Authorization: signed authorization to use the wallet's access pass
     const payment_header = request.headers['x-payment'] as string | undefined
     const payment_tx = request.headers['x-payment-tx'] as string | undefined
+    const credit_header = request.headers['x-credit-authorization'] as string | undefined
+    const pass_header = request.headers['x-pass-authorization'] as string | undefined
 
     // ========== FIX PACK 5: EXPLICIT IDEMPOTENCY KEY SUPPORT ==========
     // Extract explicit idempotency key from headers (standard pattern used by Stripe, Square)
@@ -356,7 +264,7 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
       return reply.code(400).send({ error: 'Request body required' })
     }
 
-    const { reference, signature, data, paymentTx, ...restOfBody } = request.body
+    const { reference, signature, data, paymentTx, coupon, ...restOfBody } = request.body
     const _urlParams = (request.body as any)._urlParams // Backwards compatibility - optional
 
     // Support both header and body for txHash (ONCHAIN Connect SDK uses body)
@@ -388,9 +296,76 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
         return reply.code(403).send({ error: 'Blink is not active' })
       }
 
+      // Reject inputs the request template can't use before any payment is taken
+      if (blink.request_template && blink.payment_mode !== 'reward') {
+        const templateError = checkRequestTemplateInputs(
+          blink.request_template,
+          { ...(_urlParams || {}), ...mergedData }
+        )
+        if (templateError) {
+          return reply.code(400).send({ error: 'Invalid parameters', details: templateError })
+        }
+      }
+
       const paymentMode = blink.payment_mode || 'charge'
       const startTime = Date.now()
 
+      // ========== PREPAID CREDITS ==========
+      // The call is paid off-chain from the wallet's credits; each authorization nonce is one run
+      const creditAuth = parseCreditAuthorization(credit_header)
+      if (credit_header) {
+        if (paymentMode === 'reward') {
+          return reply.code(400).send({ error: 'Credits can only pay for charge blinks' })
+        }
+        if (!creditAuth) {
+          return reply.code(400).send({
+            error: 'Invalid credit authorization',
+            details: 'X-Credit-Authorization must be base64 JSON with wallet, slug, max_amount, nonce, timestamp and signature'
+          })
+        }
+        const authError = verifyCreditAuthorization(creditAuth, blink)
+        if (authError) {
+          return reply.code(403).send({ error: 'Credit authorization rejected', details: authError })
+        }
+      }
+      const creditReference = creditAuth ? creditRunReference(creditAuth.nonce) : null
+
+      // ========== ACCESS PASSES ==========
+      // Pass holders skip payment; the call is counted against their pass when the run is marked paid
+      const passAuth = parsePassAuthorization(pass_header)
+      if (pass_header) {
+        if (paymentMode === 'reward' || creditAuth) {
+          return reply.code(400).send({ error: 'Access passes can only cover unpaid calls to charge blinks' })
+        }
+        if (!passAuth) {
+          return reply.code(400).send({
+            error: 'Invalid pass authorization',
+            details: 'X-Pass-Authorization must be base64 JSON with wallet, slug, nonce, timestamp and signature'
+          })
+        }
+        const authError = verifyPassAuthorization(passAuth, blink)
+        if (authError) {
+          return reply.code(403).send({ error: 'Pass authorization rejected', details: authError })
+        }
+      }
+      const passReference = passAuth ? passRunReference(passAuth.nonce) : null
+
+      // Offered in 402 responses so callers can buy a pass instead of paying per call
+      const passOffer = blink.access_pass
+        ? {
+            access_pass: {
+              ...blink.access_pass,
+              description: describeAccessPass(blink.access_pass),
+              purchase_path: `/api/passes/${blink.slug}/purchase`,
+            }
+          }
+        : {}
+
+      // Base (EVM) blinks are paid with a USDC transfer on Base, identified by the run reference.
+      // The tx hash can come from X-Payment-Tx, body.paymentTx or an EVM x402 X-PAYMENT header.
+      const isBase = blink.blockchain === 'base'
+      const baseTxHash = isBase ? (txHash || extractBaseTxHash(payment_header)) : null
+
       // ========== FIX PACK 6: PER-WALLET RATE LIMITING ==========
       // Extract wallet address for rate limiting (best-effort, non-blocking)
       const userWalletFromBody = (mergedData as any)?.user_wallet
@@ -444,6 +419,34 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
         }
       }
 
+      // ========== DYNAMIC PRICING & COUPONS ==========
+      // Calls that create a run are quoted from the blink's pricing rules and the caller's coupon.
+      // The quote is locked into run.metadata, and payments are verified against the run's price,
+      // not blink.price_usdc. Calls on an existing run (retries, verification) are not re-quoted.
+      const couponCode = typeof coupon === 'string' && coupon.trim() ? coupon.trim() : null
+      const callInputs = { ...(_urlParams || {}), ...mergedData }
+      const priceCall = async (): Promise<{ quote: PriceQuote | null } | { error: string }> => {
+        if (paymentMode !== 'charge' || passAuth || (!blink.pricing_rules && !couponCode)) {
+          return { quote: null }
+        }
+
+        const wallet = creditAuth?.wallet || walletAddress || (mergedData as { account?: string }).account || null
+        let resolvedCoupon: Coupon | null = null
+        if (couponCode) {
+          const resolved = await resolveCoupon({ code: couponCode, blink, wallet })
+          if ('error' in resolved) return resolved
+          resolvedCoupon = resolved.coupon
+        }
+
+        const quote = await quoteRunPrice({
+          blink,
+          inputs: callInputs,
+          wallet,
+          coupon: resolvedCoupon,
+        })
+        return { quote }
+      }
+
       // ========== REWARD MODE HANDLING ==========
       if (paymentMode === 'reward') {
         // Reward mode: Creator pays user for completing action
@@ -648,11 +651,19 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
             user_wallet: userWallet,
           }
 
-          const endpointResponse = await fetch(targetUrl, {
+          // Creator credentials are added here only - targetUrl (which is logged) never carries them
+          const upstreamAuth = await loadUpstreamAuth(blink.id)
+
+          const endpointResponse = await fetch(applyUpstreamAuthToUrl(targetUrl, upstreamAuth), {
             method: blink.method,
-            headers: blink.method !== 'GET' ? { 'Content-Type': 'application/json' } : {},
+            headers: {
+              ...(upstreamAuth?.headers || {}),
+              ...(blink.method !== 'GET' ? { 'Content-Type': 'application/json' } : {}),
+            },
             body: blink.method !== 'GET' ? JSON.stringify(requestBody) : undefined,
             signal: AbortSignal.timeout(30000),
+            // Don't forward credentials to wherever the upstream redirects
+            redirect: upstreamAuth ? 'error' : 'follow',
           })
 
           if (!endpointResponse.ok) {
@@ -765,6 +776,8 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
             userWallet,
             reference,
             signature: rewardSignature,
+            amount: String(dynamicRewardAmount),
+            token: blink.payment_token,
           })
 
           // Mark run as executed
@@ -803,9 +816,42 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
         }
       }
 
+      // ========== BASE (EVM) CHARGE MODE ==========
+      // Issue a reference up front - the payer appends it to the USDC transfer calldata.
+      // The reference and its quote live in Redis; the run is created when the payment is submitted.
+      if (isBase && !reference && !creditAuth && !passAuth) {
+        if (baseTxHash) {
+          return reply.code(400).send({
+            error: 'Payment reference required',
+            details: 'Base payments must include the reference from the 402 response'
+          })
+        }
+
+        const priced = await priceCall()
+        if ('error' in priced) {
+          return reply.code(400).send({ error: 'Invalid coupon', details: priced.error })
+        }
+
+        const baseReference = await issueBaseReference({
+          blinkId: blink.id,
+          metadata: { flow: 'base-usdc', ...(priced.quote ? priceMetadata(blink, priced.quote, callInputs) : {}) },
+        })
+
+        return reply.code(402).send({
+          ...buildBasePaymentRequired(blink, baseReference, priced.quote?.price_usdc),
+          ...(priced.quote ? { quote: priced.quote } : {}),
+          ...passOffer,
+        })
+      }
+
       // ========== CHARGE MODE HANDLING (EXISTING LOGIC) ==========
       // If no reference or txHash provided, return 402 Payment Required
-      if (!reference && !txHash) {
+      if (!reference && !txHash && !creditAuth && !passAuth) {
+        const priced = await priceCall()
+        if ('error' in priced) {
+          return reply.code(400).send({ error: 'Invalid coupon', details: priced.error })
+        }
+
         const network = process.env.SOLANA_NETWORK || 'mainnet-beta'
         const networkName = network === 'mainnet-beta' ? 'solana' : 'solana-devnet'
 
@@ -813,25 +859,27 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
         // Force USDC regardless of blink.payment_token setting
         const mint = getUsdcMint().toBase58()
         const decimals = 6 // USDC has 6 decimals
-        const amount = (parseFloat(blink.price_usdc) * Math.pow(10, decimals)).toString()
+        const amount = Math.round(parseFloat(priced.quote?.price_usdc ?? blink.price_usdc) * Math.pow(10, decimals)).toString()
 
         // ONCHAIN x402: Return payment requirements for client-side transaction building
         return reply.code(402).send({
           status: 402,
           message: 'Payment Required',
           payment: {
-            recipientWallet: blink.payout_wallet,
+            recipientWallet: getPaymentWallet(blink),
             mint,
             amount,
             network: networkName,
             scheme: 'exact'
           },
           description: blink.description,
+          ...(priced.quote ? { quote: priced.quote } : {}),
+          ...passOffer,
         })
       }
 
-      // Use txHash or reference as the identifier
-      const identifier = txHash || reference
+      // Use txHash or reference as the identifier (Base runs are always keyed by reference)
+      const identifier = creditReference || passReference || (isBase ? reference : (txHash || reference))
       if (!identifier) {
         return reply.code(400).send({ error: 'No payment identifier provided' })
       }
@@ -860,30 +908,97 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
       // Uses queue-based lock acquisition to prevent race conditions
       const result = await withLockSafe(
         `payment:${identifier}`,
-        async () => {
+        async (extendLock) => {
           // Re-fetch run inside lock to get latest status
           let run = await getRunByReference(identifier)
 
+          // A run created below is priced now and keeps this price (and revenue split)
+          let pricing = {}
+          if (!run) {
+            const priced = await priceCall()
+            if ('error' in priced) {
+              return { code: 400, body: { error: 'Invalid coupon', details: priced.error } }
+            }
+            pricing = { ...(priced.quote ? priceMetadata(blink, priced.quote, callInputs) : {}), ...splitMetadata(blink) }
+          }
+
+          // Prepaid credits flow: the run is keyed by the authorization nonce
+          if (!run && creditAuth) {
+            fastify.log.info({ reference: identifier, wallet: creditAuth.wallet, blinkId: blink.id }, 'Creating new run for credit payment')
+            const { createRun } = await import('@blink402/database')
+            run = await createRun({
+              blinkId: blink.id,
+              reference: identifier,
+              metadata: { flow: 'credits', ...pricing },
+              blockchain: blink.blockchain || 'solana'
+            })
+          }
+
+          // Access pass flow: the run is keyed by the authorization nonce
+          if (!run && passAuth) {
+            fastify.log.info({ reference: identifier, wallet: passAuth.wallet, blinkId: blink.id }, 'Creating new run for access pass call')
+            const { createRun } = await import('@blink402/database')
+            run = await createRun({
+              blinkId: blink.id,
+              reference: identifier,
+              metadata: { flow: 'pass-call' },
+              blockchain: blink.blockchain || 'solana'
+            })
+          }
+
+          // Base flow: the run is created once a transaction is submitted for an issued reference
+          if (!run && isBase && reference) {
+            const pending = await getPendingBasePayment(reference)
+            if (!pending || pending.blinkId !== blink.id) {
+              return {
+                code: 400,
+                body: {
+                  error: 'Unknown or expired payment reference',
+                  details: 'Request a new reference - Base references expire 15 minutes after they are issued'
+                }
+              }
+            }
+            if (!baseTxHash) {
+              return {
+                code: 402,
+                body: {
+                  error: 'Payment transaction required',
+                  details: 'Send the Base transaction hash in the X-Payment-Tx header or paymentTx field',
+                  reference,
+                }
+              }
+            }
+
+            fastify.log.info({ reference, txHash: baseTxHash, blinkId: blink.id }, 'Creating new run for Base payment')
+            const { createRun } = await import('@blink402/database')
+            run = await createRun({
+              blinkId: blink.id,
+              reference,
+              metadata: pending.metadata,
+              blockchain: 'base'
+            })
+          }
+
           // ONCHAIN Connect SDK flow: Use txHash instead of payment header
           // When txHash is provided, ONCHAIN has already verified and settled the payment
-          if (!run && txHash) {
+          if (!run && txHash && !isBase) {
             fastify.log.info({ reference, txHash, blinkId: blink.id }, 'Creating new run for ONCHAIN Connect SDK payment')
             const { createRun } = await import('@blink402/database')
             run = await createRun({
               blinkId: blink.id,
               reference: txHash, // Use txHash as reference for ONCHAIN Connect flow
-              metadata: { flow: 'onchain-connect' }
+              metadata: { flow: 'onchain-connect', ...pricing }
             })
           }
 
           // If run doesn't exist and we have a payment header, create it
-          if (!run && payment_header && reference) {
+          if (!run && payment_header && reference && !isBase) {
             fastify.log.info({ reference, blinkId: blink.id }, 'Creating new run for x402 payment')
             const { createRun } = await import('@blink402/database')
             run = await createRun({
               blinkId: blink.id,
               reference,
-              metadata: { flow: 'x402' }
+              metadata: { flow: 'x402', ...pricing }
             })
           }
 
@@ -894,6 +1009,14 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
             }
           }
 
+          // Base references and credit/pass nonces are per blink - don't let one pay for another
+          if ((isBase || creditAuth || passAuth) && run.blink_id !== blink.id) {
+            return {
+              code: 400,
+              body: { error: 'Payment reference does not belong to this blink' }
+            }
+          }
+
           // If run is already executed, return cached result (idempotency)
           if (run.status === 'executed') {
             return {
@@ -907,10 +1030,55 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
             }
           }
 
+          // Priced parameters run with the values they were quoted for
+          const pricedInputsError = checkPricedInputs(run.metadata?.pricedInputs, _urlParams, mergedData)
+          if (pricedInputsError) {
+            return {
+              code: 400,
+              body: { error: 'Priced parameters changed', details: pricedInputsError, reference: run.reference }
+            }
+          }
+          const lockedInputs = run.metadata?.pricedInputs
+            ? Object.fromEntries(Object.entries(run.metadata.pricedInputs).filter(([, value]) => value !== null))
+            : {}
+
           // If payment failed previously, check why
           if (run.status === 'failed') {
             // Check if payment was actually verified (API failed, not payment)
             if (run.signature && run.payer) {
+              // Failed pass calls are closed - the call goes back to the pass instead of being retried
+              if (run.metadata?.flow === 'pass-call') {
+                const { returnAccessPassCall } = await import('@blink402/database')
+                await returnAccessPassCall(run.id)
+                return {
+                  code: 409,
+                  body: {
+                    error: 'Pass call failed',
+                    message: 'This call failed and was not counted against your access pass. Sign a new authorization to try again.',
+                    retryAllowed: false,
+                  }
+                }
+              }
+
+              // Refunded runs are closed - the payer already got their money back
+              const existingRefund = await getRefundByRunId(run.id)
+              if (existingRefund) {
+                return {
+                  code: 409,
+                  body: {
+                    error: 'Payment was refunded',
+                    message: 'This run failed and its payment was refunded. Please start a new payment.',
+                    refund: {
+                      status: existingRefund.status,
+                      amount: existingRefund.amount,
+                      token: existingRefund.payment_token,
+                      signature: existingRefund.refund_signature,
+                    },
+                    retryAllowed: false,
+                  }
+                }
+              }
+
               // Payment succeeded but API failed - allow retry
               fastify.log.info({
                 reference: run.reference,
@@ -927,8 +1095,164 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
             }
           }
 
+          // Credits flow: debit the balance in the same transaction that marks the run paid.
+          // A refused debit leaves the run pending, so the same authorization works after a top-up.
+          if (run.status === 'pending' && creditAuth) {
+            const price = getRunPriceUsdc(blink, run)
+            const capError = checkCreditMaxAmount(creditAuth, price)
+            if (capError) {
+              return {
+                code: 403,
+                body: { error: 'Credit authorization rejected', details: capError, reference: run.reference }
+              }
+            }
+
+            try {
+              const paidRun = await updateRunPaymentAtomic({
+                reference: run.reference,
+                signature: run.reference,
+                payer: creditAuth.wallet,
+                credits: { amount: price },
+              })
+
+              await getPool().query(
+                `UPDATE runs
+                 SET payment_method = $1, facilitator = $2
+                 WHERE reference = $3`,
+                ['credits', 'Blink402 Credits', run.reference]
+              )
+
+              run.signature = paidRun?.signature ?? run.reference
+              run.payer = creditAuth.wallet
+              run.status = 'paid'
+
+              fastify.log.info({
+                reference: run.reference,
+                wallet: creditAuth.wallet,
+                amount: price,
+              }, 'Payment debited from prepaid credits')
+            } catch (error) {
+              fastify.log.warn({ error, reference: run.reference, wallet: creditAuth.wallet }, 'Credit payment refused')
+              return {
+                code: 402,
+                body: {
+                  error: 'Credit payment failed',
+                  details: error instanceof Error ? error.message : String(error),
+                  reference: run.reference,
+                }
+              }
+            }
+          }
+
+          // Access pass flow: count the call against the pass in the same transaction that marks the run paid.
+          // A refused call leaves the run pending, so the same authorization works once a pass is bought.
+          if (run.status === 'pending' && passAuth) {
+            try {
+              await updateRunPaymentAtomic({
+                reference: run.reference,
+                signature: run.reference,
+                payer: passAuth.wallet,
+                accessPass: true,
+              })
+
+              await getPool().query(
+                `UPDATE runs
+                 SET payment_method = $1, facilitator = $2
+                 WHERE reference = $3`,
+                ['access_pass', 'Blink402 Access Pass', run.reference]
+              )
+
+              run.signature = run.reference
+              run.payer = passAuth.wallet
+              run.status = 'paid'
+
+              fastify.log.info({ reference: run.reference, wallet: passAuth.wallet }, 'Call covered by access pass')
+
+              // Subscription holders reminded to renew see it on every call until they do
+              const renewalDue = await getPassRenewalDue(passAuth.wallet, blink.id)
+              if (renewalDue) {
+                reply.header('X-Pass-Renewal-Due', new Date(renewalDue).toISOString())
+              }
+            } catch (error) {
+              fastify.log.warn({ error, reference: run.reference, wallet: passAuth.wallet }, 'Access pass call refused')
+              return {
+                code: 402,
+                body: {
+                  error: 'Access pass required',
+                  details: error instanceof Error ? error.message : String(error),
+                  reference: run.reference,
+                  ...passOffer,
+                }
+              }
+            }
+          }
+
+          // Base flow: verify the USDC Transfer log on-chain against the run reference
+          if (run.status === 'pending' && isBase) {
+            if (!baseTxHash) {
+              return {
+                code: 402,
+                body: {
+                  error: 'Payment transaction required',
+                  details: 'Send the Base transaction hash in the X-Payment-Tx header or paymentTx field',
+                  reference: run.reference,
+                }
+              }
+            }
+
+            try {
+              fastify.log.info({ reference: run.reference, txHash: baseTxHash }, 'Verifying Base USDC payment')
+
+              // Waiting for the receipt can outlast the lock TTL - keep the lock for the wait and the execution after it
+              await extendLock(BASE_RECEIPT_TIMEOUT_MS + 15000)
+
+              const payment = await verifyBasePayment({
+                blink,
+                reference: run.reference,
+                txHash: baseTxHash,
+                priceUsdc: getRunPriceUsdc(blink, run),
+              })
+
+              await updateRunPaymentAtomic({
+                reference: run.reference,
+                signature: baseTxHash,
+                payer: payment.payer,
+              })
+
+              await getPool().query(
+                `UPDATE runs
+                 SET payment_method = $1, facilitator = $2, facilitator_tx_hash = $3
+                 WHERE reference = $4`,
+                ['x402', 'Blink402 (Base)', baseTxHash, run.reference]
+              )
+
+              // Update local run object
+              run.signature = baseTxHash
+              run.payer = payment.payer
+              run.status = 'paid'
+
+              fastify.log.info({
+                reference: run.reference,
+                txHash: baseTxHash,
+                payer: payment.payer,
+                amount: payment.amount.toString(),
+              }, 'Payment verified via Base USDC transfer')
+            } catch (error) {
+              // Don't mark the run failed - the tx may still be confirming, so the payer can resubmit it
+              fastify.log.error({ error, reference: run.reference, txHash: baseTxHash }, 'Base payment verification failed')
+              return {
+                code: 402,
+                body: {
+                  error: 'Payment verification failed',
+                  details: error instanceof Error ? error.message : String(error),
+                  hint: 'Please ensure your Base transaction is confirmed and includes the payment reference',
+                }
+              }
+            }
+          }
+
           // ONCHAIN Connect SDK flow: Trust ONCHAIN settlement, skip verification
-          if (run.status === 'pending' && txHash) {
+          if (run.status === 'pending' && txHash && !isBase) {
             try {
               fastify.log.info({ reference: run.reference, txHash }, 'Trusting ONCHAIN Connect SDK settlement')
 
@@ -970,15 +1294,16 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
           }
 
           // If payment not yet verified, verify it now
-          if (run.status === 'pending' && payment_header) {
+          if (run.status === 'pending' && payment_header && !isBase) {
             // x402 flow (ONCHAIN verification)
             try {
               // PayAI x402: Verify payment using PayAI facilitator directly
               fastify.log.info({ reference }, 'Verifying payment with PayAI facilitator')
 
-              // Validate price
-              if (!blink.price_usdc || parseFloat(blink.price_usdc) <= 0) {
-                throw new Error(`Invalid blink price: ${blink.price_usdc}. Blink configuration error.`)
+              // Validate price (the run's locked quote for blinks with pricing rules)
+              const runPrice = getRunPriceUsdc(blink, run)
+              if (!runPrice || parseFloat(runPrice) <= 0) {
+                throw new Error(`Invalid blink price: ${runPrice}. Blink configuration error.`)
               }
 
               // Decode and inspect payment header for debugging
@@ -996,7 +1321,7 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
               // Prepare PayAI x402 payment requirements
               // x402 SDK expects amount in micro-units (USDC has 6 decimals)
               // Example: 0.01 USDC = 10000 micro-units (0.01 * 1000000)
-              const amountInMicroUnits = Math.floor(parseFloat(blink.price_usdc) * 1_000_000).toString()
+              const amountInMicroUnits = Math.floor(parseFloat(runPrice) * 1_000_000).toString()
 
               // Get USDC mint address for current network
               const usdcMint = getUsdcMint()
@@ -1134,9 +1459,10 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
             try {
               fastify.log.info({ reference: run.reference }, 'Verifying traditional Solana Pay transaction')
 
-              // Validate price
-              if (!blink.price_usdc || parseFloat(blink.price_usdc) <= 0) {
-                throw new Error(`Invalid blink price: ${blink.price_usdc}`)
+              // Validate price (the run's locked quote for blinks with pricing rules)
+              const runPrice = getRunPriceUsdc(blink, run)
+              if (!runPrice || parseFloat(runPrice) <= 0) {
+                throw new Error(`Invalid blink price: ${runPrice}`)
               }
 
               const connection = getConnection()
@@ -1145,7 +1471,7 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
                 throw new Error('Invalid reference key format')
               }
 
-              const recipientKey = parsePublicKey(blink.payout_wallet)
+              const recipientKey = parsePublicKey(getRunPaymentWallet(blink, run))
               if (!recipientKey) {
                 throw new Error('Invalid recipient wallet')
               }
@@ -1162,7 +1488,7 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
                 expectedAmount = solToLamports(parseFloat(blink.price_usdc))
               } else {
                 // USDC payment
-                expectedAmount = usdcToLamports(parseFloat(blink.price_usdc))
+                expectedAmount = usdcToLamports(runPrice)
               }
 
               // Verify payment on-chain
@@ -1222,132 +1548,236 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
             }
           }
 
+          // A coupon past its limits when the run was paid (checked against the actual payer) is refused:
+          // the run doesn't execute and the payment is refunded per the blink's policy
+          if (run.status === 'paid' && run.metadata?.coupon) {
+            const paidRun = await getRunByReference(run.reference)
+            const couponRefused = paidRun?.metadata?.couponRefused
+            if (paidRun && couponRefused) {
+              await markRunFailed(run.reference)
+              const refundOutcome = await refundFailedRun({ blink, run: paidRun, reason: couponRefused, log: fastify.log })
+              return {
+                code: 409,
+                body: {
+                  error: 'Coupon refused',
+                  details: couponRefused,
+                  refund: formatRefundResponse(refundOutcome),
+                }
+              }
+            }
+          }
+
           // Re-check blink status before execution (creator might have paused it)
           const currentBlink = await getBlinkBySlug(slug)
           if (!currentBlink || currentBlink.status !== 'active') {
             await markRunFailed(run.reference)
+            // Payer was charged for a blink that can no longer run - refund per policy
+            const refundOutcome = run.status === 'paid'
+              ? await refundFailedRun({ blink, run, reason: 'Blink is no longer active', log: fastify.log })
+              : null
             return {
               code: 403,
-              body: { error: 'Blink is no longer active' }
+              body: {
+                error: 'Blink is no longer active',
+                ...(refundOutcome ? { refund: formatRefundResponse(refundOutcome) } : {}),
+              }
+            }
+          }
+
+          // Payer asked for token streaming (text/event-stream pass-through)
+          const wantsEventStream = (request.headers.accept || '').includes('text/event-stream')
+          let eventStream: PassThrough | null = null
+
+          if (wantsEventStream && await isDuplicate(`stream:${run.reference}`, MAX_STREAM_DURATION / 1000 + 60)) {
+            return {
+              code: 409,
+              body: { error: 'Stream already in progress', message: 'This payment is already streaming a response.' }
             }
           }
 
           // Payment verified, execute the upstream API
           try {
-            let targetUrl = blink.endpoint_url
-            let isInternalEndpoint = false
-
-            // Extract URL parameters from request body (for placeholder replacement)
-            // Support both top-level _urlParams and nested mergedData._urlParams for backwards compatibility
-            const urlParams = _urlParams || (mergedData as any)?._urlParams || {}
-
-            // Replace URL placeholders (e.g., {user_input} -> actual value)
-            if (Object.keys(urlParams).length > 0) {
-              Object.keys(urlParams).forEach((key) => {
-                const value = urlParams[key]
-                targetUrl = targetUrl.replace(`{${key}}`, encodeURIComponent(value))
+            let responseData
+            let pipelineSteps: PipelineStepSummary[] | null = null
+
+            if (blink.pipeline) {
+              // Pipeline blinks call their step blinks in order; a failed step is handled below like any upstream failure
+              const pipelineResult = await executePipeline({
+                blink,
+                run,
+                input: { ...(run.metadata?.inputs || {}), ...(_urlParams || {}), ...mergedData, ...lockedInputs },
+                log: fastify.log,
               })
-              fastify.log.info({ originalUrl: blink.endpoint_url, finalUrl: targetUrl, params: urlParams }, 'Replaced URL placeholders')
-            }
+              responseData = pipelineResult.output
+              pipelineSteps = pipelineResult.steps
+            } else {
+              let targetUrl = blink.endpoint_url
+              let isInternalEndpoint = false
+
+              // Extract URL parameters from request body (for placeholder replacement)
+              // Support both top-level _urlParams and nested mergedData._urlParams for backwards compatibility
+              const urlParams = _urlParams || (mergedData as any)?._urlParams || {}
+
+              // Replace URL placeholders (e.g., {user_input} -> actual value)
+              if (Object.keys(urlParams).length > 0) {
+                Object.keys(urlParams).forEach((key) => {
+                  const value = urlParams[key]
+                  targetUrl = targetUrl.replace(`{${key}}`, encodeURIComponent(value))
+                })
+                fastify.log.info({ originalUrl: blink.endpoint_url, finalUrl: targetUrl, params: urlParams }, 'Replaced URL placeholders')
+              }
 
-            if (targetUrl.startsWith('/')) {
-              isInternalEndpoint = true
-              // Internal endpoint - use API server URL, not frontend URL
-              const apiPort = process.env.PORT || 3001
-
-              // In production, use the API server URL
-              let apiBaseUrl: string
-              if (process.env.NODE_ENV === 'production') {
-                // Use the API server's public URL if available
-                // Never use 0.0.0.0 as it's not a valid hostname for requests
-                const portNum = typeof apiPort === 'string' ? parseInt(apiPort, 10) : apiPort
-                apiBaseUrl = process.env.API_URL ||
-                           process.env.API_BASE_URL ||
-                           `http://localhost:${portNum}`  // Use localhost, not 0.0.0.0
-              } else {
-                // In development, use localhost with the API port
-                apiBaseUrl = `http://localhost:${apiPort}`
+              // Request template: parameters mapped into path/query/headers/body
+              // Inputs from the Actions flow (run.metadata.inputs) are overridden by the proxy request itself
+              const templatedRequest = blink.request_template
+                ? buildTemplatedRequest({
+                    url: targetUrl,
+                    method: blink.method,
+                    template: blink.request_template,
+                    inputs: { ...(run.metadata?.inputs || {}), ...urlParams, ...mergedData, ...lockedInputs },
+                    system: { reference: run.reference, payer: run.payer, signature: run.signature },
+                  })
+                : null
+              if (templatedRequest) {
+                targetUrl = templatedRequest.url
               }
 
-              targetUrl = `${apiBaseUrl}${targetUrl}`
-              fastify.log.info({ targetUrl, endpoint: blink.endpoint_url }, 'Calling internal API endpoint')
-            }
+              if (targetUrl.startsWith('/')) {
+                isInternalEndpoint = true
+                // Internal endpoint - use API server URL, not frontend URL
+                targetUrl = `${getInternalApiBaseUrl()}${targetUrl}`
+                fastify.log.info({ targetUrl, endpoint: blink.endpoint_url }, 'Calling internal API endpoint')
+              }
 
-            // Validate URL to prevent SSRF (skip for internal endpoints)
-            if (!isInternalEndpoint) {
-              await validateUpstreamUrl(targetUrl)
-            } else {
-              // For internal endpoints, still validate protocol but allow localhost
-              try {
-                const parsed = new URL(targetUrl)
-                if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
-                  throw new Error(`Invalid protocol for internal endpoint: ${parsed.protocol}`)
+              // Validate URL to prevent SSRF (skip for internal endpoints)
+              if (!isInternalEndpoint) {
+                await validateUpstreamUrl(targetUrl)
+              } else {
+                // For internal endpoints, still validate protocol but allow localhost
+                try {
+                  const parsed = new URL(targetUrl)
+                  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+                    throw new Error(`Invalid protocol for internal endpoint: ${parsed.protocol}`)
+                  }
+                } catch (error) {
+                  throw new Error(`Invalid internal endpoint URL: ${targetUrl}`)
                 }
-              } catch (error) {
-                throw new Error(`Invalid internal endpoint URL: ${targetUrl}`)
               }
-            }
 
-            // Prepare request body - include payer and metadata for endpoints that need it
-            const requestBody = {
-              ...(mergedData || {}),
-              reference,
-              signature: run.signature,
-              payer: run.payer, // Include payer wallet for endpoints like wallet-analysis
-              // Forward user input parameters from Actions metadata (Fix Pack: Parameter Forwarding)
-              ...(run.metadata?.targetWallet ? {
-                wallet: run.metadata.targetWallet,           // Wallet analyzer parameter
-                target_wallet: run.metadata.targetWallet,    // Legacy compatibility
-              } : {}),
-              ...(run.metadata?.text ? { text: run.metadata.text } : {}),                    // QR code/text blinks
-              ...(run.metadata?.tokenAddress ? { tokenAddress: run.metadata.tokenAddress } : {}), // Token price blinks
-              ...(run.metadata?.imagePrompt ? { prompt: run.metadata.imagePrompt } : {}),    // AI image generation
-            }
+              // Prepare request body - include payer and metadata for endpoints that need it
+              const requestBody = {
+                ...(mergedData || {}),
+                reference,
+                signature: run.signature,
+                payer: run.payer, // Include payer wallet for endpoints like wallet-analysis
+                // Forward user input parameters from Actions metadata (Fix Pack: Parameter Forwarding)
+                ...(run.metadata?.targetWallet ? {
+                  wallet: run.metadata.targetWallet,           // Wallet analyzer parameter
+                  target_wallet: run.metadata.targetWallet,    // Legacy compatibility
+                } : {}),
+                ...(run.metadata?.text ? { text: run.metadata.text } : {}),                    // QR code/text blinks
+                ...(run.metadata?.tokenAddress ? { tokenAddress: run.metadata.tokenAddress } : {}), // Token price blinks
+                ...(run.metadata?.imagePrompt ? { prompt: run.metadata.imagePrompt } : {}),    // AI image generation
+              }
 
-            // Make upstream request with timeout
-            const controller = new AbortController()
-            const timeoutId = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT)
-
-            const response = await fetch(targetUrl, {
-              method: blink.method,
-              headers: {
-                'Content-Type': 'application/json',
-                'Accept': 'application/json',
-                'User-Agent': 'Blink402/1.0',
-              },
-              body: blink.method !== 'GET' ? JSON.stringify(requestBody) : undefined,
-              signal: controller.signal,
-            })
+              // Make upstream request with timeout
+              const controller = new AbortController()
+              const timeoutId = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT)
+
+              // Creator credentials are added here only - targetUrl (which is logged) never carries them
+              const upstreamAuth = await loadUpstreamAuth(blink.id)
+
+              const response = await fetch(applyUpstreamAuthToUrl(targetUrl, upstreamAuth), {
+                method: blink.method,
+                headers: {
+                  ...(templatedRequest?.headers || {}),
+                  ...(upstreamAuth?.headers || {}),
+                  'Content-Type': templatedRequest?.contentType || 'application/json',
+                  'Accept': wantsEventStream ? 'text/event-stream, application/json' : 'application/json',
+                  'User-Agent': 'Blink402/1.0',
+                },
+                body: blink.method !== 'GET'
+                  ? (templatedRequest ? templatedRequest.body : JSON.stringify(requestBody))
+                  : undefined,
+                signal: controller.signal,
+                // Don't forward credentials to wherever the upstream redirects
+                redirect: upstreamAuth ? 'error' : 'follow',
+              })
 
-            clearTimeout(timeoutId)
+              clearTimeout(timeoutId)
 
-            if (!response.ok) {
-              const errorText = await response.text().catch(() => 'Unknown error')
-              fastify.log.error({ slug, status: response.status }, 'Upstream API error')
-              // Update circuit breaker - failed API call
-              await updateCircuitBreaker(blink.id, slug, false, getPool(), fastify.log)
-              throw new Error(`Upstream API returned ${response.status}`)
-            }
+              if (!response.ok) {
+                const errorText = await response.text().catch(() => 'Unknown error')
+                fastify.log.error({ slug, status: response.status }, 'Upstream API error')
+                // Update circuit breaker - failed API call
+                await updateCircuitBreaker(blink.id, slug, false, getPool(), fastify.log)
+                throw new UpstreamHttpError(response.status)
+              }
+
+              const contentType = response.headers.get('content-type') || ''
+
+              if (wantsEventStream && isEventStream(contentType)) {
+                // Stream tokens straight to the payer; the transcript is stored for the results page
+                eventStream = new PassThrough()
+                reply
+                  .code(200)
+                  .header('Content-Type', 'text/event-stream; charset=utf-8')
+                  .header('Cache-Control', 'no-cache, no-transform')
+                  .header('X-Accel-Buffering', 'no')
+                  .header('X-Blink402-Reference', run.reference)
+                  .send(eventStream)
+
+                // The payment lock is held until the stream ends, so a retry can't execute the run alongside it
+                await extendLock(MAX_STREAM_DURATION + 60_000)
+
+                const streamTimeoutId = setTimeout(() => controller.abort(), MAX_STREAM_DURATION)
+                try {
+                  const { transcript, truncated } = await pipeEventStream(response, eventStream, MAX_STREAM_TRANSCRIPT_SIZE)
+                  responseData = { data: transcript, contentType: 'text/event-stream', streamed: true, truncated }
+                } finally {
+                  clearTimeout(streamTimeoutId)
+                }
+                eventStream.end()
+              } else if (isBinaryContentType(contentType)) {
+                // Images, audio, video, PDFs... are kept byte-for-byte as a run artifact
+                const body = await readBodyWithLimit(response, MAX_RESPONSE_SIZE)
+                const artifact = await saveRunArtifact({ runId: run.id, contentType, data: body })
+                responseData = toArtifactResponse(artifact)
+              } else {
+                // Read response with size limit
+                const responseText = (await readBodyWithLimit(response, MAX_RESPONSE_SIZE)).toString('utf-8')
+
+                let isJson = false
+                if (contentType.includes('application/json')) {
+                  try {
+                    responseData = JSON.parse(responseText)
+                    isJson = true
+                  } catch (jsonError) {
+                    throw new Error('Endpoint returned invalid JSON')
+                  }
+                } else if (responseText.trim().startsWith('{') || responseText.trim().startsWith('[')) {
+                  try {
+                    responseData = JSON.parse(responseText)
+                    isJson = true
+                  } catch {
+                    responseData = { data: responseText, contentType: contentType || 'text/plain' }
+                  }
+                } else {
+                  responseData = { data: responseText, contentType: contentType || 'text/plain' }
+                }
 
-            // Read response with size limit
-            const responseText = await readResponseWithLimit(response, MAX_RESPONSE_SIZE)
-            const contentType = response.headers.get('content-type') || ''
+                // Creator-configured extraction/renaming/redaction (the raw response is never stored)
+                if (isJson && blink.response_transform) {
+                  responseData = applyResponseTransform(responseData, blink.response_transform)
 
-            let responseData
-            if (contentType.includes('application/json')) {
-              try {
-                responseData = JSON.parse(responseText)
-              } catch (jsonError) {
-                throw new Error('Endpoint returned invalid JSON')
-              }
-            } else if (responseText.trim().startsWith('{') || responseText.trim().startsWith('[')) {
-              try {
-                responseData = JSON.parse(responseText)
-              } catch {
-                responseData = { data: responseText, contentType: contentType || 'text/plain' }
+                  const outputSchema = blink.response_transform.output_schema
+                  const schemaMismatch = outputSchema ? checkOutputSchema(responseData, outputSchema) : null
+                  if (schemaMismatch) {
+                    // Creator config drift - the payer still gets the data
+                    fastify.log.warn({ slug, reference: run.reference, mismatch: schemaMismatch }, 'Transformed response does not match output schema')
+                  }
+                }
               }
-            } else {
-              responseData = { data: responseText, contentType: contentType || 'text/plain' }
             }
 
             const duration = Date.now() - startTime
@@ -1362,13 +1792,13 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
               responseData: responseData // Store the API response for results page
             })
 
-            // ========== REFERRAL COMMISSION PAYOUT ==========
-            // Calculate and pay commission to referrer if payer was referred
+            // ========== REFERRAL COMMISSION ==========
+            // Record the referrer's commission - the referral payout worker pays it in a batch
             try {
               const commissionResult = await calculateReferralCommission({
                 refereeWallet: run.payer || '',
                 runId: run.id,
-                amountUsdc: blink.price_usdc
+                amountUsdc: getRunPriceUsdc(blink, run)
               })
 
               if (commissionResult.shouldPay && commissionResult.referrerWallet) {
@@ -1378,64 +1808,7 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
                   commission: commissionResult.commissionUsdc,
                   tier: commissionResult.tier,
                   runId: run.id
-                }, 'Commission calculated - initiating payout')
-
-                // Get platform keypair for signing commission payouts
-                const platformKeypairSecret = process.env.REWARD_KEYPAIR_SECRET
-                if (!platformKeypairSecret) {
-                  throw new Error('REWARD_KEYPAIR_SECRET not configured - cannot pay commission')
-                }
-
-                const platformKeypair = Keypair.fromSecretKey(
-                  Uint8Array.from(JSON.parse(platformKeypairSecret))
-                )
-
-                // Build and send USDC commission payment
-                const commissionAmount = BigInt(usdcToLamports(parseFloat(commissionResult.commissionUsdc)))
-                const referrerPubkey = parsePublicKey(commissionResult.referrerWallet)
-                if (!referrerPubkey) {
-                  throw new Error(`Invalid referrer wallet address: ${commissionResult.referrerWallet}`)
-                }
-
-                const connection = getConnection()
-
-                // Use the reward transaction builder (server-side signing)
-                const commissionTx = await buildRewardTransaction({
-                  connection,
-                  creator: platformKeypair.publicKey,
-                  user: referrerPubkey,
-                  amount: commissionAmount,
-                  tokenMint: getUsdcMint(),
-                  memo: `Commission: ${commissionResult.tier} tier`
-                })
-
-                const commissionSignature = await signAndBroadcastReward({
-                  connection,
-                  transaction: commissionTx,
-                  creatorKeypair: platformKeypair,
-                  skipConfirmation: false
-                })
-
-                // Get the payout ID from the commission_payouts table
-                const payoutResult = await getPool().query(
-                  `SELECT id FROM commission_payouts
-                   WHERE run_id = $1 AND referrer_wallet = $2
-                   ORDER BY paid_at DESC LIMIT 1`,
-                  [run.id, commissionResult.referrerWallet]
-                )
-
-                if (payoutResult.rows.length > 0) {
-                  await markCommissionPaid({
-                    payoutId: payoutResult.rows[0].id,
-                    signature: commissionSignature
-                  })
-
-                  fastify.log.info({
-                    referrer: commissionResult.referrerWallet,
-                    commission: commissionResult.commissionUsdc,
-                    signature: commissionSignature
-                  }, 'Commission payout completed successfully')
-                }
+                }, 'Commission recorded for the next referral payout')
               }
             } catch (commissionError) {
               // Log commission errors but don't fail the main request
@@ -1443,7 +1816,7 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
                 error: commissionError,
                 runId: run.id,
                 payer: run.payer
-              }, 'Failed to process referral commission (non-critical error)')
+              }, 'Failed to record referral commission (non-critical error)')
             }
 
             // Invalidate blink cache (run count changed)
@@ -1451,19 +1824,21 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
 
             const successResponse = {
               success: true,
-              data: responseData,
+              data: withArtifactUrl(responseData), // Signed download URL for binary responses
               reference: run.reference,
               signature: run.signature,
               duration_ms: duration,
+              ...(pipelineSteps ? { pipeline: { steps: pipelineSteps } } : {}),
             }
 
             // ========== FIX PACK 5: CACHE WITH BOTH PAYMENT IDENTIFIER AND EXPLICIT KEY ==========
-            // Cache the successful response for idempotency (24 hour TTL)
-            await setIdempotentResponse(identifier, successResponse, 86400) // 24 hours
+            // Cache the successful response for idempotency (24 hour TTL, or until an artifact URL expires)
+            const cacheTtl = responseData?.artifact ? Math.min(86400, getArtifactUrlTtl()) : 86400
+            await setIdempotentResponse(identifier, successResponse, cacheTtl)
 
             // Also cache with explicit idempotency key if provided
             if (explicitIdempotencyKey) {
-              await setIdempotentResponse(explicitIdempotencyKey, successResponse, 86400) // 24 hours
+              await setIdempotentResponse(explicitIdempotencyKey, successResponse, cacheTtl)
               fastify.log.info(
                 { idempotencyKey: explicitIdempotencyKey, identifier },
                 'Cached response with explicit idempotency key'
@@ -1479,28 +1854,54 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
             // Update circuit breaker - failed execution
             await updateCircuitBreaker(blink.id, slug, false, getPool(), fastify.log)
 
-            // DON'T mark run as failed if payment was verified - allow retry
-            // Only mark as failed if payment verification itself failed
-            const paymentVerified = run.signature && run.payer
+            const isTimeout = error instanceof Error && error.name === 'AbortError'
+            const errorMessage = isTimeout
+              ? (eventStream ? 'Upstream stream timeout (5 minutes exceeded)' : 'Upstream API timeout (30s exceeded)')
+              : error instanceof Error ? error.message : 'Unknown error'
+
+            // Headers are already sent for a stream - report the failure in-band
+            if (eventStream) {
+              endEventStreamWithError(eventStream, errorMessage)
+            }
+
+            // Payment was verified (ONCHAIN Connect runs have no payer yet, so go by status)
+            const paymentVerified = run.status === 'paid'
+
+            // ========== AUTOMATIC REFUND ==========
+            // Refund the payer according to the blink's refund policy.
+            // With refund_policy 'none' the run stays paid so the caller can retry for free.
+            // An upstream 4xx rejected the request itself, so it is handled as policy 'none' too.
+            let refundOutcome: RefundOutcome | null = null
             if (!paymentVerified) {
               await markRunFailed(run.reference)
             } else {
-              fastify.log.warn({
-                reference: run.reference,
-                signature: run.signature,
-                payer: run.payer,
-                error: error instanceof Error ? error.message : String(error)
-              }, 'API execution failed but payment was verified - run NOT marked as failed to allow retry')
+              refundOutcome = isRefundableUpstreamError(error)
+                ? await refundFailedRun({ blink, run, reason: errorMessage, log: fastify.log })
+                : { policy: 'none', attempted: false, issued: false, error: 'The API rejected this request, so it is not refunded' }
+
+              if (refundOutcome.attempted) {
+                await markRunFailed(run.reference)
+              } else {
+                fastify.log.warn({
+                  reference: run.reference,
+                  signature: run.signature,
+                  payer: run.payer,
+                  error: errorMessage
+                }, 'API execution failed but payment was verified - run NOT marked as failed to allow retry')
+              }
             }
 
-            if ((error as any).name === 'AbortError') {
+            const retryAllowed = paymentVerified && !refundOutcome?.attempted
+
+            if (isTimeout) {
               fastify.log.error({ slug, reference: run.reference }, 'Upstream API timeout')
               return {
                 code: 504,
                 body: {
-                  error: 'Upstream API timeout (30s exceeded)',
-                  retryAllowed: true,
+                  error: errorMessage,
+                  retryAllowed,
                   paymentVerified,
+                  ...(refundOutcome ? { refund: formatRefundResponse(refundOutcome) } : {}),
                 }
               }
             }
@@ -1510,10 +1911,17 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
               code: 500,
               body: {
                 error: 'API execution failed',
-                details: error instanceof Error ? error.message : 'Unknown error',
-                retryAllowed: paymentVerified, // Allow retry if payment was verified
+                details: errorMessage,
+                ...(error instanceof UpstreamHttpError ? { upstreamStatus: error.status } : {}),
+                retryAllowed, // Only when the payment was verified and not refunded
+                ...(refundOutcome ? { refund: formatRefundResponse(refundOutcome) } : {}),
               }
             }
+          } finally {
+            // The stream is over (or never started) - the payer may stream this run's retry
+            if (wantsEventStream) {
+              await clearDuplicate(`stream:${run.reference}`).catch(() => null)
+            }
           }
         },
         {
@@ -1533,6 +1941,11 @@ export const proxyRoutesWithRedis: FastifyPluginAsync = async (fastify) => {
         })
       }
 
+      // Streamed responses were already sent from inside the locked section
+      if (reply.sent) {
+        return reply
+      }
+
       // Return the result from the locked section
       return reply.code(result.code).send(result.body)
 
@@ -43,6 +43,7 @@ import {
 } from '@blink402/onchain'
 import { Keypair } from '@solana/web3.js'
 import { retryWithBackoff, updateCircuitBreaker } from '../utils/endpoint-health.js'
+import { quoteRunPrice, priceMetadata, getRunPriceUsdc } from '../utils/pricing.js'
 
 /**
  * Validates that a URL is safe to proxy to (prevents SSRF attacks)
@@ -95,7 +96,7 @@ export const proxyRoutes: FastifyPluginAsync = async (fastify) => {
   // POST /bazaar/:slug - x402 proxy endpoint
   fastify.post<{
     Params: { slug: string }
-    Body: { reference?: string; signature?: string; data?: Record<string, unknown> }
+    Body: { reference?: string; signature?: string; data?: Record<string, unknown>; coupon?: string }
   }>('/:slug', async (request, reply) => {
     const startTime = Date.now()
     const { slug } = request.params
@@ -359,6 +360,7 @@ export const proxyRoutes: FastifyPluginAsync = async (fastify) => {
             userWallet,
             reference,
             signature: rewardSignature,
+            token: blink.payment_token,
           })
 
           // Mark run as executed
@@ -398,6 +400,35 @@ export const proxyRoutes: FastifyPluginAsync = async (fastify) => {
       }
 
       // ========== CHARGE MODE HANDLING (EXISTING LOGIC) ==========
+      // Prepaid credit payments are only handled by the Redis-backed proxy
+      if (request.headers['x-credit-authorization']) {
+        return reply.code(503).send({
+          error: 'Credit payments unavailable',
+          details: 'Paying with credits is temporarily unavailable. Please try again later or pay on-chain.'
+        })
+      }
+      if (request.headers['x-pass-authorization']) {
+        return reply.code(503).send({
+          error: 'Access passes unavailable',
+          details: 'Calls with an access pass are temporarily unavailable. Please try again later or pay on-chain.'
+        })
+      }
+      if (request.body?.coupon) {
+        return reply.code(503).send({
+          error: 'Coupons unavailable',
+          details: 'Coupons are temporarily unavailable. Please try again later or pay without a coupon.'
+        })
+      }
+      if (blink.revenue_splits) {
+        return reply.code(503).send({
+          error: 'Payments unavailable',
+          details: 'This blink splits its revenue, which needs the main payment service. Please try again later.'
+        })
+      }
+
+      // Dynamic pricing: the run created for this payment locks the quote in
+      const quote = blink.pricing_rules ? await quoteRunPrice({ blink, inputs: data }) : null
+
       // If no reference provided, return 402 Payment Required
       if (!reference) {
         const network = process.env.SOLANA_NETWORK || 'mainnet-beta'
@@ -408,7 +439,7 @@ export const proxyRoutes: FastifyPluginAsync = async (fastify) => {
         const isUSDC = blink.payment_token === 'USDC'
         const mint = isUSDC ? getUsdcMint().toBase58() : 'native' // 'native' for SOL
         const decimals = isUSDC ? 6 : 9 // USDC has 6 decimals, SOL has 9
-        const amount = (parseFloat(blink.price_usdc) * Math.pow(10, decimals)).toString()
+        const amount = Math.round(parseFloat(quote?.price_usdc ?? blink.price_usdc) * Math.pow(10, decimals)).toString()
 
         // ONCHAIN x402: Return payment requirements for client-side transaction building
         return reply.code(402).send({
@@ -422,6 +453,7 @@ export const proxyRoutes: FastifyPluginAsync = async (fastify) => {
             scheme: 'exact'
           },
           description: blink.description,
+          ...(quote ? { quote } : {}),
         })
       }
 
@@ -433,7 +465,7 @@ export const proxyRoutes: FastifyPluginAsync = async (fastify) => {
         run = await createRun({
           blinkId: blink.id,
           reference,
-          metadata: { flow: 'x402' }
+          metadata: { flow: 'x402', ...(quote ? priceMetadata(blink, quote) : {}) }
         })
       }
 
@@ -501,9 +533,10 @@ export const proxyRoutes: FastifyPluginAsync = async (fastify) => {
             // ONCHAIN x402: Verify payment using ONCHAIN facilitator API
             fastify.log.info({ reference }, 'Verifying payment with ONCHAIN API')
 
-            // Validate price
-            if (!blink.price_usdc || parseFloat(blink.price_usdc) <= 0) {
-              throw new Error(`Invalid blink price: ${blink.price_usdc}. Blink configuration error.`)
+            // Validate price (the run's locked quote for blinks with pricing rules)
+            const runPrice = getRunPriceUsdc(blink, lockedRun)
+            if (!runPrice || parseFloat(runPrice) <= 0) {
+              throw new Error(`Invalid blink price: ${runPrice}. Blink configuration error.`)
             }
 
             // ONCHAIN only supports USDC on Solana (not native SOL)
@@ -511,7 +544,7 @@ export const proxyRoutes: FastifyPluginAsync = async (fastify) => {
             const expectedToken = 'USDC' as const
 
             // Format amount to 2 decimal places (ONCHAIN expects "1.00" format, not "1.000000")
-            const formattedAmount = parseFloat(blink.price_usdc).toFixed(2)
+            const formattedAmount = parseFloat(runPrice).toFixed(2)
 
             // Step 1: Verify payment with ONCHAIN API
             const verifyResponse = await verifyOnchainPayment({
@@ -921,8 +954,9 @@ export const proxyRoutes: FastifyPluginAsync = async (fastify) => {
             // Create refund record
             const refund = await createRefund({
               runId: lockedRun.id,
-              amountUsdc: blink.price_usdc.toString(),
+              amount: blink.payment_token === 'SOL' ? blink.price_usdc : getRunPriceUsdc(blink, lockedRun),
               reason: `API execution failed: ${errorMessage.substring(0, 200)}`,
+              paymentToken: blink.payment_token,
             })
 
             // Get platform refund wallet keypair from env
@@ -946,7 +980,7 @@ export const proxyRoutes: FastifyPluginAsync = async (fastify) => {
             const paymentToken = blink.payment_token
             const refundAmount = paymentToken === 'SOL'
               ? solToLamports(blink.price_usdc)
-              : usdcToLamports(blink.price_usdc)
+              : usdcToLamports(getRunPriceUsdc(blink, lockedRun))
 
             const tokenMint = paymentToken === 'USDC' ? getUsdcMint() : undefined
 
@@ -985,7 +1019,8 @@ export const proxyRoutes: FastifyPluginAsync = async (fastify) => {
               creatorId: blink.creator_id,
               blinkId: blink.id,
               refundId: refund.id,
-              amountUsdc: blink.price_usdc.toString(),
+              amount: refund.amount,
+              token: refund.payment_token,
             })
 
             refundIssued = true
@@ -996,7 +1031,7 @@ export const proxyRoutes: FastifyPluginAsync = async (fastify) => {
               reference,
               refundId: refund.id,
               refundSignature,
-              amount: blink.price_usdc,
+              amount: getRunPriceUsdc(blink, lockedRun),
               payer: lockedRun.payer,
               refundDurationMs: refundDuration,
             }, '✅ Refund issued successfully')
@@ -1,7 +1,17 @@
 import { FastifyPluginAsync } from 'fastify'
-import { getReceiptByRunId, getRunByReference, getBlinkById, getPool } from '@blink402/database'
+import {
+  getReceiptByRunId,
+  getRunByReference,
+  getBlinkById,
+  getPool,
+  getPipelineStepRuns,
+  getLedgerTransactions,
+  type LedgerTransactionData,
+  type PipelineStepRunData
+} from '@blink402/database'
 import { verifyWalletAuth, verifyOwnership, type WalletAuthBody } from '../auth.js'
 import { isRedisConnected, getCacheOrFetch } from '@blink402/redis'
+import { withArtifactUrl } from '../utils/artifacts.js'
 
 /**
  * Receipt Viewer Endpoint - Fix Pack 4
@@ -9,6 +19,23 @@ import { isRedisConnected, getCacheOrFetch } from '@blink402/redis'
  * Comprehensive receipt viewing for transaction verification and transparency.
  * Includes public endpoints (no auth required) for sharing receipts.
  */
+/**
+ * Ledger transactions as shown on public receipts (newest last)
+ */
+function toReceiptLedger(transactions: LedgerTransactionData[] = []) {
+  return transactions
+    .map((tx) => ({
+      kind: tx.kind,
+      amount: tx.amount,
+      token: tx.token,
+      signature: tx.signature,
+      reconciliation_status: tx.reconciliation_status,
+      created_at: new Date(tx.created_at).toISOString(),
+      entries: tx.entries,
+    }))
+    .reverse()
+}
+
 export const receiptsRoutes: FastifyPluginAsync = async (fastify) => {
   // ========== PUBLIC RECEIPT VIEWER ENDPOINTS (NO AUTH REQUIRED) ==========
 
@@ -62,7 +89,8 @@ export const receiptsRoutes: FastifyPluginAsync = async (fastify) => {
                     price_usdc: { type: 'string' },
                     payment_token: { type: 'string' },
                     icon_url: { type: ['string', 'null'] },
-                    category: { type: ['string', 'null'] }
+                    category: { type: ['string', 'null'] },
+                    output_schema: {}
                   }
                 },
                 // Creator details
@@ -75,7 +103,9 @@ export const receiptsRoutes: FastifyPluginAsync = async (fastify) => {
                   }
                 },
                 // Explorer links
-                explorer_url: { type: 'string' }
+                explorer_url: { type: 'string' },
+                // API response (any shape; binary responses carry a signed artifact URL)
+                response_data: {}
               }
             }
           }
@@ -101,7 +131,7 @@ export const receiptsRoutes: FastifyPluginAsync = async (fastify) => {
             r.created_at, r.paid_at, r.executed_at, r.expires_at,
             r.metadata, r.response_preview,
             b.id as blink_id, b.slug, b.title, b.description, b.price_usdc,
-            b.payment_token, b.icon_url, b.category,
+            b.payment_token, b.icon_url, b.category, b.response_transform, b.pipeline,
             c.wallet as creator_wallet, c.display_name, c.avatar_url
           FROM runs r
           JOIN blinks b ON r.blink_id = b.id
@@ -109,7 +139,14 @@ export const receiptsRoutes: FastifyPluginAsync = async (fastify) => {
           WHERE r.signature = $1
         `, [signature])
 
-        return result.rows[0] || null
+        const row = result.rows[0] || null
+        if (row?.pipeline) {
+          row.pipeline_steps = await getPipelineStepRuns(row.id)
+        }
+        if (row) {
+          row.ledger = await getLedgerTransactions({ runId: row.id })
+        }
+        return row
       }
 
       const receipt = await (isRedisConnected()
@@ -149,7 +186,9 @@ export const receiptsRoutes: FastifyPluginAsync = async (fastify) => {
             price_usdc: receipt.price_usdc,
             payment_token: receipt.payment_token,
             icon_url: receipt.icon_url,
-            category: receipt.category
+            category: receipt.category,
+            // Declared output shape for rendering response_data
+            output_schema: receipt.response_transform?.output_schema || null
           },
           creator: {
             wallet: receipt.creator_wallet,
@@ -157,8 +196,21 @@ export const receiptsRoutes: FastifyPluginAsync = async (fastify) => {
             avatar_url: receipt.avatar_url
           },
           explorer_url: explorerUrl,
+          // Per-step sub-runs of pipeline blinks (inputs/outputs stay private)
+          pipeline_steps: receipt.pipeline_steps
+            ? receipt.pipeline_steps.map((step: PipelineStepRunData) => ({
+                step_index: step.step_index,
+                slug: step.blink_slug,
+                status: step.status,
+                attempts: step.attempts,
+                duration_ms: step.duration_ms,
+                error: step.error,
+              }))
+            : null,
+          // Money movements for this run (payment, refund, referral commission)
+          ledger: toReceiptLedger(receipt.ledger),
           // Include API response data if available
-          response_data: receipt.metadata?.response || null
+          response_data: withArtifactUrl(receipt.metadata?.response || null)
         }
       })
     } catch (error) {
@@ -202,7 +254,7 @@ export const receiptsRoutes: FastifyPluginAsync = async (fastify) => {
             r.created_at, r.paid_at, r.executed_at, r.expires_at,
             r.metadata, r.response_preview,
             b.id as blink_id, b.slug, b.title, b.description, b.price_usdc,
-            b.payment_token, b.icon_url, b.category,
+            b.payment_token, b.icon_url, b.category, b.response_transform, b.pipeline,
             c.wallet as creator_wallet, c.display_name, c.avatar_url
           FROM runs r
           JOIN blinks b ON r.blink_id = b.id
@@ -210,7 +262,14 @@ export const receiptsRoutes: FastifyPluginAsync = async (fastify) => {
           WHERE r.reference = $1
         `, [reference])
 
-        return result.rows[0] || null
+        const row = result.rows[0] || null
+        if (row?.pipeline) {
+          row.pipeline_steps = await getPipelineStepRuns(row.id)
+        }
+        if (row) {
+          row.ledger = await getLedgerTransactions({ runId: row.id })
+        }
+        return row
       }
 
       const receipt = await (isRedisConnected()
@@ -251,7 +310,9 @@ export const receiptsRoutes: FastifyPluginAsync = async (fastify) => {
             price_usdc: receipt.price_usdc,
             payment_token: receipt.payment_token,
             icon_url: receipt.icon_url,
-            category: receipt.category
+            category: receipt.category,
+            // Declared output shape for rendering response_data
+            output_schema: receipt.response_transform?.output_schema || null
           },
           creator: {
             wallet: receipt.creator_wallet,
@@ -259,8 +320,21 @@ export const receiptsRoutes: FastifyPluginAsync = async (fastify) => {
             avatar_url: receipt.avatar_url
           },
           explorer_url: explorerUrl,
+          // Per-step sub-runs of pipeline blinks (inputs/outputs stay private)
+          pipeline_steps: receipt.pipeline_steps
+            ? receipt.pipeline_steps.map((step: PipelineStepRunData) => ({
+                step_index: step.step_index,
+                slug: step.blink_slug,
+                status: step.status,
+                attempts: step.attempts,
+                duration_ms: step.duration_ms,
+                error: step.error,
+              }))
+            : null,
+          // Money movements for this run (payment, refund, referral commission)
+          ledger: toReceiptLedger(receipt.ledger),
           // Include API response data if available
-          response_data: receipt.metadata?.response || null
+          response_data: withArtifactUrl(receipt.metadata?.response || null)
         }
       })
     } catch (error) {
@@ -6,8 +6,10 @@ import {
   getOrCreateReferralCode,
   trackReferral,
   getReferralStats,
-  getReferralLeaderboard
+  getReferralLeaderboard,
+  getReferralPayoutBatches
 } from '@blink402/database'
+import { getReferralPayoutPolicy } from '../utils/referral-payouts.js'
 
 export const referralRoutes: FastifyPluginAsync = async (fastify) => {
   // POST /referrals/generate - Generate or get existing referral code for a wallet
@@ -94,7 +96,11 @@ export const referralRoutes: FastifyPluginAsync = async (fastify) => {
     }
 
     try {
-      const stats = await getReferralStats(wallet)
+      const [stats, payoutBatches] = await Promise.all([
+        getReferralStats(wallet),
+        getReferralPayoutBatches(wallet, 10)
+      ])
+      const policy = getReferralPayoutPolicy()
 
       return reply.code(200).send({
         success: true,
@@ -103,6 +109,18 @@ export const referralRoutes: FastifyPluginAsync = async (fastify) => {
           tier: stats.tier,
           total_referrals: stats.totalReferrals,
           total_earnings_usdc: stats.totalEarningsUsdc,
+          paid_earnings_usdc: stats.paidEarningsUsdc,
+          pending_earnings_usdc: stats.pendingEarningsUsdc,
+          // Pending commissions are paid in one transfer once they reach min_usdc, or after max_wait_hours
+          payout_policy: { min_usdc: policy.minUsdc, max_wait_hours: policy.maxWaitHours },
+          payouts: payoutBatches.map(batch => ({
+            amount_usdc: batch.amount_usdc,
+            commissions: batch.payout_count,
+            status: batch.status,
+            signature: batch.signature,
+            created_at: batch.created_at,
+            paid_at: batch.paid_at
+          })),
           share_url: stats.code ? `${process.env.APP_URL || 'https://blink402.dev'}?ref=${stats.code}` : null,
           referrals: stats.referrals.map(r => ({
             referee_wallet: r.refereeWallet,
@@ -0,0 +1,154 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  getBlinkBySlug,
+  submitBlinkReview,
+  replyToBlinkReview,
+  getBlinkReviews,
+  getBlinkRatingSummary,
+} from '@blink402/database'
+import { deleteCache, isRedisConnected } from '@blink402/redis'
+import { requireScope, verifyOwnership, verifyWalletAuth, type WalletAuthBody } from '../auth.js'
+
+const MAX_COMMENT_LENGTH = 2000
+const MAX_REPLY_LENGTH = 2000
+
+/**
+ * Ratings and reviews
+ * Only wallets with an executed run of a blink can review it (one review per wallet, replaced
+ * when reviewing again); the blink's creator can reply. Reviews are public.
+ */
+export const reviewRoutes: FastifyPluginAsync = async (fastify) => {
+  // GET /api/reviews/:slug - Rating summary and reviews, newest first
+  fastify.get<{
+    Params: { slug: string }
+    Querystring: { limit?: string; offset?: string }
+  }>('/:slug', async (request, reply) => {
+    const { slug } = request.params
+    const limit = Math.min(Math.max(parseInt(request.query.limit || '20', 10) || 20, 1), 100)
+    const offset = Math.max(parseInt(request.query.offset || '0', 10) || 0, 0)
+
+    try {
+      const blink = await getBlinkBySlug(slug)
+      if (!blink) {
+        return reply.code(404).send({ success: false, error: 'Blink not found' })
+      }
+
+      const [summary, reviews] = await Promise.all([
+        getBlinkRatingSummary(blink.id),
+        getBlinkReviews(blink.id, { limit, offset })
+      ])
+
+      return reply.code(200).send({
+        success: true,
+        summary,
+        reviews,
+        pagination: { limit, offset, total: summary.count, has_more: offset + reviews.length < summary.count }
+      })
+    } catch (error) {
+      fastify.log.error({ error, slug }, 'Error loading reviews')
+      return reply.code(500).send({ success: false, error: 'Failed to load reviews' })
+    }
+  })
+
+  // POST /api/reviews/:slug - Rate and review a blink the wallet has paid for and run
+  fastify.post<{
+    Params: { slug: string }
+    Body: WalletAuthBody & { rating?: number; comment?: string | null }
+  }>('/:slug', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const { slug } = request.params
+    const { rating, comment } = request.body || {}
+
+    if (typeof rating !== 'number' || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return reply.code(400).send({ success: false, error: 'Invalid review', details: 'rating must be a whole number from 1 to 5' })
+    }
+    if (comment !== undefined && comment !== null && (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH)) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid review',
+        details: `comment must be a string of at most ${MAX_COMMENT_LENGTH} characters`
+      })
+    }
+
+    try {
+      const blink = await getBlinkBySlug(slug)
+      if (!blink) {
+        return reply.code(404).send({ success: false, error: 'Blink not found' })
+      }
+      if (blink.payment_mode === 'reward') {
+        return reply.code(400).send({ success: false, error: 'Reward blinks cannot be reviewed', details: 'Only blinks you pay for can be reviewed' })
+      }
+      if (verifyOwnership(wallet, blink.creator.wallet)) {
+        return reply.code(403).send({ success: false, error: 'Creators cannot review their own blinks' })
+      }
+
+      const review = await submitBlinkReview({
+        blinkId: blink.id,
+        wallet,
+        rating,
+        comment: comment?.trim() || null
+      })
+
+      if (!review) {
+        return reply.code(403).send({
+          success: false,
+          error: 'Review not allowed',
+          details: 'Only wallets that have paid for and run this blink can review it'
+        })
+      }
+
+      if (isRedisConnected()) {
+        await deleteCache(`blink:${slug}`)
+      }
+
+      fastify.log.info({ slug, wallet, reviewId: review.id, rating }, 'Blink reviewed')
+
+      return reply.code(200).send({ success: true, review })
+    } catch (error) {
+      fastify.log.error({ error, slug, wallet }, 'Error submitting review')
+      return reply.code(500).send({ success: false, error: 'Failed to submit review' })
+    }
+  })
+
+  // PUT /api/reviews/:slug/:id/reply - Creator reply to a review (null or empty removes it)
+  fastify.put<{
+    Params: { slug: string; id: string }
+    Body: WalletAuthBody & { reply?: string | null }
+  }>('/:slug/:id/reply', {
+    preHandler: requireScope('blinks:write'),
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const { slug, id } = request.params
+    const text = request.body?.reply
+
+    if (text !== undefined && text !== null && (typeof text !== 'string' || text.length > MAX_REPLY_LENGTH)) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid reply',
+        details: `reply must be a string of at most ${MAX_REPLY_LENGTH} characters`
+      })
+    }
+
+    try {
+      const blink = await getBlinkBySlug(slug)
+      if (!blink) {
+        return reply.code(404).send({ success: false, error: 'Blink not found' })
+      }
+      if (!verifyOwnership(wallet, blink.creator.wallet)) {
+        return reply.code(403).send({ success: false, error: 'Only the blink creator can reply to reviews' })
+      }
+
+      const review = await replyToBlinkReview({ reviewId: id, blinkId: blink.id, reply: text?.trim() || null })
+      if (!review) {
+        return reply.code(404).send({ success: false, error: 'Review not found' })
+      }
+
+      return reply.code(200).send({ success: true, review })
+    } catch (error) {
+      fastify.log.error({ error, slug, reviewId: id }, 'Error replying to review')
+      return reply.code(500).send({ success: false, error: 'Failed to reply to review' })
+    }
+  })
+}
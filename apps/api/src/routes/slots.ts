@@ -26,8 +26,22 @@ import {
   getBlinkBySlug,
   getCreatorPayoutKey,
   decrypt,
+  createSlotSpin,
+  getSlotSpinByReference,
+  getSlotSpinsByWallet,
+  type SlotSpinData,
 } from '@blink402/database'
-import type { SpinRequest, SpinResult, SlotSymbol } from '@blink402/types'
+import type { SpinRequest, SpinResult, SlotSymbol, SlotSpinVerification } from '@blink402/types'
+import { verifyWalletAuth, type WalletAuthBody } from '../auth.js'
+import {
+  hashSlotServerSeed,
+  validateClientSeed,
+  getOrIssueSeedPair,
+  rotateSeedPair,
+  claimSpinSeed,
+  toSeedPairResponse,
+  toRevealedSeedPairResponse,
+} from '../utils/slot-seeds.js'
 
 // Slot machine configuration
 const SLOT_CONFIG = {
@@ -142,7 +156,127 @@ function generateProvablyFairSpin(
   return [reel1, reel2, reel3]
 }
 
+/**
+ * Replay a stored spin (only possible once its seed pair has been revealed)
+ */
+function toSpinVerification(spin: SlotSpinData): SlotSpinVerification {
+  const reels = spin.reels as [SlotSymbol, SlotSymbol, SlotSymbol]
+  const verification: SlotSpinVerification = {
+    reference: spin.reference,
+    seedPairId: spin.seed_pair_id,
+    serverSeedHash: spin.server_seed_hash,
+    serverSeed: spin.server_seed,
+    clientSeed: spin.client_seed,
+    nonce: String(spin.nonce),
+    reels,
+    payout: spin.payout_usdc,
+    multiplier: Number(spin.multiplier),
+    createdAt: spin.created_at,
+    verified: null,
+  }
+
+  if (spin.server_seed) {
+    const replayedReels = generateProvablyFairSpin(spin.server_seed, spin.client_seed, String(spin.nonce))
+    verification.replayedReels = replayedReels
+    verification.verified = hashSlotServerSeed(spin.server_seed) === spin.server_seed_hash &&
+      JSON.stringify(replayedReels) === JSON.stringify(reels)
+  }
+
+  return verification
+}
+
 export const slotsRoutes: FastifyPluginAsync = async (fastify) => {
+  // GET /api/slots/seeds - Active seed pair for a wallet (issued before the first bet)
+  fastify.get<{ Querystring: { wallet?: string } }>('/seeds', async (request, reply) => {
+    const { wallet } = request.query
+
+    if (!wallet || !isValidSolanaAddress(wallet)) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid wallet address'
+      })
+    }
+
+    try {
+      const pair = await getOrIssueSeedPair(wallet)
+      return reply.code(200).send({
+        success: true,
+        seedPair: toSeedPairResponse(pair),
+      })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error fetching slot seed pair')
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to fetch seed pair'
+      })
+    }
+  })
+
+  // POST /api/slots/seeds/rotate - Reveal the current server seed and start a new pair
+  fastify.post<{ Body: WalletAuthBody & { clientSeed?: string } }>('/seeds/rotate', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const { clientSeed } = request.body || {}
+
+    if (clientSeed !== undefined) {
+      const clientSeedError = validateClientSeed(clientSeed)
+      if (clientSeedError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid client seed',
+          details: clientSeedError
+        })
+      }
+    }
+
+    try {
+      const { revealed, active } = await rotateSeedPair(wallet, clientSeed)
+
+      fastify.log.info({ wallet, revealedSeedPairId: revealed?.id, seedPairId: active.id }, 'Rotated slot seed pair')
+
+      return reply.code(200).send({
+        success: true,
+        revealed: revealed ? toRevealedSeedPairResponse(revealed) : null,
+        seedPair: toSeedPairResponse(active),
+      })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error rotating slot seed pair')
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to rotate seed pair'
+      })
+    }
+  })
+
+  // GET /api/slots/spins - Recent spins for a wallet, with replay results where the seed is revealed
+  fastify.get<{ Querystring: { wallet?: string; limit?: string } }>('/spins', async (request, reply) => {
+    const { wallet } = request.query
+    const limit = Math.min(Math.max(parseInt(request.query.limit || '20', 10) || 20, 1), 100)
+
+    if (!wallet || !isValidSolanaAddress(wallet)) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid wallet address'
+      })
+    }
+
+    try {
+      const spins = await getSlotSpinsByWallet(wallet, limit)
+      return reply.code(200).send({
+        success: true,
+        spins: spins.map(toSpinVerification),
+      })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error fetching slot spins')
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to fetch spins'
+      })
+    }
+  })
+
+
   // POST /api/slots/spin - Execute a slot machine spin
   fastify.post<{ Body: SpinRequest }>('/spin', async (request, reply) => {
     const { reference, payer } = request.body
@@ -311,21 +445,29 @@ export const slotsRoutes: FastifyPluginAsync = async (fastify) => {
         })
       }
 
-      // Step 2: Generate provably fair result
-      const serverSeed = crypto.randomBytes(32).toString('hex')
-      const serverSeedHash = crypto.createHmac('sha256', serverSeed).digest('hex')
-      const clientSeed = payer // User's wallet address as client seed
-      const nonce = run.id // Unique run ID as nonce
+      // Spins use the seed pair of the wallet that paid for the run, never one named in the body
+      if (!run.payer || run.payer !== payer) {
+        fastify.log.warn({ reference, runId: run.id, payer, runPayer: run.payer }, 'Spin payer does not match the run payer')
+        return reply.code(403).send({
+          success: false,
+          error: 'This payment was made by a different wallet'
+        })
+      }
+      const spinWallet = run.payer
+
+      // Step 2: Generate provably fair result from the payer's pre-committed seed pair
+      const { seedPairId, serverSeed, serverSeedHash, clientSeed, nonce } = await claimSpinSeed(spinWallet)
 
       fastify.log.info({
         reference,
         payer,
+        seedPairId,
         nonce,
         serverSeedHash,
       }, 'Generating provably fair spin')
 
       // Generate reels using provably fair RNG
-      const reels = generateProvablyFairSpin(serverSeed, clientSeed, nonce)
+      const reels = generateProvablyFairSpin(serverSeed, clientSeed, String(nonce))
 
       // Step 3: Calculate payout
       const { payout, multiplier, win } = calculatePayout(reels, SLOT_CONFIG.betAmount)
@@ -337,6 +479,17 @@ export const slotsRoutes: FastifyPluginAsync = async (fastify) => {
         win,
       }, 'Spin result calculated')
 
+      // Record the spin before paying out so it can always be verified later
+      await createSlotSpin({
+        runId: run.id,
+        seedPairId,
+        wallet: spinWallet,
+        nonce,
+        reels,
+        payoutUsdc: payout,
+        multiplier,
+      })
+
       // Step 4: If win, send instant payout to user
       let payoutSignature: string | undefined
 
@@ -380,7 +533,7 @@ export const slotsRoutes: FastifyPluginAsync = async (fastify) => {
           const payoutTransaction = await buildRewardTransaction({
             connection,
             creator: creatorKeypair.publicKey,
-            user: new PublicKey(payer),
+            user: new PublicKey(spinWallet),
             amount: payoutLamports,
             memo: `Slot machine win: ${multiplier}x (${reels.join('')})`,
             tokenMint: usdcMint, // USDC payout
@@ -443,10 +596,10 @@ export const slotsRoutes: FastifyPluginAsync = async (fastify) => {
         win,
         multiplier,
         betAmount: SLOT_CONFIG.betAmount,
-        serverSeed,
+        seedPairId,
         serverSeedHash,
         clientSeed,
-        nonce,
+        nonce: String(nonce),
         reference,
         payoutSignature,
         message: win
@@ -491,6 +644,47 @@ export const slotsRoutes: FastifyPluginAsync = async (fastify) => {
     })
   })
 
+  // GET /api/slots/verify - Replay a past spin from its payment reference
+  fastify.get<{ Querystring: { reference?: string } }>('/verify', async (request, reply) => {
+    const { reference } = request.query
+
+    if (!reference) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Missing required parameter: reference'
+      })
+    }
+
+    try {
+      const spin = await getSlotSpinByReference(reference)
+      if (!spin) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Spin not found'
+        })
+      }
+
+      const verification = toSpinVerification(spin)
+
+      return reply.code(200).send({
+        success: true,
+        ...verification,
+        message: verification.verified === null
+          ? 'This spin\'s server seed is still active. Rotate your seed pair to reveal it and verify.'
+          : verification.verified
+            ? 'Spin result is provably fair and has not been manipulated.'
+            : 'Spin result does not match the provably fair calculation.',
+      })
+    } catch (error) {
+      fastify.log.error({ error, reference }, 'Error verifying spin')
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to verify spin',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
   // POST /api/slots/verify - Verify a spin result was provably fair
   fastify.post<{
     Body: {
@@ -505,7 +699,7 @@ export const slotsRoutes: FastifyPluginAsync = async (fastify) => {
 
     try {
       // Step 1: Verify server seed hash matches
-      const computedHash = crypto.createHmac('sha256', serverSeed).digest('hex')
+      const computedHash = hashSlotServerSeed(serverSeed)
       if (computedHash !== serverSeedHash) {
         return reply.code(400).send({
           success: false,
@@ -223,6 +223,8 @@ export const thankYouClaimRoutes: FastifyPluginAsync = async (fastify) => {
         userWallet: user_wallet,
         reference,
         signature: rewardSignature,
+        amount: String(rewardAmount),
+        token: 'USDC',
       })
 
       // Mark run as executed
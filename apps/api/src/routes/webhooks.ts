@@ -0,0 +1,235 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  encrypt,
+  getOrCreateCreator,
+  createCreatorWebhook,
+  getCreatorWebhooks,
+  getCreatorWebhook,
+  updateCreatorWebhook,
+  deleteCreatorWebhook,
+  getWebhookDeliveries,
+  replayWebhookDelivery,
+} from '@blink402/database'
+import type { WebhookEventType } from '@blink402/types'
+import { verifyWalletAuth, type WalletAuthBody } from '../auth.js'
+import {
+  MAX_WEBHOOKS_PER_CREATOR,
+  validateWebhookUrl,
+  validateWebhookEvents,
+  generateWebhookSecret,
+} from '../utils/webhooks.js'
+
+interface WebhookBody {
+  url?: string
+  description?: string | null
+  events?: WebhookEventType[]
+  is_active?: boolean
+}
+
+/**
+ * Validate the editable webhook fields that are present in the body
+ * @returns Error details, or null when valid
+ */
+async function validateWebhookBody(body: WebhookBody): Promise<string | null> {
+  if (body.url !== undefined) {
+    const urlError = await validateWebhookUrl(body.url)
+    if (urlError) return urlError
+  }
+  if (body.events !== undefined) {
+    const eventsError = validateWebhookEvents(body.events)
+    if (eventsError) return eventsError
+  }
+  if (body.description !== undefined && body.description !== null
+    && (typeof body.description !== 'string' || body.description.length > 200)) {
+    return 'description must be a string of at most 200 characters'
+  }
+  if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
+    return 'is_active must be a boolean'
+  }
+  return null
+}
+
+/**
+ * Creator webhook management
+ * Every route requires wallet authentication; creators only see their own webhooks.
+ */
+export const webhookRoutes: FastifyPluginAsync = async (fastify) => {
+  // GET /api/creator/webhooks - List the creator's webhooks
+  fastify.get<{ Body: WalletAuthBody }>('/', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+
+    try {
+      const webhooks = await getCreatorWebhooks(wallet)
+      return reply.code(200).send({ success: true, webhooks })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error listing webhooks')
+      return reply.code(500).send({ success: false, error: 'Failed to list webhooks' })
+    }
+  })
+
+  // POST /api/creator/webhooks - Create a webhook (the signing secret is only returned here)
+  fastify.post<{ Body: WalletAuthBody & WebhookBody }>('/', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const body = request.body || {}
+
+    if (body.url === undefined || body.events === undefined) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid webhook',
+        details: 'url and events are required'
+      })
+    }
+
+    const validationError = await validateWebhookBody(body)
+    if (validationError) {
+      return reply.code(400).send({ success: false, error: 'Invalid webhook', details: validationError })
+    }
+
+    try {
+      const existing = await getCreatorWebhooks(wallet)
+      if (existing.length >= MAX_WEBHOOKS_PER_CREATOR) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Webhook limit reached',
+          details: `Creators can register up to ${MAX_WEBHOOKS_PER_CREATOR} webhooks`
+        })
+      }
+
+      const creatorId = await getOrCreateCreator(wallet)
+      const secret = generateWebhookSecret()
+      const webhook = await createCreatorWebhook({
+        creatorId,
+        url: body.url,
+        description: body.description,
+        events: [...new Set(body.events)],
+        encryptedSecret: encrypt(secret),
+      })
+
+      fastify.log.info({ wallet, webhookId: webhook.id, events: webhook.events }, 'Created webhook')
+
+      return reply.code(201).send({ success: true, webhook, secret })
+    } catch (error) {
+      fastify.log.error({ error, wallet }, 'Error creating webhook')
+      return reply.code(500).send({ success: false, error: 'Failed to create webhook' })
+    }
+  })
+
+  // PUT /api/creator/webhooks/:id - Update URL, events, description or enable/disable
+  fastify.put<{ Params: { id: string }; Body: WalletAuthBody & WebhookBody }>('/:id', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const body = request.body || {}
+
+    const validationError = await validateWebhookBody(body)
+    if (validationError) {
+      return reply.code(400).send({ success: false, error: 'Invalid webhook', details: validationError })
+    }
+
+    try {
+      const webhook = await updateCreatorWebhook(request.params.id, wallet, {
+        url: body.url,
+        description: body.description,
+        events: body.events ? [...new Set(body.events)] : undefined,
+        is_active: body.is_active,
+      })
+
+      if (!webhook) {
+        return reply.code(404).send({ success: false, error: 'Webhook not found' })
+      }
+
+      return reply.code(200).send({ success: true, webhook })
+    } catch (error) {
+      fastify.log.error({ error, wallet, webhookId: request.params.id }, 'Error updating webhook')
+      return reply.code(500).send({ success: false, error: 'Failed to update webhook' })
+    }
+  })
+
+  // POST /api/creator/webhooks/:id/rotate-secret - Issue a new signing secret (returned once)
+  fastify.post<{ Params: { id: string }; Body: WalletAuthBody }>('/:id/rotate-secret', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+
+    try {
+      const secret = generateWebhookSecret()
+      const webhook = await updateCreatorWebhook(request.params.id, wallet, { encryptedSecret: encrypt(secret) })
+
+      if (!webhook) {
+        return reply.code(404).send({ success: false, error: 'Webhook not found' })
+      }
+
+      fastify.log.info({ wallet, webhookId: webhook.id }, 'Rotated webhook secret')
+
+      return reply.code(200).send({ success: true, webhook, secret })
+    } catch (error) {
+      fastify.log.error({ error, wallet, webhookId: request.params.id }, 'Error rotating webhook secret')
+      return reply.code(500).send({ success: false, error: 'Failed to rotate webhook secret' })
+    }
+  })
+
+  // DELETE /api/creator/webhooks/:id - Delete a webhook and its delivery log
+  fastify.delete<{ Params: { id: string }; Body: WalletAuthBody }>('/:id', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+
+    try {
+      const deleted = await deleteCreatorWebhook(request.params.id, wallet)
+      if (!deleted) {
+        return reply.code(404).send({ success: false, error: 'Webhook not found' })
+      }
+
+      return reply.code(200).send({ success: true })
+    } catch (error) {
+      fastify.log.error({ error, wallet, webhookId: request.params.id }, 'Error deleting webhook')
+      return reply.code(500).send({ success: false, error: 'Failed to delete webhook' })
+    }
+  })
+
+  // GET /api/creator/webhooks/:id/deliveries - Delivery log, newest first
+  fastify.get<{ Params: { id: string }; Querystring: { limit?: string }; Body: WalletAuthBody }>('/:id/deliveries', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+    const limit = Math.min(Math.max(parseInt(request.query.limit || '50', 10) || 50, 1), 200)
+
+    try {
+      const webhook = await getCreatorWebhook(request.params.id, wallet)
+      if (!webhook) {
+        return reply.code(404).send({ success: false, error: 'Webhook not found' })
+      }
+
+      const deliveries = await getWebhookDeliveries(webhook.id, limit)
+      return reply.code(200).send({ success: true, deliveries })
+    } catch (error) {
+      fastify.log.error({ error, wallet, webhookId: request.params.id }, 'Error fetching webhook deliveries')
+      return reply.code(500).send({ success: false, error: 'Failed to fetch deliveries' })
+    }
+  })
+
+  // POST /api/creator/webhooks/deliveries/:deliveryId/replay - Send a past delivery again
+  fastify.post<{ Params: { deliveryId: string }; Body: WalletAuthBody }>('/deliveries/:deliveryId/replay', {
+    preHandler: verifyWalletAuth,
+  }, async (request, reply) => {
+    const wallet = request.authenticatedWallet!
+
+    try {
+      const delivery = await replayWebhookDelivery(request.params.deliveryId, wallet)
+      if (!delivery) {
+        return reply.code(404).send({ success: false, error: 'Delivery not found' })
+      }
+
+      fastify.log.info({ wallet, deliveryId: request.params.deliveryId, replayId: delivery.id }, 'Replaying webhook delivery')
+
+      return reply.code(202).send({ success: true, delivery })
+    } catch (error) {
+      fastify.log.error({ error, wallet, deliveryId: request.params.deliveryId }, 'Error replaying webhook delivery')
+      return reply.code(500).send({ success: false, error: 'Failed to replay delivery' })
+    }
+  })
+}
@@ -4,6 +4,7 @@
  */
 
 import 'fastify'
+import type { RequestAuth } from '../auth.js'
 
 declare module 'fastify' {
   interface FastifyRequest {
@@ -12,5 +13,11 @@ declare module 'fastify' {
      * This property is set by the verifyWalletAuth middleware
      */
     authenticatedWallet?: string
+
+    /**
+     * How the wallet was authenticated (session, API key with its scopes, or signature)
+     * Set together with authenticatedWallet
+     */
+    auth?: RequestAuth
   }
 }
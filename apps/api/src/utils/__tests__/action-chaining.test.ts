@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { BlinkData, Run } from '@blink402/types'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  getBlinkBySlug: vi.fn(),
+}))
+
+import { getBlinkBySlug } from '@blink402/database'
+import {
+  buildRunNextAction,
+  getExternalLinkUrl,
+  summarizeRunResponse,
+} from '../action-chaining.js'
+
+const REFERENCE = 'Ref1111111111111111111111111111111111111111'
+
+function blink(overrides: Partial<BlinkData> = {}): BlinkData {
+  return {
+    id: 'blink-1',
+    slug: 'weather',
+    title: 'Weather',
+    description: 'Forecast for any city',
+    price_usdc: '0.05',
+    method: 'POST',
+    status: 'active',
+    parameters: [{ name: 'city', type: 'text' }],
+    ...overrides,
+  } as BlinkData
+}
+
+function run(status: Run['status'], response?: unknown): Pick<Run, 'reference' | 'status' | 'metadata'> {
+  return { reference: REFERENCE, status, metadata: response === undefined ? {} : { response } }
+}
+
+describe('summarizeRunResponse', () => {
+  it('renders JSON responses and truncates long ones', () => {
+    expect(summarizeRunResponse({ forecast: 'sunny' })).toContain('"forecast": "sunny"')
+    expect(summarizeRunResponse('x'.repeat(600))).toHaveLength(500)
+    expect(summarizeRunResponse(null)).toBe('Completed with no output.')
+  })
+
+  it('describes file results instead of printing them', () => {
+    expect(summarizeRunResponse({ artifact: { id: 'a', content_type: 'image/png', size_bytes: 2048 } }))
+      .toBe('Result file ready (image/png, 2 KB).')
+  })
+})
+
+describe('getExternalLinkUrl', () => {
+  it('links to the results page or a post sharing it', () => {
+    const results = `https://blink402.dev/results/${REFERENCE}`
+    expect(getExternalLinkUrl('results', REFERENCE, 'Weather')).toBe(results)
+
+    const share = new URL(getExternalLinkUrl('share', REFERENCE, 'Weather'))
+    expect(share.origin).toBe('https://x.com')
+    expect(share.searchParams.get('url')).toBe(results)
+    expect(share.searchParams.get('text')).toContain('"Weather"')
+  })
+})
+
+describe('buildRunNextAction', () => {
+  beforeEach(() => {
+    vi.mocked(getBlinkBySlug).mockReset()
+  })
+
+  it('shows the result inline with run again, share and results buttons', async () => {
+    const action = await buildRunNextAction(run('executed', { forecast: 'sunny' }), blink())
+
+    expect(action.title).toBe('✅ Weather')
+    expect(action.description).toContain('sunny')
+    expect(action.links?.actions.map((button) => button.label)).toEqual(['🔁 Run again', '𝕏 Share result', 'View full result'])
+    expect(action.links?.actions[0].href).toBe('/api/actions/weather')
+  })
+
+  it('adds follow-up buttons, skipping blinks that are no longer active', async () => {
+    vi.mocked(getBlinkBySlug).mockImplementation(async (slug: string) => (
+      slug === 'air-quality'
+        ? blink({ slug: 'air-quality', parameters: [{ name: 'zip', type: 'text' }] as BlinkData['parameters'] })
+        : blink({ slug, status: 'paused' } as Partial<BlinkData>)
+    ))
+
+    const action = await buildRunNextAction(run('executed', { forecast: 'sunny' }), blink({
+      actions_config: {
+        follow_up: [
+          { label: 'Air quality', slug: 'air-quality', parameters: ['zip'] },
+          { label: 'Pollen', slug: 'pollen' },
+          { label: '7 day forecast', parameters: ['city'] },
+        ],
+      },
+    }))
+
+    const [airQuality, forecast] = action.links!.actions
+    expect(airQuality).toMatchObject({ label: 'Air quality', href: '/api/actions/air-quality' })
+    expect(airQuality.parameters?.map((param) => param.name)).toEqual(['zip'])
+    expect(forecast).toMatchObject({ label: '7 day forecast', href: '/api/actions/weather' })
+    expect(action.links!.actions.map((button) => button.label)).not.toContain('Pollen')
+  })
+
+  it('offers a retry when the run failed', async () => {
+    const action = await buildRunNextAction(run('failed'), blink())
+
+    expect(action.title).toBe('❌ Weather')
+    expect(action.error).toEqual({ message: 'The API call failed' })
+    expect(action.links?.actions.map((button) => button.label)).toEqual(['🔁 Try again', 'View details'])
+  })
+
+  it('asks the wallet to check back while the run is still going', async () => {
+    const action = await buildRunNextAction(run('paid'), blink())
+
+    expect(action.title).toBe('⏳ Weather')
+    expect(action.links?.actions[0]).toEqual({ type: 'post', label: '🔄 Check result', href: `/api/actions/submit/${REFERENCE}/status` })
+  })
+
+  it('does not offer to run a paused blink again', async () => {
+    const action = await buildRunNextAction(run('executed', 'done'), blink({ status: 'paused' } as Partial<BlinkData>))
+
+    expect(action.links?.actions.map((button) => button.label)).toEqual(['𝕏 Share result', 'View full result'])
+  })
+})
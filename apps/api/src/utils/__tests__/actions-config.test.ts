@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import type { BlinkData, BlinkParameter } from '@blink402/types'
+import {
+  validateActionsConfig,
+  toLinkedAction,
+  getActionAmountPresets,
+  buildActionsMetadata,
+} from '../actions-config.js'
+
+const WEB_URL = 'https://blink402.dev'
+
+const parameters: BlinkParameter[] = [
+  { name: 'city', label: 'City', type: 'text', required: true },
+  {
+    name: 'units',
+    type: 'select',
+    options: [{ label: 'Metric', value: 'metric' }, { label: 'Imperial', value: 'imperial' }],
+  },
+]
+
+function blink(overrides: Partial<BlinkData> = {}): BlinkData {
+  return {
+    id: 'blink-1',
+    slug: 'weather',
+    title: 'Weather',
+    description: 'Forecast for any city',
+    price_usdc: '0.05',
+    method: 'POST',
+    status: 'active',
+    parameters,
+    ...overrides,
+  } as BlinkData
+}
+
+describe('validateActionsConfig', () => {
+  it('accepts buttons with presets, named and inline parameters', () => {
+    expect(validateActionsConfig({
+      label: 'Get forecast',
+      icon_url: 'https://cdn.example.com/icon.png',
+      buttons: [
+        { label: 'Quick', amount: '0.05', parameters: ['city'] },
+        { label: 'Custom', parameters: [{ name: 'days', type: 'number', min: 1, max: 7 }] },
+      ],
+      follow_up: [{ label: 'Air quality', slug: 'air-quality', parameters: ['city'] }],
+    }, parameters)).toBeNull()
+  })
+
+  it('rejects undeclared parameter names and invalid presets', () => {
+    expect(validateActionsConfig({ buttons: [{ label: 'Go', parameters: ['country'] }] }, parameters))
+      .toBe('actions_config.buttons[0].parameters references undeclared parameter "country"')
+    expect(validateActionsConfig({ buttons: [{ label: 'Go', amount: '-1' }] }, parameters))
+      .toBe('actions_config.buttons[0].amount must be a positive decimal string')
+  })
+
+  it('only lets follow-up buttons open another blink', () => {
+    expect(validateActionsConfig({ buttons: [{ label: 'Go', slug: 'other' }] }, parameters))
+      .toBe('actions_config.buttons[0].slug is only supported on follow_up buttons')
+    expect(validateActionsConfig({ follow_up: [{ label: 'Go', slug: 'Not A Slug' }] }, parameters))
+      .toBe('actions_config.follow_up[0].slug must be a blink slug')
+  })
+
+  it('rejects option parameters without options and non-https icons', () => {
+    expect(validateActionsConfig({ buttons: [{ label: 'Go', parameters: [{ name: 'size', type: 'select' }] }] }))
+      .toBe('actions_config.buttons[0].parameters[0].options are required for select parameters')
+    expect(validateActionsConfig({ icon_url: 'http://cdn.example.com/icon.png' }))
+      .toBe('actions_config.icon_url must use https')
+  })
+})
+
+describe('toLinkedAction', () => {
+  it('resolves named parameters and keeps select options', () => {
+    const action = toLinkedAction({ label: 'Go', parameters: ['city', 'units'] }, 'weather', parameters)
+
+    expect(action.href).toBe('/api/actions/weather')
+    expect(action.parameters?.map((param) => param.name)).toEqual(['city', 'units'])
+    expect(action.parameters?.[1].options).toEqual([{ label: 'Metric', value: 'metric' }, { label: 'Imperial', value: 'imperial' }])
+  })
+
+  it('adds the price preset to the href', () => {
+    expect(toLinkedAction({ label: '1 SOL', amount: '1' }, 'swap').href).toBe('/api/actions/swap?amount=1')
+  })
+})
+
+describe('getActionAmountPresets', () => {
+  it('lists the amounts of buttons with a preset', () => {
+    expect(getActionAmountPresets({ buttons: [{ label: 'Any' }, { label: 'Small', amount: '0.1' }, { label: 'Big', amount: '1' }] }))
+      .toEqual(['0.1', '1'])
+    expect(getActionAmountPresets(null)).toEqual([])
+  })
+})
+
+describe('buildActionsMetadata', () => {
+  it('offers one button with every parameter when nothing is configured', () => {
+    const metadata = buildActionsMetadata(blink(), WEB_URL)
+
+    expect(metadata).toMatchObject({
+      type: 'action',
+      title: 'Weather',
+      label: 'Use Weather',
+      icon: `${WEB_URL}/api/og/weather`,
+    })
+    expect(metadata.disabled).toBeUndefined()
+    expect(metadata.links.actions).toHaveLength(1)
+    expect(metadata.links.actions[0].label).toBe('Submit Request')
+    expect(metadata.links.actions[0].parameters?.map((param) => param.name)).toEqual(['city', 'units'])
+  })
+
+  it('uses the stored buttons, label and icon', () => {
+    const metadata = buildActionsMetadata(blink({
+      actions_config: {
+        label: 'Forecast',
+        icon_url: 'https://cdn.example.com/icon.png',
+        buttons: [{ label: 'Paris', amount: '0.05' }, { label: 'Other city', parameters: ['city'] }],
+      },
+    }), WEB_URL)
+
+    expect(metadata.label).toBe('Forecast')
+    expect(metadata.icon).toBe('https://cdn.example.com/icon.png')
+    expect(metadata.links.actions.map((action) => action.href)).toEqual(['/api/actions/weather?amount=0.05', '/api/actions/weather'])
+  })
+
+  it('disables paused blinks and shows why', () => {
+    const metadata = buildActionsMetadata(blink({ status: 'paused' }), WEB_URL)
+
+    expect(metadata.disabled).toBe(true)
+    expect(metadata.error).toEqual({ message: 'This blink is currently unavailable' })
+  })
+
+  it('shows a configured error on a disabled blink', () => {
+    const metadata = buildActionsMetadata(blink({ actions_config: { disabled: true, error: 'Back tomorrow' } }), WEB_URL)
+
+    expect(metadata.disabled).toBe(true)
+    expect(metadata.error).toEqual({ message: 'Back tomorrow' })
+  })
+})
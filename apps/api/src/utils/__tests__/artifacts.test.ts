@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises'
+import { createHash } from 'crypto'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  createRunArtifact: vi.fn(),
+}))
+
+import { createRunArtifact, type RunArtifactData } from '@blink402/database'
+import {
+  getArtifactFilePath,
+  saveRunArtifact,
+  signArtifactUrl,
+  verifyArtifactSignature,
+  withArtifactUrl,
+} from '../artifacts.js'
+
+let artifactsDir: string
+const originalEnv = { ...process.env }
+
+beforeAll(async () => {
+  artifactsDir = await mkdtemp(join(tmpdir(), 'blink402-artifacts-'))
+  process.env.ARTIFACTS_DIR = artifactsDir
+  process.env.ARTIFACT_SIGNING_SECRET = 'artifact-test-secret'
+  process.env.API_URL = 'https://api.blink402.dev'
+})
+
+afterAll(async () => {
+  process.env = originalEnv
+  await rm(artifactsDir, { recursive: true, force: true })
+})
+
+function parseSignedUrl(url: string) {
+  const parsed = new URL(url)
+  return {
+    id: parsed.pathname.split('/').pop()!,
+    expires: parsed.searchParams.get('expires') || undefined,
+    sig: parsed.searchParams.get('sig') || undefined,
+  }
+}
+
+describe('signed artifact URLs', () => {
+  it('accepts the signature it issued', () => {
+    const { url, expires_at } = signArtifactUrl('artifact-1', 60)
+    const { id, expires, sig } = parseSignedUrl(url)
+
+    expect(url.startsWith('https://api.blink402.dev/artifacts/artifact-1?')).toBe(true)
+    expect(new Date(expires_at).getTime()).toBe(Number(expires) * 1000)
+    expect(verifyArtifactSignature(id, expires, sig)).toBe(true)
+  })
+
+  it('rejects signatures for another artifact or a changed expiry', () => {
+    const { expires, sig } = parseSignedUrl(signArtifactUrl('artifact-1', 60).url)
+
+    expect(verifyArtifactSignature('artifact-2', expires, sig)).toBe(false)
+    expect(verifyArtifactSignature('artifact-1', String(Number(expires) + 3600), sig)).toBe(false)
+    expect(verifyArtifactSignature('artifact-1', expires, undefined)).toBe(false)
+  })
+
+  it('rejects expired URLs', () => {
+    const { expires, sig } = parseSignedUrl(signArtifactUrl('artifact-1', -1).url)
+
+    expect(verifyArtifactSignature('artifact-1', expires, sig)).toBe(false)
+  })
+
+  it('refuses to sign without a dedicated signing secret', () => {
+    const secret = process.env.ARTIFACT_SIGNING_SECRET
+    delete process.env.ARTIFACT_SIGNING_SECRET
+    try {
+      expect(() => signArtifactUrl('artifact-1')).toThrow('ARTIFACT_SIGNING_SECRET is not configured')
+    } finally {
+      process.env.ARTIFACT_SIGNING_SECRET = secret
+    }
+  })
+
+  it('signs a fresh URL onto stored artifact responses only', () => {
+    const response = withArtifactUrl({ artifact: { id: 'artifact-1', content_type: 'image/png', size_bytes: 3, sha256: 'abc' } })
+
+    expect(response.artifact).toMatchObject({ id: 'artifact-1', content_type: 'image/png' })
+    expect((response.artifact as { url?: string }).url).toContain('/artifacts/artifact-1?')
+    expect(withArtifactUrl({ forecast: 'sunny' })).toEqual({ forecast: 'sunny' })
+  })
+})
+
+describe('artifact storage', () => {
+  beforeEach(() => {
+    vi.mocked(createRunArtifact).mockReset()
+  })
+
+  it('refuses storage paths outside the artifacts directory', () => {
+    expect(getArtifactFilePath({ storage_path: 'run-1/artifact-1' })).toBe(join(artifactsDir, 'run-1', 'artifact-1'))
+    expect(() => getArtifactFilePath({ storage_path: '../outside' })).toThrow('Invalid artifact storage path')
+  })
+
+  it('writes the bytes to disk and records their hash', async () => {
+    vi.mocked(createRunArtifact).mockImplementation(async (params) => ({
+      id: params.id,
+      run_id: params.runId,
+      content_type: params.contentType,
+      size_bytes: params.sizeBytes,
+      sha256: params.sha256,
+      storage_path: params.storagePath,
+    }) as RunArtifactData)
+    const data = Buffer.from([0x89, 0x50, 0x4e, 0x47])
+
+    const artifact = await saveRunArtifact({ runId: 'run-1', contentType: 'image/png', data })
+
+    expect(artifact).toMatchObject({
+      run_id: 'run-1',
+      size_bytes: 4,
+      sha256: createHash('sha256').update(data).digest('hex'),
+      storage_path: `run-1/${artifact.id}`,
+    })
+    expect(await readFile(getArtifactFilePath(artifact))).toEqual(data)
+  })
+
+  it('removes the file when the artifact cannot be recorded', async () => {
+    vi.mocked(createRunArtifact).mockRejectedValue(new Error('insert failed'))
+
+    await expect(saveRunArtifact({ runId: 'run-2', contentType: 'image/png', data: Buffer.from('x') }))
+      .rejects.toThrow('insert failed')
+    expect(await readdir(join(artifactsDir, 'run-2'))).toEqual([])
+  })
+})
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { BlinkData } from '@blink402/types'
+
+vi.mock('@blink402/evm', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/evm')>()),
+  verifyUsdcPayment: vi.fn(),
+}))
+vi.mock('@blink402/redis', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/redis')>()),
+  setCache: vi.fn(),
+  getCache: vi.fn(),
+}))
+
+import { verifyUsdcPayment, USDC_ADDRESSES } from '@blink402/evm'
+import { setCache, getCache } from '@blink402/redis'
+import {
+  BASE_RECEIPT_TIMEOUT_MS,
+  buildBasePaymentRequired,
+  extractBaseTxHash,
+  generateBaseReference,
+  getPendingBasePayment,
+  isBaseReference,
+  issueBaseReference,
+  verifyBasePayment,
+} from '../base-payments.js'
+
+const MERCHANT = '0x1111111111111111111111111111111111111111'
+const TX_HASH = `0x${'ab'.repeat(32)}`
+
+function baseBlink(overrides: Partial<BlinkData> = {}): BlinkData {
+  return {
+    id: 'blink-1',
+    slug: 'base-weather',
+    description: 'Weather on Base',
+    price_usdc: '0.05',
+    payout_wallet: MERCHANT,
+    blockchain: 'base',
+    ...overrides,
+  } as BlinkData
+}
+
+function paymentHeader(payload: unknown): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64')
+}
+
+describe('Base payment references', () => {
+  beforeEach(() => {
+    vi.mocked(setCache).mockReset()
+    vi.mocked(getCache).mockReset()
+  })
+
+  it('generates references in the Base format', () => {
+    const reference = generateBaseReference()
+
+    expect(isBaseReference(reference)).toBe(true)
+    expect(generateBaseReference()).not.toBe(reference)
+  })
+
+  it('rejects Solana references and malformed hex', () => {
+    expect(isBaseReference('9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin')).toBe(false)
+    expect(isBaseReference('0x1234')).toBe(false)
+    expect(isBaseReference(`0x${'zz'.repeat(16)}`)).toBe(false)
+  })
+
+  it('keeps what an issued reference pays for until the run expires', async () => {
+    const payment = { blinkId: 'blink-1', metadata: { flow: 'x402' } }
+
+    const reference = await issueBaseReference(payment)
+
+    expect(setCache).toHaveBeenCalledWith(`base-payment:${reference}`, payment, 900)
+  })
+
+  it('does not look up references that are not Base references', async () => {
+    expect(await getPendingBasePayment('not-a-reference')).toBeNull()
+    expect(getCache).not.toHaveBeenCalled()
+  })
+})
+
+describe('extractBaseTxHash', () => {
+  it('reads the transaction hash from an x402 payment header', () => {
+    const header = paymentHeader({ x402Version: 1, scheme: 'exact', network: 'base', payload: { transactionHash: TX_HASH } })
+
+    expect(extractBaseTxHash(header)).toBe(TX_HASH)
+  })
+
+  it('ignores missing, malformed and invalid headers', () => {
+    expect(extractBaseTxHash(undefined)).toBeNull()
+    expect(extractBaseTxHash('not base64 json')).toBeNull()
+    expect(extractBaseTxHash(paymentHeader({ payload: { transactionHash: '0x1234' } }))).toBeNull()
+  })
+})
+
+describe('buildBasePaymentRequired', () => {
+  const originalNetwork = process.env.BASE_NETWORK
+
+  afterEach(() => {
+    process.env.BASE_NETWORK = originalNetwork
+  })
+
+  it('asks for the run price in USDC atomic units paid to the payout wallet', () => {
+    process.env.BASE_NETWORK = 'mainnet'
+    const reference = generateBaseReference()
+
+    const body = buildBasePaymentRequired(baseBlink(), reference, '0.125')
+
+    expect(body.payment).toMatchObject({
+      recipientWallet: MERCHANT,
+      asset: USDC_ADDRESSES.mainnet,
+      amount: '125000',
+      network: 'base',
+      reference,
+    })
+    expect(body.accepts[0]).toMatchObject({ payTo: MERCHANT, maxAmountRequired: '125000', network: 'base' })
+  })
+
+  it('uses Base Sepolia on testnet', () => {
+    process.env.BASE_NETWORK = 'testnet'
+
+    const body = buildBasePaymentRequired(baseBlink(), generateBaseReference())
+
+    expect(body.payment.asset).toBe(USDC_ADDRESSES.testnet)
+    expect(body.payment.amount).toBe('50000')
+    expect(body.accepts[0].network).toBe('base-sepolia')
+  })
+})
+
+describe('verifyBasePayment', () => {
+  beforeEach(() => {
+    vi.mocked(verifyUsdcPayment).mockReset()
+  })
+
+  it('verifies the transfer pays the payout wallet the locked price for this reference', async () => {
+    const reference = generateBaseReference()
+    const verified = { payer: '0x2222222222222222222222222222222222222222', amount: 75000n, blockNumber: 10n } as const
+    vi.mocked(verifyUsdcPayment).mockResolvedValue(verified)
+
+    const payment = await verifyBasePayment({ blink: baseBlink(), reference, txHash: TX_HASH, priceUsdc: '0.075' })
+
+    expect(payment).toEqual(verified)
+    expect(verifyUsdcPayment).toHaveBeenCalledWith(expect.objectContaining({
+      txHash: TX_HASH,
+      merchant: MERCHANT,
+      amountUsdc: 0.075,
+      reference,
+      timeoutMs: BASE_RECEIPT_TIMEOUT_MS,
+    }))
+  })
+
+  it('rejects invalid transaction hashes and references before going on-chain', async () => {
+    await expect(verifyBasePayment({ blink: baseBlink(), reference: generateBaseReference(), txHash: '0x1234' }))
+      .rejects.toThrow('Invalid Base transaction hash')
+    await expect(verifyBasePayment({ blink: baseBlink(), reference: 'solana-reference', txHash: TX_HASH }))
+      .rejects.toThrow('Invalid Base payment reference')
+    await expect(verifyBasePayment({ blink: baseBlink({ price_usdc: '0' }), reference: generateBaseReference(), txHash: TX_HASH }))
+      .rejects.toThrow('Invalid blink price: 0')
+
+    expect(verifyUsdcPayment).not.toHaveBeenCalled()
+  })
+
+  it('passes verification failures through', async () => {
+    vi.mocked(verifyUsdcPayment).mockRejectedValue(new Error('Transaction does not include the payment reference'))
+
+    await expect(verifyBasePayment({ blink: baseBlink(), reference: generateBaseReference(), txHash: TX_HASH }))
+      .rejects.toThrow('Transaction does not include the payment reference')
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import type { Coupon, PriceQuote } from '@blink402/types'
+import { applyCoupon } from '../coupons.js'
+
+function quote(price: string): PriceQuote {
+  return {
+    price_usdc: price,
+    base_price_usdc: price,
+    adjustments: [],
+    wallet: null,
+    quoted_at: '2026-10-01T00:00:00.000Z',
+  }
+}
+
+function coupon(discountType: Coupon['discount_type'], discountValue: string): Coupon {
+  return {
+    id: 'coupon-1',
+    code: 'LAUNCH',
+    discount_type: discountType,
+    discount_value: discountValue,
+    blink_ids: null,
+    max_redemptions: null,
+    max_per_wallet: null,
+    redemptions: 0,
+    discount_total_usdc: '0',
+    expires_at: null,
+    is_active: true,
+    created_at: new Date('2026-09-01T00:00:00Z'),
+  }
+}
+
+describe('applyCoupon', () => {
+  it('takes a percentage off the quoted price', () => {
+    const result = applyCoupon(quote('0.5'), coupon('percent', '20'))
+
+    expect(result.price_usdc).toBe('0.4')
+    expect(result.coupon).toEqual({ id: 'coupon-1', code: 'LAUNCH', discount_usdc: '0.1' })
+    expect(result.adjustments).toEqual([{ rule: 'coupon', detail: 'LAUNCH', percent_off: 20 }])
+  })
+
+  it('takes a fixed USDC amount off the quoted price', () => {
+    const result = applyCoupon(quote('1'), coupon('fixed', '0.25'))
+
+    expect(result.price_usdc).toBe('0.75')
+    expect(result.adjustments).toEqual([{ rule: 'coupon', detail: 'LAUNCH', amount_off: '0.25' }])
+  })
+
+  it('keeps at least 1% of the quoted price', () => {
+    expect(applyCoupon(quote('1'), coupon('fixed', '5')).price_usdc).toBe('0.01')
+    expect(applyCoupon(quote('1'), coupon('percent', '100')).price_usdc).toBe('0.01')
+    expect(applyCoupon(quote('0.000001'), coupon('fixed', '1')).price_usdc).toBe('0.000001')
+  })
+
+  it('keeps the adjustments of the pricing rules before it', () => {
+    const base = { ...quote('2'), adjustments: [{ rule: 'surge' as const, detail: '40 runs in the last 10 minutes', multiplier: 2 }] }
+    const result = applyCoupon(base, coupon('percent', '50'))
+
+    expect(result.adjustments.map((a) => a.rule)).toEqual(['surge', 'coupon'])
+    expect(result.base_price_usdc).toBe('2')
+  })
+})
@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import { Keypair, PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js'
+import nacl from 'tweetnacl'
+import bs58 from 'bs58'
+import type { CreditAuthorization } from '@blink402/types'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  completeCreditWithdrawal: vi.fn(),
+  failCreditWithdrawal: vi.fn(),
+  markCreditSettlementSending: vi.fn(),
+  completeCreditSettlement: vi.fn(),
+  failCreditSettlement: vi.fn(),
+}))
+vi.mock('@blink402/solana', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/solana')>()),
+  getConnection: vi.fn(),
+  getTransferStatus: vi.fn(),
+  buildRefundTransaction: vi.fn(),
+  executeRefund: vi.fn(),
+  // The package's CommonJS build can pick up an ESM-only bs58 here - check signatures with the test's own copies
+  verifyMessageSignature: vi.fn((message: string, signature: string, wallet: string) => nacl.sign.detached.verify(
+    new TextEncoder().encode(message),
+    bs58.decode(signature),
+    new PublicKey(wallet).toBytes(),
+  )),
+}))
+
+import {
+  completeCreditWithdrawal,
+  failCreditWithdrawal,
+  markCreditSettlementSending,
+  completeCreditSettlement,
+  failCreditSettlement,
+  type CreditSettlementData,
+} from '@blink402/database'
+import {
+  getConnection,
+  getTransferStatus,
+  getUsdcMint,
+  buildRefundTransaction,
+  executeRefund,
+  generateCreditAuthorizationMessage,
+} from '@blink402/solana'
+import {
+  parseCreditAuthorization,
+  verifyCreditAuthorization,
+  checkCreditMaxAmount,
+  verifyCreditDeposit,
+  settleSendingCreditWithdrawal,
+  sendCreditSettlement,
+  settleSendingCreditSettlement,
+} from '../credits.js'
+
+const treasury = Keypair.generate()
+const payer = Keypair.generate()
+const PAYER_WALLET = payer.publicKey.toBase58()
+const TREASURY_WALLET = treasury.publicKey.toBase58()
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Parameters<typeof sendCreditSettlement>[1]
+const getParsedTransaction = vi.fn()
+const originalTreasury = process.env.CREDITS_TREASURY_KEYPAIR
+
+beforeAll(() => {
+  process.env.CREDITS_TREASURY_KEYPAIR = JSON.stringify(Array.from(treasury.secretKey))
+  vi.mocked(getConnection).mockReturnValue({ getParsedTransaction } as unknown as ReturnType<typeof getConnection>)
+})
+
+afterAll(() => {
+  process.env.CREDITS_TREASURY_KEYPAIR = originalTreasury
+})
+
+function signedAuthorization(overrides: Partial<CreditAuthorization> = {}): CreditAuthorization {
+  const auth = {
+    wallet: PAYER_WALLET,
+    slug: 'weather',
+    max_amount: '0.10',
+    nonce: 'nonce-1234567890abcdef',
+    timestamp: Date.now(),
+    ...overrides,
+  }
+  const message = generateCreditAuthorizationMessage({
+    wallet: auth.wallet,
+    slug: auth.slug,
+    maxAmount: auth.max_amount,
+    nonce: auth.nonce,
+    timestamp: auth.timestamp,
+  })
+  const signature = bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), payer.secretKey))
+  return { ...auth, signature, ...(overrides.signature ? { signature: overrides.signature } : {}) }
+}
+
+/**
+ * USDC transfer of `atomic` from `from` to the credits treasury
+ */
+function depositTransaction(atomic: number, from = PAYER_WALLET, blockTime = Math.floor(Date.now() / 1000)): ParsedTransactionWithMeta {
+  const mint = getUsdcMint().toBase58()
+  const balance = (owner: string, amount: number) => ({ owner, mint, uiTokenAmount: { amount: String(amount) } })
+  return {
+    blockTime,
+    transaction: { message: { accountKeys: [] } },
+    meta: {
+      err: null,
+      preTokenBalances: [balance(from, 10_000_000), balance(TREASURY_WALLET, 0)],
+      postTokenBalances: [balance(from, 10_000_000 - atomic), balance(TREASURY_WALLET, atomic)],
+    },
+  } as unknown as ParsedTransactionWithMeta
+}
+
+function settlement(overrides: Partial<CreditSettlementData> = {}): CreditSettlementData {
+  return {
+    id: 'settlement-1',
+    run_id: 'run-1',
+    blink_id: 'blink-1',
+    creator_id: 'creator-1',
+    wallet: Keypair.generate().publicKey.toBase58(),
+    amount_usdc: '0.050000',
+    status: 'pending',
+    signature: null,
+    attempts: 0,
+    reference: 'credits-nonce-1234567890abcdef',
+    blink_slug: 'weather',
+    last_valid_block_height: null,
+    ...overrides,
+  } as CreditSettlementData
+}
+
+describe('credit authorizations', () => {
+  it('decodes the X-Credit-Authorization header', () => {
+    const auth = signedAuthorization()
+    const header = Buffer.from(JSON.stringify(auth)).toString('base64')
+
+    expect(parseCreditAuthorization(header)).toEqual(auth)
+    expect(parseCreditAuthorization(Buffer.from('{"wallet":1}').toString('base64'))).toBeNull()
+    expect(parseCreditAuthorization('not json')).toBeNull()
+    expect(parseCreditAuthorization(undefined)).toBeNull()
+  })
+
+  it('accepts an authorization signed by the wallet for this blink', () => {
+    expect(verifyCreditAuthorization(signedAuthorization(), { slug: 'weather' })).toBeNull()
+  })
+
+  it('rejects another blink, expired timestamps and signatures that do not match', () => {
+    expect(verifyCreditAuthorization(signedAuthorization(), { slug: 'other' })).toBe('Authorization was signed for a different blink')
+    expect(verifyCreditAuthorization(signedAuthorization({ timestamp: Date.now() - 6 * 60 * 1000 }), { slug: 'weather' }))
+      .toBe('Authorization expired (5 minute limit) - sign a new one')
+    expect(verifyCreditAuthorization({ ...signedAuthorization(), max_amount: '5.00' }, { slug: 'weather' }))
+      .toBe('Invalid authorization signature')
+  })
+
+  it('caps the call price at max_amount', () => {
+    const auth = signedAuthorization({ max_amount: '0.10' })
+
+    expect(checkCreditMaxAmount(auth, '0.10')).toBeNull()
+    expect(checkCreditMaxAmount(auth, '0.11')).toBe('Call costs 0.11 USDC, more than the authorized 0.10 USDC')
+  })
+})
+
+describe('verifyCreditDeposit', () => {
+  beforeEach(() => {
+    getParsedTransaction.mockReset()
+  })
+
+  it('returns the USDC amount the wallet sent to the treasury', async () => {
+    getParsedTransaction.mockResolvedValue(depositTransaction(2_500_000))
+
+    expect(await verifyCreditDeposit({ wallet: PAYER_WALLET, signature: 'sig-1' })).toBe('2.5')
+  })
+
+  it('rejects transfers sent by another wallet', async () => {
+    getParsedTransaction.mockResolvedValue(depositTransaction(2_500_000, Keypair.generate().publicKey.toBase58()))
+
+    await expect(verifyCreditDeposit({ wallet: PAYER_WALLET, signature: 'sig-1' })).rejects.toThrow('USDC was not sent from this wallet')
+  })
+
+  it('rejects transfers that do not reach the treasury', async () => {
+    const tx = depositTransaction(2_500_000)
+    tx.meta!.postTokenBalances = tx.meta!.postTokenBalances!.filter((balance) => balance.owner !== TREASURY_WALLET)
+    tx.meta!.preTokenBalances = tx.meta!.preTokenBalances!.filter((balance) => balance.owner !== TREASURY_WALLET)
+    getParsedTransaction.mockResolvedValue(tx)
+
+    await expect(verifyCreditDeposit({ wallet: PAYER_WALLET, signature: 'sig-1' })).rejects.toThrow(`Transaction does not transfer USDC to ${TREASURY_WALLET}`)
+  })
+
+  it('rejects missing, failed and stale transactions', async () => {
+    getParsedTransaction.mockResolvedValueOnce(null)
+    await expect(verifyCreditDeposit({ wallet: PAYER_WALLET, signature: 'sig-1' })).rejects.toThrow('Transaction not found')
+
+    getParsedTransaction.mockResolvedValueOnce({ ...depositTransaction(1), meta: { err: { InstructionError: [0, 'Custom'] } } })
+    await expect(verifyCreditDeposit({ wallet: PAYER_WALLET, signature: 'sig-1' })).rejects.toThrow('Transaction failed on-chain')
+
+    getParsedTransaction.mockResolvedValueOnce(depositTransaction(1, PAYER_WALLET, Math.floor(Date.now() / 1000) - 25 * 60 * 60))
+    await expect(verifyCreditDeposit({ wallet: PAYER_WALLET, signature: 'sig-1' })).rejects.toThrow('within 24 hours')
+  })
+})
+
+describe('settleSendingCreditWithdrawal', () => {
+  const withdrawal = { id: 'withdrawal-1', wallet: PAYER_WALLET, amount: '1.000000', signature: 'sig-w', last_valid_block_height: '1000' }
+
+  beforeEach(() => {
+    vi.mocked(getTransferStatus).mockReset()
+    vi.mocked(completeCreditWithdrawal).mockReset()
+    vi.mocked(failCreditWithdrawal).mockReset()
+  })
+
+  it('completes withdrawals whose transfer landed', async () => {
+    vi.mocked(getTransferStatus).mockResolvedValue('confirmed')
+
+    await settleSendingCreditWithdrawal(withdrawal, log)
+
+    expect(completeCreditWithdrawal).toHaveBeenCalledWith({ id: 'withdrawal-1', signature: 'sig-w', fromWallet: TREASURY_WALLET })
+    expect(failCreditWithdrawal).not.toHaveBeenCalled()
+  })
+
+  it('puts the amount back once the transfer expired', async () => {
+    vi.mocked(getTransferStatus).mockResolvedValue('expired')
+
+    await settleSendingCreditWithdrawal(withdrawal, log)
+
+    expect(failCreditWithdrawal).toHaveBeenCalledWith({ id: 'withdrawal-1', error: 'Withdrawal transfer expired on-chain' })
+  })
+
+  it('waits while the transfer can still land', async () => {
+    vi.mocked(getTransferStatus).mockResolvedValue('pending')
+
+    await settleSendingCreditWithdrawal(withdrawal, log)
+
+    expect(completeCreditWithdrawal).not.toHaveBeenCalled()
+    expect(failCreditWithdrawal).not.toHaveBeenCalled()
+  })
+})
+
+describe('credit settlements', () => {
+  beforeEach(() => {
+    vi.mocked(buildRefundTransaction).mockReset().mockResolvedValue({} as Awaited<ReturnType<typeof buildRefundTransaction>>)
+    vi.mocked(executeRefund).mockReset()
+    vi.mocked(getTransferStatus).mockReset()
+    vi.mocked(markCreditSettlementSending).mockReset()
+    vi.mocked(completeCreditSettlement).mockReset()
+    vi.mocked(failCreditSettlement).mockReset()
+  })
+
+  it('pays the creator from the credits treasury and records the signature at broadcast', async () => {
+    vi.mocked(executeRefund).mockImplementation(async ({ onBroadcast }) => {
+      await onBroadcast!({ signature: 'sig-s', lastValidBlockHeight: 1000 })
+      return 'sig-s'
+    })
+    const pending = settlement()
+
+    expect(await sendCreditSettlement(pending, log)).toBe(true)
+    expect(vi.mocked(buildRefundTransaction).mock.calls[0][0].amount).toBe(50_000n)
+    expect(vi.mocked(buildRefundTransaction).mock.calls[0][0].platformWallet.toBase58()).toBe(TREASURY_WALLET)
+    expect(markCreditSettlementSending).toHaveBeenCalledWith({ id: 'settlement-1', signature: 'sig-s', lastValidBlockHeight: 1000 })
+    expect(completeCreditSettlement).toHaveBeenCalledWith({ id: 'settlement-1', signature: 'sig-s', fromWallet: TREASURY_WALLET })
+  })
+
+  it('never retries a settlement whose transfer was broadcast', async () => {
+    vi.mocked(executeRefund).mockImplementation(async ({ onBroadcast }) => {
+      await onBroadcast!({ signature: 'sig-s', lastValidBlockHeight: 1000 })
+      throw new Error('block height exceeded')
+    })
+
+    expect(await sendCreditSettlement(settlement(), log)).toBe(false)
+    expect(failCreditSettlement).not.toHaveBeenCalled()
+  })
+
+  it('schedules a retry when the transfer could not be sent', async () => {
+    vi.mocked(executeRefund).mockRejectedValue(new Error('insufficient funds'))
+
+    expect(await sendCreditSettlement(settlement(), log)).toBe(false)
+    expect(failCreditSettlement).toHaveBeenCalledWith({ id: 'settlement-1', error: 'insufficient funds' })
+  })
+
+  it('completes a sending settlement that landed on-chain', async () => {
+    vi.mocked(getTransferStatus).mockResolvedValue('confirmed')
+
+    expect(await settleSendingCreditSettlement(settlement({ status: 'sending', signature: 'sig-s', last_valid_block_height: '1000' }), log)).toBe(true)
+    expect(completeCreditSettlement).toHaveBeenCalledWith({ id: 'settlement-1', signature: 'sig-s', fromWallet: TREASURY_WALLET })
+  })
+
+  it('schedules a retry once a sending settlement failed on-chain', async () => {
+    vi.mocked(getTransferStatus).mockResolvedValue('failed')
+
+    expect(await settleSendingCreditSettlement(settlement({ status: 'sending', signature: 'sig-s', last_valid_block_height: '1000' }), log)).toBe(false)
+    expect(failCreditSettlement).toHaveBeenCalledWith({ id: 'settlement-1', error: 'Settlement transfer failed on-chain' })
+    expect(completeCreditSettlement).not.toHaveBeenCalled()
+  })
+
+  it('leaves sending settlements without a signature for manual handling', async () => {
+    expect(await settleSendingCreditSettlement(settlement({ status: 'sending' }), log)).toBe(false)
+    expect(getTransferStatus).not.toHaveBeenCalled()
+  })
+})
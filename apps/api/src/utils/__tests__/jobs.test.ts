@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { getNextJobAttempt, DEFAULT_JOB_MAX_ATTEMPTS } from '../jobs.js'
+
+const now = Date.parse('2026-10-01T00:00:00Z')
+
+function delayAfter(attempts: number, maxAttempts = 20): number | null {
+  const next = getNextJobAttempt(attempts, maxAttempts, now)
+  return next ? next.getTime() - now : null
+}
+
+describe('getNextJobAttempt', () => {
+  it('doubles the delay after each failed attempt, starting at 15 seconds', () => {
+    expect(delayAfter(1)).toBe(15 * 1000)
+    expect(delayAfter(2)).toBe(30 * 1000)
+    expect(delayAfter(3)).toBe(60 * 1000)
+    expect(delayAfter(4)).toBe(2 * 60 * 1000)
+  })
+
+  it('caps the delay at 30 minutes', () => {
+    expect(delayAfter(8)).toBe(30 * 60 * 1000)
+    expect(delayAfter(15)).toBe(30 * 60 * 1000)
+  })
+
+  it('dead-letters the job once max attempts are used', () => {
+    expect(delayAfter(DEFAULT_JOB_MAX_ATTEMPTS - 1, DEFAULT_JOB_MAX_ATTEMPTS)).not.toBeNull()
+    expect(delayAfter(DEFAULT_JOB_MAX_ATTEMPTS, DEFAULT_JOB_MAX_ATTEMPTS)).toBeNull()
+    expect(delayAfter(DEFAULT_JOB_MAX_ATTEMPTS + 1, DEFAULT_JOB_MAX_ATTEMPTS)).toBeNull()
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import type { LotteryEntry } from '@blink402/types'
+import { selectWinners, computeDrawSeed, hashServerSeed } from '../lottery-fairness.js'
+
+function entry(id: number, wallet: string): LotteryEntry {
+  return {
+    id: `entry-${id}`,
+    round_id: 'round-1',
+    run_id: `run-${id}`,
+    payer_wallet: wallet,
+    entry_fee_usdc: '1.00',
+    entry_timestamp: new Date('2026-10-01T00:00:00Z'),
+  }
+}
+
+const entries = Array.from({ length: 12 }, (_, i) => entry(i, `Wallet${i % 6}`))
+const drawSeed = computeDrawSeed('a'.repeat(64), '4uQeVj5tqViQh7yWWGStvkEG1Zmhx6uasJtWCJziofM')
+
+describe('selectWinners', () => {
+  it('is deterministic for a seed and entry order', () => {
+    expect(selectWinners(entries, 3, drawSeed)).toEqual(selectWinners(entries, 3, drawSeed))
+  })
+
+  it('depends on the draw seed', () => {
+    const otherSeed = computeDrawSeed('b'.repeat(64), '4uQeVj5tqViQh7yWWGStvkEG1Zmhx6uasJtWCJziofM')
+    const draws = [drawSeed, otherSeed].map((seed) => selectWinners(entries, 6, seed).map((e) => e.id))
+    expect(draws[0]).not.toEqual(draws[1])
+  })
+
+  it('gives each wallet at most one prize', () => {
+    const winners = selectWinners(entries, 6, drawSeed)
+    expect(winners).toHaveLength(6)
+    expect(new Set(winners.map((w) => w.payer_wallet)).size).toBe(6)
+  })
+
+  it('returns fewer winners than requested when there are fewer distinct wallets', () => {
+    expect(selectWinners(entries, 10, drawSeed)).toHaveLength(6)
+    expect(selectWinners([], 3, drawSeed)).toEqual([])
+  })
+
+  it('does not reorder the entries it was given', () => {
+    const ids = entries.map((e) => e.id)
+    selectWinners(entries, 3, drawSeed)
+    expect(entries.map((e) => e.id)).toEqual(ids)
+  })
+})
+
+describe('draw seed commitments', () => {
+  it('hashes the server seed with sha256', () => {
+    expect(hashServerSeed('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  })
+
+  it('mixes the server seed with the entropy blockhash', () => {
+    expect(computeDrawSeed('seed', 'hash1')).not.toBe(computeDrawSeed('seed', 'hash2'))
+    expect(computeDrawSeed('seed', 'hash1')).toMatch(/^[0-9a-f]{64}$/)
+  })
+})
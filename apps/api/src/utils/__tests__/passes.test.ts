@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
+import { Keypair, PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js'
+import nacl from 'tweetnacl'
+import bs58 from 'bs58'
+import type { PassAuthorization } from '@blink402/types'
+
+vi.mock('@blink402/solana', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/solana')>()),
+  getConnection: vi.fn(),
+  // The package's CommonJS build can pick up an ESM-only bs58 here - check signatures with the test's own copies
+  verifyMessageSignature: vi.fn((message: string, signature: string, wallet: string) => nacl.sign.detached.verify(
+    new TextEncoder().encode(message),
+    bs58.decode(signature),
+    new PublicKey(wallet).toBytes(),
+  )),
+}))
+
+import { consumeAccessPassCall } from '@blink402/database'
+import { getConnection, getUsdcMint, generatePassAuthorizationMessage } from '@blink402/solana'
+import {
+  validateAccessPassConfig,
+  describeAccessPass,
+  parsePassAuthorization,
+  verifyPassAuthorization,
+  verifyPassPurchase,
+} from '../passes.js'
+
+type PassClient = Parameters<typeof consumeAccessPassCall>[1]
+
+const holder = Keypair.generate()
+const HOLDER_WALLET = holder.publicKey.toBase58()
+const PAYOUT_WALLET = Keypair.generate().publicKey.toBase58()
+const getParsedTransaction = vi.fn()
+
+function signedAuthorization(overrides: Partial<PassAuthorization> = {}): PassAuthorization {
+  const auth = { wallet: HOLDER_WALLET, slug: 'weather', nonce: 'nonce-1234567890abcdef', timestamp: Date.now(), ...overrides }
+  const message = generatePassAuthorizationMessage(auth)
+  const signature = bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), holder.secretKey))
+  return { ...auth, signature }
+}
+
+/**
+ * USDC transfer of `atomic` from `from` to the blink's payout wallet
+ */
+function purchaseTransaction(atomic: number, from = HOLDER_WALLET): ParsedTransactionWithMeta {
+  const mint = getUsdcMint().toBase58()
+  const balance = (owner: string, amount: number) => ({ owner, mint, uiTokenAmount: { amount: String(amount) } })
+  return {
+    blockTime: Math.floor(Date.now() / 1000),
+    transaction: { message: { accountKeys: [] } },
+    meta: {
+      err: null,
+      preTokenBalances: [balance(from, 50_000_000), balance(PAYOUT_WALLET, 0)],
+      postTokenBalances: [balance(from, 50_000_000 - atomic), balance(PAYOUT_WALLET, atomic)],
+    },
+  } as unknown as ParsedTransactionWithMeta
+}
+
+describe('validateAccessPassConfig', () => {
+  it('accepts time-boxed, call-limited and subscription passes', () => {
+    expect(validateAccessPassConfig({ price_usdc: '1.00', duration_hours: 24 })).toBeNull()
+    expect(validateAccessPassConfig({ price_usdc: '5', duration_hours: 168, call_limit: 100 })).toBeNull()
+    expect(validateAccessPassConfig({ price_usdc: '9.99', duration_hours: 720, call_limit: null, subscription: true, label: 'Monthly' })).toBeNull()
+  })
+
+  it('rejects invalid prices, durations, limits and unknown fields', () => {
+    expect(validateAccessPassConfig(null)).toBe('access_pass must be an object')
+    expect(validateAccessPassConfig({ price_usdc: '0', duration_hours: 24 })).toContain('access_pass.price_usdc')
+    expect(validateAccessPassConfig({ price_usdc: '1', duration_hours: 1.5 })).toContain('access_pass.duration_hours')
+    expect(validateAccessPassConfig({ price_usdc: '1', duration_hours: 24, call_limit: 0 })).toContain('access_pass.call_limit')
+    expect(validateAccessPassConfig({ price_usdc: '1', duration_hours: 24, gallery: true })).toBe('access_pass.gallery is not supported')
+  })
+})
+
+describe('describeAccessPass', () => {
+  it('summarizes calls and duration unless the creator set a label', () => {
+    expect(describeAccessPass({ price_usdc: '1', duration_hours: 24 })).toBe('Unlimited calls for 1 day')
+    expect(describeAccessPass({ price_usdc: '5', duration_hours: 168, call_limit: 100 })).toBe('100 calls for 7 days')
+    expect(describeAccessPass({ price_usdc: '1', duration_hours: 6 })).toBe('Unlimited calls for 6 hours')
+    expect(describeAccessPass({ price_usdc: '9', duration_hours: 720, label: 'Monthly' })).toBe('Monthly')
+  })
+})
+
+describe('pass authorizations', () => {
+  it('decodes the X-Pass-Authorization header', () => {
+    const auth = signedAuthorization()
+
+    expect(parsePassAuthorization(Buffer.from(JSON.stringify(auth)).toString('base64'))).toEqual(auth)
+    expect(parsePassAuthorization(Buffer.from('{"wallet":"x"}').toString('base64'))).toBeNull()
+    expect(parsePassAuthorization(undefined)).toBeNull()
+  })
+
+  it('accepts an authorization signed by the pass holder for this blink', () => {
+    expect(verifyPassAuthorization(signedAuthorization(), { slug: 'weather' })).toBeNull()
+  })
+
+  it('rejects other blinks, expired timestamps and forged signatures', () => {
+    expect(verifyPassAuthorization(signedAuthorization(), { slug: 'other' })).toBe('Authorization was signed for a different blink')
+    expect(verifyPassAuthorization(signedAuthorization({ timestamp: Date.now() - 6 * 60 * 1000 }), { slug: 'weather' }))
+      .toBe('Authorization expired (5 minute limit) - sign a new one')
+    expect(verifyPassAuthorization({ ...signedAuthorization(), wallet: PAYOUT_WALLET }, { slug: 'weather' }))
+      .toBe('Invalid authorization signature')
+    expect(verifyPassAuthorization(signedAuthorization({ nonce: 'short' }), { slug: 'weather' })).toContain('nonce')
+  })
+})
+
+describe('verifyPassPurchase', () => {
+  beforeAll(() => {
+    vi.mocked(getConnection).mockReturnValue({ getParsedTransaction } as unknown as ReturnType<typeof getConnection>)
+  })
+
+  beforeEach(() => {
+    getParsedTransaction.mockReset()
+  })
+
+  function verify(price = '5.00') {
+    return verifyPassPurchase({ wallet: HOLDER_WALLET, payoutWallet: PAYOUT_WALLET, price, signature: 'sig-1' })
+  }
+
+  it('returns the amount the holder paid the creator', async () => {
+    getParsedTransaction.mockResolvedValue(purchaseTransaction(5_000_000))
+
+    expect(await verify()).toBe('5')
+  })
+
+  it('rejects transfers below the pass price', async () => {
+    getParsedTransaction.mockResolvedValue(purchaseTransaction(4_999_999))
+
+    await expect(verify()).rejects.toThrow(`Transaction does not transfer 5.00 USDC to ${PAYOUT_WALLET}`)
+  })
+
+  it('rejects transfers sent by another wallet', async () => {
+    getParsedTransaction.mockResolvedValue(purchaseTransaction(5_000_000, Keypair.generate().publicKey.toBase58()))
+
+    await expect(verify()).rejects.toThrow('USDC was not sent from this wallet')
+  })
+
+  it('rejects failed and stale transfers', async () => {
+    getParsedTransaction.mockResolvedValueOnce({ ...purchaseTransaction(5_000_000), meta: { err: { InstructionError: [0, 'Custom'] } } })
+    await expect(verify()).rejects.toThrow('Transaction failed on-chain')
+
+    getParsedTransaction.mockResolvedValueOnce({ ...purchaseTransaction(5_000_000), blockTime: Math.floor(Date.now() / 1000) - 25 * 60 * 60 })
+    await expect(verify()).rejects.toThrow('Passes must be claimed within 24 hours of the transfer')
+  })
+})
+
+describe('consumeAccessPassCall', () => {
+  it('counts the call against the pass that expires first', async () => {
+    const query = vi.fn<(sql: string, params?: unknown[]) => Promise<{ rows: unknown[] }>>(async (sql) => (
+      sql.includes('UPDATE access_passes') ? { rows: [{ id: 'pass-1' }] } : { rows: [] }
+    ))
+
+    await consumeAccessPassCall({ wallet: HOLDER_WALLET, blinkId: 'blink-1', runId: 'run-1' }, { query } as unknown as PassClient)
+
+    expect(query.mock.calls[0][0]).toContain('ORDER BY ap.expires_at ASC')
+    expect(query).toHaveBeenLastCalledWith(expect.stringContaining('INSERT INTO access_pass_uses'), ['run-1', 'pass-1'])
+  })
+
+  it('throws when the wallet has no usable pass', async () => {
+    const query = vi.fn(async () => ({ rows: [] }))
+
+    await expect(consumeAccessPassCall({ wallet: HOLDER_WALLET, blinkId: 'blink-1', runId: 'run-1' }, { query } as unknown as PassClient))
+      .rejects.toThrow('No active access pass for this blink - it expired or has no calls left')
+    expect(query).toHaveBeenCalledTimes(1)
+  })
+})
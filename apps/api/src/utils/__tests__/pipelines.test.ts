@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { BlinkData, PipelineConfig } from '@blink402/types'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  getBlinkBySlug: vi.fn(),
+  getBlinkCredential: vi.fn(async () => null),
+  getPipelineStepRuns: vi.fn(),
+  startPipelineStepRun: vi.fn(),
+  completePipelineStepRun: vi.fn(),
+}))
+vi.mock('../upstream-url.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../upstream-url.js')>()),
+  validateUpstreamUrl: vi.fn(async () => undefined),
+}))
+vi.mock('../endpoint-health.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../endpoint-health.js')>()),
+  updateCircuitBreaker: vi.fn(),
+}))
+
+import {
+  getBlinkBySlug,
+  getPipelineStepRuns,
+  startPipelineStepRun,
+  completePipelineStepRun,
+  type PipelineStepRunData,
+} from '@blink402/database'
+import {
+  validatePipelineConfig,
+  resolvePipelineStepInputs,
+  sumPipelineStepPrices,
+  executePipeline,
+} from '../pipelines.js'
+import { UpstreamHttpError } from '../upstream-response.js'
+
+const CREATOR = 'CreatorWa11et1111111111111111111111111111111'
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as unknown as Parameters<typeof executePipeline>[0]['log']
+const run = { id: 'run-1', reference: 'ref-1', signature: 'sig-1', payer: 'payer-1' }
+
+function stepBlink(slug: string, overrides: Partial<BlinkData> = {}): BlinkData {
+  return {
+    id: `${slug}-id`,
+    slug,
+    status: 'active',
+    price_usdc: '0.010000',
+    endpoint_url: `https://api.example.com/${slug}`,
+    method: 'POST',
+    payment_mode: 'charge',
+    parameters: [],
+    creator: { wallet: CREATOR },
+    ...overrides,
+  } as BlinkData
+}
+
+function useBlinks(...blinks: BlinkData[]) {
+  vi.mocked(getBlinkBySlug).mockImplementation(async (slug: string) => blinks.find((b) => b.slug === slug) || null)
+}
+
+function pipelineBlink(pipeline: PipelineConfig, overrides: Partial<BlinkData> = {}): BlinkData {
+  return stepBlink('pipeline', { pipeline, ...overrides })
+}
+
+describe('validatePipelineConfig', () => {
+  beforeEach(() => {
+    vi.mocked(getBlinkBySlug).mockReset()
+  })
+
+  it('accepts steps that are the creator\'s own active blinks', async () => {
+    useBlinks(stepBlink('geocode', { parameters: [{ name: 'city' }] as BlinkData['parameters'] }), stepBlink('weather'))
+
+    expect(await validatePipelineConfig({
+      steps: [
+        { slug: 'geocode', inputs: [{ param: 'city', from: '$.input.city' }] },
+        { slug: 'weather' },
+      ],
+    }, CREATOR)).toBeNull()
+  })
+
+  it('rejects too few steps, foreign blinks and nested pipelines', async () => {
+    useBlinks(
+      stepBlink('weather'),
+      stepBlink('foreign', { creator: { wallet: 'SomeoneElse' } as BlinkData['creator'] }),
+      pipelineBlink({ steps: [{ slug: 'a' }, { slug: 'b' }] }),
+    )
+
+    expect(await validatePipelineConfig({ steps: [{ slug: 'weather' }] }, CREATOR)).toBe('pipeline must have 2-5 steps')
+    expect(await validatePipelineConfig({ steps: [{ slug: 'weather' }, { slug: 'foreign' }] }, CREATOR))
+      .toMatch(/can only use your own blinks/)
+    expect(await validatePipelineConfig({ steps: [{ slug: 'weather' }, { slug: 'pipeline' }] }, CREATOR))
+      .toMatch(/pipelines cannot be nested/)
+    expect(await validatePipelineConfig({ steps: [{ slug: 'weather' }, { slug: 'missing' }] }, CREATOR))
+      .toBe('pipeline.steps[1]: blink "missing" not found')
+  })
+
+  it('only lets inputs reference earlier steps', async () => {
+    useBlinks(stepBlink('a'), stepBlink('b'))
+
+    expect(await validatePipelineConfig({ steps: [{ slug: 'a', inputs: [{ param: 'x', from: '$.prev.x' }] }, { slug: 'b' }] }, CREATOR))
+      .toBe('pipeline.steps[0].inputs[0].from: the first step has no previous step')
+    expect(await validatePipelineConfig({ steps: [{ slug: 'a' }, { slug: 'b', inputs: [{ param: 'x', from: '$.steps[1].x' }] }] }, CREATOR))
+      .toMatch(/must reference an earlier step/)
+    expect(await validatePipelineConfig({ steps: [{ slug: 'a' }, { slug: 'b', inputs: [{ param: 'x', from: '$.env.SECRET' }] }] }, CREATOR))
+      .toMatch(/must start with \$.input, \$.prev or \$.steps\[n\]/)
+  })
+
+  it('prices a new pipeline at the sum of its steps', async () => {
+    useBlinks(stepBlink('a', { price_usdc: '0.010000' }), stepBlink('b', { price_usdc: '0.025000' }))
+
+    expect(await sumPipelineStepPrices({ steps: [{ slug: 'a' }, { slug: 'b' }] })).toBe('0.035000')
+  })
+})
+
+describe('resolvePipelineStepInputs', () => {
+  const context = { input: { city: 'Paris' }, outputs: [{ lat: 48.8, lon: 2.3, name: 'Paris' }] }
+
+  it('passes the pipeline input to the first step and the previous output to later steps', () => {
+    expect(resolvePipelineStepInputs({ slug: 'a' }, 0, context)).toEqual({ city: 'Paris' })
+    expect(resolvePipelineStepInputs({ slug: 'b' }, 1, context)).toEqual({ lat: 48.8, lon: 2.3, name: 'Paris' })
+  })
+
+  it('maps values from the input and earlier outputs, falling back to literals', () => {
+    const inputs = resolvePipelineStepInputs({
+      slug: 'b',
+      inputs: [
+        { param: 'latitude', from: '$.prev.lat' },
+        { param: 'place', from: '$.input.city' },
+        { param: 'units', from: '$.input.units', value: 'metric' },
+      ],
+    }, 1, context)
+
+    expect(inputs).toEqual({ latitude: 48.8, place: 'Paris', units: 'metric' })
+  })
+})
+
+describe('executePipeline', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    vi.mocked(getBlinkBySlug).mockReset()
+    vi.mocked(getPipelineStepRuns).mockReset().mockResolvedValue([])
+    vi.mocked(startPipelineStepRun).mockReset().mockImplementation(async ({ stepIndex }) => `step-run-${stepIndex}`)
+    vi.mocked(completePipelineStepRun).mockReset()
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('feeds each step\'s output into the next and records every step', async () => {
+    useBlinks(stepBlink('geocode'), stepBlink('weather'))
+    fetchMock
+      .mockResolvedValueOnce(Response.json({ lat: 48.8, lon: 2.3 }))
+      .mockResolvedValueOnce(Response.json({ forecast: 'sunny' }))
+
+    const result = await executePipeline({
+      blink: pipelineBlink({ steps: [{ slug: 'geocode' }, { slug: 'weather' }] }),
+      run,
+      input: { city: 'Paris' },
+      log,
+    })
+
+    expect(result.output).toEqual({ forecast: 'sunny' })
+    expect(result.steps.map((step) => [step.slug, step.status])).toEqual([['geocode', 'executed'], ['weather', 'executed']])
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toMatchObject({ lat: 48.8, lon: 2.3, reference: 'ref-1' })
+    expect(completePipelineStepRun).toHaveBeenCalledWith(expect.objectContaining({ id: 'step-run-1', success: true, output: { forecast: 'sunny' } }))
+  })
+
+  it('reuses the output of steps that already succeeded for this run', async () => {
+    useBlinks(stepBlink('geocode'), stepBlink('weather'))
+    vi.mocked(getPipelineStepRuns).mockResolvedValue([
+      { step_index: 0, blink_id: 'geocode-id', status: 'executed', output: { lat: 1, lon: 2 }, duration_ms: 40 } as PipelineStepRunData,
+    ])
+    fetchMock.mockResolvedValueOnce(Response.json({ forecast: 'rain' }))
+
+    const result = await executePipeline({
+      blink: pipelineBlink({ steps: [{ slug: 'geocode' }, { slug: 'weather' }] }),
+      run,
+      input: {},
+      log,
+    })
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(result.steps[0]).toEqual({ slug: 'geocode', status: 'executed', duration_ms: 40, resumed: true })
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ lat: 1, lon: 2 })
+  })
+
+  it('names the failed step and keeps the upstream status', async () => {
+    useBlinks(stepBlink('geocode'), stepBlink('weather'))
+    fetchMock
+      .mockResolvedValueOnce(Response.json({ lat: 48.8 }))
+      .mockResolvedValueOnce(new Response('bad request', { status: 422 }))
+
+    const failure = executePipeline({
+      blink: pipelineBlink({ steps: [{ slug: 'geocode' }, { slug: 'weather' }] }),
+      run,
+      input: {},
+      log,
+    })
+
+    await expect(failure).rejects.toThrow('Pipeline step 2 (weather) failed: Upstream API returned 422')
+    await expect(failure).rejects.toMatchObject({ status: 422 })
+    await expect(failure).rejects.toBeInstanceOf(UpstreamHttpError)
+    expect(completePipelineStepRun).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'step-run-1', success: false }))
+  })
+
+  it('stops at a step that is no longer available', async () => {
+    useBlinks(stepBlink('geocode'), stepBlink('weather', { status: 'paused' } as Partial<BlinkData>))
+    fetchMock.mockResolvedValueOnce(Response.json({ lat: 48.8 }))
+
+    await expect(executePipeline({
+      blink: pipelineBlink({ steps: [{ slug: 'geocode' }, { slug: 'weather' }] }),
+      run,
+      input: {},
+      log,
+    })).rejects.toThrow('Pipeline step 2 (weather) is not available')
+  })
+})
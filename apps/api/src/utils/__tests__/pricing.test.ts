@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { BlinkPricingRules, Coupon } from '@blink402/types'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  countRecentPaidRuns: vi.fn(),
+  countWalletPaidRuns: vi.fn(),
+}))
+
+import { countRecentPaidRuns, countWalletPaidRuns } from '@blink402/database'
+import { quoteRunPrice } from '../pricing.js'
+
+const noon = new Date('2026-10-01T12:00:00Z')
+
+function blink(pricingRules?: BlinkPricingRules) {
+  return { id: 'blink-1', price_usdc: '0.1', pricing_rules: pricingRules }
+}
+
+describe('quoteRunPrice', () => {
+  beforeEach(() => {
+    vi.mocked(countRecentPaidRuns).mockReset()
+    vi.mocked(countWalletPaidRuns).mockReset()
+  })
+
+  it('quotes price_usdc for blinks without rules', async () => {
+    const quote = await quoteRunPrice({ blink: blink(), inputs: { prompt: 'hi' }, wallet: 'Wallet1', now: noon })
+
+    expect(quote).toEqual({
+      price_usdc: '0.1',
+      base_price_usdc: '0.1',
+      adjustments: [],
+      wallet: 'Wallet1',
+      quoted_at: noon.toISOString(),
+    })
+  })
+
+  it('adds option prices and input size tiers', async () => {
+    const quote = await quoteRunPrice({
+      blink: blink({
+        options: [{ parameter: 'model', prices: { 'gpt-4': '0.05', mini: '0' } }],
+        input_size: [{
+          parameter: 'prompt',
+          unit: 'words',
+          tiers: [{ up_to: 3, price: '0' }, { up_to: null, price: '0.1' }],
+        }],
+      }),
+      inputs: { model: 'gpt-4', prompt: 'one two three four' },
+      now: noon,
+    })
+
+    expect(quote.price_usdc).toBe('0.25')
+    expect(quote.adjustments).toEqual([
+      { rule: 'option', detail: 'model = gpt-4', amount: '0.05' },
+      { rule: 'input_size', detail: 'prompt: 4 words', amount: '0.1' },
+    ])
+  })
+
+  it('applies time-of-day windows that wrap past midnight', async () => {
+    const rules: BlinkPricingRules = { time_of_day: [{ start_hour: 22, end_hour: 6, multiplier: 2 }] }
+
+    const night = await quoteRunPrice({ blink: blink(rules), now: new Date('2026-10-01T23:30:00Z') })
+    expect(night.price_usdc).toBe('0.2')
+    expect(night.adjustments).toEqual([{ rule: 'time_of_day', detail: '22:00-06:00 UTC', multiplier: 2 }])
+
+    const day = await quoteRunPrice({ blink: blink(rules), now: noon })
+    expect(day.price_usdc).toBe('0.1')
+    expect(day.adjustments).toEqual([])
+  })
+
+  it('applies the highest surge step and the wallet volume discount', async () => {
+    vi.mocked(countRecentPaidRuns).mockResolvedValue(12)
+    vi.mocked(countWalletPaidRuns).mockResolvedValue(5)
+
+    const quote = await quoteRunPrice({
+      blink: blink({
+        surge: { window_minutes: 10, steps: [{ min_runs: 5, multiplier: 1.5 }, { min_runs: 10, multiplier: 2 }] },
+        volume_discount: { window_days: 30, tiers: [{ min_runs: 3, percent_off: 10 }, { min_runs: 20, percent_off: 25 }] },
+      }),
+      wallet: 'Wallet1',
+      now: noon,
+    })
+
+    expect(countRecentPaidRuns).toHaveBeenCalledWith('blink-1', 10)
+    expect(countWalletPaidRuns).toHaveBeenCalledWith({ blinkId: 'blink-1', wallet: 'Wallet1', windowDays: 30 })
+    expect(quote.price_usdc).toBe('0.18')
+    expect(quote.adjustments).toEqual([
+      { rule: 'surge', detail: '12 runs in the last 10 minutes', multiplier: 2 },
+      { rule: 'volume_discount', detail: '5 runs in the last 30 days', percent_off: 10 },
+    ])
+  })
+
+  it('skips the volume discount when the payer is unknown', async () => {
+    const quote = await quoteRunPrice({
+      blink: blink({ volume_discount: { window_days: 30, tiers: [{ min_runs: 1, percent_off: 50 }] } }),
+      wallet: null,
+      now: noon,
+    })
+
+    expect(countWalletPaidRuns).not.toHaveBeenCalled()
+    expect(quote.price_usdc).toBe('0.1')
+  })
+
+  it('applies the coupon after the pricing rules', async () => {
+    const coupon = {
+      id: 'coupon-1',
+      code: 'HALF',
+      discount_type: 'percent',
+      discount_value: '50',
+    } as Coupon
+
+    const quote = await quoteRunPrice({
+      blink: blink({ options: [{ parameter: 'model', prices: { 'gpt-4': '0.1' } }] }),
+      inputs: { model: 'gpt-4' },
+      coupon,
+      now: noon,
+    })
+
+    expect(quote.price_usdc).toBe('0.1')
+    expect(quote.coupon).toEqual({ id: 'coupon-1', code: 'HALF', discount_usdc: '0.1' })
+    expect(quote.adjustments.map((a) => a.rule)).toEqual(['option', 'coupon'])
+  })
+})
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  markRefundIssued: vi.fn(),
+  cancelRunRevenueSplits: vi.fn(),
+  createCreatorDebt: vi.fn(),
+}))
+vi.mock('@blink402/solana', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/solana')>()),
+  getConnection: vi.fn(),
+  getTransferStatus: vi.fn(),
+}))
+
+import {
+  getPool,
+  closePool,
+  markRefundFailed,
+  markRefundIssued,
+  cancelRunRevenueSplits,
+  createCreatorDebt,
+  MAX_REFUND_ATTEMPTS,
+  type RefundRetryData,
+} from '@blink402/database'
+import { getTransferStatus } from '@blink402/solana'
+import { calculateRefundAmount, settleSendingRefund } from '../refunds.js'
+import { UpstreamHttpError, isRefundableUpstreamError } from '../upstream-response.js'
+
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Parameters<typeof settleSendingRefund>[0]['log']
+
+describe('calculateRefundAmount', () => {
+  it('refunds the full amount by default', () => {
+    expect(calculateRefundAmount({ refund_policy: undefined, refund_percent: undefined }, 0.25, 'USDC')).toBe('0.250000')
+    expect(calculateRefundAmount({ refund_policy: 'full', refund_percent: 10 }, 0.25, 'USDC')).toBe('0.250000')
+  })
+
+  it('refunds nothing under the none policy', () => {
+    expect(calculateRefundAmount({ refund_policy: 'none', refund_percent: undefined }, 1, 'USDC')).toBeNull()
+  })
+
+  it('applies the partial percentage, rounding down to the token decimals', () => {
+    expect(calculateRefundAmount({ refund_policy: 'partial', refund_percent: 50 }, 0.333333, 'USDC')).toBe('0.166666')
+    expect(calculateRefundAmount({ refund_policy: 'partial', refund_percent: 50 }, 0.000000003, 'SOL')).toBe('0.000000001')
+  })
+
+  it('clamps the partial percentage to 0-100', () => {
+    expect(calculateRefundAmount({ refund_policy: 'partial', refund_percent: 150 }, 2, 'USDC')).toBe('2.000000')
+    expect(calculateRefundAmount({ refund_policy: 'partial', refund_percent: -5 }, 2, 'USDC')).toBeNull()
+  })
+
+  it('refunds nothing when nothing was paid or the refund rounds to zero', () => {
+    expect(calculateRefundAmount({ refund_policy: 'full', refund_percent: undefined }, 0, 'USDC')).toBeNull()
+    expect(calculateRefundAmount({ refund_policy: 'full', refund_percent: undefined }, NaN, 'USDC')).toBeNull()
+    expect(calculateRefundAmount({ refund_policy: 'partial', refund_percent: 1 }, 0.00001, 'USDC')).toBeNull()
+  })
+})
+
+describe('isRefundableUpstreamError', () => {
+  it('refunds upstream 5xx responses', () => {
+    expect(isRefundableUpstreamError(new UpstreamHttpError(500))).toBe(true)
+    expect(isRefundableUpstreamError(new UpstreamHttpError(503, 'Pipeline step 1 (a) failed: Upstream API returned 503'))).toBe(true)
+  })
+
+  it('does not refund upstream 4xx responses', () => {
+    expect(isRefundableUpstreamError(new UpstreamHttpError(400))).toBe(false)
+    expect(isRefundableUpstreamError(new UpstreamHttpError(404))).toBe(false)
+  })
+
+  it('refunds timeouts and network errors', () => {
+    expect(isRefundableUpstreamError(Object.assign(new Error('aborted'), { name: 'AbortError' }))).toBe(true)
+    expect(isRefundableUpstreamError(new TypeError('fetch failed'))).toBe(true)
+  })
+})
+
+describe('markRefundFailed retry backoff', () => {
+  // Capture the SQL instead of connecting (the pool only connects on its first query)
+  const query = vi.spyOn(getPool(), 'query') as unknown as ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    query.mockReset()
+  })
+
+  afterAll(async () => {
+    query.mockRestore()
+    await closePool()
+  })
+
+  it('doubles the retry delay per attempt and stops scheduling at MAX_REFUND_ATTEMPTS', async () => {
+    query.mockResolvedValue({ rows: [{ id: 'refund-1', attempts: 1, next_retry_at: new Date() }] })
+
+    await markRefundFailed({ refundId: 'refund-1', error: 'Transfer failed' })
+
+    const [sql, params] = query.mock.calls[0]
+    expect(sql).toMatch(/WHEN attempts \+ 1 < \$3 THEN NOW\(\) \+ INTERVAL '1 minute' \* POWER\(2, attempts\)\s+ELSE NULL/)
+    expect(params).toEqual(['Transfer failed', 'refund-1', MAX_REFUND_ATTEMPTS])
+  })
+
+  it('never reschedules an issued refund', async () => {
+    query.mockResolvedValue({ rows: [] })
+
+    await expect(markRefundFailed({ refundId: 'refund-2', error: 'Transfer failed' }))
+      .rejects.toThrow('Refund refund-2 not found')
+    expect(query.mock.calls[0][0]).toContain("status <> 'issued'")
+  })
+})
+
+describe('settleSendingRefund', () => {
+  function sendingRefund(overrides: Partial<RefundRetryData> = {}): RefundRetryData {
+    return {
+      id: 'refund-3',
+      run_id: 'run-3',
+      amount: '0.05',
+      payment_token: 'SOL',
+      payer_wallet: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      refund_signature: 'sig-3',
+      status: 'sending',
+      last_valid_block_height: '1000',
+      reason: null,
+      creator_debt_id: null,
+      attempts: 0,
+      next_retry_at: null,
+      last_error: null,
+      created_at: new Date('2026-10-01T00:00:00Z'),
+      processed_at: null,
+      reference: 'ref-3',
+      run_signature: 'payment-sig-3',
+      blink_id: 'blink-3',
+      blink_slug: 'sol-blink',
+      creator_id: 'creator-3',
+      ...overrides,
+    }
+  }
+
+  beforeEach(() => {
+    vi.mocked(getTransferStatus).mockReset()
+    vi.mocked(markRefundIssued).mockReset()
+    vi.mocked(cancelRunRevenueSplits).mockReset()
+    vi.mocked(createCreatorDebt).mockReset()
+  })
+
+  it('records the creator debt of a landed SOL refund in SOL', async () => {
+    const refund = sendingRefund()
+    vi.mocked(getTransferStatus).mockResolvedValue('confirmed')
+    vi.mocked(markRefundIssued).mockResolvedValue({ ...refund, status: 'issued' })
+    vi.mocked(cancelRunRevenueSplits).mockResolvedValue(false)
+
+    await settleSendingRefund({ refund, log })
+
+    expect(markRefundIssued).toHaveBeenCalledWith({ refundId: 'refund-3', signature: 'sig-3' })
+    expect(createCreatorDebt).toHaveBeenCalledWith({
+      creatorId: 'creator-3',
+      blinkId: 'blink-3',
+      refundId: 'refund-3',
+      amount: '0.05',
+      token: 'SOL',
+    })
+  })
+
+  it('does not record a second debt for an already settled refund', async () => {
+    const refund = sendingRefund({ payment_token: 'USDC' })
+    vi.mocked(getTransferStatus).mockResolvedValue('confirmed')
+    vi.mocked(markRefundIssued).mockResolvedValue({ ...refund, status: 'issued', creator_debt_id: 'debt-1' })
+    vi.mocked(cancelRunRevenueSplits).mockResolvedValue(false)
+
+    await settleSendingRefund({ refund, log })
+
+    expect(createCreatorDebt).not.toHaveBeenCalled()
+  })
+
+  it('leaves transfers that can still land for the next check', async () => {
+    vi.mocked(getTransferStatus).mockResolvedValue('pending')
+
+    await settleSendingRefund({ refund: sendingRefund(), log })
+
+    expect(markRefundIssued).not.toHaveBeenCalled()
+    expect(createCreatorDebt).not.toHaveBeenCalled()
+  })
+})
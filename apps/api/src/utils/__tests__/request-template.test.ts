@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import type { RequestTemplate } from '@blink402/types'
+import { buildTemplatedRequest } from '../request-template.js'
+
+const system = { reference: 'ref-123', payer: 'PayerWallet111', signature: 'sig-456' }
+
+describe('buildTemplatedRequest', () => {
+  it('maps inputs into the path, query, headers and body', () => {
+    const template: RequestTemplate = {
+      fields: [
+        { param: 'user', in: 'path' },
+        { param: 'limit', in: 'query', type: 'integer' },
+        { param: 'lang', in: 'header', name: 'Accept-Language' },
+        { param: 'verbose', in: 'body', name: 'options.verbose', type: 'boolean' },
+        { param: '$reference', in: 'body', name: 'reference' },
+      ],
+      static_query: { version: '2' },
+      static_headers: { 'X-Client': 'blink402' },
+      static_body: { options: { format: 'json' } },
+    }
+
+    const request = buildTemplatedRequest({
+      url: 'https://api.example.com/users/{user}/posts',
+      method: 'POST',
+      template,
+      inputs: { user: 'a b', limit: '10', lang: 'en', verbose: 'yes' },
+      system,
+    })
+
+    expect(request.url).toBe('https://api.example.com/users/a%20b/posts?version=2&limit=10')
+    expect(request.headers).toEqual({ 'X-Client': 'blink402', 'Accept-Language': 'en' })
+    expect(request.contentType).toBe('application/json')
+    expect(JSON.parse(request.body!)).toEqual({
+      options: { format: 'json', verbose: true },
+      reference: 'ref-123',
+    })
+  })
+
+  it('sends no body for GET requests', () => {
+    const request = buildTemplatedRequest({
+      url: 'https://api.example.com/search?sort=new#top',
+      method: 'GET',
+      template: { fields: [{ param: 'q', in: 'query' }, { param: 'page', in: 'body' }] },
+      inputs: { q: 'sol', page: '2' },
+      system,
+    })
+
+    expect(request.url).toBe('https://api.example.com/search?sort=new&q=sol#top')
+    expect(request.body).toBeUndefined()
+  })
+
+  it('encodes form bodies', () => {
+    const request = buildTemplatedRequest({
+      url: 'https://api.example.com/submit',
+      method: 'POST',
+      template: {
+        fields: [{ param: 'tags', in: 'body', type: 'json' }, { param: '$payer', in: 'body', name: 'payer' }],
+        body_format: 'form',
+      },
+      inputs: { tags: '["a","b"]' },
+      system,
+    })
+
+    expect(request.contentType).toBe('application/x-www-form-urlencoded')
+    expect(new URLSearchParams(request.body).get('tags')).toBe('["a","b"]')
+    expect(new URLSearchParams(request.body).get('payer')).toBe('PayerWallet111')
+  })
+
+  it('falls back to defaults and skips optional fields without a value', () => {
+    const request = buildTemplatedRequest({
+      url: 'https://api.example.com/items',
+      method: 'POST',
+      template: {
+        fields: [
+          { param: 'size', in: 'query', default: 'small' },
+          { param: 'color', in: 'query' },
+        ],
+      },
+      inputs: { size: '' },
+      system,
+    })
+
+    expect(request.url).toBe('https://api.example.com/items?size=small')
+  })
+
+  it('rejects missing required values and unfilled path segments', () => {
+    expect(() => buildTemplatedRequest({
+      url: 'https://api.example.com/items',
+      method: 'POST',
+      template: { fields: [{ param: 'id', in: 'body', required: true }] },
+      inputs: {},
+      system,
+    })).toThrow('Missing required parameter "id"')
+
+    expect(() => buildTemplatedRequest({
+      url: 'https://api.example.com/items/{id}',
+      method: 'GET',
+      template: { fields: [{ param: 'id', in: 'path' }] },
+      inputs: {},
+      system,
+    })).toThrow('Missing required parameter "id"')
+  })
+
+  it('rejects values that fail coercion', () => {
+    expect(() => buildTemplatedRequest({
+      url: 'https://api.example.com/items',
+      method: 'POST',
+      template: { fields: [{ param: 'enabled', in: 'body', type: 'boolean' }] },
+      inputs: { enabled: 'maybe' },
+      system,
+    })).toThrow('Parameter "enabled" must be true or false')
+  })
+
+  it('rejects header values with line breaks', () => {
+    expect(() => buildTemplatedRequest({
+      url: 'https://api.example.com/items',
+      method: 'GET',
+      template: { fields: [{ param: 'lang', in: 'header', name: 'Accept-Language' }] },
+      inputs: { lang: 'en\r\nX-Injected: 1' },
+      system,
+    })).toThrow('Parameter "lang" cannot contain line breaks')
+  })
+
+  it('rejects body paths that reach Object.prototype', () => {
+    expect(() => buildTemplatedRequest({
+      url: 'https://api.example.com/items',
+      method: 'POST',
+      template: { fields: [{ param: 'x', in: 'body', name: '__proto__.polluted' }] },
+      inputs: { x: 'yes' },
+      system,
+    })).toThrow('Body field "__proto__.polluted" is not allowed')
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+})
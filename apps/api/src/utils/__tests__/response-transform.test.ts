@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { applyResponseTransform } from '../response-transform.js'
+
+const upstream = {
+  data: {
+    results: [
+      { id: 1, title: 'First', author: { name: 'Ana', email: 'ana@example.com' } },
+      { id: 2, title: 'Second', author: { name: 'Ben', email: 'ben@example.com' } },
+    ],
+  },
+  meta: { api_key: 'secret', page: 1 },
+}
+
+describe('applyResponseTransform', () => {
+  it('returns the response unchanged without extract, fields or redact', () => {
+    expect(applyResponseTransform(upstream, {})).toEqual(upstream)
+  })
+
+  it('extracts part of the response', () => {
+    expect(applyResponseTransform(upstream, { extract: '$.data.results[1].title' })).toBe('Second')
+    expect(applyResponseTransform(upstream, { extract: '$.data.results[*].id' })).toEqual([1, 2])
+  })
+
+  it('returns null when the extract path finds nothing', () => {
+    expect(applyResponseTransform(upstream, { extract: '$.data.missing' })).toBeNull()
+  })
+
+  it('picks and renames fields per element of an extracted array', () => {
+    const result = applyResponseTransform(upstream, {
+      extract: '$.data.results',
+      fields: [
+        { path: '$.title', as: 'headline' },
+        { path: '$.author.name', as: 'by' },
+        { path: '$.missing', as: 'skipped' },
+      ],
+    })
+
+    expect(result).toEqual([
+      { headline: 'First', by: 'Ana' },
+      { headline: 'Second', by: 'Ben' },
+    ])
+  })
+
+  it('redacts keys at any depth, case-insensitively', () => {
+    const result = applyResponseTransform(upstream, { redact: ['EMAIL', 'api_key'] })
+
+    expect(result).toEqual({
+      data: {
+        results: [
+          { id: 1, title: 'First', author: { name: 'Ana' } },
+          { id: 2, title: 'Second', author: { name: 'Ben' } },
+        ],
+      },
+      meta: { page: 1 },
+    })
+  })
+
+  it('never writes fields named after Object.prototype keys', () => {
+    const result = applyResponseTransform(upstream, {
+      fields: [
+        { path: '$.meta.page', as: 'page' },
+        { path: '$.meta', as: '__proto__' },
+      ],
+    }) as Record<string, unknown>
+
+    expect(result).toEqual({ page: 1 })
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+  })
+
+  it('does not follow inherited properties', () => {
+    expect(applyResponseTransform({ a: 1 }, { extract: '$.constructor' })).toBeNull()
+  })
+})
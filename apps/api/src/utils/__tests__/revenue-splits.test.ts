@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import type { BlinkRevenueSplits } from '@blink402/types'
+import { validateRevenueSplits, MAX_SPLIT_RECIPIENTS } from '../revenue-splits.js'
+
+const PAYOUT_WALLET = 'So11111111111111111111111111111111111111112'
+const WALLET_A = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+const WALLET_B = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB'
+
+function validate(splits: unknown): string | null {
+  return validateRevenueSplits(splits as BlinkRevenueSplits, PAYOUT_WALLET)
+}
+
+describe('validateRevenueSplits', () => {
+  it('accepts recipients and a platform fee that add up to at most 100%', () => {
+    expect(validate({
+      recipients: [{ wallet: WALLET_A, bps: 3000, label: 'Designer' }, { wallet: WALLET_B, bps: 6500 }],
+      platform_fee_bps: 500,
+    })).toBeNull()
+  })
+
+  it('rejects a missing or empty recipients list', () => {
+    expect(validate(null)).toBe('revenue_splits must be an object with a recipients list')
+    expect(validate({ recipients: 'all' })).toBe('revenue_splits must be an object with a recipients list')
+    expect(validate({ recipients: [] })).toBe(`revenue_splits.recipients must have 1-${MAX_SPLIT_RECIPIENTS} wallets`)
+  })
+
+  it('rejects invalid, duplicate and payout wallets', () => {
+    expect(validate({ recipients: [{ wallet: 'not-a-wallet', bps: 100 }] })).toBe('Each recipient needs a valid Solana wallet')
+    expect(validate({ recipients: [{ wallet: PAYOUT_WALLET, bps: 100 }] }))
+      .toBe('The payout wallet gets the remainder automatically - do not list it as a recipient')
+    expect(validate({ recipients: [{ wallet: WALLET_A, bps: 100 }, { wallet: WALLET_A, bps: 200 }] }))
+      .toBe(`Wallet ${WALLET_A} is listed more than once`)
+  })
+
+  it('requires whole basis points between 1 and 10000', () => {
+    for (const bps of [0, -1, 10001, 12.5, '100']) {
+      expect(validate({ recipients: [{ wallet: WALLET_A, bps }] }))
+        .toBe('Each recipient needs bps between 1 and 10000 (basis points, 10000 = 100%)')
+    }
+    expect(validate({ recipients: [{ wallet: WALLET_A, bps: 100 }], platform_fee_bps: 0 }))
+      .toBe('platform_fee_bps must be between 1 and 10000')
+  })
+
+  it('rejects long labels', () => {
+    expect(validate({ recipients: [{ wallet: WALLET_A, bps: 100, label: 'x'.repeat(51) }] }))
+      .toBe('Recipient labels must be at most 50 characters')
+  })
+
+  it('rejects shares over 100%', () => {
+    expect(validate({
+      recipients: [{ wallet: WALLET_A, bps: 6000 }, { wallet: WALLET_B, bps: 3500 }],
+      platform_fee_bps: 1000,
+    })).toBe('Shares add up to 10500 bps - they can be at most 10000 (100%)')
+  })
+})
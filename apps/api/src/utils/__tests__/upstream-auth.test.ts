@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
+import { randomBytes } from 'crypto'
+import type { UpstreamAuthInput } from '@blink402/types'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  getBlinkCredential: vi.fn(),
+}))
+
+import { getBlinkCredential, type BlinkCredentialData } from '@blink402/database'
+import {
+  validateUpstreamAuthInput,
+  resolveUpstreamAuthInput,
+  encryptUpstreamAuth,
+  loadUpstreamAuth,
+  applyUpstreamAuthToUrl,
+} from '../upstream-auth.js'
+
+beforeAll(() => {
+  process.env.ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || randomBytes(32).toString('hex')
+})
+
+function storedCredential(input: UpstreamAuthInput): BlinkCredentialData {
+  const encrypted = encryptUpstreamAuth(input)
+  return {
+    blink_id: 'blink-1',
+    auth_type: encrypted.authType,
+    key_name: encrypted.keyName,
+    encrypted_secret: encrypted.encryptedSecret,
+    masked_secret: encrypted.maskedSecret,
+  } as BlinkCredentialData
+}
+
+describe('validateUpstreamAuthInput', () => {
+  it('accepts each credential type', () => {
+    expect(validateUpstreamAuthInput({ type: 'api_key_header', key_name: 'X-API-Key', value: 'sk_live_123' })).toBeNull()
+    expect(validateUpstreamAuthInput({ type: 'bearer', value: 'token' })).toBeNull()
+    expect(validateUpstreamAuthInput({ type: 'basic', username: 'user', password: 'pass' })).toBeNull()
+    expect(validateUpstreamAuthInput({ type: 'api_key_query', key_name: 'api_key', value: 'sk_live_123' })).toBeNull()
+  })
+
+  it('rejects unknown types and missing secrets', () => {
+    expect(validateUpstreamAuthInput(null)).toBe('upstream_auth must be an object')
+    expect(validateUpstreamAuthInput({ type: 'oauth' } as unknown as UpstreamAuthInput)).toMatch(/^upstream_auth.type must be one of/)
+    expect(validateUpstreamAuthInput({ type: 'bearer', value: '' })).toBe('upstream_auth.value is required')
+    expect(validateUpstreamAuthInput({ type: 'basic', username: 'a:b', password: 'pass' })).toMatch(/cannot contain ":"/)
+  })
+
+  it('rejects header injection and headers the proxy sets itself', () => {
+    expect(validateUpstreamAuthInput({ type: 'bearer', value: 'token\r\nX-Evil: 1' })).toBe('upstream_auth.value cannot contain line breaks')
+    expect(validateUpstreamAuthInput({ type: 'api_key_header', key_name: 'X API Key', value: 'v' })).toMatch(/valid header name/)
+    expect(validateUpstreamAuthInput({ type: 'api_key_header', key_name: 'Host', value: 'v' })).toBe('upstream_auth.key_name cannot be Host')
+  })
+})
+
+describe('resolveUpstreamAuthInput', () => {
+  it('builds the request headers or query params for each type', () => {
+    expect(resolveUpstreamAuthInput({ type: 'api_key_header', key_name: 'X-API-Key', value: 'k' }))
+      .toEqual({ headers: { 'X-API-Key': 'k' }, query: {} })
+    expect(resolveUpstreamAuthInput({ type: 'bearer', value: 't' }))
+      .toEqual({ headers: { Authorization: 'Bearer t' }, query: {} })
+    expect(resolveUpstreamAuthInput({ type: 'basic', username: 'user', password: 'pass' }))
+      .toEqual({ headers: { Authorization: `Basic ${Buffer.from('user:pass').toString('base64')}` }, query: {} })
+    expect(resolveUpstreamAuthInput({ type: 'api_key_query', key_name: 'api_key', value: 'k' }))
+      .toEqual({ headers: {}, query: { api_key: 'k' } })
+  })
+})
+
+describe('stored upstream credentials', () => {
+  beforeEach(() => {
+    vi.mocked(getBlinkCredential).mockReset()
+  })
+
+  it('stores only the encrypted secret and a masked preview', () => {
+    const encrypted = encryptUpstreamAuth({ type: 'bearer', value: 'sk_live_abcdefghijkl' })
+
+    expect(encrypted.encryptedSecret).not.toContain('sk_live_abcdefghijkl')
+    expect(encrypted.maskedSecret).not.toBe('sk_live_abcdefghijkl')
+    expect(encrypted.keyName).toBeNull()
+    expect(encryptUpstreamAuth({ type: 'basic', username: 'user', password: 'pass' }).maskedSecret).toBe('user:***')
+  })
+
+  it('decrypts the credential at proxy time', async () => {
+    vi.mocked(getBlinkCredential).mockResolvedValue(storedCredential({ type: 'api_key_header', key_name: 'X-API-Key', value: 'sk_live_123' }))
+
+    expect(await loadUpstreamAuth('blink-1')).toEqual({ headers: { 'X-API-Key': 'sk_live_123' }, query: {} })
+    expect(getBlinkCredential).toHaveBeenCalledWith('blink-1')
+  })
+
+  it('returns null for blinks without a credential', async () => {
+    vi.mocked(getBlinkCredential).mockResolvedValue(null)
+
+    expect(await loadUpstreamAuth('blink-1')).toBeNull()
+  })
+})
+
+describe('applyUpstreamAuthToUrl', () => {
+  it('adds query credentials, replacing a value the URL already had', () => {
+    const url = applyUpstreamAuthToUrl('https://api.example.com/v1?city=Paris&api_key=guess', { headers: {}, query: { api_key: 'k' } })
+
+    expect(new URL(url).searchParams.get('api_key')).toBe('k')
+    expect(new URL(url).searchParams.get('city')).toBe('Paris')
+  })
+
+  it('leaves the URL alone without query credentials', () => {
+    expect(applyUpstreamAuthToUrl('https://api.example.com/v1', null)).toBe('https://api.example.com/v1')
+    expect(applyUpstreamAuthToUrl('https://api.example.com/v1', { headers: { Authorization: 'Bearer t' }, query: {} }))
+      .toBe('https://api.example.com/v1')
+  })
+})
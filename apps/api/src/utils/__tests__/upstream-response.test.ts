@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { PassThrough } from 'stream'
+import {
+  isEventStream,
+  isBinaryContentType,
+  readBodyWithLimit,
+  pipeEventStream,
+  endEventStreamWithError,
+} from '../upstream-response.js'
+
+function streamedResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder()
+  return new Response(new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  }))
+}
+
+async function collect(sink: PassThrough): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of sink) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf-8')
+}
+
+describe('content type detection', () => {
+  it('recognises event streams with parameters', () => {
+    expect(isEventStream('text/event-stream; charset=utf-8')).toBe(true)
+    expect(isEventStream('application/json')).toBe(false)
+  })
+
+  it('treats images, audio, video and PDFs as binary', () => {
+    expect(isBinaryContentType('image/png')).toBe(true)
+    expect(isBinaryContentType('audio/mpeg')).toBe(true)
+    expect(isBinaryContentType('video/mp4')).toBe(true)
+    expect(isBinaryContentType('application/pdf')).toBe(true)
+    expect(isBinaryContentType('application/octet-stream')).toBe(true)
+  })
+
+  it('keeps text, JSON and XML responses (and missing types) as text', () => {
+    expect(isBinaryContentType('')).toBe(false)
+    expect(isBinaryContentType('text/plain; charset=utf-8')).toBe(false)
+    expect(isBinaryContentType('application/json')).toBe(false)
+    expect(isBinaryContentType('application/ld+json')).toBe(false)
+    expect(isBinaryContentType('application/atom+xml')).toBe(false)
+  })
+})
+
+describe('readBodyWithLimit', () => {
+  it('returns the raw bytes of the body', async () => {
+    const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff])
+
+    const body = await readBodyWithLimit(new Response(bytes), 1024)
+
+    expect([...body]).toEqual([...bytes])
+  })
+
+  it('rejects bodies over the size limit', async () => {
+    await expect(readBodyWithLimit(streamedResponse(['12345', '67890']), 8))
+      .rejects.toThrow('Response exceeds maximum size of 8 bytes')
+  })
+})
+
+describe('pipeEventStream', () => {
+  it('forwards every chunk and returns the transcript', async () => {
+    const sink = new PassThrough()
+    const received = collect(sink)
+
+    const result = await pipeEventStream(streamedResponse(['data: a\n\n', 'data: b\n\n']), sink, 1024)
+    sink.end()
+
+    expect(result).toEqual({ transcript: 'data: a\n\ndata: b\n\n', truncated: false })
+    expect(await received).toBe('data: a\n\ndata: b\n\n')
+  })
+
+  it('truncates the stored transcript but still forwards the whole stream', async () => {
+    const sink = new PassThrough()
+    const received = collect(sink)
+
+    const result = await pipeEventStream(streamedResponse(['data: a\n\n', 'data: b\n\n']), sink, 10)
+    sink.end()
+
+    expect(result).toEqual({ transcript: 'data: a\n\n', truncated: true })
+    expect(await received).toBe('data: a\n\ndata: b\n\n')
+  })
+
+  it('keeps reading after the payer disconnects', async () => {
+    const sink = new PassThrough()
+    sink.destroy()
+
+    const result = await pipeEventStream(streamedResponse(['data: a\n\n', 'data: b\n\n']), sink, 1024)
+
+    expect(result.transcript).toBe('data: a\n\ndata: b\n\n')
+  })
+})
+
+describe('endEventStreamWithError', () => {
+  it('sends an error event and closes the stream', async () => {
+    const sink = new PassThrough()
+    const received = collect(sink)
+
+    endEventStreamWithError(sink, 'Upstream stream timeout')
+
+    expect(await received).toBe('event: error\ndata: {"error":"Upstream stream timeout"}\n\n')
+  })
+
+  it('does nothing once the stream has ended', () => {
+    const sink = new PassThrough()
+    sink.end()
+
+    expect(() => endEventStreamWithError(sink, 'late')).not.toThrow()
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'crypto'
+import { signWebhookPayload, getNextWebhookAttempt, MAX_WEBHOOK_ATTEMPTS } from '../webhooks.js'
+
+describe('signWebhookPayload', () => {
+  const params = {
+    secret: 'whsec_test',
+    body: JSON.stringify({ type: 'run.paid', data: { reference: 'ref-123' } }),
+    eventType: 'run.paid',
+    deliveryId: 'delivery-1',
+    eventId: 'event-1',
+    timestamp: 1790000000,
+  }
+
+  it('signs the timestamp and body with the webhook secret', () => {
+    const headers = signWebhookPayload(params)
+    const expected = createHmac('sha256', params.secret).update(`${params.timestamp}.${params.body}`).digest('hex')
+
+    expect(headers['X-Blink402-Signature']).toBe(`t=${params.timestamp},v1=${expected}`)
+  })
+
+  it('identifies the event and delivery', () => {
+    expect(signWebhookPayload(params)).toMatchObject({
+      'Content-Type': 'application/json',
+      'X-Blink402-Event': 'run.paid',
+      'X-Blink402-Event-Id': 'event-1',
+      'X-Blink402-Delivery': 'delivery-1',
+    })
+  })
+
+  it('changes the signature when the body, timestamp or secret changes', () => {
+    const signature = signWebhookPayload(params)['X-Blink402-Signature']
+
+    expect(signWebhookPayload({ ...params, body: '{}' })['X-Blink402-Signature']).not.toBe(signature)
+    expect(signWebhookPayload({ ...params, timestamp: params.timestamp + 1 })['X-Blink402-Signature']).not.toBe(signature)
+    expect(signWebhookPayload({ ...params, secret: 'whsec_other' })['X-Blink402-Signature']).not.toBe(signature)
+  })
+
+  it('uses the current time when no timestamp is given', () => {
+    const before = Math.floor(Date.now() / 1000)
+    const header = signWebhookPayload({ ...params, timestamp: undefined })['X-Blink402-Signature']
+    const signedAt = Number(header.match(/^t=(\d+),/)![1])
+
+    expect(signedAt).toBeGreaterThanOrEqual(before)
+    expect(signedAt).toBeLessThanOrEqual(Math.floor(Date.now() / 1000))
+  })
+})
+
+describe('getNextWebhookAttempt', () => {
+  const now = Date.parse('2026-10-01T00:00:00Z')
+
+  it('doubles the delay after each failed attempt, starting at 30 seconds', () => {
+    expect(getNextWebhookAttempt(1, now)!.getTime() - now).toBe(30 * 1000)
+    expect(getNextWebhookAttempt(2, now)!.getTime() - now).toBe(60 * 1000)
+    expect(getNextWebhookAttempt(3, now)!.getTime() - now).toBe(2 * 60 * 1000)
+  })
+
+  it('gives up after MAX_WEBHOOK_ATTEMPTS', () => {
+    expect(getNextWebhookAttempt(MAX_WEBHOOK_ATTEMPTS - 1, now)).not.toBeNull()
+    expect(getNextWebhookAttempt(MAX_WEBHOOK_ATTEMPTS, now)).toBeNull()
+  })
+})
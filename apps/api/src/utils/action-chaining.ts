@@ -0,0 +1,172 @@
+// Solana Actions chaining: the follow-up action a wallet shows after an Actions payment
+import { getBlinkBySlug } from '@blink402/database'
+import type { BlinkData, Run, RunArtifactSummary } from '@blink402/types'
+import { buildActionsMetadata, toLinkedAction, type LinkedAction } from './actions-config.js'
+import { withArtifactUrl } from './artifacts.js'
+
+// Only origin registered with Dialect - callback and chained hrefs must be same-origin
+export const ACTIONS_ORIGIN = 'https://blink402.dev'
+
+// How long the signature callback waits for the API call before answering "still running"
+export const INLINE_RESULT_TIMEOUT_MS = 8000
+
+const MAX_SUMMARY_LENGTH = 500
+const DEFAULT_ICON = `${ACTIONS_ORIGIN}/logo.png`
+
+export type ExternalLinkTarget = 'results' | 'share'
+
+/**
+ * Action returned by the signature callback or a chained button (Actions spec NextAction)
+ */
+export interface NextAction {
+  type: 'action'
+  icon: string
+  title: string
+  description: string
+  label: string
+  disabled?: boolean
+  error?: { message: string }
+  links?: { actions: LinkedAction[] }
+}
+
+export function getActionCallbackUrl(reference: string): string {
+  return `${ACTIONS_ORIGIN}/api/actions/submit/${reference}`
+}
+
+export function getResultsUrl(reference: string): string {
+  return `${ACTIONS_ORIGIN}/results/${reference}`
+}
+
+/**
+ * Where an external-link button on the result action sends the user
+ */
+export function getExternalLinkUrl(target: ExternalLinkTarget, reference: string, blinkTitle: string): string {
+  if (target === 'share') {
+    const text = `I just ran "${blinkTitle}" with a Solana Blink on @blink402`
+    return `https://x.com/intent/post?${new URLSearchParams({ text, url: getResultsUrl(reference) }).toString()}`
+  }
+  return getResultsUrl(reference)
+}
+
+/**
+ * Short plain-text rendering of a run response for the wallet card
+ */
+export function summarizeRunResponse(response: unknown): string {
+  if (response === null || response === undefined) {
+    return 'Completed with no output.'
+  }
+
+  const artifact = (response as { artifact?: RunArtifactSummary } | null)?.artifact
+  if (artifact?.content_type) {
+    return `Result file ready (${artifact.content_type}, ${Math.ceil((artifact.size_bytes || 0) / 1024)} KB).`
+  }
+
+  const text = typeof response === 'string' ? response : JSON.stringify(response, null, 1)
+  return text.length > MAX_SUMMARY_LENGTH ? `${text.substring(0, MAX_SUMMARY_LENGTH - 1)}…` : text
+}
+
+/**
+ * Buttons shown with a finished run: follow-ups, run again, share, full result
+ */
+async function getResultButtons(blink: BlinkData, reference: string, againLabel: string): Promise<LinkedAction[]> {
+  const buttons: LinkedAction[] = []
+
+  // Creator-defined follow-ups (second-step forms, possibly on another blink)
+  for (const button of blink.actions_config?.follow_up || []) {
+    if (!button.slug || button.slug === blink.slug) {
+      buttons.push(toLinkedAction(button, blink.slug, blink.parameters))
+      continue
+    }
+    const target = await getBlinkBySlug(button.slug)
+    if (target && target.status === 'active') {
+      buttons.push(toLinkedAction(button, target.slug, target.parameters))
+    }
+  }
+
+  const metadata = buildActionsMetadata(blink, ACTIONS_ORIGIN)
+  const [primary] = metadata.links.actions
+  if (primary && !metadata.disabled) {
+    buttons.push({ ...primary, label: againLabel })
+  }
+
+  buttons.push(
+    { type: 'external-link', label: '𝕏 Share result', href: `/api/actions/submit/${reference}/link/share` },
+    { type: 'external-link', label: 'View full result', href: `/api/actions/submit/${reference}/link/results` },
+  )
+
+  return buttons
+}
+
+/**
+ * Follow-up action for an Actions run, based on where the run is now
+ */
+export async function buildRunNextAction(
+  run: Pick<Run, 'reference' | 'status' | 'metadata'>,
+  blink: BlinkData
+): Promise<NextAction> {
+  const base = {
+    icon: blink.actions_config?.icon_url || blink.icon_url || DEFAULT_ICON,
+    label: blink.title,
+  }
+
+  // Lottery entries are recorded when the transaction is built - there is no API result
+  if (blink.lottery_enabled) {
+    return {
+      ...base,
+      type: 'action',
+      title: `🎰 ${blink.title}`,
+      description: 'Your entry is in! Winners are drawn when the round ends.',
+      links: { actions: await getResultButtons(blink, run.reference, '🎟️ Buy another entry') },
+    }
+  }
+
+  if (run.status === 'executed') {
+    const response = withArtifactUrl(run.metadata?.response ?? null)
+    const artifact = (response as { artifact?: RunArtifactSummary } | null)?.artifact
+
+    return {
+      ...base,
+      type: 'action',
+      // Image results are shown as the card image
+      icon: artifact?.url && String(artifact.content_type).startsWith('image/') ? artifact.url : base.icon,
+      title: `✅ ${blink.title}`,
+      description: summarizeRunResponse(response),
+      links: { actions: await getResultButtons(blink, run.reference, '🔁 Run again') },
+    }
+  }
+
+  if (run.status === 'failed') {
+    const metadata = buildActionsMetadata(blink, ACTIONS_ORIGIN)
+    const [primary] = metadata.links.actions
+
+    return {
+      ...base,
+      type: 'action',
+      title: `❌ ${blink.title}`,
+      description: 'Your payment went through but the request failed. Open the results page for details.',
+      error: { message: 'The API call failed' },
+      links: {
+        actions: [
+          ...(primary && !metadata.disabled ? [{ ...primary, label: '🔁 Try again' }] : []),
+          { type: 'external-link', label: 'View details', href: `/api/actions/submit/${run.reference}/link/results` },
+        ],
+      },
+    }
+  }
+
+  // Paid (still running) or pending (callback arrived before the payment was recorded)
+  return {
+    ...base,
+    type: 'action',
+    title: `⏳ ${blink.title}`,
+    description: run.status === 'paid'
+      ? 'Payment confirmed. Your request is still running - check back in a few seconds.'
+      : 'Waiting for your payment to confirm.',
+    links: {
+      actions: [
+        { type: 'post', label: '🔄 Check result', href: `/api/actions/submit/${run.reference}/status` },
+        { type: 'external-link', label: 'Open results page', href: `/api/actions/submit/${run.reference}/link/results` },
+      ],
+    },
+  }
+}
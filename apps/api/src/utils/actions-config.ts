@@ -0,0 +1,280 @@
+// Solana Actions metadata: validate a blink's stored actions config and build its unfurl
+import type { BlinkData, BlinkActionButton, BlinkActionsConfig, BlinkParameter } from '@blink402/types'
+
+const PARAMETER_TYPES: NonNullable<BlinkParameter['type']>[] = [
+  'text', 'number', 'email', 'url', 'date', 'datetime-local', 'textarea', 'checkbox', 'radio', 'select',
+]
+const OPTION_TYPES = ['checkbox', 'radio', 'select']
+const MAX_ACTION_BUTTONS = 10
+const MAX_BUTTON_PARAMETERS = 10
+const MAX_PARAMETER_OPTIONS = 20
+const MAX_LABEL_LENGTH = 80
+const MAX_ERROR_LENGTH = 200
+const AMOUNT_PATTERN = /^\d{1,9}(\.\d{1,9})?$/
+const SLUG_PATTERN = /^[a-z0-9-]{1,100}$/
+
+/**
+ * Parameter in the Solana Actions format
+ */
+export interface ActionParameter {
+  name: string
+  label?: string
+  type?: BlinkParameter['type']
+  required?: boolean
+  pattern?: string
+  patternDescription?: string
+  placeholder?: string
+  min?: number
+  max?: number
+  options?: Array<{ label: string; value: string; selected?: boolean }>
+}
+
+export interface LinkedAction {
+  type?: 'transaction' | 'post' | 'external-link' // Default: transaction
+  label: string
+  href: string
+  parameters?: ActionParameter[]
+}
+
+export interface ActionsMetadata {
+  type: 'action'
+  title: string
+  icon: string
+  description: string
+  label: string
+  disabled?: boolean
+  error?: { message: string }
+  links: { actions: LinkedAction[] }
+}
+
+/**
+ * Validate an inline parameter definition
+ * @returns Error details, or null when valid
+ */
+function validateInlineParameter(param: BlinkParameter, label: string): string | null {
+  if (!param || typeof param !== 'object' || typeof param.name !== 'string' || !param.name.trim()) {
+    return `${label}.name is required`
+  }
+  if (param.type !== undefined && !PARAMETER_TYPES.includes(param.type)) {
+    return `${label}.type must be one of: ${PARAMETER_TYPES.join(', ')}`
+  }
+  if (param.label !== undefined && (typeof param.label !== 'string' || param.label.length > MAX_LABEL_LENGTH)) {
+    return `${label}.label must be a string of at most ${MAX_LABEL_LENGTH} characters`
+  }
+  if (param.pattern !== undefined) {
+    try {
+      new RegExp(param.pattern)
+    } catch {
+      return `${label}.pattern is not a valid regular expression`
+    }
+  }
+  if (param.min !== undefined && typeof param.min !== 'number') {
+    return `${label}.min must be a number`
+  }
+  if (param.max !== undefined && typeof param.max !== 'number') {
+    return `${label}.max must be a number`
+  }
+  if (param.min !== undefined && param.max !== undefined && param.min > param.max) {
+    return `${label}.min must not be greater than max`
+  }
+  if (param.type && OPTION_TYPES.includes(param.type)) {
+    if (!Array.isArray(param.options) || param.options.length === 0) {
+      return `${label}.options are required for ${param.type} parameters`
+    }
+    if (param.options.length > MAX_PARAMETER_OPTIONS) {
+      return `${label} supports at most ${MAX_PARAMETER_OPTIONS} options`
+    }
+    for (const option of param.options) {
+      if (!option || typeof option.label !== 'string' || typeof option.value !== 'string') {
+        return `${label}.options must have a string label and value`
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Validate a list of buttons
+ * @param allowSlug - Follow-up buttons may point at another blink
+ * @returns Error details, or null when valid
+ */
+function validateActionButtons(
+  buttons: BlinkActionButton[],
+  path: string,
+  parameters: BlinkParameter[] | undefined,
+  allowSlug: boolean
+): string | null {
+  if (!Array.isArray(buttons) || buttons.length === 0 || buttons.length > MAX_ACTION_BUTTONS) {
+    return `${path} must be an array of 1-${MAX_ACTION_BUTTONS} buttons`
+  }
+
+  const declared = new Set((parameters || []).map((p) => p.name))
+
+  for (const [index, button] of buttons.entries()) {
+    const label = `${path}[${index}]`
+
+    if (!button || typeof button.label !== 'string' || !button.label.trim() || button.label.length > MAX_LABEL_LENGTH) {
+      return `${label}.label must be a non-empty string of at most ${MAX_LABEL_LENGTH} characters`
+    }
+    if (button.amount !== undefined && (typeof button.amount !== 'string' || !AMOUNT_PATTERN.test(button.amount) || parseFloat(button.amount) <= 0)) {
+      return `${label}.amount must be a positive decimal string`
+    }
+    if (button.slug !== undefined) {
+      if (!allowSlug) {
+        return `${label}.slug is only supported on follow_up buttons`
+      }
+      if (typeof button.slug !== 'string' || !SLUG_PATTERN.test(button.slug)) {
+        return `${label}.slug must be a blink slug`
+      }
+    }
+    if (button.parameters === undefined) {
+      continue
+    }
+    if (!Array.isArray(button.parameters) || button.parameters.length > MAX_BUTTON_PARAMETERS) {
+      return `${label}.parameters must be an array of at most ${MAX_BUTTON_PARAMETERS} entries`
+    }
+
+    for (const [paramIndex, param] of button.parameters.entries()) {
+      if (typeof param === 'string') {
+        // Names on buttons that open another blink are resolved against that blink when rendered
+        if (!button.slug && !declared.has(param)) {
+          return `${label}.parameters references undeclared parameter "${param}"`
+        }
+        continue
+      }
+      const paramError = validateInlineParameter(param, `${label}.parameters[${paramIndex}]`)
+      if (paramError) return paramError
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validate actions_config from a create/update body
+ * @param parameters - The blink's declared parameters (buttons may reference them by name)
+ * @returns Error details, or null when valid
+ */
+export function validateActionsConfig(
+  config: BlinkActionsConfig | undefined | null,
+  parameters?: BlinkParameter[]
+): string | null {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'actions_config must be an object'
+  }
+  if (config.label !== undefined && (typeof config.label !== 'string' || config.label.length > MAX_LABEL_LENGTH)) {
+    return `actions_config.label must be a string of at most ${MAX_LABEL_LENGTH} characters`
+  }
+  if (config.icon_url !== undefined) {
+    try {
+      if (new URL(config.icon_url).protocol !== 'https:') {
+        return 'actions_config.icon_url must use https'
+      }
+    } catch {
+      return 'actions_config.icon_url must be a valid URL'
+    }
+  }
+  if (config.disabled !== undefined && typeof config.disabled !== 'boolean') {
+    return 'actions_config.disabled must be a boolean'
+  }
+  if (config.error !== undefined && (typeof config.error !== 'string' || config.error.length > MAX_ERROR_LENGTH)) {
+    return `actions_config.error must be a string of at most ${MAX_ERROR_LENGTH} characters`
+  }
+  if (config.buttons !== undefined) {
+    const buttonsError = validateActionButtons(config.buttons, 'actions_config.buttons', parameters, false)
+    if (buttonsError) return buttonsError
+  }
+  if (config.follow_up !== undefined) {
+    const followUpError = validateActionButtons(config.follow_up, 'actions_config.follow_up', parameters, true)
+    if (followUpError) return followUpError
+  }
+
+  return null
+}
+
+/**
+ * Convert a blink parameter to the Solana Actions format (keeps select/radio options)
+ */
+export function toActionParameter(param: BlinkParameter): ActionParameter {
+  return {
+    name: param.name,
+    label: param.label,
+    type: param.type,
+    required: param.required,
+    pattern: param.pattern,
+    patternDescription: param.patternDescription,
+    placeholder: param.placeholder,
+    min: param.min,
+    max: param.max,
+    options: param.options?.map((option) => ({ label: option.label, value: option.value })),
+  }
+}
+
+/**
+ * Buttons shown when a blink has no stored buttons
+ */
+function getDefaultButtons(blink: BlinkData): BlinkActionButton[] {
+  if (blink.lottery_enabled) {
+    return [{ label: `🎰 Buy Entry (${parseFloat(blink.price_usdc)} USDC)` }]
+  }
+
+  return [{
+    label: blink.method === 'POST' ? 'Submit Request' : 'Get Data',
+    parameters: blink.parameters?.map((param) => param.name),
+  }]
+}
+
+/**
+ * Turn a stored button into a Solana Actions linked action
+ * @param slug - Blink the button opens
+ * @param parameters - That blink's declared parameters (for parameters referenced by name)
+ */
+export function toLinkedAction(button: BlinkActionButton, slug: string, parameters?: BlinkParameter[]): LinkedAction {
+  const declared = new Map((parameters || []).map((param) => [param.name, param]))
+  const href = `/api/actions/${slug}`
+
+  const actionParameters = (button.parameters || [])
+    .map((param) => (typeof param === 'string' ? declared.get(param) : param))
+    .filter((param): param is BlinkParameter => !!param)
+    .map(toActionParameter)
+
+  return {
+    label: button.label,
+    href: button.amount ? `${href}?amount=${encodeURIComponent(button.amount)}` : href,
+    ...(actionParameters.length > 0 ? { parameters: actionParameters } : {}),
+  }
+}
+
+/**
+ * Fixed price presets offered by the blink's buttons
+ */
+export function getActionAmountPresets(config?: BlinkActionsConfig | null): string[] {
+  return (config?.buttons || [])
+    .map((button) => button.amount)
+    .filter((amount): amount is string => !!amount)
+}
+
+/**
+ * Build the GET /api/actions/:slug response from the blink's stored config
+ * @param webUrl - Public web origin used for the generated OG image
+ */
+export function buildActionsMetadata(blink: BlinkData, webUrl: string): ActionsMetadata {
+  const config = blink.actions_config || {}
+  const actions = (config.buttons || getDefaultButtons(blink))
+    .map((button) => toLinkedAction(button, blink.slug, blink.parameters))
+
+  // Paused/archived blinks still unfurl, but can't be used
+  const unavailable = blink.status !== 'active'
+  const errorMessage = config.error || (unavailable ? 'This blink is currently unavailable' : undefined)
+
+  return {
+    type: 'action',
+    title: blink.title,
+    icon: config.icon_url || blink.icon_url || `${webUrl}/api/og/${blink.slug}`,
+    description: blink.description,
+    label: config.label || `Use ${blink.title}`,
+    ...(config.disabled || unavailable ? { disabled: true } : {}),
+    ...(errorMessage ? { error: { message: errorMessage } } : {}),
+    links: { actions },
+  }
+}
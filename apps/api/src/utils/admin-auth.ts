@@ -0,0 +1,57 @@
+// Admin API key authentication for admin, moderation and internal endpoints
+import { timingSafeEqual } from 'crypto'
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import { getAdminConfig } from '@blink402/config'
+
+const MAX_ACTOR_LENGTH = 100
+
+/**
+ * Verify admin API key from request headers
+ * Sends the error response itself; callers return when this is false.
+ */
+export function verifyAdminAuth(request: FastifyRequest, reply: FastifyReply): boolean {
+  const adminConfig = getAdminConfig()
+
+  // If no admin key is configured, reject all requests
+  if (!adminConfig.isEnabled) {
+    reply.code(503).send({
+      error: 'Admin endpoints disabled',
+      message: 'ADMIN_API_KEY environment variable not configured'
+    })
+    return false
+  }
+
+  const providedKey = request.headers['x-admin-key']
+
+  if (!providedKey || typeof providedKey !== 'string') {
+    reply.code(401).send({
+      error: 'Unauthorized',
+      message: 'Missing X-Admin-Key header'
+    })
+    return false
+  }
+
+  const provided = Buffer.from(providedKey)
+  const expected = Buffer.from(adminConfig.apiKey!)
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    reply.code(403).send({
+      error: 'Forbidden',
+      message: 'Invalid admin API key'
+    })
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Name of the moderator acting (X-Admin-Actor header), recorded in the audit log
+ * The admin key is shared, so this is self-reported; defaults to "admin".
+ */
+export function getAdminActor(request: FastifyRequest): string {
+  const actor = request.headers['x-admin-actor']
+  if (typeof actor !== 'string' || actor.trim().length === 0) {
+    return 'admin'
+  }
+  return actor.trim().substring(0, MAX_ACTOR_LENGTH)
+}
@@ -0,0 +1,47 @@
+// Creator API keys: generation, hashing and request validation
+import { createHash, randomBytes } from 'crypto'
+import type { ApiKeyScope } from '@blink402/types'
+
+export const API_KEY_PREFIX = 'b402k_'
+export const API_KEY_SCOPES: ApiKeyScope[] = ['blinks:write', 'analytics:read', 'payouts:manage']
+export const MAX_API_KEYS_PER_CREATOR = 10 // Active keys
+const MAX_NAME_LENGTH = 100
+
+export interface ApiKeyBody {
+  name?: string
+  scopes?: ApiKeyScope[]
+}
+
+/**
+ * Hash of a key as stored in the database
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * Generate a new API key
+ * @returns The key (shown to the creator once), its hash and its displayable prefix
+ */
+export function generateApiKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('hex')}`
+  return { key, keyHash: hashApiKey(key), keyPrefix: key.substring(0, API_KEY_PREFIX.length + 6) }
+}
+
+/**
+ * Validate a new key's name and scopes
+ * @returns Error details, or null when valid
+ */
+export function validateApiKeyBody(body: ApiKeyBody): string | null {
+  if (typeof body.name !== 'string' || body.name.trim().length === 0 || body.name.length > MAX_NAME_LENGTH) {
+    return `name must be a string of 1-${MAX_NAME_LENGTH} characters`
+  }
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0) {
+    return `scopes must list at least one of: ${API_KEY_SCOPES.join(', ')}`
+  }
+  const unknown = body.scopes.filter((scope) => !API_KEY_SCOPES.includes(scope))
+  if (unknown.length > 0) {
+    return `Unknown scopes: ${unknown.join(', ')} (allowed: ${API_KEY_SCOPES.join(', ')})`
+  }
+  return null
+}
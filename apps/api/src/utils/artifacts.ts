@@ -0,0 +1,146 @@
+// Binary upstream responses stored per run, downloaded through signed expiring URLs
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { mkdir, writeFile, unlink } from 'fs/promises'
+import { join, resolve, sep } from 'path'
+import type { RunArtifactSummary } from '@blink402/types'
+import { createRunArtifact, type RunArtifactData } from '@blink402/database'
+
+const DEFAULT_URL_TTL_SECONDS = 3600 // 1 hour
+
+/**
+ * Directory artifacts are written to (kept outside the public /uploads static root)
+ */
+export function getArtifactsDir(): string {
+  return resolve(process.env.ARTIFACTS_DIR || join(process.cwd(), 'artifacts'))
+}
+
+/**
+ * Lifetime of a signed download URL in seconds (ARTIFACT_URL_TTL_SECONDS)
+ */
+export function getArtifactUrlTtl(): number {
+  const ttl = parseInt(process.env.ARTIFACT_URL_TTL_SECONDS || '', 10)
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_URL_TTL_SECONDS
+}
+
+function getSigningSecret(): string {
+  // Dedicated secret - download URLs are never signed with ENCRYPTION_KEY
+  const secret = process.env.ARTIFACT_SIGNING_SECRET
+  if (!secret) {
+    throw new Error('ARTIFACT_SIGNING_SECRET is not configured - cannot sign artifact URLs')
+  }
+  return secret
+}
+
+function signArtifact(artifactId: string, expires: number): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(`${artifactId}.${expires}`)
+    .digest('base64url')
+}
+
+/**
+ * Resolve an artifact's file path, refusing anything outside the artifacts directory
+ */
+export function getArtifactFilePath(artifact: Pick<RunArtifactData, 'storage_path'>): string {
+  const root = getArtifactsDir()
+  const filePath = resolve(root, artifact.storage_path)
+  if (!filePath.startsWith(root + sep)) {
+    throw new Error('Invalid artifact storage path')
+  }
+  return filePath
+}
+
+/**
+ * Write a binary upstream response to disk and record it for the run
+ */
+export async function saveRunArtifact(params: {
+  runId: string
+  contentType: string
+  data: Buffer
+}): Promise<RunArtifactData> {
+  const { runId, contentType, data } = params
+  const id = randomUUID()
+  const storagePath = `${runId}/${id}`
+
+  await mkdir(join(getArtifactsDir(), runId), { recursive: true })
+  await writeFile(getArtifactFilePath({ storage_path: storagePath }), data)
+
+  try {
+    return await createRunArtifact({
+      id,
+      runId,
+      contentType,
+      sizeBytes: data.length,
+      sha256: createHash('sha256').update(data).digest('hex'),
+      storagePath,
+    })
+  } catch (error) {
+    // Don't leave orphaned files behind
+    await unlink(getArtifactFilePath({ storage_path: storagePath })).catch(() => {})
+    throw error
+  }
+}
+
+/**
+ * Remove an artifact's file from disk (best effort)
+ */
+export async function removeArtifactFile(artifact: Pick<RunArtifactData, 'storage_path'>): Promise<void> {
+  await unlink(getArtifactFilePath(artifact)).catch(() => {})
+}
+
+/**
+ * Create a signed, expiring download URL for an artifact
+ */
+export function signArtifactUrl(
+  artifactId: string,
+  ttlSeconds: number = getArtifactUrlTtl()
+): { url: string; expires_at: string } {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds
+  const apiBaseUrl = process.env.API_URL || process.env.API_BASE_URL || `http://localhost:${process.env.PORT || 3001}`
+  const query = new URLSearchParams({ expires: String(expires), sig: signArtifact(artifactId, expires) })
+
+  return {
+    url: `${apiBaseUrl}/artifacts/${artifactId}?${query.toString()}`,
+    expires_at: new Date(expires * 1000).toISOString(),
+  }
+}
+
+/**
+ * Check a download URL's signature and expiry
+ */
+export function verifyArtifactSignature(artifactId: string, expires: string | undefined, sig: string | undefined): boolean {
+  const expiresAt = parseInt(expires || '', 10)
+  if (!sig || !Number.isFinite(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+    return false
+  }
+
+  const expected = Buffer.from(signArtifact(artifactId, expiresAt))
+  const provided = Buffer.from(sig)
+  return expected.length === provided.length && timingSafeEqual(expected, provided)
+}
+
+/**
+ * Run response stored for a binary artifact (URL is signed on read, never persisted)
+ */
+export function toArtifactResponse(artifact: RunArtifactData): { artifact: RunArtifactSummary } {
+  return {
+    artifact: {
+      id: artifact.id,
+      content_type: artifact.content_type,
+      size_bytes: artifact.size_bytes,
+      sha256: artifact.sha256,
+    },
+  }
+}
+
+/**
+ * Add a fresh signed URL to a stored run response that points at an artifact
+ */
+export function withArtifactUrl<T>(responseData: T): T {
+  const artifact = (responseData as { artifact?: RunArtifactSummary } | null | undefined)?.artifact
+  if (!artifact?.id) return responseData
+
+  return {
+    ...responseData,
+    artifact: { ...artifact, ...signArtifactUrl(artifact.id) },
+  }
+}
@@ -0,0 +1,172 @@
+// Base (EVM) USDC payments for blinks with blockchain = 'base'
+import { randomBytes } from 'crypto'
+import type { BlinkData, X402EvmResponse } from '@blink402/types'
+import { setCache, getCache } from '@blink402/redis'
+import {
+  verifyUsdcPayment,
+  isValidTxHash,
+  getChain,
+  getX402Network,
+  USDC_ADDRESSES,
+  USDC_DECIMALS,
+  PAYMENT_REFERENCE_BYTES,
+  type ChainNetwork,
+  type VerifiedUsdcPayment,
+} from '@blink402/evm'
+
+const PAYMENT_TIMEOUT_SECONDS = 900 // Matches the 15 minute run expiry
+export const BASE_RECEIPT_TIMEOUT_MS = 30000 // How long verification waits for the transaction receipt
+
+/**
+ * Resolve the Base network from env (BASE_NETWORK, falling back to the Solana network)
+ */
+export function getBaseNetwork(): ChainNetwork {
+  const network = process.env.BASE_NETWORK
+  if (network === 'mainnet' || network === 'testnet') {
+    return network
+  }
+  return process.env.SOLANA_NETWORK === 'devnet' ? 'testnet' : 'mainnet'
+}
+
+/**
+ * Generate a run reference for a Base payment (0x-prefixed hex)
+ * The payer appends it to the USDC transfer calldata.
+ */
+export function generateBaseReference(): `0x${string}` {
+  return `0x${randomBytes(PAYMENT_REFERENCE_BYTES).toString('hex')}`
+}
+
+/**
+ * Payment a 402 response asked for, kept until the payment arrives
+ * The run is only created once a transaction is submitted for the reference.
+ */
+export interface PendingBasePayment {
+  blinkId: string
+  metadata: Record<string, unknown> // Run metadata locked in when the reference was issued (flow, quote)
+}
+
+function pendingBasePaymentKey(reference: string): string {
+  return `base-payment:${reference}`
+}
+
+/**
+ * Issue a reference for a Base payment, keeping what it pays for in Redis until it expires
+ */
+export async function issueBaseReference(payment: PendingBasePayment): Promise<`0x${string}`> {
+  const reference = generateBaseReference()
+  await setCache(pendingBasePaymentKey(reference), payment, PAYMENT_TIMEOUT_SECONDS)
+  return reference
+}
+
+/**
+ * Look up the payment an issued reference stands for
+ * @returns null when the reference was never issued or has expired
+ */
+export async function getPendingBasePayment(reference: string): Promise<PendingBasePayment | null> {
+  if (!isBaseReference(reference)) return null
+  return getCache<PendingBasePayment>(pendingBasePaymentKey(reference))
+}
+
+/**
+ * Check whether a run reference has the Base reference format
+ */
+export function isBaseReference(reference: string): reference is `0x${string}` {
+  return new RegExp(`^0x[a-fA-F0-9]{${PAYMENT_REFERENCE_BYTES * 2}}$`).test(reference)
+}
+
+/**
+ * Build the 402 Payment Required body for a Base blink
+ * Includes both the legacy `payment` object and x402 `accepts` requirements.
+ * @param priceUsdc - The run's quoted price (defaults to blink.price_usdc)
+ */
+export function buildBasePaymentRequired(
+  blink: BlinkData,
+  reference: `0x${string}`,
+  priceUsdc: string = blink.price_usdc
+): X402EvmResponse {
+  const network = getBaseNetwork()
+  const x402Network = getX402Network(network)
+  const chainId = getChain(network).id
+  const asset = USDC_ADDRESSES[network]
+  const amount = Math.round(parseFloat(priceUsdc) * Math.pow(10, USDC_DECIMALS)).toString()
+
+  return {
+    status: 402,
+    message: 'Payment Required',
+    x402Version: 1,
+    reference,
+    payment: {
+      recipientWallet: blink.payout_wallet,
+      asset,
+      amount,
+      network: x402Network,
+      chainId,
+      scheme: 'exact',
+      reference,
+    },
+    accepts: [{
+      scheme: 'exact',
+      network: x402Network,
+      maxAmountRequired: amount,
+      resource: `https://blink402.dev/bazaar/${blink.slug}`,
+      description: blink.description,
+      mimeType: 'application/json',
+      payTo: blink.payout_wallet,
+      asset,
+      maxTimeoutSeconds: PAYMENT_TIMEOUT_SECONDS,
+      extra: { reference, chainId, decimals: USDC_DECIMALS },
+    }],
+    description: blink.description,
+  }
+}
+
+/**
+ * Extract the transaction hash from an EVM x402 payment header
+ * Format: base64 JSON {x402Version, scheme, network, payload: {transactionHash}}
+ */
+export function extractBaseTxHash(paymentHeader: string | undefined): `0x${string}` | null {
+  if (!paymentHeader) return null
+
+  try {
+    const headerData = JSON.parse(Buffer.from(paymentHeader, 'base64').toString('utf-8'))
+    const txHash = headerData?.payload?.transactionHash
+    return typeof txHash === 'string' && isValidTxHash(txHash) ? txHash : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Verify a Base USDC payment for a run
+ * Checks the USDC Transfer log pays the blink's payout wallet and the calldata carries the run reference.
+ */
+export async function verifyBasePayment(params: {
+  blink: BlinkData
+  reference: string
+  txHash: string
+  priceUsdc?: string // The run's locked price (defaults to blink.price_usdc)
+}): Promise<VerifiedUsdcPayment> {
+  const { blink, reference, txHash, priceUsdc = blink.price_usdc } = params
+
+  if (!isValidTxHash(txHash)) {
+    throw new Error('Invalid Base transaction hash')
+  }
+  if (!isBaseReference(reference)) {
+    throw new Error('Invalid Base payment reference')
+  }
+
+  const amountUsdc = parseFloat(priceUsdc)
+  if (!amountUsdc || amountUsdc <= 0) {
+    throw new Error(`Invalid blink price: ${priceUsdc}`)
+  }
+
+  return verifyUsdcPayment({
+    txHash,
+    merchant: blink.payout_wallet as `0x${string}`,
+    amountUsdc,
+    reference,
+    network: getBaseNetwork(),
+    rpcUrl: process.env.BASE_RPC_URL,
+    timeoutMs: BASE_RECEIPT_TIMEOUT_MS,
+  })
+}
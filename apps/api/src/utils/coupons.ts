@@ -0,0 +1,147 @@
+// Coupons: creator promo code validation, redemption checks and discounts
+import type { AppliedCoupon, Coupon, CouponDiscountType, PriceQuote } from '@blink402/types'
+import { getCouponForBlink, countWalletCouponRedemptions } from '@blink402/database'
+import { usdcToLamports, lamportsToUsdc } from '@blink402/solana'
+
+export const MAX_COUPONS_PER_CREATOR = 100
+
+const COUPON_CODE_PATTERN = /^[A-Za-z0-9_-]{3,32}$/
+const USDC_AMOUNT_PATTERN = /^\d+(\.\d{1,6})?$/
+const DISCOUNT_TYPES: CouponDiscountType[] = ['percent', 'fixed']
+const MAX_PERCENT_OFF = 99 // A discounted run still pays something
+const MAX_SCOPED_BLINKS = 50
+
+/**
+ * Coupon fields from a create/update body
+ */
+export interface CouponBody {
+  code?: string
+  discount_type?: CouponDiscountType
+  discount_value?: string
+  blinks?: string[] | null // Blink slugs (null = all of the creator's blinks)
+  max_redemptions?: number | null
+  max_per_wallet?: number | null
+  expires_at?: string | null
+  is_active?: boolean
+}
+
+function isLimit(value: unknown): boolean {
+  return value === null || (Number.isInteger(value) && (value as number) > 0 && (value as number) <= 1_000_000)
+}
+
+/**
+ * Validate the coupon fields that are present in the body
+ * @returns Error details, or null when valid
+ */
+export function validateCouponBody(body: CouponBody): string | null {
+  if (body.code !== undefined && (typeof body.code !== 'string' || !COUPON_CODE_PATTERN.test(body.code))) {
+    return 'code must be 3-32 characters of letters, digits, _ or -'
+  }
+  if (body.discount_type !== undefined && !DISCOUNT_TYPES.includes(body.discount_type)) {
+    return `discount_type must be one of: ${DISCOUNT_TYPES.join(', ')}`
+  }
+  if (body.discount_value !== undefined) {
+    if (typeof body.discount_value !== 'string' || !USDC_AMOUNT_PATTERN.test(body.discount_value) ||
+        !(parseFloat(body.discount_value) > 0)) {
+      return 'discount_value must be a positive amount with at most 6 decimals'
+    }
+    if (body.discount_type === 'percent' && parseFloat(body.discount_value) > MAX_PERCENT_OFF) {
+      return `Percent coupons can take at most ${MAX_PERCENT_OFF}% off`
+    }
+  }
+  if (body.blinks !== undefined && body.blinks !== null &&
+      (!Array.isArray(body.blinks) || body.blinks.length === 0 || body.blinks.length > MAX_SCOPED_BLINKS ||
+       body.blinks.some((slug) => typeof slug !== 'string' || !slug))) {
+    return `blinks must be a list of 1-${MAX_SCOPED_BLINKS} blink slugs, or null for all of your blinks`
+  }
+  if (body.max_redemptions !== undefined && !isLimit(body.max_redemptions)) {
+    return 'max_redemptions must be a positive whole number, or null for unlimited'
+  }
+  if (body.max_per_wallet !== undefined && !isLimit(body.max_per_wallet)) {
+    return 'max_per_wallet must be a positive whole number, or null for unlimited'
+  }
+  if (body.expires_at !== undefined && body.expires_at !== null &&
+      (typeof body.expires_at !== 'string' || isNaN(Date.parse(body.expires_at)))) {
+    return 'expires_at must be an ISO date, or null for no expiry'
+  }
+  if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
+    return 'is_active must be a boolean'
+  }
+  return null
+}
+
+/**
+ * Look up a coupon code for a call and check it can still be redeemed
+ * @param params.wallet - Payer, when known (required for coupons with a per-wallet limit)
+ * @returns The coupon, or error details to show the caller
+ */
+export async function resolveCoupon(params: {
+  code: string
+  blink: { id: string; payment_token?: string }
+  wallet?: string | null
+}): Promise<{ coupon: Coupon } | { error: string }> {
+  const { code, blink, wallet } = params
+
+  if (typeof code !== 'string' || !COUPON_CODE_PATTERN.test(code)) {
+    return { error: 'Coupon code not found' }
+  }
+  if (blink.payment_token && blink.payment_token !== 'USDC') {
+    return { error: 'Coupons can only be used on USDC blinks' }
+  }
+
+  const coupon = await getCouponForBlink(code, blink.id)
+  if (!coupon || !coupon.is_active) {
+    return { error: 'Coupon code not found' }
+  }
+  if (coupon.expires_at && new Date(coupon.expires_at) <= new Date()) {
+    return { error: 'Coupon has expired' }
+  }
+  if (coupon.max_redemptions !== null && coupon.redemptions >= coupon.max_redemptions) {
+    return { error: 'Coupon has been fully redeemed' }
+  }
+  if (coupon.max_per_wallet !== null) {
+    if (!wallet) {
+      return { error: 'This coupon is limited per wallet - connect a wallet to use it' }
+    }
+    const used = await countWalletCouponRedemptions(coupon.id, wallet)
+    if (used >= coupon.max_per_wallet) {
+      return { error: 'You have already used this coupon the maximum number of times' }
+    }
+  }
+
+  return { coupon }
+}
+
+/**
+ * Apply a coupon to a quote (after the pricing rules)
+ * The discount is capped so the run still costs at least 1% of its quoted price.
+ */
+export function applyCoupon(quote: PriceQuote, coupon: Coupon): PriceQuote {
+  const price = Number(usdcToLamports(quote.price_usdc))
+  const requested = coupon.discount_type === 'percent'
+    ? Math.round(price * parseFloat(coupon.discount_value) / 100)
+    : Number(usdcToLamports(coupon.discount_value))
+  const discount = Math.max(0, Math.min(requested, price - Math.ceil(price / 100)))
+
+  const applied: AppliedCoupon = {
+    id: coupon.id,
+    code: coupon.code,
+    discount_usdc: lamportsToUsdc(discount),
+  }
+
+  return {
+    ...quote,
+    price_usdc: lamportsToUsdc(price - discount),
+    adjustments: [
+      ...quote.adjustments,
+      {
+        rule: 'coupon',
+        detail: coupon.code,
+        ...(coupon.discount_type === 'percent'
+          ? { percent_off: parseFloat(coupon.discount_value) }
+          : { amount_off: applied.discount_usdc }),
+      },
+    ],
+    coupon: applied,
+  }
+}
@@ -0,0 +1,379 @@
+// Prepaid credits: signed per-call authorizations, deposit verification, withdrawals and creator settlements
+import type { FastifyInstance } from 'fastify'
+import { Keypair } from '@solana/web3.js'
+import type { CreditAuthorization, CreditTransaction } from '@blink402/types'
+import {
+  startCreditWithdrawal,
+  markCreditWithdrawalSending,
+  completeCreditWithdrawal,
+  failCreditWithdrawal,
+  getCreditTransaction,
+  markCreditSettlementSending,
+  completeCreditSettlement,
+  failCreditSettlement,
+  type SendingCreditWithdrawal,
+  type CreditSettlementData,
+} from '@blink402/database'
+import {
+  getConnection,
+  parsePublicKey,
+  getUsdcMint,
+  usdcToLamports,
+  lamportsToUsdc,
+  verifyMessageSignature,
+  generateCreditAuthorizationMessage,
+  buildRefundTransaction,
+  executeRefund,
+  getTransferStatus,
+} from '@blink402/solana'
+import { getReceivedAmount } from '../workers/ledger-reconciliation.js'
+
+type Logger = FastifyInstance['log']
+
+// Authorizations are signed just before the call
+export const CREDIT_AUTHORIZATION_MAX_AGE = 5 * 60 * 1000 // 5 minutes
+
+// Deposits must be claimed soon after they are sent
+const DEPOSIT_MAX_AGE_SECONDS = 24 * 60 * 60
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,64}$/
+
+/**
+ * Run reference of a credit-paid call (one run per authorization nonce)
+ */
+export function creditRunReference(nonce: string): string {
+  return `credits-${nonce}`
+}
+
+/**
+ * Decode the X-Credit-Authorization header (base64 JSON)
+ * @returns null when the header is missing or malformed
+ */
+export function parseCreditAuthorization(header: string | undefined): CreditAuthorization | null {
+  if (!header) return null
+
+  try {
+    const auth = JSON.parse(Buffer.from(header, 'base64').toString('utf-8'))
+    if (
+      typeof auth?.wallet !== 'string' ||
+      typeof auth.slug !== 'string' ||
+      typeof auth.max_amount !== 'string' ||
+      typeof auth.nonce !== 'string' ||
+      typeof auth.timestamp !== 'number' ||
+      typeof auth.signature !== 'string'
+    ) {
+      return null
+    }
+    return auth
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check a credit authorization against the blink being called
+ * Replays are stopped by the run reference: a nonce can only ever create one run.
+ * The call's quoted price is checked against max_amount with checkCreditMaxAmount.
+ * @returns Error details, or null when the authorization is valid
+ */
+export function verifyCreditAuthorization(
+  auth: CreditAuthorization,
+  blink: { slug: string }
+): string | null {
+  if (!parsePublicKey(auth.wallet)) {
+    return 'wallet must be a valid Solana address'
+  }
+  if (!NONCE_PATTERN.test(auth.nonce)) {
+    return 'nonce must be 16-64 characters of letters, digits, _ or -'
+  }
+  if (auth.slug !== blink.slug) {
+    return 'Authorization was signed for a different blink'
+  }
+
+  const age = Date.now() - auth.timestamp
+  if (age < 0 || age > CREDIT_AUTHORIZATION_MAX_AGE) {
+    return 'Authorization expired (5 minute limit) - sign a new one'
+  }
+
+  if (!(parseFloat(auth.max_amount) > 0)) {
+    return 'max_amount must be a positive USDC amount'
+  }
+
+  const message = generateCreditAuthorizationMessage({
+    wallet: auth.wallet,
+    slug: auth.slug,
+    maxAmount: auth.max_amount,
+    nonce: auth.nonce,
+    timestamp: auth.timestamp,
+  })
+  if (!verifyMessageSignature(message, auth.signature, auth.wallet)) {
+    return 'Invalid authorization signature'
+  }
+
+  return null
+}
+
+/**
+ * Check that a call's price fits the authorization's spend cap
+ * @returns Error details, or null when the call is within max_amount
+ */
+export function checkCreditMaxAmount(auth: CreditAuthorization, priceUsdc: string): string | null {
+  if (parseFloat(priceUsdc) > parseFloat(auth.max_amount)) {
+    return `Call costs ${priceUsdc} USDC, more than the authorized ${auth.max_amount} USDC`
+  }
+  return null
+}
+
+/**
+ * Credits treasury keypair (from CREDITS_TREASURY_KEYPAIR)
+ * Holds prepaid credit deposits and sends withdrawals and creator settlements. Kept apart
+ * from the refund wallet so refunds can never spend deposits that back credit balances.
+ * @throws Error if CREDITS_TREASURY_KEYPAIR is not configured
+ */
+export function getCreditTreasuryKeypair(): Keypair {
+  const secret = process.env.CREDITS_TREASURY_KEYPAIR
+  if (!secret) {
+    throw new Error('CREDITS_TREASURY_KEYPAIR not configured')
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secret)))
+}
+
+/**
+ * Wallet that receives credit deposits (the credits treasury)
+ */
+export function getCreditDepositWallet(): string {
+  return getCreditTreasuryKeypair().publicKey.toBase58()
+}
+
+/**
+ * Verify a USDC transfer from the wallet to the deposit wallet
+ * @returns Amount deposited in USDC
+ * @throws Error when the transaction is not a recent, successful transfer from this wallet
+ */
+export async function verifyCreditDeposit(params: { wallet: string; signature: string }): Promise<string> {
+  const { wallet, signature } = params
+  const depositWallet = getCreditDepositWallet()
+
+  const tx = await getConnection().getParsedTransaction(signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0,
+  })
+
+  if (!tx || !tx.meta) {
+    throw new Error('Transaction not found - wait for confirmation and try again')
+  }
+  if (tx.meta.err) {
+    throw new Error('Transaction failed on-chain')
+  }
+  if (tx.blockTime && Date.now() / 1000 - tx.blockTime > DEPOSIT_MAX_AGE_SECONDS) {
+    throw new Error('Deposits must be claimed within 24 hours of the transfer')
+  }
+
+  const received = getReceivedAmount(tx, depositWallet, 'USDC')
+  if (received === null || received <= BigInt(0)) {
+    throw new Error(`Transaction does not transfer USDC to ${depositWallet}`)
+  }
+
+  const sent = getReceivedAmount(tx, wallet, 'USDC')
+  if (sent === null || -sent < received) {
+    throw new Error('USDC was not sent from this wallet')
+  }
+
+  return lamportsToUsdc(received)
+}
+
+/**
+ * Withdraw unused credits back to the wallet
+ * The amount leaves the balance first. The withdrawal is saved as sending with its signature as soon
+ * as the transfer is broadcast; if it then can't be confirmed it stays sending and is settled on-chain
+ * (settleSendingCreditWithdrawal). Only failures before the broadcast put the amount back.
+ * @param params.amount - USDC to withdraw (defaults to the whole balance)
+ * @throws Error when there is nothing (or not enough) to withdraw
+ */
+export async function sendCreditWithdrawal(params: {
+  wallet: string
+  amount?: string
+  log: Logger
+}): Promise<CreditTransaction> {
+  const { wallet, amount, log } = params
+
+  const treasuryKeypair = getCreditTreasuryKeypair()
+  const withdrawal = await startCreditWithdrawal({ wallet, amount })
+  let broadcastSignature: string | null = null
+  let signature: string
+
+  try {
+    const connection = getConnection()
+    const transaction = await buildRefundTransaction({
+      connection,
+      platformWallet: treasuryKeypair.publicKey,
+      user: parsePublicKey(wallet)!,
+      amount: usdcToLamports(withdrawal.amount),
+      memo: 'Blink402 credit withdrawal',
+      tokenMint: getUsdcMint(),
+    })
+
+    signature = await executeRefund({
+      connection,
+      transaction,
+      platformKeypair: treasuryKeypair,
+      onBroadcast: async ({ signature, lastValidBlockHeight }) => {
+        broadcastSignature = signature
+        await markCreditWithdrawalSending({ id: withdrawal.id, signature, lastValidBlockHeight })
+      },
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+
+    // The transfer may still land - never put the amount back from here
+    if (broadcastSignature) {
+      log.error({ error: errorMessage, wallet, withdrawalId: withdrawal.id, signature: broadcastSignature },
+        'Credit withdrawal broadcast but not confirmed - will be checked on-chain')
+      return (await getCreditTransaction(withdrawal.id))!
+    }
+
+    log.error({ error: errorMessage, wallet, withdrawalId: withdrawal.id }, 'Credit withdrawal failed')
+    return failCreditWithdrawal({ id: withdrawal.id, error: errorMessage.substring(0, 500) })
+  }
+
+  log.info({ wallet, withdrawalId: withdrawal.id, amount: withdrawal.amount, signature }, 'Credit withdrawal sent')
+
+  // The transfer landed - never put the amount back on the balance from here on
+  try {
+    return await completeCreditWithdrawal({
+      id: withdrawal.id,
+      signature,
+      fromWallet: treasuryKeypair.publicKey.toBase58(),
+    })
+  } catch (error) {
+    log.error({ error, withdrawalId: withdrawal.id, signature }, 'Credit withdrawal sent but not recorded - will be checked on-chain')
+    return (await getCreditTransaction(withdrawal.id))!
+  }
+}
+
+/**
+ * Settle a sending withdrawal by looking its transfer up on-chain
+ * Landed transfers complete the withdrawal; failed or expired ones put the amount back on the balance.
+ * Transfers that can still land are left for the next check.
+ */
+export async function settleSendingCreditWithdrawal(withdrawal: SendingCreditWithdrawal, log: Logger): Promise<void> {
+  const status = await getTransferStatus({
+    connection: getConnection(),
+    signature: withdrawal.signature,
+    lastValidBlockHeight: Number(withdrawal.last_valid_block_height),
+  })
+
+  if (status === 'confirmed') {
+    await completeCreditWithdrawal({
+      id: withdrawal.id,
+      signature: withdrawal.signature,
+      fromWallet: getCreditDepositWallet(),
+    })
+    log.info({ withdrawalId: withdrawal.id, signature: withdrawal.signature }, 'Credit withdrawal confirmed on-chain')
+  } else if (status !== 'pending') {
+    await failCreditWithdrawal({ id: withdrawal.id, error: `Withdrawal transfer ${status} on-chain` })
+    log.warn({ withdrawalId: withdrawal.id, signature: withdrawal.signature, status }, 'Credit withdrawal did not land - amount returned to balance')
+  }
+}
+
+/**
+ * Pay a creator for one credit-paid run from the credits treasury
+ * The settlement is saved as sending with its signature as soon as the transfer is broadcast; from then
+ * on it is settled on-chain (settleSendingCreditSettlement), never sent again. Failures before the
+ * broadcast mark it failed + scheduled for retry.
+ * @returns true when the transfer was confirmed
+ */
+export async function sendCreditSettlement(settlement: CreditSettlementData, log: Logger): Promise<boolean> {
+  let broadcastSignature: string | null = null
+  let signature: string
+  let fromWallet: string
+
+  try {
+    const recipient = parsePublicKey(settlement.wallet)
+    if (!recipient) {
+      throw new Error(`Invalid payout wallet: ${settlement.wallet}`)
+    }
+
+    const treasuryKeypair = getCreditTreasuryKeypair()
+    fromWallet = treasuryKeypair.publicKey.toBase58()
+    const connection = getConnection()
+    const transaction = await buildRefundTransaction({
+      connection,
+      platformWallet: treasuryKeypair.publicKey,
+      user: recipient,
+      amount: usdcToLamports(settlement.amount_usdc),
+      memo: `Blink402 credit settlement - Blink: ${settlement.blink_slug}`,
+      tokenMint: getUsdcMint(),
+    })
+
+    signature = await executeRefund({
+      connection,
+      transaction,
+      platformKeypair: treasuryKeypair,
+      onBroadcast: async ({ signature, lastValidBlockHeight }) => {
+        broadcastSignature = signature
+        await markCreditSettlementSending({ id: settlement.id, signature, lastValidBlockHeight })
+      },
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+
+    // The transfer may still land - never send this settlement again from here
+    if (broadcastSignature) {
+      log.error({ error: errorMessage, settlementId: settlement.id, reference: settlement.reference, signature: broadcastSignature },
+        'Credit settlement broadcast but not confirmed - will be checked on-chain')
+      return false
+    }
+
+    log.error({ error: errorMessage, settlementId: settlement.id, reference: settlement.reference }, 'Credit settlement failed')
+    await failCreditSettlement({ id: settlement.id, error: errorMessage.substring(0, 500) })
+    return false
+  }
+
+  log.info({
+    settlementId: settlement.id,
+    reference: settlement.reference,
+    wallet: settlement.wallet,
+    amount: settlement.amount_usdc,
+    signature,
+  }, 'Credit settlement sent')
+
+  // The transfer landed - if recording it fails the settlement stays sending and is settled on-chain
+  try {
+    await completeCreditSettlement({ id: settlement.id, signature, fromWallet })
+  } catch (error) {
+    log.error({ error, settlementId: settlement.id, signature }, 'Credit settlement sent but not recorded - will be checked on-chain')
+  }
+  return true
+}
+
+/**
+ * Settle a sending credit settlement by looking its transfer up on-chain
+ * Landed transfers complete the settlement; failed or expired ones are scheduled for retry.
+ * Transfers that can still land are left for the next check.
+ * @returns true when the transfer was confirmed
+ */
+export async function settleSendingCreditSettlement(settlement: CreditSettlementData, log: Logger): Promise<boolean> {
+  if (!settlement.signature || !settlement.last_valid_block_height) {
+    log.error({ settlementId: settlement.id }, 'Sending credit settlement has no signature - manual intervention required')
+    return false
+  }
+
+  const status = await getTransferStatus({
+    connection: getConnection(),
+    signature: settlement.signature,
+    lastValidBlockHeight: Number(settlement.last_valid_block_height),
+  })
+
+  if (status === 'confirmed') {
+    await completeCreditSettlement({ id: settlement.id, signature: settlement.signature, fromWallet: getCreditDepositWallet() })
+    log.info({ settlementId: settlement.id, signature: settlement.signature }, 'Credit settlement confirmed on-chain')
+    return true
+  }
+
+  if (status !== 'pending') {
+    await failCreditSettlement({ id: settlement.id, error: `Settlement transfer ${status} on-chain` })
+    log.warn({ settlementId: settlement.id, signature: settlement.signature, status }, 'Credit settlement did not land - retry scheduled')
+  }
+  return false
+}
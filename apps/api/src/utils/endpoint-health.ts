@@ -1,6 +1,7 @@
 // Endpoint health checking and reliability utilities
 import type { FastifyInstance } from 'fastify'
 import { fetch } from 'undici'
+import { applyUpstreamAuthToUrl, type ResolvedUpstreamAuth } from './upstream-auth.js'
 
 // Configuration (can be overridden via env vars)
 const config = {
@@ -34,13 +35,19 @@ export interface HealthCheckResult {
  * IMPORTANT: We now test the ACTUAL method (POST/GET) to catch cases where:
  * - OPTIONS/HEAD work but POST is blocked (IP-based blocking, anti-bot)
  * - 403/401 responses indicate the endpoint won't work from our servers
+ *
+ * When the creator supplied upstream credentials, they're sent with the test request
+ * (and redirects are refused so the secret can't leak to another host).
  */
 export async function validateEndpoint(
   url: string,
   method: string = 'POST',
-  logger?: FastifyInstance['log']
+  logger?: FastifyInstance['log'],
+  upstreamAuth?: ResolvedUpstreamAuth | null
 ): Promise<EndpointValidationResult> {
   const startTime = Date.now()
+  const authHeaders = upstreamAuth?.headers || {}
+  const redirect = upstreamAuth ? 'error' as const : 'follow' as const
 
   try {
     // Validate URL format
@@ -69,13 +76,15 @@ export async function validateEndpoint(
     // This catches cases where OPTIONS works but POST is blocked
     if (method === 'POST' || method === 'PUT' || method === 'PATCH') {
       try {
-        const testResponse = await fetch(url, {
+        const testResponse = await fetch(applyUpstreamAuthToUrl(url, upstreamAuth ?? null), {
           method: method,
           headers: {
+            ...authHeaders,
             'Content-Type': 'application/json',
             'User-Agent': 'Blink402-Validator/1.0'
           },
           body: JSON.stringify({}), // Empty body for validation
+          redirect,
           signal: AbortSignal.timeout(config.ENDPOINT_VALIDATION_TIMEOUT)
         })
 
@@ -108,11 +117,13 @@ export async function validateEndpoint(
 
     // For GET methods or fallback: test with actual GET
     try {
-      const getResponse = await fetch(url, {
+      const getResponse = await fetch(applyUpstreamAuthToUrl(url, upstreamAuth ?? null), {
         method: 'GET',
         headers: {
+          ...authHeaders,
           'User-Agent': 'Blink402-Validator/1.0'
         },
+        redirect,
         signal: AbortSignal.timeout(config.ENDPOINT_VALIDATION_TIMEOUT)
       })
 
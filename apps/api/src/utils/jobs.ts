@@ -0,0 +1,101 @@
+// Durable background jobs: handler registry, worker identity and retry backoff
+import { hostname } from 'os'
+import { randomUUID } from 'crypto'
+import { enqueueJob } from '@blink402/database'
+import type { BackgroundJob } from '@blink402/types'
+
+/**
+ * Job handler
+ * The signal aborts once the runner loses the job's lease (another replica may be running it):
+ * handlers call signal.throwIfAborted() before each on-chain send and stop there.
+ */
+export type JobHandler = (job: BackgroundJob, signal: AbortSignal) => Promise<void>
+
+export interface RegisteredJob {
+  name: string
+  handler: JobHandler
+  leaseMs: number
+  maxAttempts: number
+  intervalMs: number | null // Recurring jobs only
+}
+
+// Identifies this process in locked_by (unique per process start)
+export const JOB_WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+
+export const DEFAULT_JOB_LEASE_MS = 2 * 60 * 1000 // Extended every third of the lease while running
+export const DEFAULT_JOB_MAX_ATTEMPTS = 5
+
+// Key shared by every replica for the single row of a recurring job
+export const RECURRING_JOB_KEY = 'recurring'
+
+const BASE_RETRY_DELAY_MS = 15 * 1000 // 15s, 30s, 1m, 2m ... capped below
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000 // 30 minutes
+
+const registry = new Map<string, RegisteredJob>()
+
+/**
+ * Register the handler for a job name (the job runner only claims registered names)
+ */
+export function registerJob(name: string, handler: JobHandler, options: {
+  leaseMs?: number
+  maxAttempts?: number
+} = {}): void {
+  registry.set(name, {
+    name,
+    handler,
+    leaseMs: options.leaseMs ?? DEFAULT_JOB_LEASE_MS,
+    maxAttempts: options.maxAttempts ?? DEFAULT_JOB_MAX_ATTEMPTS,
+    intervalMs: null,
+  })
+}
+
+/**
+ * Register a handler that runs every intervalMs on exactly one replica at a time
+ * Creates the job's row unless another replica already did.
+ */
+export async function registerRecurringJob(name: string, intervalMs: number, handler: JobHandler, options: {
+  leaseMs?: number
+  maxAttempts?: number
+} = {}): Promise<void> {
+  registerJob(name, handler, options)
+  const job = registry.get(name)!
+  job.intervalMs = intervalMs
+  await ensureRecurringJob(job)
+}
+
+/**
+ * Make sure a recurring job has a live row (e.g. after its last one was dead-lettered)
+ */
+export async function ensureRecurringJob(job: RegisteredJob, runAt?: Date): Promise<void> {
+  if (job.intervalMs === null) return
+
+  await enqueueJob({
+    name: job.name,
+    dedupeKey: RECURRING_JOB_KEY,
+    runAt,
+    maxAttempts: job.maxAttempts,
+    recurringIntervalMs: job.intervalMs,
+  })
+}
+
+export function getRegisteredJob(name: string): RegisteredJob | undefined {
+  return registry.get(name)
+}
+
+export function getRegisteredJobNames(): string[] {
+  return [...registry.keys()]
+}
+
+/**
+ * When to retry after a failed attempt
+ * @param attempts - Attempts made so far, including the one that just failed
+ * @returns Next attempt time, or null once maxAttempts is reached (dead-letter)
+ */
+export function getNextJobAttempt(attempts: number, maxAttempts: number, now: number = Date.now()): Date | null {
+  if (attempts >= maxAttempts) {
+    return null
+  }
+
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS)
+  return new Date(now + delay)
+}
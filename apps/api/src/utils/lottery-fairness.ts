@@ -0,0 +1,102 @@
+// Commit-reveal lottery draws: seed commitments, Solana blockhash entropy and reproducible winner selection
+import { createHash, randomBytes } from 'crypto'
+import seedrandom from 'seedrandom'
+import { encrypt } from '@blink402/database'
+import { getConnection } from '@blink402/solana'
+import type { LotteryEntry } from '@blink402/types'
+
+// Slots between closing a round and its entropy block (~13s), so the blockhash can't be known at close
+export const ENTROPY_SLOT_DELAY = 32
+// Skipped slots are common, but never this many in a row
+const ENTROPY_SEARCH_WINDOW = 1000
+
+export const DRAW_ALGORITHM_DESCRIPTION = [
+  'server_seed_hash = sha256(server_seed)',
+  'entropy = blockhash of the first finalized Solana block at or after entropy.target_slot',
+  'draw_seed = sha256(`${server_seed}:${entropy.blockhash}`) as hex',
+  'rng = seedrandom(draw_seed); entries in the listed order are Fisher-Yates shuffled with',
+  'j = floor(rng() * (i + 1)) for i from length - 1 down to 1;',
+  'winners are the first distinct payer wallets of the shuffled list, ranked 1, 2, 3',
+].join(' ')
+
+/**
+ * Generate a server seed and its commitment for a new round
+ * The seed is encrypted for storage until the draw reveals it.
+ */
+export function createSeedCommitment(): { serverSeedHash: string; encryptedServerSeed: string } {
+  const serverSeed = randomBytes(32).toString('hex')
+  return {
+    serverSeedHash: hashServerSeed(serverSeed),
+    encryptedServerSeed: encrypt(serverSeed),
+  }
+}
+
+export function hashServerSeed(serverSeed: string): string {
+  return createHash('sha256').update(serverSeed).digest('hex')
+}
+
+export function computeDrawSeed(serverSeed: string, blockhash: string): string {
+  return createHash('sha256').update(`${serverSeed}:${blockhash}`).digest('hex')
+}
+
+/**
+ * Current confirmed slot plus the entropy delay, fixed when a round closes
+ */
+export async function getEntropyTargetSlot(): Promise<number> {
+  const slot = await getConnection().getSlot('confirmed')
+  return slot + ENTROPY_SLOT_DELAY
+}
+
+/**
+ * Find the first finalized block at or after the target slot
+ * @returns null while that block isn't finalized yet
+ */
+export async function resolveEntropyBlock(targetSlot: number): Promise<{ slot: number; blockhash: string } | null> {
+  const connection = getConnection()
+  const finalizedSlot = await connection.getSlot('finalized')
+  if (finalizedSlot < targetSlot) return null
+
+  const slots = await connection.getBlocks(
+    targetSlot,
+    Math.min(finalizedSlot, targetSlot + ENTROPY_SEARCH_WINDOW),
+    'finalized'
+  )
+  if (slots.length === 0) return null
+
+  const block = await connection.getBlock(slots[0], {
+    commitment: 'finalized',
+    maxSupportedTransactionVersion: 0,
+    transactionDetails: 'none',
+    rewards: false,
+  })
+  if (!block) return null
+
+  return { slot: slots[0], blockhash: block.blockhash }
+}
+
+/**
+ * Select up to `count` winners from entries with the draw seed
+ * Deterministic for a given seed and entry order, so anyone can recompute it.
+ */
+export function selectWinners(entries: LotteryEntry[], count: number, drawSeed: string): LotteryEntry[] {
+  const rng = seedrandom(drawSeed)
+
+  // Fisher-Yates shuffle with seeded RNG
+  const shuffled = [...entries]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+
+  // One prize per wallet, however many entries it bought
+  const winners: LotteryEntry[] = []
+  const seen = new Set<string>()
+  for (const entry of shuffled) {
+    if (winners.length >= count) break
+    if (seen.has(entry.payer_wallet)) continue
+    seen.add(entry.payer_wallet)
+    winners.push(entry)
+  }
+
+  return winners
+}
@@ -0,0 +1,214 @@
+// Access passes: blink pass config, signed pass-call authorizations and pass purchase verification
+import type { AccessPass, BlinkAccessPassConfig, PassAuthorization } from '@blink402/types'
+import {
+  getConnection,
+  parsePublicKey,
+  lamportsToUsdc,
+  usdcToLamports,
+  verifyMessageSignature,
+  generatePassAuthorizationMessage,
+} from '@blink402/solana'
+import { getReceivedAmount } from '../workers/ledger-reconciliation.js'
+import { CREDIT_AUTHORIZATION_MAX_AGE } from './credits.js'
+
+const USDC_AMOUNT_PATTERN = /^\d+(\.\d{1,6})?$/
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,64}$/
+
+const MAX_PASS_DURATION_HOURS = 366 * 24 // A year
+const MAX_PASS_CALLS = 1_000_000
+const MAX_LABEL_LENGTH = 60
+
+// Purchases must be claimed soon after the transfer is sent
+const PURCHASE_MAX_AGE_SECONDS = 24 * 60 * 60
+
+/**
+ * Validate access_pass from a create/update body
+ * @returns Error details, or null when valid
+ */
+export function validateAccessPassConfig(config: unknown): string | null {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'access_pass must be an object'
+  }
+  const pass = config as Partial<BlinkAccessPassConfig>
+
+  if (typeof pass.price_usdc !== 'string' || !USDC_AMOUNT_PATTERN.test(pass.price_usdc) || !(parseFloat(pass.price_usdc) > 0)) {
+    return 'access_pass.price_usdc must be a positive USDC amount with at most 6 decimals'
+  }
+  if (!Number.isInteger(pass.duration_hours) || pass.duration_hours! < 1 || pass.duration_hours! > MAX_PASS_DURATION_HOURS) {
+    return `access_pass.duration_hours must be a whole number of hours between 1 and ${MAX_PASS_DURATION_HOURS}`
+  }
+  if (pass.call_limit !== undefined && pass.call_limit !== null &&
+      (!Number.isInteger(pass.call_limit) || pass.call_limit < 1 || pass.call_limit > MAX_PASS_CALLS)) {
+    return `access_pass.call_limit must be between 1 and ${MAX_PASS_CALLS}, or null for unlimited calls`
+  }
+  if (pass.subscription !== undefined && typeof pass.subscription !== 'boolean') {
+    return 'access_pass.subscription must be a boolean'
+  }
+  if (pass.label !== undefined && (typeof pass.label !== 'string' || pass.label.length > MAX_LABEL_LENGTH)) {
+    return `access_pass.label must be a string of at most ${MAX_LABEL_LENGTH} characters`
+  }
+
+  const unknownKey = Object.keys(pass).find((key) =>
+    !['price_usdc', 'duration_hours', 'call_limit', 'subscription', 'label'].includes(key)
+  )
+  if (unknownKey) {
+    return `access_pass.${unknownKey} is not supported`
+  }
+
+  return null
+}
+
+/**
+ * Human-readable summary of a pass, e.g. "100 calls for 7 days"
+ */
+export function describeAccessPass(config: BlinkAccessPassConfig): string {
+  if (config.label) return config.label
+
+  const hours = config.duration_hours
+  const period = hours % 24 === 0
+    ? `${hours / 24} day${hours === 24 ? '' : 's'}`
+    : `${hours} hour${hours === 1 ? '' : 's'}`
+  const calls = config.call_limit ? `${config.call_limit} calls` : 'Unlimited calls'
+  return `${calls} for ${period}`
+}
+
+/**
+ * What a caller needs to know about a pass: the offer, and their current pass if any
+ */
+export function formatPassStatus(pass: AccessPass | null) {
+  if (!pass) return null
+  return {
+    expires_at: pass.expires_at,
+    calls_remaining: pass.calls_remaining,
+    call_limit: pass.call_limit,
+    calls_used: pass.calls_used,
+    subscription: pass.subscription,
+  }
+}
+
+/**
+ * Run reference of a pass-covered call (one run per authorization nonce)
+ */
+export function passRunReference(nonce: string): string {
+  return `pass-${nonce}`
+}
+
+/**
+ * Check an Idempotency-Key sent with a credit pass purchase
+ */
+export function isValidPassPurchaseKey(key: unknown): key is string {
+  return typeof key === 'string' && NONCE_PATTERN.test(key)
+}
+
+/**
+ * Run reference of a pass bought with credits (one pass per client idempotency key)
+ */
+export function passCreditPurchaseReference(idempotencyKey: string): string {
+  return `pass-credits-${idempotencyKey}`
+}
+
+/**
+ * Run reference of a pass bought with an on-chain transfer (one pass per transfer)
+ */
+export function passPurchaseReference(txSignature: string): string {
+  return `pass-buy-${txSignature}`
+}
+
+/**
+ * Decode the X-Pass-Authorization header (base64 JSON)
+ * @returns null when the header is missing or malformed
+ */
+export function parsePassAuthorization(header: string | undefined): PassAuthorization | null {
+  if (!header) return null
+
+  try {
+    const auth = JSON.parse(Buffer.from(header, 'base64').toString('utf-8'))
+    if (
+      typeof auth?.wallet !== 'string' ||
+      typeof auth.slug !== 'string' ||
+      typeof auth.nonce !== 'string' ||
+      typeof auth.timestamp !== 'number' ||
+      typeof auth.signature !== 'string'
+    ) {
+      return null
+    }
+    return auth
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check a pass authorization against the blink being called
+ * Whether the wallet holds a usable pass is checked when the call is counted.
+ * @returns Error details, or null when the authorization is valid
+ */
+export function verifyPassAuthorization(auth: PassAuthorization, blink: { slug: string }): string | null {
+  if (!parsePublicKey(auth.wallet)) {
+    return 'wallet must be a valid Solana address'
+  }
+  if (!NONCE_PATTERN.test(auth.nonce)) {
+    return 'nonce must be 16-64 characters of letters, digits, _ or -'
+  }
+  if (auth.slug !== blink.slug) {
+    return 'Authorization was signed for a different blink'
+  }
+
+  const age = Date.now() - auth.timestamp
+  if (age < 0 || age > CREDIT_AUTHORIZATION_MAX_AGE) {
+    return 'Authorization expired (5 minute limit) - sign a new one'
+  }
+
+  const message = generatePassAuthorizationMessage({
+    wallet: auth.wallet,
+    slug: auth.slug,
+    nonce: auth.nonce,
+    timestamp: auth.timestamp,
+  })
+  if (!verifyMessageSignature(message, auth.signature, auth.wallet)) {
+    return 'Invalid authorization signature'
+  }
+
+  return null
+}
+
+/**
+ * Verify a USDC transfer from the wallet to the blink's payout wallet that pays for a pass
+ * @returns Amount paid in USDC
+ * @throws Error when the transaction is not a recent, successful transfer of at least the pass price
+ */
+export async function verifyPassPurchase(params: {
+  wallet: string
+  payoutWallet: string
+  price: string
+  signature: string
+}): Promise<string> {
+  const { wallet, payoutWallet, price, signature } = params
+
+  const tx = await getConnection().getParsedTransaction(signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0,
+  })
+
+  if (!tx || !tx.meta) {
+    throw new Error('Transaction not found - wait for confirmation and try again')
+  }
+  if (tx.meta.err) {
+    throw new Error('Transaction failed on-chain')
+  }
+  if (tx.blockTime && Date.now() / 1000 - tx.blockTime > PURCHASE_MAX_AGE_SECONDS) {
+    throw new Error('Passes must be claimed within 24 hours of the transfer')
+  }
+
+  const received = getReceivedAmount(tx, payoutWallet, 'USDC')
+  if (received === null || received < usdcToLamports(price)) {
+    throw new Error(`Transaction does not transfer ${price} USDC to ${payoutWallet}`)
+  }
+
+  const sent = getReceivedAmount(tx, wallet, 'USDC')
+  if (sent === null || -sent < received) {
+    throw new Error('USDC was not sent from this wallet')
+  }
+
+  return lamportsToUsdc(received)
+}
@@ -0,0 +1,353 @@
+import type { FastifyInstance } from 'fastify'
+// Pipeline blinks: step validation, input mapping between steps and sequential execution
+import {
+  getBlinkBySlug,
+  getPool,
+  getPipelineStepRuns,
+  startPipelineStepRun,
+  completePipelineStepRun,
+} from '@blink402/database'
+import type { BlinkData, PipelineConfig, PipelineStep } from '@blink402/types'
+import { parseJsonPath, selectJsonPath, applyResponseTransform } from './response-transform.js'
+import { checkRequestTemplateInputs, buildTemplatedRequest } from './request-template.js'
+import { loadUpstreamAuth, applyUpstreamAuthToUrl } from './upstream-auth.js'
+import { validateUpstreamUrl, getInternalApiBaseUrl } from './upstream-url.js'
+import { isBinaryContentType, readBodyWithLimit, UpstreamHttpError } from './upstream-response.js'
+import { saveRunArtifact, toArtifactResponse } from './artifacts.js'
+import { updateCircuitBreaker } from './endpoint-health.js'
+
+export const MIN_PIPELINE_STEPS = 2
+export const MAX_PIPELINE_STEPS = 5
+
+const MAX_STEP_INPUTS = 20
+const STEP_TIMEOUT = 30000 // 30 seconds per step
+const MAX_STEP_RESPONSE_SIZE = 10 * 1024 * 1024 // 10MB
+const INPUT_SOURCES = ['input', 'prev', 'steps']
+
+/**
+ * Run values passed to every step (the steps share the pipeline run's payment)
+ */
+export interface PipelineRunContext {
+  id: string
+  reference: string
+  signature: string | null
+  payer: string | null
+}
+
+export interface PipelineStepSummary {
+  slug: string
+  status: 'executed' | 'failed'
+  duration_ms: number
+  resumed?: boolean // Output reused from an earlier attempt of this run
+}
+
+/**
+ * endpoint_url stored for pipeline blinks (never called)
+ */
+export function getPipelineEndpointMarker(pipeline: PipelineConfig): string {
+  return `pipeline:${pipeline.steps.map((step) => step.slug).join(',')}`
+}
+
+function validateStepInputs(step: PipelineStep, index: number, stepBlink: BlinkData): string | null {
+  if (step.inputs === undefined) return null
+
+  const label = `pipeline.steps[${index}].inputs`
+  if (!Array.isArray(step.inputs) || step.inputs.length > MAX_STEP_INPUTS) {
+    return `${label} must be an array of at most ${MAX_STEP_INPUTS} mappings`
+  }
+
+  const declared = new Set((stepBlink.parameters || []).map((p) => p.name))
+
+  for (const [inputIndex, input] of step.inputs.entries()) {
+    const inputLabel = `${label}[${inputIndex}]`
+    if (!input || typeof input.param !== 'string' || !input.param) {
+      return `${inputLabel}.param is required`
+    }
+    if (declared.size > 0 && !declared.has(input.param)) {
+      return `${inputLabel}.param "${input.param}" is not a parameter of ${stepBlink.slug}`
+    }
+    if (input.from === undefined && input.value === undefined) {
+      return `${inputLabel} needs "from" or "value"`
+    }
+    if (input.value !== undefined && !['string', 'number', 'boolean'].includes(typeof input.value)) {
+      return `${inputLabel}.value must be a string, number or boolean`
+    }
+    if (input.from !== undefined) {
+      let tokens: ReturnType<typeof parseJsonPath>
+      try {
+        tokens = parseJsonPath(input.from)
+      } catch (error) {
+        return `${inputLabel}.from: ${error instanceof Error ? error.message : String(error)}`
+      }
+
+      const source = tokens[0]
+      if (typeof source !== 'string' || !INPUT_SOURCES.includes(source)) {
+        return `${inputLabel}.from must start with $.input, $.prev or $.steps[n]`
+      }
+      if (source === 'prev' && index === 0) {
+        return `${inputLabel}.from: the first step has no previous step`
+      }
+      if (source === 'steps' && (typeof tokens[1] !== 'number' || tokens[1] >= index)) {
+        return `${inputLabel}.from: $.steps[n] must reference an earlier step (n < ${index})`
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validate a pipeline from a create/update body
+ * Steps must be active charge blinks of the same creator and cannot be pipelines themselves.
+ * @returns Error details, or null when valid
+ */
+export async function validatePipelineConfig(
+  pipeline: PipelineConfig | undefined | null,
+  creatorWallet: string
+): Promise<string | null> {
+  if (!pipeline || typeof pipeline !== 'object' || !Array.isArray(pipeline.steps)) {
+    return 'pipeline.steps must be an array'
+  }
+  if (pipeline.steps.length < MIN_PIPELINE_STEPS || pipeline.steps.length > MAX_PIPELINE_STEPS) {
+    return `pipeline must have ${MIN_PIPELINE_STEPS}-${MAX_PIPELINE_STEPS} steps`
+  }
+
+  for (const [index, step] of pipeline.steps.entries()) {
+    const label = `pipeline.steps[${index}]`
+    if (!step || typeof step.slug !== 'string' || !step.slug) {
+      return `${label}.slug is required`
+    }
+
+    const stepBlink = await getBlinkBySlug(step.slug)
+    if (!stepBlink || stepBlink.status === 'archived') {
+      return `${label}: blink "${step.slug}" not found`
+    }
+    if (stepBlink.creator.wallet !== creatorWallet) {
+      return `${label}: pipelines can only use your own blinks ("${step.slug}" belongs to another creator)`
+    }
+    if (stepBlink.pipeline) {
+      return `${label}: "${step.slug}" is a pipeline - pipelines cannot be nested`
+    }
+    if (stepBlink.payment_mode === 'reward') {
+      return `${label}: reward blinks cannot be pipeline steps`
+    }
+
+    const inputsError = validateStepInputs(step, index, stepBlink)
+    if (inputsError) return inputsError
+  }
+
+  return null
+}
+
+/**
+ * Combined price of a pipeline's steps (default price of a new pipeline blink)
+ */
+export async function sumPipelineStepPrices(pipeline: PipelineConfig): Promise<string> {
+  let total = 0
+  for (const step of pipeline.steps) {
+    const stepBlink = await getBlinkBySlug(step.slug)
+    total += stepBlink ? parseFloat(stepBlink.price_usdc) : 0
+  }
+  return total.toFixed(6)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Build a step's inputs from the pipeline input and earlier step outputs
+ * Without mappings, the first step gets the pipeline input and later steps get the
+ * previous step's top-level output fields.
+ */
+export function resolvePipelineStepInputs(
+  step: PipelineStep,
+  index: number,
+  context: { input: Record<string, unknown>; outputs: unknown[] }
+): Record<string, unknown> {
+  const prev = index > 0 ? context.outputs[index - 1] : undefined
+
+  if (!step.inputs) {
+    if (index === 0) return { ...context.input }
+    return isPlainObject(prev) ? { ...prev } : {}
+  }
+
+  const source = { input: context.input, prev, steps: context.outputs }
+  const inputs: Record<string, unknown> = {}
+
+  for (const mapping of step.inputs) {
+    const selected = mapping.from !== undefined ? selectJsonPath(source, mapping.from) : undefined
+    const value = selected !== undefined && selected !== null ? selected : mapping.value
+    if (value !== undefined) {
+      inputs[mapping.param] = value
+    }
+  }
+
+  return inputs
+}
+
+/**
+ * Call one step blink's upstream (no streaming - the output feeds the next step)
+ */
+async function callPipelineStep(
+  stepBlink: BlinkData,
+  inputs: Record<string, unknown>,
+  run: PipelineRunContext
+): Promise<unknown> {
+  const templatedRequest = stepBlink.request_template
+    ? buildTemplatedRequest({
+        url: stepBlink.endpoint_url,
+        method: stepBlink.method,
+        template: stepBlink.request_template,
+        inputs,
+        system: { reference: run.reference, payer: run.payer, signature: run.signature },
+      })
+    : null
+
+  let targetUrl = templatedRequest?.url || stepBlink.endpoint_url
+  if (!templatedRequest) {
+    // Legacy {placeholder} path parameters
+    for (const [key, value] of Object.entries(inputs)) {
+      targetUrl = targetUrl.split(`{${key}}`).join(encodeURIComponent(String(value)))
+    }
+  }
+
+  if (targetUrl.startsWith('/')) {
+    targetUrl = `${getInternalApiBaseUrl()}${targetUrl}`
+  } else {
+    await validateUpstreamUrl(targetUrl)
+  }
+
+  const upstreamAuth = await loadUpstreamAuth(stepBlink.id)
+  const requestBody = { ...inputs, reference: run.reference, signature: run.signature, payer: run.payer }
+
+  const response = await fetch(applyUpstreamAuthToUrl(targetUrl, upstreamAuth), {
+    method: stepBlink.method,
+    headers: {
+      ...(templatedRequest?.headers || {}),
+      ...(upstreamAuth?.headers || {}),
+      'Content-Type': templatedRequest?.contentType || 'application/json',
+      'Accept': 'application/json',
+      'User-Agent': 'Blink402/1.0',
+    },
+    body: stepBlink.method !== 'GET'
+      ? (templatedRequest ? templatedRequest.body : JSON.stringify(requestBody))
+      : undefined,
+    signal: AbortSignal.timeout(STEP_TIMEOUT),
+    redirect: upstreamAuth ? 'error' : 'follow',
+  })
+
+  if (!response.ok) {
+    throw new UpstreamHttpError(response.status)
+  }
+
+  const contentType = response.headers.get('content-type') || ''
+  const body = await readBodyWithLimit(response, MAX_STEP_RESPONSE_SIZE)
+
+  if (isBinaryContentType(contentType)) {
+    const artifact = await saveRunArtifact({ runId: run.id, contentType, data: body })
+    return toArtifactResponse(artifact)
+  }
+
+  const responseText = body.toString('utf-8')
+  let responseData: unknown
+  try {
+    responseData = JSON.parse(responseText)
+  } catch {
+    if (contentType.includes('application/json')) {
+      throw new Error('Endpoint returned invalid JSON')
+    }
+    return { data: responseText, contentType: contentType || 'text/plain' }
+  }
+
+  return stepBlink.response_transform
+    ? applyResponseTransform(responseData, stepBlink.response_transform)
+    : responseData
+}
+
+/**
+ * Run a pipeline blink's steps in order for a paid run
+ * Each step is recorded as a sub-run. Steps that already succeeded for this run (a retry
+ * after a partial failure) are not called again - their stored output is reused.
+ * @returns Final step output (with the pipeline's own response transform applied) and a per-step summary
+ * @throws Error naming the failed step - the caller handles it like any failed upstream call
+ */
+export async function executePipeline(params: {
+  blink: BlinkData
+  run: PipelineRunContext
+  input: Record<string, unknown>
+  log: FastifyInstance['log']
+}): Promise<{ output: unknown; steps: PipelineStepSummary[] }> {
+  const { blink, run, input, log } = params
+  const steps = blink.pipeline!.steps
+
+  const previous = new Map((await getPipelineStepRuns(run.id)).map((record) => [record.step_index, record]))
+  const outputs: unknown[] = []
+  const summaries: PipelineStepSummary[] = []
+
+  for (const [index, step] of steps.entries()) {
+    const label = `Pipeline step ${index + 1} (${step.slug})`
+
+    const stepBlink = await getBlinkBySlug(step.slug)
+    if (!stepBlink || stepBlink.status !== 'active' || stepBlink.pipeline) {
+      throw new Error(`${label} is not available`)
+    }
+
+    const earlier = previous.get(index)
+    if (earlier?.status === 'executed' && earlier.blink_id === stepBlink.id) {
+      outputs.push(earlier.output)
+      summaries.push({ slug: step.slug, status: 'executed', duration_ms: earlier.duration_ms || 0, resumed: true })
+      continue
+    }
+
+    const stepInputs = resolvePipelineStepInputs(step, index, { input, outputs })
+    if (stepBlink.request_template) {
+      const inputError = checkRequestTemplateInputs(stepBlink.request_template, stepInputs)
+      if (inputError) {
+        throw new Error(`${label} received invalid inputs: ${inputError}`)
+      }
+    }
+
+    const stepRunId = await startPipelineStepRun({
+      parentRunId: run.id,
+      stepIndex: index,
+      blinkId: stepBlink.id,
+      inputs: stepInputs,
+    })
+    const stepStart = Date.now()
+
+    try {
+      const output = await callPipelineStep(stepBlink, stepInputs, run)
+      const durationMs = Date.now() - stepStart
+
+      await completePipelineStepRun({ id: stepRunId, success: true, durationMs, output })
+      await updateCircuitBreaker(stepBlink.id, stepBlink.slug, true, getPool(), log)
+
+      outputs.push(output)
+      summaries.push({ slug: step.slug, status: 'executed', duration_ms: durationMs })
+      log.info({ reference: run.reference, step: index, slug: step.slug, durationMs }, 'Pipeline step executed')
+    } catch (error) {
+      const isTimeout = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')
+      const message = isTimeout
+        ? `timeout (${STEP_TIMEOUT / 1000}s exceeded)`
+        : error instanceof Error ? error.message : String(error)
+
+      await completePipelineStepRun({ id: stepRunId, success: false, durationMs: Date.now() - stepStart, error: message })
+      await updateCircuitBreaker(stepBlink.id, stepBlink.slug, false, getPool(), log)
+
+      // Keep the upstream status so the caller can tell a rejected request from a broken endpoint
+      if (error instanceof UpstreamHttpError) {
+        throw new UpstreamHttpError(error.status, `${label} failed: ${message}`)
+      }
+      throw new Error(`${label} failed: ${message}`)
+    }
+  }
+
+  const finalOutput = outputs[outputs.length - 1]
+  const isJsonOutput = finalOutput !== null && typeof finalOutput === 'object' && !(finalOutput as { artifact?: unknown }).artifact
+  const output = blink.response_transform && isJsonOutput
+    ? applyResponseTransform(finalOutput, blink.response_transform)
+    : finalOutput
+
+  return { output, steps: summaries }
+}
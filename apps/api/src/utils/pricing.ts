@@ -0,0 +1,367 @@
+// Dynamic pricing: per-blink pricing rules, quoted when a run is created and locked into run.metadata
+import type { BlinkData, BlinkParameter, BlinkPricingRules, Coupon, PriceAdjustment, PriceQuote } from '@blink402/types'
+import { countRecentPaidRuns, countWalletPaidRuns } from '@blink402/database'
+import { usdcToLamports, lamportsToUsdc } from '@blink402/solana'
+import { applyCoupon } from './coupons.js'
+
+const USDC_AMOUNT_PATTERN = /^\d+(\.\d{1,6})?$/
+const SIZE_UNITS = ['characters', 'words']
+
+const MAX_RULES = 20
+const MAX_TIERS = 10
+const MAX_OPTION_PRICES = 50
+const MAX_MULTIPLIER = 10
+const MAX_PERCENT_OFF = 90 // A discounted run still pays something
+const MAX_SURGE_WINDOW_MINUTES = 24 * 60
+const MAX_VOLUME_WINDOW_DAYS = 365
+
+const RULE_KEYS = ['options', 'input_size', 'time_of_day', 'surge', 'volume_discount']
+
+/**
+ * Validate pricing_rules from a create/update body
+ * @param parameters - The blink's parameters (rules may only price declared parameters)
+ * @returns Error details, or null when valid
+ */
+export function validatePricingRules(rules: unknown, parameters?: BlinkParameter[]): string | null {
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    return 'pricing_rules must be an object'
+  }
+  const pricing = rules as BlinkPricingRules
+
+  const unknownKey = Object.keys(pricing).find((key) => !RULE_KEYS.includes(key))
+  if (unknownKey) {
+    return `pricing_rules.${unknownKey} is not supported`
+  }
+
+  const declared = new Map((parameters || []).map((p) => [p.name, p]))
+  const checkParameter = (name: unknown, label: string): string | null => {
+    if (typeof name !== 'string' || !name) {
+      return `${label}.parameter is required`
+    }
+    if (declared.size > 0 && !declared.has(name)) {
+      return `${label}.parameter "${name}" is not a blink parameter`
+    }
+    return null
+  }
+
+  if (pricing.options !== undefined) {
+    if (!Array.isArray(pricing.options) || pricing.options.length > MAX_RULES) {
+      return `pricing_rules.options must be an array of at most ${MAX_RULES} rules`
+    }
+    for (const [index, rule] of pricing.options.entries()) {
+      const label = `pricing_rules.options[${index}]`
+      const parameterError = checkParameter(rule?.parameter, label)
+      if (parameterError) return parameterError
+
+      if (!rule.prices || typeof rule.prices !== 'object' || Array.isArray(rule.prices)) {
+        return `${label}.prices must map option values to USDC amounts`
+      }
+      const entries = Object.entries(rule.prices)
+      if (entries.length === 0 || entries.length > MAX_OPTION_PRICES) {
+        return `${label}.prices must have between 1 and ${MAX_OPTION_PRICES} options`
+      }
+      const options = declared.get(rule.parameter)?.options
+      for (const [value, price] of entries) {
+        if (typeof price !== 'string' || !USDC_AMOUNT_PATTERN.test(price)) {
+          return `${label}.prices["${value}"] must be a USDC amount with at most 6 decimals`
+        }
+        if (options && !options.some((option) => option.value === value)) {
+          return `${label}.prices["${value}"] is not an option of ${rule.parameter}`
+        }
+      }
+    }
+  }
+
+  if (pricing.input_size !== undefined) {
+    if (!Array.isArray(pricing.input_size) || pricing.input_size.length > MAX_RULES) {
+      return `pricing_rules.input_size must be an array of at most ${MAX_RULES} rules`
+    }
+    for (const [index, rule] of pricing.input_size.entries()) {
+      const label = `pricing_rules.input_size[${index}]`
+      const parameterError = checkParameter(rule?.parameter, label)
+      if (parameterError) return parameterError
+
+      if (!SIZE_UNITS.includes(rule.unit)) {
+        return `${label}.unit must be one of: ${SIZE_UNITS.join(', ')}`
+      }
+      if (!Array.isArray(rule.tiers) || rule.tiers.length === 0 || rule.tiers.length > MAX_TIERS) {
+        return `${label}.tiers must have between 1 and ${MAX_TIERS} tiers`
+      }
+      let previous = 0
+      for (const [tierIndex, tier] of rule.tiers.entries()) {
+        const tierLabel = `${label}.tiers[${tierIndex}]`
+        const isLast = tierIndex === rule.tiers.length - 1
+        if (isLast ? tier?.up_to !== null : (!Number.isInteger(tier?.up_to) || tier.up_to! <= previous)) {
+          return isLast
+            ? `${tierLabel}.up_to must be null (the last tier has no upper bound)`
+            : `${tierLabel}.up_to must be a whole number greater than the previous tier`
+        }
+        if (typeof tier.price !== 'string' || !USDC_AMOUNT_PATTERN.test(tier.price)) {
+          return `${tierLabel}.price must be a USDC amount with at most 6 decimals`
+        }
+        previous = tier.up_to ?? previous
+      }
+    }
+  }
+
+  if (pricing.time_of_day !== undefined) {
+    if (!Array.isArray(pricing.time_of_day) || pricing.time_of_day.length > 24) {
+      return 'pricing_rules.time_of_day must be an array of at most 24 windows'
+    }
+    for (const [index, window] of pricing.time_of_day.entries()) {
+      const label = `pricing_rules.time_of_day[${index}]`
+      if (!Number.isInteger(window?.start_hour) || window.start_hour < 0 || window.start_hour > 23) {
+        return `${label}.start_hour must be a whole hour between 0 and 23 (UTC)`
+      }
+      if (!Number.isInteger(window.end_hour) || window.end_hour < 1 || window.end_hour > 24 ||
+          window.end_hour % 24 === window.start_hour) {
+        return `${label}.end_hour must be a whole hour between 1 and 24 (UTC), different from start_hour`
+      }
+      if (!isMultiplier(window.multiplier)) {
+        return `${label}.multiplier must be a number greater than 0 and at most ${MAX_MULTIPLIER}`
+      }
+    }
+  }
+
+  if (pricing.surge !== undefined) {
+    const surge = pricing.surge
+    if (!surge || typeof surge !== 'object') {
+      return 'pricing_rules.surge must be an object'
+    }
+    if (!Number.isInteger(surge.window_minutes) || surge.window_minutes < 1 || surge.window_minutes > MAX_SURGE_WINDOW_MINUTES) {
+      return `pricing_rules.surge.window_minutes must be between 1 and ${MAX_SURGE_WINDOW_MINUTES}`
+    }
+    const stepsError = validateSteps(surge.steps, 'pricing_rules.surge.steps', (step) =>
+      isMultiplier(step.multiplier) && step.multiplier >= 1
+        ? null
+        : `multiplier must be at least 1 and at most ${MAX_MULTIPLIER}`
+    )
+    if (stepsError) return stepsError
+  }
+
+  if (pricing.volume_discount !== undefined) {
+    const discount = pricing.volume_discount
+    if (!discount || typeof discount !== 'object') {
+      return 'pricing_rules.volume_discount must be an object'
+    }
+    if (!Number.isInteger(discount.window_days) || discount.window_days < 1 || discount.window_days > MAX_VOLUME_WINDOW_DAYS) {
+      return `pricing_rules.volume_discount.window_days must be between 1 and ${MAX_VOLUME_WINDOW_DAYS}`
+    }
+    const tiersError = validateSteps(discount.tiers, 'pricing_rules.volume_discount.tiers', (tier) =>
+      typeof tier.percent_off === 'number' && tier.percent_off > 0 && tier.percent_off <= MAX_PERCENT_OFF
+        ? null
+        : `percent_off must be greater than 0 and at most ${MAX_PERCENT_OFF}`
+    )
+    if (tiersError) return tiersError
+  }
+
+  return null
+}
+
+function isMultiplier(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= MAX_MULTIPLIER
+}
+
+/**
+ * Validate min_runs steps (ascending) and each step's own value
+ */
+function validateSteps<T extends { min_runs: number }>(
+  steps: T[] | undefined,
+  label: string,
+  validateStep: (step: T) => string | null
+): string | null {
+  if (!Array.isArray(steps) || steps.length === 0 || steps.length > MAX_TIERS) {
+    return `${label} must have between 1 and ${MAX_TIERS} entries`
+  }
+  let previous = 0
+  for (const [index, step] of steps.entries()) {
+    if (!Number.isInteger(step?.min_runs) || step.min_runs <= previous) {
+      return `${label}[${index}].min_runs must be a whole number greater than the previous entry (and at least 1)`
+    }
+    const stepError = validateStep(step)
+    if (stepError) return `${label}[${index}].${stepError}`
+    previous = step.min_runs
+  }
+  return null
+}
+
+/**
+ * Quote the price of one run
+ * Option and input size prices are added to price_usdc, then time-of-day and surge multipliers
+ * apply, then the wallet's volume discount, then the coupon. Blinks without rules are quoted at price_usdc.
+ * @param params.inputs - The caller's parameter values
+ * @param params.wallet - Payer, when known (volume discounts need it)
+ * @param params.coupon - Coupon already checked with resolveCoupon
+ */
+export async function quoteRunPrice(params: {
+  blink: Pick<BlinkData, 'id' | 'price_usdc' | 'pricing_rules'>
+  inputs?: Record<string, unknown> | null
+  wallet?: string | null
+  coupon?: Coupon | null
+  now?: Date
+}): Promise<PriceQuote> {
+  const { blink, inputs, wallet, coupon, now = new Date() } = params
+  const rules = blink.pricing_rules
+  const adjustments: PriceAdjustment[] = []
+  let price = Number(usdcToLamports(blink.price_usdc))
+
+  for (const rule of rules?.options || []) {
+    const selected = inputs?.[rule.parameter]
+    const values = Array.isArray(selected) ? selected : selected === undefined || selected === null ? [] : [selected]
+    for (const value of values.map(String)) {
+      const amount = rule.prices[value]
+      if (amount === undefined || parseFloat(amount) === 0) continue
+      price += Number(usdcToLamports(amount))
+      adjustments.push({ rule: 'option', detail: `${rule.parameter} = ${value}`, amount })
+    }
+  }
+
+  for (const rule of rules?.input_size || []) {
+    const size = measureInput(inputs?.[rule.parameter], rule.unit)
+    const tier = rule.tiers.find((t) => t.up_to === null || size <= t.up_to)
+    if (!tier || parseFloat(tier.price) === 0) continue
+    price += Number(usdcToLamports(tier.price))
+    adjustments.push({ rule: 'input_size', detail: `${rule.parameter}: ${size} ${rule.unit}`, amount: tier.price })
+  }
+
+  const hour = now.getUTCHours()
+  const window = (rules?.time_of_day || []).find((w) =>
+    w.start_hour < w.end_hour
+      ? hour >= w.start_hour && hour < w.end_hour
+      : hour >= w.start_hour || hour < w.end_hour
+  )
+  if (window && window.multiplier !== 1) {
+    price = Math.round(price * window.multiplier)
+    adjustments.push({
+      rule: 'time_of_day',
+      detail: `${formatHour(window.start_hour)}-${formatHour(window.end_hour)} UTC`,
+      multiplier: window.multiplier,
+    })
+  }
+
+  if (rules?.surge) {
+    const recentRuns = await countRecentPaidRuns(blink.id, rules.surge.window_minutes)
+    const step = highestStep(rules.surge.steps, recentRuns)
+    if (step && step.multiplier !== 1) {
+      price = Math.round(price * step.multiplier)
+      adjustments.push({
+        rule: 'surge',
+        detail: `${recentRuns} runs in the last ${rules.surge.window_minutes} minutes`,
+        multiplier: step.multiplier,
+      })
+    }
+  }
+
+  if (rules?.volume_discount && wallet) {
+    const walletRuns = await countWalletPaidRuns({
+      blinkId: blink.id,
+      wallet,
+      windowDays: rules.volume_discount.window_days,
+    })
+    const tier = highestStep(rules.volume_discount.tiers, walletRuns)
+    if (tier) {
+      price = Math.round(price * (100 - tier.percent_off) / 100)
+      adjustments.push({
+        rule: 'volume_discount',
+        detail: `${walletRuns} runs in the last ${rules.volume_discount.window_days} days`,
+        percent_off: tier.percent_off,
+      })
+    }
+  }
+
+  const quote: PriceQuote = {
+    price_usdc: lamportsToUsdc(price),
+    base_price_usdc: blink.price_usdc,
+    adjustments,
+    wallet: wallet || null,
+    quoted_at: now.toISOString(),
+  }
+  return coupon ? applyCoupon(quote, coupon) : quote
+}
+
+function measureInput(value: unknown, unit: 'characters' | 'words'): number {
+  if (value === undefined || value === null) return 0
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return unit === 'words' ? text.split(/\s+/).filter(Boolean).length : text.length
+}
+
+function highestStep<T extends { min_runs: number }>(steps: T[], count: number): T | undefined {
+  return steps.filter((step) => count >= step.min_runs).pop()
+}
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`
+}
+
+/**
+ * Values of the parameters the blink's option and input size rules priced (null when not sent)
+ * @returns undefined when no rule prices a parameter
+ */
+export function pickPricedInputs(
+  blink: Pick<BlinkData, 'pricing_rules'>,
+  inputs?: Record<string, unknown> | null
+): Record<string, unknown> | undefined {
+  const rules = blink.pricing_rules
+  const names = [...(rules?.options || []), ...(rules?.input_size || [])].map((rule) => rule.parameter)
+  if (names.length === 0) return undefined
+
+  const priced: Record<string, unknown> = {}
+  for (const name of names) {
+    priced[name] = inputs?.[name] ?? null
+  }
+  return priced
+}
+
+/**
+ * Check a call's inputs against the priced inputs locked into its run
+ * Each source (URL params, body) is checked on its own so a priced value can't be swapped in
+ * through one of them. A priced parameter left out of the call is fine; it runs with the locked value.
+ * @returns Error details, or null when every priced value sent matches the quote
+ */
+export function checkPricedInputs(
+  locked: Record<string, unknown> | undefined | null,
+  ...sources: Array<Record<string, unknown> | null | undefined>
+): string | null {
+  if (!locked) return null
+
+  for (const [name, value] of Object.entries(locked)) {
+    for (const source of sources) {
+      const sent = source?.[name]
+      if (sent === undefined || samePricedValue(sent, value)) continue
+      return `${name} was priced as ${JSON.stringify(value)}; start a new payment to change it`
+    }
+  }
+  return null
+}
+
+function samePricedValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/**
+ * Run metadata that locks a quote in
+ * amountUsdc is what payment verification and the ledger charge for the run, and pricedInputs are
+ * the parameter values it was quoted for (checked again when the run executes).
+ */
+export function priceMetadata(
+  blink: Pick<BlinkData, 'pricing_rules'>,
+  quote: PriceQuote,
+  inputs?: Record<string, unknown> | null
+): { quote?: PriceQuote; amountUsdc?: string; coupon?: PriceQuote['coupon']; pricedInputs?: Record<string, unknown> } {
+  // Fixed-price blinks keep charging blink.price_usdc, as before pricing rules existed
+  if (!blink.pricing_rules && !quote.coupon) return {}
+  const pricedInputs = pickPricedInputs(blink, inputs)
+  return {
+    quote,
+    amountUsdc: quote.price_usdc,
+    ...(quote.coupon ? { coupon: quote.coupon } : {}),
+    ...(pricedInputs ? { pricedInputs } : {}),
+  }
+}
+
+/**
+ * Price a run was created at (its locked quote, a preset amount, or the blink's fixed price)
+ */
+export function getRunPriceUsdc(blink: { price_usdc: string }, run: { metadata?: { amountUsdc?: string } | null }): string {
+  return run.metadata?.amountUsdc ?? blink.price_usdc
+}
@@ -0,0 +1,180 @@
+// Referral commission payouts: when a referrer's pending commissions are batched, and sending a batch
+import type { FastifyInstance } from 'fastify'
+import { Keypair } from '@solana/web3.js'
+import {
+  getPendingCommissions,
+  createReferralPayoutBatch,
+  markReferralPayoutBatchSending,
+  completeReferralPayoutBatch,
+  failReferralPayoutBatch,
+} from '@blink402/database'
+import type { ReferralPayoutBatch } from '@blink402/types'
+import {
+  getConnection,
+  getUsdcMint,
+  usdcToLamports,
+  parsePublicKey,
+  buildRewardTransaction,
+  signAndBroadcastReward,
+  getTransferStatus,
+} from '@blink402/solana'
+
+type Logger = FastifyInstance['log']
+
+// Oldest pending commissions looked at per batching pass
+const PENDING_SCAN_LIMIT = 1000
+
+/**
+ * When pending commissions are paid out: as soon as they add up to minUsdc,
+ * or once the oldest has waited maxWaitHours (whatever the amount)
+ */
+export function getReferralPayoutPolicy(): { minUsdc: number; maxWaitHours: number } {
+  return {
+    minUsdc: parseFloat(process.env.REFERRAL_PAYOUT_MIN_USDC || '1') || 1,
+    maxWaitHours: parseInt(process.env.REFERRAL_PAYOUT_MAX_WAIT_HOURS || '168', 10) || 168,
+  }
+}
+
+/**
+ * Wallet commissions are paid from (REWARD_KEYPAIR_SECRET)
+ */
+function getCommissionKeypair(): Keypair {
+  const secret = process.env.REWARD_KEYPAIR_SECRET
+  if (!secret) {
+    throw new Error('REWARD_KEYPAIR_SECRET not configured - cannot pay commissions')
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secret)))
+}
+
+/**
+ * Group pending commissions per referrer and batch the referrers that are due a payout
+ * @returns Batches created
+ */
+export async function batchDueCommissions(log: Logger): Promise<ReferralPayoutBatch[]> {
+  const { minUsdc, maxWaitHours } = getReferralPayoutPolicy()
+  const waitCutoff = Date.now() - maxWaitHours * 60 * 60 * 1000
+
+  const byReferrer = new Map<string, { ids: string[]; total: number; oldest: number }>()
+  for (const commission of await getPendingCommissions(PENDING_SCAN_LIMIT)) {
+    const entry = byReferrer.get(commission.referrerWallet) ?? { ids: [], total: 0, oldest: Infinity }
+    entry.ids.push(commission.id)
+    entry.total += parseFloat(commission.amountUsdc)
+    entry.oldest = Math.min(entry.oldest, new Date(commission.recordedAt).getTime())
+    byReferrer.set(commission.referrerWallet, entry)
+  }
+
+  const batches: ReferralPayoutBatch[] = []
+  for (const [referrerWallet, entry] of byReferrer) {
+    if (entry.total < minUsdc && entry.oldest > waitCutoff) {
+      continue
+    }
+
+    const batch = await createReferralPayoutBatch({ referrerWallet, payoutIds: entry.ids })
+    if (batch) {
+      log.info({ batchId: batch.id, referrerWallet, amount: batch.amount_usdc, commissions: batch.payout_count }, 'Batched referral commissions')
+      batches.push(batch)
+    }
+  }
+
+  return batches
+}
+
+/**
+ * Pay a batch in one USDC transfer
+ * The batch is saved as sending with its signature as soon as the transfer is broadcast; from then on
+ * it is settled on-chain (settleSendingReferralPayoutBatch), never sent again. Failures before the
+ * broadcast mark it failed + scheduled for retry.
+ * @returns true when the transfer was confirmed
+ */
+export async function sendReferralPayoutBatch(batch: ReferralPayoutBatch, log: Logger): Promise<boolean> {
+  let broadcastSignature: string | null = null
+  let signature: string
+
+  try {
+    const referrer = parsePublicKey(batch.referrer_wallet)
+    if (!referrer) {
+      throw new Error(`Invalid referrer wallet: ${batch.referrer_wallet}`)
+    }
+
+    const keypair = getCommissionKeypair()
+    const connection = getConnection()
+    const transaction = await buildRewardTransaction({
+      connection,
+      creator: keypair.publicKey,
+      user: referrer,
+      amount: usdcToLamports(batch.amount_usdc),
+      tokenMint: getUsdcMint(),
+      memo: `Blink402 referral commissions (${batch.payout_count})`,
+    })
+
+    signature = await signAndBroadcastReward({
+      connection,
+      transaction,
+      creatorKeypair: keypair,
+      onBroadcast: async ({ signature, lastValidBlockHeight }) => {
+        broadcastSignature = signature
+        await markReferralPayoutBatchSending({ id: batch.id, signature, lastValidBlockHeight })
+      },
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+
+    // The transfer may still land - never send this batch again from here
+    if (broadcastSignature) {
+      log.error({ error: errorMessage, batchId: batch.id, referrer: batch.referrer_wallet, signature: broadcastSignature },
+        'Referral payout broadcast but not confirmed - will be checked on-chain')
+      return false
+    }
+
+    log.error({ error: errorMessage, batchId: batch.id, referrer: batch.referrer_wallet }, 'Referral payout failed')
+    await failReferralPayoutBatch({ id: batch.id, error: errorMessage.substring(0, 500) })
+    return false
+  }
+
+  log.info({
+    batchId: batch.id,
+    referrer: batch.referrer_wallet,
+    amount: batch.amount_usdc,
+    commissions: batch.payout_count,
+    signature,
+  }, 'Referral payout sent')
+
+  // The transfer landed - if recording it fails the batch stays sending and is settled on-chain
+  try {
+    await completeReferralPayoutBatch({ id: batch.id, signature })
+  } catch (error) {
+    log.error({ error, batchId: batch.id, signature }, 'Referral payout sent but not recorded - will be checked on-chain')
+  }
+  return true
+}
+
+/**
+ * Settle a sending batch by looking its transfer up on-chain
+ * Landed transfers complete the batch; failed or expired ones are scheduled for retry.
+ * Transfers that can still land are left for the next check.
+ * @returns true when the transfer was confirmed
+ */
+export async function settleSendingReferralPayoutBatch(batch: ReferralPayoutBatch, log: Logger): Promise<boolean> {
+  if (!batch.signature || !batch.last_valid_block_height) {
+    log.error({ batchId: batch.id }, 'Sending referral payout has no signature - manual intervention required')
+    return false
+  }
+
+  const status = await getTransferStatus({
+    connection: getConnection(),
+    signature: batch.signature,
+    lastValidBlockHeight: Number(batch.last_valid_block_height),
+  })
+
+  if (status === 'confirmed') {
+    await completeReferralPayoutBatch({ id: batch.id, signature: batch.signature })
+    log.info({ batchId: batch.id, signature: batch.signature }, 'Referral payout confirmed on-chain')
+    return true
+  }
+
+  if (status !== 'pending') {
+    await failReferralPayoutBatch({ id: batch.id, error: `Payout transfer ${status} on-chain` })
+    log.warn({ batchId: batch.id, signature: batch.signature, status }, 'Referral payout did not land - retry scheduled')
+  }
+  return false
+}
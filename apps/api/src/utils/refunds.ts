@@ -0,0 +1,486 @@
+// Automatic refunds for paid runs whose upstream call failed
+import type { FastifyInstance } from 'fastify'
+import { Keypair } from '@solana/web3.js'
+import type { BlinkData, RefundPolicy } from '@blink402/types'
+import {
+  createRefund,
+  markRefundSending,
+  markRefundIssued,
+  markRefundFailed,
+  setRefundPayer,
+  issueCreditRefund,
+  returnAccessPassCall,
+  createCreatorDebt,
+  cancelRunRevenueSplits,
+  type RunData,
+  type RefundData,
+  type RefundRetryData,
+} from '@blink402/database'
+import {
+  getConnection,
+  parsePublicKey,
+  getUsdcMint,
+  usdcToLamports,
+  solToLamports,
+  extractPayerWithRetry,
+  buildRefundTransaction,
+  executeRefund,
+  getTransferStatus,
+} from '@blink402/solana'
+import { getRunPriceUsdc } from './pricing.js'
+
+type Logger = FastifyInstance['log']
+
+export interface RefundAttempt {
+  issued: boolean
+  refundId?: string
+  signature?: string
+  amount?: string
+  token?: 'SOL' | 'USDC'
+  retryScheduled?: boolean
+  confirming?: boolean // Transfer was broadcast and is settled on-chain by the retry worker
+  error?: string
+}
+
+export interface RefundOutcome extends RefundAttempt {
+  policy: RefundPolicy
+  attempted: boolean // false when the policy (or amount) means nothing is owed
+  passCallReturned?: boolean // Access pass calls are given back instead of refunded
+}
+
+/**
+ * Work out what the payer actually paid for a run
+ * x402 (PayAI), ONCHAIN Connect and prepaid credits settle in USDC regardless of blink.payment_token,
+ * Solana Pay runs use the blink's token (SOL runs may carry a custom amount in metadata).
+ * USDC runs were charged their locked price (a quote or preset amount) when they have one.
+ */
+export function getPaidAmount(blink: BlinkData, run: RunData): { amount: number; token: 'SOL' | 'USDC' } {
+  const flow = run.metadata?.flow
+  if (flow === 'x402' || flow === 'onchain-connect' || flow === 'credits') {
+    return { amount: parseFloat(getRunPriceUsdc(blink, run)), token: 'USDC' }
+  }
+
+  if (blink.payment_token === 'SOL') {
+    const amountSol = run.metadata?.amountSol ? parseFloat(run.metadata.amountSol) : parseFloat(blink.price_usdc)
+    return { amount: amountSol, token: 'SOL' }
+  }
+
+  return { amount: parseFloat(getRunPriceUsdc(blink, run)), token: 'USDC' }
+}
+
+/**
+ * Apply the blink's refund policy to the paid amount
+ * @returns Refund amount (6 decimal string for USDC, 9 for SOL) or null if nothing is refunded
+ */
+export function calculateRefundAmount(
+  blink: Pick<BlinkData, 'refund_policy' | 'refund_percent'>,
+  paidAmount: number,
+  token: 'SOL' | 'USDC'
+): string | null {
+  const policy = blink.refund_policy || 'full'
+  if (policy === 'none' || !(paidAmount > 0)) return null
+
+  const percent = policy === 'partial' ? Math.min(Math.max(blink.refund_percent ?? 100, 0), 100) : 100
+  const decimals = token === 'SOL' ? 9 : 6
+  const factor = Math.pow(10, decimals)
+  const amount = Math.floor(paidAmount * percent / 100 * factor) / factor
+
+  return amount > 0 ? amount.toFixed(decimals) : null
+}
+
+/**
+ * Load the platform refund keypair (JSON byte array in PLATFORM_REFUND_KEYPAIR)
+ */
+export function getPlatformRefundKeypair(): Keypair {
+  const secret = process.env.PLATFORM_REFUND_KEYPAIR
+  if (!secret) {
+    throw new Error('PLATFORM_REFUND_KEYPAIR not configured')
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secret)))
+}
+
+/**
+ * Resolve the payer wallet for a run
+ * ONCHAIN Connect runs are stored without a payer, so fall back to the payment transaction
+ */
+async function resolvePayer(payer: string | null | undefined, paymentSignature: string | null | undefined): Promise<string | null> {
+  if (payer && payer !== 'unknown' && parsePublicKey(payer)) {
+    return payer
+  }
+  if (!paymentSignature) return null
+
+  return extractPayerWithRetry(getConnection(), paymentSignature, 3)
+}
+
+/**
+ * Mark a refund whose transfer landed as issued, and record the creator debt
+ * Safe to call again for the same refund.
+ */
+async function completeRefund(params: {
+  refund: RefundData
+  signature: string
+  blinkId: string
+  creatorId: string
+  log: Logger
+}): Promise<RefundData> {
+  const { signature, blinkId, creatorId, log } = params
+  const refund = await markRefundIssued({ refundId: params.refund.id, signature })
+
+  // The refund has landed whatever happens here - a missing debt is settled by hand
+  try {
+    // Platform fronted the refund - the creator owes it back in the token it was sent in
+    // (unless the settlement wallet still held the payment for a revenue split)
+    const heldForSplit = await cancelRunRevenueSplits(refund.run_id)
+    if (!heldForSplit && !refund.creator_debt_id) {
+      await createCreatorDebt({
+        creatorId,
+        blinkId,
+        refundId: refund.id,
+        amount: refund.amount,
+        token: refund.payment_token || 'USDC',
+      })
+    }
+  } catch (error) {
+    log.error({ error, refundId: refund.id, creatorId }, 'Refund issued but creator debt could not be recorded')
+  }
+
+  return refund
+}
+
+/**
+ * Sign and broadcast the refund transfer for an existing refund record
+ * The refund is saved as sending with its signature as soon as the transfer is broadcast. From then
+ * on it is never sent again: if confirming or recording it fails, the retry worker settles it on-chain
+ * (settleSendingRefund). Failures before the broadcast mark it failed + scheduled for retry.
+ */
+export async function sendRefund(params: {
+  refund: RefundData
+  reference: string
+  paymentSignature: string | null
+  blinkId: string
+  blinkSlug: string
+  creatorId: string
+  log: Logger
+}): Promise<RefundAttempt & { refund: RefundData }> {
+  const { reference, paymentSignature, blinkId, blinkSlug, creatorId, log } = params
+  let refund = params.refund
+  const token = refund.payment_token || 'USDC'
+  let broadcastSignature: string | null = null
+
+  try {
+    const payer = await resolvePayer(refund.payer_wallet, paymentSignature)
+    const payerPubkey = payer ? parsePublicKey(payer) : null
+    if (!payer || !payerPubkey) {
+      throw new Error('Could not resolve payer wallet for refund')
+    }
+    if (payer !== refund.payer_wallet) {
+      await setRefundPayer({ refundId: refund.id, payerWallet: payer })
+    }
+
+    // Revenue split runs: stop paying out the shares before the payment goes back
+    await cancelRunRevenueSplits(refund.run_id)
+
+    const platformKeypair = getPlatformRefundKeypair()
+    const connection = getConnection()
+
+    const refundTx = await buildRefundTransaction({
+      connection,
+      platformWallet: platformKeypair.publicKey,
+      user: payerPubkey,
+      amount: token === 'SOL' ? solToLamports(refund.amount) : usdcToLamports(refund.amount),
+      // Solana Pay references are public keys; x402/ONCHAIN references are not
+      reference: parsePublicKey(reference) || undefined,
+      memo: `Refund for failed execution - Blink: ${blinkSlug}`,
+      tokenMint: token === 'USDC' ? getUsdcMint() : undefined,
+    })
+
+    const signature = await executeRefund({
+      connection,
+      transaction: refundTx,
+      platformKeypair,
+      onBroadcast: async ({ signature, lastValidBlockHeight }) => {
+        broadcastSignature = signature
+        refund = await markRefundSending({ refundId: refund.id, signature, lastValidBlockHeight })
+      },
+    })
+
+    refund = await completeRefund({ refund, signature, blinkId, creatorId, log })
+
+    log.info({
+      reference,
+      refundId: refund.id,
+      signature,
+      amount: refund.amount,
+      token,
+      payer,
+    }, '✅ Refund issued successfully')
+
+    return {
+      issued: true,
+      refundId: refund.id,
+      signature,
+      amount: refund.amount,
+      token,
+      refund,
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+
+    // The transfer may still land - never send it again from here
+    if (broadcastSignature) {
+      const recorded = refund.status === 'sending'
+      log.error({
+        error: errorMessage,
+        reference,
+        refundId: refund.id,
+        signature: broadcastSignature,
+      }, recorded
+        ? 'Refund broadcast but not confirmed - will be checked on-chain'
+        : '❌ Refund broadcast but could not be recorded - manual intervention required')
+
+      return {
+        issued: false,
+        refundId: refund.id,
+        signature: broadcastSignature,
+        amount: refund.amount,
+        token,
+        confirming: recorded,
+        error: errorMessage,
+        refund,
+      }
+    }
+
+    try {
+      refund = await markRefundFailed({ refundId: refund.id, error: errorMessage.substring(0, 500) })
+    } catch (markError) {
+      log.error({ error: markError, refundId: refund.id }, 'Failed to record refund failure')
+    }
+
+    log.error({
+      error: errorMessage,
+      reference,
+      refundId: refund.id,
+      attempts: refund.attempts,
+      nextRetryAt: refund.next_retry_at,
+    }, refund.next_retry_at ? '❌ Refund failed - retry scheduled' : '❌ Refund failed - manual intervention required')
+
+    return {
+      issued: false,
+      refundId: refund.id,
+      amount: refund.amount,
+      token,
+      retryScheduled: !!refund.next_retry_at,
+      error: errorMessage,
+      refund,
+    }
+  }
+}
+
+/**
+ * Settle a sending refund by looking its transfer up on-chain
+ * Landed transfers complete the refund; failed or expired ones go back to the retry queue.
+ * Transfers that can still land are left for the next check.
+ */
+export async function settleSendingRefund(params: {
+  refund: RefundRetryData
+  log: Logger
+}): Promise<void> {
+  const { refund, log } = params
+
+  if (!refund.refund_signature || !refund.last_valid_block_height) {
+    log.error({ refundId: refund.id }, '❌ Sending refund has no signature - manual intervention required')
+    return
+  }
+
+  const status = await getTransferStatus({
+    connection: getConnection(),
+    signature: refund.refund_signature,
+    lastValidBlockHeight: Number(refund.last_valid_block_height),
+  })
+
+  if (status === 'confirmed') {
+    await completeRefund({
+      refund,
+      signature: refund.refund_signature,
+      blinkId: refund.blink_id,
+      creatorId: refund.creator_id,
+      log,
+    })
+    log.info({ refundId: refund.id, signature: refund.refund_signature }, '✅ Refund confirmed on-chain')
+    return
+  }
+
+  if (status === 'pending') {
+    log.info({ refundId: refund.id, signature: refund.refund_signature }, 'Refund transfer not confirmed yet')
+    return
+  }
+
+  const failed = await markRefundFailed({ refundId: refund.id, error: `Refund transfer ${status} on-chain` })
+  log.warn({
+    refundId: refund.id,
+    signature: refund.refund_signature,
+    status,
+    nextRetryAt: failed.next_retry_at,
+  }, 'Refund transfer did not land - retry scheduled')
+}
+
+/**
+ * Refund a paid run after its upstream call failed, according to the blink's refund policy
+ * Credit-paid runs are refunded to the payer's credits instead of on-chain, and calls covered by
+ * an access pass are given back to the pass whatever the policy.
+ * Never throws - refund problems are reported in the outcome and queued for retry.
+ */
+export async function refundFailedRun(params: {
+  blink: BlinkData
+  run: RunData
+  reason: string
+  log: Logger
+}): Promise<RefundOutcome> {
+  const { blink, run, reason, log } = params
+  const policy = blink.refund_policy || 'full'
+  const paidWithCredits = run.metadata?.flow === 'credits'
+
+  if (run.metadata?.flow === 'pass-call') {
+    try {
+      const returned = await returnAccessPassCall(run.id)
+      log.info({ reference: run.reference, returned }, 'Execution failed - access pass call returned')
+      return { policy, attempted: true, issued: returned, passCallReturned: returned }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      log.error({ error: errorMessage, reference: run.reference }, 'Failed to return access pass call')
+      return { policy, attempted: true, issued: false, error: errorMessage }
+    }
+  }
+
+  // Refunds are sent from the Solana platform wallet, so Base blinks only allow refund_policy 'none':
+  // a Base run stays paid and the caller can retry for free
+  if (blink.blockchain === 'base' && !paidWithCredits) {
+    log.info({ reference: run.reference }, 'Base payments are not refunded - run stays paid for a retry')
+    return { policy: 'none', attempted: false, issued: false }
+  }
+
+  const { amount: paidAmount, token } = getPaidAmount(blink, run)
+  const refundAmount = calculateRefundAmount(blink, paidAmount, token)
+
+  if (!refundAmount) {
+    log.info({ reference: run.reference, policy }, 'No refund owed under blink refund policy')
+    return { policy, attempted: false, issued: false }
+  }
+
+  try {
+    const refund = await createRefund({
+      runId: run.id,
+      amount: refundAmount,
+      reason: `API execution failed: ${reason.substring(0, 200)}`,
+      payerWallet: run.payer && run.payer !== 'unknown' ? run.payer : null,
+      paymentToken: token,
+    })
+
+    // createRefund is idempotent per run - don't re-send an existing refund
+    if (refund.status !== 'pending') {
+      return {
+        policy,
+        attempted: true,
+        issued: refund.status === 'issued',
+        refundId: refund.id,
+        signature: refund.refund_signature || undefined,
+        amount: refund.amount,
+        token,
+        retryScheduled: refund.status === 'failed' && !!refund.next_retry_at,
+        confirming: refund.status === 'sending',
+      }
+    }
+
+    log.info({
+      reference: run.reference,
+      payer: run.payer,
+      policy,
+      amount: refundAmount,
+      token,
+    }, 'Payment confirmed but execution failed - issuing refund')
+
+    if (paidWithCredits) {
+      await issueCreditRefund(refund.id)
+      log.info({ reference: run.reference, refundId: refund.id, amount: refundAmount }, '✅ Refund returned to credits')
+      return { policy, attempted: true, issued: true, refundId: refund.id, amount: refundAmount, token }
+    }
+
+    const attempt = await sendRefund({
+      refund,
+      reference: run.reference,
+      paymentSignature: run.signature,
+      blinkId: blink.id,
+      blinkSlug: blink.slug,
+      creatorId: blink.creator_id,
+      log,
+    })
+
+    // The outcome is sent to the caller, so it leaves out the refund record
+    return {
+      policy,
+      attempted: true,
+      issued: attempt.issued,
+      refundId: attempt.refundId,
+      signature: attempt.signature,
+      amount: attempt.amount,
+      token: attempt.token,
+      retryScheduled: attempt.retryScheduled,
+      confirming: attempt.confirming,
+      error: attempt.error,
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    log.error({ error: errorMessage, reference: run.reference }, '❌ Could not create refund record - manual intervention required')
+    return { policy, attempted: true, issued: false, error: errorMessage }
+  }
+}
+
+/**
+ * Shape a refund outcome for API responses (matches the legacy proxy's `refund` field)
+ */
+export function formatRefundResponse(outcome: RefundOutcome) {
+  if (outcome.passCallReturned) {
+    return {
+      issued: true,
+      message: 'This call was not counted against your access pass',
+    }
+  }
+
+  if (outcome.issued) {
+    return {
+      issued: true,
+      amount: outcome.amount,
+      token: outcome.token,
+      signature: outcome.signature,
+      message: outcome.policy === 'partial'
+        ? 'Your payment has been partially refunded'
+        : 'Your payment has been automatically refunded',
+    }
+  }
+
+  if (!outcome.attempted) {
+    return {
+      issued: false,
+      message: outcome.error || 'This blink does not refund failed calls',
+    }
+  }
+
+  if (outcome.confirming) {
+    return {
+      issued: false,
+      amount: outcome.amount,
+      token: outcome.token,
+      signature: outcome.signature,
+      message: 'Your refund was sent and is waiting for network confirmation',
+    }
+  }
+
+  return {
+    issued: false,
+    retryScheduled: !!outcome.retryScheduled,
+    message: outcome.retryScheduled
+      ? 'Refund is queued and will be retried automatically'
+      : 'Refund failed - please contact support',
+    error: outcome.error,
+  }
+}
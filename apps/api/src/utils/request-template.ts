@@ -0,0 +1,332 @@
+// Per-blink request templates: map blink parameters into the upstream request
+import type {
+  BlinkParameter,
+  RequestTemplate,
+  RequestTemplateField,
+  RequestTemplateLocation,
+  RequestTemplateValueType,
+} from '@blink402/types'
+import { HEADER_NAME_PATTERN, RESERVED_UPSTREAM_HEADERS } from './upstream-auth.js'
+
+const TEMPLATE_LOCATIONS: RequestTemplateLocation[] = ['path', 'query', 'header', 'body']
+const TEMPLATE_VALUE_TYPES: RequestTemplateValueType[] = ['string', 'number', 'integer', 'boolean', 'json']
+const SYSTEM_PARAMS = ['$reference', '$payer', '$signature']
+const MAX_TEMPLATE_FIELDS = 50
+const BODY_PATH_PATTERN = /^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+){0,4}$/
+// Keys that reach Object.prototype when assigned - never allowed as creator-chosen object keys
+const UNSAFE_OBJECT_KEYS = new Set(['__proto__', 'constructor', 'prototype'])
+const QUERY_NAME_PATTERN = /^[A-Za-z0-9_.\-[\]]{1,100}$/
+
+/**
+ * Whether a creator-chosen key could pollute Object.prototype when assigned
+ */
+export function isUnsafeObjectKey(key: string): boolean {
+  return UNSAFE_OBJECT_KEYS.has(key)
+}
+
+/**
+ * Values available to a template at proxy time
+ */
+export interface TemplateSystemValues {
+  reference: string
+  payer?: string | null
+  signature?: string | null
+}
+
+/**
+ * Upstream request built from a template
+ * `url` may still be relative for internal endpoints.
+ */
+export interface TemplatedRequest {
+  url: string
+  headers: Record<string, string>
+  body?: string
+  contentType: string
+}
+
+/**
+ * Validate a request template from a create/update body
+ * @returns Error details, or null when valid
+ */
+export function validateRequestTemplate(
+  template: RequestTemplate | undefined | null,
+  context: { endpointUrl: string; method: string; parameters?: BlinkParameter[] }
+): string | null {
+  if (!template || typeof template !== 'object' || !Array.isArray(template.fields)) {
+    return 'request_template.fields must be an array'
+  }
+  if (template.fields.length > MAX_TEMPLATE_FIELDS) {
+    return `request_template supports at most ${MAX_TEMPLATE_FIELDS} fields`
+  }
+  if (template.body_format !== undefined && template.body_format !== 'json' && template.body_format !== 'form') {
+    return 'request_template.body_format must be json or form'
+  }
+
+  const declared = new Set((context.parameters || []).map((p) => p.name))
+  const hasBody = context.method !== 'GET'
+
+  for (const [index, field] of template.fields.entries()) {
+    const label = `request_template.fields[${index}]`
+
+    if (!field || typeof field.param !== 'string' || !field.param) {
+      return `${label}.param is required`
+    }
+    if (field.param.startsWith('$') ? !SYSTEM_PARAMS.includes(field.param) : (declared.size > 0 && !declared.has(field.param))) {
+      return `${label}.param "${field.param}" is not a blink parameter or one of: ${SYSTEM_PARAMS.join(', ')}`
+    }
+    if (!TEMPLATE_LOCATIONS.includes(field.in)) {
+      return `${label}.in must be one of: ${TEMPLATE_LOCATIONS.join(', ')}`
+    }
+    if (field.type !== undefined && !TEMPLATE_VALUE_TYPES.includes(field.type)) {
+      return `${label}.type must be one of: ${TEMPLATE_VALUE_TYPES.join(', ')}`
+    }
+    if (field.default !== undefined && !['string', 'number', 'boolean'].includes(typeof field.default)) {
+      return `${label}.default must be a string, number or boolean`
+    }
+
+    const name = field.name || field.param
+    switch (field.in) {
+      case 'path':
+        if (!context.endpointUrl.includes(`{${name}}`)) {
+          return `${label}: endpoint_url has no {${name}} placeholder`
+        }
+        break
+      case 'query':
+        if (!QUERY_NAME_PATTERN.test(name)) {
+          return `${label}.name must be a valid query parameter name`
+        }
+        break
+      case 'header': {
+        const headerError = validateTemplateHeaderName(name)
+        if (headerError) return `${label}: ${headerError}`
+        break
+      }
+      case 'body':
+        if (!hasBody) {
+          return `${label}: body fields are not sent for GET endpoints`
+        }
+        if (!BODY_PATH_PATTERN.test(name)) {
+          return `${label}.name must be a field name or dot path (e.g. options.limit)`
+        }
+        if (name.split('.').some(isUnsafeObjectKey)) {
+          return `${label}.name cannot use __proto__, constructor or prototype`
+        }
+        break
+    }
+  }
+
+  for (const [name, value] of Object.entries(template.static_headers || {})) {
+    const headerError = validateTemplateHeaderName(name)
+    if (headerError) return `request_template.static_headers: ${headerError}`
+    if (typeof value !== 'string' || /[\r\n]/.test(value)) {
+      return `request_template.static_headers.${name} must be a single-line string`
+    }
+  }
+  for (const [name, value] of Object.entries(template.static_query || {})) {
+    if (!QUERY_NAME_PATTERN.test(name) || typeof value !== 'string') {
+      return `request_template.static_query.${name} must be a string`
+    }
+  }
+  if (template.static_body !== undefined) {
+    if (!hasBody) {
+      return 'request_template.static_body is not sent for GET endpoints'
+    }
+    if (typeof template.static_body !== 'object' || template.static_body === null || Array.isArray(template.static_body)) {
+      return 'request_template.static_body must be an object'
+    }
+  }
+
+  return null
+}
+
+function validateTemplateHeaderName(name: string): string | null {
+  if (!HEADER_NAME_PATTERN.test(name)) {
+    return `"${name}" is not a valid header name`
+  }
+  const lower = name.toLowerCase()
+  // Secrets belong in upstream credentials (encrypted), templates are returned with the blink
+  if (lower === 'authorization' || RESERVED_UPSTREAM_HEADERS.includes(lower)) {
+    return `header "${name}" cannot be set by a template${lower === 'authorization' ? ' (use upstream credentials)' : ''}`
+  }
+  return null
+}
+
+/**
+ * Coerce a raw input value to the field's declared type
+ * @throws Error when the value cannot be coerced
+ */
+function coerceValue(field: RequestTemplateField, raw: unknown): string | number | boolean | object {
+  const type = field.type || 'string'
+  const label = field.param
+
+  switch (type) {
+    case 'string':
+      return typeof raw === 'object' ? JSON.stringify(raw) : String(raw)
+    case 'number':
+    case 'integer': {
+      const num = typeof raw === 'number' ? raw : Number(String(raw).trim())
+      if (!Number.isFinite(num) || (type === 'integer' && !Number.isInteger(num))) {
+        throw new Error(`Parameter "${label}" must be ${type === 'integer' ? 'an integer' : 'a number'}`)
+      }
+      return num
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return raw
+      const normalized = String(raw).trim().toLowerCase()
+      if (['true', '1', 'yes', 'on'].includes(normalized)) return true
+      if (['false', '0', 'no', 'off'].includes(normalized)) return false
+      throw new Error(`Parameter "${label}" must be true or false`)
+    }
+    case 'json':
+      if (typeof raw !== 'string') return raw as object
+      try {
+        return JSON.parse(raw)
+      } catch {
+        throw new Error(`Parameter "${label}" must be valid JSON`)
+      }
+  }
+}
+
+/**
+ * Resolve every template field to its coerced value
+ * Fields without a value (and no default) are skipped unless required.
+ * @throws Error on a missing required value, a failed coercion or an unsafe body field
+ */
+function resolveFieldValues(
+  template: RequestTemplate,
+  inputs: Record<string, unknown>,
+  system: TemplateSystemValues | null
+): Array<{ field: RequestTemplateField; value: string | number | boolean | object }> {
+  const resolved: Array<{ field: RequestTemplateField; value: string | number | boolean | object }> = []
+
+  for (const field of template.fields) {
+    let raw: unknown
+    if (field.param.startsWith('$')) {
+      // System values only exist once the run is paid
+      if (!system) continue
+      raw = field.param === '$reference' ? system.reference
+        : field.param === '$payer' ? system.payer
+        : system.signature
+    } else {
+      raw = inputs[field.param]
+    }
+
+    if (raw === undefined || raw === null || raw === '') {
+      raw = field.default
+    }
+    if (raw === undefined) {
+      // Path segments can't be left as a literal {placeholder}
+      if (field.required || field.in === 'path') {
+        throw new Error(`Missing required parameter "${field.param}"`)
+      }
+      continue
+    }
+
+    resolved.push({ field, value: coerceValue(field, raw) })
+  }
+
+  return resolved
+}
+
+/**
+ * Check request inputs against a template before taking payment
+ * @returns Error details, or null when the inputs are usable
+ */
+export function checkRequestTemplateInputs(
+  template: RequestTemplate,
+  inputs: Record<string, unknown>
+): string | null {
+  try {
+    resolveFieldValues(template, inputs, null)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+function setBodyPath(body: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.')
+  // Templates saved before these keys were rejected are checked again here
+  if (keys.some(isUnsafeObjectKey)) {
+    throw new Error(`Body field "${path}" is not allowed`)
+  }
+
+  let target = body
+  for (const key of keys.slice(0, -1)) {
+    if (!Object.hasOwn(target, key) || typeof target[key] !== 'object' || target[key] === null) {
+      target[key] = {}
+    }
+    target = target[key] as Record<string, unknown>
+  }
+  target[keys[keys.length - 1]] = value
+}
+
+function appendQuery(url: string, query: URLSearchParams): string {
+  const queryString = query.toString()
+  if (!queryString) return url
+
+  const hashIndex = url.indexOf('#')
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex)
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex)
+  return `${base}${base.includes('?') ? '&' : '?'}${queryString}${hash}`
+}
+
+/**
+ * Build the upstream request for a blink with a request template
+ * @param params.url - Endpoint URL (path placeholders are filled here)
+ * @param params.inputs - Caller inputs keyed by blink parameter name
+ * @param params.system - Run values for $reference / $payer / $signature
+ * @throws Error on a missing required value, a failed coercion or an unsafe body field
+ */
+export function buildTemplatedRequest(params: {
+  url: string
+  method: string
+  template: RequestTemplate
+  inputs: Record<string, unknown>
+  system: TemplateSystemValues
+}): TemplatedRequest {
+  const { method, template, inputs, system } = params
+  let url = params.url
+  const query = new URLSearchParams(template.static_query || {})
+  const headers: Record<string, string> = { ...(template.static_headers || {}) }
+  const body: Record<string, unknown> = JSON.parse(JSON.stringify(template.static_body || {}))
+
+  for (const { field, value } of resolveFieldValues(template, inputs, system)) {
+    const name = field.name || field.param
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+    switch (field.in) {
+      case 'path':
+        url = url.split(`{${name}}`).join(encodeURIComponent(text))
+        break
+      case 'query':
+        query.set(name, text)
+        break
+      case 'header':
+        if (/[\r\n]/.test(text)) {
+          throw new Error(`Parameter "${field.param}" cannot contain line breaks`)
+        }
+        headers[name] = text
+        break
+      case 'body':
+        setBodyPath(body, name, value)
+        break
+    }
+  }
+
+  url = appendQuery(url, query)
+
+  if (method === 'GET') {
+    return { url, headers, contentType: 'application/json' }
+  }
+
+  if (template.body_format === 'form') {
+    const form = new URLSearchParams()
+    for (const [key, value] of Object.entries(body)) {
+      form.set(key, typeof value === 'object' ? JSON.stringify(value) : String(value))
+    }
+    return { url, headers, body: form.toString(), contentType: 'application/x-www-form-urlencoded' }
+  }
+
+  return { url, headers, body: JSON.stringify(body), contentType: 'application/json' }
+}
@@ -0,0 +1,256 @@
+// Per-blink response transforms: JSONPath extraction, renaming, redaction and output schemas
+import type { ResponseTransform, ResponseOutputSchema } from '@blink402/types'
+import { isUnsafeObjectKey } from './request-template.js'
+
+type PathToken = string | number | '*'
+
+const OUTPUT_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/
+const SCHEMA_TYPES: ResponseOutputSchema['type'][] = ['object', 'array', 'string', 'number', 'integer', 'boolean']
+const SCHEMA_FORMATS = ['url', 'image', 'date-time', 'markdown']
+const MAX_FIELDS = 50
+const MAX_REDACT_KEYS = 50
+const MAX_SCHEMA_DEPTH = 5
+
+/**
+ * Parse a JSONPath expression (subset: $, .key, ['key'], [n], [*], .*)
+ * @throws Error on unsupported syntax
+ */
+export function parseJsonPath(path: string): PathToken[] {
+  if (typeof path !== 'string' || !path.startsWith('$')) {
+    throw new Error(`JSONPath must start with $: ${path}`)
+  }
+
+  const tokens: PathToken[] = []
+  const pattern = /\.([A-Za-z_$][A-Za-z0-9_$-]*)|\.\*|\[(\d+)\]|\[\*\]|\['([^']*)'\]|\["([^"]*)"\]/y
+  let position = 1
+
+  while (position < path.length) {
+    pattern.lastIndex = position
+    const match = pattern.exec(path)
+    if (!match) {
+      throw new Error(`Unsupported JSONPath syntax at position ${position}: ${path}`)
+    }
+
+    if (match[1] !== undefined) tokens.push(match[1])
+    else if (match[2] !== undefined) tokens.push(parseInt(match[2], 10))
+    else if (match[3] !== undefined) tokens.push(match[3])
+    else if (match[4] !== undefined) tokens.push(match[4])
+    else tokens.push('*')
+
+    position = pattern.lastIndex
+  }
+
+  return tokens
+}
+
+/**
+ * Select a value by JSONPath
+ * Paths with a wildcard return an array of every match; other paths return the value (or undefined).
+ */
+export function selectJsonPath(data: unknown, path: string): unknown {
+  const tokens = parseJsonPath(path)
+  let matches: unknown[] = [data]
+
+  for (const token of tokens) {
+    const next: unknown[] = []
+    for (const current of matches) {
+      if (current === null || typeof current !== 'object') continue
+
+      if (token === '*') {
+        next.push(...(Array.isArray(current) ? current : Object.values(current)))
+      } else if (typeof token === 'number') {
+        if (Array.isArray(current) && token < current.length) next.push(current[token])
+      } else if (!Array.isArray(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+        next.push((current as Record<string, unknown>)[token])
+      }
+    }
+    matches = next
+  }
+
+  return tokens.includes('*') ? matches : matches[0]
+}
+
+/**
+ * Remove redacted keys (case-insensitive) at any depth
+ */
+function redactKeys(value: unknown, keys: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactKeys(item, keys))
+  }
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [key, child] of Object.entries(value)) {
+    if (!keys.has(key.toLowerCase())) {
+      result[key] = redactKeys(child, keys)
+    }
+  }
+  return result
+}
+
+function pickFields(value: unknown, fields: NonNullable<ResponseTransform['fields']>): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const field of fields) {
+    // Transforms saved before these keys were rejected are checked again here
+    if (isUnsafeObjectKey(field.as)) continue
+    const picked = selectJsonPath(value, field.path)
+    if (picked !== undefined) {
+      result[field.as] = picked
+    }
+  }
+  return result
+}
+
+/**
+ * Apply a blink's response transform to upstream JSON
+ * Fields are picked per element when the extracted value is an array.
+ */
+export function applyResponseTransform(data: unknown, transform: ResponseTransform): unknown {
+  let value = transform.extract ? selectJsonPath(data, transform.extract) : data
+
+  if (transform.fields && transform.fields.length > 0) {
+    const fields = transform.fields
+    value = Array.isArray(value)
+      ? value.map((item) => pickFields(item, fields))
+      : pickFields(value, fields)
+  }
+
+  if (transform.redact && transform.redact.length > 0) {
+    value = redactKeys(value, new Set(transform.redact.map((key) => key.toLowerCase())))
+  }
+
+  return value === undefined ? null : value
+}
+
+function validateOutputSchema(schema: ResponseOutputSchema, label: string, depth: number): string | null {
+  if (!schema || typeof schema !== 'object' || !SCHEMA_TYPES.includes(schema.type)) {
+    return `${label}.type must be one of: ${SCHEMA_TYPES.join(', ')}`
+  }
+  if (depth > MAX_SCHEMA_DEPTH) {
+    return `${label} is nested too deeply (max ${MAX_SCHEMA_DEPTH} levels)`
+  }
+  if (schema.format !== undefined && !SCHEMA_FORMATS.includes(schema.format)) {
+    return `${label}.format must be one of: ${SCHEMA_FORMATS.join(', ')}`
+  }
+
+  if (schema.properties !== undefined) {
+    if (schema.type !== 'object' || typeof schema.properties !== 'object') {
+      return `${label}.properties is only allowed on object schemas`
+    }
+    for (const [key, child] of Object.entries(schema.properties)) {
+      const childError = validateOutputSchema(child, `${label}.properties.${key}`, depth + 1)
+      if (childError) return childError
+    }
+  }
+  if (schema.items !== undefined) {
+    if (schema.type !== 'array') {
+      return `${label}.items is only allowed on array schemas`
+    }
+    const itemsError = validateOutputSchema(schema.items, `${label}.items`, depth + 1)
+    if (itemsError) return itemsError
+  }
+  if (schema.required !== undefined && (!Array.isArray(schema.required) || schema.required.some((key) => typeof key !== 'string'))) {
+    return `${label}.required must be an array of property names`
+  }
+
+  return null
+}
+
+/**
+ * Validate a response transform from a create/update body
+ * @returns Error details, or null when valid
+ */
+export function validateResponseTransform(transform: ResponseTransform | undefined | null): string | null {
+  if (!transform || typeof transform !== 'object' || Array.isArray(transform)) {
+    return 'response_transform must be an object'
+  }
+
+  if (transform.extract !== undefined) {
+    try {
+      parseJsonPath(transform.extract)
+    } catch (error) {
+      return `response_transform.extract: ${(error as Error).message}`
+    }
+  }
+
+  if (transform.fields !== undefined) {
+    if (!Array.isArray(transform.fields) || transform.fields.length > MAX_FIELDS) {
+      return `response_transform.fields must be an array of at most ${MAX_FIELDS} entries`
+    }
+    const seen = new Set<string>()
+    for (const [index, field] of transform.fields.entries()) {
+      if (!field || !OUTPUT_KEY_PATTERN.test(field.as)) {
+        return `response_transform.fields[${index}].as must be a simple key (letters, digits, underscore)`
+      }
+      if (isUnsafeObjectKey(field.as)) {
+        return `response_transform.fields[${index}].as cannot be __proto__, constructor or prototype`
+      }
+      if (seen.has(field.as)) {
+        return `response_transform.fields[${index}].as "${field.as}" is used more than once`
+      }
+      seen.add(field.as)
+      try {
+        parseJsonPath(field.path)
+      } catch (error) {
+        return `response_transform.fields[${index}].path: ${(error as Error).message}`
+      }
+    }
+  }
+
+  if (transform.redact !== undefined) {
+    if (!Array.isArray(transform.redact) || transform.redact.length > MAX_REDACT_KEYS ||
+        transform.redact.some((key) => typeof key !== 'string' || !key)) {
+      return `response_transform.redact must be an array of at most ${MAX_REDACT_KEYS} key names`
+    }
+  }
+
+  if (transform.output_schema !== undefined) {
+    return validateOutputSchema(transform.output_schema, 'response_transform.output_schema', 1)
+  }
+
+  return null
+}
+
+/**
+ * Check a transformed output against its declared schema
+ * @returns First mismatch (with its path), or null when the output conforms
+ */
+export function checkOutputSchema(value: unknown, schema: ResponseOutputSchema, path: string = '$'): string | null {
+  switch (schema.type) {
+    case 'object': {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return `${path} should be an object`
+      }
+      for (const key of schema.required || []) {
+        if ((value as Record<string, unknown>)[key] === undefined) {
+          return `${path}.${key} is required`
+        }
+      }
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        const childValue = (value as Record<string, unknown>)[key]
+        if (childValue === undefined || childValue === null) continue
+        const childError = checkOutputSchema(childValue, child, `${path}.${key}`)
+        if (childError) return childError
+      }
+      return null
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return `${path} should be an array`
+      }
+      if (schema.items) {
+        for (const [index, item] of value.entries()) {
+          const itemError = checkOutputSchema(item, schema.items, `${path}[${index}]`)
+          if (itemError) return itemError
+        }
+      }
+      return null
+    }
+    case 'integer':
+      return Number.isInteger(value) ? null : `${path} should be an integer`
+    default:
+      return typeof value === schema.type ? null : `${path} should be a ${schema.type}`
+  }
+}
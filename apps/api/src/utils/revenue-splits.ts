@@ -0,0 +1,217 @@
+// Revenue splits: split table validation, where split payments go, and sending payout legs
+import type { FastifyInstance } from 'fastify'
+import type { BlinkRevenueSplits } from '@blink402/types'
+import {
+  markRevenueSplitPayoutSending,
+  completeRevenueSplitPayout,
+  failRevenueSplitPayout,
+  type RevenueSplitPayoutData,
+} from '@blink402/database'
+import {
+  getConnection,
+  getUsdcMint,
+  usdcToLamports,
+  parsePublicKey,
+  isValidSolanaAddress,
+  buildRefundTransaction,
+  executeRefund,
+  getTransferStatus,
+} from '@blink402/solana'
+import { getPlatformRefundKeypair } from './refunds.js'
+
+type Logger = FastifyInstance['log']
+
+export const MAX_SPLIT_RECIPIENTS = 10
+const MAX_LABEL_LENGTH = 50
+
+function isBps(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) <= 10000
+}
+
+/**
+ * Validate a blink's revenue split table
+ * @param payoutWallet - The blink's payout wallet (gets the remainder, so it can't also be a recipient)
+ * @returns Error details, or null when valid
+ */
+export function validateRevenueSplits(splits: BlinkRevenueSplits, payoutWallet: string): string | null {
+  if (!splits || typeof splits !== 'object' || !Array.isArray(splits.recipients)) {
+    return 'revenue_splits must be an object with a recipients list'
+  }
+  if (splits.recipients.length === 0 || splits.recipients.length > MAX_SPLIT_RECIPIENTS) {
+    return `revenue_splits.recipients must have 1-${MAX_SPLIT_RECIPIENTS} wallets`
+  }
+
+  const wallets = new Set<string>()
+  for (const recipient of splits.recipients) {
+    if (!recipient || typeof recipient.wallet !== 'string' || !isValidSolanaAddress(recipient.wallet)) {
+      return 'Each recipient needs a valid Solana wallet'
+    }
+    if (recipient.wallet === payoutWallet) {
+      return 'The payout wallet gets the remainder automatically - do not list it as a recipient'
+    }
+    if (wallets.has(recipient.wallet)) {
+      return `Wallet ${recipient.wallet} is listed more than once`
+    }
+    wallets.add(recipient.wallet)
+
+    if (!isBps(recipient.bps)) {
+      return 'Each recipient needs bps between 1 and 10000 (basis points, 10000 = 100%)'
+    }
+    if (recipient.label !== undefined && (typeof recipient.label !== 'string' || recipient.label.length > MAX_LABEL_LENGTH)) {
+      return `Recipient labels must be at most ${MAX_LABEL_LENGTH} characters`
+    }
+  }
+
+  if (splits.platform_fee_bps !== undefined && !isBps(splits.platform_fee_bps)) {
+    return 'platform_fee_bps must be between 1 and 10000'
+  }
+
+  const total = splits.recipients.reduce((sum, recipient) => sum + recipient.bps, 0) + (splits.platform_fee_bps || 0)
+  if (total > 10000) {
+    return `Shares add up to ${total} bps - they can be at most 10000 (100%)`
+  }
+
+  return null
+}
+
+/**
+ * Wallet that collects payments for revenue split blinks (the platform wallet that sends the legs)
+ */
+export function getSettlementWallet(): string {
+  return getPlatformRefundKeypair().publicKey.toBase58()
+}
+
+/**
+ * Wallet a new payment for the blink has to go to
+ */
+export function getPaymentWallet(blink: { payout_wallet: string; revenue_splits?: BlinkRevenueSplits }): string {
+  return blink.revenue_splits ? getSettlementWallet() : blink.payout_wallet
+}
+
+/**
+ * Wallet a run's payment was requested to (the split in force when the run was created decides)
+ */
+export function getRunPaymentWallet(
+  blink: { payout_wallet: string },
+  run: { metadata?: { settlementWallet?: string } | null }
+): string {
+  return run.metadata?.settlementWallet ?? blink.payout_wallet
+}
+
+/**
+ * Run metadata locking in where the payment goes and how it is split
+ * @returns { settlementWallet, revenueSplits } for split blinks, {} otherwise
+ */
+export function splitMetadata(
+  blink: { revenue_splits?: BlinkRevenueSplits }
+): { settlementWallet?: string; revenueSplits?: BlinkRevenueSplits } {
+  if (!blink.revenue_splits) {
+    return {}
+  }
+  return { settlementWallet: getSettlementWallet(), revenueSplits: blink.revenue_splits }
+}
+
+/**
+ * Send one payout leg from the settlement wallet
+ * The leg is saved as sending with its signature as soon as the transfer is broadcast; from then on
+ * it is settled on-chain (settleSendingRevenueSplitPayout), never sent again. Failures before the
+ * broadcast mark it failed + scheduled for retry.
+ * @returns true when the transfer was confirmed
+ */
+export async function sendRevenueSplitPayout(payout: RevenueSplitPayoutData, log: Logger): Promise<boolean> {
+  let broadcastSignature: string | null = null
+  let signature: string
+
+  try {
+    const recipient = payout.wallet ? parsePublicKey(payout.wallet) : null
+    if (!recipient) {
+      throw new Error(`Invalid payout wallet: ${payout.wallet}`)
+    }
+
+    const platformKeypair = getPlatformRefundKeypair()
+    if (payout.settlement_wallet !== platformKeypair.publicKey.toBase58()) {
+      throw new Error(`Run was paid to ${payout.settlement_wallet}, not the current settlement wallet`)
+    }
+
+    const connection = getConnection()
+    const transaction = await buildRefundTransaction({
+      connection,
+      platformWallet: platformKeypair.publicKey,
+      user: recipient,
+      amount: usdcToLamports(payout.amount_usdc),
+      memo: `Blink402 revenue split - Blink: ${payout.blink_slug}`,
+      tokenMint: getUsdcMint(),
+    })
+
+    signature = await executeRefund({
+      connection,
+      transaction,
+      platformKeypair,
+      onBroadcast: async ({ signature, lastValidBlockHeight }) => {
+        broadcastSignature = signature
+        await markRevenueSplitPayoutSending({ id: payout.id, signature, lastValidBlockHeight })
+      },
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+
+    // The transfer may still land - never send this leg again from here
+    if (broadcastSignature) {
+      log.error({ error: errorMessage, payoutId: payout.id, reference: payout.reference, signature: broadcastSignature },
+        'Revenue split payout broadcast but not confirmed - will be checked on-chain')
+      return false
+    }
+
+    log.error({ error: errorMessage, payoutId: payout.id, reference: payout.reference }, 'Revenue split payout failed')
+    await failRevenueSplitPayout({ id: payout.id, error: errorMessage.substring(0, 500) })
+    return false
+  }
+
+  log.info({
+    payoutId: payout.id,
+    reference: payout.reference,
+    role: payout.role,
+    wallet: payout.wallet,
+    amount: payout.amount_usdc,
+    signature,
+  }, 'Revenue split payout sent')
+
+  // The transfer landed - if recording it fails the leg stays sending and is settled on-chain
+  try {
+    await completeRevenueSplitPayout({ id: payout.id, signature })
+  } catch (error) {
+    log.error({ error, payoutId: payout.id, signature }, 'Revenue split payout sent but not recorded - will be checked on-chain')
+  }
+  return true
+}
+
+/**
+ * Settle a sending leg by looking its transfer up on-chain
+ * Landed transfers complete the leg; failed or expired ones are scheduled for retry.
+ * Transfers that can still land are left for the next check.
+ * @returns true when the transfer was confirmed
+ */
+export async function settleSendingRevenueSplitPayout(payout: RevenueSplitPayoutData, log: Logger): Promise<boolean> {
+  if (!payout.signature || !payout.last_valid_block_height) {
+    log.error({ payoutId: payout.id }, 'Sending revenue split payout has no signature - manual intervention required')
+    return false
+  }
+
+  const status = await getTransferStatus({
+    connection: getConnection(),
+    signature: payout.signature,
+    lastValidBlockHeight: Number(payout.last_valid_block_height),
+  })
+
+  if (status === 'confirmed') {
+    await completeRevenueSplitPayout({ id: payout.id, signature: payout.signature })
+    log.info({ payoutId: payout.id, signature: payout.signature }, 'Revenue split payout confirmed on-chain')
+    return true
+  }
+
+  if (status !== 'pending') {
+    await failRevenueSplitPayout({ id: payout.id, error: `Payout transfer ${status} on-chain` })
+    log.warn({ payoutId: payout.id, signature: payout.signature, status }, 'Revenue split payout did not land - retry scheduled')
+  }
+  return false
+}
@@ -0,0 +1,184 @@
+// Sign-In-With-Solana: sign-in messages and the Redis-backed sessions they open
+import { createHash, randomBytes } from 'crypto'
+import type { AuthSession } from '@blink402/types'
+import {
+  setSession,
+  getSession,
+  deleteSession,
+  addWalletSession,
+  getWalletSessionIds,
+  removeWalletSession,
+  storeSignInNonce,
+  consumeSignInNonce,
+} from '@blink402/redis'
+
+export const SESSION_TOKEN_PREFIX = 'b402s_'
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60 // 7 days
+const SIGN_IN_TTL_SECONDS = 5 * 60 // Time to sign the message
+
+function getAppUrl(): URL {
+  return new URL(process.env.APP_URL || 'https://blink402.dev')
+}
+
+/**
+ * Build the message a wallet signs to sign in (Sign-In-With-Solana format)
+ */
+export function buildSignInMessage(params: {
+  wallet: string
+  nonce: string
+  issuedAt: Date
+  expiresAt: Date
+}): string {
+  const appUrl = getAppUrl()
+  const network = process.env.SOLANA_NETWORK || 'mainnet-beta'
+
+  return `${appUrl.host} wants you to sign in with your Solana account:
+${params.wallet}
+
+Sign in to Blink402 Creator Dashboard
+
+URI: ${appUrl.origin}
+Version: 1
+Chain ID: solana:${network === 'mainnet-beta' ? 'mainnet' : network}
+Nonce: ${params.nonce}
+Issued At: ${params.issuedAt.toISOString()}
+Expiration Time: ${params.expiresAt.toISOString()}`
+}
+
+/**
+ * Read the fields of a Sign-In-With-Solana message
+ * @returns Fields by name (plus domain and address from the first lines), or null if malformed
+ */
+export function parseSignInMessage(message: string): Record<string, string> | null {
+  const lines = message.split('\n')
+  const header = lines[0]?.match(/^(.+) wants you to sign in with your Solana account:$/)
+  if (!header || !lines[1]) {
+    return null
+  }
+
+  const fields: Record<string, string> = { domain: header[1], address: lines[1].trim() }
+  for (const line of lines.slice(2)) {
+    const field = line.match(/^([A-Za-z ]+): (.+)$/)
+    if (field) {
+      fields[field[1]] = field[2].trim()
+    }
+  }
+  return fields
+}
+
+/**
+ * Issue a one-time sign-in message for a wallet
+ */
+export async function createSignInChallenge(wallet: string): Promise<{ message: string; nonce: string; expiresAt: Date }> {
+  const nonce = randomBytes(16).toString('hex')
+  const issuedAt = new Date()
+  const expiresAt = new Date(issuedAt.getTime() + SIGN_IN_TTL_SECONDS * 1000)
+
+  await storeSignInNonce(nonce, wallet, SIGN_IN_TTL_SECONDS)
+
+  return { message: buildSignInMessage({ wallet, nonce, issuedAt, expiresAt }), nonce, expiresAt }
+}
+
+/**
+ * Check a signed sign-in message against the challenge it came from
+ * Uses up the nonce, so each message signs in once. The signature itself is checked by the caller.
+ * @returns Error details, or null when the message is valid for the wallet
+ */
+export async function checkSignInMessage(wallet: string, message: string): Promise<string | null> {
+  const fields = parseSignInMessage(message)
+  if (!fields) {
+    return 'message is not a Sign-In-With-Solana message'
+  }
+  if (fields.address !== wallet) {
+    return 'message was issued to a different wallet'
+  }
+
+  const appUrl = getAppUrl()
+  if (fields.domain !== appUrl.host || fields.URI !== appUrl.origin) {
+    return `message was issued for ${fields.domain}, not ${appUrl.host}`
+  }
+
+  const expiresAt = fields['Expiration Time'] ? new Date(fields['Expiration Time']) : null
+  if (!expiresAt || isNaN(expiresAt.getTime()) || expiresAt.getTime() < Date.now()) {
+    return 'message has expired - request a new one'
+  }
+
+  const nonceWallet = fields.Nonce ? await consumeSignInNonce(fields.Nonce) : null
+  if (nonceWallet !== wallet) {
+    return 'message nonce is unknown or was already used - request a new one'
+  }
+
+  return null
+}
+
+/**
+ * Session id for a token (tokens are never stored, only their hashes)
+ */
+function getSessionId(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 32)
+}
+
+/**
+ * Open a session for a wallet that signed in
+ * @returns Session and its bearer token (only returned here)
+ */
+export async function createAuthSession(
+  wallet: string,
+  userAgent: string | undefined
+): Promise<{ token: string; session: AuthSession }> {
+  const token = `${SESSION_TOKEN_PREFIX}${randomBytes(32).toString('hex')}`
+  const now = new Date()
+  const session: AuthSession = {
+    id: getSessionId(token),
+    wallet,
+    created_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + SESSION_TTL_SECONDS * 1000).toISOString(),
+    user_agent: userAgent ? userAgent.substring(0, 200) : null,
+  }
+
+  await setSession(session.id, session, SESSION_TTL_SECONDS)
+  await addWalletSession(wallet, session.id, SESSION_TTL_SECONDS)
+
+  return { token, session }
+}
+
+/**
+ * Session a bearer token belongs to
+ * @returns Session, or null if unknown, expired or revoked
+ */
+export async function getAuthSession(token: string): Promise<AuthSession | null> {
+  return getSession<AuthSession>(getSessionId(token))
+}
+
+/**
+ * A wallet's open sessions, newest first
+ */
+export async function getWalletAuthSessions(wallet: string): Promise<AuthSession[]> {
+  const sessions: AuthSession[] = []
+
+  for (const id of await getWalletSessionIds(wallet)) {
+    const session = await getSession<AuthSession>(id)
+    if (session) {
+      sessions.push(session)
+    } else {
+      await removeWalletSession(wallet, id)
+    }
+  }
+
+  return sessions.sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+/**
+ * Revoke one of a wallet's sessions
+ * @returns true if the session was open
+ */
+export async function revokeAuthSession(wallet: string, sessionId: string): Promise<boolean> {
+  const session = await getSession<AuthSession>(sessionId)
+  if (!session || session.wallet !== wallet) {
+    return false
+  }
+
+  await deleteSession(sessionId)
+  await removeWalletSession(wallet, sessionId)
+  return true
+}
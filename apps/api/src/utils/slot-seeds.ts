@@ -0,0 +1,123 @@
+// Slot machine seed pairs: server seeds committed before play, player-chosen client seeds, per-spin nonces
+import { createHmac, randomBytes } from 'crypto'
+import {
+  encrypt,
+  decrypt,
+  getActiveSlotSeedPair,
+  createSlotSeedPair,
+  rotateSlotSeedPair,
+  claimSlotSpinNonce,
+  type SlotSeedPairData,
+} from '@blink402/database'
+import type { SlotSeedPair, RevealedSlotSeedPair } from '@blink402/types'
+
+// No ':' - it separates server seed, client seed and nonce in the spin hash
+const CLIENT_SEED_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+/**
+ * Seed material used for one spin
+ */
+export interface SpinSeed {
+  seedPairId: string
+  serverSeed: string
+  serverSeedHash: string
+  clientSeed: string
+  nonce: number
+}
+
+export function hashSlotServerSeed(serverSeed: string): string {
+  return createHmac('sha256', serverSeed).digest('hex')
+}
+
+/**
+ * Validate a player-supplied client seed
+ * @returns Error details, or null when valid
+ */
+export function validateClientSeed(clientSeed: unknown): string | null {
+  if (typeof clientSeed !== 'string' || !CLIENT_SEED_PATTERN.test(clientSeed)) {
+    return 'clientSeed must be 1-64 characters (letters, digits, _ or -)'
+  }
+  return null
+}
+
+function newSeedPairMaterial(clientSeed?: string) {
+  const serverSeed = randomBytes(32).toString('hex')
+  return {
+    serverSeedHash: hashSlotServerSeed(serverSeed),
+    encryptedServerSeed: encrypt(serverSeed),
+    clientSeed: clientSeed || randomBytes(16).toString('hex'),
+  }
+}
+
+/**
+ * Get a wallet's active seed pair, issuing one (with a random client seed) if needed
+ */
+export async function getOrIssueSeedPair(wallet: string): Promise<SlotSeedPairData> {
+  const existing = await getActiveSlotSeedPair(wallet)
+  if (existing) return existing
+
+  return createSlotSeedPair({ wallet, ...newSeedPairMaterial() })
+}
+
+/**
+ * Reveal the wallet's current server seed and start a new pair
+ * @param clientSeed - Client seed for the new pair (random when omitted)
+ */
+export async function rotateSeedPair(
+  wallet: string,
+  clientSeed?: string
+): Promise<{ revealed: SlotSeedPairData | null; active: SlotSeedPairData }> {
+  return rotateSlotSeedPair({
+    wallet,
+    revealServerSeed: decrypt,
+    next: newSeedPairMaterial(clientSeed),
+  })
+}
+
+/**
+ * Take the next nonce of the wallet's active pair and decrypt its server seed
+ */
+export async function claimSpinSeed(wallet: string): Promise<SpinSeed> {
+  await getOrIssueSeedPair(wallet)
+
+  const pair = await claimSlotSpinNonce(wallet)
+  if (!pair || !pair.server_seed_encrypted) {
+    // Only possible if the pair was rotated between the two queries
+    throw new Error('Seed pair changed during spin, please try again')
+  }
+
+  const serverSeed = decrypt(pair.server_seed_encrypted)
+  if (hashSlotServerSeed(serverSeed) !== pair.server_seed_hash) {
+    throw new Error('Server seed does not match its commitment')
+  }
+
+  return {
+    seedPairId: pair.id,
+    serverSeed,
+    serverSeedHash: pair.server_seed_hash,
+    clientSeed: pair.client_seed,
+    nonce: pair.nonce,
+  }
+}
+
+/**
+ * Public view of a seed pair (never includes the encrypted server seed)
+ */
+export function toSeedPairResponse(pair: SlotSeedPairData): SlotSeedPair {
+  return {
+    id: pair.id,
+    wallet: pair.wallet,
+    serverSeedHash: pair.server_seed_hash,
+    clientSeed: pair.client_seed,
+    nextNonce: pair.next_nonce,
+    createdAt: pair.created_at,
+  }
+}
+
+export function toRevealedSeedPairResponse(pair: SlotSeedPairData): RevealedSlotSeedPair {
+  return {
+    ...toSeedPairResponse(pair),
+    serverSeed: pair.server_seed!,
+    revealedAt: pair.revealed_at!,
+  }
+}
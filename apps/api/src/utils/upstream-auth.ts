@@ -0,0 +1,152 @@
+// Upstream API credentials: validation, encryption and injection at proxy time
+import type { UpstreamAuthInput, UpstreamAuthType } from '@blink402/types'
+import {
+  encrypt,
+  decrypt,
+  maskSensitive,
+  getBlinkCredential,
+} from '@blink402/database'
+
+export const UPSTREAM_AUTH_TYPES: UpstreamAuthType[] = ['api_key_header', 'bearer', 'basic', 'api_key_query']
+
+// RFC 7230 header token characters
+export const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]{1,100}$/
+const QUERY_NAME_PATTERN = /^[A-Za-z0-9_.\-[\]]{1,100}$/
+const MAX_SECRET_LENGTH = 4096
+
+// Headers the proxy controls itself - a credential must not override them
+export const RESERVED_UPSTREAM_HEADERS = [
+  'host', 'content-type', 'content-length', 'accept', 'user-agent', 'connection',
+  'transfer-encoding', 'te', 'upgrade', 'keep-alive', 'proxy-authorization', 'cookie',
+]
+
+/**
+ * Decrypted credential, ready to apply to an upstream request
+ */
+export interface ResolvedUpstreamAuth {
+  headers: Record<string, string>
+  query: Record<string, string>
+}
+
+/**
+ * Validate an upstream credential from a create/update body
+ * @returns Error details, or null when valid
+ */
+export function validateUpstreamAuthInput(input: UpstreamAuthInput | undefined | null): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'upstream_auth must be an object'
+  }
+  if (!UPSTREAM_AUTH_TYPES.includes(input.type)) {
+    return `upstream_auth.type must be one of: ${UPSTREAM_AUTH_TYPES.join(', ')}`
+  }
+
+  if (input.type === 'basic') {
+    if (!input.username || typeof input.username !== 'string' || input.username.includes(':')) {
+      return 'upstream_auth.username is required for basic auth and cannot contain ":"'
+    }
+    if (!input.password || typeof input.password !== 'string' || input.password.length > MAX_SECRET_LENGTH) {
+      return 'upstream_auth.password is required for basic auth'
+    }
+    return null
+  }
+
+  if (!input.value || typeof input.value !== 'string' || input.value.length > MAX_SECRET_LENGTH) {
+    return 'upstream_auth.value is required'
+  }
+  if (/[\r\n]/.test(input.value)) {
+    return 'upstream_auth.value cannot contain line breaks'
+  }
+
+  if (input.type === 'api_key_header') {
+    if (!input.key_name || !HEADER_NAME_PATTERN.test(input.key_name)) {
+      return 'upstream_auth.key_name must be a valid header name (e.g. X-API-Key)'
+    }
+    if (RESERVED_UPSTREAM_HEADERS.includes(input.key_name.toLowerCase())) {
+      return `upstream_auth.key_name cannot be ${input.key_name}`
+    }
+  }
+
+  if (input.type === 'api_key_query') {
+    if (!input.key_name || !QUERY_NAME_PATTERN.test(input.key_name)) {
+      return 'upstream_auth.key_name must be a valid query parameter name (e.g. api_key)'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Build request headers/query params from plaintext credential material
+ */
+function buildUpstreamAuth(
+  type: UpstreamAuthType,
+  keyName: string | null | undefined,
+  secret: { value?: string; username?: string; password?: string }
+): ResolvedUpstreamAuth {
+  switch (type) {
+    case 'api_key_header':
+      return { headers: { [keyName!]: secret.value! }, query: {} }
+    case 'bearer':
+      return { headers: { Authorization: `Bearer ${secret.value}` }, query: {} }
+    case 'basic': {
+      const token = Buffer.from(`${secret.username}:${secret.password}`).toString('base64')
+      return { headers: { Authorization: `Basic ${token}` }, query: {} }
+    }
+    case 'api_key_query':
+      return { headers: {}, query: { [keyName!]: secret.value! } }
+  }
+}
+
+/**
+ * Resolve a (validated) credential input without storing it
+ * Used to test the endpoint with the creator's credentials before saving the blink.
+ */
+export function resolveUpstreamAuthInput(input: UpstreamAuthInput): ResolvedUpstreamAuth {
+  return buildUpstreamAuth(input.type, input.key_name, input)
+}
+
+/**
+ * Encrypt a (validated) credential for storage with saveBlinkCredential
+ */
+export function encryptUpstreamAuth(input: UpstreamAuthInput): {
+  authType: UpstreamAuthType
+  keyName: string | null
+  encryptedSecret: string
+  maskedSecret: string
+} {
+  const secret = input.type === 'basic'
+    ? { username: input.username, password: input.password }
+    : { value: input.value }
+
+  return {
+    authType: input.type,
+    keyName: input.type === 'api_key_header' || input.type === 'api_key_query' ? input.key_name! : null,
+    encryptedSecret: encrypt(JSON.stringify(secret)),
+    maskedSecret: input.type === 'basic' ? `${input.username}:***` : maskSensitive(input.value!),
+  }
+}
+
+/**
+ * Load and decrypt a blink's upstream credential (proxy time only)
+ * @returns Resolved credential or null if the blink has none
+ */
+export async function loadUpstreamAuth(blinkId: string): Promise<ResolvedUpstreamAuth | null> {
+  const credential = await getBlinkCredential(blinkId)
+  if (!credential) return null
+
+  const secret = JSON.parse(decrypt(credential.encrypted_secret))
+  return buildUpstreamAuth(credential.auth_type, credential.key_name, secret)
+}
+
+/**
+ * Add credential query params to an upstream URL
+ */
+export function applyUpstreamAuthToUrl(url: string, auth: ResolvedUpstreamAuth | null): string {
+  if (!auth || Object.keys(auth.query).length === 0) return url
+
+  const parsed = new URL(url)
+  for (const [key, value] of Object.entries(auth.query)) {
+    parsed.searchParams.set(key, value)
+  }
+  return parsed.toString()
+}
@@ -0,0 +1,137 @@
+// Upstream response handling: size-limited reads, binary detection and SSE pass-through
+import type { PassThrough } from 'stream'
+
+// Non text/* types that are still safe to decode as text
+const TEXTUAL_APPLICATION_TYPES = [
+  'application/json',
+  'application/x-ndjson',
+  'application/xml',
+  'application/javascript',
+  'application/x-www-form-urlencoded',
+  'application/graphql',
+]
+
+/**
+ * Check whether a Content-Type is a server-sent event stream
+ */
+export function isEventStream(contentType: string): boolean {
+  return contentType.split(';')[0].trim().toLowerCase() === 'text/event-stream'
+}
+
+/**
+ * Check whether a Content-Type carries binary data (image, audio, video, PDF...)
+ * Missing content types keep the legacy text handling.
+ */
+export function isBinaryContentType(contentType: string): boolean {
+  const mime = contentType.split(';')[0].trim().toLowerCase()
+  if (!mime || mime.startsWith('text/')) return false
+  if (mime.endsWith('+json') || mime.endsWith('+xml')) return false
+  return !TEXTUAL_APPLICATION_TYPES.includes(mime)
+}
+
+/**
+ * Read response body with size limit (prevents DoS)
+ * Returns raw bytes so binary payloads survive intact.
+ */
+export async function readBodyWithLimit(response: Response, maxSize: number): Promise<Buffer> {
+  const reader = response.body?.getReader()
+  if (!reader) throw new Error('No response body')
+
+  const chunks: Uint8Array[] = []
+  let totalSize = 0
+
+  try {
+    let chunk = await reader.read()
+    while (!chunk.done) {
+      const { value } = chunk
+
+      totalSize += value.length
+      if (totalSize > maxSize) {
+        throw new Error(`Response exceeds maximum size of ${maxSize} bytes`)
+      }
+
+      chunks.push(value)
+      chunk = await reader.read()
+    }
+  } finally {
+    reader.releaseLock()
+  }
+
+  return Buffer.concat(chunks, totalSize)
+}
+
+/**
+ * Forward an upstream event stream to the payer chunk by chunk
+ * Keeps reading after the payer disconnects so the transcript is still stored for the results page.
+ * @param maxTranscriptSize - Bytes of the stream kept for the run record
+ * @returns Transcript of the stream (truncated to maxTranscriptSize)
+ */
+export async function pipeEventStream(
+  response: Response,
+  sink: PassThrough,
+  maxTranscriptSize: number
+): Promise<{ transcript: string; truncated: boolean }> {
+  const reader = response.body?.getReader()
+  if (!reader) throw new Error('No response body')
+
+  const kept: Uint8Array[] = []
+  let keptSize = 0
+  let truncated = false
+
+  try {
+    let chunk = await reader.read()
+    while (!chunk.done) {
+      const { value } = chunk
+
+      if (keptSize + value.length <= maxTranscriptSize) {
+        kept.push(value)
+        keptSize += value.length
+      } else {
+        truncated = true
+      }
+
+      // Respect backpressure, but never wait on a payer that has gone away
+      if (!sink.destroyed && !sink.write(value)) {
+        await new Promise<void>((resolve) => {
+          sink.once('drain', resolve)
+          sink.once('close', resolve)
+        })
+      }
+
+      chunk = await reader.read()
+    }
+  } finally {
+    reader.releaseLock()
+  }
+
+  return {
+    transcript: Buffer.concat(kept, keptSize).toString('utf-8'),
+    truncated,
+  }
+}
+
+/**
+ * Send a final SSE error event and close the payer's stream
+ */
+export function endEventStreamWithError(sink: PassThrough, message: string): void {
+  if (sink.destroyed || sink.writableEnded) return
+  sink.end(`event: error\ndata: ${JSON.stringify({ error: message })}\n\n`)
+}
+
+/**
+ * Non-2xx response from an upstream API, carrying its HTTP status
+ */
+export class UpstreamHttpError extends Error {
+  constructor(public readonly status: number, message = `Upstream API returned ${status}`) {
+    super(message)
+    this.name = 'UpstreamHttpError'
+  }
+}
+
+/**
+ * Check whether a failed upstream call is refundable
+ * 5xx responses, timeouts and network errors are the endpoint's fault; a 4xx rejected the request itself.
+ */
+export function isRefundableUpstreamError(error: unknown): boolean {
+  return !(error instanceof UpstreamHttpError) || error.status >= 500
+}
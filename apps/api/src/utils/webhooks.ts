@@ -0,0 +1,154 @@
+// Creator webhooks: event types, URL validation, secrets, payload signing and retry backoff
+import { createHmac, randomBytes } from 'crypto'
+import dns from 'dns'
+import type { LookupFunction } from 'net'
+import type { WebhookEventType } from '@blink402/types'
+import { validateUpstreamUrl } from './upstream-url.js'
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'run.paid',
+  'run.executed',
+  'run.failed',
+  'reward.claimed',
+  'lottery.payout_completed',
+  'lottery.payout_failed',
+  'pass.purchased',
+  'pass.expiring',
+]
+
+export const MAX_WEBHOOKS_PER_CREATOR = 10
+export const MAX_WEBHOOK_ATTEMPTS = 8
+export const WEBHOOK_TIMEOUT_MS = 10000
+
+// Redis delayed queue holding delivery IDs scored by their next attempt time
+export const WEBHOOK_QUEUE = 'webhook-deliveries'
+
+const BASE_RETRY_DELAY_MS = 30 * 1000 // 30s, 1m, 2m, 4m ... capped below
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000 // 6 hours
+
+/**
+ * Validate a webhook endpoint URL
+ * HTTPS only (plain HTTP and private hosts are allowed outside production for local testing);
+ * in production the host must pass the same SSRF checks as upstream endpoints (validateUpstreamUrl).
+ * @returns Error details, or null when valid
+ */
+export async function validateWebhookUrl(urlString: unknown): Promise<string | null> {
+  if (typeof urlString !== 'string' || urlString.length > 2048) {
+    return 'url must be a string of at most 2048 characters'
+  }
+
+  let url: URL
+  try {
+    url = new URL(urlString)
+  } catch {
+    return 'url is not a valid URL'
+  }
+
+  const allowHttp = process.env.NODE_ENV !== 'production'
+  if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+    return 'url must use https'
+  }
+
+  if (url.username || url.password) {
+    return 'url must not contain credentials'
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    try {
+      await validateUpstreamUrl(urlString)
+    } catch (error) {
+      return `url must point to a public host: ${(error as Error).message}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Connection lookup for webhook deliveries: resolves the host and refuses private addresses
+ * Checking the address the delivery actually connects to stops a host that re-resolves
+ * to a private address after registration (DNS rebinding).
+ */
+export const lookupPublicWebhookAddress: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '')
+      return
+    }
+
+    Promise.all(addresses.map(({ address, family }) =>
+      validateUpstreamUrl(`http://${family === 6 ? `[${address}]` : address}/`)
+    ))
+      .then(() => {
+        if (options.all) {
+          callback(null, addresses)
+        } else {
+          callback(null, addresses[0].address, addresses[0].family)
+        }
+      })
+      .catch((validationError: Error) => {
+        callback(new Error(`Webhook host ${hostname} resolves to a blocked address: ${validationError.message}`), '')
+      })
+  })
+}
+
+/**
+ * Validate a list of subscribed event types
+ * @returns Error details, or null when valid
+ */
+export function validateWebhookEvents(events: unknown): string | null {
+  if (!Array.isArray(events) || events.length === 0) {
+    return 'events must be a non-empty array'
+  }
+
+  const unknownEvents = events.filter((event) => !WEBHOOK_EVENT_TYPES.includes(event))
+  if (unknownEvents.length > 0) {
+    return `Unknown event types: ${unknownEvents.join(', ')}. Supported: ${WEBHOOK_EVENT_TYPES.join(', ')}`
+  }
+
+  return null
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`
+}
+
+/**
+ * Build the headers for a signed delivery
+ * Receivers verify by computing HMAC-SHA256(secret, `${t}.${rawBody}`) and comparing it to v1.
+ */
+export function signWebhookPayload(params: {
+  secret: string
+  body: string
+  eventType: string
+  deliveryId: string
+  eventId: string
+  timestamp?: number
+}): Record<string, string> {
+  const { secret, body, eventType, deliveryId, eventId } = params
+  const timestamp = params.timestamp ?? Math.floor(Date.now() / 1000)
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+
+  return {
+    'Content-Type': 'application/json',
+    'User-Agent': 'Blink402-Webhooks/1.0',
+    'X-Blink402-Event': eventType,
+    'X-Blink402-Event-Id': eventId,
+    'X-Blink402-Delivery': deliveryId,
+    'X-Blink402-Signature': `t=${timestamp},v1=${signature}`,
+  }
+}
+
+/**
+ * When to retry after a failed attempt
+ * @param attempts - Attempts made so far, including the one that just failed
+ * @returns Next attempt time, or null once MAX_WEBHOOK_ATTEMPTS is reached
+ */
+export function getNextWebhookAttempt(attempts: number, now: number = Date.now()): Date | null {
+  if (attempts >= MAX_WEBHOOK_ATTEMPTS) {
+    return null
+  }
+
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS)
+  return new Date(now + delay)
+}
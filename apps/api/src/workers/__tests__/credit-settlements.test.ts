@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import type { BackgroundJob } from '@blink402/types'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  enqueueJob: vi.fn(),
+  claimCreditSettlements: vi.fn(),
+  cancelFailedRunCreditSettlements: vi.fn(),
+}))
+vi.mock('../../utils/credits.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/credits.js')>()),
+  sendCreditSettlement: vi.fn(),
+  settleSendingCreditSettlement: vi.fn(),
+}))
+
+import {
+  getPool,
+  closePool,
+  claimCreditSettlements,
+  cancelFailedRunCreditSettlements,
+  completeCreditSettlement,
+  completeCreditWithdrawal,
+  type CreditSettlementData,
+} from '@blink402/database'
+import { sendCreditSettlement, settleSendingCreditSettlement } from '../../utils/credits.js'
+import { getRegisteredJob } from '../../utils/jobs.js'
+import { startCreditSettlements } from '../credit-settlements.js'
+
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Parameters<typeof startCreditSettlements>[0]
+
+function settlement(id: string, status: CreditSettlementData['status']): CreditSettlementData {
+  return { id, status, run_id: `run-${id}`, amount_usdc: '0.050000' } as CreditSettlementData
+}
+
+describe('credits.settlements job', () => {
+  beforeAll(() => {
+    startCreditSettlements(log)
+  })
+
+  beforeEach(() => {
+    vi.mocked(cancelFailedRunCreditSettlements).mockResolvedValue(0)
+    vi.mocked(sendCreditSettlement).mockReset()
+    vi.mocked(settleSendingCreditSettlement).mockReset()
+  })
+
+  it('checks broadcast transfers on-chain and sends the others', async () => {
+    const pending = settlement('s-1', 'pending')
+    const retry = settlement('s-2', 'failed')
+    const sending = settlement('s-3', 'sending')
+    vi.mocked(claimCreditSettlements).mockResolvedValue([pending, retry, sending])
+    vi.mocked(sendCreditSettlement).mockResolvedValue(true)
+    vi.mocked(settleSendingCreditSettlement).mockResolvedValue(false)
+
+    await getRegisteredJob('credits.settlements')!.handler({} as BackgroundJob, new AbortController().signal)
+
+    expect(vi.mocked(sendCreditSettlement).mock.calls.map(([claimed]) => claimed.id)).toEqual(['s-1', 's-2'])
+    expect(settleSendingCreditSettlement).toHaveBeenCalledWith(sending, log)
+    expect(log.info).toHaveBeenCalledWith({ claimed: 3, sent: 2 }, 'Processed credit settlements')
+  })
+
+  it('stops between settlements once the job is aborted', async () => {
+    const controller = new AbortController()
+    vi.mocked(claimCreditSettlements).mockResolvedValue([settlement('s-1', 'pending'), settlement('s-2', 'pending')])
+    vi.mocked(sendCreditSettlement).mockImplementation(async () => {
+      controller.abort()
+      return true
+    })
+
+    await expect(getRegisteredJob('credits.settlements')!.handler({} as BackgroundJob, controller.signal)).rejects.toThrow()
+    expect(sendCreditSettlement).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('completing an already settled transfer', () => {
+  let query: ReturnType<typeof vi.spyOn>
+
+  beforeAll(() => {
+    query = vi.spyOn(getPool(), 'query')
+  })
+
+  afterAll(async () => {
+    query.mockRestore()
+    await closePool()
+  })
+
+  beforeEach(() => {
+    query.mockReset()
+  })
+
+  function statements(): string[] {
+    return query.mock.calls.map((call: unknown[]) => String(call[0]))
+  }
+
+  it('returns the completed settlement without recording it in the ledger again', async () => {
+    const completed = { id: 's-1', status: 'completed', signature: 'sig-1' }
+    query.mockImplementation((async (sql: string) => ({ rows: sql.trimStart().startsWith('UPDATE') ? [] : [completed] })) as never)
+
+    expect(await completeCreditSettlement({ id: 's-1', signature: 'sig-1', fromWallet: 'Treasury' })).toEqual(completed)
+    expect(statements().some((sql) => sql.includes('ledger_transactions'))).toBe(false)
+  })
+
+  it('throws for settlements that do not exist', async () => {
+    query.mockImplementation((async () => ({ rows: [] })) as never)
+
+    await expect(completeCreditSettlement({ id: 's-9', signature: 'sig-1', fromWallet: 'Treasury' }))
+      .rejects.toThrow('Credit settlement s-9 not found')
+  })
+
+  it('returns the completed withdrawal without recording it in the ledger again', async () => {
+    const completed = { id: 'w-1', kind: 'withdrawal', status: 'completed', signature: 'sig-1' }
+    query.mockImplementation((async (sql: string) => ({ rows: sql.trimStart().startsWith('UPDATE') ? [] : [completed] })) as never)
+
+    expect(await completeCreditWithdrawal({ id: 'w-1', signature: 'sig-1', fromWallet: 'Treasury' })).toEqual(completed)
+    expect(statements().some((sql) => sql.includes('ledger_transactions'))).toBe(false)
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
+import { Keypair, type ParsedTransactionWithMeta } from '@solana/web3.js'
+import type { BackgroundJob } from '@blink402/types'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  enqueueJob: vi.fn(),
+  getLedgerTransactionsToReconcile: vi.fn(),
+  setLedgerReconciliation: vi.fn(),
+}))
+vi.mock('@blink402/solana', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/solana')>()),
+  getConnection: vi.fn(),
+}))
+
+import {
+  getLedgerTransactionsToReconcile,
+  setLedgerReconciliation,
+  type LedgerTransactionData,
+} from '@blink402/database'
+import { getConnection, getUsdcMint } from '@blink402/solana'
+import { getRegisteredJob } from '../../utils/jobs.js'
+import { getReceivedAmount, startLedgerReconciliation } from '../ledger-reconciliation.js'
+
+const CREATOR_WALLET = Keypair.generate().publicKey.toBase58()
+const PAYER_WALLET = Keypair.generate().publicKey.toBase58()
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Parameters<typeof startLedgerReconciliation>[0]
+const getParsedTransaction = vi.fn()
+
+function solTransfer(lamports: number, err: unknown = null): ParsedTransactionWithMeta {
+  return {
+    transaction: {
+      message: {
+        accountKeys: [
+          { pubkey: { toBase58: () => PAYER_WALLET } },
+          { pubkey: { toBase58: () => CREATOR_WALLET } },
+        ],
+      },
+    },
+    meta: { err, preBalances: [5_000_000_000, 1_000_000_000], postBalances: [5_000_000_000 - lamports - 5000, 1_000_000_000 + lamports] },
+  } as unknown as ParsedTransactionWithMeta
+}
+
+function usdcTransfer(atomic: number, owner = CREATOR_WALLET): ParsedTransactionWithMeta {
+  const mint = getUsdcMint().toBase58()
+  const balance = (amount: number) => ({ owner, mint, uiTokenAmount: { amount: String(amount) } })
+  return {
+    transaction: { message: { accountKeys: [] } },
+    meta: { err: null, preBalances: [], postBalances: [], preTokenBalances: [balance(1_000_000)], postTokenBalances: [balance(1_000_000 + atomic)] },
+  } as unknown as ParsedTransactionWithMeta
+}
+
+function ledgerTransaction(overrides: Partial<LedgerTransactionData> = {}): LedgerTransactionData {
+  return {
+    id: 'ltx-1',
+    kind: 'payment',
+    token: 'USDC',
+    amount: '0.050000',
+    signature: 'sig-1',
+    to_wallet: CREATOR_WALLET,
+    metadata: {},
+    reconciliation_attempts: 0,
+    ...overrides,
+  } as LedgerTransactionData
+}
+
+async function runReconciliation(...transactions: LedgerTransactionData[]) {
+  vi.mocked(getLedgerTransactionsToReconcile).mockResolvedValue(transactions)
+  await getRegisteredJob('ledger.reconcile')!.handler({} as BackgroundJob, new AbortController().signal)
+}
+
+describe('getReceivedAmount', () => {
+  it('returns the SOL balance change of the wallet', () => {
+    expect(getReceivedAmount(solTransfer(250_000_000), CREATOR_WALLET, 'SOL')).toBe(250_000_000n)
+    expect(getReceivedAmount(solTransfer(250_000_000), PAYER_WALLET, 'SOL')).toBe(-250_005_000n)
+  })
+
+  it('returns the USDC token balance change of the wallet', () => {
+    expect(getReceivedAmount(usdcTransfer(50_000), CREATOR_WALLET, 'USDC')).toBe(50_000n)
+  })
+
+  it('returns null when the wallet is not part of the transaction', () => {
+    expect(getReceivedAmount(solTransfer(1), Keypair.generate().publicKey.toBase58(), 'SOL')).toBeNull()
+    expect(getReceivedAmount(usdcTransfer(50_000, PAYER_WALLET), CREATOR_WALLET, 'USDC')).toBeNull()
+  })
+})
+
+describe('ledger.reconcile job', () => {
+  beforeAll(() => {
+    vi.mocked(getConnection).mockReturnValue({ getParsedTransaction } as unknown as ReturnType<typeof getConnection>)
+    startLedgerReconciliation(log)
+  })
+
+  beforeEach(() => {
+    getParsedTransaction.mockReset()
+    vi.mocked(setLedgerReconciliation).mockReset()
+  })
+
+  it('matches transfers of the recorded amount', async () => {
+    getParsedTransaction.mockResolvedValue(usdcTransfer(50_000))
+
+    await runReconciliation(ledgerTransaction())
+
+    expect(setLedgerReconciliation).toHaveBeenCalledWith({ id: 'ltx-1', status: 'matched', note: null })
+  })
+
+  it('flags transfers of another amount', async () => {
+    getParsedTransaction.mockResolvedValue(solTransfer(100_000_000))
+
+    await runReconciliation(ledgerTransaction({ token: 'SOL', amount: '0.25' }))
+
+    expect(setLedgerReconciliation).toHaveBeenCalledWith({
+      id: 'ltx-1',
+      status: 'mismatch',
+      note: `Expected 0.25 SOL to ${CREATOR_WALLET}, chain shows 0.100000000`,
+    })
+  })
+
+  it('compares batched commissions with the batch total', async () => {
+    getParsedTransaction.mockResolvedValue(usdcTransfer(300_000))
+
+    await runReconciliation(ledgerTransaction({ kind: 'referral_commission', amount: '0.100000', metadata: { batch_amount_usdc: '0.300000' } }))
+
+    expect(setLedgerReconciliation).toHaveBeenCalledWith({ id: 'ltx-1', status: 'matched', note: null })
+  })
+
+  it('flags failed transactions', async () => {
+    getParsedTransaction.mockResolvedValue({ ...usdcTransfer(50_000), meta: { err: { InstructionError: [0, 'Custom'] } } })
+
+    await runReconciliation(ledgerTransaction())
+
+    expect(vi.mocked(setLedgerReconciliation).mock.calls[0][0]).toMatchObject({ status: 'mismatch' })
+  })
+
+  it('keeps unfound transactions pending, then reports them missing', async () => {
+    getParsedTransaction.mockResolvedValue(null)
+
+    await runReconciliation(ledgerTransaction({ reconciliation_attempts: 0 }), ledgerTransaction({ id: 'ltx-2', reconciliation_attempts: 4 }))
+
+    expect(setLedgerReconciliation).toHaveBeenCalledWith({ id: 'ltx-1', status: 'pending', note: 'Transaction not found yet' })
+    expect(setLedgerReconciliation).toHaveBeenCalledWith({ id: 'ltx-2', status: 'missing', note: 'Transaction not found on-chain' })
+  })
+
+  it('leaves the transaction pending when the RPC call fails', async () => {
+    getParsedTransaction.mockRejectedValue(new Error('429 Too Many Requests'))
+
+    await runReconciliation(ledgerTransaction())
+
+    expect(setLedgerReconciliation).not.toHaveBeenCalled()
+    expect(log.error).toHaveBeenCalled()
+  })
+})
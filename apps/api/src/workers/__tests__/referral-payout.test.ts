@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import { Keypair } from '@solana/web3.js'
+import type { BackgroundJob, ReferralPayoutBatch } from '@blink402/types'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  enqueueJob: vi.fn(),
+  getPendingCommissions: vi.fn(),
+  createReferralPayoutBatch: vi.fn(),
+  claimReferralPayoutBatches: vi.fn(),
+  markReferralPayoutBatchSending: vi.fn(),
+  completeReferralPayoutBatch: vi.fn(),
+  failReferralPayoutBatch: vi.fn(),
+}))
+vi.mock('@blink402/solana', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/solana')>()),
+  getConnection: vi.fn(),
+  buildRewardTransaction: vi.fn(),
+  signAndBroadcastReward: vi.fn(),
+  getTransferStatus: vi.fn(),
+}))
+
+import {
+  getPool,
+  closePool,
+  getPendingCommissions,
+  createReferralPayoutBatch,
+  claimReferralPayoutBatches,
+  markReferralPayoutBatchSending,
+  completeReferralPayoutBatch,
+  failReferralPayoutBatch,
+} from '@blink402/database'
+import { buildRewardTransaction, signAndBroadcastReward, getTransferStatus } from '@blink402/solana'
+import { getRegisteredJob } from '../../utils/jobs.js'
+import {
+  batchDueCommissions,
+  sendReferralPayoutBatch,
+  settleSendingReferralPayoutBatch,
+} from '../../utils/referral-payouts.js'
+import { startReferralPayouts } from '../referral-payout.js'
+
+type Query = (sql: string, params?: unknown[]) => Promise<{ rows: unknown[]; rowCount?: number }>
+
+const REFERRER = Keypair.generate().publicKey.toBase58()
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Parameters<typeof batchDueCommissions>[0]
+const originalRewardKeypair = process.env.REWARD_KEYPAIR_SECRET
+
+function batch(overrides: Partial<ReferralPayoutBatch> = {}): ReferralPayoutBatch {
+  return {
+    id: 'batch-1',
+    referrer_wallet: REFERRER,
+    amount_usdc: '1.250000',
+    payout_count: 3,
+    status: 'pending',
+    signature: null,
+    last_valid_block_height: null,
+    attempts: 0,
+    ...overrides,
+  } as ReferralPayoutBatch
+}
+
+function commission(id: string, referrerWallet: string, amountUsdc: string, hoursAgo = 1) {
+  return { id, referrerWallet, amountUsdc, tier: 'tier1', recordedAt: new Date(Date.now() - hoursAgo * 60 * 60 * 1000) }
+}
+
+beforeAll(() => {
+  process.env.REWARD_KEYPAIR_SECRET = JSON.stringify(Array.from(Keypair.generate().secretKey))
+})
+
+afterAll(() => {
+  process.env.REWARD_KEYPAIR_SECRET = originalRewardKeypair
+})
+
+beforeEach(() => {
+  vi.mocked(createReferralPayoutBatch).mockReset()
+  vi.mocked(markReferralPayoutBatchSending).mockReset()
+  vi.mocked(completeReferralPayoutBatch).mockReset()
+  vi.mocked(failReferralPayoutBatch).mockReset()
+  vi.mocked(signAndBroadcastReward).mockReset()
+  vi.mocked(getTransferStatus).mockReset()
+})
+
+describe('batchDueCommissions', () => {
+  it('batches referrers over the minimum or with a commission past the maximum wait', async () => {
+    vi.mocked(getPendingCommissions).mockResolvedValue([
+      commission('c-1', 'over-minimum', '0.600000'),
+      commission('c-2', 'over-minimum', '0.500000'),
+      commission('c-3', 'waited-long', '0.010000', 200),
+      commission('c-4', 'not-due', '0.200000'),
+    ])
+    vi.mocked(createReferralPayoutBatch).mockImplementation(async ({ referrerWallet, payoutIds }) => (
+      batch({ referrer_wallet: referrerWallet, payout_count: payoutIds.length })
+    ))
+
+    const batches = await batchDueCommissions(log)
+
+    expect(vi.mocked(createReferralPayoutBatch).mock.calls.map(([params]) => params)).toEqual([
+      { referrerWallet: 'over-minimum', payoutIds: ['c-1', 'c-2'] },
+      { referrerWallet: 'waited-long', payoutIds: ['c-3'] },
+    ])
+    expect(batches).toHaveLength(2)
+  })
+
+  it('skips referrers whose commissions were batched in the meantime', async () => {
+    vi.mocked(getPendingCommissions).mockResolvedValue([commission('c-1', 'over-minimum', '2.000000')])
+    vi.mocked(createReferralPayoutBatch).mockResolvedValue(null)
+
+    expect(await batchDueCommissions(log)).toEqual([])
+  })
+})
+
+describe('sendReferralPayoutBatch', () => {
+  it('sends the batch total in one transfer and completes the batch', async () => {
+    vi.mocked(signAndBroadcastReward).mockImplementation(async ({ onBroadcast }) => {
+      await onBroadcast!({ signature: 'sig-1', lastValidBlockHeight: 1000 })
+      return 'sig-1'
+    })
+
+    expect(await sendReferralPayoutBatch(batch(), log)).toBe(true)
+    expect(vi.mocked(buildRewardTransaction).mock.calls[0][0]).toMatchObject({ amount: 1_250_000n })
+    expect(markReferralPayoutBatchSending).toHaveBeenCalledWith({ id: 'batch-1', signature: 'sig-1', lastValidBlockHeight: 1000 })
+    expect(completeReferralPayoutBatch).toHaveBeenCalledWith({ id: 'batch-1', signature: 'sig-1' })
+  })
+
+  it('schedules a retry when the transfer was never broadcast', async () => {
+    vi.mocked(signAndBroadcastReward).mockRejectedValue(new Error('Blockhash not found'))
+
+    expect(await sendReferralPayoutBatch(batch(), log)).toBe(false)
+    expect(failReferralPayoutBatch).toHaveBeenCalledWith({ id: 'batch-1', error: 'Blockhash not found' })
+  })
+
+  it('leaves a broadcast transfer for the on-chain check instead of sending it again', async () => {
+    vi.mocked(signAndBroadcastReward).mockImplementation(async ({ onBroadcast }) => {
+      await onBroadcast!({ signature: 'sig-1', lastValidBlockHeight: 1000 })
+      throw new Error('Confirmation timed out')
+    })
+
+    expect(await sendReferralPayoutBatch(batch(), log)).toBe(false)
+    expect(failReferralPayoutBatch).not.toHaveBeenCalled()
+    expect(completeReferralPayoutBatch).not.toHaveBeenCalled()
+  })
+
+  it('fails batches for invalid referrer wallets', async () => {
+    expect(await sendReferralPayoutBatch(batch({ referrer_wallet: 'not-a-wallet' }), log)).toBe(false)
+    expect(signAndBroadcastReward).not.toHaveBeenCalled()
+    expect(failReferralPayoutBatch).toHaveBeenCalledWith({ id: 'batch-1', error: 'Invalid referrer wallet: not-a-wallet' })
+  })
+})
+
+describe('settleSendingReferralPayoutBatch', () => {
+  const sending = batch({ status: 'sending', signature: 'sig-1', last_valid_block_height: '1000' } as Partial<ReferralPayoutBatch>)
+
+  it('completes batches whose transfer confirmed', async () => {
+    vi.mocked(getTransferStatus).mockResolvedValue('confirmed')
+
+    expect(await settleSendingReferralPayoutBatch(sending, log)).toBe(true)
+    expect(vi.mocked(getTransferStatus).mock.calls[0][0]).toMatchObject({ signature: 'sig-1', lastValidBlockHeight: 1000 })
+    expect(completeReferralPayoutBatch).toHaveBeenCalledWith({ id: 'batch-1', signature: 'sig-1' })
+  })
+
+  it('schedules a retry for transfers that failed or expired', async () => {
+    vi.mocked(getTransferStatus).mockResolvedValue('expired')
+
+    expect(await settleSendingReferralPayoutBatch(sending, log)).toBe(false)
+    expect(failReferralPayoutBatch).toHaveBeenCalledWith({ id: 'batch-1', error: 'Payout transfer expired on-chain' })
+  })
+
+  it('waits for transfers that can still land', async () => {
+    vi.mocked(getTransferStatus).mockResolvedValue('pending')
+
+    expect(await settleSendingReferralPayoutBatch(sending, log)).toBe(false)
+    expect(completeReferralPayoutBatch).not.toHaveBeenCalled()
+    expect(failReferralPayoutBatch).not.toHaveBeenCalled()
+  })
+
+  it('leaves batches without a signature for manual handling', async () => {
+    expect(await settleSendingReferralPayoutBatch(batch({ status: 'sending' }), log)).toBe(false)
+    expect(getTransferStatus).not.toHaveBeenCalled()
+  })
+})
+
+describe('referrals.payout job', () => {
+  beforeAll(() => {
+    startReferralPayouts(log)
+  })
+
+  it('checks broadcast batches on-chain and sends the others', async () => {
+    vi.mocked(getPendingCommissions).mockResolvedValue([])
+    vi.mocked(claimReferralPayoutBatches).mockResolvedValue([
+      batch({ id: 'batch-1' }),
+      batch({ id: 'batch-2', status: 'sending', signature: 'sig-2', last_valid_block_height: '1000' } as Partial<ReferralPayoutBatch>),
+    ])
+    vi.mocked(signAndBroadcastReward).mockResolvedValue('sig-1')
+    vi.mocked(getTransferStatus).mockResolvedValue('confirmed')
+
+    await getRegisteredJob('referrals.payout')!.handler({} as BackgroundJob, new AbortController().signal)
+
+    expect(signAndBroadcastReward).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(completeReferralPayoutBatch).mock.calls.map(([params]) => params)).toEqual([
+      { id: 'batch-1', signature: 'sig-1' },
+      { id: 'batch-2', signature: 'sig-2' },
+    ])
+  })
+})
+
+describe('completeReferralPayoutBatch', () => {
+  let connect: ReturnType<typeof vi.spyOn>
+  const query = vi.fn<Query>()
+  let complete: typeof completeReferralPayoutBatch
+
+  beforeAll(async () => {
+    connect = vi.spyOn(getPool(), 'connect').mockImplementation((async () => ({ query, release: vi.fn() })) as never)
+    complete = (await vi.importActual<typeof import('@blink402/database')>('@blink402/database')).completeReferralPayoutBatch
+  })
+
+  afterAll(async () => {
+    connect.mockRestore()
+    await closePool()
+  })
+
+  beforeEach(() => {
+    query.mockReset()
+  })
+
+  it('only marks commissions that are still pending when the batch was already completed', async () => {
+    query.mockImplementation(async (sql) => {
+      if (sql.includes('UPDATE commission_payout_batches')) return { rows: [], rowCount: 0 }
+      if (sql.includes('SELECT id FROM commission_payout_batches')) return { rows: [{ id: 'batch-1' }] }
+      return { rows: [], rowCount: 0 }
+    })
+
+    await complete({ id: 'batch-1', signature: 'sig-1' })
+
+    const statements = query.mock.calls.map(([sql]) => sql)
+    expect(statements).toContainEqual(expect.stringContaining("WHERE batch_id = $2 AND status = 'pending'"))
+    expect(statements.at(-1)).toBe('COMMIT')
+  })
+
+  it('throws for batches that do not exist', async () => {
+    query.mockResolvedValue({ rows: [], rowCount: 0 })
+
+    await expect(complete({ id: 'batch-9', signature: 'sig-1' })).rejects.toThrow('Referral payout batch batch-9 not found')
+    expect(query.mock.calls.map(([sql]) => sql)).toContain('ROLLBACK')
+  })
+})
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import { Keypair } from '@solana/web3.js'
+import type { BackgroundJob } from '@blink402/types'
+
+vi.mock('@blink402/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/database')>()),
+  enqueueJob: vi.fn(),
+  claimRevenueSplitPayouts: vi.fn(),
+  cancelFailedRunRevenueSplits: vi.fn(),
+  markRevenueSplitPayoutSending: vi.fn(),
+  completeRevenueSplitPayout: vi.fn(),
+  failRevenueSplitPayout: vi.fn(),
+}))
+vi.mock('@blink402/solana', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@blink402/solana')>()),
+  getConnection: vi.fn(),
+  buildRefundTransaction: vi.fn(),
+  executeRefund: vi.fn(),
+  getTransferStatus: vi.fn(),
+}))
+
+import {
+  getPool,
+  closePool,
+  claimRevenueSplitPayouts,
+  cancelFailedRunRevenueSplits,
+  markRevenueSplitPayoutSending,
+  completeRevenueSplitPayout,
+  failRevenueSplitPayout,
+  type RevenueSplitPayoutData,
+} from '@blink402/database'
+import { buildRefundTransaction, executeRefund, getTransferStatus } from '@blink402/solana'
+import { getRegisteredJob } from '../../utils/jobs.js'
+import { sendRevenueSplitPayout, settleSendingRevenueSplitPayout } from '../../utils/revenue-splits.js'
+import { startRevenueSplitPayouts } from '../revenue-split-payout.js'
+
+const settlement = Keypair.generate()
+const SETTLEMENT_WALLET = settlement.publicKey.toBase58()
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Parameters<typeof sendRevenueSplitPayout>[1]
+const originalPlatformKeypair = process.env.PLATFORM_REFUND_KEYPAIR
+
+function payout(overrides: Partial<RevenueSplitPayoutData> = {}): RevenueSplitPayoutData {
+  return {
+    id: 'leg-1',
+    run_id: 'run-1',
+    role: 'recipient',
+    wallet: Keypair.generate().publicKey.toBase58(),
+    amount_usdc: '0.030000',
+    status: 'pending',
+    signature: null,
+    attempts: 0,
+    reference: 'ref-1',
+    settlement_wallet: SETTLEMENT_WALLET,
+    blink_slug: 'weather',
+    last_valid_block_height: null,
+    ...overrides,
+  } as RevenueSplitPayoutData
+}
+
+const sending = payout({ status: 'sending', signature: 'sig-1', last_valid_block_height: '1000' } as Partial<RevenueSplitPayoutData>)
+
+beforeAll(() => {
+  process.env.PLATFORM_REFUND_KEYPAIR = JSON.stringify(Array.from(settlement.secretKey))
+})
+
+afterAll(() => {
+  process.env.PLATFORM_REFUND_KEYPAIR = originalPlatformKeypair
+})
+
+beforeEach(() => {
+  vi.mocked(markRevenueSplitPayoutSending).mockReset()
+  vi.mocked(completeRevenueSplitPayout).mockReset()
+  vi.mocked(failRevenueSplitPayout).mockReset()
+  vi.mocked(executeRefund).mockReset()
+  vi.mocked(getTransferStatus).mockReset()
+})
+
+describe('sendRevenueSplitPayout', () => {
+  it('sends the leg from the settlement wallet and completes it', async () => {
+    vi.mocked(executeRefund).mockImplementation(async ({ onBroadcast }) => {
+      await onBroadcast!({ signature: 'sig-1', lastValidBlockHeight: 1000 })
+      return 'sig-1'
+    })
+
+    expect(await sendRevenueSplitPayout(payout(), log)).toBe(true)
+    expect(vi.mocked(buildRefundTransaction).mock.calls[0][0].amount).toBe(30_000n)
+    expect(markRevenueSplitPayoutSending).toHaveBeenCalledWith({ id: 'leg-1', signature: 'sig-1', lastValidBlockHeight: 1000 })
+    expect(completeRevenueSplitPayout).toHaveBeenCalledWith({ id: 'leg-1', signature: 'sig-1' })
+  })
+
+  it('does not pay legs of runs paid to another settlement wallet', async () => {
+    const other = Keypair.generate().publicKey.toBase58()
+
+    expect(await sendRevenueSplitPayout(payout({ settlement_wallet: other }), log)).toBe(false)
+    expect(executeRefund).not.toHaveBeenCalled()
+    expect(failRevenueSplitPayout).toHaveBeenCalledWith({ id: 'leg-1', error: `Run was paid to ${other}, not the current settlement wallet` })
+  })
+
+  it('leaves a broadcast transfer for the on-chain check instead of sending it again', async () => {
+    vi.mocked(executeRefund).mockImplementation(async ({ onBroadcast }) => {
+      await onBroadcast!({ signature: 'sig-1', lastValidBlockHeight: 1000 })
+      throw new Error('Confirmation timed out')
+    })
+
+    expect(await sendRevenueSplitPayout(payout(), log)).toBe(false)
+    expect(failRevenueSplitPayout).not.toHaveBeenCalled()
+  })
+})
+
+describe('settleSendingRevenueSplitPayout', () => {
+  it('completes legs whose transfer confirmed', async () => {
+    vi.mocked(getTransferStatus).mockResolvedValue('confirmed')
+
+    expect(await settleSendingRevenueSplitPayout(sending, log)).toBe(true)
+    expect(completeRevenueSplitPayout).toHaveBeenCalledWith({ id: 'leg-1', signature: 'sig-1' })
+  })
+
+  it('schedules a retry for transfers that failed or expired', async () => {
+    vi.mocked(getTransferStatus).mockResolvedValue('failed')
+
+    expect(await settleSendingRevenueSplitPayout(sending, log)).toBe(false)
+    expect(failRevenueSplitPayout).toHaveBeenCalledWith({ id: 'leg-1', error: 'Payout transfer failed on-chain' })
+  })
+
+  it('waits for transfers that can still land', async () => {
+    vi.mocked(getTransferStatus).mockResolvedValue('pending')
+
+    expect(await settleSendingRevenueSplitPayout(sending, log)).toBe(false)
+    expect(completeRevenueSplitPayout).not.toHaveBeenCalled()
+    expect(failRevenueSplitPayout).not.toHaveBeenCalled()
+  })
+})
+
+describe('revenue_splits.payout job', () => {
+  beforeAll(() => {
+    startRevenueSplitPayouts(log)
+  })
+
+  it('checks broadcast legs on-chain and sends the others', async () => {
+    vi.mocked(cancelFailedRunRevenueSplits).mockResolvedValue(0)
+    vi.mocked(claimRevenueSplitPayouts).mockResolvedValue([payout(), { ...sending, id: 'leg-2', signature: 'sig-2' }])
+    vi.mocked(executeRefund).mockResolvedValue('sig-1')
+    vi.mocked(getTransferStatus).mockResolvedValue('confirmed')
+
+    await getRegisteredJob('revenue_splits.payout')!.handler({} as BackgroundJob, new AbortController().signal)
+
+    expect(executeRefund).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(completeRevenueSplitPayout).mock.calls.map(([params]) => params)).toEqual([
+      { id: 'leg-1', signature: 'sig-1' },
+      { id: 'leg-2', signature: 'sig-2' },
+    ])
+  })
+})
+
+describe('completeRevenueSplitPayout', () => {
+  let query: ReturnType<typeof vi.spyOn>
+  let complete: typeof completeRevenueSplitPayout
+
+  beforeAll(async () => {
+    query = vi.spyOn(getPool(), 'query')
+    complete = (await vi.importActual<typeof import('@blink402/database')>('@blink402/database')).completeRevenueSplitPayout
+  })
+
+  afterAll(async () => {
+    query.mockRestore()
+    await closePool()
+  })
+
+  beforeEach(() => {
+    query.mockReset()
+  })
+
+  it('returns a completed leg without recording it in the ledger again', async () => {
+    const completed = { id: 'leg-1', status: 'completed', signature: 'sig-1' }
+    query.mockImplementation((async (sql: string) => ({ rows: sql.trimStart().startsWith('UPDATE') ? [] : [completed] })) as never)
+
+    expect(await complete({ id: 'leg-1', signature: 'sig-1' })).toEqual(completed)
+    expect(query.mock.calls.some((call: unknown[]) => String(call[0]).includes('ledger_transactions'))).toBe(false)
+  })
+
+  it('throws for legs that do not exist', async () => {
+    query.mockImplementation((async () => ({ rows: [] })) as never)
+
+    await expect(complete({ id: 'leg-9', signature: 'sig-1' })).rejects.toThrow('Revenue split payout leg-9 not found')
+  })
+})
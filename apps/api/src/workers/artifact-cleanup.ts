@@ -0,0 +1,34 @@
+import type { FastifyInstance } from 'fastify'
+import { deleteArtifactsOlderThan } from '@blink402/database'
+import { removeArtifactFile } from '../utils/artifacts.js'
+
+/**
+ * Background worker that prunes old run artifacts
+ * - Checks every hour for artifacts older than ARTIFACT_RETENTION_DAYS (default 30)
+ * - Deletes the database record, then the file on disk
+ */
+export function startArtifactCleanup(log: FastifyInstance['log']) {
+  const POLL_INTERVAL = 60 * 60 * 1000 // 1 hour
+  const BATCH_SIZE = 100 // Delete up to 100 artifacts per cycle
+  const retentionDays = parseInt(process.env.ARTIFACT_RETENTION_DAYS || '30', 10) || 30
+
+  setInterval(async () => {
+    try {
+      const expired = await deleteArtifactsOlderThan(retentionDays, BATCH_SIZE)
+
+      if (expired.length === 0) {
+        return // Nothing to prune
+      }
+
+      for (const artifact of expired) {
+        await removeArtifactFile(artifact)
+      }
+
+      log.info({ count: expired.length, retentionDays }, 'Pruned expired run artifacts')
+    } catch (error) {
+      log.error({ error }, 'Error in artifact cleanup polling')
+    }
+  }, POLL_INTERVAL)
+
+  log.info({ interval: POLL_INTERVAL, retentionDays }, 'Artifact cleanup worker started')
+}
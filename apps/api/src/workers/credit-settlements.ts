@@ -0,0 +1,40 @@
+import type { FastifyInstance } from 'fastify'
+import { claimCreditSettlements, cancelFailedRunCreditSettlements } from '@blink402/database'
+import { registerRecurringJob } from '../utils/jobs.js'
+import { sendCreditSettlement, settleSendingCreditSettlement } from '../utils/credits.js'
+
+/**
+ * Background worker that pays creators for credit-paid runs from the credits treasury
+ * - Checks every minute for settlements of executed runs that are due (new or scheduled for retry)
+ * - Settles transfers that were broadcast but not confirmed by checking their signature on-chain
+ * - Cancels the unsent settlements of failed runs, whose payment goes back to credits instead
+ */
+export function startCreditSettlements(log: FastifyInstance['log']) {
+  const POLL_INTERVAL = 60 * 1000 // 1 minute
+  const BATCH_SIZE = 25
+
+  registerRecurringJob('credits.settlements', POLL_INTERVAL, async (_job, signal) => {
+    const cancelled = await cancelFailedRunCreditSettlements()
+    if (cancelled > 0) {
+      log.info({ cancelled }, 'Cancelled credit settlements of failed runs')
+    }
+
+    const settlements = await claimCreditSettlements(BATCH_SIZE)
+    let sent = 0
+    for (const settlement of settlements) {
+      signal.throwIfAborted()
+      const confirmed = settlement.status === 'sending'
+        ? await settleSendingCreditSettlement(settlement, log)
+        : await sendCreditSettlement(settlement, log)
+      if (confirmed) {
+        sent++
+      }
+    }
+
+    if (settlements.length > 0) {
+      log.info({ claimed: settlements.length, sent }, 'Processed credit settlements')
+    }
+  }).catch((error) => log.error({ error }, 'Failed to register credit settlement job'))
+
+  log.info({ interval: POLL_INTERVAL, batchSize: BATCH_SIZE }, 'Credit settlement worker started')
+}
@@ -0,0 +1,32 @@
+import type { FastifyInstance } from 'fastify'
+import { claimSendingCreditWithdrawals } from '@blink402/database'
+import { registerRecurringJob } from '../utils/jobs.js'
+import { settleSendingCreditWithdrawal } from '../utils/credits.js'
+
+/**
+ * Background worker that settles credit withdrawals which were broadcast but not confirmed
+ * - Checks every minute for sending withdrawals whose check is due
+ * - Completes the ones that landed; puts the amount back on the balance only once the
+ *   transfer failed or expired on-chain
+ */
+export function startCreditWithdrawalSettlement(log: FastifyInstance['log']) {
+  const POLL_INTERVAL = 60 * 1000 // 1 minute
+  const BATCH_SIZE = 25
+
+  registerRecurringJob('credits.withdrawals', POLL_INTERVAL, async () => {
+    const withdrawals = await claimSendingCreditWithdrawals(BATCH_SIZE)
+    for (const withdrawal of withdrawals) {
+      try {
+        await settleSendingCreditWithdrawal(withdrawal, log)
+      } catch (error) {
+        log.error({ error, withdrawalId: withdrawal.id }, 'Error settling credit withdrawal')
+      }
+    }
+
+    if (withdrawals.length > 0) {
+      log.info({ checked: withdrawals.length }, 'Checked sending credit withdrawals')
+    }
+  }).catch((error) => log.error({ error }, 'Failed to register credit withdrawal job'))
+
+  log.info({ interval: POLL_INTERVAL, batchSize: BATCH_SIZE }, 'Credit withdrawal settlement worker started')
+}
@@ -0,0 +1,148 @@
+import type { FastifyInstance } from 'fastify'
+import {
+  claimDueJobs,
+  extendJobLease,
+  completeJob,
+  failJob,
+} from '@blink402/database'
+import type { BackgroundJob } from '@blink402/types'
+import {
+  JOB_WORKER_ID,
+  getRegisteredJob,
+  getRegisteredJobNames,
+  ensureRecurringJob,
+  getNextJobAttempt,
+} from '../utils/jobs.js'
+
+/**
+ * Run one claimed job, keeping its lease alive until it finishes
+ */
+async function runJob(job: BackgroundJob, log: FastifyInstance['log']): Promise<void> {
+  const registered = getRegisteredJob(job.name)
+  if (!registered) {
+    return // Claimed names are always registered
+  }
+
+  // A job whose lease kept expiring (e.g. the replica running it crashed) counts those as attempts.
+  // Claiming counted this attempt already - dead-letter once the ones before it used up max_attempts.
+  const previousAttempts = job.attempts - 1
+  if (previousAttempts >= job.max_attempts) {
+    await failJob({ id: job.id, workerId: JOB_WORKER_ID, error: job.last_error || 'Lease expired on every attempt', retryAt: null })
+    await ensureRecurringJob(registered, registered.intervalMs ? new Date(Date.now() + registered.intervalMs) : undefined)
+    log.error({ jobId: job.id, name: job.name, attempts: job.attempts }, 'Job moved to dead-letter queue')
+    return
+  }
+
+  // Aborted once the lease is gone, so the handler stops before its next on-chain send
+  const lease = new AbortController()
+  let leaseExpiresAt = Date.now() + registered.leaseMs
+
+  const heartbeat = setInterval(() => {
+    // Extensions kept failing until the lease ran out - another replica may have claimed the job
+    if (Date.now() >= leaseExpiresAt) {
+      lease.abort(new Error('Job lease expired'))
+    }
+
+    const extendedAt = Date.now()
+    extendJobLease(job.id, JOB_WORKER_ID, registered.leaseMs)
+      .then((held) => {
+        if (held) {
+          leaseExpiresAt = extendedAt + registered.leaseMs
+          return
+        }
+        log.warn({ jobId: job.id, name: job.name }, 'Lost lease on running job - stopping it')
+        lease.abort(new Error('Job lease lost'))
+      })
+      .catch((error) => log.error({ error, jobId: job.id }, 'Failed to extend job lease'))
+  }, Math.floor(registered.leaseMs / 3))
+
+  const startedAt = Date.now()
+
+  try {
+    await registered.handler(job, lease.signal)
+    await completeJob(job.id, JOB_WORKER_ID)
+    log.debug({ jobId: job.id, name: job.name, duration: Date.now() - startedAt }, 'Job completed')
+  } catch (err) {
+    // The job is no longer ours to fail - whoever holds the lease now records the outcome
+    if (lease.signal.aborted) {
+      log.warn({ jobId: job.id, name: job.name, duration: Date.now() - startedAt }, 'Job stopped after losing its lease')
+      return
+    }
+
+    const error = err instanceof Error ? err.message : String(err)
+    const retryAt = getNextJobAttempt(job.attempts, job.max_attempts)
+
+    await failJob({ id: job.id, workerId: JOB_WORKER_ID, error, retryAt })
+
+    if (retryAt) {
+      log.warn({ jobId: job.id, name: job.name, attempt: job.attempts, error, retryAt }, 'Job failed, retry scheduled')
+    } else {
+      await ensureRecurringJob(registered, registered.intervalMs ? new Date(Date.now() + registered.intervalMs) : undefined)
+      log.error({ jobId: job.id, name: job.name, attempts: job.attempts, error }, 'Job failed permanently, moved to dead-letter queue')
+    }
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+/**
+ * Background worker that runs durable jobs (see utils/jobs.ts)
+ * - Checks every 2 seconds for due jobs of the registered names
+ * - Leases each job to this process and extends the lease while it runs, so
+ *   only one API replica works on a job at a time; a job that loses its lease is
+ *   signalled to stop before its next on-chain send
+ * - Retries failed jobs with exponential backoff and dead-letters them after max_attempts
+ * - Every minute recreates the row of any recurring job that has none
+ * Start it after the workers have registered their jobs.
+ */
+export function startJobRunner(log: FastifyInstance['log']) {
+  const POLL_INTERVAL = 2000 // 2 seconds
+  const MAX_CONCURRENT_JOBS = 5
+  const ENSURE_RECURRING_INTERVAL = 60 * 1000 // 1 minute
+
+  const running = new Set<string>()
+  let isPolling = false
+  let lastEnsure = Date.now()
+
+  setInterval(async () => {
+    if (isPolling || running.size >= MAX_CONCURRENT_JOBS) {
+      return
+    }
+    isPolling = true
+
+    try {
+      // Recreate recurring rows that failed to register at startup
+      if (Date.now() - lastEnsure > ENSURE_RECURRING_INTERVAL) {
+        lastEnsure = Date.now()
+        for (const name of getRegisteredJobNames()) {
+          await ensureRecurringJob(getRegisteredJob(name)!)
+        }
+      }
+
+      // Lease length differs per job, so claim per name
+      for (const name of getRegisteredJobNames()) {
+        if (running.size >= MAX_CONCURRENT_JOBS) break
+
+        const jobs = await claimDueJobs({
+          names: [name],
+          workerId: JOB_WORKER_ID,
+          leaseMs: getRegisteredJob(name)!.leaseMs,
+          limit: MAX_CONCURRENT_JOBS - running.size,
+        })
+
+        for (const job of jobs) {
+          running.add(job.id)
+          runJob(job, log)
+            .catch((error) => log.error({ error, jobId: job.id, name: job.name }, 'Error running job'))
+            .finally(() => running.delete(job.id))
+        }
+      }
+    } catch (error) {
+      log.error({ error }, 'Error in job runner polling')
+    } finally {
+      isPolling = false
+    }
+  }, POLL_INTERVAL)
+
+  log.info({ interval: POLL_INTERVAL, workerId: JOB_WORKER_ID, jobs: getRegisteredJobNames() }, 'Job runner started')
+}
@@ -0,0 +1,137 @@
+import type { FastifyInstance } from 'fastify'
+import type { ParsedTransactionWithMeta } from '@solana/web3.js'
+import {
+  getConnection,
+  getUsdcMint,
+  usdcToLamports,
+  solToLamports,
+  lamportsToSol,
+  lamportsToUsdc,
+} from '@blink402/solana'
+import {
+  getLedgerTransactionsToReconcile,
+  setLedgerReconciliation,
+  type LedgerTransactionData,
+} from '@blink402/database'
+import type { LedgerReconciliationStatus } from '@blink402/types'
+import { registerRecurringJob } from '../utils/jobs.js'
+
+// A transaction the RPC can't find this many times is reported as missing
+const MAX_LOOKUP_ATTEMPTS = 5
+
+/**
+ * Amount (in base units) the wallet received in this transaction (negative when it sent funds)
+ * @returns null when the wallet is not part of the transaction
+ */
+export function getReceivedAmount(tx: ParsedTransactionWithMeta, wallet: string, token: 'SOL' | 'USDC'): bigint | null {
+  const meta = tx.meta!
+
+  if (token === 'SOL') {
+    const index = tx.transaction.message.accountKeys.findIndex((key) => key.pubkey.toBase58() === wallet)
+    if (index === -1) return null
+    return BigInt(meta.postBalances[index]) - BigInt(meta.preBalances[index])
+  }
+
+  const mint = getUsdcMint().toBase58()
+  const sum = (balances: typeof meta.postTokenBalances) => (balances || [])
+    .filter((balance) => balance.owner === wallet && balance.mint === mint)
+    .reduce((total, balance) => total + BigInt(balance.uiTokenAmount.amount), BigInt(0))
+
+  const touched = [...(meta.preTokenBalances || []), ...(meta.postTokenBalances || [])]
+    .some((balance) => balance.owner === wallet && balance.mint === mint)
+  if (!touched) return null
+
+  return sum(meta.postTokenBalances) - sum(meta.preTokenBalances)
+}
+
+/**
+ * Compare one ledger transaction with what happened on-chain
+ */
+async function reconcileTransaction(entry: LedgerTransactionData): Promise<{ status: LedgerReconciliationStatus; note: string | null }> {
+  const tx = await getConnection().getParsedTransaction(entry.signature!, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0,
+  })
+
+  if (!tx || !tx.meta) {
+    return entry.reconciliation_attempts + 1 >= MAX_LOOKUP_ATTEMPTS
+      ? { status: 'missing', note: 'Transaction not found on-chain' }
+      : { status: 'pending', note: 'Transaction not found yet' }
+  }
+
+  if (tx.meta.err) {
+    return { status: 'mismatch', note: `Transaction failed on-chain: ${JSON.stringify(tx.meta.err)}` }
+  }
+
+  // Platform fees are spent by a swap, there is no single transfer to compare
+  if (!entry.to_wallet) {
+    return { status: 'matched', note: null }
+  }
+
+  // Batched referral commissions share one transfer - compare it with the batch total
+  const amount: string = entry.metadata?.batch_amount_usdc ?? entry.amount
+  const expected = entry.token === 'SOL' ? solToLamports(amount) : usdcToLamports(amount)
+  const received = getReceivedAmount(tx, entry.to_wallet, entry.token)
+
+  if (received === null) {
+    return { status: 'mismatch', note: `${entry.to_wallet} is not part of the transaction` }
+  }
+
+  const difference = received > expected ? received - expected : expected - received
+  if (difference > BigInt(1)) {
+    const format = entry.token === 'SOL' ? lamportsToSol : lamportsToUsdc
+    return {
+      status: 'mismatch',
+      note: `Expected ${amount} ${entry.token} to ${entry.to_wallet}, chain shows ${format(received)}`,
+    }
+  }
+
+  return { status: 'matched', note: null }
+}
+
+/**
+ * Background worker that reconciles the payment ledger with the chain
+ * - Runs every 5 minutes (recurring 'ledger.reconcile' job)
+ * - Looks up each signed Solana ledger transaction and checks that the
+ *   recipient received the recorded amount
+ * - Marks transactions matched, mismatch, or missing (not found after
+ *   several lookups); results are listed in GET /admin/ledger/reconciliation
+ */
+export function startLedgerReconciliation(log: FastifyInstance['log']) {
+  const POLL_INTERVAL = 5 * 60 * 1000 // 5 minutes
+  const BATCH_SIZE = 25
+
+  registerRecurringJob('ledger.reconcile', POLL_INTERVAL, async () => {
+    const transactions = await getLedgerTransactionsToReconcile(BATCH_SIZE)
+    if (transactions.length === 0) {
+      return
+    }
+
+    const results: Record<string, number> = {}
+
+    for (const entry of transactions) {
+      try {
+        const { status, note } = await reconcileTransaction(entry)
+        await setLedgerReconciliation({ id: entry.id, status, note })
+        results[status] = (results[status] || 0) + 1
+
+        if (status === 'mismatch' || status === 'missing') {
+          log.warn({
+            ledgerTransactionId: entry.id,
+            kind: entry.kind,
+            signature: entry.signature,
+            status,
+            note,
+          }, 'Ledger transaction does not match the chain')
+        }
+      } catch (error) {
+        // RPC errors leave the transaction pending for the next run
+        log.error({ error, ledgerTransactionId: entry.id, signature: entry.signature }, 'Failed to reconcile ledger transaction')
+      }
+    }
+
+    log.info({ checked: transactions.length, results }, 'Ledger reconciliation batch completed')
+  }).catch((error) => log.error({ error }, 'Failed to register ledger reconciliation job'))
+
+  log.info({ interval: POLL_INTERVAL, batchSize: BATCH_SIZE }, 'Ledger reconciliation worker started')
+}
@@ -1,10 +1,11 @@
-import { getPool } from '@blink402/database'
+import { getPool, recordLedgerPlatformFee } from '@blink402/database'
 import { Keypair, VersionedTransaction, PublicKey } from '@solana/web3.js'
 import { getConnection } from '@blink402/solana'
 import { getAssociatedTokenAddress } from '@solana/spl-token'
 import axios from 'axios'
 import https from 'https'
 import dns from 'dns'
+import { registerRecurringJob } from '../utils/jobs.js'
 
 // Set DNS resolution order to prefer IPv4 (Railway DNS issue)
 dns.setDefaultResultOrder('ipv4first')
@@ -436,146 +437,150 @@ async function buyAndBurnB402(amountUsdc: number, log: any): Promise<BuybackResu
 
 /**
  * Main worker function - polls for pending buybacks and executes them
+ * Runs as the recurring 'lottery.buyback' job, leased to one API replica at a time
  */
 export function startLotteryBuyback(log: any) {
   const POLL_INTERVAL = 30000 // 30 seconds (30,000ms) - faster for testing
   const BATCH_SIZE = 5 // Process up to 5 rounds per cycle
 
-  setInterval(async () => {
-    try {
-      const pool = getPool()
-
-      // Find closed rounds with pending buyback
-      const result = await pool.query<ClosedRound>(
-        `SELECT id, round_number, blink_id, total_entry_fee_usdc, ended_at, status
-         FROM lottery_rounds
-         WHERE buyback_status = 'pending'
-           AND ended_at IS NOT NULL
-           AND status IN ('closed', 'distributed')
-         ORDER BY ended_at ASC
-         LIMIT $1`,
-        [BATCH_SIZE]
-      )
-
-      if (result.rows.length === 0) {
-        return // No pending buybacks
-      }
+  registerRecurringJob('lottery.buyback', POLL_INTERVAL, async (_job, signal) => {
+    const pool = getPool()
+
+    // Find closed rounds with pending buyback
+    const result = await pool.query<ClosedRound>(
+      `SELECT id, round_number, blink_id, total_entry_fee_usdc, ended_at, status
+       FROM lottery_rounds
+       WHERE buyback_status = 'pending'
+         AND ended_at IS NOT NULL
+         AND status IN ('closed', 'distributed')
+       ORDER BY ended_at ASC
+       LIMIT $1`,
+      [BATCH_SIZE]
+    )
 
-      log.info({
-        count: result.rows.length,
-        rounds: result.rows.map(r => ({
-          id: r.id,
-          round: r.round_number,
-          totalFees: r.total_entry_fee_usdc
-        }))
-      }, 'Found closed lottery rounds with pending buyback')
-
-      // Process each round
-      for (const round of result.rows) {
-        try {
-          const totalEntryFees = parseFloat(round.total_entry_fee_usdc)
-          const platformFeeAmount = totalEntryFees * PLATFORM_FEE_PERCENTAGE
-
-          if (platformFeeAmount <= 0) {
-            log.warn({
-              roundId: round.id,
-              roundNumber: round.round_number,
-              totalEntryFees
-            }, 'No platform fee to process, marking as completed')
-
-            await pool.query(
-              `UPDATE lottery_rounds
-               SET buyback_status = 'completed',
-                   buyback_executed_at = NOW()
-               WHERE id = $1`,
-              [round.id]
-            )
-            continue
-          }
+    if (result.rows.length === 0) {
+      return // No pending buybacks
+    }
+
+    log.info({
+      count: result.rows.length,
+      rounds: result.rows.map(r => ({
+        id: r.id,
+        round: r.round_number,
+        totalFees: r.total_entry_fee_usdc
+      }))
+    }, 'Found closed lottery rounds with pending buyback')
+
+    // Process each round
+    for (const round of result.rows) {
+      signal.throwIfAborted()
+      try {
+        const totalEntryFees = parseFloat(round.total_entry_fee_usdc)
+        const platformFeeAmount = totalEntryFees * PLATFORM_FEE_PERCENTAGE
+
+        if (platformFeeAmount <= 0) {
+          log.warn({
+            roundId: round.id,
+            roundNumber: round.round_number,
+            totalEntryFees
+          }, 'No platform fee to process, marking as completed')
+
+          await pool.query(
+            `UPDATE lottery_rounds
+             SET buyback_status = 'completed',
+                 buyback_executed_at = NOW()
+             WHERE id = $1`,
+            [round.id]
+          )
+          continue
+        }
+
+        log.info({
+          roundId: round.id,
+          roundNumber: round.round_number,
+          totalEntryFees,
+          platformFeeAmount,
+          percentage: `${PLATFORM_FEE_PERCENTAGE * 100}%`
+        }, 'Processing B402 buyback for lottery round')
+
+        // Execute buyback via Jupiter
+        const buybackResult = await buyAndBurnB402(platformFeeAmount, log)
+
+        if (buybackResult) {
+          // Success - update with signature and B402 amount
+          await pool.query(
+            `UPDATE lottery_rounds
+             SET buyback_status = 'completed',
+                 buyback_tx_signature = $1,
+                 buyback_b402_amount = $2,
+                 buyback_executed_at = NOW()
+             WHERE id = $3`,
+            [buybackResult.signature, buybackResult.b402Amount, round.id]
+          )
+          await recordLedgerPlatformFee({
+            roundId: round.id,
+            amount: platformFeeAmount.toFixed(6),
+            signature: buybackResult.signature,
+          })
 
           log.info({
             roundId: round.id,
             roundNumber: round.round_number,
-            totalEntryFees,
             platformFeeAmount,
-            percentage: `${PLATFORM_FEE_PERCENTAGE * 100}%`
-          }, 'Processing B402 buyback for lottery round')
-
-          // Execute buyback via Jupiter
-          const buybackResult = await buyAndBurnB402(platformFeeAmount, log)
-
-          if (buybackResult) {
-            // Success - update with signature and B402 amount
-            await pool.query(
-              `UPDATE lottery_rounds
-               SET buyback_status = 'completed',
-                   buyback_tx_signature = $1,
-                   buyback_b402_amount = $2,
-                   buyback_executed_at = NOW()
-               WHERE id = $3`,
-              [buybackResult.signature, buybackResult.b402Amount, round.id]
-            )
-
-            log.info({
-              roundId: round.id,
-              roundNumber: round.round_number,
-              platformFeeAmount,
-              b402Amount: buybackResult.b402Amount,
-              signature: buybackResult.signature,
-              solscan: `https://solscan.io/tx/${buybackResult.signature}`
-            }, 'B402 buyback completed successfully')
-          } else if (platformFeeAmount < 0.50) {
-            // Amount too small - mark as completed with note
-            await pool.query(
-              `UPDATE lottery_rounds
-               SET buyback_status = 'completed',
-                   buyback_tx_signature = 'SKIPPED_TOO_SMALL',
-                   buyback_executed_at = NOW()
-               WHERE id = $1`,
-              [round.id]
-            )
-
-            log.warn({
-              roundId: round.id,
-              roundNumber: round.round_number,
-              platformFeeAmount,
-              reason: 'Amount < 0.50 USDC minimum for Jupiter routing'
-            }, 'Buyback skipped - amount too small, marked as completed')
-          } else {
-            // Failed - mark for retry
-            await pool.query(
-              `UPDATE lottery_rounds
-               SET buyback_status = 'failed'
-               WHERE id = $1`,
-              [round.id]
-            )
-
-            log.error({
-              roundId: round.id,
-              roundNumber: round.round_number,
-              platformFeeAmount
-            }, 'B402 buyback failed, marked for manual intervention')
-          }
-        } catch (error) {
-          log.error({
-            error,
-            roundId: round.id,
-            roundNumber: round.round_number
-          }, 'Error processing lottery buyback')
+            b402Amount: buybackResult.b402Amount,
+            signature: buybackResult.signature,
+            solscan: `https://solscan.io/tx/${buybackResult.signature}`
+          }, 'B402 buyback completed successfully')
+        } else if (platformFeeAmount < 0.50) {
+          // Amount too small - mark as completed with note
+          await pool.query(
+            `UPDATE lottery_rounds
+             SET buyback_status = 'completed',
+                 buyback_tx_signature = 'SKIPPED_TOO_SMALL',
+                 buyback_executed_at = NOW()
+             WHERE id = $1`,
+            [round.id]
+          )
+          await recordLedgerPlatformFee({ roundId: round.id, amount: platformFeeAmount.toFixed(6), signature: null })
 
-          // Mark as failed for manual review
+          log.warn({
+            roundId: round.id,
+            roundNumber: round.round_number,
+            platformFeeAmount,
+            reason: 'Amount < 0.50 USDC minimum for Jupiter routing'
+          }, 'Buyback skipped - amount too small, marked as completed')
+        } else {
+          // Failed - mark for retry
           await pool.query(
             `UPDATE lottery_rounds
              SET buyback_status = 'failed'
              WHERE id = $1`,
             [round.id]
           )
+
+          log.error({
+            roundId: round.id,
+            roundNumber: round.round_number,
+            platformFeeAmount
+          }, 'B402 buyback failed, marked for manual intervention')
         }
+      } catch (error) {
+        log.error({
+          error,
+          roundId: round.id,
+          roundNumber: round.round_number
+        }, 'Error processing lottery buyback')
+
+        // Mark as failed for manual review
+        await pool.query(
+          `UPDATE lottery_rounds
+           SET buyback_status = 'failed'
+           WHERE id = $1`,
+          [round.id]
+        )
       }
-    } catch (error) {
-      log.error({ error }, 'Error in lottery buyback polling')
     }
-  }, POLL_INTERVAL)
+  }).catch((error) => log.error({ error }, 'Failed to register lottery buyback job'))
 
   log.info({
     interval: `${POLL_INTERVAL / 1000}s`,
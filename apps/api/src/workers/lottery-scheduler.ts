@@ -1,23 +1,36 @@
-import { createHash, randomBytes } from 'crypto'
-import seedrandom from 'seedrandom'
 import {
-  getPool,
+  decrypt,
   getRoundsEndingBefore,
   getRoundEntries,
+  getRoundWinners,
   updateRoundStatus,
   createWinner,
-  createLotteryRound,
-  updateRoundStats
+  updateRoundStats,
+  commitRoundSeed,
+  getRoundEncryptedSeed,
+  closeRoundForDraw,
+  getRoundsAwaitingDraw,
+  revealRoundSeed
 } from '@blink402/database'
-import type { LotteryEntry, LotteryRank } from '@blink402/types'
+import type { LotteryRound, LotteryRank } from '@blink402/types'
+import {
+  createSeedCommitment,
+  hashServerSeed,
+  computeDrawSeed,
+  getEntropyTargetSlot,
+  resolveEntropyBlock,
+  selectWinners
+} from '../utils/lottery-fairness.js'
+import { registerRecurringJob } from '../utils/jobs.js'
 
 /**
  * Background worker that manages lottery rounds
- * - Checks every 60 seconds for rounds that should end
- * - Closes active rounds after 15 minutes
- * - Selects 3 random winners using provably fair SHA-256 seeding
- * - Creates payout records for winners
- * - Starts new rounds automatically
+ * - Checks every 60 seconds for rounds that should end (recurring 'lottery.scheduler' job,
+ *   leased to one API replica at a time so rounds are never closed or drawn twice)
+ * - Closes active rounds after their duration and fixes a future Solana slot for entropy
+ * - Once that slot's block is finalized, mixes its blockhash with the round's committed
+ *   server seed and selects up to 3 winners (commit-reveal, see utils/lottery-fairness.ts)
+ * - Creates payout records for winners and reveals the server seed
  */
 export function startLotteryScheduler(log: any) {
   const POLL_INTERVAL = 60000 // 60 seconds
@@ -32,135 +45,164 @@ export function startLotteryScheduler(log: any) {
   }
 
   /**
-   * Select N random winners from entries using provably fair seeding
+   * Stop accepting entries and fix the entropy slot (entries are only read at draw time)
    */
-  function selectRandomWinners(
-    entries: LotteryEntry[],
-    count: number,
-    roundId: string,
-    timestamp: number
-  ): LotteryEntry[] {
-    if (entries.length === 0) return []
-    if (entries.length <= count) return entries // All participants win if fewer than count
-
-    // Create provably fair seed using round ID + timestamp
-    const seedStr = `${roundId}-${timestamp}`
-    const seed = createHash('sha256').update(seedStr).digest('hex')
-
-    // Use seeded RNG for reproducible randomness (auditable)
-    const rng = seedrandom(seed)
-
-    // Fisher-Yates shuffle with seeded RNG
-    const shuffled = [...entries]
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(rng() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  async function closeRound(round: LotteryRound) {
+    const entries = await getRoundEntries(round.id)
+
+    if (entries.length === 0) {
+      log.warn({ roundId: round.id }, 'Round has no entries, closing without winners')
+      await updateRoundStatus(round.id, 'closed', new Date())
+      // Don't auto-create new round - wait for next entry to start fresh
+      return
+    }
+
+    // Rounds opened before commit-reveal commit now, still ahead of the entropy block
+    if (!round.server_seed_hash) {
+      await commitRoundSeed(round.id, createSeedCommitment())
     }
 
-    return shuffled.slice(0, count)
+    const entropyTargetSlot = await getEntropyTargetSlot()
+    const closed = await closeRoundForDraw(round.id, entropyTargetSlot)
+
+    log.info({
+      roundId: round.id,
+      roundNumber: round.round_number,
+      blinkId: round.blink_id,
+      entropyTargetSlot,
+      closed
+    }, 'Closed lottery round, waiting for entropy block')
   }
 
-  setInterval(async () => {
-    try {
-      const now = new Date()
+  /**
+   * Draw winners for a closed round once its entropy block is finalized
+   */
+  async function drawRound(round: LotteryRound) {
+    const entropy = await resolveEntropyBlock(round.entropy_target_slot!)
+    if (!entropy) {
+      log.debug({ roundId: round.id, targetSlot: round.entropy_target_slot }, 'Entropy block not finalized yet')
+      return
+    }
 
-      // Find rounds that should end (started 15+ minutes ago and still active)
-      const roundsToEnd = await getRoundsEndingBefore(now)
+    const encryptedSeed = await getRoundEncryptedSeed(round.id)
+    if (!encryptedSeed) {
+      log.error({ roundId: round.id }, 'Round has no stored server seed, cannot draw')
+      return
+    }
 
-      if (roundsToEnd.length === 0) {
-        return // No rounds to process
-      }
+    const serverSeed = decrypt(encryptedSeed)
+    if (hashServerSeed(serverSeed) !== round.server_seed_hash) {
+      log.error({ roundId: round.id }, 'Server seed does not match its commitment, refusing to draw')
+      return
+    }
 
+    // 1. Get all entries for this round
+    const entries = await getRoundEntries(round.id)
+
+    // 2. Calculate total prize pool
+    const totalPool = entries.reduce((sum, e) => sum + parseFloat(e.entry_fee_usdc), 0)
+
+    // 3. Update round statistics
+    await updateRoundStats(round.id, entries.length, totalPool.toFixed(6))
+
+    // 4. Select winners (up to 3)
+    const drawSeed = computeDrawSeed(serverSeed, entropy.blockhash)
+    const selectedWinners = selectWinners(entries, 3, drawSeed)
+
+    log.info({
+      roundId: round.id,
+      totalEntries: entries.length,
+      winnersSelected: selectedWinners.length,
+      prizePool: totalPool.toFixed(6),
+      entropySlot: entropy.slot
+    }, 'Selected lottery winners')
+
+    // 5. Calculate and create winner records
+    const payoutAmounts = [
+      totalPool * PRIZE_CONFIG.first,  // 50% for 1st
+      totalPool * PRIZE_CONFIG.second, // 20% for 2nd
+      totalPool * PRIZE_CONFIG.third   // 15% for 3rd
+    ]
+
+    // The draw is deterministic, so a retry after a partial failure only fills in missing ranks
+    const existingRanks = new Set((await getRoundWinners(round.id)).map(w => w.payout_rank))
+
+    for (let i = 0; i < selectedWinners.length; i++) {
+      const winner = selectedWinners[i]
+      const rank = (i + 1) as LotteryRank
+      const payoutAmount = payoutAmounts[i]
+
+      if (existingRanks.has(rank)) continue
+
+      await createWinner(
+        round.id,
+        winner.payer_wallet,
+        payoutAmount.toFixed(6),
+        rank
+      )
+
+      log.info({
+        roundId: round.id,
+        rank,
+        winner: winner.payer_wallet,
+        payout: payoutAmount.toFixed(6)
+      }, 'Created winner payout record')
+    }
+
+    // 6. Reveal the seed and mark winners selected (payouts pending)
+    await revealRoundSeed(round.id, {
+      serverSeed,
+      entropySlot: entropy.slot,
+      entropyBlockhash: entropy.blockhash
+    })
+
+    // 7. Log platform fee (15% of pool - goes to treasury)
+    const platformFee = totalPool * PRIZE_CONFIG.platform
+    log.info({
+      roundId: round.id,
+      platformFee: platformFee.toFixed(6),
+      platformWallet: PLATFORM_WALLET
+    }, 'Platform fee calculated (will be sent separately)')
+
+    // Don't auto-create new round - wait for next entry to start fresh
+    log.info({ roundId: round.id, blinkId: round.blink_id }, 'Round drawn. Waiting for next entry to start new round.')
+  }
+
+  registerRecurringJob('lottery.scheduler', POLL_INTERVAL, async () => {
+    const now = new Date()
+
+    // Find rounds that should end (duration elapsed and still active)
+    const roundsToEnd = await getRoundsEndingBefore(now)
+
+    if (roundsToEnd.length > 0) {
       log.info({ count: roundsToEnd.length }, 'Found lottery rounds to close')
+    }
+
+    for (const round of roundsToEnd) {
+      try {
+        await closeRound(round)
+      } catch (error) {
+        log.error({
+          error,
+          roundId: round.id
+        }, 'Error closing lottery round')
+      }
+    }
 
-      for (const round of roundsToEnd) {
-        try {
-          log.info({
-            roundId: round.id,
-            roundNumber: round.round_number,
-            blinkId: round.blink_id
-          }, 'Closing lottery round and selecting winners')
-
-          // 1. Get all entries for this round
-          const entries = await getRoundEntries(round.id)
-
-          if (entries.length === 0) {
-            log.warn({ roundId: round.id }, 'Round has no entries, closing without winners')
-            await updateRoundStatus(round.id, 'closed', new Date())
-            // Don't auto-create new round - wait for next entry to start fresh
-            continue
-          }
-
-          // 2. Calculate total prize pool
-          const totalPool = entries.reduce((sum, e) => sum + parseFloat(e.entry_fee_usdc), 0)
-
-          // 3. Update round statistics
-          await updateRoundStats(round.id, entries.length, totalPool.toFixed(6))
-
-          // 4. Select winners (up to 3)
-          const timestamp = Date.now()
-          const winnerCount = Math.min(3, entries.length)
-          const selectedWinners = selectRandomWinners(entries, winnerCount, round.id, timestamp)
-
-          log.info({
-            roundId: round.id,
-            totalEntries: entries.length,
-            winnersSelected: selectedWinners.length,
-            prizePool: totalPool.toFixed(6)
-          }, 'Selected lottery winners')
-
-          // 5. Calculate and create winner records
-          const payoutAmounts = [
-            totalPool * PRIZE_CONFIG.first,  // 50% for 1st
-            totalPool * PRIZE_CONFIG.second, // 20% for 2nd
-            totalPool * PRIZE_CONFIG.third   // 15% for 3rd
-          ]
-
-          for (let i = 0; i < selectedWinners.length; i++) {
-            const winner = selectedWinners[i]
-            const rank = (i + 1) as LotteryRank
-            const payoutAmount = payoutAmounts[i]
-
-            await createWinner(
-              round.id,
-              winner.payer_wallet,
-              payoutAmount.toFixed(6),
-              rank
-            )
-
-            log.info({
-              roundId: round.id,
-              rank,
-              winner: winner.payer_wallet,
-              payout: payoutAmount.toFixed(6)
-            }, 'Created winner payout record')
-          }
-
-          // 6. Mark round as closed (payouts pending)
-          await updateRoundStatus(round.id, 'closed', new Date())
-
-          // 7. Log platform fee (15% of pool - goes to treasury)
-          const platformFee = totalPool * PRIZE_CONFIG.platform
-          log.info({
-            roundId: round.id,
-            platformFee: platformFee.toFixed(6),
-            platformWallet: PLATFORM_WALLET
-          }, 'Platform fee calculated (will be sent separately)')
-
-          // Don't auto-create new round - wait for next entry to start fresh
-          log.info({ roundId: round.id, blinkId: round.blink_id }, 'Round closed. Waiting for next entry to start new round.')
-
-        } catch (error) {
-          log.error({
-            error,
-            roundId: round.id
-          }, 'Error processing lottery round')
-        }
+    // Draw closed rounds whose entropy block has been finalized
+    const roundsToDraw = await getRoundsAwaitingDraw()
+
+    for (const round of roundsToDraw) {
+      try {
+        await drawRound(round)
+      } catch (error) {
+        log.error({
+          error,
+          roundId: round.id
+        }, 'Error processing lottery round')
       }
-    } catch (error) {
-      log.error({ error }, 'Error in lottery scheduler polling')
     }
-  }, POLL_INTERVAL)
+  }).catch((error) => log.error({ error }, 'Failed to register lottery scheduler job'))
 
   log.info({ interval: POLL_INTERVAL, config: PRIZE_CONFIG }, 'Lottery scheduler started')
 }
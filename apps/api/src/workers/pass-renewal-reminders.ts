@@ -0,0 +1,23 @@
+import type { FastifyInstance } from 'fastify'
+import { sendPassRenewalReminders } from '@blink402/database'
+import { registerRecurringJob } from '../utils/jobs.js'
+
+/**
+ * Background worker that reminds subscription pass holders to renew
+ * - Checks every hour for subscription passes expiring within PASS_RENEWAL_REMINDER_HOURS (default 72)
+ * - Sends the creator's webhooks one pass.expiring event per pass that was not renewed yet; the holder
+ *   sees the reminder on their pass-covered calls (X-Pass-Renewal-Due) and on the checkout page
+ */
+export function startPassRenewalReminders(log: FastifyInstance['log']) {
+  const POLL_INTERVAL = 60 * 60 * 1000 // 1 hour
+  const reminderHours = parseInt(process.env.PASS_RENEWAL_REMINDER_HOURS || '72', 10) || 72
+
+  registerRecurringJob('passes.renewal_reminders', POLL_INTERVAL, async () => {
+    const reminded = await sendPassRenewalReminders(reminderHours)
+    if (reminded > 0) {
+      log.info({ reminded, reminderHours }, 'Sent access pass renewal reminders')
+    }
+  }).catch((error) => log.error({ error }, 'Failed to register pass renewal reminder job'))
+
+  log.info({ interval: POLL_INTERVAL, reminderHours }, 'Pass renewal reminder worker started')
+}
@@ -0,0 +1,43 @@
+import type { FastifyInstance } from 'fastify'
+import { claimReferralPayoutBatches } from '@blink402/database'
+import { registerRecurringJob } from '../utils/jobs.js'
+import {
+  batchDueCommissions,
+  getReferralPayoutPolicy,
+  sendReferralPayoutBatch,
+  settleSendingReferralPayoutBatch,
+} from '../utils/referral-payouts.js'
+
+/**
+ * Background worker that pays referral commissions in batches
+ * - Every 10 minutes, batches each referrer's pending commissions once they reach the
+ *   minimum payout or the oldest has waited the maximum time (see getReferralPayoutPolicy)
+ * - Sends each due batch (new or scheduled for retry) as one USDC transfer
+ * - Settles batches that were broadcast but not confirmed by checking their signature on-chain
+ */
+export function startReferralPayouts(log: FastifyInstance['log']) {
+  const POLL_INTERVAL = 10 * 60 * 1000 // 10 minutes
+  const BATCH_SIZE = 25
+
+  registerRecurringJob('referrals.payout', POLL_INTERVAL, async (_job, signal) => {
+    const created = await batchDueCommissions(log)
+
+    const batches = await claimReferralPayoutBatches(BATCH_SIZE)
+    let sent = 0
+    for (const batch of batches) {
+      signal.throwIfAborted()
+      const confirmed = batch.status === 'sending'
+        ? await settleSendingReferralPayoutBatch(batch, log)
+        : await sendReferralPayoutBatch(batch, log)
+      if (confirmed) {
+        sent++
+      }
+    }
+
+    if (created.length > 0 || batches.length > 0) {
+      log.info({ created: created.length, claimed: batches.length, sent }, 'Processed referral payouts')
+    }
+  }).catch((error) => log.error({ error }, 'Failed to register referral payout job'))
+
+  log.info({ interval: POLL_INTERVAL, batchSize: BATCH_SIZE, ...getReferralPayoutPolicy() }, 'Referral payout worker started')
+}
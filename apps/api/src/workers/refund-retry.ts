@@ -0,0 +1,63 @@
+import type { FastifyInstance } from 'fastify'
+import { claimRefundsForRetry, MAX_REFUND_ATTEMPTS } from '@blink402/database'
+import { sendRefund, settleSendingRefund } from '../utils/refunds.js'
+
+/**
+ * Background worker that retries failed refunds
+ * - Checks every 60 seconds for failed refunds whose backoff has elapsed
+ * - Re-sends the refund transfer from the platform refund wallet
+ * - Settles refunds that were broadcast but not confirmed by checking their signature on-chain
+ *   (they are only sent again once the transfer failed or expired)
+ * - Records creator debt once the refund lands
+ * - Gives up after MAX_REFUND_ATTEMPTS (refund stays 'failed' for manual handling)
+ */
+export function startRefundRetry(log: FastifyInstance['log']) {
+  const POLL_INTERVAL = 60000 // 60 seconds
+  const BATCH_SIZE = 10 // Process up to 10 refunds per cycle
+
+  setInterval(async () => {
+    try {
+      const dueRefunds = await claimRefundsForRetry(BATCH_SIZE)
+
+      if (dueRefunds.length === 0) {
+        return // Nothing to retry
+      }
+
+      log.info({ count: dueRefunds.length }, 'Retrying failed refunds')
+
+      for (const refund of dueRefunds) {
+        try {
+          if (refund.status === 'sending') {
+            await settleSendingRefund({ refund, log })
+            continue
+          }
+
+          log.info({
+            refundId: refund.id,
+            reference: refund.reference,
+            attempt: refund.attempts + 1,
+            maxAttempts: MAX_REFUND_ATTEMPTS,
+            amount: refund.amount,
+            token: refund.payment_token
+          }, 'Retrying refund')
+
+          await sendRefund({
+            refund,
+            reference: refund.reference,
+            paymentSignature: refund.run_signature,
+            blinkId: refund.blink_id,
+            blinkSlug: refund.blink_slug,
+            creatorId: refund.creator_id,
+            log
+          })
+        } catch (error) {
+          log.error({ error, refundId: refund.id }, 'Error retrying refund')
+        }
+      }
+    } catch (error) {
+      log.error({ error }, 'Error in refund retry polling')
+    }
+  }, POLL_INTERVAL)
+
+  log.info({ interval: POLL_INTERVAL, maxAttempts: MAX_REFUND_ATTEMPTS }, 'Refund retry worker started')
+}
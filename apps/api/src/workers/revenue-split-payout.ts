@@ -0,0 +1,40 @@
+import type { FastifyInstance } from 'fastify'
+import { claimRevenueSplitPayouts, cancelFailedRunRevenueSplits } from '@blink402/database'
+import { registerRecurringJob } from '../utils/jobs.js'
+import { sendRevenueSplitPayout, settleSendingRevenueSplitPayout } from '../utils/revenue-splits.js'
+
+/**
+ * Background worker that pays out revenue split legs from the settlement wallet
+ * - Checks every minute for legs of executed runs that are due (new or scheduled for retry)
+ * - Settles legs that were broadcast but not confirmed by checking their signature on-chain
+ * - Cancels the unsent legs of failed runs, whose payment is refunded instead
+ */
+export function startRevenueSplitPayouts(log: FastifyInstance['log']) {
+  const POLL_INTERVAL = 60 * 1000 // 1 minute
+  const BATCH_SIZE = 25
+
+  registerRecurringJob('revenue_splits.payout', POLL_INTERVAL, async (_job, signal) => {
+    const cancelled = await cancelFailedRunRevenueSplits()
+    if (cancelled > 0) {
+      log.info({ cancelled }, 'Cancelled revenue split legs of failed runs')
+    }
+
+    const payouts = await claimRevenueSplitPayouts(BATCH_SIZE)
+    let sent = 0
+    for (const payout of payouts) {
+      signal.throwIfAborted()
+      const confirmed = payout.status === 'sending'
+        ? await settleSendingRevenueSplitPayout(payout, log)
+        : await sendRevenueSplitPayout(payout, log)
+      if (confirmed) {
+        sent++
+      }
+    }
+
+    if (payouts.length > 0) {
+      log.info({ claimed: payouts.length, sent }, 'Processed revenue split payouts')
+    }
+  }).catch((error) => log.error({ error }, 'Failed to register revenue split payout job'))
+
+  log.info({ interval: POLL_INTERVAL, batchSize: BATCH_SIZE }, 'Revenue split payout worker started')
+}
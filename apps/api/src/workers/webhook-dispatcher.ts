@@ -0,0 +1,149 @@
+import type { FastifyInstance } from 'fastify'
+import {
+  decrypt,
+  claimPendingWebhookDeliveries,
+  requeueStaleWebhookDeliveries,
+  getWebhookDeliveryForDispatch,
+  recordWebhookDeliveryAttempt,
+} from '@blink402/database'
+import { isRedisConnected, scheduleQueueItem, claimDueQueueItems } from '@blink402/redis'
+import { fetch, Agent } from 'undici'
+import {
+  WEBHOOK_QUEUE,
+  WEBHOOK_TIMEOUT_MS,
+  MAX_WEBHOOK_ATTEMPTS,
+  signWebhookPayload,
+  getNextWebhookAttempt,
+  validateWebhookUrl,
+  lookupPublicWebhookAddress,
+} from '../utils/webhooks.js'
+
+// In production deliveries only connect to addresses that pass the upstream SSRF checks
+const webhookAgent = process.env.NODE_ENV === 'production'
+  ? new Agent({ connect: { lookup: lookupPublicWebhookAddress } })
+  : undefined
+
+/**
+ * Send one delivery and record the outcome, scheduling a retry on failure
+ */
+async function dispatchDelivery(deliveryId: string, log: FastifyInstance['log']): Promise<void> {
+  const delivery = await getWebhookDeliveryForDispatch(deliveryId)
+  if (!delivery || delivery.status !== 'queued') {
+    return // Deleted with its webhook, or already handled
+  }
+
+  if (!delivery.is_active) {
+    await recordWebhookDeliveryAttempt({ id: delivery.id, success: false, error: 'Webhook is disabled' })
+    return
+  }
+
+  let statusCode: number | null = null
+  let error: string | null = null
+
+  try {
+    // Webhooks saved before the current URL rules are checked again (IP literals skip the lookup)
+    const urlError = await validateWebhookUrl(delivery.url)
+    if (urlError) {
+      throw new Error(urlError)
+    }
+
+    const body = JSON.stringify(delivery.payload)
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: signWebhookPayload({
+        secret: decrypt(delivery.secret_encrypted),
+        body,
+        eventType: delivery.event_type,
+        deliveryId: delivery.id,
+        eventId: delivery.payload.id,
+      }),
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      dispatcher: webhookAgent,
+    })
+
+    statusCode = response.status
+    if (!response.ok) {
+      error = `Endpoint responded with HTTP ${response.status}`
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  if (!error) {
+    await recordWebhookDeliveryAttempt({ id: delivery.id, success: true, statusCode })
+    log.info({ deliveryId: delivery.id, eventType: delivery.event_type, statusCode }, 'Webhook delivered')
+    return
+  }
+
+  const nextAttemptAt = getNextWebhookAttempt(delivery.attempts + 1)
+  await recordWebhookDeliveryAttempt({ id: delivery.id, success: false, statusCode, error, nextAttemptAt })
+
+  if (nextAttemptAt) {
+    await scheduleQueueItem(WEBHOOK_QUEUE, delivery.id, nextAttemptAt)
+  }
+
+  log.warn({
+    deliveryId: delivery.id,
+    eventType: delivery.event_type,
+    attempt: delivery.attempts + 1,
+    statusCode,
+    error,
+    nextAttemptAt,
+  }, nextAttemptAt ? 'Webhook delivery failed, retry scheduled' : 'Webhook delivery failed permanently')
+}
+
+/**
+ * Background worker that delivers creator webhooks
+ * - Checks every 5 seconds for new deliveries and moves them onto the Redis delay queue
+ * - Sends deliveries that are due with an HMAC signature (see utils/webhooks.ts)
+ * - Retries failures with exponential backoff, giving up after MAX_WEBHOOK_ATTEMPTS
+ * - Every 5 minutes puts deliveries back to pending if their queue entry was lost
+ * Requires Redis; without it deliveries stay pending until Redis is available.
+ */
+export function startWebhookDispatcher(log: FastifyInstance['log']) {
+  const POLL_INTERVAL = 5000 // 5 seconds
+  const BATCH_SIZE = 20 // Send up to 20 deliveries per cycle
+  const STALE_CHECK_INTERVAL = 5 * 60 * 1000 // 5 minutes
+
+  let isDispatching = false
+  let lastStaleCheck = 0
+
+  setInterval(async () => {
+    if (isDispatching || !isRedisConnected()) {
+      return
+    }
+    isDispatching = true
+
+    try {
+      if (Date.now() - lastStaleCheck > STALE_CHECK_INTERVAL) {
+        lastStaleCheck = Date.now()
+        const requeued = await requeueStaleWebhookDeliveries()
+        if (requeued > 0) {
+          log.warn({ count: requeued }, 'Requeued stale webhook deliveries')
+        }
+      }
+
+      const pending = await claimPendingWebhookDeliveries(BATCH_SIZE * 5)
+      for (const delivery of pending) {
+        await scheduleQueueItem(WEBHOOK_QUEUE, delivery.id, delivery.next_attempt_at)
+      }
+
+      const due = await claimDueQueueItems(WEBHOOK_QUEUE, BATCH_SIZE)
+      for (const deliveryId of due) {
+        try {
+          await dispatchDelivery(deliveryId, log)
+        } catch (error) {
+          log.error({ error, deliveryId }, 'Error dispatching webhook')
+        }
+      }
+    } catch (error) {
+      log.error({ error }, 'Error in webhook dispatcher polling')
+    } finally {
+      isDispatching = false
+    }
+  }, POLL_INTERVAL)
+
+  log.info({ interval: POLL_INTERVAL, maxAttempts: MAX_WEBHOOK_ATTEMPTS }, 'Webhook dispatcher worker started')
+}
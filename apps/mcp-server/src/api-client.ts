@@ -1,6 +1,7 @@
 // API client for Blink402 backend
 
 import fetch from 'node-fetch'
+import type { AccessPass } from '@blink402/types'
 import type { Blink, B402TierInfo, DiscountInfo } from './types.js'
 
 export class Blink402Client {
@@ -50,6 +51,14 @@ export class Blink402Client {
     return response.data
   }
 
+  /**
+   * Get a wallet's current and upcoming access passes
+   */
+  async getAccessPasses(wallet: string): Promise<AccessPass[]> {
+    const response = await this.fetch(`/passes?wallet=${wallet}`) as any
+    return response.passes
+  }
+
   /**
    * Execute a blink (payment-gated API call)
    * Note: This requires the user to have a connected wallet and sign transactions
@@ -53,7 +53,7 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'list_blinks',
-    description: 'Browse available Blinks (payment-gated APIs) with tier-adjusted prices. Returns list of blinks with base price, user-specific discounted price, and savings amount based on B402 holdings. Optionally filter by category (AI/ML, Utilities, Data, API Tools, Web3).',
+    description: 'Browse available Blinks (payment-gated APIs) with tier-adjusted prices. Returns list of blinks with base price, user-specific discounted price, and savings amount based on B402 holdings. Each blink includes its rating (average of 1-5 star reviews from wallets that paid for and ran it, and the review count). Blinks that sell access passes include the pass offer, and the wallet\'s active pass (remaining calls and expiry) when it holds one. Optionally filter by category (AI/ML, Utilities, Data, API Tools, Web3).',
     inputSchema: {
       type: 'object',
       properties: {
@@ -77,7 +77,7 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'execute_blink',
-    description: 'Execute a Blink (payment-gated API call) with automatic B402 discount. This returns payment instructions that the user needs to complete. After payment, the API is executed and results are returned. Important: This does not directly charge the user - it provides payment details they must approve.',
+    description: 'Execute a Blink (payment-gated API call) with automatic B402 discount. This returns payment instructions that the user needs to complete. After payment, the API is executed and results are returned. Important: This does not directly charge the user - it provides payment details they must approve. When the creator declared one, output_schema describes the shape of the result data.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -196,11 +196,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         // Get tier info for discount calculation
         const tierInfo = await client.getB402Tier(wallet)
         const blinks = await client.listBlinks(category, limit)
+        const passes = await client.getAccessPasses(wallet)
 
         // Calculate tier-adjusted prices
         const blinksWithPricing = await Promise.all(
           blinks.map(async (blink) => {
             const discount = await client.getDiscount(wallet, blink.price_usdc)
+            // Passes are listed in start order; the first started one with calls left covers the next call
+            const pass = passes.find((p) =>
+              p.blink_slug === blink.slug && p.calls_remaining !== 0 && new Date(p.starts_at) <= new Date()
+            )
             return {
               slug: blink.slug,
               title: blink.title,
@@ -214,7 +219,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               performance: {
                 success_rate: blink.success_rate_percent,
                 avg_latency_ms: blink.avg_latency_ms
-              }
+              },
+              rating: {
+                average: blink.rating_avg ?? null, // null = no reviews yet
+                reviews: blink.rating_count ?? 0
+              },
+              ...(blink.access_pass ? { pass_offer: blink.access_pass } : {}),
+              ...(pass ? {
+                your_pass: {
+                  expires_at: pass.expires_at,
+                  calls_remaining: pass.calls_remaining, // null = unlimited
+                  subscription: pass.subscription
+                }
+              } : {})
             }
           })
         )
@@ -268,7 +285,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             `4. The API will execute automatically after payment`,
             `5. Results will be available at the checkout page`
           ],
-          note: `Your ${tierInfo.tier} tier saves you $${discount.savings.toFixed(4)} on this execution!`
+          note: `Your ${tierInfo.tier} tier saves you $${discount.savings.toFixed(4)} on this execution!`,
+          // JSON Schema of the result `data` returned after payment (null when the creator hasn't declared one)
+          output_schema: blink.response_transform?.output_schema || null
         }
 
         return {
@@ -1,4 +1,5 @@
 // Type definitions for MCP server
+import type { ResponseTransform, BlinkAccessPassConfig } from '@blink402/types'
 
 export interface Blink {
   id: number
@@ -10,6 +11,10 @@ export interface Blink {
   icon_url: string | null
   success_rate_percent: number | null
   avg_latency_ms: number | null
+  response_transform?: ResponseTransform | null // output_schema describes the execution result
+  access_pass?: BlinkAccessPassConfig | null // Pass sold instead of per-call payment
+  rating_avg?: number | null // Average review rating from verified payers (unset until reviewed)
+  rating_count?: number
 }
 
 export interface B402TierInfo {
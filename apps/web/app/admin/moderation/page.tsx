@@ -0,0 +1,337 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { BlinkReportStatus, ModerationAction, ModerationReport } from "@blink402/types"
+import {
+  getModerationReports,
+  updateModerationReport,
+  moderateBlink,
+  moderateCreator,
+  getModerationActions,
+  type ModeratorCredentials,
+} from "@/lib/api"
+import { logger } from "@/lib/logger"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+
+const CREDENTIALS_KEY = "blink402:moderator"
+const STATUS_TABS: (BlinkReportStatus | "all")[] = ["pending", "reviewing", "resolved", "dismissed", "all"]
+
+/**
+ * Moderation console: triage catalog reports, unpublish or suspend blinks and creators,
+ * and review the audit log. Uses the admin API key (kept in this tab's session storage only).
+ */
+export default function ModerationPage() {
+  const [credentials, setCredentials] = useState<ModeratorCredentials | null>(null)
+  const [adminKeyInput, setAdminKeyInput] = useState("")
+  const [actorInput, setActorInput] = useState("")
+  const [status, setStatus] = useState<BlinkReportStatus | "all">("pending")
+  const [reports, setReports] = useState<ModerationReport[]>([])
+  const [counts, setCounts] = useState<Record<BlinkReportStatus, number> | null>(null)
+  const [actions, setActions] = useState<ModerationAction[]>([])
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const stored = sessionStorage.getItem(CREDENTIALS_KEY)
+    if (stored) {
+      setCredentials(JSON.parse(stored))
+    }
+  }, [])
+
+  const loadQueue = useCallback(async () => {
+    if (!credentials) return
+    try {
+      const [queue, log] = await Promise.all([
+        getModerationReports(status, credentials),
+        getModerationActions(credentials),
+      ])
+      setReports(queue.reports)
+      setCounts(queue.counts)
+      setActions(log)
+      setError(null)
+    } catch (err) {
+      logger.error("Failed to load moderation queue:", err)
+      setError(err instanceof Error ? err.message : "Failed to load moderation queue")
+    }
+  }, [credentials, status])
+
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue])
+
+  const handleSignIn = () => {
+    const next = { adminKey: adminKeyInput.trim(), actor: actorInput.trim() || "admin" }
+    sessionStorage.setItem(CREDENTIALS_KEY, JSON.stringify(next))
+    setCredentials(next)
+    setAdminKeyInput("")
+  }
+
+  const handleSignOut = () => {
+    sessionStorage.removeItem(CREDENTIALS_KEY)
+    setCredentials(null)
+    setReports([])
+    setActions([])
+    setCounts(null)
+  }
+
+  // Run one moderation action for a report, then refresh the queue and the audit log
+  const runAction = async (report: ModerationReport, action: () => Promise<unknown>) => {
+    setBusyId(report.id)
+    setError(null)
+    try {
+      await action()
+      setNotes((current) => ({ ...current, [report.id]: "" }))
+      await loadQueue()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Moderation action failed")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (!credentials) {
+    return (
+      <main className="min-h-screen">
+        <section className="px-4 sm:px-6 py-6 sm:py-8">
+          <div className="max-w-md mx-auto">
+            <h1 className="font-sans text-neon-white mb-3 text-3xl">Moderation</h1>
+            <Card className="bg-neon-dark border-neon-blue-dark/20 p-6 space-y-3">
+              <Input
+                type="password"
+                value={adminKeyInput}
+                onChange={(e) => setAdminKeyInput(e.target.value)}
+                placeholder="Admin API key"
+                className="bg-neon-black border-neon-blue-dark/30 text-neon-white font-mono"
+              />
+              <Input
+                value={actorInput}
+                onChange={(e) => setActorInput(e.target.value)}
+                placeholder="Your name (shown in the audit log)"
+                maxLength={100}
+                className="bg-neon-black border-neon-blue-dark/30 text-neon-white font-mono"
+              />
+              <Button onClick={handleSignIn} disabled={!adminKeyInput.trim()} className="btn-primary btn-ripple w-full">
+                Open Console
+              </Button>
+            </Card>
+          </div>
+        </section>
+      </main>
+    )
+  }
+
+  return (
+    <main className="min-h-screen">
+      <section className="px-4 sm:px-6 py-6 sm:py-8">
+        <div className="max-w-6xl mx-auto space-y-8">
+          {/* Header */}
+          <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+            <div>
+              <h1 className="font-sans text-neon-white mb-2 text-3xl md:text-4xl">Moderation</h1>
+              <p className="text-neon-grey font-mono text-sm">
+                Signed in as {credentials.actor}. Every action is recorded in the audit log.
+              </p>
+            </div>
+            <Button onClick={handleSignOut} className="btn-ghost btn-ripple text-xs">
+              Sign out
+            </Button>
+          </div>
+
+          {error && (
+            <Alert className="bg-red-500/10 border-red-500/30">
+              <AlertDescription className="text-red-400 font-mono text-sm">{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {/* Status tabs */}
+          <div className="flex flex-wrap gap-2">
+            {STATUS_TABS.map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setStatus(tab)}
+                className={`px-3 py-1 rounded font-mono text-xs border ${
+                  status === tab
+                    ? "border-neon-blue-light text-neon-blue-light"
+                    : "border-neon-blue-dark/30 text-neon-grey"
+                }`}
+              >
+                {tab}
+                {counts && tab !== "all" ? ` (${counts[tab]})` : ""}
+              </button>
+            ))}
+          </div>
+
+          {/* Queue */}
+          {reports.length > 0 ? (
+            <div className="space-y-4">
+              {reports.map((report) => {
+                const isOpen = report.status === "pending" || report.status === "reviewing"
+                const text = notes[report.id] || ""
+                const busy = busyId === report.id
+
+                return (
+                  <Card key={report.id} className="bg-neon-dark border-neon-blue-dark/20 p-6 space-y-4">
+                    <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                      <div className="min-w-0 space-y-1">
+                        <div className="text-neon-white font-mono text-sm">
+                          <a href={`/blink/${report.blink_slug}`} target="_blank" rel="noreferrer" className="hover:text-neon-blue-light">
+                            {report.blink_title}
+                          </a>{" "}
+                          <span className="text-neon-grey">/{report.blink_slug}</span>
+                        </div>
+                        <div className="text-neon-grey font-mono text-xs break-all">
+                          Creator {report.creator_wallet}
+                          {report.creator_suspended_at && <span className="text-red-400"> · suspended</span>}
+                        </div>
+                        <div className="text-neon-grey font-mono text-xs">
+                          {report.reason} · {new Date(report.created_at).toLocaleString()}
+                          {report.reporter_wallet ? ` · by ${report.reporter_wallet}` : " · anonymous"}
+                          {` · ${report.open_reports} open report(s) on this blink`}
+                        </div>
+                        {report.details && (
+                          <p className="text-neon-white font-mono text-xs whitespace-pre-wrap pt-1">{report.details}</p>
+                        )}
+                        {report.reviewed_by && (
+                          <div className="text-neon-grey font-mono text-xs pt-1">
+                            {report.status} by {report.reviewed_by}
+                            {report.resolution_notes ? `: ${report.resolution_notes}` : ""}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-2 shrink-0">
+                        <Badge className="bg-neon-blue-light/20 text-neon-blue-light">{report.status}</Badge>
+                        <Badge className="bg-neon-grey/20 text-neon-grey">{report.blink_status}</Badge>
+                        {report.publish_to_catalog && <Badge className="bg-neon-grey/20 text-neon-grey">in catalog</Badge>}
+                        {report.catalog_hold && <Badge className="bg-yellow-500/20 text-yellow-400">on hold</Badge>}
+                        {report.blink_suspended_at && <Badge className="bg-red-500/20 text-red-400">suspended</Badge>}
+                      </div>
+                    </div>
+
+                    <Input
+                      value={text}
+                      onChange={(e) => setNotes((current) => ({ ...current, [report.id]: e.target.value }))}
+                      placeholder="Notes (required as the reason when suspending)"
+                      maxLength={2000}
+                      className="bg-neon-black border-neon-blue-dark/30 text-neon-white font-mono text-xs"
+                    />
+
+                    <div className="flex flex-wrap gap-2">
+                      {report.status === "pending" && (
+                        <Button
+                          disabled={busy}
+                          onClick={() => runAction(report, () => updateModerationReport(report.id, "reviewing", text, credentials))}
+                          className="btn-ghost btn-ripple text-xs"
+                        >
+                          Start review
+                        </Button>
+                      )}
+                      {isOpen && (
+                        <>
+                          <Button
+                            disabled={busy}
+                            onClick={() => runAction(report, () => updateModerationReport(report.id, "resolved", text, credentials))}
+                            className="btn-ghost btn-ripple text-xs"
+                          >
+                            Resolve
+                          </Button>
+                          <Button
+                            disabled={busy}
+                            onClick={() => runAction(report, () => updateModerationReport(report.id, "dismissed", text, credentials))}
+                            className="btn-ghost btn-ripple text-xs"
+                          >
+                            Dismiss
+                          </Button>
+                        </>
+                      )}
+                      {report.catalog_hold ? (
+                        <Button
+                          disabled={busy}
+                          onClick={() => runAction(report, () => moderateBlink(report.blink_id, "release-hold", text, credentials))}
+                          className="btn-ghost btn-ripple text-xs"
+                        >
+                          Release hold
+                        </Button>
+                      ) : (
+                        <Button
+                          disabled={busy}
+                          onClick={() => runAction(report, () => moderateBlink(report.blink_id, "unpublish", text, credentials))}
+                          className="btn-ghost btn-ripple text-xs"
+                        >
+                          Unpublish
+                        </Button>
+                      )}
+                      {report.blink_suspended_at ? (
+                        <Button
+                          disabled={busy}
+                          onClick={() => runAction(report, () => moderateBlink(report.blink_id, "unsuspend", text, credentials))}
+                          className="btn-ghost btn-ripple text-xs"
+                        >
+                          Unsuspend blink
+                        </Button>
+                      ) : (
+                        <Button
+                          disabled={busy || !text.trim()}
+                          onClick={() => runAction(report, () => moderateBlink(report.blink_id, "suspend", text, credentials))}
+                          className="btn-ghost btn-ripple text-xs text-red-500"
+                        >
+                          Suspend blink
+                        </Button>
+                      )}
+                      {report.creator_suspended_at ? (
+                        <Button
+                          disabled={busy}
+                          onClick={() => runAction(report, () => moderateCreator(report.creator_wallet, "unsuspend", text, credentials))}
+                          className="btn-ghost btn-ripple text-xs"
+                        >
+                          Unsuspend creator
+                        </Button>
+                      ) : (
+                        <Button
+                          disabled={busy || !text.trim()}
+                          onClick={() => runAction(report, () => moderateCreator(report.creator_wallet, "suspend", text, credentials))}
+                          className="btn-ghost btn-ripple text-xs text-red-500"
+                        >
+                          Suspend creator
+                        </Button>
+                      )}
+                    </div>
+                  </Card>
+                )
+              })}
+            </div>
+          ) : (
+            <p className="text-neon-grey font-mono text-sm">No {status === "all" ? "" : `${status} `}reports.</p>
+          )}
+
+          {/* Audit log */}
+          <div>
+            <h2 className="font-sans text-neon-white mb-4 text-2xl">Audit Log</h2>
+            <Card className="bg-neon-dark border-neon-blue-dark/20 p-6">
+              {actions.length > 0 ? (
+                <div className="space-y-2">
+                  {actions.map((action) => (
+                    <div key={action.id} className="font-mono text-xs pb-2 border-b border-neon-blue-dark/10 last:border-0">
+                      <span className="text-neon-grey">{new Date(action.created_at).toLocaleString()}</span>{" "}
+                      <span className="text-neon-blue-light">{action.actor}</span>{" "}
+                      <span className="text-neon-white">{action.action.replace(/_/g, " ")}</span>
+                      {action.blink_slug && <span className="text-neon-grey"> /{action.blink_slug}</span>}
+                      {action.creator_wallet && <span className="text-neon-grey"> {action.creator_wallet}</span>}
+                      {action.notes && <span className="text-neon-grey"> - {action.notes}</span>}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-neon-grey font-mono text-sm">No moderation actions yet.</p>
+              )}
+            </Card>
+          </div>
+        </div>
+      </section>
+    </main>
+  )
+}
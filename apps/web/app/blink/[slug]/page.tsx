@@ -8,6 +8,7 @@ import NeonDivider from "@/components/NeonDivider"
 import Lottie from "@/components/Lottie"
 import { Button } from "@/components/ui/button"
 import ShareModal from "@/components/ShareModal"
+import { BlinkReviews } from "@/components/BlinkReviews"
 import Link from "next/link"
 
 export default function BlinkDetailPage() {
@@ -183,6 +184,12 @@ export default function BlinkDetailPage() {
                   <span className="text-neon-grey">Method: </span>
                   <span className="text-neon-white">{blink.method || 'GET'}</span>
                 </div>
+                {blink.rating_avg !== undefined && (
+                  <div>
+                    <span className="text-neon-grey">Rating: </span>
+                    <span className="text-neon-white">★ {blink.rating_avg.toFixed(1)} ({blink.rating_count})</span>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -331,6 +338,13 @@ export default function BlinkDetailPage() {
             </div>
           </div>
 
+          {/* Ratings & Reviews */}
+          <BlinkReviews
+            slug={slug}
+            creatorWallet={blink.creator?.wallet}
+            reviewable={blink.payment_mode !== 'reward'}
+          />
+
           {/* Payment Flow Info */}
           <div className="mb-12">
             <h3 className="text-xl font-mono text-neon-white mb-6">Payment Flow</h3>
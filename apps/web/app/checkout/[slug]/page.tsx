@@ -7,7 +7,10 @@ import {
   PublicKey,
   VersionedTransaction,
 } from "@solana/web3.js"
-import { buildUsdcPaymentTransaction, applyB402Discount, getB402HolderTier, getTierDisplayInfo, type TokenHolderTier } from "@blink402/solana"
+import { buildUsdcPaymentTransaction, applyB402Discount, getB402HolderTier, getTierDisplayInfo, generatePassAuthorizationMessage, type TokenHolderTier } from "@blink402/solana"
+import type { AccessPass, PriceQuote } from "@blink402/types"
+import { useWalletClient } from "wagmi"
+import { sendUsdcPayment, type ChainNetwork } from "@blink402/evm"
 import NeonDivider from "@/components/NeonDivider"
 import Lottie from "@/components/Lottie"
 import { Card } from "@/components/ui/card"
@@ -52,6 +55,7 @@ function CheckoutPageContent() {
 
   const { ready, authenticated, user } = usePrivy()
   const { wallets } = useWallets()
+  const { data: walletClient } = useWalletClient()
 
   // Get wallet address - prioritize Solana wallet for Solana payments
   const wallet = wallets[0]
@@ -93,6 +97,19 @@ function CheckoutPageContent() {
   const [savings, setSavings] = useState(0)
   const [discountPercent, setDiscountPercent] = useState(0)
 
+  // Access pass held by the connected wallet (covers calls instead of paying)
+  const [accessPass, setAccessPass] = useState<AccessPass | null>(null)
+  // Set once the holder was reminded to renew the subscription and hasn't yet
+  const [passRenewalDue, setPassRenewalDue] = useState(false)
+
+  // Price of this call for blinks with pricing rules (depends on the inputs and wallet)
+  const [priceQuote, setPriceQuote] = useState<PriceQuote | null>(null)
+
+  // Coupon code typed by the buyer, and the one applied to the quote once accepted
+  const [couponInput, setCouponInput] = useState('')
+  const [appliedCoupon, setAppliedCoupon] = useState<string | null>(null)
+  const [couponError, setCouponError] = useState<string | null>(null)
+
   useEffect(() => {
     // Fetch blink data from API
     if (slug) {
@@ -175,13 +192,13 @@ function CheckoutPageContent() {
       if (!connected || !connectedWallet || !blink) {
         // Reset to no tier if wallet disconnects or no blink
         setB402Tier('NONE')
-        setFinalPrice(blink ? Number(blink.price_usdc) : 0)
+        setFinalPrice(blink ? Number(priceQuote?.price_usdc ?? blink.price_usdc) : 0)
         setSavings(0)
         setDiscountPercent(0)
         return
       }
 
-      const basePrice = Number(blink.price_usdc)
+      const basePrice = Number(priceQuote?.price_usdc ?? blink.price_usdc)
 
       try {
         logger.info('Fetching B402 holder tier for wallet:', connectedWallet)
@@ -212,7 +229,72 @@ function CheckoutPageContent() {
     }
 
     fetchB402Discount()
-  }, [connected, connectedWallet, blink])
+  }, [connected, connectedWallet, blink, priceQuote])
+
+  // Quote the current inputs - the API locks its own quote into the run when the call is made
+  useEffect(() => {
+    if (!blink?.pricing_rules && !appliedCoupon) {
+      setPriceQuote(null)
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`${API_BASE_URL}/api/blinks/${encodeURIComponent(slug)}/quote`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            inputs: { ...queryParams, ...dynamicParams },
+            wallet: connectedWallet || undefined,
+            coupon: appliedCoupon || undefined,
+          }),
+        })
+        const data = await res.json()
+        if (!data.success && appliedCoupon) {
+          // Drop a coupon the API rejects so the buyer isn't charged a price they weren't quoted
+          setCouponError(data.details || data.error || 'Coupon could not be applied')
+          setAppliedCoupon(null)
+          return
+        }
+        setPriceQuote(data.success ? data.data : null)
+      } catch (err) {
+        logger.error('Failed to quote price:', err)
+        setPriceQuote(null)
+      }
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [blink, slug, queryParams, dynamicParams, connectedWallet, appliedCoupon])
+
+  // Look up the wallet's pass for this blink - the first started one with calls left covers the next call
+  const loadAccessPass = async () => {
+    if (!connectedWallet || !blink?.access_pass) {
+      setAccessPass(null)
+      setPassRenewalDue(false)
+      return
+    }
+
+    try {
+      const res = await fetch(`${API_BASE_URL}/api/passes?wallet=${connectedWallet}&slug=${encodeURIComponent(slug)}`)
+      const data = await res.json()
+      const passes: AccessPass[] = data.success ? data.passes : []
+      const activePass = passes.find((pass) =>
+        pass.calls_remaining !== 0 && new Date(pass.starts_at) <= new Date()
+      ) || null
+      setAccessPass(activePass)
+      setPassRenewalDue(!!activePass?.subscription && !!activePass.renewal_reminder_sent_at &&
+        !passes.some((pass) => new Date(pass.starts_at) >= new Date(activePass.expires_at)))
+    } catch (err) {
+      logger.error('Failed to load access pass:', err)
+      setAccessPass(null)
+      setPassRenewalDue(false)
+    }
+  }
+
+  useEffect(() => {
+    loadAccessPass()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [connectedWallet, blink, slug])
 
   // Update state when wallet connects/disconnects
   useEffect(() => {
@@ -229,6 +311,90 @@ function CheckoutPageContent() {
     }
   }, [connected, ready, paymentState])
 
+  // Base (EVM) payment flow: request a reference, pay USDC on Base, then let the backend verify the transfer
+  const handleBasePay = async (requestData: Record<string, any>) => {
+    if (!blink) return
+
+    if (!walletClient?.account) {
+      throw new Error("No Base wallet connected. Please connect an Ethereum wallet and switch to Base.")
+    }
+
+    const requestPayload = {
+      ...requestData,
+      ...dynamicParams, // Dynamic params take precedence
+      _urlParams: queryParams,
+      ...(appliedCoupon && { coupon: appliedCoupon }),
+    }
+
+    // Step 1: Ask the backend for payment requirements (creates the run reference)
+    const requirementsRes = await fetch(`${API_BASE_URL}/bazaar/${slug}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(requestPayload),
+    })
+
+    if (requirementsRes.status !== 402) {
+      const errorData = await requirementsRes.json().catch(() => ({}))
+      throw new Error(errorData.error || `Failed to get payment requirements (${requirementsRes.status})`)
+    }
+
+    const requirements = await requirementsRes.json()
+    const { reference, payment } = requirements
+    setLastReference(reference) // Store for status checking later
+
+    const network: ChainNetwork = payment.network === 'base' ? 'mainnet' : 'testnet'
+
+    // Step 2: Send the USDC transfer on Base with the reference appended to the calldata
+    logger.info('Sending Base USDC payment...', { reference, network })
+    const txHash = await sendUsdcPayment({
+      walletClient,
+      payer: walletClient.account.address,
+      merchant: payment.recipientWallet,
+      amountUsdc: Number(payment.amount) / 1_000_000, // USDC has 6 decimals
+      network,
+      reference,
+    })
+
+    setTxSignature(txHash)
+    setPaymentState("executing")
+
+    // Step 3: Backend verifies the USDC Transfer log and executes the API
+    const apiRes = await retryFetch(
+      `${API_BASE_URL}/bazaar/${slug}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Payment-Tx': txHash,
+        },
+        body: JSON.stringify({ ...requestPayload, reference }),
+      },
+      {
+        maxRetries: 3,
+        initialDelayMs: 2000,
+        onRetry: (attempt, error, delayMs) => {
+          logger.warn(`Base payment API call failed, retrying (${attempt}/3)...`, {
+            error: error.message,
+            delayMs,
+            slug
+          })
+        }
+      }
+    )
+
+    if (!apiRes.ok) {
+      const errorData = await apiRes.json().catch(() => ({}))
+      logger.error('Base payment or execution failed:', errorData)
+      throw new Error(errorData.details || errorData.error || `API execution failed (${apiRes.status})`)
+    }
+
+    const result = await apiRes.json()
+    logger.info('✅ API executed successfully!', result)
+
+    setResponseData(result.data || result)
+    setPaymentState("success")
+  }
+
   // ONCHAIN x402 payment flow with manual transaction building
   const handlePay = async () => {
     if (!blink || !connected || !ready || !connectedWallet) {
@@ -248,6 +414,12 @@ function CheckoutPageContent() {
         requestData = {}
       }
 
+      // Base blinks are paid with USDC on Base instead of a Solana transaction
+      if (blink.blockchain === 'base') {
+        await handleBasePay(requestData)
+        return
+      }
+
       // Get the ACTUAL connected wallet from window.solana (not Privy's cached address)
       // @ts-ignore
       const solana = window.solana || window.phantom?.solana
@@ -283,7 +455,8 @@ function CheckoutPageContent() {
       // Validate merchant address before creating PublicKey
       let merchant: PublicKey
       try {
-        merchant = new PublicKey(blink.payout_wallet)
+        // Revenue split blinks are paid to the settlement wallet, which pays out the shares
+        merchant = new PublicKey(blink.payment_wallet || blink.payout_wallet)
         logger.info('Merchant address:', { address: merchant.toBase58() })
       } catch (err) {
         logger.error('Invalid merchant payout_wallet address:', {
@@ -294,10 +467,10 @@ function CheckoutPageContent() {
         throw new Error(`Invalid merchant address for this blink: ${blink.payout_wallet}. Please contact the blink creator.`)
       }
 
-      const amountUsdc = finalPrice || Number(blink.price_usdc) // Use discounted price if B402 holder, fallback to base price
+      const amountUsdc = finalPrice || Number(priceQuote?.price_usdc ?? blink.price_usdc) // Use discounted price if B402 holder, fallback to the quoted/base price
 
       logger.info('Building payment transaction with B402 discount:', {
-        originalPrice: Number(blink.price_usdc),
+        originalPrice: Number(priceQuote?.price_usdc ?? blink.price_usdc),
         finalPrice: amountUsdc,
         tier: b402Tier,
         savings: savings
@@ -370,6 +543,7 @@ function CheckoutPageContent() {
         ...mergedData,
         reference, // Include reference for backend tracking
         _urlParams: queryParams, // URL placeholder replacements (e.g., {user_input})
+        ...(appliedCoupon && { coupon: appliedCoupon }),
       }
       logger.info('🔍 DEBUG: Full request payload:', requestPayload)
 
@@ -440,6 +614,71 @@ function CheckoutPageContent() {
     }
   }
 
+  // Access pass flow: sign a one-call authorization instead of paying
+  const handlePassCall = async () => {
+    if (!blink || !connected || !connectedWallet) {
+      setError("Please connect your wallet first")
+      return
+    }
+
+    setPaymentState("executing")
+    setError(null)
+
+    try {
+      let requestData
+      try {
+        requestData = JSON.parse(requestBody)
+      } catch {
+        requestData = {}
+      }
+
+      // @ts-ignore
+      const solana = window.solana || window.phantom?.solana
+      if (!solana || !solana.publicKey) {
+        throw new Error("Connect a Solana wallet to use your access pass.")
+      }
+
+      const passWallet = solana.publicKey.toBase58()
+      const nonce = crypto.randomUUID()
+      const timestamp = Date.now()
+      const message = generatePassAuthorizationMessage({ wallet: passWallet, slug, nonce, timestamp })
+
+      const signResult = await solana.signMessage(new TextEncoder().encode(message), 'utf8')
+      const bs58 = await import('bs58')
+      const passHeader = btoa(JSON.stringify({
+        wallet: passWallet,
+        slug,
+        nonce,
+        timestamp,
+        signature: bs58.default.encode(signResult.signature),
+      }))
+
+      const apiRes = await fetch(`${API_BASE_URL}/bazaar/${slug}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Pass-Authorization': passHeader,
+        },
+        body: JSON.stringify({ ...requestData, ...dynamicParams, _urlParams: queryParams }),
+      })
+      const result = await apiRes.json()
+
+      if (!apiRes.ok) {
+        throw new Error(result.details || result.message || result.error || `API execution failed (${apiRes.status})`)
+      }
+
+      logger.info('✅ API executed with access pass', result)
+      setResponseData(result.data || result)
+      setPaymentState("success")
+    } catch (err) {
+      logger.error('Access pass call error:', err)
+      setError(err instanceof Error ? err.message : "Access pass call failed")
+      setPaymentState("failed")
+    } finally {
+      await loadAccessPass()
+    }
+  }
+
   // Check if a payment with the last reference actually succeeded
   const checkPaymentStatus = async () => {
     if (!lastReference) {
@@ -631,7 +870,7 @@ function CheckoutPageContent() {
                     <span className="text-neon-grey font-mono text-xs sm:text-sm">Price</span>
                     {savings > 0 ? (
                       <div className="flex items-center gap-2">
-                        <span className="text-neon-grey font-mono text-xs line-through">${blink.price_usdc}</span>
+                        <span className="text-neon-grey font-mono text-xs line-through">${priceQuote?.price_usdc ?? blink.price_usdc}</span>
                         <span className="text-neon-white font-mono font-bold text-sm sm:text-base">
                           ${finalPrice.toFixed(2)} USDC
                         </span>
@@ -639,10 +878,74 @@ function CheckoutPageContent() {
                       </div>
                     ) : (
                       <span className="text-neon-white font-mono font-bold text-sm sm:text-base">
-                        ${blink.price_usdc} USDC
+                        ${priceQuote?.price_usdc ?? blink.price_usdc} USDC
                       </span>
                     )}
                   </div>
+                  {priceQuote && priceQuote.adjustments.length > 0 && (
+                    <div className="space-y-1">
+                      <div className="flex justify-between items-center">
+                        <span className="text-neon-grey font-mono text-xs">Base price</span>
+                        <span className="text-neon-grey font-mono text-xs">${priceQuote.base_price_usdc}</span>
+                      </div>
+                      {priceQuote.adjustments.map((adjustment, index) => (
+                        <div key={index} className="flex justify-between items-center">
+                          <span className="text-neon-grey font-mono text-xs">{adjustment.detail}</span>
+                          <span className="text-neon-grey font-mono text-xs">
+                            {adjustment.amount !== undefined && `+$${adjustment.amount}`}
+                            {adjustment.multiplier !== undefined && `×${adjustment.multiplier}`}
+                            {adjustment.percent_off !== undefined && `-${adjustment.percent_off}%`}
+                            {adjustment.amount_off !== undefined && `-$${adjustment.amount_off}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {blink.payment_token === 'USDC' && (
+                    <div className="space-y-1">
+                      <div className="flex gap-2">
+                        <input
+                          id="coupon-code"
+                          type="text"
+                          value={couponInput}
+                          onChange={(e) => setCouponInput(e.target.value)}
+                          placeholder="Coupon code"
+                          className="flex-1 px-3 py-1.5 font-mono text-xs uppercase bg-neon-black border border-neon-blue-dark/30 text-neon-white rounded focus:outline-none focus:border-neon-blue-light"
+                          disabled={paymentState !== "idle" && paymentState !== "ready"}
+                        />
+                        {appliedCoupon ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="font-mono text-xs"
+                            onClick={() => {
+                              setAppliedCoupon(null)
+                              setCouponInput('')
+                            }}
+                            disabled={paymentState !== "idle" && paymentState !== "ready"}
+                          >
+                            Remove
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="font-mono text-xs"
+                            onClick={() => {
+                              setCouponError(null)
+                              setAppliedCoupon(couponInput.trim().toUpperCase())
+                            }}
+                            disabled={!couponInput.trim() || (paymentState !== "idle" && paymentState !== "ready")}
+                          >
+                            Apply
+                          </Button>
+                        )}
+                      </div>
+                      {couponError && (
+                        <p className="text-red-400 font-mono text-xs">{couponError}</p>
+                      )}
+                    </div>
+                  )}
                   <div className="flex justify-between items-center">
                     <span className="text-neon-grey font-mono text-xs sm:text-sm">Network</span>
                     <Badge variant="outline" className="border-neon-blue-dark/30 text-neon-blue-light text-xs">
@@ -789,6 +1092,35 @@ function CheckoutPageContent() {
                 </Card>
               )}
 
+              {/* Access Pass */}
+              {connected && accessPass && (
+                <Card className="bg-neon-blue-dark/10 border-neon-blue-dark/40 p-4">
+                  <div className="text-neon-blue-light font-mono text-sm font-bold">
+                    {accessPass.subscription ? 'Subscription active' : 'Access pass active'}
+                  </div>
+                  <div className="text-neon-white font-mono text-xs mt-1">
+                    {accessPass.calls_remaining === null
+                      ? 'Unlimited calls'
+                      : `${accessPass.calls_remaining} of ${accessPass.call_limit} calls left`}
+                    {' · '}expires {new Date(accessPass.expires_at).toLocaleString()}
+                  </div>
+                  {passRenewalDue && (
+                    <div className="text-yellow-500 font-mono text-xs mt-2">
+                      Your subscription ends soon - renew it to keep calling without paying per call
+                    </div>
+                  )}
+                </Card>
+              )}
+              {connected && !accessPass && blink.access_pass && (
+                <Alert className="bg-neon-blue-dark/10 border-neon-blue-dark/30">
+                  <AlertDescription className="text-neon-white font-mono text-xs sm:text-sm">
+                    {blink.access_pass.label ||
+                      `${blink.access_pass.call_limit ? `${blink.access_pass.call_limit} calls` : 'Unlimited calls'} for ${blink.access_pass.duration_hours % 24 === 0 ? `${blink.access_pass.duration_hours / 24} day(s)` : `${blink.access_pass.duration_hours} hour(s)`}`}
+                    {' '}pass available for ${blink.access_pass.price_usdc} USDC
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Wallet Status */}
               {!connected && (
                 <Alert className="bg-neon-blue-dark/10 border-neon-blue-dark/30">
@@ -997,7 +1329,7 @@ function CheckoutPageContent() {
                       <span className="text-neon-white font-mono text-sm sm:text-base">Total</span>
                       {savings > 0 ? (
                         <div className="text-right">
-                          <div className="text-neon-grey font-mono text-xs line-through">${blink.price_usdc}</div>
+                          <div className="text-neon-grey font-mono text-xs line-through">${priceQuote?.price_usdc ?? blink.price_usdc}</div>
                           <div className="text-neon-blue-light font-mono font-bold text-xl sm:text-2xl">
                             ${finalPrice.toFixed(2)}
                           </div>
@@ -1005,7 +1337,7 @@ function CheckoutPageContent() {
                         </div>
                       ) : (
                         <span className="text-neon-blue-light font-mono font-bold text-xl sm:text-2xl">
-                          ${finalPrice > 0 ? finalPrice.toFixed(2) : blink.price_usdc}
+                          ${finalPrice > 0 ? finalPrice.toFixed(2) : (priceQuote?.price_usdc ?? blink.price_usdc)}
                         </span>
                       )}
                     </div>
@@ -1022,7 +1354,17 @@ function CheckoutPageContent() {
                           onClick={handlePay}
                           className="w-full bg-neon-blue-dark hover:bg-neon-blue-light font-mono text-sm sm:text-base h-11 sm:h-12"
                         >
-                          Pay ${finalPrice > 0 ? finalPrice.toFixed(2) : blink.price_usdc} USDC{savings > 0 ? ` (-${discountPercent}%)` : ''}
+                          Pay ${finalPrice > 0 ? finalPrice.toFixed(2) : (priceQuote?.price_usdc ?? blink.price_usdc)} USDC{savings > 0 ? ` (-${discountPercent}%)` : ''}
+                        </Button>
+                      )}
+
+                      {connected && paymentState === "ready" && accessPass && (
+                        <Button
+                          onClick={handlePassCall}
+                          variant="outline"
+                          className="w-full border-neon-blue-dark text-neon-blue-light font-mono text-sm sm:text-base h-11 sm:h-12"
+                        >
+                          Use access pass
                         </Button>
                       )}
 
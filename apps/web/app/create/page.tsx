@@ -49,10 +49,16 @@ const blinkSchema = z.object({
       (val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0,
       { message: "Price must be a positive number" }
     ),
+  blockchain: z.enum(["solana", "base"]).default("solana"),
   payout_wallet: z.string()
-    .min(32, "Wallet address is too short")
-    .max(44, "Wallet address is too long")
-    .regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, "Invalid Solana wallet address"),
+    .min(1, "Payout wallet is required"),
+  refund_policy: z.enum(["full", "partial", "none"]).default("full"),
+  refund_percent: z.string()
+    .refine(
+      (val) => /^\d+$/.test(val) && parseInt(val, 10) <= 100,
+      { message: "Refund percent must be a whole number between 0 and 100" }
+    )
+    .default("50"),
 
   // Reward mode fields
   reward_amount: z.string().optional(),
@@ -75,6 +81,18 @@ const blinkSchema = z.object({
     message: "Reward mode requires reward_amount, funded_wallet, and max_claims_per_user",
     path: ["payment_mode"],
   }
+).refine(
+  (data) => {
+    // Base blinks pay out to an EVM address, Solana blinks to a Solana address
+    if (data.blockchain === "base") {
+      return /^0x[a-fA-F0-9]{40}$/.test(data.payout_wallet)
+    }
+    return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(data.payout_wallet)
+  },
+  (data) => ({
+    message: data.blockchain === "base" ? "Invalid Base (0x) wallet address" : "Invalid Solana wallet address",
+    path: ["payout_wallet"],
+  })
 )
 
 type BlinkFormData = z.infer<typeof blinkSchema>
@@ -146,8 +164,11 @@ function CreateBlinkPageContent() {
       category: "API Tools",
       payment_mode: "charge",
       payment_token: "USDC", // Default to USDC (required for PayAI x402)
+      blockchain: "solana",
       price_usdc: "0.01",
       payout_wallet: "",
+      refund_policy: "full",
+      refund_percent: "50",
       max_claims_per_user: "1",
       example_request: "{}",
       parameters: "",
@@ -162,12 +183,12 @@ function CreateBlinkPageContent() {
     mountScramble()
   }, [])
 
-  // Pre-fill payout wallet with connected wallet
+  // Pre-fill payout wallet with connected wallet (Solana only - Base needs an EVM address)
   useEffect(() => {
-    if (wallet && !formValues.payout_wallet) {
+    if (wallet && !formValues.payout_wallet && formValues.blockchain !== 'base') {
       setValue('payout_wallet', wallet)
     }
-  }, [wallet, formValues.payout_wallet, setValue])
+  }, [wallet, formValues.payout_wallet, formValues.blockchain, setValue])
 
   // Pre-fill form when forking a blink
   useEffect(() => {
@@ -388,6 +409,7 @@ function CreateBlinkPageContent() {
         icon_url: data.icon_url || '/lottie/Success-Checkmark-Green.lottie',
         status: 'active',
         payment_token: data.payment_token || 'USDC', // Default USDC (required for PayAI x402)
+        blockchain: data.blockchain || 'solana',
         payment_mode: data.payment_mode,
         parameters: parsedParameters, // Add parameters for dynamic input fields
         creator: {
@@ -399,6 +421,11 @@ function CreateBlinkPageContent() {
       if (data.payment_mode === "charge") {
         blinkPayload.price_usdc = data.price_usdc
         blinkPayload.payout_wallet = data.payout_wallet
+        // Base payments are never refunded automatically (failed calls can be retried for free)
+        blinkPayload.refund_policy = data.blockchain === 'base' ? 'none' : (data.refund_policy || 'full')
+        if (data.blockchain !== 'base' && data.refund_policy === 'partial') {
+          blinkPayload.refund_percent = parseInt(data.refund_percent || "50", 10)
+        }
       }
 
       // Add reward mode fields
@@ -835,6 +862,38 @@ function CreateBlinkPageContent() {
               {/* Step 2: Pricing & Wallet */}
               {currentStep === 2 && (
                 <div className="space-y-6">
+                  {/* Blockchain Selection */}
+                  <div>
+                    <Label htmlFor="blockchain" className="text-neon-white font-mono flex items-center gap-2">
+                      Blockchain *
+                      <HelpTooltip content="Solana = payments settle on Solana (SOL or USDC). Base = payments settle in USDC on Base (Ethereum L2) to an EVM wallet." />
+                    </Label>
+                    <Select
+                      value={formValues.blockchain}
+                      onValueChange={(value) => {
+                        setValue("blockchain", value as any, { shouldValidate: true })
+                        if (value === "base") {
+                          // Base blinks are charge-only and settle in USDC
+                          setValue("payment_mode", "charge", { shouldValidate: true })
+                          setValue("payment_token", "USDC", { shouldValidate: true })
+                          if (!formValues.payout_wallet.startsWith("0x")) {
+                            setValue("payout_wallet", "")
+                          }
+                        } else if (formValues.payout_wallet.startsWith("0x")) {
+                          setValue("payout_wallet", wallet || "")
+                        }
+                      }}
+                    >
+                      <SelectTrigger className="mt-2 bg-neon-black border-neon-blue-dark/30 text-neon-white font-mono">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-neon-dark border-neon-blue-dark/30">
+                        <SelectItem value="solana">Solana</SelectItem>
+                        <SelectItem value="base">Base (USDC)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   {/* Payment Mode Selection */}
                   <div>
                     <Label htmlFor="payment_mode" className="text-neon-white font-mono flex items-center gap-2">
@@ -844,6 +903,7 @@ function CreateBlinkPageContent() {
                     <Select
                       value={formValues.payment_mode}
                       onValueChange={(value) => setValue("payment_mode", value as any, { shouldValidate: true })}
+                      disabled={formValues.blockchain === "base"}
                     >
                       <SelectTrigger className="mt-2 bg-neon-black border-neon-blue-dark/30 text-neon-white font-mono">
                         <SelectValue />
@@ -869,6 +929,7 @@ function CreateBlinkPageContent() {
                     <Select
                       value={formValues.payment_token}
                       onValueChange={(value) => setValue("payment_token", value as any, { shouldValidate: true })}
+                      disabled={formValues.blockchain === "base"}
                     >
                       <SelectTrigger className="mt-2 bg-neon-black border-neon-blue-dark/30 text-neon-white font-mono">
                         <SelectValue />
@@ -925,13 +986,15 @@ function CreateBlinkPageContent() {
 
                       <div>
                         <Label htmlFor="payout_wallet" className="text-neon-white font-mono flex items-center gap-2">
-                          Payout Wallet (Solana) *
-                          <HelpTooltip content="Your Solana wallet address where you'll receive payments. This should be YOUR wallet address (starts with a letter or number, 32-44 characters). Payments are sent here instantly when users pay." />
+                          Payout Wallet ({formValues.blockchain === "base" ? "Base" : "Solana"}) *
+                          <HelpTooltip content={formValues.blockchain === "base"
+                            ? "Your Base (EVM) wallet address where you'll receive USDC (0x followed by 40 hex characters). Payments are sent here directly when users pay."
+                            : "Your Solana wallet address where you'll receive payments. This should be YOUR wallet address (starts with a letter or number, 32-44 characters). Payments are sent here instantly when users pay."} />
                         </Label>
                         <Input
                           id="payout_wallet"
                           {...register("payout_wallet")}
-                          placeholder="Your Solana wallet address"
+                          placeholder={formValues.blockchain === "base" ? "Your Base wallet address (0x...)" : "Your Solana wallet address"}
                           className="mt-2 bg-neon-black border-neon-blue-dark/30 text-neon-white font-mono"
                           aria-required="true"
                           aria-invalid={!!errors.payout_wallet}
@@ -949,12 +1012,12 @@ function CreateBlinkPageContent() {
                         )}
                         {!errors.payout_wallet && (
                           <FormHelp>
-                            Payments are settled instantly on the Solana blockchain - no waiting periods or withdrawals needed.
+                            Payments are settled instantly on the {formValues.blockchain === "base" ? "Base" : "Solana"} blockchain - no waiting periods or withdrawals needed.
                           </FormHelp>
                         )}
 
                         {/* USDC ATA Checker - ensures merchant can receive payments */}
-                        {formValues.payout_wallet && formValues.payout_wallet.length >= 32 && (
+                        {formValues.blockchain !== "base" && formValues.payout_wallet && formValues.payout_wallet.length >= 32 && (
                           <div className="mt-3">
                             <UsdcAtaChecker
                               payoutWallet={formValues.payout_wallet}
@@ -963,6 +1026,58 @@ function CreateBlinkPageContent() {
                           </div>
                         )}
                       </div>
+
+                      <div>
+                        <Label htmlFor="refund_policy" className="text-neon-white font-mono flex items-center gap-2">
+                          Refund Policy
+                          <HelpTooltip content="What happens when your API fails after a user has paid. Refunds are sent automatically from the platform and deducted from your future earnings." />
+                        </Label>
+                        <Select
+                          value={formValues.blockchain === "base" ? "none" : formValues.refund_policy}
+                          onValueChange={(value) => setValue("refund_policy", value as any, { shouldValidate: true })}
+                          disabled={formValues.blockchain === "base"}
+                        >
+                          <SelectTrigger className="mt-2 bg-neon-black border-neon-blue-dark/30 text-neon-white font-mono">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-neon-dark border-neon-blue-dark/30">
+                            <SelectItem value="full">Full refund on failure</SelectItem>
+                            <SelectItem value="partial">Partial refund on failure</SelectItem>
+                            <SelectItem value="none">No refund (users can retry for free)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {formValues.blockchain === "base" && (
+                          <p className="text-neon-grey text-xs font-mono mt-2">
+                            Base payments are not refunded automatically - users can retry failed calls for free.
+                          </p>
+                        )}
+                        {formValues.blockchain !== "base" && formValues.refund_policy === "partial" && (
+                          <div className="relative mt-2">
+                            <Input
+                              id="refund_percent"
+                              {...register("refund_percent")}
+                              type="text"
+                              placeholder="50"
+                              className="bg-neon-black border-neon-blue-dark/30 text-neon-white font-mono"
+                              aria-invalid={!!errors.refund_percent}
+                              aria-describedby={errors.refund_percent ? "refund_percent-error" : undefined}
+                            />
+                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-neon-grey font-mono text-sm">
+                              %
+                            </span>
+                          </div>
+                        )}
+                        {errors.refund_percent && (
+                          <p
+                            id="refund_percent-error"
+                            role="alert"
+                            aria-live="polite"
+                            className="text-red-400 text-xs font-mono mt-1"
+                          >
+                            {errors.refund_percent.message}
+                          </p>
+                        )}
+                      </div>
                     </>
                   )}
 
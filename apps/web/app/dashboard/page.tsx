@@ -1,6 +1,6 @@
 "use client"
 import { useEffect, useState } from "react"
-import { getDashboardData, updateBlink } from "@/lib/api"
+import { getDashboardData, updateBlink, signInWithSolana } from "@/lib/api"
 import { usePrivy, useWallets } from "@privy-io/react-auth"
 import type { DashboardData } from "@/lib/types"
 import { useRouter } from "next/navigation"
@@ -19,6 +19,9 @@ import {
 } from "@/components/ui/select"
 import Link from "next/link"
 import { AnimatedNumber } from "@/components/AnimatedNumber"
+import { WebhooksPanel } from "@/components/WebhooksPanel"
+import { ApiKeysPanel } from "@/components/ApiKeysPanel"
+import { AnalyticsPanel } from "@/components/AnalyticsPanel"
 
 export default function DashboardPage() {
   const router = useRouter()
@@ -38,59 +41,23 @@ export default function DashboardPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [authError, setAuthError] = useState<string | null>(null)
   const [updatingBlinkId, setUpdatingBlinkId] = useState<string | null>(null)
+  const [authToken, setAuthToken] = useState<string | null>(null)
 
   useEffect(() => {
     // Load dashboard data when authenticated
     if (isAuthenticated && wallet) {
       setIsLoading(true)
 
-      // Generate auth token for dashboard access
+      // Sign in once - the session token authenticates every dashboard request
       const loadDashboard = async () => {
         try {
-          // Import auth utilities
-          const { generateAuthMessage, createAuthToken, encodeAuthToken } = await import('@/lib/auth')
-
-          // Generate auth message
-          const { message } = generateAuthMessage(wallet)
-
-          // Use window.solana for signing
-          // @ts-ignore
-          const solana = window.solana || window.phantom?.solana
-
-          if (!solana) {
-            throw new Error('No Solana wallet found. Please install Phantom or Solflare and connect it.')
-          }
-
-          if (!solana.isConnected) {
-            throw new Error('Wallet not connected. Please connect your wallet in the navigation bar.')
-          }
-
-          // Convert message to Uint8Array for Solana signing
-          const messageBytes = new TextEncoder().encode(message)
-
-          // Request signature from Solana wallet
-          let signature: Uint8Array
-          try {
-            const signResult = await solana.signMessage(messageBytes, 'utf8')
-            signature = signResult.signature
-          } catch (signError: any) {
-            if (signError.message?.includes('rejected') || signError.message?.includes('denied')) {
-              throw new Error('Signature rejected by user')
-            }
-            throw new Error(`Failed to sign message: ${signError.message}`)
-          }
-
-          // Convert signature bytes to base58 string
-          const bs58 = await import('bs58')
-          const signatureBase58 = bs58.default.encode(signature)
-
-          // Create and encode auth token
-          const authToken = createAuthToken(wallet, signatureBase58, message)
-          const encodedToken = encodeAuthToken(authToken)
-
-          // Fetch dashboard data with auth token
-          const dashboardData = await getDashboardData(wallet, encodedToken)
+          const { signWithBrowserWallet } = await import('@/lib/auth')
+          const { token } = await signInWithSolana(wallet, signWithBrowserWallet)
+
+          // Fetch dashboard data with the session token
+          const dashboardData = await getDashboardData(wallet, token)
           setData(dashboardData)
+          setAuthToken(token)
           setIsLoading(false)
           setAuthError(null)
         } catch (error) {
@@ -118,55 +85,16 @@ export default function DashboardPage() {
     setAuthError(null)
 
     try {
-      // Import auth utilities
-      const { generateAuthMessage, createAuthToken, encodeAuthToken } = await import('@/lib/auth')
-
-      // Generate auth message
-      const { message } = generateAuthMessage(wallet)
-
-      // Use window.solana for signing (same pattern as create page)
-      // @ts-ignore
-      const solana = window.solana || window.phantom?.solana
-
-      if (!solana) {
-        throw new Error('No Solana wallet found. Please install Phantom or Solflare and connect it.')
-      }
-
-      if (!solana.isConnected) {
-        throw new Error('Wallet not connected. Please connect your wallet in the navigation bar.')
-      }
-
-      // Convert message to Uint8Array for Solana signing
-      const messageBytes = new TextEncoder().encode(message)
-
-      // Request signature from Solana wallet
-      let signature: Uint8Array
-      try {
-        const signResult = await solana.signMessage(messageBytes, 'utf8')
-        signature = signResult.signature
-      } catch (signError: any) {
-        if (signError.message?.includes('rejected') || signError.message?.includes('denied')) {
-          throw new Error('Signature rejected by user')
-        }
-        throw new Error(`Failed to sign message: ${signError.message}`)
+      if (!authToken) {
+        throw new Error('Not signed in - reload the dashboard to sign in again')
       }
 
-      // Convert signature bytes to base58 string
-      const bs58 = await import('bs58')
-      const signatureBase58 = bs58.default.encode(signature)
-
-      // Create and encode auth token
-      const authToken = createAuthToken(wallet, signatureBase58, message)
-      const encodedToken = encodeAuthToken(authToken)
-
       const newStatus = currentStatus === "active" ? "paused" : "active"
-      await updateBlink(slug, { status: newStatus }, encodedToken)
+      await updateBlink(slug, { status: newStatus }, authToken)
 
-      // Refresh dashboard data (reuse the same auth token)
-      if (wallet) {
-        const dashboardData = await getDashboardData(wallet, encodedToken)
-        setData(dashboardData)
-      }
+      // Refresh dashboard data with the same session
+      const dashboardData = await getDashboardData(wallet, authToken)
+      setData(dashboardData)
     } catch (error) {
       logger.error('Error updating blink:', error)
       setAuthError(error instanceof Error ? error.message : "Failed to update blink")
@@ -509,6 +437,70 @@ export default function DashboardPage() {
               )}
             </Card>
           </div>
+
+          {/* Revenue Shares */}
+          {data.revenueShares && data.revenueShares.length > 0 && (
+            <div className="mt-12">
+              <h2 className="text-neon-white font-mono text-2xl mb-2">Revenue Shares</h2>
+              <p className="text-neon-grey font-mono text-sm mb-6">
+                Your share of Blinks that split their revenue. Shares are paid out once a run succeeds.
+              </p>
+              <Card className="bg-neon-dark border-neon-blue-dark/20 p-6">
+                <div className="space-y-4">
+                  {data.revenueShares.map((share) => (
+                    <div
+                      key={`${share.blink_id}:${share.role}`}
+                      className="flex items-center justify-between pb-4 border-b border-neon-blue-dark/10 last:border-0 last:pb-0"
+                    >
+                      <div>
+                        <Link href={`/checkout/${share.blink_slug}`} className="text-neon-white font-mono text-sm hover:text-neon-blue-light">
+                          {share.blink_title}
+                        </Link>
+                        <div className="text-neon-grey font-mono text-xs mt-1">
+                          {share.role === "creator" ? "Creator" : "Recipient"}
+                          {share.bps !== null && ` · ${(share.bps / 100).toFixed(2)}%`}
+                          {` · ${share.payouts} payout${share.payouts === 1 ? "" : "s"}`}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-neon-blue-light font-mono text-sm">${share.paid_usdc} USDC</div>
+                        {parseFloat(share.pending_usdc) > 0 && (
+                          <div className="text-neon-grey font-mono text-xs mt-1">${share.pending_usdc} pending</div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            </div>
+          )}
+
+          {/* Analytics */}
+          <div className="mt-12">
+            <h2 className="text-neon-white font-mono text-2xl mb-2">Analytics</h2>
+            <p className="text-neon-grey font-mono text-sm mb-6">
+              Revenue, runs, latency and payers over time, and how many Actions views turn into paid runs.
+            </p>
+            <AnalyticsPanel wallet={wallet} authToken={authToken} />
+          </div>
+
+          {/* Webhooks */}
+          <div className="mt-12">
+            <h2 className="text-neon-white font-mono text-2xl mb-2">Webhooks</h2>
+            <p className="text-neon-grey font-mono text-sm mb-6">
+              Get a signed POST when your Blinks are paid, run or fail, when rewards are claimed and when lottery payouts settle.
+            </p>
+            <WebhooksPanel authToken={authToken} />
+          </div>
+
+          {/* API Keys */}
+          <div className="mt-12">
+            <h2 className="text-neon-white font-mono text-2xl mb-2">API Keys</h2>
+            <p className="text-neon-grey font-mono text-sm mb-6">
+              Long-lived keys for scripts and integrations. Each key only does what its scopes allow, and can be rotated or revoked at any time.
+            </p>
+            <ApiKeysPanel authToken={authToken} />
+          </div>
         </div>
       </section>
     </main>
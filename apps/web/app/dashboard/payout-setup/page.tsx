@@ -12,6 +12,8 @@ import { Label } from "@/components/ui/label"
 import NeonDivider from "@/components/NeonDivider"
 import Link from "next/link"
 import { cn } from "@/lib/utils"
+import { signInWithSolana } from "@/lib/api"
+import { signWithBrowserWallet } from "@/lib/auth"
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
 
@@ -35,6 +37,15 @@ export default function PayoutSetupPage() {
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
   const [showPrivateKey, setShowPrivateKey] = useState(false)
+  const [sessionToken, setSessionToken] = useState<string | null>(null)
+
+  // Saving and removing the key need a signed-in session (signed once per visit)
+  async function getSessionToken(): Promise<string> {
+    if (sessionToken) return sessionToken
+    const { token } = await signInWithSolana(connectedWallet, signWithBrowserWallet)
+    setSessionToken(token)
+    return token
+  }
 
   // Check if user already has a key configured
   useEffect(() => {
@@ -126,9 +137,10 @@ export default function PayoutSetupPage() {
       // Verify keypair is valid
       Keypair.fromSecretKey(Buffer.from(parsed))
 
+      const token = await getSessionToken()
       const response = await fetch(`${API_BASE_URL}/api/creator/payout-key`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
         body: JSON.stringify({
           wallet: connectedWallet,
           privateKey: keyToSave,
@@ -138,7 +150,7 @@ export default function PayoutSetupPage() {
       const data = await response.json()
 
       if (!response.ok) {
-        throw new Error(data.error || 'Failed to save private key')
+        throw new Error(data.details || data.error || 'Failed to save private key')
       }
 
       setSuccess("Payout key saved successfully! You can now create reward-based blinks.")
@@ -175,16 +187,17 @@ export default function PayoutSetupPage() {
     setSuccess(null)
 
     try {
+      const token = await getSessionToken()
       const response = await fetch(`${API_BASE_URL}/api/creator/payout-key`, {
         method: 'DELETE',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
         body: JSON.stringify({ wallet: connectedWallet }),
       })
 
       const data = await response.json()
 
       if (!response.ok) {
-        throw new Error(data.error || 'Failed to remove private key')
+        throw new Error(data.details || data.error || 'Failed to remove private key')
       }
 
       setSuccess("Payout key removed successfully")
@@ -12,6 +12,17 @@ interface ReferralStats {
   tier: string
   total_referrals: number
   total_earnings_usdc: string
+  paid_earnings_usdc?: string
+  pending_earnings_usdc?: string // Paid out in batches (see payout_policy)
+  payout_policy?: { min_usdc: number; max_wait_hours: number }
+  payouts?: Array<{
+    amount_usdc: string
+    commissions: number
+    status: 'pending' | 'sending' | 'completed' | 'failed'
+    signature: string | null
+    created_at: string
+    paid_at: string | null
+  }>
   share_url: string | null
   referrals: Array<{
     referee_wallet: string
@@ -210,6 +221,9 @@ export default function ReferralsPage() {
               <DollarSign className="w-5 h-5 text-green-400" />
             </div>
             <p className="text-2xl font-bold">${stats?.total_earnings_usdc || '0.00'}</p>
+            <p className="text-xs text-gray-400 mt-1">
+              ${stats?.paid_earnings_usdc || '0.00'} paid · ${stats?.pending_earnings_usdc || '0.00'} pending
+            </p>
           </Card>
 
           <Card className="p-6">
@@ -330,6 +344,49 @@ export default function ReferralsPage() {
           </Card>
         )}
 
+        {/* Payouts */}
+        {stats?.code && stats.payout_policy && (
+          <Card className="p-6 mb-8">
+            <h2 className="text-xl font-light mb-2">Payouts</h2>
+            <p className="text-sm text-gray-400 mb-4">
+              Commissions are paid to your wallet in one USDC transfer once they reach ${stats.payout_policy.min_usdc.toFixed(2)},
+              or {Math.round(stats.payout_policy.max_wait_hours / 24)} days after the oldest was earned.
+            </p>
+            {stats.payouts && stats.payouts.length > 0 ? (
+              <div className="space-y-3">
+                {stats.payouts.map((payout, idx) => (
+                  <div
+                    key={idx}
+                    className="flex items-center justify-between p-4 bg-[--neon-dark] rounded border border-gray-700"
+                  >
+                    <div>
+                      <p className="font-bold text-green-400">${payout.amount_usdc}</p>
+                      <p className="text-xs text-gray-400">
+                        {payout.commissions} commission{payout.commissions === 1 ? '' : 's'} ·{' '}
+                        {new Date(payout.paid_at || payout.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    {payout.status === 'completed' && payout.signature ? (
+                      <a
+                        href={`https://solscan.io/tx/${payout.signature}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-[--neon-blue-light] hover:underline"
+                      >
+                        View transaction
+                      </a>
+                    ) : (
+                      <span className="text-xs text-gray-400">Sending...</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-400">No payouts yet.</p>
+            )}
+          </Card>
+        )}
+
         {/* Referrals List */}
         {stats?.referrals && stats.referrals.length > 0 && (
           <Card className="p-6 mb-8">
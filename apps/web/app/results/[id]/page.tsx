@@ -8,6 +8,8 @@ import { Button } from "@/components/ui/button"
 import NeonDivider from "@/components/NeonDivider"
 import Lottie from "@/components/Lottie"
 import TokenPriceResult from "@/components/TokenPriceResult"
+import StructuredResult from "@/components/StructuredResult"
+import type { ResponseOutputSchema } from "@blink402/types"
 
 type ResultsData = {
   signature: string
@@ -27,6 +29,7 @@ type ResultsData = {
     payment_token: string
     icon_url: string
     category: string
+    output_schema?: ResponseOutputSchema | null
   }
   creator: {
     wallet: string
@@ -485,8 +488,43 @@ export default function ResultsPage() {
                 </div>
               )}
 
+              {/* Binary Response - image/audio/video/PDF stored as a run artifact */}
+              {results.response_data.artifact?.url && (
+                <div className="flex flex-col items-center gap-4">
+                  {results.response_data.artifact.content_type.startsWith('image/') && (
+                    <img
+                      src={results.response_data.artifact.url}
+                      alt={results.blink.title}
+                      className="max-w-full border-2 border-neon-blue-light/40 rounded-lg shadow-lg"
+                    />
+                  )}
+                  {results.response_data.artifact.content_type.startsWith('audio/') && (
+                    <audio controls src={results.response_data.artifact.url} className="w-full" />
+                  )}
+                  {results.response_data.artifact.content_type.startsWith('video/') && (
+                    <video controls src={results.response_data.artifact.url} className="max-w-full rounded-lg" />
+                  )}
+                  <a
+                    href={results.response_data.artifact.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono text-sm text-neon-blue-light underline"
+                  >
+                    Download ({results.response_data.artifact.content_type}, {Math.ceil(results.response_data.artifact.size_bytes / 1024)} KB)
+                  </a>
+                  <p className="text-xs font-mono text-neon-grey">
+                    Link expires {new Date(results.response_data.artifact.expires_at).toLocaleString()} - reload this page for a new one
+                  </p>
+                </div>
+              )}
+
+              {/* Structured Response - rendered from the creator's declared output schema */}
+              {results.blink.output_schema && !results.response_data.artifact && (
+                <StructuredResult data={results.response_data} schema={results.blink.output_schema} />
+              )}
+
               {/* Generic JSON Response - fallback for any other response types */}
-              {!results.blink.slug.match(/wallet-tracker|wallet-analyzer|wallet-snapshot|token-price|dexscreener-token-data|qr-code|qr-code-generator/) && (
+              {!results.blink.output_schema && !results.response_data.artifact && !results.blink.slug.match(/wallet-tracker|wallet-analyzer|wallet-snapshot|token-price|dexscreener-token-data|qr-code|qr-code-generator/) && (
                 <pre className="p-4 bg-neon-black/60 rounded-lg border border-neon-grey/20 overflow-x-auto">
                   <code className="text-neon-blue-light text-sm font-mono">
                     {JSON.stringify(results.response_data, null, 2)}
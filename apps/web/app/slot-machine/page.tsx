@@ -8,6 +8,7 @@ import { cn } from "@/lib/utils"
 import NeonDivider from "@/components/NeonDivider"
 import Link from "next/link"
 import { SlotMachine } from "@/components/SlotMachine"
+import { SlotFairnessPanel } from "@/components/SlotFairnessPanel"
 import type { SpinResult } from "@/lib/types"
 import {
   PublicKey,
@@ -52,6 +53,7 @@ export default function SlotMachinePage() {
   const [lastReference, setLastReference] = useState<string | null>(null)
   const [xPaymentHeader, setXPaymentHeader] = useState<string | null>(null)
   const [isSpinning, setIsSpinning] = useState(false)
+  const [spinCount, setSpinCount] = useState(0)
   const [blink, setBlink] = useState<BlinkData | null>(null)
 
   // B402 token holder state
@@ -393,6 +395,7 @@ export default function SlotMachinePage() {
         throw new Error('Invalid response from server. Please try again.')
       }
 
+      setSpinCount(count => count + 1)
       return spinResult
     } catch (err) {
       console.error('Spin error:', err)
@@ -665,6 +668,21 @@ export default function SlotMachinePage() {
 
           <NeonDivider />
 
+          {/* Provably Fair */}
+          <div className="my-12" data-reveal>
+            <h2
+              className="text-3xl font-light text-[--neon-white] mb-6 text-center"
+              style={{
+                textShadow: "0 0 12px rgba(90, 180, 255, 0.6)"
+              }}
+            >
+              Provably Fair
+            </h2>
+            <SlotFairnessPanel wallet={connectedWallet || null} refreshKey={spinCount} />
+          </div>
+
+          <NeonDivider />
+
           {/* Payout Table */}
           <div className="my-12" data-reveal>
             <h2
@@ -0,0 +1,270 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import type { AnalyticsBucket, CreatorAnalytics } from "@blink402/types"
+import { getDashboardAnalytics } from "@/lib/api"
+import { logger } from "@/lib/logger"
+import { Card } from "@/components/ui/card"
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+
+const RANGES: { value: string; label: string; bucket: AnalyticsBucket; days: number }[] = [
+  { value: "24h", label: "24 hours", bucket: "hour", days: 1 },
+  { value: "7d", label: "7 days", bucket: "day", days: 7 },
+  { value: "30d", label: "30 days", bucket: "day", days: 30 },
+  { value: "12w", label: "12 weeks", bucket: "week", days: 84 },
+]
+
+const revenueConfig = {
+  revenue: { label: "Revenue", color: "var(--chart-1)" },
+} satisfies ChartConfig
+
+const runsConfig = {
+  executed_runs: { label: "Executed", color: "var(--chart-1)" },
+  failed_runs: { label: "Failed", color: "var(--chart-4)" },
+  pending_runs: { label: "Paid, not finished", color: "var(--chart-5)" },
+} satisfies ChartConfig
+
+const latencyConfig = {
+  latency_p50_ms: { label: "p50", color: "var(--chart-1)" },
+  latency_p95_ms: { label: "p95", color: "var(--chart-3)" },
+} satisfies ChartConfig
+
+const payersConfig = {
+  unique_payers: { label: "Unique payers", color: "var(--chart-1)" },
+  repeat_payers: { label: "Repeat payers", color: "var(--chart-3)" },
+} satisfies ChartConfig
+
+interface AnalyticsPanelProps {
+  wallet: string
+  // Dashboard auth token (Bearer) - the panel stays empty until it's available
+  authToken: string | null
+}
+
+function formatBucket(iso: string, bucket: AnalyticsBucket): string {
+  const date = new Date(iso)
+  return bucket === "hour"
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString([], { month: "short", day: "numeric" })
+}
+
+/**
+ * Creator analytics for the dashboard
+ * Revenue, runs, latency and payers over time for one blink, plus its checkout funnel and coupon redemptions.
+ */
+export function AnalyticsPanel({ wallet, authToken }: AnalyticsPanelProps) {
+  const [range, setRange] = useState("30d")
+  const [analytics, setAnalytics] = useState<CreatorAnalytics | null>(null)
+  const [blinkId, setBlinkId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadAnalytics = useCallback(async () => {
+    if (!authToken) return
+    const selected = RANGES.find((r) => r.value === range) || RANGES[2]
+    const to = new Date()
+    const from = new Date(to.getTime() - selected.days * 24 * 60 * 60 * 1000)
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const data = await getDashboardAnalytics(wallet, authToken, {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        bucket: selected.bucket,
+      })
+      setAnalytics(data)
+      setBlinkId((current) =>
+        current && data.blinks.some((b) => b.blink_id === current) ? current : data.blinks[0]?.blink_id || null
+      )
+    } catch (err) {
+      logger.error("Failed to load analytics:", err)
+      setError(err instanceof Error ? err.message : "Failed to load analytics")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [wallet, authToken, range])
+
+  useEffect(() => {
+    loadAnalytics()
+  }, [loadAnalytics])
+
+  const blink = analytics?.blinks.find((b) => b.blink_id === blinkId) || null
+
+  const series = useMemo(() => {
+    if (!blink || !analytics) return []
+    return blink.series.map((point) => ({
+      ...point,
+      label: formatBucket(point.bucket, analytics.bucket),
+      revenue: parseFloat(point.revenue),
+      pending_runs: Math.max(0, point.paid_runs - point.executed_runs - point.failed_runs),
+      repeat_payers: Math.round(point.unique_payers * point.repeat_payer_rate),
+    }))
+  }, [blink, analytics])
+
+  const funnelSteps = blink
+    ? [
+        { label: "Viewed (Actions unfurl)", value: blink.funnel.views },
+        { label: "Checkout started", value: blink.funnel.runs_created },
+        { label: "Paid", value: blink.funnel.paid },
+        { label: "Executed", value: blink.funnel.executed },
+      ]
+    : []
+  const funnelMax = Math.max(1, ...funnelSteps.map((step) => step.value))
+
+  return (
+    <Card className="bg-neon-dark border-neon-blue-dark/20 p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+        <select
+          value={blinkId || ""}
+          onChange={(e) => setBlinkId(e.target.value)}
+          disabled={!analytics || analytics.blinks.length === 0}
+          className="bg-neon-black border border-neon-blue-dark/30 text-neon-white font-mono text-sm rounded px-3 py-2"
+        >
+          {analytics?.blinks.map((b) => (
+            <option key={b.blink_id} value={b.blink_id}>
+              {b.title}
+            </option>
+          ))}
+        </select>
+        <div className="flex flex-wrap gap-2">
+          {RANGES.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setRange(option.value)}
+              className={`px-3 py-1 rounded font-mono text-xs border ${
+                range === option.value
+                  ? "border-neon-blue-light text-neon-blue-light"
+                  : "border-neon-blue-dark/30 text-neon-grey"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="text-red-500 font-mono text-sm">{error}</div>}
+
+      {!authToken || (isLoading && !analytics) ? (
+        <p className="text-neon-grey font-mono text-sm">Loading analytics...</p>
+      ) : !blink ? (
+        <p className="text-neon-grey font-mono text-sm">Create a Blink to see its analytics here.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h3 className="text-neon-white font-mono text-sm mb-2">Revenue ({blink.payment_token})</h3>
+            <ChartContainer config={revenueConfig} className="h-56 w-full">
+              <AreaChart data={series}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={48} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Area dataKey="revenue" type="monotone" stroke="var(--color-revenue)" fill="var(--color-revenue)" fillOpacity={0.2} />
+              </AreaChart>
+            </ChartContainer>
+          </div>
+
+          <div>
+            <h3 className="text-neon-white font-mono text-sm mb-2">Paid runs</h3>
+            <ChartContainer config={runsConfig} className="h-56 w-full">
+              <BarChart data={series}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="executed_runs" stackId="runs" fill="var(--color-executed_runs)" />
+                <Bar dataKey="failed_runs" stackId="runs" fill="var(--color-failed_runs)" />
+                <Bar dataKey="pending_runs" stackId="runs" fill="var(--color-pending_runs)" />
+              </BarChart>
+            </ChartContainer>
+          </div>
+
+          <div>
+            <h3 className="text-neon-white font-mono text-sm mb-2">Upstream latency (ms)</h3>
+            <ChartContainer config={latencyConfig} className="h-56 w-full">
+              <LineChart data={series}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={48} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="latency_p50_ms" type="monotone" stroke="var(--color-latency_p50_ms)" dot={false} connectNulls />
+                <Line dataKey="latency_p95_ms" type="monotone" stroke="var(--color-latency_p95_ms)" dot={false} connectNulls />
+              </LineChart>
+            </ChartContainer>
+          </div>
+
+          <div>
+            <h3 className="text-neon-white font-mono text-sm mb-2">Payers</h3>
+            <ChartContainer config={payersConfig} className="h-56 w-full">
+              <BarChart data={series}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="unique_payers" fill="var(--color-unique_payers)" />
+                <Bar dataKey="repeat_payers" fill="var(--color-repeat_payers)" />
+              </BarChart>
+            </ChartContainer>
+          </div>
+
+          <div className="lg:col-span-2">
+            <h3 className="text-neon-white font-mono text-sm mb-3">Checkout funnel</h3>
+            <div className="space-y-2">
+              {funnelSteps.map((step, index) => {
+                const previous = index > 0 ? funnelSteps[index - 1].value : null
+                return (
+                  <div key={step.label} className="flex items-center gap-3 font-mono text-xs">
+                    <div className="w-48 text-neon-grey">{step.label}</div>
+                    <div className="flex-1 h-4 bg-neon-black rounded">
+                      <div
+                        className="h-4 rounded bg-neon-blue-light/70"
+                        style={{ width: `${(step.value / funnelMax) * 100}%` }}
+                      />
+                    </div>
+                    <div className="w-28 text-right text-neon-white">
+                      {step.value}
+                      {previous ? ` (${Math.round((step.value / previous) * 100)}%)` : ""}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          {analytics && analytics.coupons.length > 0 && (
+            <div className="lg:col-span-2">
+              <h3 className="text-neon-white font-mono text-sm mb-3">Coupons (all Blinks)</h3>
+              <div className="space-y-1 font-mono text-xs">
+                <div className="flex gap-3 text-neon-grey">
+                  <div className="flex-1">Code</div>
+                  <div className="w-24 text-right">Redemptions</div>
+                  <div className="w-28 text-right">Discounts</div>
+                  <div className="w-28 text-right">Revenue</div>
+                </div>
+                {analytics.coupons.map((coupon) => (
+                  <div key={coupon.coupon_id} className="flex gap-3 text-neon-white">
+                    <div className="flex-1">{coupon.code}</div>
+                    <div className="w-24 text-right">{coupon.redemptions}</div>
+                    <div className="w-28 text-right">${coupon.discount_usdc}</div>
+                    <div className="w-28 text-right">${coupon.revenue_usdc}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  )
+}
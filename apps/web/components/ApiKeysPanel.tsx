@@ -0,0 +1,186 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { ApiKeyScope, CreatorApiKey } from "@blink402/types"
+import { getApiKeys, createApiKey, rotateApiKey, revokeApiKey } from "@/lib/api"
+import { logger } from "@/lib/logger"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+
+const SCOPE_OPTIONS: { value: ApiKeyScope; label: string }[] = [
+  { value: "blinks:write", label: "Manage Blinks" },
+  { value: "analytics:read", label: "Read analytics" },
+  { value: "payouts:manage", label: "Manage payouts" },
+]
+
+interface ApiKeysPanelProps {
+  // Dashboard session token (Bearer) - the panel stays empty until it's available
+  authToken: string | null
+}
+
+/**
+ * Creator API key settings for the dashboard
+ * Issue scoped keys for scripts and integrations, rotate them and revoke them.
+ */
+export function ApiKeysPanel({ authToken }: ApiKeysPanelProps) {
+  const [apiKeys, setApiKeys] = useState<CreatorApiKey[]>([])
+  const [name, setName] = useState("")
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["blinks:write"])
+  const [newKey, setNewKey] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadApiKeys = useCallback(async () => {
+    if (!authToken) return
+    try {
+      setApiKeys(await getApiKeys(authToken))
+    } catch (err) {
+      logger.error("Failed to load API keys:", err)
+      setError(err instanceof Error ? err.message : "Failed to load API keys")
+    }
+  }, [authToken])
+
+  useEffect(() => {
+    loadApiKeys()
+  }, [loadApiKeys])
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    )
+  }
+
+  const handleCreate = async () => {
+    if (!authToken) return
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const { apiKey, key } = await createApiKey({ name: name.trim(), scopes }, authToken)
+      setNewKey(key)
+      setName("")
+      setApiKeys((current) => [apiKey, ...current])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRotate = async (apiKeyId: string) => {
+    if (!authToken) return
+    setError(null)
+    try {
+      const { key } = await rotateApiKey(apiKeyId, authToken)
+      setNewKey(key)
+      await loadApiKeys()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rotate API key")
+    }
+  }
+
+  const handleRevoke = async (apiKeyId: string) => {
+    if (!authToken) return
+    setError(null)
+    try {
+      await revokeApiKey(apiKeyId, authToken)
+      await loadApiKeys()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke API key")
+    }
+  }
+
+  return (
+    <Card className="bg-neon-dark border-neon-blue-dark/20 p-6 space-y-6">
+      {/* New key */}
+      <div className="space-y-3">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Key name (e.g. deploy script)"
+          maxLength={100}
+          className="bg-neon-black border-neon-blue-dark/30 text-neon-white font-mono"
+        />
+        <div className="flex flex-wrap gap-2">
+          {SCOPE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => toggleScope(option.value)}
+              className={`px-3 py-1 rounded font-mono text-xs border ${
+                scopes.includes(option.value)
+                  ? "border-neon-blue-light text-neon-blue-light"
+                  : "border-neon-blue-dark/30 text-neon-grey"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <Button
+          onClick={handleCreate}
+          disabled={!authToken || isSaving || !name.trim() || scopes.length === 0}
+          className="btn-primary btn-ripple"
+        >
+          {isSaving ? "Creating..." : "Create API Key"}
+        </Button>
+      </div>
+
+      {newKey && (
+        <div className="p-4 rounded border border-dashed border-neon-blue-light/60 bg-neon-black font-mono text-xs space-y-2">
+          <div className="text-neon-white">API key - copy it now, it won't be shown again:</div>
+          <div className="text-neon-blue-light break-all">{newKey}</div>
+          <div className="text-neon-grey">
+            Send it as an Authorization: Bearer header. It only works on routes covered by its scopes.
+          </div>
+          <button onClick={() => setNewKey(null)} className="text-neon-grey underline">Dismiss</button>
+        </div>
+      )}
+
+      {/* Issued keys */}
+      {apiKeys.length > 0 ? (
+        <div className="space-y-3">
+          {apiKeys.map((apiKey) => (
+            <div
+              key={apiKey.id}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-3 pb-3 border-b border-neon-blue-dark/10 last:border-0"
+            >
+              <div className="min-w-0">
+                <div className="text-neon-white font-mono text-sm">
+                  {apiKey.name} <span className="text-neon-grey">{apiKey.key_prefix}…</span>
+                </div>
+                <div className="text-neon-grey font-mono text-xs mt-1">
+                  {apiKey.scopes.join(", ")}
+                  {" · "}
+                  {apiKey.last_used_at ? `last used ${new Date(apiKey.last_used_at).toLocaleString()}` : "never used"}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Badge className={apiKey.revoked_at ? "bg-neon-grey/20 text-neon-grey" : "bg-neon-blue-light/20 text-neon-blue-light"}>
+                  {apiKey.revoked_at ? (apiKey.rotated_to_id ? "rotated" : "revoked") : "active"}
+                </Badge>
+                {!apiKey.revoked_at && (
+                  <>
+                    <Button onClick={() => handleRotate(apiKey.id)} className="btn-ghost btn-ripple text-xs">
+                      Rotate
+                    </Button>
+                    <Button onClick={() => handleRevoke(apiKey.id)} className="btn-ghost btn-ripple text-xs text-red-500">
+                      Revoke
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-neon-grey font-mono text-sm">
+          No API keys yet. Create one to manage your Blinks or read analytics from scripts.
+        </p>
+      )}
+
+      {error && <div className="text-red-500 font-mono text-xs">{error}</div>}
+    </Card>
+  )
+}
@@ -0,0 +1,230 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { usePrivy, useWallets } from "@privy-io/react-auth"
+import type { BlinkRatingSummary, BlinkReview } from "@blink402/types"
+import { getBlinkReviews, submitBlinkReview, replyToBlinkReview, signInWithSolana } from "@/lib/api"
+import { logger } from "@/lib/logger"
+import { Button } from "@/components/ui/button"
+
+interface BlinkReviewsProps {
+  slug: string
+  creatorWallet: string
+  // Reward blinks pay the user, so there's no purchase to review
+  reviewable: boolean
+}
+
+function Stars({ rating }: { rating: number }) {
+  return (
+    <span className="text-neon-blue-light" aria-label={`${rating} out of 5`}>
+      {"★".repeat(Math.round(rating))}
+      <span className="text-neon-grey/40">{"★".repeat(5 - Math.round(rating))}</span>
+    </span>
+  )
+}
+
+/**
+ * Ratings and reviews on the blink page
+ * Wallets that paid for and ran the blink can review it; the creator can reply.
+ * The wallet signs in (once per visit) the first time it writes.
+ */
+export function BlinkReviews({ slug, creatorWallet, reviewable }: BlinkReviewsProps) {
+  const { authenticated, login, user } = usePrivy()
+  const { wallets } = useWallets()
+
+  const solanaAccount: any = user?.linkedAccounts?.find(
+    (account: any) => account.type === "wallet" && account.chainType === "solana"
+  )
+  const wallet: string | undefined = wallets[0]?.address || solanaAccount?.address
+  const isCreator = !!wallet && wallet === creatorWallet
+
+  const [summary, setSummary] = useState<BlinkRatingSummary | null>(null)
+  const [reviews, setReviews] = useState<BlinkReview[]>([])
+  const [authToken, setAuthToken] = useState<string | null>(null)
+  const [rating, setRating] = useState(0)
+  const [comment, setComment] = useState("")
+  const [replies, setReplies] = useState<Record<string, string>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadReviews = useCallback(async () => {
+    try {
+      const result = await getBlinkReviews(slug)
+      setSummary(result.summary)
+      setReviews(result.reviews)
+    } catch (err) {
+      logger.error("Failed to load reviews:", err)
+    }
+  }, [slug])
+
+  useEffect(() => {
+    loadReviews()
+  }, [loadReviews])
+
+  const getAuthToken = async (): Promise<string> => {
+    if (authToken) return authToken
+    const { signWithBrowserWallet } = await import("@/lib/auth")
+    const { token } = await signInWithSolana(wallet!, signWithBrowserWallet)
+    setAuthToken(token)
+    return token
+  }
+
+  const handleSubmit = async () => {
+    if (!wallet || rating === 0) return
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      await submitBlinkReview(slug, { rating, comment: comment.trim() || undefined }, await getAuthToken())
+      setRating(0)
+      setComment("")
+      await loadReviews()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit review")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReply = async (reviewId: string) => {
+    setError(null)
+    try {
+      const updated = await replyToBlinkReview(slug, reviewId, (replies[reviewId] || "").trim(), await getAuthToken())
+      setReviews((current) => current.map((review) => (review.id === updated.id ? updated : review)))
+      setReplies((current) => ({ ...current, [reviewId]: "" }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reply to review")
+    }
+  }
+
+  const ownReview = reviews.find((review) => review.reviewer_wallet === wallet)
+
+  return (
+    <div className="mb-12">
+      <h3 className="text-xl font-mono text-neon-white mb-6">Reviews</h3>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        {/* Summary */}
+        <div className="p-6 bg-neon-dark border border-neon-grey/20 rounded-lg space-y-4">
+          {summary && summary.count > 0 ? (
+            <>
+              <div className="font-mono">
+                <span className="text-4xl text-neon-white">{summary.average?.toFixed(1)}</span>
+                <span className="text-neon-grey ml-2">/ 5</span>
+              </div>
+              <div className="text-sm font-mono">
+                <Stars rating={summary.average || 0} />
+                <span className="text-neon-grey ml-2">
+                  {summary.count} {summary.count === 1 ? "review" : "reviews"}
+                </span>
+              </div>
+              <div className="space-y-1">
+                {[5, 4, 3, 2, 1].map((stars) => (
+                  <div key={stars} className="flex items-center gap-2 text-xs font-mono text-neon-grey">
+                    <span className="w-3">{stars}</span>
+                    <div className="flex-1 h-2 bg-neon-black rounded">
+                      <div
+                        className="h-2 bg-neon-blue-light rounded"
+                        style={{ width: `${(summary.distribution[stars - 1] / summary.count) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-6 text-right">{summary.distribution[stars - 1]}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-neon-grey font-mono text-sm">No reviews yet.</p>
+          )}
+
+          {/* Write a review */}
+          {reviewable && !isCreator && (
+            <div className="pt-4 border-t border-neon-grey/20 space-y-3">
+              {!authenticated || !wallet ? (
+                <Button onClick={login} variant="outline" className="w-full font-mono text-sm">
+                  Connect wallet to review
+                </Button>
+              ) : (
+                <>
+                  <div className="text-xs font-mono text-neon-grey">
+                    {ownReview ? "Update your review" : "Rate this Blink (after you've run it)"}
+                  </div>
+                  <div className="flex gap-1">
+                    {[1, 2, 3, 4, 5].map((stars) => (
+                      <button
+                        key={stars}
+                        onClick={() => setRating(stars)}
+                        className={`text-2xl ${stars <= rating ? "text-neon-blue-light" : "text-neon-grey/40"}`}
+                        aria-label={`${stars} stars`}
+                      >
+                        ★
+                      </button>
+                    ))}
+                  </div>
+                  <textarea
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="What worked, what didn't? (optional)"
+                    rows={3}
+                    maxLength={2000}
+                    className="w-full px-3 py-2 bg-neon-black border border-neon-blue-dark/40 rounded text-neon-white font-mono text-sm focus:outline-none focus:border-neon-blue-light resize-none"
+                  />
+                  <Button
+                    onClick={handleSubmit}
+                    disabled={isSaving || rating === 0}
+                    className="w-full bg-neon-blue-light hover:bg-neon-blue-dark text-neon-black font-mono font-bold"
+                  >
+                    {isSaving ? "Submitting..." : "Submit Review"}
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {error && <div className="text-red-500 font-mono text-xs">{error}</div>}
+        </div>
+
+        {/* Reviews */}
+        <div className="md:col-span-2 space-y-4">
+          {reviews.map((review) => (
+            <div key={review.id} className="p-6 bg-neon-dark border border-neon-grey/20 rounded-lg space-y-2">
+              <div className="flex items-center justify-between gap-3 text-sm font-mono">
+                <Stars rating={review.rating} />
+                <span className="text-neon-grey text-xs">
+                  {review.reviewer_wallet.slice(0, 4)}…{review.reviewer_wallet.slice(-4)}
+                  {" · "}
+                  {new Date(review.updated_at).toLocaleDateString()}
+                </span>
+              </div>
+              {review.comment && (
+                <p className="text-neon-white font-mono text-sm leading-relaxed whitespace-pre-line">{review.comment}</p>
+              )}
+
+              {review.creator_reply && (
+                <div className="ml-4 pl-4 border-l-2 border-neon-blue-dark/40 text-sm font-mono">
+                  <div className="text-neon-blue-light text-xs mb-1">Creator reply</div>
+                  <p className="text-neon-grey whitespace-pre-line">{review.creator_reply}</p>
+                </div>
+              )}
+
+              {isCreator && (
+                <div className="flex gap-2 pt-2">
+                  <input
+                    value={replies[review.id] || ""}
+                    onChange={(e) => setReplies((current) => ({ ...current, [review.id]: e.target.value }))}
+                    placeholder={review.creator_reply ? "Edit reply (leave empty to remove)" : "Reply to this review"}
+                    maxLength={2000}
+                    className="flex-1 px-3 py-2 bg-neon-black border border-neon-blue-dark/40 rounded text-neon-white font-mono text-xs focus:outline-none focus:border-neon-blue-light"
+                  />
+                  <Button onClick={() => handleReply(review.id)} variant="outline" className="font-mono text-xs">
+                    {review.creator_reply ? "Update" : "Reply"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,8 @@ import { useState, useCallback } from 'react'
 import Image from 'next/image'
 import { cn } from '@/lib/utils'
 import { logger } from '@/lib/logger'
+import { signInWithSolana } from '@/lib/api'
+import { signWithBrowserWallet } from '@/lib/auth'
 
 interface GalleryUploadZoneProps {
   wallet: string
@@ -15,6 +17,7 @@ export function GalleryUploadZone({ wallet, onUploadSuccess }: GalleryUploadZone
   const [isUploading, setIsUploading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [uploadProgress, setUploadProgress] = useState(0)
+  const [sessionToken, setSessionToken] = useState<string | null>(null)
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -42,15 +45,22 @@ export function GalleryUploadZone({ wallet, onUploadSuccess }: GalleryUploadZone
     setUploadProgress(0)
 
     try {
+      // Uploads need a signed-in session for the gallery's wallet (signed once per visit)
+      let token = sessionToken
+      if (!token) {
+        token = (await signInWithSolana(wallet, signWithBrowserWallet)).token
+        setSessionToken(token)
+      }
+
       const formData = new FormData()
       formData.append('file', file)
 
       const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/gallery/upload?wallet=${wallet}&uploaderWallet=${wallet}`,
+        `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/gallery/upload?wallet=${wallet}`,
         {
           method: 'POST',
           headers: {
-            'x-uploader-wallet': wallet
+            'Authorization': `Bearer ${token}`
           },
           body: formData,
         }
@@ -58,7 +68,10 @@ export function GalleryUploadZone({ wallet, onUploadSuccess }: GalleryUploadZone
 
       if (!response.ok) {
         const data = await response.json()
-        throw new Error(data.error || 'Upload failed')
+        if (response.status === 401) {
+          setSessionToken(null)
+        }
+        throw new Error(data.details || data.error || 'Upload failed')
       }
 
       setUploadProgress(100)
@@ -84,7 +97,7 @@ export function GalleryUploadZone({ wallet, onUploadSuccess }: GalleryUploadZone
         await uploadFile(files[0])
       }
     },
-    [wallet, onUploadSuccess]
+    [wallet, onUploadSuccess, sessionToken]
   )
 
   const handleFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
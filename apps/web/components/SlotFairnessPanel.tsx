@@ -0,0 +1,255 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { cn } from "@/lib/utils"
+import { logger } from "@/lib/logger"
+import type { SlotSeedPair, RevealedSlotSeedPair, SlotSpinVerification } from "@blink402/types"
+
+interface SlotFairnessPanelProps {
+  wallet: string | null
+  // Bump to refresh after a spin (nonce and history change)
+  refreshKey?: string | number | null
+}
+
+function VerificationBadge({ verified }: { verified: boolean | null }) {
+  if (verified === null) {
+    return <span className="text-[--neon-grey]">⏳ seed not revealed</span>
+  }
+  return verified
+    ? <span className="text-green-400">✓ verified</span>
+    : <span className="text-red-400">✗ mismatch</span>
+}
+
+/**
+ * Provably fair controls for the slot machine
+ * Shows the committed server seed hash, lets the player set their client seed
+ * (rotating the pair reveals the old server seed) and replays past spins.
+ */
+export function SlotFairnessPanel({ wallet, refreshKey }: SlotFairnessPanelProps) {
+  const [seedPair, setSeedPair] = useState<SlotSeedPair | null>(null)
+  const [revealed, setRevealed] = useState<RevealedSlotSeedPair | null>(null)
+  const [spins, setSpins] = useState<SlotSpinVerification[]>([])
+  const [clientSeedInput, setClientSeedInput] = useState("")
+  const [isRotating, setIsRotating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [lookupReference, setLookupReference] = useState("")
+  const [lookupResult, setLookupResult] = useState<(SlotSpinVerification & { message?: string }) | null>(null)
+
+  const loadFairnessData = useCallback(async () => {
+    if (!wallet) return
+    try {
+      const [seedsRes, spinsRes] = await Promise.all([
+        fetch(`/api/slots/seeds?wallet=${wallet}`),
+        fetch(`/api/slots/spins?wallet=${wallet}&limit=10`),
+      ])
+      const seedsData = await seedsRes.json()
+      const spinsData = await spinsRes.json()
+      if (seedsData.success) setSeedPair(seedsData.seedPair)
+      if (spinsData.success) setSpins(spinsData.spins)
+    } catch (err) {
+      logger.error('Failed to load provably fair data:', err)
+    }
+  }, [wallet])
+
+  useEffect(() => {
+    loadFairnessData()
+  }, [loadFairnessData, refreshKey])
+
+  const handleRotate = async () => {
+    if (!wallet) return
+    setIsRotating(true)
+    setError(null)
+
+    try {
+      const { generateAuthMessage, createAuthToken, encodeAuthToken } = await import('@/lib/auth')
+      const { message } = generateAuthMessage(wallet)
+
+      // @ts-ignore
+      const solana = window.solana || window.phantom?.solana
+      if (!solana || !solana.isConnected) {
+        throw new Error('Connect a Solana wallet to rotate your seeds.')
+      }
+
+      const signResult = await solana.signMessage(new TextEncoder().encode(message), 'utf8')
+      const bs58 = await import('bs58')
+      const authToken = encodeAuthToken(createAuthToken(wallet, bs58.default.encode(signResult.signature), message))
+
+      const res = await fetch('/api/slots/seeds/rotate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: JSON.stringify(clientSeedInput ? { clientSeed: clientSeedInput } : {}),
+      })
+      const data = await res.json()
+      if (!res.ok || !data.success) {
+        throw new Error(data.details || data.error || 'Failed to rotate seeds')
+      }
+
+      setSeedPair(data.seedPair)
+      setRevealed(data.revealed)
+      setClientSeedInput("")
+      await loadFairnessData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rotate seeds')
+    } finally {
+      setIsRotating(false)
+    }
+  }
+
+  const handleLookup = async () => {
+    if (!lookupReference) return
+    setError(null)
+    setLookupResult(null)
+
+    try {
+      const res = await fetch(`/api/slots/verify?reference=${encodeURIComponent(lookupReference.trim())}`)
+      const data = await res.json()
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Spin not found')
+      }
+      setLookupResult(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify spin')
+    }
+  }
+
+  return (
+    <div
+      className={cn(
+        "relative rounded-lg p-6 space-y-6",
+        "border-2 border-dashed border-[--neon-blue-light]",
+        "bg-[--neon-dark]"
+      )}
+    >
+      {/* Active seed pair */}
+      <div className="space-y-2 text-xs font-mono">
+        <div className="font-sans text-sm text-[--neon-white]">Active Seed Pair</div>
+        {!wallet ? (
+          <div className="text-[--neon-grey]">Connect your wallet to see your seeds before you play.</div>
+        ) : seedPair ? (
+          <>
+            <div>
+              <span className="text-[--neon-grey]">Server Seed Hash:</span>{" "}
+              <span className="text-[--neon-blue-light] break-all">{seedPair.serverSeedHash}</span>
+            </div>
+            <div>
+              <span className="text-[--neon-grey]">Client Seed:</span>{" "}
+              <span className="text-[--neon-blue-light] break-all">{seedPair.clientSeed}</span>
+            </div>
+            <div>
+              <span className="text-[--neon-grey]">Next Nonce:</span>{" "}
+              <span className="text-[--neon-blue-light]">{seedPair.nextNonce}</span>
+            </div>
+          </>
+        ) : (
+          <div className="text-[--neon-grey]">Loading...</div>
+        )}
+      </div>
+
+      {/* Rotate / set client seed */}
+      {wallet && (
+        <div className="space-y-2">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              value={clientSeedInput}
+              onChange={(e) => setClientSeedInput(e.target.value)}
+              placeholder="New client seed (optional)"
+              maxLength={64}
+              className="flex-1 px-3 py-2 rounded-lg bg-[--neon-black] border border-dashed border-[--neon-grey] font-mono text-xs text-[--neon-white]"
+            />
+            <button
+              onClick={handleRotate}
+              disabled={isRotating}
+              className="px-4 py-2 rounded-lg border border-dashed border-[--neon-blue-light] font-mono text-xs text-[--neon-white] hover:bg-[--neon-blue-light] hover:text-[--neon-black] disabled:opacity-50"
+            >
+              {isRotating ? 'Rotating...' : 'Rotate Seeds'}
+            </button>
+          </div>
+          <div className="font-sans text-xs text-[--neon-grey]">
+            Rotating reveals your current server seed so every spin made with it can be verified.
+          </div>
+        </div>
+      )}
+
+      {revealed && (
+        <div className="p-3 rounded-lg border border-dashed border-green-500/60 bg-[--neon-black] text-xs font-mono space-y-1">
+          <div className="font-sans text-green-400">Revealed previous seed pair</div>
+          <div>
+            <span className="text-[--neon-grey]">Server Seed:</span>{" "}
+            <span className="text-[--neon-blue-light] break-all">{revealed.serverSeed}</span>
+          </div>
+          <div>
+            <span className="text-[--neon-grey]">Spins played:</span>{" "}
+            <span className="text-[--neon-blue-light]">{revealed.nextNonce}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Recent spins */}
+      {spins.length > 0 && (
+        <div className="space-y-2">
+          <div className="font-sans text-sm text-[--neon-white]">Recent Spins</div>
+          {spins.map((spin) => (
+            <div
+              key={spin.reference}
+              className="grid grid-cols-4 gap-2 p-2 rounded-lg border border-dashed border-[--neon-grey]/50 bg-[--neon-black] text-xs font-mono"
+            >
+              <div className="text-base">{spin.reels.join('')}</div>
+              <div className="text-[--neon-grey]">nonce {spin.nonce}</div>
+              <div className="text-[--neon-white]">{spin.payout} USDC</div>
+              <div className="text-right"><VerificationBadge verified={spin.verified} /></div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Verify any spin by reference */}
+      <div className="space-y-2">
+        <div className="font-sans text-sm text-[--neon-white]">Verify a Spin</div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            value={lookupReference}
+            onChange={(e) => setLookupReference(e.target.value)}
+            placeholder="Payment reference"
+            className="flex-1 px-3 py-2 rounded-lg bg-[--neon-black] border border-dashed border-[--neon-grey] font-mono text-xs text-[--neon-white]"
+          />
+          <button
+            onClick={handleLookup}
+            className="px-4 py-2 rounded-lg border border-dashed border-[--neon-blue-light] font-mono text-xs text-[--neon-white] hover:bg-[--neon-blue-light] hover:text-[--neon-black]"
+          >
+            Verify
+          </button>
+        </div>
+        {lookupResult && (
+          <div className="p-3 rounded-lg border border-dashed border-[--neon-grey] bg-[--neon-black] text-xs font-mono space-y-1">
+            <div><VerificationBadge verified={lookupResult.verified} /></div>
+            <div>
+              <span className="text-[--neon-grey]">Reels:</span> {lookupResult.reels.join(' ')}
+              {lookupResult.replayedReels && (
+                <> <span className="text-[--neon-grey]">→ replayed:</span> {lookupResult.replayedReels.join(' ')}</>
+              )}
+            </div>
+            <div className="break-all">
+              <span className="text-[--neon-grey]">Server Seed:</span> {lookupResult.serverSeed || 'not revealed yet'}
+            </div>
+            <div className="break-all">
+              <span className="text-[--neon-grey]">Server Seed Hash:</span> {lookupResult.serverSeedHash}
+            </div>
+            <div>
+              <span className="text-[--neon-grey]">Client Seed / Nonce:</span> {lookupResult.clientSeed} / {lookupResult.nonce}
+            </div>
+            {lookupResult.message && (
+              <div className="font-sans pt-1 text-[--neon-grey]">{lookupResult.message}</div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="font-sans text-xs text-red-400">{error}</div>
+      )}
+    </div>
+  )
+}
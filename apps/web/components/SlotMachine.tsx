@@ -294,7 +294,7 @@ export function SlotMachine({ onSpin, onPlayAgain, disabled = false }: SlotMachi
                 <span className="text-[--neon-blue-light]">{lastResult.nonce}</span>
               </div>
               <div className="font-sans mt-2 pt-2 border-t border-[--neon-grey] text-[--neon-grey]">
-                Use these values to independently verify this spin was fair and not manipulated.
+                The server seed behind this hash was committed before you paid. Rotate your seeds below to reveal it and verify this spin.
               </div>
             </div>
           </details>
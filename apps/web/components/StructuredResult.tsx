@@ -0,0 +1,87 @@
+"use client"
+
+import type { ResponseOutputSchema } from '@blink402/types'
+
+interface StructuredResultProps {
+  data: unknown
+  schema: ResponseOutputSchema
+  label?: string
+}
+
+/**
+ * Renders a blink result using the creator's declared output schema
+ * (titles, descriptions and format hints) instead of raw JSON.
+ */
+export default function StructuredResult({ data, schema, label }: StructuredResultProps) {
+  if (data === null || data === undefined) {
+    return <span className="font-mono text-sm text-neon-grey">—</span>
+  }
+
+  if (schema.type === 'object' && typeof data === 'object' && !Array.isArray(data)) {
+    const properties = schema.properties || {}
+    const keys = Object.keys(properties).length > 0 ? Object.keys(properties) : Object.keys(data as object)
+
+    return (
+      <dl className="grid gap-3 w-full">
+        {keys.map((key) => {
+          const propertySchema = properties[key] || { type: 'string' as const }
+          return (
+            <div key={key} className="p-3 bg-neon-black/40 rounded border border-neon-grey/20">
+              <dt className="font-mono text-xs text-neon-grey mb-1">{propertySchema.title || key}</dt>
+              {propertySchema.description && (
+                <p className="font-mono text-[10px] text-neon-grey/70 mb-1">{propertySchema.description}</p>
+              )}
+              <dd>
+                <StructuredResult data={(data as Record<string, unknown>)[key]} schema={propertySchema} label={propertySchema.title || key} />
+              </dd>
+            </div>
+          )
+        })}
+      </dl>
+    )
+  }
+
+  if (schema.type === 'array' && Array.isArray(data)) {
+    const itemSchema = schema.items || { type: 'string' as const }
+    return (
+      <ol className="grid gap-2 w-full list-decimal list-inside">
+        {data.map((item, index) => (
+          <li key={index} className="font-mono text-sm text-neon-white">
+            <StructuredResult data={item} schema={itemSchema} label={label} />
+          </li>
+        ))}
+      </ol>
+    )
+  }
+
+  if (typeof data === 'object') {
+    // Output drifted from the declared schema - fall back to JSON
+    return (
+      <pre className="font-mono text-xs text-neon-blue-light overflow-x-auto">{JSON.stringify(data, null, 2)}</pre>
+    )
+  }
+
+  const text = String(data)
+
+  if (schema.format === 'image' && /^(https?:|data:image\/)/.test(text)) {
+    return <img src={text} alt={label || 'Result image'} className="max-w-full rounded-lg border border-neon-grey/20" />
+  }
+  if (schema.format === 'url' && /^https?:/.test(text)) {
+    return (
+      <a href={text} target="_blank" rel="noopener noreferrer" className="font-mono text-sm text-neon-blue-light underline break-all">
+        {text}
+      </a>
+    )
+  }
+  if (schema.format === 'date-time' && !isNaN(Date.parse(text))) {
+    return <span className="font-mono text-sm text-neon-white">{new Date(text).toLocaleString()}</span>
+  }
+  if (schema.format === 'markdown') {
+    return <p className="font-mono text-sm text-neon-white whitespace-pre-wrap">{text}</p>
+  }
+  if (typeof data === 'boolean') {
+    return <span className="font-mono text-sm text-neon-white">{data ? 'Yes' : 'No'}</span>
+  }
+
+  return <span className="font-mono text-sm text-neon-white break-all">{text}</span>
+}
@@ -0,0 +1,289 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { CreatorWebhook, WebhookDelivery, WebhookEventType } from "@blink402/types"
+import {
+  getWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  replayWebhookDelivery,
+} from "@/lib/api"
+import { logger } from "@/lib/logger"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+
+const EVENT_OPTIONS: { value: WebhookEventType; label: string }[] = [
+  { value: "run.paid", label: "Run paid" },
+  { value: "run.executed", label: "Run executed" },
+  { value: "run.failed", label: "Run failed" },
+  { value: "reward.claimed", label: "Reward claimed" },
+  { value: "lottery.payout_completed", label: "Lottery payout sent" },
+  { value: "lottery.payout_failed", label: "Lottery payout failed" },
+  { value: "pass.purchased", label: "Access pass bought" },
+  { value: "pass.expiring", label: "Subscription expiring" },
+]
+
+const STATUS_STYLES: Record<WebhookDelivery["status"], string> = {
+  delivered: "text-neon-blue-light",
+  failed: "text-red-500",
+  queued: "text-yellow-400",
+  pending: "text-neon-grey",
+}
+
+interface WebhooksPanelProps {
+  // Dashboard auth token (Bearer) - the panel stays empty until it's available
+  authToken: string | null
+}
+
+/**
+ * Creator webhook settings for the dashboard
+ * Register endpoints, see each delivery attempt and replay past deliveries.
+ */
+export function WebhooksPanel({ authToken }: WebhooksPanelProps) {
+  const [webhooks, setWebhooks] = useState<CreatorWebhook[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [url, setUrl] = useState("")
+  const [description, setDescription] = useState("")
+  const [events, setEvents] = useState<WebhookEventType[]>(["run.executed", "run.failed"])
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadWebhooks = useCallback(async () => {
+    if (!authToken) return
+    try {
+      setWebhooks(await getWebhooks(authToken))
+    } catch (err) {
+      logger.error("Failed to load webhooks:", err)
+      setError(err instanceof Error ? err.message : "Failed to load webhooks")
+    }
+  }, [authToken])
+
+  const loadDeliveries = useCallback(async (webhookId: string) => {
+    if (!authToken) return
+    try {
+      setDeliveries(await getWebhookDeliveries(webhookId, authToken))
+    } catch (err) {
+      logger.error("Failed to load webhook deliveries:", err)
+      setError(err instanceof Error ? err.message : "Failed to load deliveries")
+    }
+  }, [authToken])
+
+  useEffect(() => {
+    loadWebhooks()
+  }, [loadWebhooks])
+
+  useEffect(() => {
+    if (selectedId) loadDeliveries(selectedId)
+  }, [selectedId, loadDeliveries])
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setEvents((current) =>
+      current.includes(event) ? current.filter((e) => e !== event) : [...current, event]
+    )
+  }
+
+  const handleCreate = async () => {
+    if (!authToken) return
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const { webhook, secret } = await createWebhook(
+        { url: url.trim(), description: description.trim() || undefined, events },
+        authToken
+      )
+      setNewSecret(secret)
+      setUrl("")
+      setDescription("")
+      setWebhooks((current) => [webhook, ...current])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create webhook")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (webhook: CreatorWebhook) => {
+    if (!authToken) return
+    setError(null)
+    try {
+      const updated = await updateWebhook(webhook.id, { is_active: !webhook.is_active }, authToken)
+      setWebhooks((current) => current.map((w) => (w.id === updated.id ? updated : w)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update webhook")
+    }
+  }
+
+  const handleDelete = async (webhookId: string) => {
+    if (!authToken) return
+    setError(null)
+    try {
+      await deleteWebhook(webhookId, authToken)
+      setWebhooks((current) => current.filter((w) => w.id !== webhookId))
+      if (selectedId === webhookId) {
+        setSelectedId(null)
+        setDeliveries([])
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete webhook")
+    }
+  }
+
+  const handleReplay = async (deliveryId: string) => {
+    if (!authToken || !selectedId) return
+    setError(null)
+    try {
+      await replayWebhookDelivery(deliveryId, authToken)
+      await loadDeliveries(selectedId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to replay delivery")
+    }
+  }
+
+  return (
+    <Card className="bg-neon-dark border-neon-blue-dark/20 p-6 space-y-6">
+      {/* New webhook */}
+      <div className="space-y-3">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/webhooks/blink402"
+            className="flex-1 bg-neon-black border-neon-blue-dark/30 text-neon-white font-mono"
+          />
+          <Input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            maxLength={200}
+            className="sm:w-64 bg-neon-black border-neon-blue-dark/30 text-neon-white font-mono"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {EVENT_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => toggleEvent(option.value)}
+              className={`px-3 py-1 rounded font-mono text-xs border ${
+                events.includes(option.value)
+                  ? "border-neon-blue-light text-neon-blue-light"
+                  : "border-neon-blue-dark/30 text-neon-grey"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <Button
+          onClick={handleCreate}
+          disabled={!authToken || isSaving || !url || events.length === 0}
+          className="btn-primary btn-ripple"
+        >
+          {isSaving ? "Adding..." : "Add Webhook"}
+        </Button>
+      </div>
+
+      {newSecret && (
+        <div className="p-4 rounded border border-dashed border-neon-blue-light/60 bg-neon-black font-mono text-xs space-y-2">
+          <div className="text-neon-white">Signing secret - copy it now, it won't be shown again:</div>
+          <div className="text-neon-blue-light break-all">{newSecret}</div>
+          <div className="text-neon-grey">
+            Each request carries an X-Blink402-Signature header (t=timestamp,v1=signature). Verify it by
+            computing HMAC-SHA256 of &quot;timestamp.raw_body&quot; with this secret.
+          </div>
+          <button onClick={() => setNewSecret(null)} className="text-neon-grey underline">Dismiss</button>
+        </div>
+      )}
+
+      {/* Registered webhooks */}
+      {webhooks.length > 0 ? (
+        <div className="space-y-3">
+          {webhooks.map((webhook) => (
+            <div
+              key={webhook.id}
+              className="flex flex-col md:flex-row md:items-center justify-between gap-3 pb-3 border-b border-neon-blue-dark/10 last:border-0"
+            >
+              <div className="min-w-0">
+                <div className="text-neon-white font-mono text-sm break-all">{webhook.url}</div>
+                <div className="text-neon-grey font-mono text-xs mt-1">
+                  {webhook.description ? `${webhook.description} · ` : ""}
+                  {webhook.events.join(", ")}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Badge className={webhook.is_active ? "bg-neon-blue-light/20 text-neon-blue-light" : "bg-neon-grey/20 text-neon-grey"}>
+                  {webhook.is_active ? "active" : "disabled"}
+                </Badge>
+                <Button onClick={() => setSelectedId(webhook.id)} className="btn-ghost btn-ripple text-xs">
+                  Deliveries
+                </Button>
+                <Button onClick={() => handleToggleActive(webhook)} className="btn-ghost btn-ripple text-xs">
+                  {webhook.is_active ? "Disable" : "Enable"}
+                </Button>
+                <Button onClick={() => handleDelete(webhook.id)} className="btn-ghost btn-ripple text-xs text-red-500">
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-neon-grey font-mono text-sm">
+          No webhooks yet. Add one to get notified when your Blinks are paid, run or fail.
+        </p>
+      )}
+
+      {/* Delivery log */}
+      {selectedId && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="text-neon-white font-mono text-sm">Recent Deliveries</div>
+            <button onClick={() => loadDeliveries(selectedId)} className="text-neon-grey font-mono text-xs underline">
+              Refresh
+            </button>
+          </div>
+          {deliveries.length === 0 ? (
+            <p className="text-neon-grey font-mono text-xs">No deliveries yet.</p>
+          ) : (
+            deliveries.map((delivery) => (
+              <div
+                key={delivery.id}
+                className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center p-2 rounded border border-neon-blue-dark/20 bg-neon-black font-mono text-xs"
+              >
+                <div className="text-neon-white">{delivery.event_type}</div>
+                <div className={STATUS_STYLES[delivery.status]}>
+                  {delivery.status}
+                  {delivery.last_status_code ? ` (${delivery.last_status_code})` : ""}
+                </div>
+                <div className="text-neon-grey">
+                  {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                  {delivery.replay_of ? " · replay" : ""}
+                </div>
+                <div className="text-neon-grey">{new Date(delivery.created_at).toLocaleString()}</div>
+                <div className="text-right">
+                  <button
+                    onClick={() => handleReplay(delivery.id)}
+                    className="text-neon-blue-light underline"
+                  >
+                    Replay
+                  </button>
+                </div>
+                {delivery.last_error && (
+                  <div className="col-span-2 md:col-span-5 text-red-500 break-all">{delivery.last_error}</div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {error && <div className="text-red-500 font-mono text-xs">{error}</div>}
+    </Card>
+  )
+}
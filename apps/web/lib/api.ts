@@ -2,6 +2,21 @@
 // Now using real Next.js API routes with in-memory storage
 
 import type { BlinkData, DashboardData } from './types'
+import type {
+  AnalyticsBucket,
+  ApiKeyScope,
+  AuthSession,
+  BlinkRatingSummary,
+  BlinkReportStatus,
+  BlinkReview,
+  CreatorAnalytics,
+  CreatorApiKey,
+  CreatorWebhook,
+  ModerationAction,
+  ModerationReport,
+  WebhookDelivery,
+  WebhookEventType,
+} from '@blink402/types'
 import { logger } from './logger'
 import { retryFetch } from './retry'
 
@@ -97,6 +112,32 @@ export async function getDashboardData(wallet: string, authToken?: string): Prom
   return result.data
 }
 
+/**
+ * Fetch per-blink time series and the checkout funnel for the authenticated wallet
+ */
+export async function getDashboardAnalytics(
+  wallet: string,
+  authToken: string,
+  params: { from?: string; to?: string; bucket?: AnalyticsBucket; blink?: string } = {}
+): Promise<CreatorAnalytics> {
+  const query = new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] => !!entry[1])
+  ).toString()
+
+  const response = await retryFetch(
+    `${API_BASE_URL}/dashboard/${encodeURIComponent(wallet)}/analytics${query ? `?${query}` : ''}`,
+    { headers: { 'Authorization': `Bearer ${authToken}` } },
+    API_RETRY_OPTIONS
+  )
+  const result = await response.json()
+
+  if (!result.success) {
+    throw new Error(result.details || result.error || 'Failed to fetch analytics')
+  }
+
+  return result.data
+}
+
 /**
  * Create a new blink (requires authentication)
  */
@@ -345,3 +386,347 @@ export async function updateCreatorProfile(
 
   return result.data
 }
+
+// ========== CREATOR WEBHOOKS ==========
+
+/**
+ * Call a creator webhook endpoint (requires authentication)
+ */
+async function webhookRequest(path: string, authToken: string, init: RequestInit = {}): Promise<any> {
+  const response = await retryFetch(
+    `${API_BASE_URL}/api/creator/webhooks${path}`,
+    {
+      ...init,
+      headers: {
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        'Authorization': `Bearer ${authToken}`,
+      },
+    },
+    API_RETRY_OPTIONS
+  )
+
+  const result = await response.json()
+
+  if (!result.success) {
+    throw new Error(result.details || result.error || 'Webhook request failed')
+  }
+
+  return result
+}
+
+/**
+ * List the creator's webhooks
+ */
+export async function getWebhooks(authToken: string): Promise<CreatorWebhook[]> {
+  const result = await webhookRequest('', authToken)
+  return result.webhooks
+}
+
+/**
+ * Create a webhook - the signing secret is only returned by this call
+ */
+export async function createWebhook(
+  data: { url: string; description?: string; events: WebhookEventType[] },
+  authToken: string
+): Promise<{ webhook: CreatorWebhook; secret: string }> {
+  const result = await webhookRequest('', authToken, { method: 'POST', body: JSON.stringify(data) })
+  return { webhook: result.webhook, secret: result.secret }
+}
+
+/**
+ * Update a webhook (URL, events, description, or enable/disable)
+ */
+export async function updateWebhook(
+  id: string,
+  data: { url?: string; description?: string | null; events?: WebhookEventType[]; is_active?: boolean },
+  authToken: string
+): Promise<CreatorWebhook> {
+  const result = await webhookRequest(`/${id}`, authToken, { method: 'PUT', body: JSON.stringify(data) })
+  return result.webhook
+}
+
+/**
+ * Delete a webhook and its delivery log
+ */
+export async function deleteWebhook(id: string, authToken: string): Promise<void> {
+  await webhookRequest(`/${id}`, authToken, { method: 'DELETE' })
+}
+
+/**
+ * Recent deliveries for a webhook, newest first
+ */
+export async function getWebhookDeliveries(id: string, authToken: string): Promise<WebhookDelivery[]> {
+  const result = await webhookRequest(`/${id}/deliveries`, authToken)
+  return result.deliveries
+}
+
+/**
+ * Queue a past delivery to be sent again
+ */
+export async function replayWebhookDelivery(deliveryId: string, authToken: string): Promise<WebhookDelivery> {
+  const result = await webhookRequest(`/deliveries/${deliveryId}/replay`, authToken, { method: 'POST' })
+  return result.delivery
+}
+
+// ========== SIGN-IN & API KEYS ==========
+
+/**
+ * Sign in with a Solana wallet and open a server-side session
+ * Not retried: each sign-in message can only be used once.
+ * @param signMessage - Signs the message with the wallet and returns the base58 signature
+ * @returns Session token to send as `Authorization: Bearer <token>`
+ */
+export async function signInWithSolana(
+  wallet: string,
+  signMessage: (message: string) => Promise<string>
+): Promise<{ token: string; session: AuthSession }> {
+  const nonceResponse = await fetch(`${API_BASE_URL}/api/auth/siws/nonce`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ wallet }),
+  })
+  const challenge = await nonceResponse.json()
+  if (!challenge.success) {
+    throw new Error(challenge.details || challenge.error || 'Failed to start sign-in')
+  }
+
+  const signature = await signMessage(challenge.message)
+
+  const verifyResponse = await fetch(`${API_BASE_URL}/api/auth/siws/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ wallet, message: challenge.message, signature }),
+  })
+  const result = await verifyResponse.json()
+  if (!result.success) {
+    throw new Error(result.details || result.error || 'Sign-in failed')
+  }
+
+  return { token: result.token, session: result.session }
+}
+
+/**
+ * Revoke the session the token belongs to
+ */
+export async function signOut(authToken: string): Promise<void> {
+  await fetch(`${API_BASE_URL}/api/auth/logout`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${authToken}` },
+  })
+}
+
+/**
+ * Call the creator API key endpoints (throws with the API's error details on failure)
+ */
+async function apiKeyRequest(path: string, authToken: string, init: RequestInit = {}): Promise<any> {
+  const response = await retryFetch(
+    `${API_BASE_URL}/api/creator/api-keys${path}`,
+    {
+      ...init,
+      headers: {
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        'Authorization': `Bearer ${authToken}`,
+      },
+    },
+    API_RETRY_OPTIONS
+  )
+
+  const result = await response.json()
+
+  if (!result.success) {
+    throw new Error(result.details || result.error || 'API key request failed')
+  }
+
+  return result
+}
+
+/**
+ * List the creator's API keys (revoked keys included)
+ */
+export async function getApiKeys(authToken: string): Promise<CreatorApiKey[]> {
+  const result = await apiKeyRequest('', authToken)
+  return result.api_keys
+}
+
+/**
+ * Issue an API key - the key itself is only returned by this call
+ */
+export async function createApiKey(
+  data: { name: string; scopes: ApiKeyScope[] },
+  authToken: string
+): Promise<{ apiKey: CreatorApiKey; key: string }> {
+  const result = await apiKeyRequest('', authToken, { method: 'POST', body: JSON.stringify(data) })
+  return { apiKey: result.api_key, key: result.key }
+}
+
+/**
+ * Replace an API key with a new one - the old key stops working
+ */
+export async function rotateApiKey(id: string, authToken: string): Promise<{ apiKey: CreatorApiKey; key: string }> {
+  const result = await apiKeyRequest(`/${id}/rotate`, authToken, { method: 'POST' })
+  return { apiKey: result.api_key, key: result.key }
+}
+
+/**
+ * Revoke an API key
+ */
+export async function revokeApiKey(id: string, authToken: string): Promise<void> {
+  await apiKeyRequest(`/${id}`, authToken, { method: 'DELETE' })
+}
+
+// ========== RATINGS & REVIEWS ==========
+
+/**
+ * Call the reviews API (writes need a session token; throws with the API's error details)
+ */
+async function reviewRequest(path: string, init: RequestInit = {}, authToken?: string): Promise<any> {
+  const response = await retryFetch(
+    `${API_BASE_URL}/api/reviews${path}`,
+    {
+      ...init,
+      headers: {
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...(authToken ? { 'Authorization': `Bearer ${authToken}` } : {}),
+      },
+    },
+    API_RETRY_OPTIONS
+  )
+
+  const result = await response.json()
+
+  if (!result.success) {
+    throw new Error(result.details || result.error || 'Review request failed')
+  }
+
+  return result
+}
+
+/**
+ * Rating summary and the newest reviews of a blink
+ */
+export async function getBlinkReviews(
+  slug: string,
+  limit: number = 20
+): Promise<{ summary: BlinkRatingSummary; reviews: BlinkReview[] }> {
+  const result = await reviewRequest(`/${slug}?limit=${limit}`)
+  return { summary: result.summary, reviews: result.reviews }
+}
+
+/**
+ * Rate and review a blink (the wallet needs an executed run of it; replaces its earlier review)
+ */
+export async function submitBlinkReview(
+  slug: string,
+  data: { rating: number; comment?: string },
+  authToken: string
+): Promise<BlinkReview> {
+  const result = await reviewRequest(`/${slug}`, { method: 'POST', body: JSON.stringify(data) }, authToken)
+  return result.review
+}
+
+/**
+ * Reply to a review of your blink (an empty reply removes it)
+ */
+export async function replyToBlinkReview(
+  slug: string,
+  reviewId: string,
+  reply: string,
+  authToken: string
+): Promise<BlinkReview> {
+  const result = await reviewRequest(`/${slug}/${reviewId}/reply`, { method: 'PUT', body: JSON.stringify({ reply }) }, authToken)
+  return result.review
+}
+
+// ========== MODERATION (ADMIN) ==========
+
+export interface ModeratorCredentials {
+  adminKey: string
+  actor: string // Moderator name recorded in the audit log
+}
+
+/**
+ * Call the moderation API (admin key required; not retried so actions run once)
+ */
+async function moderationRequest(path: string, credentials: ModeratorCredentials, init: RequestInit = {}): Promise<any> {
+  const response = await fetch(`${API_BASE_URL}/admin/moderation${path}`, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      'X-Admin-Key': credentials.adminKey,
+      'X-Admin-Actor': credentials.actor,
+    },
+  })
+
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.message || result.error || 'Moderation request failed')
+  }
+
+  return result
+}
+
+/**
+ * Moderation queue with report counts per status
+ */
+export async function getModerationReports(
+  status: BlinkReportStatus | 'all',
+  credentials: ModeratorCredentials
+): Promise<{ counts: Record<BlinkReportStatus, number>; reports: ModerationReport[] }> {
+  return moderationRequest(`/reports?status=${status}`, credentials)
+}
+
+/**
+ * Triage a report: pick it up (reviewing), resolve it or dismiss it
+ */
+export async function updateModerationReport(
+  id: string,
+  status: Exclude<BlinkReportStatus, 'pending'>,
+  notes: string,
+  credentials: ModeratorCredentials
+): Promise<void> {
+  await moderationRequest(`/reports/${id}/${status}`, credentials, {
+    method: 'POST',
+    body: JSON.stringify({ notes }),
+  })
+}
+
+/**
+ * Unpublish (hold), release the hold, suspend or unsuspend a blink
+ */
+export async function moderateBlink(
+  blinkId: string,
+  action: 'unpublish' | 'release-hold' | 'suspend' | 'unsuspend',
+  text: string,
+  credentials: ModeratorCredentials
+): Promise<void> {
+  await moderationRequest(`/blinks/${blinkId}/${action}`, credentials, {
+    method: 'POST',
+    body: JSON.stringify(action === 'suspend' ? { reason: text } : { notes: text }),
+  })
+}
+
+/**
+ * Suspend or unsuspend a creator (and their blinks)
+ * @returns Number of blinks suspended or restored
+ */
+export async function moderateCreator(
+  wallet: string,
+  action: 'suspend' | 'unsuspend',
+  text: string,
+  credentials: ModeratorCredentials
+): Promise<number> {
+  const result = await moderationRequest(`/creators/${wallet}/${action}`, credentials, {
+    method: 'POST',
+    body: JSON.stringify(action === 'suspend' ? { reason: text } : { notes: text }),
+  })
+  return result.affected_blinks ?? 0
+}
+
+/**
+ * Moderation audit log, newest first
+ */
+export async function getModerationActions(credentials: ModeratorCredentials): Promise<ModerationAction[]> {
+  const result = await moderationRequest('/actions', credentials)
+  return result.actions
+}
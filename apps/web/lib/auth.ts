@@ -102,6 +102,33 @@ export function verifyAuthToken(token: AuthToken): { valid: boolean; wallet?: st
   return { valid: true, wallet: token.wallet }
 }
 
+/**
+ * Sign a message with the browser's Solana wallet (Phantom, Solflare)
+ * @returns Base58 signature
+ */
+export async function signWithBrowserWallet(message: string): Promise<string> {
+  // @ts-ignore
+  const solana = window.solana || window.phantom?.solana
+
+  if (!solana) {
+    throw new Error('No Solana wallet found. Please install Phantom or Solflare and connect it.')
+  }
+
+  if (!solana.isConnected) {
+    throw new Error('Wallet not connected. Please connect your wallet in the navigation bar.')
+  }
+
+  try {
+    const signResult = await solana.signMessage(new TextEncoder().encode(message), 'utf8')
+    return bs58.encode(signResult.signature)
+  } catch (signError: any) {
+    if (signError.message?.includes('rejected') || signError.message?.includes('denied')) {
+      throw new Error('Signature rejected by user')
+    }
+    throw new Error(`Failed to sign message: ${signError.message}`)
+  }
+}
+
 /**
  * Generate a random nonce for the auth message
  */
@@ -1,4 +1,5 @@
 // Shared type definitions for Blink402
+import type { BlinkAccessPassConfig, BlinkPricingRules, BlinkRevenueSplits, RevenueShare } from '@blink402/types'
 
 export interface BlinkData {
   id: string
@@ -13,8 +14,11 @@ export interface BlinkData {
   runs: number
   status: "active" | "paused" | "archived"
   payment_token: 'SOL' | 'USDC' // Required field
+  blockchain?: 'solana' | 'base' // Chain payments settle on (defaults to solana)
   payment_mode: 'charge' | 'reward' // charge: user pays | reward: creator pays user
   payout_wallet: string // Wallet that receives payments (can differ from creator)
+  refund_policy?: 'full' | 'partial' | 'none' // Refund behaviour when the upstream API fails after payment
+  refund_percent?: number // Percent refunded under a partial policy (0-100)
   creator_id: string // Creator ID from database
   creator: {
     wallet: string
@@ -33,6 +37,12 @@ export interface BlinkData {
     max?: number
     options?: Array<{ label: string; value: string }>
   }> // Dynamic parameters for input fields
+  access_pass?: BlinkAccessPassConfig // Time-boxed pass sold next to per-call payments
+  pricing_rules?: BlinkPricingRules // Per-run price rules (the quote is locked when the run is created)
+  revenue_splits?: BlinkRevenueSplits // Shares of every payment paid out to other wallets
+  payment_wallet?: string // Wallet payments go to when it differs from payout_wallet (revenue splits)
+  rating_avg?: number // Average review rating (unset until the first review)
+  rating_count?: number // Reviews from verified payers
 }
 
 export interface DashboardData {
@@ -43,6 +53,7 @@ export interface DashboardData {
   avgPrice: string
   blinks: DashboardBlink[]
   recentActivity: Activity[]
+  revenueShares?: RevenueShare[] // Shares of revenue split blinks paid to this wallet
 }
 
 export interface DashboardBlink extends BlinkData {
@@ -69,7 +80,7 @@ export interface SpinResult {
   win: boolean
   multiplier: number
   betAmount: string
-  serverSeed: string
+  seedPairId: string
   serverSeedHash: string
   clientSeed: string
   nonce: string
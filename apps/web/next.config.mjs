@@ -71,6 +71,11 @@ const nextConfig = {
         source: '/api/actions/submit/:reference',
         destination: `${apiUrl}/api/actions/submit/:reference`,
       },
+      // Chained follow-up actions (result status, share/results links)
+      {
+        source: '/api/actions/submit/:reference/:path*',
+        destination: `${apiUrl}/api/actions/submit/:reference/:path*`,
+      },
       // Payment proxy route
       {
         source: '/bazaar/:slug',
@@ -89,6 +94,10 @@ const nextConfig = {
         source: '/dashboard',
         destination: `${apiUrl}/dashboard`,
       },
+      {
+        source: '/dashboard/:wallet/analytics',
+        destination: `${apiUrl}/dashboard/:wallet/analytics`,
+      },
       {
         source: '/profiles/:path*',
         destination: `${apiUrl}/profiles/:path*`,
@@ -111,6 +120,31 @@ const nextConfig = {
         source: '/api/slots/:path*',
         destination: `${apiUrl}/api/slots/:path*`,
       },
+      // Creator webhook management
+      {
+        source: '/api/creator/webhooks/:path*',
+        destination: `${apiUrl}/api/creator/webhooks/:path*`,
+      },
+      // Sign-In-With-Solana sessions (app/api/auth/message is served by Next itself)
+      {
+        source: '/api/auth/:path*',
+        destination: `${apiUrl}/api/auth/:path*`,
+      },
+      // Creator API key management
+      {
+        source: '/api/creator/api-keys/:path*',
+        destination: `${apiUrl}/api/creator/api-keys/:path*`,
+      },
+      // Blink ratings and reviews
+      {
+        source: '/api/reviews/:path*',
+        destination: `${apiUrl}/api/reviews/:path*`,
+      },
+      // Moderation console API (the console page itself is /admin/moderation)
+      {
+        source: '/admin/moderation/:path+',
+        destination: `${apiUrl}/admin/moderation/:path+`,
+      },
     ]
   },
   webpack: (config, { isServer }) => {
@@ -0,0 +1,75 @@
+-- Migration: Refund policies and refund retry queue
+-- Date: 2026-10-19
+-- Description: Per-blink refund policy (full/partial/none) for failed upstream calls,
+--              plus retry bookkeeping so failed refund transfers are retried with backoff.
+--
+-- Rollback:
+--   ALTER TABLE blinks DROP CONSTRAINT IF EXISTS blinks_refund_policy_check;
+--   ALTER TABLE blinks DROP CONSTRAINT IF EXISTS blinks_refund_percent_check;
+--   ALTER TABLE blinks DROP COLUMN IF EXISTS refund_policy, DROP COLUMN IF EXISTS refund_percent;
+--   DROP INDEX IF EXISTS idx_refunds_run_id_unique;
+--   DROP INDEX IF EXISTS idx_refunds_retry_due;
+--   ALTER TABLE refunds DROP COLUMN IF EXISTS payer_wallet, DROP COLUMN IF EXISTS payment_token,
+--     DROP COLUMN IF EXISTS attempts, DROP COLUMN IF EXISTS next_retry_at, DROP COLUMN IF EXISTS last_error;
+
+BEGIN;
+
+-- Refunds/debts tables (already present in production, created here for fresh databases)
+CREATE TABLE IF NOT EXISTS refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  amount_usdc NUMERIC(20, 6) NOT NULL,
+  refund_signature VARCHAR(88),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'issued', 'failed')),
+  reason TEXT,
+  creator_debt_id UUID,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS creator_debts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_id UUID NOT NULL REFERENCES creators(id) ON DELETE CASCADE,
+  blink_id UUID NOT NULL REFERENCES blinks(id) ON DELETE CASCADE,
+  refund_id UUID NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+  amount_usdc NUMERIC(20, 6) NOT NULL,
+  settled BOOLEAN NOT NULL DEFAULT false,
+  settled_at TIMESTAMP,
+  settlement_notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Per-blink refund policy
+ALTER TABLE blinks
+  ADD COLUMN IF NOT EXISTS refund_policy VARCHAR(20) DEFAULT 'full',
+  ADD COLUMN IF NOT EXISTS refund_percent INTEGER DEFAULT 100;
+
+ALTER TABLE blinks DROP CONSTRAINT IF EXISTS blinks_refund_policy_check;
+ALTER TABLE blinks
+  ADD CONSTRAINT blinks_refund_policy_check
+  CHECK (refund_policy IN ('full', 'partial', 'none'));
+
+ALTER TABLE blinks DROP CONSTRAINT IF EXISTS blinks_refund_percent_check;
+ALTER TABLE blinks
+  ADD CONSTRAINT blinks_refund_percent_check
+  CHECK (refund_percent BETWEEN 0 AND 100);
+
+-- Retry bookkeeping on refunds
+ALTER TABLE refunds
+  ADD COLUMN IF NOT EXISTS payer_wallet VARCHAR(44),
+  ADD COLUMN IF NOT EXISTS payment_token VARCHAR(10) DEFAULT 'USDC',
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+-- One refund per run (prevents double refunds from concurrent failures)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_run_id_unique ON refunds(run_id);
+
+-- Retry worker lookup
+CREATE INDEX IF NOT EXISTS idx_refunds_retry_due ON refunds(next_retry_at) WHERE status = 'failed';
+
+COMMENT ON COLUMN blinks.refund_policy IS 'Refund issued when the upstream call fails after payment: full, partial (refund_percent), or none';
+COMMENT ON COLUMN blinks.refund_percent IS 'Percentage of the paid amount refunded under the partial policy';
+COMMENT ON COLUMN refunds.next_retry_at IS 'When the retry worker should attempt the refund transfer again (NULL = no further retries)';
+
+COMMIT;
@@ -0,0 +1,28 @@
+-- Migration: Encrypted upstream credentials per blink
+-- Date: 2026-10-19
+-- Description: Lets creators attach an API key, bearer token, basic auth or query-string key
+--              to a blink. The secret is AES-256-GCM encrypted (ENCRYPTION_KEY) and only
+--              decrypted by the proxy when calling the upstream API. Kept in its own table so
+--              blink queries (GET /blinks/:slug, fork, catalog) can never select it.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS blink_credentials;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS blink_credentials (
+  blink_id UUID PRIMARY KEY REFERENCES blinks(id) ON DELETE CASCADE,
+  auth_type VARCHAR(20) NOT NULL
+    CHECK (auth_type IN ('api_key_header', 'bearer', 'basic', 'api_key_query')),
+  key_name VARCHAR(100), -- Header or query parameter name (not secret)
+  encrypted_secret TEXT NOT NULL,
+  masked_secret VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE blink_credentials IS 'Upstream API credentials per blink - injected by the proxy only, never returned by public endpoints';
+COMMENT ON COLUMN blink_credentials.encrypted_secret IS 'AES-256-GCM encrypted JSON ({value} or {username, password}), base64';
+COMMENT ON COLUMN blink_credentials.masked_secret IS 'Display-safe mask of the secret for the owner dashboard';
+
+COMMIT;
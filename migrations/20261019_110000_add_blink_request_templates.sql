@@ -0,0 +1,17 @@
+-- Migration: Per-blink upstream request templates
+-- Date: 2026-10-19
+-- Description: Optional JSON template mapping blink parameters into the upstream request
+--              (path segments, query string, headers, JSON/form body) with defaults and
+--              type coercion. NULL keeps the legacy behaviour ({key} placeholders from
+--              _urlParams and the request body forwarded as-is).
+--
+-- Rollback:
+--   ALTER TABLE blinks DROP COLUMN IF EXISTS request_template;
+
+BEGIN;
+
+ALTER TABLE blinks ADD COLUMN IF NOT EXISTS request_template JSONB;
+
+COMMENT ON COLUMN blinks.request_template IS 'Upstream request mapping: {fields: [{param, in, name, type, default, required}], body_format, static_query, static_headers, static_body}';
+
+COMMIT;
@@ -0,0 +1,27 @@
+-- Migration: Binary run artifacts
+-- Date: 2026-10-19
+-- Description: Binary upstream responses (images, audio, video, PDFs) are stored on disk per run
+--              instead of being decoded as text. Payers download them through signed, expiring
+--              URLs from the results page. Rows (and files) are pruned after ARTIFACT_RETENTION_DAYS.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS run_artifacts;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS run_artifacts (
+  id UUID PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  content_type VARCHAR(255) NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes >= 0),
+  sha256 CHAR(64) NOT NULL,
+  storage_path TEXT NOT NULL, -- Relative to ARTIFACTS_DIR
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_run_artifacts_run_id ON run_artifacts(run_id);
+CREATE INDEX IF NOT EXISTS idx_run_artifacts_created_at ON run_artifacts(created_at);
+
+COMMENT ON TABLE run_artifacts IS 'Binary upstream responses per run, served via signed download URLs';
+
+COMMIT;
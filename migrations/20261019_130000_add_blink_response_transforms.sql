@@ -0,0 +1,16 @@
+-- Migration: Per-blink response transforms
+-- Date: 2026-10-19
+-- Description: Optional JSON config applied to upstream JSON before it is stored on the run
+--              and returned to the payer: JSONPath extraction, field renaming, redaction of
+--              sensitive keys and a declared output schema (results view + MCP clients).
+--
+-- Rollback:
+--   ALTER TABLE blinks DROP COLUMN IF EXISTS response_transform;
+
+BEGIN;
+
+ALTER TABLE blinks ADD COLUMN IF NOT EXISTS response_transform JSONB;
+
+COMMENT ON COLUMN blinks.response_transform IS 'Response shaping: {extract, fields: [{path, as}], redact: [keys], output_schema}';
+
+COMMIT;
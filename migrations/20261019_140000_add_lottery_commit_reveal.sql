@@ -0,0 +1,41 @@
+-- Migration: Commit-reveal lottery draws
+-- Date: 2026-10-19
+-- Description: Each lottery round commits to sha256(server_seed) when it opens. After the round
+--              closes, the first finalized Solana block at or after entropy_target_slot supplies
+--              external entropy, and the draw seed is sha256(server_seed || ':' || blockhash).
+--              The server seed is kept encrypted until the draw and revealed afterwards so anyone
+--              can recompute the winners from the round's entries.
+--
+-- Rollback:
+--   ALTER TABLE lottery_rounds
+--     DROP COLUMN IF EXISTS server_seed_hash,
+--     DROP COLUMN IF EXISTS server_seed_encrypted,
+--     DROP COLUMN IF EXISTS server_seed,
+--     DROP COLUMN IF EXISTS entropy_target_slot,
+--     DROP COLUMN IF EXISTS entropy_slot,
+--     DROP COLUMN IF EXISTS entropy_blockhash;
+--   DROP INDEX IF EXISTS idx_lottery_rounds_awaiting_draw;
+
+BEGIN;
+
+ALTER TABLE lottery_rounds
+  ADD COLUMN IF NOT EXISTS server_seed_hash CHAR(64),
+  ADD COLUMN IF NOT EXISTS server_seed_encrypted TEXT,
+  ADD COLUMN IF NOT EXISTS server_seed CHAR(64),
+  ADD COLUMN IF NOT EXISTS entropy_target_slot BIGINT,
+  ADD COLUMN IF NOT EXISTS entropy_slot BIGINT,
+  ADD COLUMN IF NOT EXISTS entropy_blockhash VARCHAR(88);
+
+-- Closed rounds still waiting for their entropy block
+CREATE INDEX IF NOT EXISTS idx_lottery_rounds_awaiting_draw
+  ON lottery_rounds(entropy_target_slot)
+  WHERE status = 'closed' AND winners_selected_at IS NULL;
+
+COMMENT ON COLUMN lottery_rounds.server_seed_hash IS 'sha256 of the server seed, published when the round opens';
+COMMENT ON COLUMN lottery_rounds.server_seed_encrypted IS 'Server seed encrypted with ENCRYPTION_KEY until the draw (cleared on reveal)';
+COMMENT ON COLUMN lottery_rounds.server_seed IS 'Server seed revealed after winners are drawn';
+COMMENT ON COLUMN lottery_rounds.entropy_target_slot IS 'Solana slot fixed at close; the first finalized block at or after it provides entropy';
+COMMENT ON COLUMN lottery_rounds.entropy_slot IS 'Slot of the block whose hash was mixed into the draw seed';
+COMMENT ON COLUMN lottery_rounds.entropy_blockhash IS 'Blockhash mixed into the draw seed';
+
+COMMIT;
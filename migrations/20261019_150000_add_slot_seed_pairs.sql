@@ -0,0 +1,49 @@
+-- Migration: Pre-committed slot machine seed pairs
+-- Date: 2026-10-19
+-- Description: Each wallet plays against an active seed pair. The server seed hash is issued
+--              before any bet, the player chooses the client seed, and every spin uses the
+--              next nonce. Rotating the pair reveals the old server seed so every spin made
+--              with it can be replayed through /api/slots/verify.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS slot_spins;
+--   DROP TABLE IF EXISTS slot_seed_pairs;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS slot_seed_pairs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet VARCHAR(44) NOT NULL,
+  server_seed_hash CHAR(64) NOT NULL,
+  server_seed_encrypted TEXT, -- Encrypted with ENCRYPTION_KEY while active, cleared on reveal
+  server_seed CHAR(64), -- Revealed when the pair is rotated
+  client_seed VARCHAR(64) NOT NULL,
+  next_nonce INTEGER NOT NULL DEFAULT 0 CHECK (next_nonce >= 0),
+  status VARCHAR(10) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revealed')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  revealed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One active pair per wallet
+CREATE UNIQUE INDEX IF NOT EXISTS idx_slot_seed_pairs_active_wallet
+  ON slot_seed_pairs(wallet) WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS slot_spins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL UNIQUE REFERENCES runs(id) ON DELETE CASCADE,
+  seed_pair_id UUID NOT NULL REFERENCES slot_seed_pairs(id),
+  wallet VARCHAR(44) NOT NULL,
+  nonce INTEGER NOT NULL,
+  reels TEXT[] NOT NULL,
+  payout_usdc NUMERIC(20, 6) NOT NULL DEFAULT 0,
+  multiplier NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (seed_pair_id, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_slot_spins_wallet_created ON slot_spins(wallet, created_at DESC);
+
+COMMENT ON TABLE slot_seed_pairs IS 'Provably fair seed pairs per wallet (server seed committed before play)';
+COMMENT ON TABLE slot_spins IS 'Slot spins with the seed pair and nonce used, for later verification';
+
+COMMIT;
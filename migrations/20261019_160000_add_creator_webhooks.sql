@@ -0,0 +1,53 @@
+-- Migration: Creator webhooks
+-- Date: 2026-10-19
+-- Description: Creators register HTTPS endpoints for run lifecycle, reward claim and lottery payout
+--              events. Every event produces one delivery row per subscribed webhook; the API's
+--              webhook dispatcher sends it with an HMAC signature and retries with exponential
+--              backoff through a Redis queue. Delivery rows double as the dashboard's delivery log.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS webhook_deliveries;
+--   DROP TABLE IF EXISTS creator_webhooks;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS creator_webhooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_id UUID NOT NULL REFERENCES creators(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description VARCHAR(200),
+  events TEXT[] NOT NULL,
+  secret_encrypted TEXT NOT NULL, -- Signing secret encrypted with ENCRYPTION_KEY
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_creator_webhooks_creator ON creator_webhooks(creator_id) WHERE is_active = true;
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID NOT NULL REFERENCES creator_webhooks(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL, -- Shared by every delivery of the same event (and its replays)
+  event_type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'queued', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_status_code INTEGER,
+  last_error TEXT,
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  replay_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_created ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries(status, next_attempt_at)
+  WHERE status IN ('pending', 'queued');
+
+COMMENT ON TABLE creator_webhooks IS 'Creator-configured endpoints notified of run, reward and lottery events';
+COMMENT ON TABLE webhook_deliveries IS 'Webhook delivery log (one row per event per webhook, plus replays)';
+
+COMMIT;
@@ -0,0 +1,40 @@
+-- Migration: Pipeline blinks
+-- Date: 2026-10-19
+-- Description: A pipeline blink calls other blinks of the same creator in order, mapping each
+--              step's output into the next step's parameters, for one combined price. Its
+--              endpoint_url is a "pipeline:<slug>,<slug>" marker and is never called.
+--              Every step of a paid run is recorded in pipeline_step_runs; a retry of the
+--              parent run resumes from the first step that didn't complete.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS pipeline_step_runs;
+--   ALTER TABLE blinks DROP COLUMN IF EXISTS pipeline;
+
+BEGIN;
+
+ALTER TABLE blinks ADD COLUMN IF NOT EXISTS pipeline JSONB;
+
+COMMENT ON COLUMN blinks.pipeline IS 'Pipeline steps: {steps: [{slug, inputs: [{param, from, value}]}]}';
+
+CREATE TABLE IF NOT EXISTS pipeline_step_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_run_id UUID NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  step_index INTEGER NOT NULL,
+  blink_id UUID NOT NULL REFERENCES blinks(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'executed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  inputs JSONB,
+  output JSONB,
+  error TEXT,
+  duration_ms INTEGER,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (parent_run_id, step_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_step_runs_blink ON pipeline_step_runs(blink_id, started_at DESC);
+
+COMMENT ON TABLE pipeline_step_runs IS 'Sub-runs of pipeline blink runs (one row per step, updated on retry)';
+
+COMMIT;
@@ -0,0 +1,45 @@
+-- Migration: Durable background jobs
+-- Date: 2026-10-19
+-- Description: Shared job table for the API's background workers so several API replicas can run
+--              side by side. Replicas claim due jobs with FOR UPDATE SKIP LOCKED and hold a lease
+--              (locked_until) that they extend while the job runs; a job whose lease expires is
+--              picked up again by another replica. Failed jobs retry with exponential backoff and
+--              move to 'dead' after max_attempts (the dead-letter queue, inspectable via
+--              GET /admin/jobs). Recurring worker ticks reuse one row per job name.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS background_jobs;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS background_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  dedupe_key VARCHAR(200) NOT NULL DEFAULT gen_random_uuid()::text,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  recurring_interval_ms INTEGER, -- Set for recurring jobs: the row is rescheduled after each run
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_by VARCHAR(200),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  last_started_at TIMESTAMP WITH TIME ZONE,
+  last_completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- At most one live job per (name, dedupe_key); dead and completed rows are kept for inspection
+CREATE UNIQUE INDEX IF NOT EXISTS idx_background_jobs_live_key
+  ON background_jobs(name, dedupe_key) WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_background_jobs_due ON background_jobs(run_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_background_jobs_lease ON background_jobs(locked_until) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_background_jobs_status ON background_jobs(status, updated_at DESC);
+
+COMMENT ON TABLE background_jobs IS 'Durable job queue for API background workers (leased with SKIP LOCKED, dead-lettered after max_attempts)';
+
+COMMIT;
@@ -0,0 +1,100 @@
+-- Migration: Stored Solana Actions metadata
+-- Date: 2026-10-19
+-- Description: GET /api/actions/:slug builds its unfurl (buttons, price presets, parameters,
+--              disabled state, icon) from blinks.actions_config instead of hard-coded slug
+--              branches. Blinks without a config get one button with all their parameters
+--              (lottery blinks: one "Buy Entry" button). The buttons the API used to hard-code
+--              for the platform's own blinks are copied into their config below.
+--
+-- Rollback:
+--   ALTER TABLE blinks DROP COLUMN IF EXISTS actions_config;
+
+BEGIN;
+
+ALTER TABLE blinks ADD COLUMN IF NOT EXISTS actions_config JSONB;
+
+COMMENT ON COLUMN blinks.actions_config IS 'Solana Actions metadata: {label, icon_url, buttons: [{label, amount, parameters}], disabled, error}';
+
+UPDATE blinks SET actions_config = '{
+  "buttons": [{
+    "label": "Analyze Wallet",
+    "parameters": [{
+      "name": "wallet",
+      "label": "Enter Solana wallet address",
+      "type": "text",
+      "required": true,
+      "pattern": "^[1-9A-HJ-NP-Za-km-z]{32,44}$",
+      "patternDescription": "Please enter a valid Solana address"
+    }]
+  }]
+}'::jsonb
+WHERE slug IN ('wallet-tracker', 'wallet-snapshot', 'wallet-analyzer')
+  AND actions_config IS NULL
+  AND (parameters IS NULL OR jsonb_array_length(parameters) = 0);
+
+UPDATE blinks SET actions_config = '{
+  "buttons": [{
+    "label": "Generate QR Code",
+    "parameters": [{ "name": "text", "label": "Enter text or URL for QR code", "type": "text", "required": true }]
+  }]
+}'::jsonb
+WHERE slug IN ('qr-code', 'qr-code-generator')
+  AND actions_config IS NULL
+  AND (parameters IS NULL OR jsonb_array_length(parameters) = 0);
+
+UPDATE blinks SET actions_config = jsonb_build_object('buttons', jsonb_build_array(jsonb_build_object(
+  'label', CASE WHEN slug = 'token-price' THEN 'Get Token Price' ELSE 'Get Token Data' END,
+  'parameters', '[{
+    "name": "tokenAddress",
+    "label": "Enter Solana token address",
+    "type": "text",
+    "required": true,
+    "pattern": "^[1-9A-HJ-NP-Za-km-z]{32,44}$",
+    "patternDescription": "Please enter a valid Solana token address"
+  }]'::jsonb
+)))
+WHERE slug IN ('token-price', 'dexscreener-token-data')
+  AND actions_config IS NULL
+  AND (parameters IS NULL OR jsonb_array_length(parameters) = 0);
+
+UPDATE blinks SET actions_config = '{
+  "icon_url": "https://blink402.dev/Buy-b402.png",
+  "buttons": [
+    { "label": "🪐 0.01 SOL → B402", "amount": "0.01" },
+    { "label": "🪐 0.1 SOL → B402", "amount": "0.1" },
+    { "label": "🪐 0.5 SOL → B402", "amount": "0.5" },
+    {
+      "label": "🪐 Custom Amount",
+      "parameters": [{ "name": "amount", "label": "Enter SOL amount to swap", "type": "number", "required": true, "min": 0.001, "max": 100 }]
+    }
+  ]
+}'::jsonb
+WHERE slug = 'buy-b402' AND actions_config IS NULL;
+
+UPDATE blinks SET actions_config = '{
+  "icon_url": "https://blink402.dev/Burn-b402.png",
+  "buttons": [
+    { "label": "🔥 0.01 SOL", "amount": "0.01" },
+    { "label": "🔥 0.1 SOL", "amount": "0.1" },
+    { "label": "🔥 1 SOL", "amount": "1" },
+    {
+      "label": "🔥 Burn B402",
+      "parameters": [{ "name": "amount", "label": "Enter SOL amount to burn", "type": "number", "required": true, "min": 0.001, "max": 100 }]
+    }
+  ]
+}'::jsonb
+WHERE slug = 'burn-b402' AND actions_config IS NULL;
+
+-- Lottery blinks keep their generated "Buy Entry (<price> USDC)" button, only the image is stored
+UPDATE blinks SET actions_config = '{"icon_url": "https://blink402.dev/LOTERRY.png"}'::jsonb
+WHERE lottery_enabled = true AND actions_config IS NULL;
+
+UPDATE blinks SET actions_config = jsonb_build_object(
+  'icon_url', 'https://blink402.dev/LOTERRY.png',
+  'buttons', jsonb_build_array(jsonb_build_object(
+    'label', '🎰 Buy Entry (' || (price_usdc::float8)::text || ' USDC)'
+  ))
+)
+WHERE slug LIKE '%lottery%' AND actions_config IS NULL;
+
+COMMIT;
@@ -0,0 +1,178 @@
+-- Migration: Double-entry payment ledger
+-- Date: 2026-10-19
+-- Description: Every money movement the platform knows about (settled payment, refund, reward,
+--              referral commission, lottery payout, lottery platform fee) is recorded as one
+--              ledger transaction with balanced debit/credit entries. Accounts are strings:
+--                wallet:<address>        external wallets (payers, reward/refund/prize recipients)
+--                creator:<creator_id>    what a creator has earned (payments in, refunds/rewards out)
+--                lottery_pool:<blink_id> entry fees held for a lottery blink
+--                platform:fees           platform share of lottery pools
+--                platform:treasury       platform-funded payouts (referral commissions)
+--              Creator dashboards, receipts and exports are derived from these tables, and the
+--              ledger.reconcile job compares each signed transaction with the on-chain transfer
+--              (reconciliation_status). Existing history is backfilled below.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS ledger_entries;
+--   DROP TABLE IF EXISTS ledger_transactions;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS ledger_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind VARCHAR(30) NOT NULL
+    CHECK (kind IN ('payment', 'refund', 'reward', 'referral_commission', 'lottery_payout', 'platform_fee')),
+  idempotency_key VARCHAR(200) NOT NULL UNIQUE, -- e.g. payment:<run_id>, refund:<refund_id>
+  token VARCHAR(10) NOT NULL CHECK (token IN ('SOL', 'USDC')),
+  amount NUMERIC(20, 9) NOT NULL CHECK (amount > 0),
+  blockchain VARCHAR(20) NOT NULL DEFAULT 'solana',
+  run_id UUID REFERENCES runs(id) ON DELETE SET NULL,
+  blink_id UUID REFERENCES blinks(id) ON DELETE SET NULL,
+  creator_id UUID REFERENCES creators(id) ON DELETE SET NULL,
+  signature VARCHAR(128), -- On-chain transaction that moved the funds (NULL when there is none)
+  from_wallet VARCHAR(64),
+  to_wallet VARCHAR(64),
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  reconciliation_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (reconciliation_status IN ('pending', 'matched', 'mismatch', 'missing', 'skipped')),
+  reconciliation_attempts INTEGER NOT NULL DEFAULT 0,
+  reconciliation_note TEXT,
+  reconciled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES ledger_transactions(id) ON DELETE CASCADE,
+  account VARCHAR(120) NOT NULL,
+  direction VARCHAR(6) NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount NUMERIC(20, 9) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_creator ON ledger_transactions(creator_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_run ON ledger_transactions(run_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_blink ON ledger_transactions(blink_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_reconciliation
+  ON ledger_transactions(reconciliation_status, created_at);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction ON ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account ON ledger_entries(account, created_at DESC);
+
+COMMENT ON TABLE ledger_transactions IS 'One row per money movement; balanced debit/credit rows live in ledger_entries';
+COMMENT ON TABLE ledger_entries IS 'Double-entry postings (debits equal credits for every ledger transaction)';
+
+-- ========== BACKFILL ==========
+
+CREATE TEMP TABLE ledger_backfill (
+  kind VARCHAR(30),
+  idempotency_key VARCHAR(200),
+  token VARCHAR(10),
+  amount NUMERIC(20, 9),
+  blockchain VARCHAR(20),
+  run_id UUID,
+  blink_id UUID,
+  creator_id UUID,
+  signature VARCHAR(128),
+  from_wallet VARCHAR(64),
+  to_wallet VARCHAR(64),
+  debit_account VARCHAR(120),
+  credit_account VARCHAR(120),
+  created_at TIMESTAMP WITH TIME ZONE
+) ON COMMIT DROP;
+
+-- Payments: x402/ONCHAIN Connect/Base settle in USDC, other runs in the blink's token
+-- (SOL runs and Actions presets may carry a custom amount in metadata)
+INSERT INTO ledger_backfill
+SELECT 'payment', 'payment:' || p.run_id, p.token,
+       CASE WHEN p.token = 'SOL' THEN COALESCE(p.amount_sol, p.price) ELSE COALESCE(p.amount_usdc, p.price) END,
+       p.blockchain, p.run_id, p.blink_id, p.creator_id, p.signature, p.payer, p.payout_wallet,
+       'wallet:' || COALESCE(p.payer, 'unknown'),
+       CASE WHEN p.lottery_enabled THEN 'lottery_pool:' || p.blink_id ELSE 'creator:' || p.creator_id END,
+       p.paid_at
+FROM (
+  SELECT r.id AS run_id, r.blink_id, b.creator_id, r.payer, b.payout_wallet, b.price_usdc AS price,
+         COALESCE(b.lottery_enabled, false) AS lottery_enabled,
+         COALESCE(r.blockchain, b.blockchain, 'solana') AS blockchain,
+         NULLIF(r.signature, 'pending') AS signature,
+         COALESCE(r.paid_at, r.created_at) AS paid_at,
+         (r.metadata->>'amountSol')::numeric AS amount_sol,
+         (r.metadata->>'amountUsdc')::numeric AS amount_usdc,
+         CASE WHEN r.metadata->>'flow' IN ('x402', 'onchain-connect', 'base-usdc') THEN 'USDC'
+              ELSE COALESCE(b.payment_token, 'USDC') END AS token
+  FROM runs r
+  JOIN blinks b ON b.id = r.blink_id
+  WHERE r.status IN ('paid', 'executed', 'failed')
+    AND COALESCE(r.metadata->>'flow', '') NOT IN ('reward', 'thank-you')
+) p;
+
+-- Refunds are sent by the platform and charged to the creator (creator_debts)
+INSERT INTO ledger_backfill
+SELECT 'refund', 'refund:' || rf.id, rf.payment_token, rf.amount_usdc, COALESCE(r.blockchain, 'solana'),
+       r.id, b.id, b.creator_id, rf.refund_signature, NULL, rf.payer_wallet,
+       'creator:' || b.creator_id, 'wallet:' || COALESCE(rf.payer_wallet, 'unknown'),
+       COALESCE(rf.processed_at, rf.created_at)
+FROM refunds rf
+JOIN runs r ON r.id = rf.run_id
+JOIN blinks b ON b.id = r.blink_id
+WHERE rf.status = 'issued';
+
+-- Rewards paid from the creator's funded wallet (tiered amounts were not stored, use the base amount)
+INSERT INTO ledger_backfill
+SELECT 'reward', 'reward:' || rc.id, COALESCE(b.payment_token, 'USDC'), b.reward_amount, COALESCE(b.blockchain, 'solana'),
+       NULL, b.id, b.creator_id, rc.signature, b.funded_wallet, rc.user_wallet,
+       'creator:' || b.creator_id, 'wallet:' || rc.user_wallet,
+       rc.claimed_at
+FROM reward_claims rc
+JOIN blinks b ON b.id = rc.blink_id
+WHERE b.reward_amount IS NOT NULL;
+
+INSERT INTO ledger_backfill
+SELECT 'referral_commission', 'referral_commission:' || cp.id, 'USDC', cp.amount_usdc, 'solana',
+       r.id, b.id, b.creator_id, cp.transaction_signature, NULL, cp.referrer_wallet,
+       'platform:treasury', 'wallet:' || cp.referrer_wallet,
+       cp.paid_at
+FROM commission_payouts cp
+JOIN runs r ON r.id = cp.run_id
+JOIN blinks b ON b.id = r.blink_id
+WHERE cp.status = 'completed';
+
+INSERT INTO ledger_backfill
+SELECT 'lottery_payout', 'lottery_payout:' || lw.id, 'USDC', lw.payout_amount_usdc, 'solana',
+       NULL, b.id, b.creator_id, lw.payout_tx_signature, NULL, lw.winner_wallet,
+       'lottery_pool:' || b.id, 'wallet:' || lw.winner_wallet,
+       COALESCE(lw.completed_at, lw.created_at)
+FROM lottery_winners lw
+JOIN lottery_rounds lr ON lr.id = lw.round_id
+JOIN blinks b ON b.id = lr.blink_id
+WHERE lw.payout_status = 'completed';
+
+-- 15% of each closed lottery pool goes to the platform (spent on the B402 buyback)
+INSERT INTO ledger_backfill
+SELECT 'platform_fee', 'platform_fee:' || lr.id, 'USDC', lr.total_entry_fee_usdc * 0.15, 'solana',
+       NULL, b.id, b.creator_id, NULLIF(lr.buyback_tx_signature, 'SKIPPED_TOO_SMALL'), NULL, NULL,
+       'lottery_pool:' || b.id, 'platform:fees',
+       COALESCE(lr.buyback_executed_at, lr.ended_at, lr.created_at)
+FROM lottery_rounds lr
+JOIN blinks b ON b.id = lr.blink_id
+WHERE lr.buyback_status = 'completed';
+
+INSERT INTO ledger_transactions (
+  kind, idempotency_key, token, amount, blockchain, run_id, blink_id, creator_id, signature,
+  from_wallet, to_wallet, metadata, reconciliation_status, created_at
+)
+SELECT kind, idempotency_key, token, amount, blockchain, run_id, blink_id, creator_id, signature,
+       from_wallet, to_wallet, '{"backfilled": true}'::jsonb,
+       CASE WHEN signature IS NULL OR blockchain <> 'solana' THEN 'skipped' ELSE 'pending' END,
+       created_at
+FROM ledger_backfill
+WHERE amount > 0
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+INSERT INTO ledger_entries (transaction_id, account, direction, amount, created_at)
+SELECT lt.id, e.account, e.direction, lt.amount, lt.created_at
+FROM ledger_backfill lb
+JOIN ledger_transactions lt ON lt.idempotency_key = lb.idempotency_key
+CROSS JOIN LATERAL (VALUES (lb.debit_account, 'debit'), (lb.credit_account, 'credit')) AS e(account, direction)
+WHERE NOT EXISTS (SELECT 1 FROM ledger_entries le WHERE le.transaction_id = lt.id);
+
+COMMIT;
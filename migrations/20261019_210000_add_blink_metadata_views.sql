@@ -0,0 +1,28 @@
+-- Migration: Creator analytics
+-- Date: 2026-10-19
+-- Description: GET /dashboard/:wallet/analytics returns per-blink time series and a checkout
+--              funnel (metadata view -> run created -> paid -> executed). Runs and the ledger
+--              already cover the later steps; this adds hourly counters of Solana Actions
+--              metadata requests (GET /api/actions/:slug) for the first one, plus indexes for
+--              the per-blink time-range queries.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS blink_metadata_views;
+--   DROP INDEX IF EXISTS idx_runs_blink_created_at;
+--   DROP INDEX IF EXISTS idx_runs_blink_payer;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS blink_metadata_views (
+  blink_id UUID NOT NULL REFERENCES blinks(id) ON DELETE CASCADE,
+  hour TIMESTAMP WITH TIME ZONE NOT NULL, -- date_trunc('hour') of the request time
+  views INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (blink_id, hour)
+);
+
+CREATE INDEX IF NOT EXISTS idx_runs_blink_created_at ON runs(blink_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_runs_blink_payer ON runs(blink_id, payer, paid_at) WHERE paid_at IS NOT NULL;
+
+COMMENT ON TABLE blink_metadata_views IS 'Hourly count of Solana Actions metadata requests per blink (top of the checkout funnel)';
+
+COMMIT;
@@ -0,0 +1,61 @@
+-- Migration: Prepaid credit balances
+-- Date: 2026-10-19
+-- Description: Wallets deposit USDC to the platform wallet once and later /bazaar/:slug calls are
+--              debited off-chain against a signed per-request authorization (X-Credit-Authorization).
+--              credit_accounts holds the balance and the wallet's spend caps; credit_transactions is
+--              the balance history (deposits, debits for runs, refunds of failed runs, withdrawals).
+--              The payment ledger gains credit_deposit / credit_withdrawal kinds, and credit-paid
+--              runs debit the credits:<wallet> account instead of wallet:<address>.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS credit_transactions;
+--   DROP TABLE IF EXISTS credit_accounts;
+--   ALTER TABLE ledger_transactions DROP CONSTRAINT IF EXISTS ledger_transactions_kind_check;
+--   ALTER TABLE ledger_transactions ADD CONSTRAINT ledger_transactions_kind_check
+--     CHECK (kind IN ('payment', 'refund', 'reward', 'referral_commission', 'lottery_payout', 'platform_fee'));
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS credit_accounts (
+  wallet VARCHAR(44) PRIMARY KEY,
+  balance NUMERIC(20, 6) NOT NULL DEFAULT 0 CHECK (balance >= 0), -- USDC
+  per_call_limit NUMERIC(20, 6) CHECK (per_call_limit IS NULL OR per_call_limit > 0), -- NULL = no cap
+  daily_limit NUMERIC(20, 6) CHECK (daily_limit IS NULL OR daily_limit > 0), -- Debits in any rolling 24 hours
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS credit_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet VARCHAR(44) NOT NULL REFERENCES credit_accounts(wallet) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('deposit', 'debit', 'refund', 'withdrawal')),
+  status VARCHAR(20) NOT NULL DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'failed')),
+  amount NUMERIC(20, 6) NOT NULL CHECK (amount > 0),
+  balance_after NUMERIC(20, 6) NOT NULL,
+  signature VARCHAR(128), -- Deposit or withdrawal transfer
+  run_id UUID REFERENCES runs(id) ON DELETE SET NULL,
+  refund_id UUID REFERENCES refunds(id) ON DELETE SET NULL,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A transfer can only be credited once, a run debited once and a refund returned once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_transactions_deposit_signature
+  ON credit_transactions(signature) WHERE kind = 'deposit';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_transactions_debit_run
+  ON credit_transactions(run_id) WHERE kind = 'debit';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_transactions_refund
+  ON credit_transactions(refund_id) WHERE kind = 'refund';
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_wallet_created
+  ON credit_transactions(wallet, created_at DESC);
+
+ALTER TABLE ledger_transactions DROP CONSTRAINT IF EXISTS ledger_transactions_kind_check;
+ALTER TABLE ledger_transactions ADD CONSTRAINT ledger_transactions_kind_check
+  CHECK (kind IN ('payment', 'refund', 'reward', 'referral_commission', 'lottery_payout', 'platform_fee',
+                  'credit_deposit', 'credit_withdrawal'));
+
+COMMENT ON TABLE credit_accounts IS 'Prepaid USDC balance per wallet, debited off-chain by signed /bazaar calls';
+COMMENT ON TABLE credit_transactions IS 'Credit balance history: deposits, run debits, refunds and withdrawals';
+
+COMMIT;
@@ -0,0 +1,62 @@
+-- Migration: Time-boxed access passes for any blink
+-- Date: 2026-10-19
+-- Description: A blink can sell a pass (blinks.access_pass) next to per-call payments, e.g.
+--              unlimited calls for 24 hours, 100 calls for 7 days or a monthly subscription.
+--              access_passes holds each pass a wallet bought (a renewal starts when the current
+--              pass ends); access_pass_uses records which pass covered which run, so a call is
+--              counted once and can be given back when the upstream call fails.
+--              runs.reference is widened for the pass-/credits- references, which are longer than
+--              a Solana Pay reference, and runs.payment_method accepts 'credits' and 'access_pass'.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS access_pass_uses;
+--   DROP TABLE IF EXISTS access_passes;
+--   ALTER TABLE blinks DROP COLUMN IF EXISTS access_pass;
+--   ALTER TABLE runs DROP CONSTRAINT IF EXISTS runs_payment_method_check;
+--   ALTER TABLE runs ADD CONSTRAINT runs_payment_method_check
+--     CHECK (payment_method IN ('solana_actions', 'x402'));
+
+BEGIN;
+
+ALTER TABLE blinks ADD COLUMN IF NOT EXISTS access_pass JSONB;
+
+ALTER TABLE runs ALTER COLUMN reference TYPE VARCHAR(128);
+
+ALTER TABLE runs DROP CONSTRAINT IF EXISTS runs_payment_method_check;
+ALTER TABLE runs ADD CONSTRAINT runs_payment_method_check
+  CHECK (payment_method IN ('solana_actions', 'x402', 'credits', 'access_pass'));
+
+CREATE TABLE IF NOT EXISTS access_passes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blink_id UUID NOT NULL REFERENCES blinks(id) ON DELETE CASCADE,
+  wallet VARCHAR(44) NOT NULL,
+  run_id UUID UNIQUE REFERENCES runs(id) ON DELETE SET NULL, -- Purchase run (one pass per payment)
+  price_usdc NUMERIC(20, 6) NOT NULL,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  call_limit INTEGER CHECK (call_limit IS NULL OR call_limit > 0), -- NULL = unlimited
+  calls_used INTEGER NOT NULL DEFAULT 0 CHECK (calls_used >= 0),
+  subscription BOOLEAN NOT NULL DEFAULT false,
+  renewal_reminder_sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (expires_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_passes_wallet_blink
+  ON access_passes(wallet, blink_id, expires_at DESC);
+CREATE INDEX IF NOT EXISTS idx_access_passes_subscription_expiry
+  ON access_passes(expires_at) WHERE subscription = true AND renewal_reminder_sent_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS access_pass_uses (
+  run_id UUID PRIMARY KEY REFERENCES runs(id) ON DELETE CASCADE,
+  pass_id UUID NOT NULL REFERENCES access_passes(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_pass_uses_pass ON access_pass_uses(pass_id);
+
+COMMENT ON COLUMN blinks.access_pass IS 'Pass sold for this blink: price_usdc, duration_hours, call_limit, subscription';
+COMMENT ON TABLE access_passes IS 'Time-boxed passes bought by wallets - calls within the window skip per-call payment';
+COMMENT ON TABLE access_pass_uses IS 'Run covered by each pass call (returned when the upstream call fails)';
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- Migration: Dynamic pricing rules per blink
+-- Date: 2026-10-19
+-- Description: blinks.pricing_rules holds optional pricing on top of price_usdc: a price per selected
+--              parameter option, tiers by input size, time-of-day and surge multipliers, and per-wallet
+--              volume discounts. Rules are evaluated when a run is created and the quote is locked into
+--              runs.metadata (quote, amountUsdc); payments are verified against that, not price_usdc.
+--              The indexes back the surge (recent paid runs) and volume (paid runs per wallet) counts.
+--
+-- Rollback:
+--   DROP INDEX IF EXISTS idx_runs_blink_payer_paid_at;
+--   DROP INDEX IF EXISTS idx_runs_blink_paid_at;
+--   ALTER TABLE blinks DROP COLUMN IF EXISTS pricing_rules;
+
+BEGIN;
+
+ALTER TABLE blinks ADD COLUMN IF NOT EXISTS pricing_rules JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_runs_blink_paid_at
+  ON runs(blink_id, paid_at) WHERE paid_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_runs_blink_payer_paid_at
+  ON runs(blink_id, payer, paid_at) WHERE paid_at IS NOT NULL;
+
+COMMENT ON COLUMN blinks.pricing_rules IS 'Dynamic pricing: options, input_size, time_of_day, surge, volume_discount';
+
+COMMIT;
@@ -0,0 +1,49 @@
+-- Migration: Creator coupon codes
+-- Date: 2026-10-19
+-- Description: Creators issue promo codes with a percent or fixed USDC discount, optionally scoped to
+--              some of their blinks, with a total and per-wallet redemption limit and an expiry.
+--              A coupon is applied when a run is created (after dynamic pricing) and recorded in
+--              runs.metadata.coupon; coupon_redemptions gets one row per paid run that used it,
+--              which backs the limits and the creator analytics.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS coupon_redemptions;
+--   DROP TABLE IF EXISTS coupons;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS coupons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_id UUID NOT NULL REFERENCES creators(id) ON DELETE CASCADE,
+  code VARCHAR(32) NOT NULL, -- Stored uppercase
+  discount_type VARCHAR(10) NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value NUMERIC(20, 6) NOT NULL CHECK (discount_value > 0),
+  blink_ids UUID[], -- NULL = all of the creator's blinks
+  max_redemptions INTEGER CHECK (max_redemptions IS NULL OR max_redemptions > 0),
+  max_per_wallet INTEGER CHECK (max_per_wallet IS NULL OR max_per_wallet > 0),
+  redemptions INTEGER NOT NULL DEFAULT 0 CHECK (redemptions >= 0),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coupons_creator_code ON coupons(creator_id, code);
+
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  run_id UUID PRIMARY KEY REFERENCES runs(id) ON DELETE CASCADE,
+  coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+  blink_id UUID NOT NULL REFERENCES blinks(id) ON DELETE CASCADE,
+  wallet VARCHAR(44) NOT NULL,
+  discount_usdc NUMERIC(20, 6) NOT NULL,
+  price_usdc NUMERIC(20, 6) NOT NULL, -- Price paid after the discount
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_wallet ON coupon_redemptions(coupon_id, wallet);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_created ON coupon_redemptions(coupon_id, created_at);
+
+COMMENT ON TABLE coupons IS 'Creator promo codes: percent or fixed USDC discount with limits, scope and expiry';
+COMMENT ON TABLE coupon_redemptions IS 'Paid runs that used a coupon (one row per run)';
+
+COMMIT;
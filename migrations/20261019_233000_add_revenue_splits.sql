@@ -0,0 +1,53 @@
+-- Migration: Revenue splits across payout wallets
+-- Date: 2026-10-19
+-- Description: blinks.revenue_splits lists wallets that get a share (basis points) of every payment,
+--              plus an optional platform fee; the payout_wallet gets the remainder. Payments for these
+--              blinks go to the platform settlement wallet (recorded in runs.metadata.settlementWallet)
+--              and revenue_split_payouts gets one row per leg when the run is paid. The payout worker
+--              sends each leg once the run has executed and cancels the legs of failed runs.
+--              The payment ledger gains a revenue_split kind (revenue_split:<blink_id> -> recipient).
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS revenue_split_payouts;
+--   ALTER TABLE blinks DROP COLUMN IF EXISTS revenue_splits;
+--   ALTER TABLE ledger_transactions DROP CONSTRAINT IF EXISTS ledger_transactions_kind_check;
+--   ALTER TABLE ledger_transactions ADD CONSTRAINT ledger_transactions_kind_check
+--     CHECK (kind IN ('payment', 'refund', 'reward', 'referral_commission', 'lottery_payout', 'platform_fee',
+--                     'credit_deposit', 'credit_withdrawal'));
+
+BEGIN;
+
+ALTER TABLE blinks ADD COLUMN IF NOT EXISTS revenue_splits JSONB;
+
+CREATE TABLE IF NOT EXISTS revenue_split_payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  blink_id UUID NOT NULL REFERENCES blinks(id) ON DELETE CASCADE,
+  role VARCHAR(10) NOT NULL CHECK (role IN ('creator', 'recipient', 'platform')),
+  wallet VARCHAR(44), -- NULL for the platform fee
+  bps INTEGER NOT NULL CHECK (bps > 0 AND bps <= 10000),
+  amount_usdc NUMERIC(20, 6) NOT NULL CHECK (amount_usdc >= 0),
+  status VARCHAR(10) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'completed', 'failed', 'cancelled')),
+  signature VARCHAR(128),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- NULL once completed, cancelled or out of attempts
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  paid_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_revenue_split_payouts_run ON revenue_split_payouts(run_id);
+CREATE INDEX IF NOT EXISTS idx_revenue_split_payouts_wallet ON revenue_split_payouts(wallet, blink_id);
+CREATE INDEX IF NOT EXISTS idx_revenue_split_payouts_due
+  ON revenue_split_payouts(next_attempt_at) WHERE status IN ('pending', 'failed');
+
+ALTER TABLE ledger_transactions DROP CONSTRAINT IF EXISTS ledger_transactions_kind_check;
+ALTER TABLE ledger_transactions ADD CONSTRAINT ledger_transactions_kind_check
+  CHECK (kind IN ('payment', 'refund', 'reward', 'referral_commission', 'lottery_payout', 'platform_fee',
+                  'credit_deposit', 'credit_withdrawal', 'revenue_split'));
+
+COMMENT ON COLUMN blinks.revenue_splits IS 'Revenue split: recipients (wallet, bps, label) and platform_fee_bps';
+COMMENT ON TABLE revenue_split_payouts IS 'Per-run legs of a revenue split, paid from the settlement wallet';
+
+COMMIT;
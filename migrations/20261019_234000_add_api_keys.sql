@@ -0,0 +1,31 @@
+-- Migration: Scoped creator API keys
+-- Date: 2026-10-19
+-- Description: Long-lived API keys for programmatic creators. Only a SHA-256 hash of each key is stored;
+--              the key is shown once when issued or rotated. Scopes limit what a key can do
+--              (blinks:write, analytics:read, payouts:manage). Rotating revokes the old key and links
+--              it to its replacement. Sign-In-With-Solana sessions live in Redis and need no table.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS creator_api_keys;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS creator_api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_id UUID NOT NULL REFERENCES creators(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(20) NOT NULL,
+  key_hash VARCHAR(64) NOT NULL UNIQUE, -- SHA-256 of the full key (hex)
+  scopes TEXT[] NOT NULL
+    CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['blinks:write', 'analytics:read', 'payouts:manage']::TEXT[]),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  rotated_to_id UUID REFERENCES creator_api_keys(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_creator_api_keys_creator ON creator_api_keys(creator_id, created_at DESC);
+
+COMMENT ON TABLE creator_api_keys IS 'Scoped creator API keys (hashed; the key itself is shown once)';
+
+COMMIT;
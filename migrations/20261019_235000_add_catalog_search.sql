@@ -0,0 +1,40 @@
+-- Migration: Catalog full-text search
+-- Date: 2026-10-19
+-- Description: Generated tsvector over each blink's title (weight A), category (B) and description (C)
+--              for ranked catalog search, plus a matching expression index on creator display names
+--              so creators can be found by name. Also indexes the catalog sort keys used for keyset
+--              (cursor) pagination.
+--
+-- Rollback:
+--   DROP INDEX IF EXISTS idx_blinks_catalog_popular;
+--   DROP INDEX IF EXISTS idx_blinks_catalog_newest;
+--   DROP INDEX IF EXISTS idx_creators_display_name_search;
+--   DROP INDEX IF EXISTS idx_blinks_search_vector;
+--   ALTER TABLE blinks DROP COLUMN IF EXISTS search_vector;
+
+BEGIN;
+
+ALTER TABLE blinks
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(category, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_blinks_search_vector ON blinks USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_creators_display_name_search
+  ON creators USING GIN (to_tsvector('english', COALESCE(display_name, '')));
+
+-- Catalog sort keys (id breaks ties so cursors are stable)
+CREATE INDEX IF NOT EXISTS idx_blinks_catalog_newest
+  ON blinks ((COALESCE(catalog_published_at, created_at)) DESC, id DESC)
+  WHERE is_public = true AND publish_to_catalog = true;
+
+CREATE INDEX IF NOT EXISTS idx_blinks_catalog_popular
+  ON blinks (runs DESC, id DESC)
+  WHERE is_public = true AND publish_to_catalog = true;
+
+COMMENT ON COLUMN blinks.search_vector IS 'Full-text search document for the catalog (title A, category B, description C)';
+
+COMMIT;
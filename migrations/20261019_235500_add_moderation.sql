@@ -0,0 +1,56 @@
+-- Migration: Catalog moderation
+-- Date: 2026-10-19
+-- Description: Suspensions for blinks and creators, a moderator hold that keeps a blink out of the
+--              catalog until it is released, and an append-only audit log of moderator actions.
+--              A suspended blink is paused and cannot be resumed or republished by its creator;
+--              suspending a creator suspends all of their blinks (suspended_with_creator marks the
+--              ones to restore when the creator is unsuspended).
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS moderation_actions;
+--   ALTER TABLE blinks DROP COLUMN IF EXISTS suspended_at, DROP COLUMN IF EXISTS suspension_reason,
+--     DROP COLUMN IF EXISTS suspended_with_creator, DROP COLUMN IF EXISTS catalog_hold;
+--   ALTER TABLE creators DROP COLUMN IF EXISTS suspended_at, DROP COLUMN IF EXISTS suspension_reason;
+
+BEGIN;
+
+ALTER TABLE blinks
+  ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS suspension_reason TEXT,
+  ADD COLUMN IF NOT EXISTS suspended_with_creator BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS catalog_hold BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE creators
+  ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS suspension_reason TEXT;
+
+CREATE TABLE IF NOT EXISTS moderation_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  action VARCHAR(40) NOT NULL CHECK (action IN (
+    'report_reviewing', 'report_resolved', 'report_dismissed',
+    'blink_unpublished', 'blink_auto_unpublished', 'catalog_hold_released',
+    'blink_suspended', 'blink_unsuspended',
+    'creator_suspended', 'creator_unsuspended'
+  )),
+  actor VARCHAR(100) NOT NULL, -- Moderator name, or 'system' for automatic actions
+  report_id UUID REFERENCES blink_reports(id) ON DELETE SET NULL,
+  blink_id UUID REFERENCES blinks(id) ON DELETE SET NULL,
+  creator_id UUID REFERENCES creators(id) ON DELETE SET NULL,
+  notes TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_created_at ON moderation_actions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_blink ON moderation_actions(blink_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_creator ON moderation_actions(creator_id, created_at DESC);
+
+-- Open reports per blink (auto-unpublish threshold and the moderation queue)
+CREATE INDEX IF NOT EXISTS idx_blink_reports_open ON blink_reports(blink_id, created_at)
+  WHERE status IN ('pending', 'reviewing');
+
+COMMENT ON COLUMN blinks.catalog_hold IS 'Removed from the catalog by moderation; the creator cannot republish until released';
+COMMENT ON COLUMN blinks.suspended_with_creator IS 'Suspended because its creator was (restored when the creator is unsuspended)';
+COMMENT ON TABLE moderation_actions IS 'Audit log of moderator (and automatic) moderation actions';
+
+COMMIT;
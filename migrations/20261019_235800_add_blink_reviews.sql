@@ -0,0 +1,52 @@
+-- Migration: Ratings and reviews from verified payers
+-- Date: 2026-10-19
+-- Description: Payers rate (1-5) and review a blink, one review per wallet per blink. Every review
+--              is tied to an executed run the reviewer paid for, so reviews can't be posted by
+--              wallets that never used the blink. Creators can reply to reviews. The aggregate is
+--              kept on blinks: rating_avg/rating_count for display and rating_score (a Bayesian
+--              average, 0 when unrated) for the catalog's top_rated sort and the top_rated badge.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS blink_reviews;
+--   DROP INDEX IF EXISTS idx_blinks_catalog_top_rated;
+--   ALTER TABLE blinks DROP COLUMN IF EXISTS rating_avg, DROP COLUMN IF EXISTS rating_count,
+--     DROP COLUMN IF EXISTS rating_score;
+--   DELETE FROM badge_definitions WHERE code = 'top_rated';
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS blink_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blink_id UUID NOT NULL REFERENCES blinks(id) ON DELETE CASCADE,
+  run_id UUID NOT NULL REFERENCES runs(id) ON DELETE CASCADE, -- Executed run that proves the purchase
+  reviewer_wallet VARCHAR(100) NOT NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT,
+  creator_reply TEXT,
+  replied_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (blink_id, reviewer_wallet)
+);
+
+CREATE INDEX IF NOT EXISTS idx_blink_reviews_blink ON blink_reviews(blink_id, created_at DESC);
+
+ALTER TABLE blinks
+  ADD COLUMN IF NOT EXISTS rating_avg NUMERIC(3, 2),
+  ADD COLUMN IF NOT EXISTS rating_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rating_score NUMERIC(4, 3) NOT NULL DEFAULT 0;
+
+-- Catalog top_rated sort (same predicate as the other catalog sort indexes)
+CREATE INDEX IF NOT EXISTS idx_blinks_catalog_top_rated
+  ON blinks (rating_score DESC, id DESC)
+  WHERE is_public = true AND publish_to_catalog = true;
+
+INSERT INTO badge_definitions (code, name, description, criteria_type, criteria_config, display_order)
+VALUES
+  ('top_rated', 'Top Rated', 'Rated 4.5 or higher by at least 5 verified payers', 'automatic', '{"min_reviews": 5, "min_rating": 4.5}', 7)
+ON CONFLICT (code) DO NOTHING;
+
+COMMENT ON TABLE blink_reviews IS 'Ratings and reviews from wallets with an executed run of the blink';
+COMMENT ON COLUMN blinks.rating_score IS 'Bayesian average rating used to rank top_rated (0 when unrated)';
+
+COMMIT;
@@ -0,0 +1,46 @@
+-- Migration: Batched referral commission payouts
+-- Date: 2026-10-20
+-- Description: Referral commissions are no longer sent one transfer per run from the proxy. Each
+--              commission is recorded as pending, and the referral payout worker groups a referrer's
+--              pending commissions into a batch once they reach the minimum payout (or the oldest
+--              has waited long enough) and pays the batch in one USDC transfer. Every commission
+--              in a batch is marked completed with the batch's signature.
+--
+-- Rollback:
+--   ALTER TABLE commission_payouts DROP COLUMN IF EXISTS batch_id;
+--   DROP TABLE IF EXISTS commission_payout_batches;
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS commission_payout_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_wallet VARCHAR(44) NOT NULL,
+  amount_usdc NUMERIC(20, 6) NOT NULL CHECK (amount_usdc > 0),
+  payout_count INTEGER NOT NULL CHECK (payout_count > 0),
+  status VARCHAR(10) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'completed', 'failed')),
+  signature VARCHAR(128),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- NULL once completed or out of attempts
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  paid_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE commission_payouts
+  ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES commission_payout_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_commission_payouts_batch ON commission_payouts(batch_id);
+-- Commissions waiting for a batch (paid_at is when the commission was recorded)
+CREATE INDEX IF NOT EXISTS idx_commission_payouts_unbatched
+  ON commission_payouts(paid_at) WHERE status = 'pending' AND batch_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_commission_payout_batches_referrer
+  ON commission_payout_batches(referrer_wallet, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_commission_payout_batches_due
+  ON commission_payout_batches(next_attempt_at) WHERE status IN ('pending', 'failed');
+
+COMMENT ON TABLE commission_payout_batches IS 'Referral commissions paid to a referrer together in one transfer';
+COMMENT ON COLUMN commission_payouts.batch_id IS 'Payout batch the commission is (being) paid in';
+
+COMMIT;
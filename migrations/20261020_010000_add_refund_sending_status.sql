@@ -0,0 +1,29 @@
+-- Migration: Track broadcast refund transfers
+-- Date: 2026-10-20
+-- Description: Refunds are saved as 'sending' with their signature as soon as the transfer is
+--              broadcast. A sending refund is settled by looking the signature up on-chain and is
+--              only sent again once the transfer failed or its blockhash expired.
+--
+-- Rollback:
+--   ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_status_check;
+--   ALTER TABLE refunds ADD CONSTRAINT refunds_status_check CHECK (status IN ('pending', 'issued', 'failed'));
+--   DROP INDEX IF EXISTS idx_refunds_retry_due;
+--   CREATE INDEX IF NOT EXISTS idx_refunds_retry_due ON refunds(next_retry_at) WHERE status = 'failed';
+--   ALTER TABLE refunds DROP COLUMN IF EXISTS last_valid_block_height;
+
+BEGIN;
+
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_status_check;
+ALTER TABLE refunds
+  ADD CONSTRAINT refunds_status_check
+  CHECK (status IN ('pending', 'sending', 'issued', 'failed'));
+
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS last_valid_block_height BIGINT;
+
+-- Retry worker lookup now covers sending refunds waiting for an on-chain check
+DROP INDEX IF EXISTS idx_refunds_retry_due;
+CREATE INDEX IF NOT EXISTS idx_refunds_retry_due ON refunds(next_retry_at) WHERE status IN ('sending', 'failed');
+
+COMMENT ON COLUMN refunds.last_valid_block_height IS 'Block height after which a sending refund transfer can no longer land';
+
+COMMIT;
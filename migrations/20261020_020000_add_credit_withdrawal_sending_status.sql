@@ -0,0 +1,31 @@
+-- Migration: Track broadcast credit withdrawals
+-- Date: 2026-10-20
+-- Description: Withdrawals are saved as 'sending' with their signature as soon as the transfer is
+--              broadcast. A sending withdrawal is settled by looking the signature up on-chain: the
+--              amount only goes back on the balance once the transfer failed or its blockhash expired.
+--
+-- Rollback:
+--   DROP INDEX IF EXISTS idx_credit_transactions_sending;
+--   ALTER TABLE credit_transactions DROP COLUMN IF EXISTS last_valid_block_height, DROP COLUMN IF EXISTS next_check_at;
+--   ALTER TABLE credit_transactions DROP CONSTRAINT IF EXISTS credit_transactions_status_check;
+--   ALTER TABLE credit_transactions ADD CONSTRAINT credit_transactions_status_check
+--     CHECK (status IN ('pending', 'completed', 'failed'));
+
+BEGIN;
+
+ALTER TABLE credit_transactions DROP CONSTRAINT IF EXISTS credit_transactions_status_check;
+ALTER TABLE credit_transactions
+  ADD CONSTRAINT credit_transactions_status_check
+  CHECK (status IN ('pending', 'sending', 'completed', 'failed'));
+
+ALTER TABLE credit_transactions
+  ADD COLUMN IF NOT EXISTS last_valid_block_height BIGINT,
+  ADD COLUMN IF NOT EXISTS next_check_at TIMESTAMP WITH TIME ZONE;
+
+-- Settlement worker lookup
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_sending
+  ON credit_transactions(next_check_at) WHERE status = 'sending';
+
+COMMENT ON COLUMN credit_transactions.next_check_at IS 'When a sending withdrawal is next looked up on-chain';
+
+COMMIT;
@@ -0,0 +1,31 @@
+-- Migration: Track broadcast revenue split payouts
+-- Date: 2026-10-20
+-- Description: Payout legs are saved as 'sending' with their signature as soon as the transfer is
+--              broadcast. A sending leg is settled by looking the signature up on-chain and is only
+--              sent again once the transfer failed or its blockhash expired.
+--
+-- Rollback:
+--   ALTER TABLE revenue_split_payouts DROP COLUMN IF EXISTS last_valid_block_height;
+--   ALTER TABLE revenue_split_payouts DROP CONSTRAINT IF EXISTS revenue_split_payouts_status_check;
+--   ALTER TABLE revenue_split_payouts ADD CONSTRAINT revenue_split_payouts_status_check
+--     CHECK (status IN ('pending', 'completed', 'failed', 'cancelled'));
+--   DROP INDEX IF EXISTS idx_revenue_split_payouts_due;
+--   CREATE INDEX IF NOT EXISTS idx_revenue_split_payouts_due
+--     ON revenue_split_payouts(next_attempt_at) WHERE status IN ('pending', 'failed');
+
+BEGIN;
+
+ALTER TABLE revenue_split_payouts DROP CONSTRAINT IF EXISTS revenue_split_payouts_status_check;
+ALTER TABLE revenue_split_payouts
+  ADD CONSTRAINT revenue_split_payouts_status_check
+  CHECK (status IN ('pending', 'sending', 'completed', 'failed', 'cancelled'));
+
+ALTER TABLE revenue_split_payouts ADD COLUMN IF NOT EXISTS last_valid_block_height BIGINT;
+
+DROP INDEX IF EXISTS idx_revenue_split_payouts_due;
+CREATE INDEX IF NOT EXISTS idx_revenue_split_payouts_due
+  ON revenue_split_payouts(next_attempt_at) WHERE status IN ('pending', 'sending', 'failed');
+
+COMMENT ON COLUMN revenue_split_payouts.last_valid_block_height IS 'Block height after which a sending leg''s transfer can no longer land';
+
+COMMIT;
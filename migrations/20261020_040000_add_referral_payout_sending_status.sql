@@ -0,0 +1,31 @@
+-- Migration: Track broadcast referral payout batches
+-- Date: 2026-10-20
+-- Description: Batches are saved as 'sending' with their signature as soon as the transfer is
+--              broadcast. A sending batch is settled by looking the signature up on-chain and is only
+--              sent again once the transfer failed or its blockhash expired.
+--
+-- Rollback:
+--   ALTER TABLE commission_payout_batches DROP COLUMN IF EXISTS last_valid_block_height;
+--   ALTER TABLE commission_payout_batches DROP CONSTRAINT IF EXISTS commission_payout_batches_status_check;
+--   ALTER TABLE commission_payout_batches ADD CONSTRAINT commission_payout_batches_status_check
+--     CHECK (status IN ('pending', 'completed', 'failed'));
+--   DROP INDEX IF EXISTS idx_commission_payout_batches_due;
+--   CREATE INDEX IF NOT EXISTS idx_commission_payout_batches_due
+--     ON commission_payout_batches(next_attempt_at) WHERE status IN ('pending', 'failed');
+
+BEGIN;
+
+ALTER TABLE commission_payout_batches DROP CONSTRAINT IF EXISTS commission_payout_batches_status_check;
+ALTER TABLE commission_payout_batches
+  ADD CONSTRAINT commission_payout_batches_status_check
+  CHECK (status IN ('pending', 'sending', 'completed', 'failed'));
+
+ALTER TABLE commission_payout_batches ADD COLUMN IF NOT EXISTS last_valid_block_height BIGINT;
+
+DROP INDEX IF EXISTS idx_commission_payout_batches_due;
+CREATE INDEX IF NOT EXISTS idx_commission_payout_batches_due
+  ON commission_payout_batches(next_attempt_at) WHERE status IN ('pending', 'sending', 'failed');
+
+COMMENT ON COLUMN commission_payout_batches.last_valid_block_height IS 'Block height after which a sending batch''s transfer can no longer land';
+
+COMMIT;
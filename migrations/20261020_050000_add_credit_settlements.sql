@@ -0,0 +1,49 @@
+-- Migration: Settle credit-paid runs with creators
+-- Date: 2026-10-20
+-- Description: Credit deposits are held in the credits treasury wallet, so a credit-paid run moves no
+--              funds to the creator. credit_settlements gets one row per credit-paid run when it is
+--              paid; the settlement worker sends it from the treasury to the blink's payout wallet once
+--              the run has executed and cancels the rows of failed runs (their payment goes back to credits).
+--              Credit payments are credited to credits_payable:<creator_id> in the ledger and reach the
+--              creator's account with a credit_settlement transaction when the transfer lands.
+--
+-- Rollback:
+--   DROP TABLE IF EXISTS credit_settlements;
+--   ALTER TABLE ledger_transactions DROP CONSTRAINT IF EXISTS ledger_transactions_kind_check;
+--   ALTER TABLE ledger_transactions ADD CONSTRAINT ledger_transactions_kind_check
+--     CHECK (kind IN ('payment', 'refund', 'reward', 'referral_commission', 'lottery_payout', 'platform_fee',
+--                     'credit_deposit', 'credit_withdrawal', 'revenue_split'));
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS credit_settlements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL UNIQUE REFERENCES runs(id) ON DELETE CASCADE,
+  blink_id UUID NOT NULL REFERENCES blinks(id) ON DELETE CASCADE,
+  creator_id UUID NOT NULL REFERENCES creators(id) ON DELETE CASCADE,
+  wallet VARCHAR(44) NOT NULL, -- The blink's payout wallet when the run was paid
+  amount_usdc NUMERIC(20, 6) NOT NULL CHECK (amount_usdc > 0),
+  status VARCHAR(10) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'completed', 'failed', 'cancelled')),
+  signature VARCHAR(128),
+  last_valid_block_height BIGINT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- NULL once completed, cancelled or out of attempts
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  paid_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_settlements_creator ON credit_settlements(creator_id, status);
+CREATE INDEX IF NOT EXISTS idx_credit_settlements_due
+  ON credit_settlements(next_attempt_at) WHERE status IN ('pending', 'sending', 'failed');
+
+ALTER TABLE ledger_transactions DROP CONSTRAINT IF EXISTS ledger_transactions_kind_check;
+ALTER TABLE ledger_transactions ADD CONSTRAINT ledger_transactions_kind_check
+  CHECK (kind IN ('payment', 'refund', 'reward', 'referral_commission', 'lottery_payout', 'platform_fee',
+                  'credit_deposit', 'credit_withdrawal', 'revenue_split', 'credit_settlement'));
+
+COMMENT ON TABLE credit_settlements IS 'Per-run transfers of credit payments from the credits treasury to creators';
+COMMENT ON COLUMN credit_settlements.last_valid_block_height IS 'Block height after which a sending transfer can no longer land';
+
+COMMIT;
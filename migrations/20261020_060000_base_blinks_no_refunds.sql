@@ -0,0 +1,16 @@
+-- Migration: Base blinks have no automatic refunds
+-- Date: 2026-10-20
+-- Description: Refunds are only sent from the Solana platform wallet. Base blinks now only accept
+--              refund_policy 'none' (a failed call leaves the run paid so the caller can retry);
+--              existing Base blinks are moved to it so their settings match what happens.
+--
+-- Rollback:
+--   (none - the previous policies never refunded Base payments)
+
+BEGIN;
+
+UPDATE blinks
+SET refund_policy = 'none', refund_percent = 100
+WHERE blockchain = 'base' AND refund_policy <> 'none';
+
+COMMIT;
@@ -0,0 +1,35 @@
+-- Migration: Token-aware refund and creator debt amounts
+-- Date: 2026-10-20
+-- Description: Solana Pay SOL runs are refunded in SOL, but the amount was stored in refunds.amount_usdc
+--              (6 decimals) and copied into creator_debts.amount_usdc as if it were USDC. Both columns
+--              become `amount` in the row's payment_token (9 decimals, enough for lamports), and
+--              creator debts record the token they are owed in.
+--
+-- Rollback:
+--   ALTER TABLE creator_debts DROP COLUMN IF EXISTS payment_token;
+--   ALTER TABLE creator_debts ALTER COLUMN amount TYPE NUMERIC(20, 6);
+--   ALTER TABLE creator_debts RENAME COLUMN amount TO amount_usdc;
+--   ALTER TABLE refunds ALTER COLUMN amount TYPE NUMERIC(20, 6);
+--   ALTER TABLE refunds RENAME COLUMN amount TO amount_usdc;
+
+BEGIN;
+
+ALTER TABLE refunds RENAME COLUMN amount_usdc TO amount;
+ALTER TABLE refunds ALTER COLUMN amount TYPE NUMERIC(20, 9);
+
+ALTER TABLE creator_debts RENAME COLUMN amount_usdc TO amount;
+ALTER TABLE creator_debts ALTER COLUMN amount TYPE NUMERIC(20, 9);
+ALTER TABLE creator_debts
+  ADD COLUMN IF NOT EXISTS payment_token VARCHAR(10) NOT NULL DEFAULT 'USDC'
+  CHECK (payment_token IN ('SOL', 'USDC'));
+
+-- Debts of earlier SOL refunds were recorded in SOL already, only labelled USDC
+UPDATE creator_debts d
+SET payment_token = rf.payment_token
+FROM refunds rf
+WHERE rf.id = d.refund_id AND rf.payment_token = 'SOL';
+
+COMMENT ON COLUMN refunds.amount IS 'Refund amount in payment_token units';
+COMMENT ON COLUMN creator_debts.amount IS 'Amount the creator owes back, in payment_token units';
+
+COMMIT;
@@ -14,24 +14,61 @@
  * - Blinks: getAllBlinks, getBlinkBySlug, getBlinkById, createBlink, updateBlink, deleteBlink,
  *          updateBlinkHealth, updateBlinkBadges
  * - Runs: createRun, getRunByReference, getRunBySignature, updateRunPayment, updateRunPaymentAtomic,
- *        markRunExecuted, markRunFailed, cleanupExpiredRuns
+ *        markRunExecuted, markRunFailed, cleanupExpiredRuns, countRecentPaidRuns, countWalletPaidRuns
  * - Dashboard: getDashboardData
+ * - Analytics: recordBlinkMetadataView, getCreatorAnalytics
  * - Rewards: createRewardClaim, getRewardClaimCount, hasUserClaimedReward, getRewardClaimsByBlink,
  *           getRewardClaimByReference
  * - Publishing: validateBlinkForPublishing, publishBlinkToCatalog, unpublishBlinkFromCatalog,
  *              getBlinkPublishingStatus
  * - Encryption: encrypt, decrypt, maskSensitive, isValidPrivateKeyFormat
- * - Lottery: All lottery functions (rounds, entries, winners, stats)
+ * - Credentials: saveBlinkCredential, getBlinkCredential, getBlinkCredentialSummary, deleteBlinkCredential
+ * - Artifacts: createRunArtifact, getRunArtifact, deleteArtifactsOlderThan
+ * - Pipelines: getPipelineStepRuns, startPipelineStepRun, completePipelineStepRun
+ * - Webhooks: emitWebhookEvent, createCreatorWebhook, getCreatorWebhooks, getCreatorWebhook,
+ *             updateCreatorWebhook, deleteCreatorWebhook, getWebhookDeliveries, replayWebhookDelivery,
+ *             claimPendingWebhookDeliveries, requeueStaleWebhookDeliveries, getWebhookDeliveryForDispatch,
+ *             recordWebhookDeliveryAttempt
+ * - Jobs: enqueueJob, claimDueJobs, extendJobLease, completeJob, failJob, getBackgroundJob,
+ *         getBackgroundJobs, getBackgroundJobCounts, retryBackgroundJob
+ * - Ledger: recordLedgerTransaction, recordLedgerPayment, recordLedgerRefund, recordLedgerReward,
+ *           recordLedgerCommission, recordLedgerLotteryPayout, recordLedgerPlatformFee, recordLedgerRevenueSplit,
+ *           recordLedgerCreditSettlement, getLedgerTransactions, getCreatorLedgerTotals, getLedgerTransactionsToReconcile,
+ *           setLedgerReconciliation, getLedgerReconciliationCounts
+ * - Credits: getCreditAccount, setCreditLimits, recordCreditDeposit, debitCreditsForRun, issueCreditRefund,
+ *            startCreditWithdrawal, markCreditWithdrawalSending, completeCreditWithdrawal, failCreditWithdrawal,
+ *            claimSendingCreditWithdrawals, getCreditTransaction, getCreditTransactions
+ * - Access Passes: grantAccessPass, getAccessPassByRunId, getActiveAccessPass, getAccessPasses,
+ *                  consumeAccessPassCall, returnAccessPassCall, sendPassRenewalReminders, getPassRenewalDue
+ * - Coupons: createCoupon, getCreatorCoupons, updateCreatorCoupon, getCouponForBlink,
+ *            countWalletCouponRedemptions, recordCouponRedemption
+ * - Revenue Splits: recordRevenueSplitPayouts, claimRevenueSplitPayouts, markRevenueSplitPayoutSending,
+ *                   completeRevenueSplitPayout, failRevenueSplitPayout, cancelFailedRunRevenueSplits,
+ *                   cancelRunRevenueSplits, getWalletRevenueShares
+ * - Credit Settlements: recordCreditSettlement, claimCreditSettlements, markCreditSettlementSending,
+ *                       completeCreditSettlement, failCreditSettlement, cancelFailedRunCreditSettlements
+ * - API Keys: createApiKey, getCreatorApiKeys, authenticateApiKey, rotateApiKey, revokeApiKey
+ * - Catalog Search: searchCatalog, parseCatalogCursor, CATALOG_PRICE_BUCKETS
+ * - Moderation: createBlinkReport, getModerationReports, getModerationReportCounts, updateBlinkReportStatus,
+ *               unpublishBlinkForModeration, releaseCatalogHold, suspendBlink, unsuspendBlink,
+ *               suspendCreator, unsuspendCreator, getCreatorSuspension, getModerationActions
+ * - Reviews: submitBlinkReview, replyToBlinkReview, getBlinkReviews, getBlinkRatingSummary
+ * - Referral Payouts: createReferralPayoutBatch, claimReferralPayoutBatches, markReferralPayoutBatchSending,
+ *                     completeReferralPayoutBatch, failReferralPayoutBatch, getReferralPayoutBatches
+ * - Slots: getActiveSlotSeedPair, createSlotSeedPair, rotateSlotSeedPair, claimSlotSpinNonce,
+ *          createSlotSpin, getSlotSpinByReference, getSlotSpinsByWallet
+ * - Lottery: All lottery functions (rounds, entries, winners, stats, commit-reveal draws)
  *
  * LEGACY EXPORTS (inline implementations, to be modularized):
  * - Receipts: getReceiptByRunId
- * - Refunds: createRefund, markRefundIssued, markRefundFailed, getRefundByRunId
+ * - Refunds: createRefund, markRefundSending, markRefundIssued, markRefundFailed, setRefundPayer,
+ *            claimRefundsForRetry, getRefundByRunId
  * - Creator Debt: createCreatorDebt, getCreatorOutstandingDebt, getCreatorUnsettledDebts, settleCreatorDebt
  * - Platform Config: getPlatformConfig, setPlatformConfig
  * - Twitter Integration: getTwitterCredentialByCreatorId, getTwitterCredentialByWallet, upsertTwitterCredential,
  *                       updateTwitterLastUsed, disconnectTwitter, logTwitterActivity, getTwitterActivityByCreator
  * - Gallery: uploadGalleryImage, getGalleryImages, grantGalleryAccess, checkGalleryAccess, deleteGalleryImage
- * - Catalog: getPublicBlinks, getFeaturedBlinks, getTrendingBlinks, toggleBlinkPublic, reportBlink
+ * - Catalog: getFeaturedBlinks, getTrendingBlinks, toggleBlinkPublic
  * - Referrals: getOrCreateReferralCode, trackReferral, getReferralStats, getReferralLeaderboard,
  *             calculateReferralCommission, markCommissionPaid, getPendingCommissions
  */
@@ -90,6 +127,8 @@ export {
   markRunExecuted,
   markRunFailed,
   cleanupExpiredRuns,
+  countRecentPaidRuns,
+  countWalletPaidRuns,
   type RunData
 } from './modules/runs.js'
 
@@ -98,6 +137,12 @@ export {
   getDashboardData
 } from './modules/dashboard.js'
 
+// Analytics module
+export {
+  recordBlinkMetadataView,
+  getCreatorAnalytics
+} from './modules/analytics.js'
+
 // Rewards module
 export {
   createRewardClaim,
@@ -125,13 +170,233 @@ export {
   isValidPrivateKeyFormat
 } from './encryption.js'
 
+// Credentials module
+export {
+  saveBlinkCredential,
+  getBlinkCredential,
+  getBlinkCredentialSummary,
+  deleteBlinkCredential,
+  type BlinkCredentialData
+} from './modules/credentials.js'
+
+// Artifacts module
+export {
+  createRunArtifact,
+  getRunArtifact,
+  deleteArtifactsOlderThan,
+  type RunArtifactData
+} from './modules/artifacts.js'
+
+// Pipelines module
+export {
+  getPipelineStepRuns,
+  startPipelineStepRun,
+  completePipelineStepRun,
+  type PipelineStepRunData
+} from './modules/pipelines.js'
+
+// Webhooks module
+export {
+  emitWebhookEvent,
+  createCreatorWebhook,
+  getCreatorWebhooks,
+  getCreatorWebhook,
+  updateCreatorWebhook,
+  deleteCreatorWebhook,
+  getWebhookDeliveries,
+  replayWebhookDelivery,
+  claimPendingWebhookDeliveries,
+  requeueStaleWebhookDeliveries,
+  getWebhookDeliveryForDispatch,
+  recordWebhookDeliveryAttempt,
+  type WebhookDispatchData
+} from './modules/webhooks.js'
+
+// Jobs module
+export {
+  enqueueJob,
+  claimDueJobs,
+  extendJobLease,
+  completeJob,
+  failJob,
+  getBackgroundJob,
+  getBackgroundJobs,
+  getBackgroundJobCounts,
+  retryBackgroundJob
+} from './modules/jobs.js'
+
+// Ledger module
+export {
+  ledgerAccount,
+  recordLedgerTransaction,
+  recordLedgerPayment,
+  recordLedgerRefund,
+  recordLedgerReward,
+  recordLedgerCommission,
+  recordLedgerLotteryPayout,
+  recordLedgerPlatformFee,
+  recordLedgerRevenueSplit,
+  recordLedgerCreditSettlement,
+  getLedgerTransactions,
+  getCreatorLedgerTotals,
+  getLedgerTransactionsToReconcile,
+  setLedgerReconciliation,
+  getLedgerReconciliationCounts,
+  type LedgerTransactionData,
+  type CreatorLedgerTotal
+} from './modules/ledger.js'
+
+// Credits module
+export {
+  getCreditAccount,
+  setCreditLimits,
+  recordCreditDeposit,
+  debitCreditsForRun,
+  issueCreditRefund,
+  startCreditWithdrawal,
+  markCreditWithdrawalSending,
+  completeCreditWithdrawal,
+  failCreditWithdrawal,
+  claimSendingCreditWithdrawals,
+  getCreditTransaction,
+  getCreditTransactions,
+  type SendingCreditWithdrawal
+} from './modules/credits.js'
+
+// Access passes module
+export {
+  grantAccessPass,
+  getAccessPassByRunId,
+  getActiveAccessPass,
+  getAccessPasses,
+  consumeAccessPassCall,
+  returnAccessPassCall,
+  sendPassRenewalReminders,
+  getPassRenewalDue
+} from './modules/passes.js'
+
+// Coupons module
+export {
+  createCoupon,
+  getCreatorCoupons,
+  updateCreatorCoupon,
+  getCouponForBlink,
+  countWalletCouponRedemptions,
+  recordCouponRedemption
+} from './modules/coupons.js'
+
+// Revenue splits module
+export {
+  MAX_REVENUE_SPLIT_ATTEMPTS,
+  recordRevenueSplitPayouts,
+  claimRevenueSplitPayouts,
+  markRevenueSplitPayoutSending,
+  completeRevenueSplitPayout,
+  failRevenueSplitPayout,
+  cancelFailedRunRevenueSplits,
+  cancelRunRevenueSplits,
+  getWalletRevenueShares,
+  type RevenueSplitPayoutData
+} from './modules/revenue-splits.js'
+
+// Credit settlements module
+export {
+  MAX_CREDIT_SETTLEMENT_ATTEMPTS,
+  recordCreditSettlement,
+  claimCreditSettlements,
+  markCreditSettlementSending,
+  completeCreditSettlement,
+  failCreditSettlement,
+  cancelFailedRunCreditSettlements,
+  type CreditSettlementData
+} from './modules/credit-settlements.js'
+
+// API keys module
+export {
+  createApiKey,
+  getCreatorApiKeys,
+  authenticateApiKey,
+  rotateApiKey,
+  revokeApiKey,
+  type ApiKeyAuthData
+} from './modules/api-keys.js'
+
+// Catalog search module
+export {
+  searchCatalog,
+  parseCatalogCursor,
+  CATALOG_PRICE_BUCKETS,
+  type CatalogCursor
+} from './modules/catalog.js'
+
+// Moderation module
+export {
+  BLINK_REPORT_REASONS,
+  MODERATION_SYSTEM_ACTOR,
+  createBlinkReport,
+  getModerationReports,
+  getModerationReportCounts,
+  updateBlinkReportStatus,
+  unpublishBlinkForModeration,
+  releaseCatalogHold,
+  suspendBlink,
+  unsuspendBlink,
+  suspendCreator,
+  unsuspendCreator,
+  getCreatorSuspension,
+  getModerationActions,
+  type ModerationResult
+} from './modules/moderation.js'
+
+// Reviews module
+export {
+  REVIEW_PRIOR_MEAN,
+  REVIEW_PRIOR_WEIGHT,
+  TOP_RATED_MIN_REVIEWS,
+  TOP_RATED_MIN_RATING,
+  submitBlinkReview,
+  replyToBlinkReview,
+  getBlinkReviews,
+  getBlinkRatingSummary
+} from './modules/reviews.js'
+
+// Referral payouts module
+export {
+  MAX_REFERRAL_PAYOUT_ATTEMPTS,
+  createReferralPayoutBatch,
+  claimReferralPayoutBatches,
+  markReferralPayoutBatchSending,
+  completeReferralPayoutBatch,
+  failReferralPayoutBatch,
+  getReferralPayoutBatches
+} from './modules/referral-payouts.js'
+
+// Slots module
+export {
+  getActiveSlotSeedPair,
+  createSlotSeedPair,
+  rotateSlotSeedPair,
+  claimSlotSpinNonce,
+  createSlotSpin,
+  getSlotSpinByReference,
+  getSlotSpinsByWallet,
+  type SlotSeedPairData,
+  type SlotSpinData
+} from './modules/slots.js'
+
 // Lottery module
 export {
   createLotteryRound,
   getActiveRound,
   getRoundById,
+  getRoundByNumber,
   getMaxRoundNumber,
   getRoundsEndingBefore,
+  commitRoundSeed,
+  getRoundEncryptedSeed,
+  closeRoundForDraw,
+  getRoundsAwaitingDraw,
+  revealRoundSeed,
   updateRoundStatus,
   updateRoundStats,
   createLotteryEntry,
@@ -152,6 +417,7 @@ export {
 // ========================================
 
 import { getPool, isPostgresError } from './modules/connection.js'
+import { recordLedgerRefund, recordLedgerCommission } from './modules/ledger.js'
 
 // ========== RECEIPTS OPERATIONS ==========
 
@@ -173,56 +439,123 @@ export async function getReceiptByRunId(runId: string) {
 export interface RefundData {
   id: string
   run_id: string
-  amount_usdc: string
+  amount: string // Refund amount in payment_token units
+  payment_token: 'SOL' | 'USDC'
+  payer_wallet: string | null
   refund_signature: string | null
-  status: 'pending' | 'issued' | 'failed'
+  status: 'pending' | 'sending' | 'issued' | 'failed' // sending = broadcast, not confirmed yet
+  last_valid_block_height: string | null // Sending refunds: the transfer can't land after this block height
   reason: string | null
   creator_debt_id: string | null
+  attempts: number
+  next_retry_at: Date | null
+  last_error: string | null
   created_at: Date
   processed_at: Date | null
 }
 
+/**
+ * Refund joined with the run and blink it belongs to (used by the retry worker)
+ */
+export interface RefundRetryData extends RefundData {
+  reference: string
+  run_signature: string | null
+  blink_id: string
+  blink_slug: string
+  creator_id: string
+}
+
 export interface CreatorDebtData {
   id: string
   creator_id: string
   blink_id: string
   refund_id: string
-  amount_usdc: string
+  amount: string // In payment_token units (the token the refund was sent in)
+  payment_token: 'SOL' | 'USDC'
   settled: boolean
   settled_at: Date | null
   settlement_notes: string | null
   created_at: Date
 }
 
+const REFUND_FIELDS = `id, run_id, amount::text, payment_token, payer_wallet, refund_signature, status,
+  last_valid_block_height::text, reason, creator_debt_id, attempts, next_retry_at, last_error, created_at, processed_at`
+
+/** Refunds are retried with exponential backoff (1, 2, 4, 8 minutes) before giving up */
+export const MAX_REFUND_ATTEMPTS = 5
+
 /**
  * Create a refund record when API execution fails after successful payment
- * This creates a pending refund that needs to be processed
+ * This creates a pending refund that needs to be processed.
+ * Idempotent per run: if the run already has a refund, the existing record is returned.
  */
 export async function createRefund(params: {
   runId: string
-  amountUsdc: string
+  amount: string // In paymentToken units
   reason?: string
+  payerWallet?: string | null
+  paymentToken?: 'SOL' | 'USDC'
 }): Promise<RefundData> {
-  const { runId, amountUsdc, reason } = params
+  const { runId, amount, reason, payerWallet, paymentToken } = params
 
   const result = await getPool().query(
-    `INSERT INTO refunds (run_id, amount_usdc, reason, status)
-     VALUES ($1, $2, $3, 'pending')
-     RETURNING id, run_id, amount_usdc, refund_signature, status, reason, creator_debt_id, created_at, processed_at`,
-    [runId, amountUsdc, reason || null]
+    `INSERT INTO refunds (run_id, amount, reason, status, payer_wallet, payment_token)
+     VALUES ($1, $2, $3, 'pending', $4, $5)
+     ON CONFLICT (run_id) DO NOTHING
+     RETURNING ${REFUND_FIELDS}`,
+    [runId, amount, reason || null, payerWallet || null, paymentToken || 'USDC']
   )
 
+  if (result.rows.length === 0) {
+    const existing = await getRefundByRunId(runId)
+    if (!existing) {
+      throw new Error(`Refund for run ${runId} could not be created`)
+    }
+    logger.warn('Refund already exists for run', { refundId: existing.id, runId, status: existing.status })
+    return existing
+  }
+
   logger.info('Refund record created', {
     refundId: result.rows[0].id,
     runId,
-    amount: amountUsdc,
+    amount,
+    token: paymentToken || 'USDC',
   })
 
   return result.rows[0]
 }
 
+/**
+ * Record a broadcast refund transfer before waiting for it to confirm
+ * The retry worker checks the signature on-chain once next_retry_at passes (the refund is
+ * never sent again while the transfer can still land).
+ */
+export async function markRefundSending(params: {
+  refundId: string
+  signature: string
+  lastValidBlockHeight: number
+}): Promise<RefundData> {
+  const { refundId, signature, lastValidBlockHeight } = params
+
+  const result = await getPool().query(
+    `UPDATE refunds
+     SET status = 'sending', refund_signature = $1, last_valid_block_height = $2,
+         next_retry_at = NOW() + INTERVAL '2 minutes'
+     WHERE id = $3 AND status IN ('pending', 'failed')
+     RETURNING ${REFUND_FIELDS}`,
+    [signature, lastValidBlockHeight, refundId]
+  )
+
+  if (result.rows.length === 0) {
+    throw new Error(`Refund ${refundId} not found or already sent`)
+  }
+
+  return result.rows[0]
+}
+
 /**
  * Mark refund as issued after successful on-chain transaction
+ * Idempotent: an already issued refund is returned unchanged.
  */
 export async function markRefundIssued(params: {
   refundId: string
@@ -232,14 +565,19 @@ export async function markRefundIssued(params: {
 
   const result = await getPool().query(
     `UPDATE refunds
-     SET status = 'issued', refund_signature = $1, processed_at = NOW()
-     WHERE id = $2
-     RETURNING id, run_id, amount_usdc, refund_signature, status, reason, creator_debt_id, created_at, processed_at`,
+     SET status = 'issued', refund_signature = $1, processed_at = NOW(),
+         attempts = attempts + 1, next_retry_at = NULL, last_error = NULL
+     WHERE id = $2 AND status <> 'issued'
+     RETURNING ${REFUND_FIELDS}`,
     [signature, refundId]
   )
 
   if (result.rows.length === 0) {
-    throw new Error(`Refund ${refundId} not found`)
+    const existing = await getPool().query(`SELECT ${REFUND_FIELDS} FROM refunds WHERE id = $1`, [refundId])
+    if (existing.rows.length === 0) {
+      throw new Error(`Refund ${refundId} not found`)
+    }
+    return existing.rows[0]
   }
 
   logger.info('Refund marked as issued', {
@@ -247,11 +585,17 @@ export async function markRefundIssued(params: {
     signature,
   })
 
+  await recordLedgerRefund(refundId)
+
   return result.rows[0]
 }
 
 /**
  * Mark refund as failed if on-chain transaction fails
+ * Schedules the next retry with exponential backoff until MAX_REFUND_ATTEMPTS is reached,
+ * after which next_retry_at stays NULL and the refund needs manual intervention.
+ * Only call this when no transfer can land: before broadcasting, or once a sending refund's
+ * transfer failed or expired on-chain.
  */
 export async function markRefundFailed(params: {
   refundId: string
@@ -261,10 +605,17 @@ export async function markRefundFailed(params: {
 
   const result = await getPool().query(
     `UPDATE refunds
-     SET status = 'failed', reason = COALESCE(reason || ' | ', '') || $1, processed_at = NOW()
-     WHERE id = $2
-     RETURNING id, run_id, amount_usdc, refund_signature, status, reason, creator_debt_id, created_at, processed_at`,
-    [error, refundId]
+     SET status = 'failed',
+         attempts = attempts + 1,
+         last_error = $1,
+         processed_at = NOW(),
+         next_retry_at = CASE
+           WHEN attempts + 1 < $3 THEN NOW() + INTERVAL '1 minute' * POWER(2, attempts)
+           ELSE NULL
+         END
+     WHERE id = $2 AND status <> 'issued'
+     RETURNING ${REFUND_FIELDS}`,
+    [error, refundId, MAX_REFUND_ATTEMPTS]
   )
 
   if (result.rows.length === 0) {
@@ -274,17 +625,68 @@ export async function markRefundFailed(params: {
   logger.error('Refund marked as failed', {
     refundId,
     error,
+    attempts: result.rows[0].attempts,
+    nextRetryAt: result.rows[0].next_retry_at,
   })
 
   return result.rows[0]
 }
 
+/**
+ * Update the payer wallet on a refund (resolved lazily from the payment transaction)
+ */
+export async function setRefundPayer(params: {
+  refundId: string
+  payerWallet: string
+}): Promise<void> {
+  await getPool().query(
+    `UPDATE refunds SET payer_wallet = $1 WHERE id = $2`,
+    [params.payerWallet, params.refundId]
+  )
+}
+
+/**
+ * Claim failed refunds whose next retry is due, and sending refunds due an on-chain check
+ * Claimed rows get a 5 minute lease on next_retry_at so concurrent workers
+ * (or a crashed worker) never process the same refund twice in a row.
+ */
+export async function claimRefundsForRetry(limit = 10): Promise<RefundRetryData[]> {
+  const result = await getPool().query(
+    `WITH due AS (
+       SELECT id FROM refunds
+       WHERE status IN ('sending', 'failed')
+         AND next_retry_at IS NOT NULL
+         AND next_retry_at <= NOW()
+       ORDER BY next_retry_at ASC
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     ), claimed AS (
+       UPDATE refunds r
+       SET next_retry_at = NOW() + INTERVAL '5 minutes'
+       FROM due
+       WHERE r.id = due.id
+       RETURNING r.*
+     )
+     SELECT c.id, c.run_id, c.amount::text, c.payment_token, c.payer_wallet, c.refund_signature,
+            c.status, c.last_valid_block_height::text, c.reason, c.creator_debt_id, c.attempts, c.next_retry_at, c.last_error,
+            c.created_at, c.processed_at,
+            ru.reference, ru.signature as run_signature,
+            b.id as blink_id, b.slug as blink_slug, b.creator_id
+     FROM claimed c
+     JOIN runs ru ON c.run_id = ru.id
+     JOIN blinks b ON ru.blink_id = b.id`,
+    [limit]
+  )
+
+  return result.rows
+}
+
 /**
  * Get refund by run ID
  */
 export async function getRefundByRunId(runId: string): Promise<RefundData | null> {
   const result = await getPool().query(
-    `SELECT id, run_id, amount_usdc, refund_signature, status, reason, creator_debt_id, created_at, processed_at
+    `SELECT ${REFUND_FIELDS}
      FROM refunds
      WHERE run_id = $1`,
     [runId]
@@ -296,21 +698,22 @@ export async function getRefundByRunId(runId: string): Promise<RefundData | null
 
 /**
  * Create a creator debt record when platform issues a refund
- * This tracks the amount the creator owes back to the platform
+ * This tracks the amount the creator owes back to the platform, in the token the refund was sent in
  */
 export async function createCreatorDebt(params: {
   creatorId: string
   blinkId: string
   refundId: string
-  amountUsdc: string
+  amount: string // In the refund's token
+  token: 'SOL' | 'USDC'
 }): Promise<CreatorDebtData> {
-  const { creatorId, blinkId, refundId, amountUsdc } = params
+  const { creatorId, blinkId, refundId, amount, token } = params
 
   const result = await getPool().query(
-    `INSERT INTO creator_debts (creator_id, blink_id, refund_id, amount_usdc, settled)
-     VALUES ($1, $2, $3, $4, false)
-     RETURNING id, creator_id, blink_id, refund_id, amount_usdc, settled, settled_at, settlement_notes, created_at`,
-    [creatorId, blinkId, refundId, amountUsdc]
+    `INSERT INTO creator_debts (creator_id, blink_id, refund_id, amount, payment_token, settled)
+     VALUES ($1, $2, $3, $4, $5, false)
+     RETURNING id, creator_id, blink_id, refund_id, amount::text, payment_token, settled, settled_at, settlement_notes, created_at`,
+    [creatorId, blinkId, refundId, amount, token]
   )
 
   // Update refund record to link to debt
@@ -323,21 +726,22 @@ export async function createCreatorDebt(params: {
     debtId: result.rows[0].id,
     creatorId,
     blinkId,
-    amount: amountUsdc,
+    amount,
+    token,
   })
 
   return result.rows[0]
 }
 
 /**
- * Get total outstanding debt for a creator
+ * Get total outstanding debt for a creator in one token
  */
-export async function getCreatorOutstandingDebt(creatorId: string): Promise<string> {
+export async function getCreatorOutstandingDebt(creatorId: string, token: 'SOL' | 'USDC' = 'USDC'): Promise<string> {
   const result = await getPool().query(
-    `SELECT COALESCE(SUM(amount_usdc), 0)::text as total_debt
+    `SELECT COALESCE(SUM(amount), 0)::text as total_debt
      FROM creator_debts
-     WHERE creator_id = $1 AND settled = false`,
-    [creatorId]
+     WHERE creator_id = $1 AND payment_token = $2 AND settled = false`,
+    [creatorId, token]
   )
 
   return result.rows[0].total_debt
@@ -348,7 +752,7 @@ export async function getCreatorOutstandingDebt(creatorId: string): Promise<stri
  */
 export async function getCreatorUnsettledDebts(creatorId: string): Promise<CreatorDebtData[]> {
   const result = await getPool().query(
-    `SELECT id, creator_id, blink_id, refund_id, amount_usdc, settled, settled_at, settlement_notes, created_at
+    `SELECT id, creator_id, blink_id, refund_id, amount::text, payment_token, settled, settled_at, settlement_notes, created_at
      FROM creator_debts
      WHERE creator_id = $1 AND settled = false
      ORDER BY created_at DESC`,
@@ -371,7 +775,7 @@ export async function settleCreatorDebt(params: {
     `UPDATE creator_debts
      SET settled = true, settled_at = NOW(), settlement_notes = $1
      WHERE id = $2
-     RETURNING id, creator_id, blink_id, refund_id, amount_usdc, settled, settled_at, settlement_notes, created_at`,
+     RETURNING id, creator_id, blink_id, refund_id, amount::text, payment_token, settled, settled_at, settlement_notes, created_at`,
     [notes || null, debtId]
   )
 
@@ -683,130 +1087,6 @@ export async function deleteGalleryImage(params: {
 
 // ========== CATALOG-SPECIFIC OPERATIONS ==========
 
-/**
- * Get public blinks for catalog display
- * Filters by is_public=true and status='active'
- * Excludes unhealthy blinks
- */
-export async function getPublicBlinks(
-  filters?: {
-    category?: string
-    price_min?: number
-    price_max?: number
-    badges?: string[]
-    media_type?: string
-    search?: string
-  },
-  limit: number = 20,
-  offset: number = 0
-): Promise<BlinkData[]> {
-  let query = `
-    SELECT
-      b.id, b.slug, b.title, b.description, b.price_usdc::text,
-      b.icon_url, b.endpoint_url, b.method, b.category,
-      b.runs, b.status, b.payment_token, b.payout_wallet, b.access_duration_days,
-      b.payment_mode, b.reward_amount::text, b.funded_wallet, b.max_claims_per_user,
-      b.is_public, b.is_featured, b.publish_to_catalog, b.media_type,
-      b.avg_latency_ms, b.success_rate_percent, b.badges, b.catalog_published_at,
-      b.reported_count, b.is_forkable, b.health_status,
-      b.lottery_enabled, b.lottery_round_duration_minutes,
-      b.creator_id, c.wallet as creator_wallet, c.is_verified as creator_is_verified
-    FROM blinks b
-    JOIN creators c ON b.creator_id = c.id
-    WHERE b.is_public = true
-      AND b.publish_to_catalog = true
-      AND b.status = 'active'
-      AND b.health_status != 'unhealthy'
-      AND b.title IS NOT NULL AND b.title != ''
-      AND b.description IS NOT NULL AND LENGTH(b.description) >= 20
-      AND (b.success_rate_percent IS NULL OR b.success_rate_percent >= 70)
-      AND b.reported_count <= 5`
-
-  const params: any[] = []
-  let paramCount = 1
-
-  if (filters) {
-    if (filters.category) {
-      query += ` AND b.category = $${paramCount++}`
-      params.push(filters.category)
-    }
-
-    if (filters.price_min !== undefined) {
-      query += ` AND b.price_usdc >= $${paramCount++}`
-      params.push(filters.price_min)
-    }
-
-    if (filters.price_max !== undefined) {
-      query += ` AND b.price_usdc <= $${paramCount++}`
-      params.push(filters.price_max)
-    }
-
-    if (filters.media_type) {
-      query += ` AND b.media_type = $${paramCount++}`
-      params.push(filters.media_type)
-    }
-
-    if (filters.badges && filters.badges.length > 0) {
-      query += ` AND b.badges @> $${paramCount++}::jsonb`
-      params.push(JSON.stringify(filters.badges))
-    }
-
-    if (filters.search) {
-      query += ` AND (
-        LOWER(b.title) LIKE LOWER($${paramCount}) OR
-        LOWER(b.description) LIKE LOWER($${paramCount})
-      )`
-      params.push(`%${filters.search}%`)
-      paramCount++
-    }
-  }
-
-  query += ` ORDER BY b.catalog_published_at DESC NULLS LAST, b.created_at DESC`
-  query += ` LIMIT $${paramCount++} OFFSET $${paramCount++}`
-  params.push(limit, offset)
-
-  const result = await getPool().query(query, params)
-
-  return result.rows.map(row => ({
-    id: row.id,
-    slug: row.slug,
-    title: row.title,
-    description: row.description,
-    price_usdc: row.price_usdc,
-    icon_url: row.icon_url,
-    endpoint_url: row.endpoint_url,
-    method: row.method,
-    category: row.category,
-    runs: row.runs,
-    status: row.status,
-    payment_token: row.payment_token || 'SOL',
-    payout_wallet: row.payout_wallet,
-    payment_mode: row.payment_mode || 'charge',
-    reward_amount: row.reward_amount,
-    funded_wallet: row.funded_wallet,
-    max_claims_per_user: row.max_claims_per_user,
-    access_duration_days: row.access_duration_days,
-    is_public: row.is_public || false,
-    is_featured: row.is_featured || false,
-    publish_to_catalog: row.publish_to_catalog || false,
-    media_type: row.media_type,
-    avg_latency_ms: row.avg_latency_ms,
-    success_rate_percent: row.success_rate_percent ? parseFloat(row.success_rate_percent) : undefined,
-    badges: row.badges || [],
-    catalog_published_at: row.catalog_published_at,
-    reported_count: row.reported_count || 0,
-    is_forkable: row.is_forkable || false,
-    health_status: row.health_status || 'healthy',
-    lottery_enabled: row.lottery_enabled || false,
-    lottery_round_duration_minutes: row.lottery_round_duration_minutes,
-    creator_id: row.creator_id,
-    creator: {
-      wallet: row.creator_wallet,
-      is_verified: row.creator_is_verified || false
-    }
-  }))
-}
-
 /**
  * Get featured blinks for homepage
  * Only shows quality blinks that meet publishing standards
@@ -816,7 +1096,7 @@ export async function getFeaturedBlinks(limit: number = 5): Promise<BlinkData[]>
     `SELECT
       b.id, b.slug, b.title, b.description, b.price_usdc::text,
       b.icon_url, b.endpoint_url, b.method, b.category,
-      b.runs, b.status, b.payment_token, b.payout_wallet, b.access_duration_days,
+      b.runs, b.status, b.payment_token, b.blockchain, b.payout_wallet, b.access_duration_days,
       b.payment_mode, b.reward_amount::text, b.funded_wallet, b.max_claims_per_user,
       b.is_public, b.is_featured, b.publish_to_catalog, b.media_type,
       b.avg_latency_ms, b.success_rate_percent, b.badges, b.catalog_published_at,
@@ -847,6 +1127,7 @@ export async function getFeaturedBlinks(limit: number = 5): Promise<BlinkData[]>
     runs: row.runs,
     status: row.status,
     payment_token: row.payment_token || 'SOL',
+    blockchain: row.blockchain || 'solana',
     payout_wallet: row.payout_wallet,
     payment_mode: row.payment_mode || 'charge',
     reward_amount: row.reward_amount,
@@ -883,7 +1164,7 @@ export async function getTrendingBlinks(limit: number = 10, days: number = 1): P
     `SELECT
       b.id, b.slug, b.title, b.description, b.price_usdc::text,
       b.icon_url, b.endpoint_url, b.method, b.category,
-      b.runs, b.status, b.payment_token, b.payout_wallet, b.access_duration_days,
+      b.runs, b.status, b.payment_token, b.blockchain, b.payout_wallet, b.access_duration_days,
       b.payment_mode, b.reward_amount::text, b.funded_wallet, b.max_claims_per_user,
       b.is_public, b.is_featured, b.publish_to_catalog, b.media_type,
       b.avg_latency_ms, b.success_rate_percent, b.badges, b.catalog_published_at,
@@ -927,6 +1208,7 @@ export async function getTrendingBlinks(limit: number = 10, days: number = 1): P
     runs: row.runs,
     status: row.status,
     payment_token: row.payment_token || 'SOL',
+    blockchain: row.blockchain || 'solana',
     payout_wallet: row.payout_wallet,
     payment_mode: row.payment_mode || 'charge',
     reward_amount: row.reward_amount,
@@ -983,46 +1265,6 @@ export async function toggleBlinkPublic(
   }
 }
 
-/**
- * Report a blink
- */
-export async function reportBlink(
-  blinkId: string,
-  reporterWallet: string | null,
-  reason: string,
-  details: string | null = null
-): Promise<boolean> {
-  const client = await getPool().connect()
-
-  try {
-    await client.query('BEGIN')
-
-    // Insert report
-    await client.query(
-      `INSERT INTO blink_reports (blink_id, reporter_wallet, reason, details)
-      VALUES ($1, $2, $3, $4)`,
-      [blinkId, reporterWallet, reason, details]
-    )
-
-    // Update reported count
-    await client.query(
-      `UPDATE blinks
-      SET reported_count = reported_count + 1
-      WHERE id = $1`,
-      [blinkId]
-    )
-
-    await client.query('COMMIT')
-    return true
-  } catch (error) {
-    await client.query('ROLLBACK')
-    logger.error('Error reporting blink', error, { blinkId, reason })
-    return false
-  } finally {
-    client.release()
-  }
-}
-
 // ====================
 // REFERRAL SYSTEM FUNCTIONS
 // ====================
@@ -1144,6 +1386,8 @@ export async function getReferralStats(userWallet: string): Promise<{
   tier: string
   totalReferrals: number
   totalEarningsUsdc: string
+  paidEarningsUsdc: string
+  pendingEarningsUsdc: string // Recorded, waiting for (or in) a payout batch
   referrals: Array<{
     refereeWallet: string
     referredAt: Date
@@ -1167,6 +1411,8 @@ export async function getReferralStats(userWallet: string): Promise<{
         tier: 'bronze',
         totalReferrals: 0,
         totalEarningsUsdc: '0',
+        paidEarningsUsdc: '0',
+        pendingEarningsUsdc: '0',
         referrals: []
       }
     }
@@ -1182,11 +1428,22 @@ export async function getReferralStats(userWallet: string): Promise<{
       [userWallet]
     )
 
+    // Commissions are paid in batches, so part of the earnings can still be on its way
+    const balancesResult = await getPool().query(
+      `SELECT COALESCE(SUM(amount_usdc) FILTER (WHERE status = 'completed'), 0)::text AS paid,
+              COALESCE(SUM(amount_usdc) FILTER (WHERE status = 'pending'), 0)::text AS pending
+       FROM commission_payouts
+       WHERE referrer_wallet = $1`,
+      [userWallet]
+    )
+
     return {
       code,
       tier,
       totalReferrals: total_referrals,
       totalEarningsUsdc: total_earnings_usdc,
+      paidEarningsUsdc: balancesResult.rows[0].paid,
+      pendingEarningsUsdc: balancesResult.rows[0].pending,
       referrals: referralsResult.rows
     }
   } catch (error) {
@@ -1397,6 +1654,8 @@ export async function markCommissionPaid(params: {
     )
 
     logger.info('Commission payout marked as completed', { payoutId, signature })
+
+    await recordLedgerCommission(payoutId)
   } catch (error) {
     logger.error('Error marking commission as paid', error, params)
     throw error
@@ -1404,19 +1663,20 @@ export async function markCommissionPaid(params: {
 }
 
 /**
- * Get pending commission payouts (for batch processing)
+ * Get pending commission payouts not yet in a payout batch, oldest first (for batch processing)
  */
 export async function getPendingCommissions(limit = 100): Promise<Array<{
   id: string
   referrerWallet: string
   amountUsdc: string
   tier: string
+  recordedAt: Date
 }>> {
   try {
     const result = await getPool().query(
-      `SELECT id, referrer_wallet, amount_usdc, tier
+      `SELECT id, referrer_wallet, amount_usdc, tier, paid_at
        FROM commission_payouts
-       WHERE status = 'pending'
+       WHERE status = 'pending' AND batch_id IS NULL
        ORDER BY paid_at ASC
        LIMIT $1`,
       [limit]
@@ -1426,7 +1686,8 @@ export async function getPendingCommissions(limit = 100): Promise<Array<{
       id: row.id,
       referrerWallet: row.referrer_wallet,
       amountUsdc: row.amount_usdc,
-      tier: row.tier
+      tier: row.tier,
+      recordedAt: row.paid_at // paid_at defaults to when the commission was recorded
     }))
   } catch (error) {
     logger.error('Error getting pending commissions', error)
@@ -1,5 +1,7 @@
 // Lottery database operations
 import { getPool } from './index.js'
+import { emitWebhookEvent } from './modules/webhooks.js'
+import { recordLedgerLotteryPayout } from './modules/ledger.js'
 import type {
   LotteryRound,
   LotteryEntry,
@@ -13,14 +15,15 @@ import type {
 
 export async function createLotteryRound(
   blinkId: string,
-  roundNumber: number
+  roundNumber: number,
+  commitment: { serverSeedHash: string; encryptedServerSeed: string }
 ): Promise<LotteryRound> {
   const pool = getPool()
   const result = await pool.query(
-    `INSERT INTO lottery_rounds (blink_id, round_number, status)
-     VALUES ($1, $2, 'active')
+    `INSERT INTO lottery_rounds (blink_id, round_number, status, server_seed_hash, server_seed_encrypted)
+     VALUES ($1, $2, 'active', $3, $4)
      RETURNING *`,
-    [blinkId, roundNumber]
+    [blinkId, roundNumber, commitment.serverSeedHash, commitment.encryptedServerSeed]
   )
   return mapToLotteryRound(result.rows[0])
 }
@@ -46,6 +49,15 @@ export async function getRoundById(roundId: string): Promise<LotteryRound | null
   return result.rows[0] ? mapToLotteryRound(result.rows[0]) : null
 }
 
+export async function getRoundByNumber(blinkId: string, roundNumber: number): Promise<LotteryRound | null> {
+  const pool = getPool()
+  const result = await pool.query(
+    `SELECT * FROM lottery_rounds WHERE blink_id = $1 AND round_number = $2`,
+    [blinkId, roundNumber]
+  )
+  return result.rows[0] ? mapToLotteryRound(result.rows[0]) : null
+}
+
 export async function getMaxRoundNumber(blinkId: string): Promise<number> {
   const pool = getPool()
   const result = await pool.query(
@@ -76,6 +88,88 @@ export async function getRoundsEndingBefore(timestamp: Date): Promise<LotteryRou
   return result.rows.map(mapToLotteryRound)
 }
 
+// ========== COMMIT-REVEAL DRAWS ==========
+
+/**
+ * Commit a seed for a round that opened without one (rounds created before commit-reveal)
+ * Only sets the commitment if none exists yet.
+ */
+export async function commitRoundSeed(
+  roundId: string,
+  commitment: { serverSeedHash: string; encryptedServerSeed: string }
+): Promise<boolean> {
+  const pool = getPool()
+  const result = await pool.query(
+    `UPDATE lottery_rounds
+     SET server_seed_hash = $2, server_seed_encrypted = $3
+     WHERE id = $1 AND server_seed_hash IS NULL`,
+    [roundId, commitment.serverSeedHash, commitment.encryptedServerSeed]
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Get a round's encrypted server seed (worker only - never send to clients)
+ */
+export async function getRoundEncryptedSeed(roundId: string): Promise<string | null> {
+  const pool = getPool()
+  const result = await pool.query(
+    `SELECT server_seed_encrypted FROM lottery_rounds WHERE id = $1`,
+    [roundId]
+  )
+  return result.rows[0]?.server_seed_encrypted || null
+}
+
+/**
+ * Close an active round to new entries and fix the slot its entropy will come from
+ * @returns false if the round was no longer active
+ */
+export async function closeRoundForDraw(roundId: string, entropyTargetSlot: number): Promise<boolean> {
+  const pool = getPool()
+  const result = await pool.query(
+    `UPDATE lottery_rounds
+     SET status = 'closed', ended_at = NOW(), entropy_target_slot = $2
+     WHERE id = $1 AND status = 'active'`,
+    [roundId, entropyTargetSlot]
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Closed rounds whose winners haven't been drawn yet (waiting for the entropy block)
+ */
+export async function getRoundsAwaitingDraw(): Promise<LotteryRound[]> {
+  const pool = getPool()
+  const result = await pool.query(
+    `SELECT * FROM lottery_rounds
+     WHERE status = 'closed'
+       AND winners_selected_at IS NULL
+       AND entropy_target_slot IS NOT NULL
+     ORDER BY ended_at ASC`
+  )
+  return result.rows.map(mapToLotteryRound)
+}
+
+/**
+ * Reveal the server seed and record the entropy used for the draw
+ */
+export async function revealRoundSeed(
+  roundId: string,
+  reveal: { serverSeed: string; entropySlot: number; entropyBlockhash: string }
+): Promise<void> {
+  const pool = getPool()
+  await pool.query(
+    `UPDATE lottery_rounds
+     SET server_seed = $2,
+         server_seed_encrypted = NULL,
+         entropy_slot = $3,
+         entropy_blockhash = $4,
+         winners_selected_at = NOW()
+     WHERE id = $1`,
+    [roundId, reveal.serverSeed, reveal.entropySlot, reveal.entropyBlockhash]
+  )
+}
+
 export async function updateRoundStatus(
   roundId: string,
   status: LotteryRoundStatus,
@@ -86,7 +180,11 @@ export async function updateRoundStatus(
     `UPDATE lottery_rounds
      SET status = $1::varchar,
          winners_selected_at = $2,
-         ended_at = CASE WHEN $1::varchar IN ('closed', 'distributed') THEN NOW() ELSE ended_at END
+         ended_at = CASE
+           WHEN $1::varchar = 'closed' THEN COALESCE(ended_at, NOW())
+           WHEN $1::varchar = 'distributed' THEN NOW()
+           ELSE ended_at
+         END
      WHERE id = $3`,
     [status, winnersSelectedAt || null, roundId]
   )
@@ -129,7 +227,7 @@ export async function getRoundEntries(roundId: string): Promise<LotteryEntry[]>
   const result = await pool.query(
     `SELECT * FROM lottery_entries
      WHERE round_id = $1
-     ORDER BY entry_timestamp ASC`,
+     ORDER BY entry_timestamp ASC, id ASC`,
     [roundId]
   )
   return result.rows.map(mapToLotteryEntry)
@@ -203,14 +301,38 @@ export async function updatePayoutStatus(
   txSignature?: string
 ): Promise<void> {
   const pool = getPool()
-  await pool.query(
-    `UPDATE lottery_winners
+  const result = await pool.query(
+    `UPDATE lottery_winners lw
      SET payout_status = $1::varchar,
          payout_tx_signature = $2,
          completed_at = CASE WHEN $1::varchar = 'completed' THEN NOW() ELSE completed_at END
-     WHERE id = $3`,
+     FROM lottery_rounds lr
+     WHERE lw.id = $3 AND lr.id = lw.round_id
+     RETURNING lw.*, lr.blink_id, lr.round_number`,
     [status, txSignature || null, winnerId]
   )
+
+  const row = result.rows[0]
+  if (row && status === 'completed') {
+    await recordLedgerLotteryPayout(row.id)
+  }
+  if (row && (status === 'completed' || status === 'failed')) {
+    await emitWebhookEvent({
+      blinkId: row.blink_id,
+      type: status === 'completed' ? 'lottery.payout_completed' : 'lottery.payout_failed',
+      data: {
+        payout: {
+          winner_id: row.id,
+          round_id: row.round_id,
+          round_number: row.round_number,
+          winner_wallet: row.winner_wallet,
+          rank: row.payout_rank,
+          amount_usdc: row.payout_amount_usdc,
+          tx_signature: row.payout_tx_signature,
+        },
+      },
+    })
+  }
 }
 
 // ========== STATISTICS & ANALYTICS ==========
@@ -346,7 +468,12 @@ function mapToLotteryRound(row: any): LotteryRound {
     winners_selected_at: row.winners_selected_at,
     status: row.status as LotteryRoundStatus,
     bonus_pool_usdc: row.bonus_pool_usdc,
-    created_at: row.created_at
+    created_at: row.created_at,
+    server_seed_hash: row.server_seed_hash ?? null,
+    server_seed: row.server_seed ?? null,
+    entropy_target_slot: row.entropy_target_slot != null ? Number(row.entropy_target_slot) : null,
+    entropy_slot: row.entropy_slot != null ? Number(row.entropy_slot) : null,
+    entropy_blockhash: row.entropy_blockhash ?? null
   }
 }
 
@@ -0,0 +1,224 @@
+/**
+ * Analytics Module
+ * Per-blink time series and checkout funnel for the creator analytics API
+ * Runs give volume, latency and payers; revenue comes from the payment ledger;
+ * the top of the funnel from hourly Solana Actions metadata view counters.
+ */
+
+import type {
+  AnalyticsBucket,
+  BlinkAnalytics,
+  BlinkAnalyticsPoint,
+  CheckoutFunnel,
+  CouponAnalytics,
+  CreatorAnalytics,
+} from '@blink402/types'
+import { getPool } from './connection.js'
+import { ledgerAccount } from './ledger.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/database:analytics')
+
+/**
+ * Count one Solana Actions metadata request (GET /api/actions/:slug)
+ * Failures are logged and ignored - a lost view must never break the unfurl.
+ */
+export async function recordBlinkMetadataView(blinkId: string): Promise<void> {
+  try {
+    await getPool().query(
+      `INSERT INTO blink_metadata_views (blink_id, hour, views)
+       VALUES ($1, date_trunc('hour', NOW()), 1)
+       ON CONFLICT (blink_id, hour) DO UPDATE SET views = blink_metadata_views.views + 1`,
+      [blinkId]
+    )
+  } catch (error) {
+    logger.error('Failed to record metadata view', error as Error, { blinkId })
+  }
+}
+
+function emptyPoint(bucket: string): BlinkAnalyticsPoint {
+  return {
+    bucket,
+    revenue: '0',
+    paid_runs: 0,
+    executed_runs: 0,
+    failed_runs: 0,
+    latency_p50_ms: null,
+    latency_p95_ms: null,
+    unique_payers: 0,
+    repeat_payer_rate: 0,
+    coupon_redemptions: 0,
+  }
+}
+
+/**
+ * Time series and funnel for each of a creator's blinks
+ * Runs are bucketed by payment time; the funnel counts runs created in the range.
+ * @param params.from - Inclusive start of the range
+ * @param params.to - Exclusive end of the range
+ * @param params.blinkSlug - Only this blink
+ * @returns null if the wallet is not a creator
+ */
+export async function getCreatorAnalytics(params: {
+  wallet: string
+  from: Date
+  to: Date
+  bucket: AnalyticsBucket
+  blinkSlug?: string
+}): Promise<CreatorAnalytics | null> {
+  const { wallet, from, to, bucket, blinkSlug } = params
+  const pool = getPool()
+
+  const creatorResult = await pool.query('SELECT id FROM creators WHERE wallet = $1', [wallet])
+  if (creatorResult.rows.length === 0) {
+    return null
+  }
+  const creatorId = creatorResult.rows[0].id
+
+  const [blinksResult, bucketsResult, runsResult, revenueResult, funnelResult, couponsResult] = await Promise.all([
+    pool.query(
+      `SELECT id, slug, title, COALESCE(payment_token, 'SOL') AS payment_token
+       FROM blinks
+       WHERE creator_id = $1 AND ($2::varchar IS NULL OR slug = $2::varchar)
+       ORDER BY created_at DESC`,
+      [creatorId, blinkSlug ?? null]
+    ),
+    pool.query(
+      `SELECT generate_series(date_trunc($1::text, $2::timestamptz), $3::timestamptz - INTERVAL '1 microsecond',
+                              ('1 ' || $1::text)::interval) AS bucket`,
+      [bucket, from, to]
+    ),
+    pool.query(
+      `SELECT r.blink_id, date_trunc($4::text, r.paid_at) AS bucket,
+              COUNT(*)::int AS paid_runs,
+              COUNT(*) FILTER (WHERE r.status = 'executed')::int AS executed_runs,
+              COUNT(*) FILTER (WHERE r.status = 'failed')::int AS failed_runs,
+              percentile_cont(0.5) WITHIN GROUP (ORDER BY r.duration_ms)
+                FILTER (WHERE r.status = 'executed' AND r.duration_ms IS NOT NULL) AS latency_p50_ms,
+              percentile_cont(0.95) WITHIN GROUP (ORDER BY r.duration_ms)
+                FILTER (WHERE r.status = 'executed' AND r.duration_ms IS NOT NULL) AS latency_p95_ms,
+              COUNT(DISTINCT r.payer)::int AS unique_payers,
+              COUNT(DISTINCT r.payer) FILTER (WHERE fp.first_paid_at < date_trunc($4::text, r.paid_at))::int AS repeat_payers,
+              COUNT(*) FILTER (WHERE r.metadata ? 'coupon')::int AS coupon_redemptions
+       FROM runs r
+       JOIN blinks b ON b.id = r.blink_id
+       LEFT JOIN LATERAL (
+         SELECT MIN(p.paid_at) AS first_paid_at
+         FROM runs p
+         WHERE p.blink_id = r.blink_id AND p.payer = r.payer AND p.paid_at IS NOT NULL
+       ) fp ON true
+       WHERE b.creator_id = $1
+         AND r.paid_at >= $2 AND r.paid_at < $3
+         AND r.status IN ('paid', 'executed', 'failed')
+       GROUP BY r.blink_id, 2`,
+      [creatorId, from, to, bucket]
+    ),
+    pool.query(
+      `SELECT lt.blink_id, lt.token, date_trunc($4::text, lt.created_at) AS bucket,
+              SUM(CASE WHEN le.direction = 'credit' THEN le.amount ELSE -le.amount END)::text AS amount
+       FROM ledger_entries le
+       JOIN ledger_transactions lt ON lt.id = le.transaction_id
+       WHERE le.account = $1 AND lt.created_at >= $2 AND lt.created_at < $3
+       GROUP BY lt.blink_id, lt.token, 3`,
+      [ledgerAccount.creator(creatorId), from, to, bucket]
+    ),
+    pool.query(
+      `SELECT b.id AS blink_id,
+              COALESCE((
+                SELECT SUM(v.views) FROM blink_metadata_views v
+                WHERE v.blink_id = b.id AND v.hour >= date_trunc('hour', $2::timestamptz) AND v.hour < $3
+              ), 0)::int AS views,
+              COUNT(r.id)::int AS runs_created,
+              COUNT(r.id) FILTER (WHERE r.paid_at IS NOT NULL)::int AS paid,
+              COUNT(r.id) FILTER (WHERE r.status = 'executed')::int AS executed
+       FROM blinks b
+       LEFT JOIN runs r ON r.blink_id = b.id AND r.created_at >= $2 AND r.created_at < $3
+       WHERE b.creator_id = $1
+       GROUP BY b.id`,
+      [creatorId, from, to]
+    ),
+    pool.query(
+      `SELECT cp.id AS coupon_id, cp.code,
+              COUNT(cr.run_id)::int AS redemptions,
+              COALESCE(SUM(cr.discount_usdc), 0)::text AS discount_usdc,
+              COALESCE(SUM(cr.price_usdc), 0)::text AS revenue_usdc
+       FROM coupons cp
+       LEFT JOIN coupon_redemptions cr ON cr.coupon_id = cp.id
+         AND cr.created_at >= $2 AND cr.created_at < $3
+         AND ($4::varchar IS NULL OR cr.blink_id IN (SELECT id FROM blinks WHERE slug = $4::varchar))
+       WHERE cp.creator_id = $1
+       GROUP BY cp.id
+       ORDER BY cp.created_at DESC`,
+      [creatorId, from, to, blinkSlug ?? null]
+    ),
+  ])
+
+  const buckets: string[] = bucketsResult.rows.map((row) => new Date(row.bucket).toISOString())
+  const key = (blinkId: string, at: Date) => `${blinkId}|${new Date(at).toISOString()}`
+
+  const runStats = new Map(runsResult.rows.map((row) => [key(row.blink_id, row.bucket), row]))
+  const revenue = new Map<string, { token: string; amount: string }[]>()
+  for (const row of revenueResult.rows) {
+    if (!row.blink_id) continue
+    const k = key(row.blink_id, row.bucket)
+    revenue.set(k, [...(revenue.get(k) || []), { token: row.token, amount: row.amount }])
+  }
+  const funnels = new Map<string, CheckoutFunnel>(funnelResult.rows.map((row) => [
+    row.blink_id,
+    { views: row.views, runs_created: row.runs_created, paid: row.paid, executed: row.executed },
+  ]))
+
+  const blinks: BlinkAnalytics[] = blinksResult.rows.map((blink) => ({
+    blink_id: blink.id,
+    slug: blink.slug,
+    title: blink.title,
+    payment_token: blink.payment_token,
+    series: buckets.map((bucketStart) => {
+      const k = `${blink.id}|${bucketStart}`
+      const stats = runStats.get(k)
+      const point = emptyPoint(bucketStart)
+      const earned = (revenue.get(k) || [])
+        .filter((entry) => entry.token === blink.payment_token)
+        .reduce((sum, entry) => sum + parseFloat(entry.amount), 0)
+      point.revenue = parseFloat(earned.toFixed(blink.payment_token === 'SOL' ? 9 : 6)).toString()
+
+      if (stats) {
+        point.paid_runs = stats.paid_runs
+        point.executed_runs = stats.executed_runs
+        point.failed_runs = stats.failed_runs
+        point.latency_p50_ms = stats.latency_p50_ms === null ? null : Math.round(stats.latency_p50_ms)
+        point.latency_p95_ms = stats.latency_p95_ms === null ? null : Math.round(stats.latency_p95_ms)
+        point.unique_payers = stats.unique_payers
+        point.repeat_payer_rate = stats.unique_payers > 0
+          ? Math.round((stats.repeat_payers / stats.unique_payers) * 1000) / 1000
+          : 0
+        point.coupon_redemptions = stats.coupon_redemptions
+      }
+      return point
+    }),
+    funnel: funnels.get(blink.id) || { views: 0, runs_created: 0, paid: 0, executed: 0 },
+  }))
+
+  const funnel = blinks.reduce<CheckoutFunnel>((total, blink) => ({
+    views: total.views + blink.funnel.views,
+    runs_created: total.runs_created + blink.funnel.runs_created,
+    paid: total.paid + blink.funnel.paid,
+    executed: total.executed + blink.funnel.executed,
+  }), { views: 0, runs_created: 0, paid: 0, executed: 0 })
+
+  return {
+    wallet,
+    bucket,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    blinks,
+    funnel,
+    coupons: couponsResult.rows.map((row): CouponAnalytics => ({
+      coupon_id: row.coupon_id,
+      code: row.code,
+      redemptions: row.redemptions,
+      discount_usdc: parseFloat(row.discount_usdc).toString(),
+      revenue_usdc: parseFloat(row.revenue_usdc).toString(),
+    })),
+  }
+}
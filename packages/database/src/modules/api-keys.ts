@@ -0,0 +1,166 @@
+/**
+ * API Keys Module
+ * Scoped, long-lived API keys for programmatic creators
+ *
+ * Only a SHA-256 hash of each key is stored - generating keys and hashing the
+ * keys presented on requests happens in the API. Revoked keys stay listed so
+ * creators can see when a key stopped working; rotating links the old key to
+ * its replacement.
+ */
+
+import type { ApiKeyScope, CreatorApiKey } from '@blink402/types'
+import { getPool } from './connection.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/database:api-keys')
+
+const API_KEY_COLUMNS = 'k.id, k.name, k.key_prefix, k.scopes, k.created_at, k.last_used_at, k.revoked_at, k.rotated_to_id'
+
+/**
+ * Active key presented on a request, with the wallet it acts for
+ */
+export interface ApiKeyAuthData {
+  id: string
+  wallet: string
+  scopes: ApiKeyScope[]
+}
+
+/**
+ * Store a new API key for a creator
+ * @param params - Key parameters (the key is already hashed)
+ */
+export async function createApiKey(params: {
+  creatorId: string
+  name: string
+  scopes: ApiKeyScope[]
+  keyHash: string
+  keyPrefix: string
+}): Promise<CreatorApiKey> {
+  const { creatorId, name, scopes, keyHash, keyPrefix } = params
+
+  const result = await getPool().query<CreatorApiKey>(
+    `INSERT INTO creator_api_keys AS k (creator_id, name, scopes, key_hash, key_prefix)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${API_KEY_COLUMNS}`,
+    [creatorId, name, scopes, keyHash, keyPrefix]
+  )
+
+  logger.info('Created API key', { creatorId, apiKeyId: result.rows[0].id, scopes })
+  return result.rows[0]
+}
+
+/**
+ * List a creator's API keys, newest first (revoked keys included)
+ * @param wallet - Creator wallet address
+ */
+export async function getCreatorApiKeys(wallet: string): Promise<CreatorApiKey[]> {
+  const result = await getPool().query<CreatorApiKey>(
+    `SELECT ${API_KEY_COLUMNS}
+     FROM creator_api_keys k
+     JOIN creators c ON c.id = k.creator_id
+     WHERE c.wallet = $1
+     ORDER BY k.created_at DESC`,
+    [wallet]
+  )
+
+  return result.rows
+}
+
+/**
+ * Look up an active key by its hash and note that it was used
+ * last_used_at is only written once a minute per key.
+ * @returns Key with its wallet, or null if unknown / revoked
+ */
+export async function authenticateApiKey(keyHash: string): Promise<ApiKeyAuthData | null> {
+  const result = await getPool().query(
+    `SELECT k.id, k.scopes, k.last_used_at, c.wallet
+     FROM creator_api_keys k
+     JOIN creators c ON c.id = k.creator_id
+     WHERE k.key_hash = $1 AND k.revoked_at IS NULL`,
+    [keyHash]
+  )
+
+  const key = result.rows[0]
+  if (!key) return null
+
+  if (!key.last_used_at || Date.now() - new Date(key.last_used_at).getTime() > 60 * 1000) {
+    await getPool().query('UPDATE creator_api_keys SET last_used_at = NOW() WHERE id = $1', [key.id])
+  }
+
+  return { id: key.id, wallet: key.wallet, scopes: key.scopes }
+}
+
+/**
+ * Replace an active key owned by the wallet with a new one (same name and scopes)
+ * The old key stops working immediately.
+ * @returns New key, or null if not found / not owned / already revoked
+ */
+export async function rotateApiKey(
+  id: string,
+  wallet: string,
+  replacement: { keyHash: string; keyPrefix: string }
+): Promise<CreatorApiKey | null> {
+  const client = await getPool().connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const existing = await client.query(
+      `SELECT k.id, k.creator_id, k.name, k.scopes
+       FROM creator_api_keys k
+       JOIN creators c ON c.id = k.creator_id
+       WHERE k.id = $1 AND c.wallet = $2 AND k.revoked_at IS NULL
+       FOR UPDATE OF k`,
+      [id, wallet]
+    )
+
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return null
+    }
+
+    const { creator_id, name, scopes } = existing.rows[0]
+    const inserted = await client.query<CreatorApiKey>(
+      `INSERT INTO creator_api_keys AS k (creator_id, name, scopes, key_hash, key_prefix)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${API_KEY_COLUMNS}`,
+      [creator_id, name, scopes, replacement.keyHash, replacement.keyPrefix]
+    )
+
+    await client.query(
+      `UPDATE creator_api_keys SET revoked_at = NOW(), rotated_to_id = $2 WHERE id = $1`,
+      [id, inserted.rows[0].id]
+    )
+
+    await client.query('COMMIT')
+
+    logger.info('Rotated API key', { apiKeyId: id, replacementId: inserted.rows[0].id })
+    return inserted.rows[0]
+  } catch (error) {
+    await client.query('ROLLBACK')
+    logger.error('Error rotating API key', error as Error, { apiKeyId: id })
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Revoke a key owned by the wallet
+ * @returns Revoked key, or null if not found / not owned / already revoked
+ */
+export async function revokeApiKey(id: string, wallet: string): Promise<CreatorApiKey | null> {
+  const result = await getPool().query<CreatorApiKey>(
+    `UPDATE creator_api_keys k
+     SET revoked_at = NOW()
+     FROM creators c
+     WHERE c.id = k.creator_id AND k.id = $1 AND c.wallet = $2 AND k.revoked_at IS NULL
+     RETURNING ${API_KEY_COLUMNS}`,
+    [id, wallet]
+  )
+
+  if (result.rows[0]) {
+    logger.info('Revoked API key', { apiKeyId: id })
+  }
+  return result.rows[0] || null
+}
@@ -0,0 +1,92 @@
+/**
+ * Artifacts Module
+ * Tracks binary upstream responses (images, audio, video, PDFs) stored per run
+ *
+ * The bytes live on disk (see apps/api/src/utils/artifacts.ts); this module only
+ * keeps the metadata needed to serve them through signed download URLs.
+ */
+
+import { getPool } from './connection.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/database:artifacts')
+
+/**
+ * Run artifact record
+ */
+export interface RunArtifactData {
+  id: string
+  run_id: string
+  content_type: string
+  size_bytes: number
+  sha256: string
+  storage_path: string // Relative to the artifacts directory
+  created_at: Date
+}
+
+/**
+ * Record a stored artifact for a run
+ * @param params - Artifact metadata (file already written)
+ * @returns Created artifact record
+ */
+export async function createRunArtifact(params: {
+  id: string
+  runId: string
+  contentType: string
+  sizeBytes: number
+  sha256: string
+  storagePath: string
+}): Promise<RunArtifactData> {
+  const { id, runId, contentType, sizeBytes, sha256, storagePath } = params
+
+  const result = await getPool().query<RunArtifactData>(
+    `INSERT INTO run_artifacts (id, run_id, content_type, size_bytes, sha256, storage_path)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id, run_id, content_type, size_bytes, sha256, storage_path, created_at`,
+    [id, runId, contentType, sizeBytes, sha256, storagePath]
+  )
+
+  logger.info('Stored run artifact', { artifactId: id, runId, contentType, sizeBytes })
+  return result.rows[0]
+}
+
+/**
+ * Get an artifact by ID
+ * @param id - Artifact UUID
+ * @returns Artifact record or null if not found
+ */
+export async function getRunArtifact(id: string): Promise<RunArtifactData | null> {
+  const result = await getPool().query<RunArtifactData>(
+    `SELECT id, run_id, content_type, size_bytes, sha256, storage_path, created_at
+     FROM run_artifacts
+     WHERE id = $1`,
+    [id]
+  )
+
+  return result.rows[0] || null
+}
+
+/**
+ * Delete artifact records older than the retention window
+ * @param retentionDays - Days to keep artifacts
+ * @param limit - Maximum records to delete per call
+ * @returns Deleted records (so the caller can remove the files)
+ */
+export async function deleteArtifactsOlderThan(retentionDays: number, limit: number = 100): Promise<RunArtifactData[]> {
+  const result = await getPool().query<RunArtifactData>(
+    `DELETE FROM run_artifacts
+     WHERE id IN (
+       SELECT id FROM run_artifacts
+       WHERE created_at < NOW() - ($1 || ' days')::INTERVAL
+       ORDER BY created_at
+       LIMIT $2
+     )
+     RETURNING id, run_id, content_type, size_bytes, sha256, storage_path, created_at`,
+    [retentionDays, limit]
+  )
+
+  if (result.rows.length > 0) {
+    logger.info('Deleted expired run artifacts', { count: result.rows.length, retentionDays })
+  }
+  return result.rows
+}
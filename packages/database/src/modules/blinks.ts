@@ -3,15 +3,16 @@
  * Handles Blink CRUD operations, status management, and health tracking
  */
 
-import type { BlinkData } from '@blink402/types'
+import type { BlinkData, RequestTemplate, ResponseTransform, PipelineConfig, BlinkActionsConfig, BlinkAccessPassConfig, BlinkPricingRules, BlinkRevenueSplits } from '@blink402/types'
 import { getPool } from './connection.js'
 import { getOrCreateCreator } from './creators.js'
+import { TOP_RATED_MIN_REVIEWS, TOP_RATED_MIN_RATING } from './reviews.js'
 
 /**
  * Map database row to BlinkData type
  * Centralizes the row mapping logic to reduce duplication
  */
-function mapRowToBlinkData(row: any): BlinkData {
+export function mapRowToBlinkData(row: any): BlinkData {
   return {
     id: row.id,
     slug: row.slug,
@@ -25,13 +26,23 @@ function mapRowToBlinkData(row: any): BlinkData {
     runs: row.runs,
     status: row.status,
     payment_token: row.payment_token || 'SOL',
+    blockchain: row.blockchain || 'solana',
     payout_wallet: row.payout_wallet,
     payment_mode: row.payment_mode || 'charge',
     reward_amount: row.reward_amount,
     funded_wallet: row.funded_wallet,
     max_claims_per_user: row.max_claims_per_user,
     access_duration_days: row.access_duration_days,
+    refund_policy: row.refund_policy || 'full',
+    refund_percent: row.refund_percent ?? 100,
     parameters: row.parameters || undefined,
+    request_template: row.request_template || undefined,
+    response_transform: row.response_transform || undefined,
+    pipeline: row.pipeline || undefined,
+    actions_config: row.actions_config || undefined,
+    access_pass: row.access_pass || undefined,
+    pricing_rules: row.pricing_rules || undefined,
+    revenue_splits: row.revenue_splits || undefined,
     is_public: row.is_public || false,
     is_featured: row.is_featured || false,
     publish_to_catalog: row.publish_to_catalog || false,
@@ -43,6 +54,10 @@ function mapRowToBlinkData(row: any): BlinkData {
     reported_count: row.reported_count || 0,
     is_forkable: row.is_forkable || false,
     health_status: row.health_status || 'healthy',
+    suspended_at: row.suspended_at || undefined,
+    catalog_hold: row.catalog_hold || false,
+    rating_avg: row.rating_avg ? parseFloat(row.rating_avg) : undefined,
+    rating_count: row.rating_count || 0,
     lottery_enabled: row.lottery_enabled || false,
     lottery_round_duration_minutes: row.lottery_round_duration_minutes,
     creator_id: row.creator_id,
@@ -62,13 +77,15 @@ function mapRowToBlinkData(row: any): BlinkData {
 const BLINK_SELECT_FIELDS = `
   b.id, b.slug, b.title, b.description, b.price_usdc::text,
   b.icon_url, b.endpoint_url, b.method, b.category,
-  b.runs, b.status, b.payment_token, b.payout_wallet, b.access_duration_days,
+  b.runs, b.status, b.payment_token, b.blockchain, b.payout_wallet, b.access_duration_days,
   b.payment_mode, b.reward_amount::text, b.funded_wallet, b.max_claims_per_user,
   b.is_public, b.is_featured, b.publish_to_catalog, b.media_type,
   b.avg_latency_ms, b.success_rate_percent, b.badges, b.catalog_published_at,
-  b.reported_count, b.is_forkable, b.health_status,
+  b.reported_count, b.is_forkable, b.health_status, b.suspended_at, b.catalog_hold,
+  b.rating_avg, b.rating_count,
   b.lottery_enabled, b.lottery_round_duration_minutes,
-  b.parameters,
+  b.refund_policy, b.refund_percent,
+  b.parameters, b.request_template, b.response_transform, b.pipeline, b.actions_config, b.access_pass, b.pricing_rules, b.revenue_splits,
   b.creator_id,
   c.wallet as creator_wallet,
   c.is_verified as creator_is_verified,
@@ -152,9 +169,9 @@ export async function createBlink(data: Omit<BlinkData, 'id' | 'runs' | 'creator
     // Create blink within same transaction
     const result = await client.query(
       `INSERT INTO blinks
-        (slug, title, description, endpoint_url, method, price_usdc, payout_wallet, icon_url, category, status, creator_id, payment_token, payment_mode, reward_amount, funded_wallet, max_claims_per_user, parameters)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
-      RETURNING id, slug, title, description, price_usdc::text, payout_wallet, icon_url, endpoint_url, method, category, runs, status, payment_token, payment_mode, reward_amount::text, funded_wallet, max_claims_per_user, parameters`,
+        (slug, title, description, endpoint_url, method, price_usdc, payout_wallet, icon_url, category, status, creator_id, payment_token, payment_mode, reward_amount, funded_wallet, max_claims_per_user, parameters, refund_policy, refund_percent, blockchain, request_template, response_transform, pipeline, actions_config, access_pass, pricing_rules, revenue_splits)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27)
+      RETURNING id, slug, title, description, price_usdc::text, payout_wallet, icon_url, endpoint_url, method, category, runs, status, payment_token, blockchain, payment_mode, reward_amount::text, funded_wallet, max_claims_per_user, parameters, request_template, response_transform, pipeline, actions_config, access_pass, pricing_rules, revenue_splits, refund_policy, refund_percent`,
       [
         data.slug,
         data.title,
@@ -173,6 +190,16 @@ export async function createBlink(data: Omit<BlinkData, 'id' | 'runs' | 'creator
         data.funded_wallet || null,
         data.max_claims_per_user || 1,
         data.parameters ? JSON.stringify(data.parameters) : null,
+        data.refund_policy || 'full',
+        data.refund_percent ?? 100,
+        data.blockchain || 'solana',
+        data.request_template ? JSON.stringify(data.request_template) : null,
+        data.response_transform ? JSON.stringify(data.response_transform) : null,
+        data.pipeline ? JSON.stringify(data.pipeline) : null,
+        data.actions_config ? JSON.stringify(data.actions_config) : null,
+        data.access_pass ? JSON.stringify(data.access_pass) : null,
+        data.pricing_rules ? JSON.stringify(data.pricing_rules) : null,
+        data.revenue_splits ? JSON.stringify(data.revenue_splits) : null,
       ]
     )
 
@@ -192,12 +219,22 @@ export async function createBlink(data: Omit<BlinkData, 'id' | 'runs' | 'creator
       runs: row.runs,
       status: row.status,
       payment_token: row.payment_token || 'SOL',
+      blockchain: row.blockchain || 'solana',
       payout_wallet: row.payout_wallet,
       payment_mode: row.payment_mode || 'charge',
       reward_amount: row.reward_amount,
       funded_wallet: row.funded_wallet,
       max_claims_per_user: row.max_claims_per_user,
       parameters: row.parameters || undefined,
+      request_template: row.request_template || undefined,
+      response_transform: row.response_transform || undefined,
+      pipeline: row.pipeline || undefined,
+      actions_config: row.actions_config || undefined,
+      access_pass: row.access_pass || undefined,
+      pricing_rules: row.pricing_rules || undefined,
+      revenue_splits: row.revenue_splits || undefined,
+      refund_policy: row.refund_policy,
+      refund_percent: row.refund_percent,
       creator_id: creatorId,
       creator: data.creator,
     }
@@ -221,6 +258,15 @@ const ALLOWED_UPDATE_FIELDS = [
   'method',
   'category',
   'icon_url',
+  'refund_policy',
+  'refund_percent',
+  'request_template',
+  'response_transform',
+  'pipeline',
+  'actions_config',
+  'access_pass',
+  'pricing_rules',
+  'revenue_splits',
 ] as const
 
 /**
@@ -231,7 +277,17 @@ const ALLOWED_UPDATE_FIELDS = [
  * @returns Updated blink data or null if not found
  * @throws Error if attempting to update disallowed fields
  */
-export async function updateBlink(slug: string, updates: Partial<BlinkData>): Promise<BlinkData | null> {
+export async function updateBlink(
+  slug: string,
+  updates: Partial<Omit<BlinkData, 'request_template' | 'response_transform' | 'actions_config' | 'access_pass' | 'pricing_rules' | 'revenue_splits'>> & {
+    request_template?: RequestTemplate | null
+    response_transform?: ResponseTransform | null
+    actions_config?: BlinkActionsConfig | null
+    access_pass?: BlinkAccessPassConfig | null
+    pricing_rules?: BlinkPricingRules | null
+    revenue_splits?: BlinkRevenueSplits | null
+  }
+): Promise<BlinkData | null> {
   // Validate that no disallowed fields are being updated
   const updateKeys = Object.keys(updates)
   const disallowedFields = updateKeys.filter((key) => !ALLOWED_UPDATE_FIELDS.includes(key as any))
@@ -278,6 +334,46 @@ export async function updateBlink(slug: string, updates: Partial<BlinkData>): Pr
     fields.push(`icon_url = $${paramCount++}`)
     values.push(updates.icon_url)
   }
+  if (updates.refund_policy !== undefined) {
+    fields.push(`refund_policy = $${paramCount++}`)
+    values.push(updates.refund_policy)
+  }
+  if (updates.refund_percent !== undefined) {
+    fields.push(`refund_percent = $${paramCount++}`)
+    values.push(updates.refund_percent)
+  }
+  if (updates.request_template !== undefined) {
+    // null clears the template (back to the legacy body passthrough)
+    fields.push(`request_template = $${paramCount++}`)
+    values.push(updates.request_template ? JSON.stringify(updates.request_template) : null)
+  }
+  if (updates.response_transform !== undefined) {
+    fields.push(`response_transform = $${paramCount++}`)
+    values.push(updates.response_transform ? JSON.stringify(updates.response_transform) : null)
+  }
+  if (updates.pipeline !== undefined) {
+    fields.push(`pipeline = $${paramCount++}`)
+    values.push(JSON.stringify(updates.pipeline))
+  }
+  if (updates.actions_config !== undefined) {
+    fields.push(`actions_config = $${paramCount++}`)
+    values.push(updates.actions_config ? JSON.stringify(updates.actions_config) : null)
+  }
+  if (updates.access_pass !== undefined) {
+    // null stops selling passes (passes already bought stay valid)
+    fields.push(`access_pass = $${paramCount++}`)
+    values.push(updates.access_pass ? JSON.stringify(updates.access_pass) : null)
+  }
+  if (updates.pricing_rules !== undefined) {
+    // null goes back to the fixed price_usdc (runs already created keep their quote)
+    fields.push(`pricing_rules = $${paramCount++}`)
+    values.push(updates.pricing_rules ? JSON.stringify(updates.pricing_rules) : null)
+  }
+  if (updates.revenue_splits !== undefined) {
+    // null pays whole payments to payout_wallet again (runs already paid keep their legs)
+    fields.push(`revenue_splits = $${paramCount++}`)
+    values.push(updates.revenue_splits ? JSON.stringify(updates.revenue_splits) : null)
+  }
 
   if (fields.length === 0) {
     return getBlinkBySlug(slug)
@@ -289,7 +385,7 @@ export async function updateBlink(slug: string, updates: Partial<BlinkData>): Pr
     `UPDATE blinks
     SET ${fields.join(', ')}
     WHERE slug = $${paramCount}
-    RETURNING id, slug, title, description, price_usdc::text, payout_wallet, icon_url, endpoint_url, method, category, runs, status, payment_token, payment_mode, reward_amount::text, funded_wallet, max_claims_per_user, creator_id`,
+    RETURNING id, slug, title, description, price_usdc::text, payout_wallet, icon_url, endpoint_url, method, category, runs, status, payment_token, blockchain, payment_mode, reward_amount::text, funded_wallet, max_claims_per_user, parameters, request_template, response_transform, pipeline, actions_config, access_pass, pricing_rules, revenue_splits, refund_policy, refund_percent, creator_id`,
     values
   )
 
@@ -313,11 +409,22 @@ export async function updateBlink(slug: string, updates: Partial<BlinkData>): Pr
     runs: row.runs,
     status: row.status,
     payment_token: row.payment_token || 'SOL',
+    blockchain: row.blockchain || 'solana',
     payout_wallet: row.payout_wallet,
     payment_mode: row.payment_mode || 'charge',
     reward_amount: row.reward_amount,
     funded_wallet: row.funded_wallet,
     max_claims_per_user: row.max_claims_per_user,
+    parameters: row.parameters || undefined,
+    request_template: row.request_template || undefined,
+    response_transform: row.response_transform || undefined,
+    pipeline: row.pipeline || undefined,
+    actions_config: row.actions_config || undefined,
+    access_pass: row.access_pass || undefined,
+    pricing_rules: row.pricing_rules || undefined,
+    revenue_splits: row.revenue_splits || undefined,
+    refund_policy: row.refund_policy,
+    refund_percent: row.refund_percent,
     creator_id: row.creator_id,
     creator: { wallet: creatorResult.rows[0].wallet },
   }
@@ -359,7 +466,7 @@ export async function updateBlinkHealth(blinkId: string, healthStatus: 'healthy'
 export async function updateBlinkBadges(blinkId: string): Promise<boolean> {
   // Get blink metrics
   const result = await getPool().query(
-    `SELECT avg_latency_ms, success_rate_percent, runs, is_public
+    `SELECT avg_latency_ms, success_rate_percent, runs, is_public, rating_avg, rating_count
      FROM blinks
      WHERE id = $1`,
     [blinkId]
@@ -385,6 +492,11 @@ export async function updateBlinkBadges(blinkId: string): Promise<boolean> {
     badges.push('trending')
   }
 
+  // Top rated badge: enough verified-payer reviews with a high average
+  if (blink.rating_count >= TOP_RATED_MIN_REVIEWS && parseFloat(blink.rating_avg) >= TOP_RATED_MIN_RATING) {
+    badges.push('top_rated')
+  }
+
   // Update badges
   const updateResult = await getPool().query(
     `UPDATE blinks
@@ -0,0 +1,289 @@
+/**
+ * Catalog Module
+ * Public catalog search: filtering, full-text ranking, sorting, facets and pagination
+ *
+ * Everything happens in SQL so pages are sorted against the whole result set and the
+ * total is exact. Search matches the blink's search_vector (title, category,
+ * description) or the creator's display name. Pages can be fetched by offset or by
+ * cursor; a cursor carries the last row's sort key and id (keyset pagination), so
+ * pages stay consistent while new blinks are published.
+ */
+
+import type {
+  CatalogFilters,
+  CatalogSort,
+  CatalogFacetCount,
+  CatalogFacets,
+  CatalogSearchResult,
+} from '@blink402/types'
+import { getPool } from './connection.js'
+import { mapRowToBlinkData } from './blinks.js'
+
+// Only what the catalog shows (request templates can carry static upstream headers)
+const CATALOG_SELECT_FIELDS = `
+  b.id, b.slug, b.title, b.description, b.price_usdc::text,
+  b.icon_url, b.endpoint_url, b.method, b.category,
+  b.runs, b.status, b.payment_token, b.blockchain, b.payout_wallet, b.access_duration_days,
+  b.payment_mode, b.reward_amount::text, b.funded_wallet, b.max_claims_per_user,
+  b.refund_policy, b.refund_percent,
+  b.is_public, b.is_featured, b.publish_to_catalog, b.media_type,
+  b.avg_latency_ms, b.success_rate_percent, b.badges, b.catalog_published_at,
+  b.reported_count, b.is_forkable, b.health_status,
+  b.rating_avg, b.rating_count,
+  b.lottery_enabled, b.lottery_round_duration_minutes,
+  b.creator_id,
+  c.wallet as creator_wallet,
+  c.is_verified as creator_is_verified,
+  c.display_name as creator_display_name,
+  c.avatar_url as creator_avatar_url,
+  c.profile_slug as creator_profile_slug
+`
+
+// Publishing standards every catalog blink must still meet
+const CATALOG_BASE_CONDITIONS = [
+  'b.is_public = true',
+  'b.publish_to_catalog = true',
+  "b.status = 'active'",
+  "b.health_status != 'unhealthy'",
+  "b.title IS NOT NULL AND b.title != ''",
+  'b.description IS NOT NULL AND LENGTH(b.description) >= 20',
+  '(b.success_rate_percent IS NULL OR b.success_rate_percent >= 70)',
+  'b.reported_count <= 5',
+]
+
+const CREATOR_NAME_VECTOR = `to_tsvector('english', COALESCE(c.display_name, ''))`
+
+// Sort key (compared with the cursor as its SQL type) and direction; id breaks ties
+const CATALOG_SORTS: Record<CatalogSort, { key: string; type: string; direction: 'ASC' | 'DESC' }> = {
+  relevance: { key: '', type: 'real', direction: 'DESC' }, // Rank expression depends on the search param
+  newest: { key: 'COALESCE(b.catalog_published_at, b.created_at)', type: 'timestamptz', direction: 'DESC' },
+  popular: { key: 'b.runs', type: 'bigint', direction: 'DESC' },
+  price_low: { key: 'b.price_usdc', type: 'numeric', direction: 'ASC' },
+  price_high: { key: 'b.price_usdc', type: 'numeric', direction: 'DESC' },
+  top_rated: { key: 'b.rating_score', type: 'numeric', direction: 'DESC' },
+}
+
+/** Price facet buckets in USDC (min inclusive, max exclusive) */
+export const CATALOG_PRICE_BUCKETS: { label: string; min: number; max: number | null }[] = [
+  { label: 'Under $0.01', min: 0, max: 0.01 },
+  { label: '$0.01 - $0.10', min: 0.01, max: 0.1 },
+  { label: '$0.10 - $1', min: 0.1, max: 1 },
+  { label: '$1 and up', min: 1, max: null },
+]
+
+/** Position after the last row of a page */
+export interface CatalogCursor {
+  sort: CatalogSort
+  key: string // Sort key as Postgres text (exact, e.g. microsecond timestamps)
+  id: string
+}
+
+/**
+ * Encode a cursor for the API (opaque to clients)
+ */
+function encodeCatalogCursor(cursor: CatalogCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.key, cursor.id])).toString('base64url')
+}
+
+/**
+ * Decode a cursor from the API
+ * @returns Cursor, or null if malformed or issued for a different sort
+ */
+export function parseCatalogCursor(value: string, sort: CatalogSort): CatalogCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    if (!Array.isArray(decoded) || decoded.length !== 3 || decoded.some((part) => typeof part !== 'string')) {
+      return null
+    }
+    const [cursorSort, key, id] = decoded as string[]
+    if (cursorSort !== sort || !/^[0-9a-f-]{36}$/i.test(id)) {
+      return null
+    }
+    return { sort: cursorSort, key, id }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * WHERE clause for catalog queries
+ * @param omit - Filters to leave out (a facet ignores its own filter)
+ * @param params - Query params, appended to
+ * @returns SQL conditions and the index of the search param (null when not searching)
+ */
+function buildCatalogWhere(
+  filters: CatalogFilters,
+  params: any[],
+  omit: (keyof CatalogFilters)[] = []
+): { where: string; searchParam: number | null } {
+  const conditions = [...CATALOG_BASE_CONDITIONS]
+  let searchParam: number | null = null
+
+  const use = (key: keyof CatalogFilters) => filters[key] !== undefined && !omit.includes(key)
+
+  if (use('category')) {
+    params.push(filters.category)
+    conditions.push(`b.category = $${params.length}`)
+  }
+  if (use('price_min')) {
+    params.push(filters.price_min)
+    conditions.push(`b.price_usdc >= $${params.length}`)
+  }
+  if (use('price_max')) {
+    params.push(filters.price_max)
+    conditions.push(`b.price_usdc <= $${params.length}`)
+  }
+  if (use('media_type')) {
+    params.push(filters.media_type)
+    conditions.push(`b.media_type = $${params.length}`)
+  }
+  if (use('badges') && filters.badges!.length > 0) {
+    params.push(JSON.stringify(filters.badges))
+    conditions.push(`b.badges @> $${params.length}::jsonb`)
+  }
+  if (use('search')) {
+    params.push(filters.search)
+    searchParam = params.length
+    const query = `websearch_to_tsquery('english', $${searchParam})`
+    conditions.push(`(b.search_vector @@ ${query} OR ${CREATOR_NAME_VECTOR} @@ ${query})`)
+  }
+
+  return { where: conditions.join('\n      AND '), searchParam }
+}
+
+/**
+ * Count matching blinks per value of a column
+ */
+async function getFacetCounts(
+  filters: CatalogFilters,
+  valueExpression: string,
+  omit: (keyof CatalogFilters)[],
+  from: string = ''
+): Promise<CatalogFacetCount[]> {
+  const params: any[] = []
+  const { where } = buildCatalogWhere(filters, params, omit)
+
+  const result = await getPool().query(
+    `SELECT ${valueExpression} AS value, COUNT(*)::int AS count
+    FROM blinks b
+    JOIN creators c ON b.creator_id = c.id${from}
+    WHERE ${where}
+      AND ${valueExpression} IS NOT NULL
+    GROUP BY 1
+    ORDER BY count DESC, value ASC`,
+    params
+  )
+
+  return result.rows.map((row) => ({ value: row.value, count: row.count }))
+}
+
+/**
+ * Facet counts and the exact total for a search
+ */
+async function getCatalogFacets(filters: CatalogFilters): Promise<{ total: number; facets: CatalogFacets }> {
+  const priceParams: any[] = []
+  const priceWhere = buildCatalogWhere(filters, priceParams, ['price_min', 'price_max']).where
+  const bucketCounts = CATALOG_PRICE_BUCKETS.map((bucket, index) => {
+    const upper = bucket.max === null ? '' : ` AND b.price_usdc < ${bucket.max}`
+    return `COUNT(*) FILTER (WHERE b.price_usdc >= ${bucket.min}${upper})::int AS bucket_${index}`
+  }).join(',\n      ')
+
+  const totalParams: any[] = []
+  const totalWhere = buildCatalogWhere(filters, totalParams).where
+
+  const [total, category, mediaType, badges, price] = await Promise.all([
+    getPool().query(
+      `SELECT COUNT(*)::int AS total
+      FROM blinks b
+      JOIN creators c ON b.creator_id = c.id
+      WHERE ${totalWhere}`,
+      totalParams
+    ),
+    getFacetCounts(filters, 'b.category', ['category']),
+    getFacetCounts(filters, 'b.media_type', ['media_type']),
+    // Badges filter by "has all of", so their counts narrow with every selected badge
+    getFacetCounts(filters, 'badge.code', [], `\n    CROSS JOIN LATERAL jsonb_array_elements_text(b.badges) AS badge(code)`),
+    getPool().query(
+      `SELECT
+      ${bucketCounts}
+      FROM blinks b
+      JOIN creators c ON b.creator_id = c.id
+      WHERE ${priceWhere}`,
+      priceParams
+    ),
+  ])
+
+  return {
+    total: total.rows[0].total,
+    facets: {
+      category,
+      media_type: mediaType,
+      badges,
+      price: CATALOG_PRICE_BUCKETS.map((bucket, index) => ({
+        ...bucket,
+        count: price.rows[0][`bucket_${index}`],
+      })),
+    },
+  }
+}
+
+/**
+ * Search the public catalog
+ * @param options.sort - 'relevance' falls back to 'newest' when there is no search
+ * @param options.cursor - Continue after this position (offset is ignored)
+ * @returns Page of blinks, exact total, facet counts and the next page's cursor
+ */
+export async function searchCatalog(
+  filters: CatalogFilters,
+  options: { sort: CatalogSort; limit: number; offset?: number; cursor?: CatalogCursor | null }
+): Promise<CatalogSearchResult> {
+  const { limit, offset = 0, cursor } = options
+  const params: any[] = []
+  const { where, searchParam } = buildCatalogWhere(filters, params)
+
+  const sort: CatalogSort = options.sort === 'relevance' && searchParam === null ? 'newest' : options.sort
+  const { type, direction } = CATALOG_SORTS[sort]
+  const key = sort === 'relevance'
+    ? `ts_rank(b.search_vector || setweight(${CREATOR_NAME_VECTOR}, 'B'), websearch_to_tsquery('english', $${searchParam}))`
+    : CATALOG_SORTS[sort].key
+
+  let query = `
+    SELECT ${CATALOG_SELECT_FIELDS}, (${key})::text AS sort_key
+    FROM blinks b
+    JOIN creators c ON b.creator_id = c.id
+    WHERE ${where}`
+
+  if (cursor) {
+    params.push(cursor.key, cursor.id)
+    query += `
+      AND ((${key}), b.id) ${direction === 'DESC' ? '<' : '>'} ($${params.length - 1}::${type}, $${params.length}::uuid)`
+  }
+
+  // One extra row tells whether there is a next page
+  params.push(limit + 1)
+  query += `
+    ORDER BY (${key}) ${direction}, b.id ${direction}
+    LIMIT $${params.length}`
+
+  if (!cursor && offset > 0) {
+    params.push(offset)
+    query += ` OFFSET $${params.length}`
+  }
+
+  const [page, { total, facets }] = await Promise.all([
+    getPool().query(query, params),
+    getCatalogFacets(filters),
+  ])
+
+  const rows = page.rows.slice(0, limit)
+  const last = rows[rows.length - 1]
+
+  return {
+    blinks: rows.map(mapRowToBlinkData),
+    total,
+    facets,
+    next_cursor: page.rows.length > limit && last
+      ? encodeCatalogCursor({ sort, key: last.sort_key, id: last.id })
+      : null,
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Coupons Module
+ * Creator-issued promo codes and their redemptions
+ *
+ * A coupon is looked up by code for the blink being paid (it must belong to the
+ * blink's creator and cover that blink) and applied when the run is created; the
+ * applied coupon is stored in run.metadata.coupon. The redemption is recorded in
+ * the transaction that marks the run paid (see updateRunPaymentAtomic), so only
+ * paid runs count against the coupon's limits, and the limits are checked again
+ * there (against the actual payer) with the coupon row locked.
+ */
+
+import type { PoolClient } from 'pg'
+import type { Coupon, CouponDiscountType } from '@blink402/types'
+import { getPool } from './connection.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/database:coupons')
+
+const COUPON_COLUMNS = `cp.id, cp.code, cp.discount_type, cp.discount_value::text, cp.blink_ids,
+  cp.max_redemptions, cp.max_per_wallet, cp.redemptions,
+  COALESCE((SELECT SUM(cr.discount_usdc) FROM coupon_redemptions cr WHERE cr.coupon_id = cp.id), 0)::text AS discount_total_usdc,
+  cp.expires_at, cp.is_active, cp.created_at`
+
+/**
+ * Create a coupon
+ * @param params.code - Stored uppercase (codes are unique per creator)
+ * @param params.blinkIds - Only these blinks (null = all of the creator's blinks)
+ */
+export async function createCoupon(params: {
+  creatorId: string
+  code: string
+  discountType: CouponDiscountType
+  discountValue: string
+  blinkIds?: string[] | null
+  maxRedemptions?: number | null
+  maxPerWallet?: number | null
+  expiresAt?: Date | null
+}): Promise<Coupon> {
+  const { creatorId, code, discountType, discountValue, blinkIds, maxRedemptions, maxPerWallet, expiresAt } = params
+
+  const result = await getPool().query<Coupon>(
+    `WITH cp AS (
+       INSERT INTO coupons (creator_id, code, discount_type, discount_value, blink_ids, max_redemptions, max_per_wallet, expires_at)
+       VALUES ($1, UPPER($2), $3, $4, $5, $6, $7, $8)
+       RETURNING *
+     )
+     SELECT ${COUPON_COLUMNS} FROM cp`,
+    [creatorId, code, discountType, discountValue, blinkIds ?? null, maxRedemptions ?? null, maxPerWallet ?? null, expiresAt ?? null]
+  )
+
+  logger.info('Created coupon', { creatorId, couponId: result.rows[0].id, code: result.rows[0].code })
+  return result.rows[0]
+}
+
+/**
+ * List a creator's coupons
+ * @param wallet - Creator wallet address
+ */
+export async function getCreatorCoupons(wallet: string): Promise<Coupon[]> {
+  const result = await getPool().query<Coupon>(
+    `SELECT ${COUPON_COLUMNS}
+     FROM coupons cp
+     JOIN creators c ON c.id = cp.creator_id
+     WHERE c.wallet = $1
+     ORDER BY cp.created_at DESC`,
+    [wallet]
+  )
+  return result.rows
+}
+
+/**
+ * Update a coupon owned by the wallet
+ * The code and discount are fixed once issued; limits, scope, expiry and is_active can change.
+ * @returns Updated coupon or null if not found / not owned
+ */
+export async function updateCreatorCoupon(
+  id: string,
+  wallet: string,
+  updates: {
+    blinkIds?: string[] | null
+    maxRedemptions?: number | null
+    maxPerWallet?: number | null
+    expiresAt?: Date | null
+    isActive?: boolean
+  }
+): Promise<Coupon | null> {
+  const columns: Record<string, unknown> = {
+    blink_ids: updates.blinkIds,
+    max_redemptions: updates.maxRedemptions,
+    max_per_wallet: updates.maxPerWallet,
+    expires_at: updates.expiresAt,
+    is_active: updates.isActive,
+  }
+
+  const fields: string[] = []
+  const values: unknown[] = []
+  for (const [column, value] of Object.entries(columns)) {
+    if (value === undefined) continue
+    values.push(value)
+    fields.push(`${column} = $${values.length}`)
+  }
+
+  values.push(id, wallet)
+  const result = await getPool().query<Coupon>(
+    `WITH cp AS (
+       UPDATE coupons cp
+       SET ${[...fields, 'updated_at = NOW()'].join(', ')}
+       FROM creators c
+       WHERE c.id = cp.creator_id AND cp.id = $${values.length - 1} AND c.wallet = $${values.length}
+       RETURNING cp.*
+     )
+     SELECT ${COUPON_COLUMNS} FROM cp`,
+    values
+  )
+
+  return result.rows[0] || null
+}
+
+/**
+ * Find the coupon a code refers to when paying for a blink
+ * The code must belong to the blink's creator and the coupon must cover the blink.
+ * Whether it is active, unexpired and within its limits is left to the caller.
+ */
+export async function getCouponForBlink(code: string, blinkId: string): Promise<Coupon | null> {
+  const result = await getPool().query<Coupon>(
+    `SELECT ${COUPON_COLUMNS}
+     FROM coupons cp
+     JOIN blinks b ON b.creator_id = cp.creator_id
+     WHERE b.id = $2 AND cp.code = UPPER($1)
+       AND (cp.blink_ids IS NULL OR b.id = ANY(cp.blink_ids))`,
+    [code, blinkId]
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Count a wallet's paid runs that used a coupon
+ */
+export async function countWalletCouponRedemptions(couponId: string, wallet: string): Promise<number> {
+  const result = await getPool().query(
+    `SELECT COUNT(*)::int AS count FROM coupon_redemptions WHERE coupon_id = $1 AND wallet = $2`,
+    [couponId, wallet]
+  )
+  return result.rows[0].count
+}
+
+/**
+ * Record the coupon a paid run used (from run.metadata.coupon)
+ * Must run inside the transaction that marks the run paid. Idempotent per run.
+ * The coupon row is locked while max_redemptions and max_per_wallet (for the payer, who
+ * may not be the wallet the run was quoted for) are checked, so concurrent payments
+ * can't take it past its limits.
+ * @returns Why the discount was refused (nothing is recorded), or null when it was redeemed
+ */
+export async function recordCouponRedemption(
+  run: { id: string; blink_id: string; payer: string | null; metadata?: Record<string, any> | null },
+  client: PoolClient
+): Promise<string | null> {
+  const coupon = run.metadata?.coupon
+  if (!coupon?.id || !run.payer) return null
+
+  const locked = await client.query(
+    `SELECT max_redemptions, max_per_wallet, redemptions,
+       (SELECT COUNT(*)::int FROM coupon_redemptions cr WHERE cr.coupon_id = cp.id AND cr.wallet = $2 AND cr.run_id <> $3) AS wallet_redemptions,
+       EXISTS (SELECT 1 FROM coupon_redemptions cr WHERE cr.run_id = $3) AS recorded
+     FROM coupons cp
+     WHERE cp.id = $1
+     FOR UPDATE`,
+    [coupon.id, run.payer, run.id]
+  )
+  const limits = locked.rows[0]
+  if (limits && !limits.recorded) {
+    if (limits.max_redemptions !== null && limits.redemptions >= limits.max_redemptions) {
+      return 'Coupon has been fully redeemed'
+    }
+    if (limits.max_per_wallet !== null && limits.wallet_redemptions >= limits.max_per_wallet) {
+      return 'Payer has already used this coupon the maximum number of times'
+    }
+  }
+
+  const inserted = await client.query(
+    `INSERT INTO coupon_redemptions (run_id, coupon_id, blink_id, wallet, discount_usdc, price_usdc)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (run_id) DO NOTHING
+     RETURNING run_id`,
+    [run.id, coupon.id, run.blink_id, run.payer, coupon.discount_usdc, run.metadata?.amountUsdc ?? 0]
+  )
+
+  if (inserted.rows.length > 0) {
+    await client.query(`UPDATE coupons SET redemptions = redemptions + 1 WHERE id = $1`, [coupon.id])
+  }
+  return null
+}
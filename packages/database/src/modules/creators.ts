@@ -24,7 +24,7 @@ export async function getOrCreateCreator(wallet: string): Promise<string> {
 /**
  * Get creator profile by wallet address or custom slug
  * @param walletOrSlug - Wallet address (44 chars) or custom profile slug
- * @returns Creator profile with stats, or null if not found
+ * @returns Creator profile with stats (total_earnings: net USDC ledger balance), or null if not found
  */
 export async function getCreatorProfile(walletOrSlug: string): Promise<CreatorProfile | null> {
   const isWallet = walletOrSlug.length === 44
@@ -34,7 +34,9 @@ export async function getCreatorProfile(walletOrSlug: string): Promise<CreatorPr
         c.id, c.wallet, c.display_name, c.bio, c.avatar_url, c.banner_url,
         c.profile_slug, c.social_links, c.created_at, c.updated_at,
         COUNT(DISTINCT b.id) as total_blinks,
-        COALESCE(SUM(CASE WHEN r.status = 'executed' THEN b.price_usdc ELSE 0 END), 0)::text as total_earnings,
+        (SELECT COALESCE(SUM(CASE WHEN le.direction = 'credit' THEN le.amount ELSE -le.amount END), 0)
+         FROM ledger_entries le JOIN ledger_transactions lt ON lt.id = le.transaction_id
+         WHERE le.account = 'creator:' || c.id AND lt.token = 'USDC')::text as total_earnings,
         COUNT(DISTINCT r.id) FILTER (WHERE r.status = 'executed') as total_runs
       FROM creators c
       LEFT JOIN blinks b ON c.id = b.creator_id
@@ -45,7 +47,9 @@ export async function getCreatorProfile(walletOrSlug: string): Promise<CreatorPr
         c.id, c.wallet, c.display_name, c.bio, c.avatar_url, c.banner_url,
         c.profile_slug, c.social_links, c.created_at, c.updated_at,
         COUNT(DISTINCT b.id) as total_blinks,
-        COALESCE(SUM(CASE WHEN r.status = 'executed' THEN b.price_usdc ELSE 0 END), 0)::text as total_earnings,
+        (SELECT COALESCE(SUM(CASE WHEN le.direction = 'credit' THEN le.amount ELSE -le.amount END), 0)
+         FROM ledger_entries le JOIN ledger_transactions lt ON lt.id = le.transaction_id
+         WHERE le.account = 'creator:' || c.id AND lt.token = 'USDC')::text as total_earnings,
         COUNT(DISTINCT r.id) FILTER (WHERE r.status = 'executed') as total_runs
       FROM creators c
       LEFT JOIN blinks b ON c.id = b.creator_id
@@ -213,7 +217,7 @@ export async function getBlinksByCreator(
     `SELECT
       b.id, b.slug, b.title, b.description, b.price_usdc::text,
       b.icon_url, b.endpoint_url, b.method, b.category,
-      b.runs, b.status, b.payment_token, b.payout_wallet, b.access_duration_days,
+      b.runs, b.status, b.payment_token, b.blockchain, b.payout_wallet, b.access_duration_days,
       b.payment_mode, b.reward_amount::text, b.funded_wallet, b.max_claims_per_user,
       b.creator_id, c.wallet as creator_wallet, c.display_name as creator_display_name,
       c.avatar_url as creator_avatar_url, c.profile_slug as creator_profile_slug
@@ -238,6 +242,7 @@ export async function getBlinksByCreator(
     runs: row.runs,
     status: row.status,
     payment_token: row.payment_token || 'SOL',
+    blockchain: row.blockchain || 'solana',
     payout_wallet: row.payout_wallet,
     payment_mode: row.payment_mode || 'charge',
     reward_amount: row.reward_amount,
@@ -0,0 +1,116 @@
+/**
+ * Credentials Module
+ * Stores encrypted upstream API credentials per blink
+ *
+ * Secrets are encrypted by the caller (see encryption.ts) before they reach this module
+ * and are only decrypted by the proxy at request time.
+ */
+
+import { getPool } from './connection.js'
+import { createLogger } from '@blink402/config'
+import type { UpstreamAuthType, UpstreamAuthSummary } from '@blink402/types'
+
+const logger = createLogger('@blink402/database:credentials')
+
+/**
+ * Blink credential record
+ * Contains the encrypted secret - never send this to clients
+ */
+export interface BlinkCredentialData {
+  blink_id: string
+  auth_type: UpstreamAuthType
+  key_name: string | null
+  encrypted_secret: string
+  masked_secret: string
+  created_at: Date
+  updated_at: Date
+}
+
+/**
+ * Create or replace the upstream credential for a blink
+ * @param params - Credential parameters (secret already encrypted)
+ */
+export async function saveBlinkCredential(params: {
+  blinkId: string
+  authType: UpstreamAuthType
+  keyName: string | null
+  encryptedSecret: string
+  maskedSecret: string
+}): Promise<void> {
+  const { blinkId, authType, keyName, encryptedSecret, maskedSecret } = params
+
+  await getPool().query(
+    `INSERT INTO blink_credentials (blink_id, auth_type, key_name, encrypted_secret, masked_secret)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (blink_id) DO UPDATE
+     SET auth_type = EXCLUDED.auth_type,
+         key_name = EXCLUDED.key_name,
+         encrypted_secret = EXCLUDED.encrypted_secret,
+         masked_secret = EXCLUDED.masked_secret,
+         updated_at = NOW()`,
+    [blinkId, authType, keyName, encryptedSecret, maskedSecret]
+  )
+
+  logger.info('Saved upstream credential for blink', { blinkId, authType })
+}
+
+/**
+ * Get the encrypted upstream credential for a blink (proxy use only)
+ * @param blinkId - Blink UUID
+ * @returns Credential record or null if the blink has none
+ */
+export async function getBlinkCredential(blinkId: string): Promise<BlinkCredentialData | null> {
+  const result = await getPool().query<BlinkCredentialData>(
+    `SELECT blink_id, auth_type, key_name, encrypted_secret, masked_secret, created_at, updated_at
+     FROM blink_credentials
+     WHERE blink_id = $1`,
+    [blinkId]
+  )
+
+  return result.rows[0] || null
+}
+
+/**
+ * Get a display-safe summary of a blink's upstream credential
+ * @param blinkId - Blink UUID
+ * @returns Summary without any secret material
+ */
+export async function getBlinkCredentialSummary(blinkId: string): Promise<UpstreamAuthSummary> {
+  const result = await getPool().query(
+    `SELECT auth_type, key_name, masked_secret, updated_at
+     FROM blink_credentials
+     WHERE blink_id = $1`,
+    [blinkId]
+  )
+
+  if (result.rows.length === 0) {
+    return { configured: false }
+  }
+
+  const row = result.rows[0]
+  return {
+    configured: true,
+    type: row.auth_type,
+    key_name: row.key_name,
+    masked: row.masked_secret,
+    updated_at: row.updated_at,
+  }
+}
+
+/**
+ * Remove the upstream credential for a blink
+ * @param blinkId - Blink UUID
+ * @returns True if a credential was removed
+ */
+export async function deleteBlinkCredential(blinkId: string): Promise<boolean> {
+  const result = await getPool().query(
+    `DELETE FROM blink_credentials WHERE blink_id = $1`,
+    [blinkId]
+  )
+
+  const deleted = (result.rowCount ?? 0) > 0
+  if (deleted) {
+    logger.info('Deleted upstream credential for blink', { blinkId })
+  }
+  return deleted
+}
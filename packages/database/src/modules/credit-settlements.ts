@@ -0,0 +1,200 @@
+/**
+ * Credit Settlements Module
+ * Per-run transfers that pay creators for calls paid with prepaid credits
+ *
+ * Credit deposits are held in the credits treasury wallet, so a credit-paid run moves
+ * no funds when it is paid. One settlement row per such run is written in the transaction
+ * that marks it paid (see updateRunPaymentAtomic), addressed to the blink's payout wallet.
+ * The settlement worker sends the rows of executed runs from the treasury and cancels those
+ * of failed runs (their payment goes back to credits); a broadcast transfer is saved as
+ * sending and settled on-chain rather than sent again. Every sent row is a credit_settlement
+ * ledger transaction that moves the payment from credits_payable to the creator's account.
+ * Lottery and revenue split runs are paid out by their own flows and get no row here.
+ */
+
+import type { PoolClient } from 'pg'
+import type { CreditSettlement } from '@blink402/types'
+import { getPool } from './connection.js'
+import { recordLedgerCreditSettlement } from './ledger.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/database:credit-settlements')
+
+/** Settlements are retried with exponential backoff (1, 2, 4, 8 minutes) before giving up */
+export const MAX_CREDIT_SETTLEMENT_ATTEMPTS = 5
+
+const SETTLEMENT_FIELDS = `s.id, s.run_id, s.blink_id, s.creator_id, s.wallet, s.amount_usdc::text, s.status, s.signature,
+  s.attempts, s.next_attempt_at, s.last_error, s.created_at, s.paid_at`
+
+/**
+ * Settlement claimed by the settlement worker, with the run and blink it belongs to
+ */
+export interface CreditSettlementData extends CreditSettlement {
+  reference: string
+  blink_slug: string
+  last_valid_block_height: string | null // Sending settlements: the transfer can't land after this block height
+}
+
+/**
+ * Write the settlement of a credit-paid run that was just marked paid
+ * Must run inside the transaction that marks the run paid. Idempotent per run.
+ */
+export async function recordCreditSettlement(
+  run: { id: string; blink_id: string; metadata?: Record<string, any> | null },
+  client: PoolClient
+): Promise<void> {
+  if (run.metadata?.flow !== 'credits' || run.metadata?.settlementWallet) return
+
+  await client.query(
+    `INSERT INTO credit_settlements (run_id, blink_id, creator_id, wallet, amount_usdc)
+     SELECT $1, b.id, b.creator_id, b.payout_wallet, COALESCE($3::numeric, b.price_usdc)
+     FROM blinks b
+     WHERE b.id = $2 AND NOT b.lottery_enabled
+     ON CONFLICT (run_id) DO NOTHING`,
+    [run.id, run.blink_id, run.metadata?.amountUsdc ?? null]
+  )
+}
+
+/**
+ * Claim settlements whose run has executed and whose next attempt is due, and sending ones due an on-chain check
+ * Claimed rows get a 5 minute lease on next_attempt_at so concurrent workers
+ * (or a crashed worker) never send the same settlement twice in a row.
+ */
+export async function claimCreditSettlements(limit = 25): Promise<CreditSettlementData[]> {
+  const result = await getPool().query(
+    `WITH due AS (
+       SELECT s.id FROM credit_settlements s
+       JOIN runs r ON r.id = s.run_id
+       WHERE s.status IN ('pending', 'sending', 'failed')
+         AND s.next_attempt_at IS NOT NULL
+         AND s.next_attempt_at <= NOW()
+         AND (r.status = 'executed' OR s.status = 'sending')
+       ORDER BY s.next_attempt_at ASC
+       LIMIT $1
+       FOR UPDATE OF s SKIP LOCKED
+     ), claimed AS (
+       UPDATE credit_settlements s
+       SET next_attempt_at = NOW() + INTERVAL '5 minutes'
+       FROM due
+       WHERE s.id = due.id
+       RETURNING s.*
+     )
+     SELECT ${SETTLEMENT_FIELDS}, s.last_valid_block_height::text, r.reference, b.slug AS blink_slug
+     FROM claimed s
+     JOIN runs r ON r.id = s.run_id
+     JOIN blinks b ON b.id = s.blink_id`,
+    [limit]
+  )
+
+  return result.rows
+}
+
+/**
+ * Record a broadcast settlement transfer before waiting for it to confirm
+ * The settlement worker checks the signature on-chain once next_attempt_at passes (the
+ * settlement is never sent again while the transfer can still land).
+ */
+export async function markCreditSettlementSending(params: {
+  id: string
+  signature: string
+  lastValidBlockHeight: number
+}): Promise<void> {
+  const result = await getPool().query(
+    `UPDATE credit_settlements
+     SET status = 'sending', signature = $1, last_valid_block_height = $2,
+         next_attempt_at = NOW() + INTERVAL '2 minutes'
+     WHERE id = $3 AND status IN ('pending', 'failed')`,
+    [params.signature, params.lastValidBlockHeight, params.id]
+  )
+
+  if (result.rowCount === 0) {
+    throw new Error(`Credit settlement ${params.id} not found or already sent`)
+  }
+}
+
+/**
+ * Mark a settlement sent and record it in the ledger
+ * Idempotent: an already completed settlement is returned unchanged.
+ * @param params.fromWallet - Credits treasury wallet the transfer was sent from
+ */
+export async function completeCreditSettlement(params: {
+  id: string
+  signature: string
+  fromWallet: string
+}): Promise<CreditSettlement> {
+  const result = await getPool().query(
+    `UPDATE credit_settlements s
+     SET status = 'completed', signature = $1, attempts = attempts + 1, next_attempt_at = NULL,
+         last_error = NULL, paid_at = NOW()
+     WHERE id = $2 AND status <> 'completed'
+     RETURNING ${SETTLEMENT_FIELDS}`,
+    [params.signature, params.id]
+  )
+
+  if (result.rows.length === 0) {
+    const existing = await getPool().query(
+      `SELECT ${SETTLEMENT_FIELDS} FROM credit_settlements s WHERE id = $1 AND status = 'completed'`,
+      [params.id]
+    )
+    if (existing.rows.length === 0) {
+      throw new Error(`Credit settlement ${params.id} not found`)
+    }
+    return existing.rows[0]
+  }
+
+  await recordLedgerCreditSettlement(params.id, params.fromWallet)
+
+  return result.rows[0]
+}
+
+/**
+ * Record a failed transfer and schedule the next attempt
+ * After MAX_CREDIT_SETTLEMENT_ATTEMPTS next_attempt_at stays NULL and the settlement needs manual handling.
+ * Only call this when no transfer can land: before broadcasting, or once a sending settlement's
+ * transfer failed or expired on-chain.
+ */
+export async function failCreditSettlement(params: {
+  id: string
+  error: string
+}): Promise<CreditSettlement> {
+  const result = await getPool().query(
+    `UPDATE credit_settlements s
+     SET status = 'failed',
+         attempts = attempts + 1,
+         last_error = $1,
+         next_attempt_at = CASE
+           WHEN attempts + 1 < $3 THEN NOW() + INTERVAL '1 minute' * POWER(2, attempts)
+           ELSE NULL
+         END
+     WHERE id = $2 AND status IN ('pending', 'sending', 'failed')
+     RETURNING ${SETTLEMENT_FIELDS}`,
+    [params.error, params.id, MAX_CREDIT_SETTLEMENT_ATTEMPTS]
+  )
+
+  if (result.rows.length === 0) {
+    throw new Error(`Credit settlement ${params.id} not found`)
+  }
+
+  logger.error('Credit settlement failed', {
+    settlementId: params.id,
+    error: params.error,
+    attempts: result.rows[0].attempts,
+    nextAttemptAt: result.rows[0].next_attempt_at,
+  })
+
+  return result.rows[0]
+}
+
+/**
+ * Cancel the unsent settlements of runs that failed (their payment goes back to credits instead)
+ * @returns Number of settlements cancelled
+ */
+export async function cancelFailedRunCreditSettlements(): Promise<number> {
+  const result = await getPool().query(
+    `UPDATE credit_settlements s
+     SET status = 'cancelled', next_attempt_at = NULL
+     FROM runs r
+     WHERE r.id = s.run_id AND r.status = 'failed' AND s.status IN ('pending', 'failed')`
+  )
+  return result.rowCount ?? 0
+}
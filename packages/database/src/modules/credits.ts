@@ -0,0 +1,497 @@
+/**
+ * Credits Module
+ * Prepaid USDC balances that pay /bazaar calls off-chain
+ *
+ * A wallet deposits USDC to the platform wallet once (recordCreditDeposit) and
+ * each credit-paid run is then debited inside the transaction that marks the
+ * run paid (see updateRunPaymentAtomic). Failed runs are refunded to the
+ * balance, and unused credits are withdrawn back on-chain (a broadcast withdrawal
+ * is settled on-chain, never by putting it back). Every balance change
+ * is a credit_transactions row; deposits, debits, refunds and withdrawals are
+ * also recorded in the payment ledger against the credits:<wallet> account.
+ */
+
+import type { Pool, PoolClient } from 'pg'
+import type { CreditAccount, CreditTransaction } from '@blink402/types'
+import { getPool } from './connection.js'
+import { ledgerAccount, recordLedgerTransaction, recordLedgerRefund } from './ledger.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/database:credits')
+
+// Debits minus refunds in the last 24 hours - what the daily limit applies to
+const SPENT_LAST_24H = `GREATEST(COALESCE(SUM(CASE WHEN ct.kind = 'debit' THEN ct.amount ELSE -ct.amount END), 0), 0)`
+
+const ACCOUNT_FIELDS = `ca.wallet, ca.balance::text, ca.per_call_limit::text, ca.daily_limit::text,
+  ca.created_at, ca.updated_at,
+  (
+    SELECT ${SPENT_LAST_24H}
+    FROM credit_transactions ct
+    WHERE ct.wallet = ca.wallet AND ct.kind IN ('debit', 'refund') AND ct.created_at > NOW() - INTERVAL '24 hours'
+  )::text AS spent_last_24h`
+
+const TRANSACTION_FIELDS = `ct.id, ct.wallet, ct.kind, ct.status, ct.amount::text, ct.balance_after::text,
+  ct.signature, ct.run_id, ct.error, ct.created_at, r.reference AS run_reference, b.slug AS blink_slug`
+
+/**
+ * Credits a wallet spent in the last 24 hours
+ */
+async function getSpentLast24h(wallet: string, db: Pool | PoolClient): Promise<number> {
+  const result = await db.query(
+    `SELECT ${SPENT_LAST_24H}::text AS spent
+     FROM credit_transactions ct
+     WHERE ct.wallet = $1 AND ct.kind IN ('debit', 'refund') AND ct.created_at > NOW() - INTERVAL '24 hours'`,
+    [wallet]
+  )
+  return parseFloat(result.rows[0].spent)
+}
+
+/**
+ * Get a wallet's credit balance and limits
+ * @returns null if the wallet never deposited or set limits
+ */
+export async function getCreditAccount(wallet: string): Promise<CreditAccount | null> {
+  const result = await getPool().query(
+    `SELECT ${ACCOUNT_FIELDS} FROM credit_accounts ca WHERE ca.wallet = $1`,
+    [wallet]
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Set a wallet's spend caps (null removes a cap)
+ * @param params.perCallLimit - Most a single call may debit, in USDC
+ * @param params.dailyLimit - Most all calls may debit in any rolling 24 hours, in USDC
+ */
+export async function setCreditLimits(params: {
+  wallet: string
+  perCallLimit: string | null
+  dailyLimit: string | null
+}): Promise<CreditAccount> {
+  const { wallet, perCallLimit, dailyLimit } = params
+
+  await getPool().query(
+    `INSERT INTO credit_accounts (wallet, per_call_limit, daily_limit)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (wallet) DO UPDATE
+     SET per_call_limit = EXCLUDED.per_call_limit, daily_limit = EXCLUDED.daily_limit, updated_at = NOW()`,
+    [wallet, perCallLimit, dailyLimit]
+  )
+
+  logger.info('Updated credit limits', { wallet, perCallLimit, dailyLimit })
+  return (await getCreditAccount(wallet))!
+}
+
+/**
+ * Credit a verified USDC deposit to the sender's balance
+ * Each transfer signature is credited at most once.
+ * @param params.depositWallet - Platform wallet that received the transfer
+ * @returns The deposit, and whether this call credited it (false if it was already credited)
+ */
+export async function recordCreditDeposit(params: {
+  wallet: string
+  amount: string
+  signature: string
+  depositWallet: string
+}): Promise<{ transaction: CreditTransaction; credited: boolean }> {
+  const { wallet, amount, signature, depositWallet } = params
+  const client = await getPool().connect()
+
+  try {
+    await client.query('BEGIN')
+
+    await client.query(
+      `INSERT INTO credit_accounts (wallet) VALUES ($1) ON CONFLICT (wallet) DO NOTHING`,
+      [wallet]
+    )
+    await client.query('SELECT wallet FROM credit_accounts WHERE wallet = $1 FOR UPDATE', [wallet])
+
+    const existing = await client.query(
+      `SELECT id FROM credit_transactions WHERE kind = 'deposit' AND signature = $1`,
+      [signature]
+    )
+    if (existing.rows[0]) {
+      await client.query('ROLLBACK')
+      return { transaction: (await getCreditTransaction(existing.rows[0].id))!, credited: false }
+    }
+
+    const account = await client.query(
+      `UPDATE credit_accounts SET balance = balance + $2, updated_at = NOW()
+       WHERE wallet = $1
+       RETURNING balance::text`,
+      [wallet, amount]
+    )
+    const inserted = await client.query(
+      `INSERT INTO credit_transactions (wallet, kind, amount, balance_after, signature)
+       VALUES ($1, 'deposit', $2, $3, $4)
+       RETURNING id`,
+      [wallet, amount, account.rows[0].balance, signature]
+    )
+
+    await recordLedgerTransaction({
+      kind: 'credit_deposit',
+      idempotencyKey: `credit_deposit:${inserted.rows[0].id}`,
+      token: 'USDC',
+      amount,
+      debitAccount: ledgerAccount.wallet(wallet),
+      creditAccount: ledgerAccount.credits(wallet),
+      signature,
+      fromWallet: wallet,
+      toWallet: depositWallet,
+    }, client)
+
+    await client.query('COMMIT')
+
+    logger.info('Credited deposit', { wallet, amount, signature })
+    return { transaction: (await getCreditTransaction(inserted.rows[0].id))!, credited: true }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Debit the price of a run from the payer's credits
+ * Must run inside the transaction that marks the run paid, so a run is never paid without its debit.
+ * @throws Error when the balance is too low or a spend cap would be exceeded (the caller rolls back)
+ */
+export async function debitCreditsForRun(
+  params: { wallet: string; runId: string; amount: string },
+  client: PoolClient
+): Promise<void> {
+  const { wallet, runId, amount } = params
+  const price = parseFloat(amount)
+
+  const accountResult = await client.query(
+    `SELECT balance::text, per_call_limit::text, daily_limit::text
+     FROM credit_accounts WHERE wallet = $1
+     FOR UPDATE`,
+    [wallet]
+  )
+  const account = accountResult.rows[0]
+  if (!account) {
+    throw new Error('No credit balance for this wallet - deposit USDC first')
+  }
+
+  if (account.per_call_limit !== null && price > parseFloat(account.per_call_limit)) {
+    throw new Error(`Call price ${amount} USDC exceeds your per-call limit of ${account.per_call_limit} USDC`)
+  }
+
+  if (account.daily_limit !== null) {
+    const spent = await getSpentLast24h(wallet, client)
+    if (spent + price > parseFloat(account.daily_limit)) {
+      throw new Error(`Call would exceed your daily limit of ${account.daily_limit} USDC (${spent.toFixed(6)} spent in the last 24 hours)`)
+    }
+  }
+
+  if (price > parseFloat(account.balance)) {
+    throw new Error(`Insufficient credits: balance ${account.balance} USDC, call costs ${amount} USDC`)
+  }
+
+  const updated = await client.query(
+    `UPDATE credit_accounts SET balance = balance - $2, updated_at = NOW()
+     WHERE wallet = $1
+     RETURNING balance::text`,
+    [wallet, amount]
+  )
+  await client.query(
+    `INSERT INTO credit_transactions (wallet, kind, amount, balance_after, run_id)
+     VALUES ($1, 'debit', $2, $3, $4)`,
+    [wallet, amount, updated.rows[0].balance, runId]
+  )
+}
+
+/**
+ * Return a refund of a credit-paid run to the payer's balance and mark the refund issued
+ * @returns The credit transaction, or null if the refund was already issued
+ */
+export async function issueCreditRefund(refundId: string): Promise<CreditTransaction | null> {
+  const client = await getPool().connect()
+  let transactionId: string
+
+  try {
+    await client.query('BEGIN')
+
+    const refundResult = await client.query(
+      `UPDATE refunds rf
+       SET status = 'issued', processed_at = NOW(), attempts = rf.attempts + 1, next_retry_at = NULL
+       FROM runs r
+       WHERE rf.id = $1 AND r.id = rf.run_id AND rf.status <> 'issued'
+       RETURNING rf.amount::text, rf.run_id, r.payer`,
+      [refundId]
+    )
+    const refund = refundResult.rows[0]
+    if (!refund) {
+      await client.query('ROLLBACK')
+      return null
+    }
+
+    const account = await client.query(
+      `UPDATE credit_accounts SET balance = balance + $2, updated_at = NOW()
+       WHERE wallet = $1
+       RETURNING balance::text`,
+      [refund.payer, refund.amount]
+    )
+    if (!account.rows[0]) {
+      throw new Error(`No credit account for ${refund.payer}`)
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO credit_transactions (wallet, kind, amount, balance_after, run_id, refund_id)
+       VALUES ($1, 'refund', $2, $3, $4, $5)
+       RETURNING id`,
+      [refund.payer, refund.amount, account.rows[0].balance, refund.run_id, refundId]
+    )
+    transactionId = inserted.rows[0].id
+
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+
+  logger.info('Refunded run to credits', { refundId, transactionId })
+  await recordLedgerRefund(refundId)
+
+  return getCreditTransaction(transactionId)
+}
+
+/**
+ * Take a withdrawal out of the balance before it is sent on-chain
+ * @param params.amount - USDC to withdraw (defaults to the whole balance)
+ * @throws Error when there is nothing (or not enough) to withdraw
+ */
+export async function startCreditWithdrawal(params: {
+  wallet: string
+  amount?: string
+}): Promise<CreditTransaction> {
+  const { wallet } = params
+  const client = await getPool().connect()
+  let transactionId: string
+
+  try {
+    await client.query('BEGIN')
+
+    const accountResult = await client.query(
+      'SELECT balance::text FROM credit_accounts WHERE wallet = $1 FOR UPDATE',
+      [wallet]
+    )
+    const balance = accountResult.rows[0]?.balance ?? '0'
+    const amount = params.amount ?? balance
+
+    if (!(parseFloat(amount) > 0)) {
+      throw new Error('No credits to withdraw')
+    }
+    if (parseFloat(amount) > parseFloat(balance)) {
+      throw new Error(`Insufficient credits: balance ${balance} USDC`)
+    }
+
+    const updated = await client.query(
+      `UPDATE credit_accounts SET balance = balance - $2, updated_at = NOW()
+       WHERE wallet = $1
+       RETURNING balance::text`,
+      [wallet, amount]
+    )
+    const inserted = await client.query(
+      `INSERT INTO credit_transactions (wallet, kind, status, amount, balance_after)
+       VALUES ($1, 'withdrawal', 'pending', $2, $3)
+       RETURNING id`,
+      [wallet, amount, updated.rows[0].balance]
+    )
+    transactionId = inserted.rows[0].id
+
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+
+  return (await getCreditTransaction(transactionId))!
+}
+
+/**
+ * Withdrawal whose transfer was broadcast and is due an on-chain check
+ */
+export interface SendingCreditWithdrawal {
+  id: string
+  wallet: string
+  amount: string
+  signature: string
+  last_valid_block_height: string
+}
+
+/**
+ * Record a broadcast withdrawal transfer before waiting for it to confirm
+ * From here on the withdrawal is settled on-chain (claimSendingCreditWithdrawals).
+ */
+export async function markCreditWithdrawalSending(params: {
+  id: string
+  signature: string
+  lastValidBlockHeight: number
+}): Promise<void> {
+  const result = await getPool().query(
+    `UPDATE credit_transactions
+     SET status = 'sending', signature = $2, last_valid_block_height = $3,
+         next_check_at = NOW() + INTERVAL '2 minutes', updated_at = NOW()
+     WHERE id = $1 AND kind = 'withdrawal' AND status = 'pending'`,
+    [params.id, params.signature, params.lastValidBlockHeight]
+  )
+  if (result.rowCount === 0) {
+    throw new Error(`Pending withdrawal ${params.id} not found`)
+  }
+}
+
+/**
+ * Mark a withdrawal sent and record it in the ledger
+ * Idempotent: an already completed withdrawal is returned unchanged.
+ * @param params.fromWallet - Platform wallet the transfer was sent from
+ */
+export async function completeCreditWithdrawal(params: {
+  id: string
+  signature: string
+  fromWallet: string
+}): Promise<CreditTransaction> {
+  const { id, signature, fromWallet } = params
+
+  const result = await getPool().query(
+    `UPDATE credit_transactions
+     SET status = 'completed', signature = $2, next_check_at = NULL, updated_at = NOW()
+     WHERE id = $1 AND kind = 'withdrawal' AND status IN ('pending', 'sending')
+     RETURNING wallet, amount::text`,
+    [id, signature]
+  )
+  if (!result.rows[0]) {
+    const existing = await getCreditTransaction(id)
+    if (existing?.kind === 'withdrawal' && existing.status === 'completed') {
+      return existing
+    }
+    throw new Error(`Pending withdrawal ${id} not found`)
+  }
+  const { wallet, amount } = result.rows[0]
+
+  try {
+    await recordLedgerTransaction({
+      kind: 'credit_withdrawal',
+      idempotencyKey: `credit_withdrawal:${id}`,
+      token: 'USDC',
+      amount,
+      debitAccount: ledgerAccount.credits(wallet),
+      creditAccount: ledgerAccount.wallet(wallet),
+      signature,
+      fromWallet,
+      toWallet: wallet,
+    })
+  } catch (error) {
+    logger.error('Failed to record credit withdrawal in ledger', error as Error, { id })
+  }
+
+  logger.info('Credit withdrawal sent', { id, wallet, amount, signature })
+  return (await getCreditTransaction(id))!
+}
+
+/**
+ * Mark a withdrawal failed and put the amount back on the balance
+ * Only call this when no transfer can land: before broadcasting, or once a sending
+ * withdrawal's transfer failed or expired on-chain.
+ */
+export async function failCreditWithdrawal(params: { id: string; error: string }): Promise<CreditTransaction> {
+  const { id } = params
+  const client = await getPool().connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const result = await client.query(
+      `UPDATE credit_transactions
+       SET status = 'failed', error = $2, next_check_at = NULL, updated_at = NOW()
+       WHERE id = $1 AND kind = 'withdrawal' AND status IN ('pending', 'sending')
+       RETURNING wallet, amount`,
+      [id, params.error]
+    )
+    if (result.rows[0]) {
+      await client.query(
+        `UPDATE credit_accounts SET balance = balance + $2, updated_at = NOW() WHERE wallet = $1`,
+        [result.rows[0].wallet, result.rows[0].amount]
+      )
+    }
+
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+
+  logger.warn('Credit withdrawal failed - amount returned to balance', { id, error: params.error })
+  return (await getCreditTransaction(id))!
+}
+
+/**
+ * Claim sending withdrawals whose on-chain check is due
+ * Claimed rows get a 5 minute lease on next_check_at so concurrent workers never check the same one twice.
+ */
+export async function claimSendingCreditWithdrawals(limit = 25): Promise<SendingCreditWithdrawal[]> {
+  const result = await getPool().query<SendingCreditWithdrawal>(
+    `WITH due AS (
+       SELECT id FROM credit_transactions
+       WHERE kind = 'withdrawal' AND status = 'sending' AND next_check_at <= NOW()
+       ORDER BY next_check_at ASC
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     UPDATE credit_transactions ct
+     SET next_check_at = NOW() + INTERVAL '5 minutes'
+     FROM due
+     WHERE ct.id = due.id
+     RETURNING ct.id, ct.wallet, ct.amount::text, ct.signature, ct.last_valid_block_height::text`,
+    [limit]
+  )
+
+  return result.rows
+}
+
+/**
+ * Get one credit transaction
+ */
+export async function getCreditTransaction(id: string): Promise<CreditTransaction | null> {
+  const result = await getPool().query(
+    `SELECT ${TRANSACTION_FIELDS}
+     FROM credit_transactions ct
+     LEFT JOIN runs r ON r.id = ct.run_id
+     LEFT JOIN blinks b ON b.id = r.blink_id
+     WHERE ct.id = $1`,
+    [id]
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Get a wallet's credit history, newest first
+ * @param params.before - Only transactions created before this time (for paging)
+ */
+export async function getCreditTransactions(params: {
+  wallet: string
+  limit?: number
+  before?: Date
+}): Promise<CreditTransaction[]> {
+  const { wallet, limit = 50, before } = params
+
+  const result = await getPool().query(
+    `SELECT ${TRANSACTION_FIELDS}
+     FROM credit_transactions ct
+     LEFT JOIN runs r ON r.id = ct.run_id
+     LEFT JOIN blinks b ON b.id = r.blink_id
+     WHERE ct.wallet = $1 AND ($2::timestamptz IS NULL OR ct.created_at < $2::timestamptz)
+     ORDER BY ct.created_at DESC
+     LIMIT $3`,
+    [wallet, before ?? null, limit]
+  )
+  return result.rows
+}
@@ -1,20 +1,52 @@
 /**
  * Dashboard Module
  * Handles creator analytics, earnings calculations, and activity tracking
+ * Earnings and activity come from the payment ledger (see ledger.ts), run stats from the runs table.
  */
 
-import type { DashboardData, DashboardBlink, Activity } from '@blink402/types'
+import type { DashboardData, DashboardBlink, Activity, EarningsBreakdown } from '@blink402/types'
 import { getPool } from './connection.js'
+import { getCreatorLedgerTotals, getLedgerTransactions } from './ledger.js'
+import { getWalletRevenueShares } from './revenue-splits.js'
+
+const RECENT_ACTIVITY_LIMIT = 10
+
+/**
+ * Render an amount with at most the token's decimals and no trailing zeros
+ */
+function formatAmount(value: number, token: 'SOL' | 'USDC'): string {
+  return parseFloat(value.toFixed(token === 'SOL' ? 9 : 6)).toString()
+}
+
+/**
+ * Short relative time for the dashboard ("5 min ago")
+ */
+function formatTimeAgo(date: Date): string {
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(date).getTime()) / 1000))
+  if (seconds < 60) return 'Just now'
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`
+  if (seconds < 86400) {
+    const hours = Math.floor(seconds / 3600)
+    return `${hours} hour${hours === 1 ? '' : 's'} ago`
+  }
+  const days = Math.floor(seconds / 86400)
+  return `${days} day${days === 1 ? '' : 's'} ago`
+}
 
 /**
  * Get dashboard data for a creator
  * Includes earnings, blinks with stats, and recent activity
+ * - Revenue is the creator's net ledger balance: settled payments minus issued refunds and rewards
+ * - Runs count successful runs (executed and not refunded)
+ * - Success rate is executed / (executed + failed) runs
+ * - Revenue shares list the wallet's legs of revenue split blinks (it need not be a creator)
  * @param wallet - Creator wallet address
  * @returns Dashboard data with aggregated metrics
  */
 export async function getDashboardData(wallet: string): Promise<DashboardData> {
   // Get creator ID
   const creatorResult = await getPool().query('SELECT id FROM creators WHERE wallet = $1', [wallet])
+  const revenueShares = await getWalletRevenueShares(wallet)
 
   if (creatorResult.rows.length === 0) {
     // Return empty dashboard if creator doesn't exist
@@ -26,71 +58,110 @@ export async function getDashboardData(wallet: string): Promise<DashboardData> {
       avgPrice: '0.000',
       blinks: [],
       recentActivity: [],
+      earnings: [],
+      revenueShares,
     }
   }
 
   const creatorId = creatorResult.rows[0].id
 
-  // Get all blinks for this creator with stats
+  // Get all blinks for this creator with run stats
   const blinksResult = await getPool().query(
     `SELECT
       b.id, b.slug, b.title, b.description, b.price_usdc::text,
       b.icon_url, b.endpoint_url, b.method, b.category,
-      b.runs, b.status, b.payment_token, b.payout_wallet, b.creator_id,
+      b.status, b.payment_token, b.blockchain, b.payout_wallet, b.creator_id,
       b.payment_mode, b.reward_amount::text, b.funded_wallet, b.max_claims_per_user,
-      (b.price_usdc * b.runs)::text as revenue,
-      COALESCE(
-        (SELECT COUNT(*) * 100.0 / NULLIF(b.runs, 0)
-         FROM runs r
-         WHERE r.blink_id = b.id AND r.status = 'executed'),
-        0
-      ) as success_rate
+      COALESCE(rs.successful_runs, 0) AS successful_runs,
+      COALESCE(rs.executed_runs, 0) AS executed_runs,
+      COALESCE(rs.failed_runs, 0) AS failed_runs,
+      rs.last_run_at
     FROM blinks b
+    LEFT JOIN LATERAL (
+      SELECT
+        COUNT(*) FILTER (WHERE r.status = 'executed' AND rf.id IS NULL)::int AS successful_runs,
+        COUNT(*) FILTER (WHERE r.status = 'executed')::int AS executed_runs,
+        COUNT(*) FILTER (WHERE r.status = 'failed')::int AS failed_runs,
+        MAX(r.executed_at) AS last_run_at
+      FROM runs r
+      LEFT JOIN refunds rf ON rf.run_id = r.id AND rf.status = 'issued'
+      WHERE r.blink_id = b.id AND r.status IN ('executed', 'failed')
+    ) rs ON true
     WHERE b.creator_id = $1
     ORDER BY b.created_at DESC`,
     [creatorId]
   )
 
-  const blinks: DashboardBlink[] = blinksResult.rows.map((row) => ({
-    id: row.id,
-    slug: row.slug,
-    title: row.title,
-    description: row.description,
-    price_usdc: row.price_usdc,
-    icon_url: row.icon_url,
-    endpoint_url: row.endpoint_url,
-    method: row.method,
-    category: row.category,
-    runs: row.runs,
-    status: row.status,
-    payment_token: row.payment_token || 'SOL',
-    payout_wallet: row.payout_wallet,
-    payment_mode: row.payment_mode || 'charge',
-    reward_amount: row.reward_amount,
-    funded_wallet: row.funded_wallet,
-    max_claims_per_user: row.max_claims_per_user,
-    creator_id: row.creator_id,
-    revenue: row.revenue,
-    successRate: parseFloat(row.success_rate) || 98,
-    lastRun: row.runs > 0 ? 'Recently' : 'Never',
-  }))
+  const totals = await getCreatorLedgerTotals(creatorId)
+
+  const blinks: DashboardBlink[] = blinksResult.rows.map((row) => {
+    const paymentToken = row.payment_token || 'SOL'
+    const revenue = totals
+      .filter((total) => total.blink_id === row.id && total.token === paymentToken)
+      .reduce((sum, total) => sum + parseFloat(total.amount), 0)
+    const finishedRuns = row.executed_runs + row.failed_runs
+
+    return {
+      id: row.id,
+      slug: row.slug,
+      title: row.title,
+      description: row.description,
+      price_usdc: row.price_usdc,
+      icon_url: row.icon_url,
+      endpoint_url: row.endpoint_url,
+      method: row.method,
+      category: row.category,
+      runs: row.successful_runs,
+      status: row.status,
+      payment_token: paymentToken,
+      blockchain: row.blockchain || 'solana',
+      payout_wallet: row.payout_wallet,
+      payment_mode: row.payment_mode || 'charge',
+      reward_amount: row.reward_amount,
+      funded_wallet: row.funded_wallet,
+      max_claims_per_user: row.max_claims_per_user,
+      creator_id: row.creator_id,
+      revenue: formatAmount(revenue, paymentToken),
+      successRate: finishedRuns > 0 ? Math.round((row.executed_runs * 1000) / finishedRuns) / 10 : 0,
+      lastRun: row.last_run_at ? formatTimeAgo(row.last_run_at) : 'Never',
+    }
+  })
+
+  // Ledger totals per token
+  const earnings: EarningsBreakdown[] = (['USDC', 'SOL'] as const)
+    .map((token) => {
+      const sum = (kind?: string) => totals
+        .filter((total) => total.token === token && (!kind || total.kind === kind))
+        .reduce((acc, total) => acc + parseFloat(total.amount), 0)
+      return {
+        token,
+        gross: formatAmount(sum('payment') + sum('revenue_split'), token), // Split blinks pay the creator's share out
+        refunds: formatAmount(-sum('refund'), token),
+        rewards: formatAmount(-sum('reward'), token),
+        net: formatAmount(sum(), token),
+      }
+    })
+    .filter((breakdown) => totals.some((total) => total.token === breakdown.token))
 
   // Calculate totals
   const totalRuns = blinks.reduce((sum, b) => sum + b.runs, 0)
-  const totalEarnings = blinks.reduce((sum, b) => sum + parseFloat(b.revenue), 0)
+  const totalEarnings = parseFloat(earnings.find((e) => e.token === 'USDC')?.net || '0')
   const activeBlinks = blinks.filter((b) => b.status === 'active').length
   const avgPrice =
     blinks.length > 0
       ? (blinks.reduce((sum, b) => sum + parseFloat(b.price_usdc), 0) / blinks.length).toFixed(3)
       : '0.000'
 
-  // Get recent activity (mock for now - will be real when runs are tracked)
-  // TODO: Replace with actual run data from runs table
-  const recentActivity: Activity[] = [
-    { id: 1, blink: blinks[0]?.title || 'Sample Blink', amount: '0.03', time: '2 min ago', status: 'success' as const },
-    { id: 2, blink: blinks[1]?.title || 'Sample Blink', amount: '0.02', time: '5 min ago', status: 'success' as const },
-    { id: 3, blink: blinks[0]?.title || 'Sample Blink', amount: '0.03', time: '12 min ago', status: 'success' as const },
-  ].filter((a) => blinks.length > 0) // Only show if there are blinks
+  const transactions = await getLedgerTransactions({ creatorId, limit: RECENT_ACTIVITY_LIMIT })
+  const recentActivity: Activity[] = transactions.map((tx) => ({
+    id: tx.id,
+    blink: tx.blink_title || 'Deleted blink',
+    amount: formatAmount(parseFloat(tx.amount), tx.token),
+    token: tx.token,
+    kind: tx.kind,
+    time: formatTimeAgo(tx.created_at),
+    status: tx.kind === 'refund' ? 'failed' as const : 'success' as const,
+  }))
 
   return {
     wallet,
@@ -100,5 +171,7 @@ export async function getDashboardData(wallet: string): Promise<DashboardData> {
     avgPrice,
     blinks,
     recentActivity,
+    earnings,
+    revenueShares,
   }
 }
@@ -0,0 +1,230 @@
+/**
+ * Jobs Module
+ * Durable background job queue shared by all API replicas
+ *
+ * Jobs are claimed with FOR UPDATE SKIP LOCKED and leased to one worker at a
+ * time (locked_by/locked_until). A job whose lease runs out without being
+ * completed or extended can be claimed again by another worker. Recurring
+ * jobs keep a single row that is rescheduled after every run.
+ */
+
+import { getPool } from './connection.js'
+import { createLogger } from '@blink402/config'
+import type { BackgroundJob, BackgroundJobStatus } from '@blink402/types'
+
+const logger = createLogger('@blink402/database:jobs')
+
+/**
+ * Add a job to the queue
+ * @param params.dedupeKey - Only one pending/running job may exist per (name, dedupeKey)
+ * @param params.recurringIntervalMs - Reschedule the same row this long after each run
+ * @returns The new job, or null if a live job with the same key already exists
+ */
+export async function enqueueJob(params: {
+  name: string
+  payload?: Record<string, any>
+  dedupeKey?: string
+  runAt?: Date
+  maxAttempts?: number
+  recurringIntervalMs?: number
+}): Promise<BackgroundJob | null> {
+  const { name, payload = {}, dedupeKey, runAt, maxAttempts = 5, recurringIntervalMs } = params
+
+  const result = await getPool().query<BackgroundJob>(
+    `INSERT INTO background_jobs (name, dedupe_key, payload, run_at, max_attempts, recurring_interval_ms)
+     VALUES ($1, COALESCE($2, gen_random_uuid()::text), $3, COALESCE($4, NOW()), $5, $6)
+     ON CONFLICT (name, dedupe_key) WHERE status IN ('pending', 'running') DO NOTHING
+     RETURNING *`,
+    [name, dedupeKey ?? null, JSON.stringify(payload), runAt ?? null, maxAttempts, recurringIntervalMs ?? null]
+  )
+
+  return result.rows[0] || null
+}
+
+/**
+ * Lease due jobs to a worker
+ * Picks pending jobs whose run_at has passed and running jobs whose lease expired.
+ * Every claim counts as an attempt.
+ * @param params.names - Job names the worker can handle
+ */
+export async function claimDueJobs(params: {
+  names: string[]
+  workerId: string
+  leaseMs: number
+  limit: number
+}): Promise<BackgroundJob[]> {
+  const { names, workerId, leaseMs, limit } = params
+  if (names.length === 0) return []
+
+  const result = await getPool().query<BackgroundJob>(
+    `UPDATE background_jobs
+     SET status = 'running',
+         attempts = attempts + 1,
+         locked_by = $2,
+         locked_until = NOW() + ($3 || ' milliseconds')::INTERVAL,
+         last_started_at = NOW(),
+         updated_at = NOW()
+     WHERE id IN (
+       SELECT id FROM background_jobs
+       WHERE name = ANY($1::text[])
+         AND ((status = 'pending' AND run_at <= NOW())
+           OR (status = 'running' AND locked_until < NOW()))
+       ORDER BY run_at
+       LIMIT $4
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [names, workerId, leaseMs, limit]
+  )
+
+  return result.rows
+}
+
+/**
+ * Extend the lease of a running job
+ * @returns false if the worker no longer holds the lease
+ */
+export async function extendJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+  const result = await getPool().query(
+    `UPDATE background_jobs
+     SET locked_until = NOW() + ($3 || ' milliseconds')::INTERVAL,
+         updated_at = NOW()
+     WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+    [id, workerId, leaseMs]
+  )
+
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Mark a job as done (recurring jobs are rescheduled for their next run)
+ * @returns false if the worker no longer held the lease
+ */
+export async function completeJob(id: string, workerId: string): Promise<boolean> {
+  const result = await getPool().query(
+    `UPDATE background_jobs
+     SET status = CASE WHEN recurring_interval_ms IS NULL THEN 'completed' ELSE 'pending' END,
+         run_at = CASE WHEN recurring_interval_ms IS NULL THEN run_at
+                       ELSE NOW() + (recurring_interval_ms || ' milliseconds')::INTERVAL END,
+         attempts = CASE WHEN recurring_interval_ms IS NULL THEN attempts ELSE 0 END,
+         locked_by = NULL,
+         locked_until = NULL,
+         last_error = NULL,
+         last_completed_at = NOW(),
+         updated_at = NOW()
+     WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+    [id, workerId]
+  )
+
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Record a failed attempt
+ * @param params.retryAt - When to try again, or null to move the job to the dead-letter queue
+ * @returns false if the worker no longer held the lease
+ */
+export async function failJob(params: {
+  id: string
+  workerId: string
+  error: string
+  retryAt: Date | null
+}): Promise<boolean> {
+  const { id, workerId, error, retryAt } = params
+
+  const result = await getPool().query(
+    `UPDATE background_jobs
+     SET status = CASE WHEN $4::timestamptz IS NULL THEN 'dead' ELSE 'pending' END,
+         run_at = COALESCE($4::timestamptz, run_at),
+         locked_by = NULL,
+         locked_until = NULL,
+         last_error = $3,
+         updated_at = NOW()
+     WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+    [id, workerId, error.substring(0, 2000), retryAt]
+  )
+
+  if (!retryAt) {
+    logger.warn('Job moved to dead-letter queue', { jobId: id, error })
+  }
+
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Get a job by ID
+ */
+export async function getBackgroundJob(id: string): Promise<BackgroundJob | null> {
+  const result = await getPool().query<BackgroundJob>(
+    'SELECT * FROM background_jobs WHERE id = $1',
+    [id]
+  )
+
+  return result.rows[0] || null
+}
+
+/**
+ * List jobs, most recently updated first
+ */
+export async function getBackgroundJobs(params: {
+  status?: BackgroundJobStatus
+  name?: string
+  limit?: number
+} = {}): Promise<BackgroundJob[]> {
+  const { status, name, limit = 50 } = params
+
+  const result = await getPool().query<BackgroundJob>(
+    `SELECT * FROM background_jobs
+     WHERE ($1::varchar IS NULL OR status = $1::varchar)
+       AND ($2::varchar IS NULL OR name = $2::varchar)
+     ORDER BY updated_at DESC
+     LIMIT $3`,
+    [status ?? null, name ?? null, limit]
+  )
+
+  return result.rows
+}
+
+/**
+ * Number of jobs per name and status
+ */
+export async function getBackgroundJobCounts(): Promise<Array<{ name: string; status: BackgroundJobStatus; count: number }>> {
+  const result = await getPool().query<{ name: string; status: BackgroundJobStatus; count: number }>(
+    `SELECT name, status, COUNT(*)::int AS count
+     FROM background_jobs
+     GROUP BY name, status
+     ORDER BY name, status`
+  )
+
+  return result.rows
+}
+
+/**
+ * Queue a job to run again right away
+ * Revives dead jobs (with a fresh attempt budget), takes the lease away from
+ * stuck running jobs and pulls pending jobs forward.
+ * @returns The updated job, or null if it doesn't exist, is completed, or another
+ *          live job with the same key exists
+ */
+export async function retryBackgroundJob(id: string): Promise<BackgroundJob | null> {
+  const result = await getPool().query<BackgroundJob>(
+    `UPDATE background_jobs j
+     SET status = 'pending',
+         run_at = NOW(),
+         attempts = 0,
+         locked_by = NULL,
+         locked_until = NULL,
+         updated_at = NOW()
+     WHERE j.id = $1
+       AND j.status IN ('pending', 'running', 'dead')
+       AND NOT EXISTS (
+         SELECT 1 FROM background_jobs o
+         WHERE o.name = j.name AND o.dedupe_key = j.dedupe_key
+           AND o.status IN ('pending', 'running') AND o.id <> j.id
+       )
+     RETURNING j.*`,
+    [id]
+  )
+
+  return result.rows[0] || null
+}
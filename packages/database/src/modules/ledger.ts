@@ -0,0 +1,598 @@
+/**
+ * Ledger Module
+ * Double-entry record of every money movement behind creator earnings
+ *
+ * Each settled payment, refund, reward, referral commission, lottery payout,
+ * lottery platform fee, prepaid credit deposit or withdrawal, revenue split
+ * payout and credit settlement is one ledger transaction with a debit and a credit entry of the same amount. Transactions are keyed by an idempotency
+ * key (e.g. payment:<run_id>) so recording the same event twice is a no-op.
+ * Dashboards, receipts and exports read from here; the ledger.reconcile job
+ * checks signed transactions against the chain.
+ */
+
+import type { Pool, PoolClient } from 'pg'
+import { getPool } from './connection.js'
+import { createLogger } from '@blink402/config'
+import type {
+  LedgerTransaction,
+  LedgerTransactionKind,
+  LedgerReconciliationStatus,
+  Blockchain,
+} from '@blink402/types'
+
+const logger = createLogger('@blink402/database:ledger')
+
+/** Flows that settle in USDC whatever the blink's payment token */
+const USDC_SETTLED_FLOWS = ['x402', 'onchain-connect', 'base-usdc', 'credits', 'pass']
+
+/**
+ * Run flows with no payment of their own: the platform or creator pays the user (recorded as rewards),
+ * or the call is covered by an access pass that was recorded when it was bought
+ */
+const UNPAID_FLOWS = ['reward', 'thank-you', 'pass-call']
+
+/**
+ * Ledger account names
+ */
+export const ledgerAccount = {
+  wallet: (address: string | null | undefined) => `wallet:${address || 'unknown'}`,
+  credits: (address: string) => `credits:${address}`,
+  creditsPayable: (creatorId: string) => `credits_payable:${creatorId}`,
+  creator: (creatorId: string) => `creator:${creatorId}`,
+  lotteryPool: (blinkId: string) => `lottery_pool:${blinkId}`,
+  revenueSplit: (blinkId: string) => `revenue_split:${blinkId}`,
+  platformFees: 'platform:fees',
+  platformTreasury: 'platform:treasury',
+}
+
+/**
+ * Ledger transaction with the blink and run it belongs to
+ */
+export interface LedgerTransactionData extends LedgerTransaction {
+  blink_slug: string | null
+  blink_title: string | null
+  run_reference: string | null
+}
+
+/**
+ * Signed total of one kind of ledger transaction on a creator's account
+ */
+export interface CreatorLedgerTotal {
+  blink_id: string | null
+  token: 'SOL' | 'USDC'
+  kind: LedgerTransactionKind
+  amount: string // Credits minus debits
+  count: number
+  last_at: Date
+}
+
+const TRANSACTION_FIELDS = `lt.id, lt.kind, lt.idempotency_key, lt.token, lt.amount::text, lt.blockchain, lt.run_id,
+  lt.blink_id, lt.creator_id, lt.signature, lt.from_wallet, lt.to_wallet, lt.metadata, lt.reconciliation_status,
+  lt.reconciliation_attempts, lt.reconciliation_note, lt.reconciled_at, lt.created_at,
+  COALESCE((
+    SELECT json_agg(json_build_object('account', le.account, 'direction', le.direction, 'amount', le.amount::text)
+                    ORDER BY le.direction DESC)
+    FROM ledger_entries le WHERE le.transaction_id = lt.id
+  ), '[]'::json) AS entries,
+  b.slug AS blink_slug, b.title AS blink_title, r.reference AS run_reference`
+
+/**
+ * Record a balanced ledger transaction (one debit and one credit of `amount`)
+ * The transaction row and its entries are written in one statement.
+ * @param db - Pass the client of an open transaction to commit the entry with it
+ * @returns The new transaction id, or null if the idempotency key was already recorded
+ */
+export async function recordLedgerTransaction(
+  params: {
+    kind: LedgerTransactionKind
+    idempotencyKey: string
+    token: 'SOL' | 'USDC'
+    amount: string
+    debitAccount: string
+    creditAccount: string
+    blockchain?: Blockchain
+    runId?: string | null
+    blinkId?: string | null
+    creatorId?: string | null
+    signature?: string | null
+    fromWallet?: string | null
+    toWallet?: string | null
+    metadata?: Record<string, any>
+  },
+  db: Pool | PoolClient = getPool()
+): Promise<string | null> {
+  const { kind, idempotencyKey, token, amount, debitAccount, creditAccount, blockchain = 'solana', metadata = {} } = params
+
+  if (!(parseFloat(amount) > 0)) {
+    return null
+  }
+
+  const result = await db.query(
+    `WITH tx AS (
+       INSERT INTO ledger_transactions (
+         kind, idempotency_key, token, amount, blockchain, run_id, blink_id, creator_id, signature,
+         from_wallet, to_wallet, metadata, reconciliation_status
+       )
+       VALUES ($1, $2, $3, $4, $5::varchar, $6, $7, $8, $9::varchar, $10, $11, $12,
+               CASE WHEN $9::varchar IS NULL OR $5::varchar <> 'solana' THEN 'skipped' ELSE 'pending' END)
+       ON CONFLICT (idempotency_key) DO NOTHING
+       RETURNING id, amount, created_at
+     )
+     INSERT INTO ledger_entries (transaction_id, account, direction, amount, created_at)
+     SELECT tx.id, e.account, e.direction, tx.amount, tx.created_at
+     FROM tx CROSS JOIN (VALUES ($13::varchar, 'debit'), ($14::varchar, 'credit')) AS e(account, direction)
+     RETURNING transaction_id`,
+    [
+      kind, idempotencyKey, token, amount, blockchain,
+      params.runId ?? null, params.blinkId ?? null, params.creatorId ?? null, params.signature || null,
+      params.fromWallet ?? null, params.toWallet ?? null, JSON.stringify(metadata),
+      debitAccount, creditAccount,
+    ]
+  )
+
+  return result.rows[0]?.transaction_id ?? null
+}
+
+/**
+ * Record the payment of a run that was just marked paid
+ * Lottery entry fees go to the blink's pool, revenue split payments to the blink's split account
+ * (paid out leg by leg, see recordLedgerRevenueSplit), credit payments to what the treasury owes
+ * the creator (settled run by run, see recordLedgerCreditSettlement), everything else to the creator.
+ * @param db - Client of the transaction that marked the run paid
+ */
+export async function recordLedgerPayment(
+  run: { id: string; blink_id: string; payer: string | null; signature: string | null; metadata?: Record<string, any> },
+  db: Pool | PoolClient = getPool()
+): Promise<string | null> {
+  const flow = run.metadata?.flow
+  if (UNPAID_FLOWS.includes(flow)) {
+    return null
+  }
+
+  const blinkResult = await db.query(
+    `SELECT b.id, b.creator_id, b.price_usdc::text, b.payment_token, b.payout_wallet, b.lottery_enabled,
+            COALESCE(r.blockchain, b.blockchain, 'solana') AS blockchain
+     FROM runs r JOIN blinks b ON b.id = r.blink_id
+     WHERE r.id = $1`,
+    [run.id]
+  )
+  const blink = blinkResult.rows[0]
+  if (!blink) return null
+
+  const token: 'SOL' | 'USDC' = USDC_SETTLED_FLOWS.includes(flow) ? 'USDC' : blink.payment_token || 'USDC'
+  const customAmount = token === 'SOL' ? run.metadata?.amountSol : run.metadata?.amountUsdc
+  // Credit-paid runs move no funds on-chain: the payer's prepaid balance pays the creator
+  const paidWithCredits = flow === 'credits'
+  const settlementWallet: string | undefined = run.metadata?.settlementWallet
+
+  return recordLedgerTransaction({
+    kind: 'payment',
+    idempotencyKey: `payment:${run.id}`,
+    token,
+    amount: String(customAmount ?? blink.price_usdc),
+    debitAccount: paidWithCredits ? ledgerAccount.credits(run.payer!) : ledgerAccount.wallet(run.payer),
+    creditAccount: blink.lottery_enabled
+      ? ledgerAccount.lotteryPool(blink.id)
+      : settlementWallet ? ledgerAccount.revenueSplit(blink.id)
+      : paidWithCredits ? ledgerAccount.creditsPayable(blink.creator_id) : ledgerAccount.creator(blink.creator_id),
+    blockchain: blink.blockchain,
+    runId: run.id,
+    blinkId: blink.id,
+    creatorId: blink.creator_id,
+    // Lottery Actions entries are marked paid before the wallet reports a signature
+    signature: run.signature === 'pending' || paidWithCredits ? null : run.signature,
+    fromWallet: run.payer,
+    toWallet: paidWithCredits ? null : settlementWallet || blink.payout_wallet,
+    metadata: flow ? { flow } : {},
+  }, db)
+}
+
+/**
+ * Record an issued refund: sent by the platform and charged to the creator
+ * Refunds of credit-paid runs go back to the payer's credits instead of their wallet (out of
+ * the unsettled credit payment), and refunds of revenue split runs come out of the blink's split account.
+ */
+export async function recordLedgerRefund(refundId: string): Promise<string | null> {
+  try {
+    const result = await getPool().query(
+      `SELECT rf.amount::text, rf.payment_token, rf.payer_wallet, rf.refund_signature,
+              r.id AS run_id, r.metadata->>'flow' AS flow, COALESCE(r.blockchain, 'solana') AS blockchain,
+              r.metadata ? 'settlementWallet' AS split,
+              b.id AS blink_id, b.creator_id
+       FROM refunds rf
+       JOIN runs r ON r.id = rf.run_id
+       JOIN blinks b ON b.id = r.blink_id
+       WHERE rf.id = $1 AND rf.status = 'issued'`,
+      [refundId]
+    )
+    const refund = result.rows[0]
+    if (!refund) return null
+
+    return await recordLedgerTransaction({
+      kind: 'refund',
+      idempotencyKey: `refund:${refundId}`,
+      token: refund.payment_token,
+      amount: refund.amount,
+      debitAccount: refund.split
+        ? ledgerAccount.revenueSplit(refund.blink_id)
+        : refund.flow === 'credits' ? ledgerAccount.creditsPayable(refund.creator_id) : ledgerAccount.creator(refund.creator_id),
+      creditAccount: refund.flow === 'credits'
+        ? ledgerAccount.credits(refund.payer_wallet)
+        : ledgerAccount.wallet(refund.payer_wallet),
+      blockchain: refund.blockchain,
+      runId: refund.run_id,
+      blinkId: refund.blink_id,
+      creatorId: refund.creator_id,
+      signature: refund.refund_signature,
+      toWallet: refund.payer_wallet,
+    })
+  } catch (error) {
+    logger.error('Failed to record refund in ledger', error as Error, { refundId })
+    return null
+  }
+}
+
+/**
+ * Record a reward paid from a creator's funded wallet
+ * @param params.amount - Amount actually sent (defaults to the blink's reward_amount)
+ * @param params.token - Token actually sent (defaults to the blink's payment token)
+ */
+export async function recordLedgerReward(params: {
+  claimId: string
+  blinkId: string
+  userWallet: string
+  signature: string
+  amount?: string
+  token?: 'SOL' | 'USDC'
+}): Promise<string | null> {
+  const { claimId, blinkId, userWallet, signature } = params
+
+  try {
+    const result = await getPool().query(
+      `SELECT creator_id, reward_amount::text, payment_token, funded_wallet, COALESCE(blockchain, 'solana') AS blockchain
+       FROM blinks WHERE id = $1`,
+      [blinkId]
+    )
+    const blink = result.rows[0]
+    if (!blink) return null
+
+    return await recordLedgerTransaction({
+      kind: 'reward',
+      idempotencyKey: `reward:${claimId}`,
+      token: params.token || blink.payment_token || 'USDC',
+      amount: String(params.amount ?? blink.reward_amount ?? 0),
+      debitAccount: ledgerAccount.creator(blink.creator_id),
+      creditAccount: ledgerAccount.wallet(userWallet),
+      blockchain: blink.blockchain,
+      blinkId,
+      creatorId: blink.creator_id,
+      signature,
+      fromWallet: blink.funded_wallet,
+      toWallet: userWallet,
+    })
+  } catch (error) {
+    logger.error('Failed to record reward in ledger', error as Error, { claimId, blinkId })
+    return null
+  }
+}
+
+/**
+ * Record a completed referral commission (paid by the platform)
+ * Batched commissions share one transfer; the batch total is kept in metadata for reconciliation.
+ */
+export async function recordLedgerCommission(payoutId: string): Promise<string | null> {
+  try {
+    const result = await getPool().query(
+      `SELECT cp.amount_usdc::text AS amount, cp.referrer_wallet, cp.transaction_signature, cp.tier,
+              cp.batch_id, pb.amount_usdc::text AS batch_amount,
+              r.id AS run_id, b.id AS blink_id, b.creator_id
+       FROM commission_payouts cp
+       JOIN runs r ON r.id = cp.run_id
+       JOIN blinks b ON b.id = r.blink_id
+       LEFT JOIN commission_payout_batches pb ON pb.id = cp.batch_id
+       WHERE cp.id = $1 AND cp.status = 'completed'`,
+      [payoutId]
+    )
+    const payout = result.rows[0]
+    if (!payout) return null
+
+    return await recordLedgerTransaction({
+      kind: 'referral_commission',
+      idempotencyKey: `referral_commission:${payoutId}`,
+      token: 'USDC',
+      amount: payout.amount,
+      debitAccount: ledgerAccount.platformTreasury,
+      creditAccount: ledgerAccount.wallet(payout.referrer_wallet),
+      runId: payout.run_id,
+      blinkId: payout.blink_id,
+      creatorId: payout.creator_id,
+      signature: payout.transaction_signature,
+      toWallet: payout.referrer_wallet,
+      metadata: payout.batch_id
+        ? { tier: payout.tier, batch_id: payout.batch_id, batch_amount_usdc: payout.batch_amount }
+        : { tier: payout.tier },
+    })
+  } catch (error) {
+    logger.error('Failed to record referral commission in ledger', error as Error, { payoutId })
+    return null
+  }
+}
+
+/**
+ * Record a completed lottery prize payout from the blink's pool
+ */
+export async function recordLedgerLotteryPayout(winnerId: string): Promise<string | null> {
+  try {
+    const result = await getPool().query(
+      `SELECT lw.payout_amount_usdc::text AS amount, lw.winner_wallet, lw.payout_tx_signature, lw.payout_rank,
+              lr.round_number, b.id AS blink_id, b.creator_id
+       FROM lottery_winners lw
+       JOIN lottery_rounds lr ON lr.id = lw.round_id
+       JOIN blinks b ON b.id = lr.blink_id
+       WHERE lw.id = $1 AND lw.payout_status = 'completed'`,
+      [winnerId]
+    )
+    const winner = result.rows[0]
+    if (!winner) return null
+
+    return await recordLedgerTransaction({
+      kind: 'lottery_payout',
+      idempotencyKey: `lottery_payout:${winnerId}`,
+      token: 'USDC',
+      amount: winner.amount,
+      debitAccount: ledgerAccount.lotteryPool(winner.blink_id),
+      creditAccount: ledgerAccount.wallet(winner.winner_wallet),
+      blinkId: winner.blink_id,
+      creatorId: winner.creator_id,
+      signature: winner.payout_tx_signature,
+      toWallet: winner.winner_wallet,
+      metadata: { round_number: winner.round_number, rank: winner.payout_rank },
+    })
+  } catch (error) {
+    logger.error('Failed to record lottery payout in ledger', error as Error, { winnerId })
+    return null
+  }
+}
+
+/**
+ * Record the platform's share of a closed lottery pool
+ * @param params.signature - Buyback swap that spent the fee (null when it was skipped)
+ */
+export async function recordLedgerPlatformFee(params: {
+  roundId: string
+  amount: string
+  signature: string | null
+}): Promise<string | null> {
+  const { roundId, amount, signature } = params
+
+  try {
+    const result = await getPool().query(
+      `SELECT lr.round_number, b.id AS blink_id, b.creator_id
+       FROM lottery_rounds lr JOIN blinks b ON b.id = lr.blink_id
+       WHERE lr.id = $1`,
+      [roundId]
+    )
+    const round = result.rows[0]
+    if (!round) return null
+
+    return await recordLedgerTransaction({
+      kind: 'platform_fee',
+      idempotencyKey: `platform_fee:${roundId}`,
+      token: 'USDC',
+      amount,
+      debitAccount: ledgerAccount.lotteryPool(round.blink_id),
+      creditAccount: ledgerAccount.platformFees,
+      blinkId: round.blink_id,
+      creatorId: round.creator_id,
+      signature,
+      metadata: { round_number: round.round_number },
+    })
+  } catch (error) {
+    logger.error('Failed to record platform fee in ledger', error as Error, { roundId })
+    return null
+  }
+}
+
+/**
+ * Record one leg of a revenue split paid out of the blink's split account
+ * The creator's remainder is credited to their account (it counts as earnings); recipients'
+ * shares go to their wallets and the platform fee to platform:fees.
+ * @param db - Pass the client of an open transaction to commit the entry with it
+ */
+export async function recordLedgerRevenueSplit(
+  payoutId: string,
+  db: Pool | PoolClient = getPool()
+): Promise<string | null> {
+  try {
+    const result = await db.query(
+      `SELECT p.role, p.wallet, p.bps, p.amount_usdc::text AS amount, p.signature,
+              r.id AS run_id, r.metadata->>'settlementWallet' AS settlement_wallet,
+              b.id AS blink_id, b.creator_id
+       FROM revenue_split_payouts p
+       JOIN runs r ON r.id = p.run_id
+       JOIN blinks b ON b.id = p.blink_id
+       WHERE p.id = $1 AND p.status = 'completed'`,
+      [payoutId]
+    )
+    const payout = result.rows[0]
+    if (!payout) return null
+
+    return await recordLedgerTransaction({
+      kind: 'revenue_split',
+      idempotencyKey: `revenue_split:${payoutId}`,
+      token: 'USDC',
+      amount: payout.amount,
+      debitAccount: ledgerAccount.revenueSplit(payout.blink_id),
+      creditAccount: payout.role === 'creator'
+        ? ledgerAccount.creator(payout.creator_id)
+        : payout.role === 'platform' ? ledgerAccount.platformFees : ledgerAccount.wallet(payout.wallet),
+      runId: payout.run_id,
+      blinkId: payout.blink_id,
+      creatorId: payout.creator_id,
+      signature: payout.signature,
+      fromWallet: payout.settlement_wallet,
+      toWallet: payout.wallet,
+      metadata: { role: payout.role, bps: payout.bps },
+    }, db)
+  } catch (error) {
+    logger.error('Failed to record revenue split in ledger', error as Error, { payoutId })
+    return null
+  }
+}
+
+/**
+ * Record a credit settlement that landed: the credit payment reaches the creator's account
+ * @param fromWallet - Credits treasury wallet the transfer was sent from
+ * @param db - Pass the client of an open transaction to commit the entry with it
+ */
+export async function recordLedgerCreditSettlement(
+  settlementId: string,
+  fromWallet: string,
+  db: Pool | PoolClient = getPool()
+): Promise<string | null> {
+  try {
+    const result = await db.query(
+      `SELECT s.wallet, s.amount_usdc::text AS amount, s.signature, s.run_id, s.blink_id, s.creator_id
+       FROM credit_settlements s
+       WHERE s.id = $1 AND s.status = 'completed'`,
+      [settlementId]
+    )
+    const settlement = result.rows[0]
+    if (!settlement) return null
+
+    return await recordLedgerTransaction({
+      kind: 'credit_settlement',
+      idempotencyKey: `credit_settlement:${settlementId}`,
+      token: 'USDC',
+      amount: settlement.amount,
+      debitAccount: ledgerAccount.creditsPayable(settlement.creator_id),
+      creditAccount: ledgerAccount.creator(settlement.creator_id),
+      runId: settlement.run_id,
+      blinkId: settlement.blink_id,
+      creatorId: settlement.creator_id,
+      signature: settlement.signature,
+      fromWallet,
+      toWallet: settlement.wallet,
+    }, db)
+  } catch (error) {
+    logger.error('Failed to record credit settlement in ledger', error as Error, { settlementId })
+    return null
+  }
+}
+
+/**
+ * List ledger transactions, newest first
+ * @param params.creatorId - Transactions on the creator's blinks (including commissions and lottery payouts)
+ * @param params.from - Inclusive lower bound on created_at
+ * @param params.to - Exclusive upper bound on created_at
+ */
+export async function getLedgerTransactions(params: {
+  creatorId?: string
+  runId?: string
+  reconciliationStatus?: LedgerReconciliationStatus
+  from?: Date
+  to?: Date
+  limit?: number
+}): Promise<LedgerTransactionData[]> {
+  const { creatorId, runId, reconciliationStatus, from, to, limit = 100 } = params
+
+  const result = await getPool().query(
+    `SELECT ${TRANSACTION_FIELDS}
+     FROM ledger_transactions lt
+     LEFT JOIN blinks b ON b.id = lt.blink_id
+     LEFT JOIN runs r ON r.id = lt.run_id
+     WHERE ($1::uuid IS NULL OR lt.creator_id = $1::uuid)
+       AND ($2::uuid IS NULL OR lt.run_id = $2::uuid)
+       AND ($3::varchar IS NULL OR lt.reconciliation_status = $3::varchar)
+       AND ($4::timestamptz IS NULL OR lt.created_at >= $4::timestamptz)
+       AND ($5::timestamptz IS NULL OR lt.created_at < $5::timestamptz)
+     ORDER BY lt.created_at DESC
+     LIMIT $6`,
+    [creatorId ?? null, runId ?? null, reconciliationStatus ?? null, from ?? null, to ?? null, limit]
+  )
+
+  return result.rows
+}
+
+/**
+ * Totals on a creator's account, per blink, token and kind
+ */
+export async function getCreatorLedgerTotals(creatorId: string): Promise<CreatorLedgerTotal[]> {
+  const result = await getPool().query(
+    `SELECT lt.blink_id, lt.token, lt.kind,
+            SUM(CASE WHEN le.direction = 'credit' THEN le.amount ELSE -le.amount END)::text AS amount,
+            COUNT(*)::int AS count,
+            MAX(lt.created_at) AS last_at
+     FROM ledger_entries le
+     JOIN ledger_transactions lt ON lt.id = le.transaction_id
+     WHERE le.account = $1
+     GROUP BY lt.blink_id, lt.token, lt.kind`,
+    [ledgerAccount.creator(creatorId)]
+  )
+
+  return result.rows
+}
+
+/**
+ * Signed Solana transactions waiting to be checked against the chain
+ * Transactions younger than a minute are left alone so the RPC has them.
+ */
+export async function getLedgerTransactionsToReconcile(limit = 25): Promise<LedgerTransactionData[]> {
+  const result = await getPool().query(
+    `SELECT ${TRANSACTION_FIELDS}
+     FROM ledger_transactions lt
+     LEFT JOIN blinks b ON b.id = lt.blink_id
+     LEFT JOIN runs r ON r.id = lt.run_id
+     WHERE lt.reconciliation_status = 'pending'
+       AND lt.signature IS NOT NULL
+       AND lt.created_at < NOW() - INTERVAL '1 minute'
+     ORDER BY lt.reconciled_at NULLS FIRST, lt.created_at
+     LIMIT $1`,
+    [limit]
+  )
+
+  return result.rows
+}
+
+/**
+ * Store the outcome of one reconciliation check
+ * @param params.status - 'pending' keeps the transaction queued for another check
+ */
+export async function setLedgerReconciliation(params: {
+  id: string
+  status: LedgerReconciliationStatus
+  note?: string | null
+}): Promise<void> {
+  const { id, status, note } = params
+
+  await getPool().query(
+    `UPDATE ledger_transactions
+     SET reconciliation_status = $2,
+         reconciliation_note = $3,
+         reconciliation_attempts = reconciliation_attempts + 1,
+         reconciled_at = NOW()
+     WHERE id = $1`,
+    [id, status, note ?? null]
+  )
+
+  if (status === 'mismatch' || status === 'missing') {
+    logger.warn('Ledger transaction does not match the chain', { id, status, note })
+  }
+}
+
+/**
+ * Number of ledger transactions per reconciliation status
+ */
+export async function getLedgerReconciliationCounts(): Promise<Record<LedgerReconciliationStatus, number>> {
+  const result = await getPool().query(
+    `SELECT reconciliation_status, COUNT(*)::int AS count
+     FROM ledger_transactions
+     GROUP BY reconciliation_status`
+  )
+
+  const counts: Record<LedgerReconciliationStatus, number> = { pending: 0, matched: 0, mismatch: 0, missing: 0, skipped: 0 }
+  for (const row of result.rows) {
+    counts[row.reconciliation_status as LedgerReconciliationStatus] = row.count
+  }
+  return counts
+}
@@ -0,0 +1,652 @@
+/**
+ * Moderation Module
+ * Catalog reports, the moderation queue, suspensions and the moderation audit log
+ *
+ * Reports start pending, can be marked reviewing, and are closed as resolved or
+ * dismissed (a dismissed report no longer counts toward the blink's reported_count).
+ * Once a blink collects enough open reports from distinct reporters it is taken out
+ * of the catalog automatically and put on hold until a moderator releases it.
+ *
+ * Suspending a blink pauses it and unpublishes it; its creator cannot resume or
+ * republish it, and unsuspending leaves it paused for the creator to review.
+ * Suspending a creator suspends their active blinks (suspended_with_creator) and
+ * unsuspending the creator restores exactly those. Every action, manual or
+ * automatic, is written to moderation_actions in the same transaction.
+ */
+
+import type { PoolClient } from 'pg'
+import type {
+  BlinkReport,
+  BlinkReportReason,
+  BlinkReportStatus,
+  ModerationAction,
+  ModerationActionType,
+  ModerationReport,
+} from '@blink402/types'
+import { getPool } from './connection.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/database:moderation')
+
+export const BLINK_REPORT_REASONS: BlinkReportReason[] = ['spam', 'scam', 'broken', 'inappropriate', 'copyright', 'other']
+
+/** Actor recorded for automatic actions */
+export const MODERATION_SYSTEM_ACTOR = 'system'
+
+const OPEN_REPORT_STATUSES = `('pending', 'reviewing')`
+
+const REPORT_COLUMNS = `r.id, r.blink_id, r.reporter_wallet, r.reporter_email, r.reason, r.details, r.status,
+  r.reviewed_by, r.reviewed_at, r.resolution_notes, r.created_at`
+
+/**
+ * Outcome of a moderation action (null from the caller = target not found)
+ */
+export interface ModerationResult {
+  success: boolean
+  error?: string // Why nothing changed (e.g. already suspended)
+  affectedBlinks?: number // Creator suspensions: blinks suspended or restored
+}
+
+/**
+ * Append an entry to the audit log
+ */
+async function recordModerationAction(
+  client: PoolClient,
+  params: {
+    action: ModerationActionType
+    actor: string
+    reportId?: string | null
+    blinkId?: string | null
+    creatorId?: string | null
+    notes?: string | null
+    details?: Record<string, any>
+  }
+): Promise<void> {
+  await client.query(
+    `INSERT INTO moderation_actions (action, actor, report_id, blink_id, creator_id, notes, details)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      params.action,
+      params.actor,
+      params.reportId ?? null,
+      params.blinkId ?? null,
+      params.creatorId ?? null,
+      params.notes ?? null,
+      JSON.stringify(params.details ?? {}),
+    ]
+  )
+}
+
+/**
+ * File a report against a blink
+ * Takes the blink out of the catalog (with a hold) when it reaches autoUnpublishAt
+ * open reports from distinct reporter wallets. Reports without a wallet (filed before reports
+ * required a signature) stay in the queue but don't count.
+ * @returns Report id and whether this report triggered the auto-unpublish, or null if the blink doesn't exist
+ */
+export async function createBlinkReport(params: {
+  blinkId: string
+  reporterWallet: string
+  reason: BlinkReportReason
+  details: string | null
+  autoUnpublishAt: number
+}): Promise<{ reportId: string; autoUnpublished: boolean } | null> {
+  const { blinkId, reporterWallet, reason, details, autoUnpublishAt } = params
+  const client = await getPool().connect()
+
+  try {
+    await client.query('BEGIN')
+
+    // Locks the blink so concurrent reports are counted one at a time
+    const blink = await client.query(
+      `UPDATE blinks
+       SET reported_count = reported_count + 1
+       WHERE id = $1
+       RETURNING creator_id, publish_to_catalog`,
+      [blinkId]
+    )
+
+    if (blink.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return null
+    }
+
+    const report = await client.query(
+      `INSERT INTO blink_reports (blink_id, reporter_wallet, reason, details)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [blinkId, reporterWallet, reason, details]
+    )
+    const reportId: string = report.rows[0].id
+
+    let autoUnpublished = false
+    if (blink.rows[0].publish_to_catalog) {
+      const open = await client.query(
+        `SELECT COUNT(DISTINCT reporter_wallet)::int AS reporters
+         FROM blink_reports
+         WHERE blink_id = $1 AND status IN ${OPEN_REPORT_STATUSES}`,
+        [blinkId]
+      )
+      const reporters: number = open.rows[0].reporters
+
+      if (reporters >= autoUnpublishAt) {
+        await client.query(
+          `UPDATE blinks SET publish_to_catalog = false, catalog_hold = true WHERE id = $1`,
+          [blinkId]
+        )
+        await recordModerationAction(client, {
+          action: 'blink_auto_unpublished',
+          actor: MODERATION_SYSTEM_ACTOR,
+          reportId,
+          blinkId,
+          creatorId: blink.rows[0].creator_id,
+          details: { open_reports: reporters, threshold: autoUnpublishAt },
+        })
+        autoUnpublished = true
+      }
+    }
+
+    await client.query('COMMIT')
+
+    if (autoUnpublished) {
+      logger.warn('Blink auto-unpublished after reports', { blinkId, reportId, threshold: autoUnpublishAt })
+    }
+    return { reportId, autoUnpublished }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    logger.error('Error reporting blink', error as Error, { blinkId, reason })
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Reports for the moderation queue
+ * Open statuses list oldest first (work order), closed ones newest first.
+ */
+export async function getModerationReports(filters: {
+  status?: BlinkReportStatus
+  reason?: BlinkReportReason
+  blinkId?: string
+  limit?: number
+} = {}): Promise<ModerationReport[]> {
+  const conditions: string[] = []
+  const params: any[] = []
+
+  if (filters.status) {
+    params.push(filters.status)
+    conditions.push(`r.status = $${params.length}`)
+  }
+  if (filters.reason) {
+    params.push(filters.reason)
+    conditions.push(`r.reason = $${params.length}`)
+  }
+  if (filters.blinkId) {
+    params.push(filters.blinkId)
+    conditions.push(`r.blink_id = $${params.length}`)
+  }
+
+  const newestFirst = filters.status === 'resolved' || filters.status === 'dismissed' || !filters.status
+  params.push(filters.limit ?? 50)
+
+  const result = await getPool().query<ModerationReport>(
+    `SELECT ${REPORT_COLUMNS},
+       b.slug AS blink_slug, b.title AS blink_title, b.status AS blink_status,
+       b.publish_to_catalog, b.catalog_hold, b.suspended_at AS blink_suspended_at,
+       (SELECT COUNT(*)::int FROM blink_reports o
+        WHERE o.blink_id = r.blink_id AND o.status IN ${OPEN_REPORT_STATUSES}) AS open_reports,
+       c.wallet AS creator_wallet, c.suspended_at AS creator_suspended_at
+     FROM blink_reports r
+     JOIN blinks b ON b.id = r.blink_id
+     JOIN creators c ON c.id = b.creator_id
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY r.created_at ${newestFirst ? 'DESC' : 'ASC'}
+     LIMIT $${params.length}`,
+    params
+  )
+
+  return result.rows
+}
+
+/**
+ * Number of reports per status
+ */
+export async function getModerationReportCounts(): Promise<Record<BlinkReportStatus, number>> {
+  const result = await getPool().query(
+    `SELECT status, COUNT(*)::int AS count FROM blink_reports GROUP BY status`
+  )
+
+  const counts: Record<BlinkReportStatus, number> = { pending: 0, reviewing: 0, resolved: 0, dismissed: 0 }
+  for (const row of result.rows) {
+    counts[row.status as BlinkReportStatus] = row.count
+  }
+  return counts
+}
+
+/**
+ * Move a report through triage
+ * - reviewing: a moderator picked up a pending report
+ * - resolved / dismissed: closes an open report (dismissing also lowers the blink's reported_count)
+ * @returns null if the report doesn't exist
+ */
+export async function updateBlinkReportStatus(
+  reportId: string,
+  update: { status: Exclude<BlinkReportStatus, 'pending'>; actor: string; notes?: string | null }
+): Promise<ModerationResult | null> {
+  const { status, actor, notes } = update
+  const client = await getPool().connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const existing = await client.query<BlinkReport & { creator_id: string }>(
+      `SELECT ${REPORT_COLUMNS}, b.creator_id
+       FROM blink_reports r
+       JOIN blinks b ON b.id = r.blink_id
+       WHERE r.id = $1
+       FOR UPDATE OF r`,
+      [reportId]
+    )
+
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return null
+    }
+
+    const report = existing.rows[0]
+    const allowedFrom: BlinkReportStatus[] = status === 'reviewing' ? ['pending'] : ['pending', 'reviewing']
+    if (!allowedFrom.includes(report.status)) {
+      await client.query('ROLLBACK')
+      return { success: false, error: `Report is already ${report.status}` }
+    }
+
+    await client.query(
+      `UPDATE blink_reports
+       SET status = $2, reviewed_by = $3, reviewed_at = NOW(),
+           resolution_notes = COALESCE($4, resolution_notes)
+       WHERE id = $1`,
+      [reportId, status, actor, notes ?? null]
+    )
+
+    if (status === 'dismissed') {
+      await client.query(
+        `UPDATE blinks SET reported_count = GREATEST(reported_count - 1, 0) WHERE id = $1`,
+        [report.blink_id]
+      )
+    }
+
+    await recordModerationAction(client, {
+      action: `report_${status}` as ModerationActionType,
+      actor,
+      reportId,
+      blinkId: report.blink_id,
+      creatorId: report.creator_id,
+      notes,
+      details: { reason: report.reason, previous_status: report.status },
+    })
+
+    await client.query('COMMIT')
+    return { success: true }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    logger.error('Error updating report status', error as Error, { reportId, status })
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Apply a moderation change to one blink, locking it first
+ * @param change - Returns an error when the blink is not in a state the change applies to
+ * @returns null if the blink doesn't exist
+ */
+async function moderateBlink(
+  blinkId: string,
+  logLabel: string,
+  change: (client: PoolClient, blink: {
+    id: string
+    creator_id: string
+    status: string
+    publish_to_catalog: boolean
+    catalog_hold: boolean
+    suspended_at: Date | null
+    suspended_with_creator: boolean
+    creator_suspended_at: Date | null
+  }) => Promise<string | null>
+): Promise<ModerationResult | null> {
+  const client = await getPool().connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const existing = await client.query(
+      `SELECT b.id, b.creator_id, b.status, b.publish_to_catalog, b.catalog_hold,
+         b.suspended_at, b.suspended_with_creator, c.suspended_at AS creator_suspended_at
+       FROM blinks b
+       JOIN creators c ON c.id = b.creator_id
+       WHERE b.id = $1
+       FOR UPDATE OF b`,
+      [blinkId]
+    )
+
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return null
+    }
+
+    const error = await change(client, existing.rows[0])
+    if (error) {
+      await client.query('ROLLBACK')
+      return { success: false, error }
+    }
+
+    await client.query('COMMIT')
+    return { success: true }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    logger.error(`Error ${logLabel}`, error as Error, { blinkId })
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Take a blink out of the catalog and hold it there until released
+ */
+export async function unpublishBlinkForModeration(
+  blinkId: string,
+  actor: string,
+  notes?: string | null
+): Promise<ModerationResult | null> {
+  return moderateBlink(blinkId, 'unpublishing blink', async (client, blink) => {
+    if (blink.catalog_hold && !blink.publish_to_catalog) {
+      return 'Blink is already held out of the catalog'
+    }
+
+    await client.query(
+      `UPDATE blinks SET publish_to_catalog = false, catalog_hold = true WHERE id = $1`,
+      [blinkId]
+    )
+    await recordModerationAction(client, {
+      action: 'blink_unpublished',
+      actor,
+      blinkId,
+      creatorId: blink.creator_id,
+      notes,
+      details: { was_published: blink.publish_to_catalog },
+    })
+    return null
+  })
+}
+
+/**
+ * Let the creator publish a held blink again (it is not republished automatically)
+ */
+export async function releaseCatalogHold(
+  blinkId: string,
+  actor: string,
+  notes?: string | null
+): Promise<ModerationResult | null> {
+  return moderateBlink(blinkId, 'releasing catalog hold', async (client, blink) => {
+    if (!blink.catalog_hold) {
+      return 'Blink is not on hold'
+    }
+
+    await client.query(`UPDATE blinks SET catalog_hold = false WHERE id = $1`, [blinkId])
+    await recordModerationAction(client, {
+      action: 'catalog_hold_released',
+      actor,
+      blinkId,
+      creatorId: blink.creator_id,
+      notes,
+    })
+    return null
+  })
+}
+
+/**
+ * Suspend a blink: pause it and remove it from the catalog
+ */
+export async function suspendBlink(
+  blinkId: string,
+  actor: string,
+  reason: string
+): Promise<ModerationResult | null> {
+  return moderateBlink(blinkId, 'suspending blink', async (client, blink) => {
+    if (blink.suspended_at) {
+      return 'Blink is already suspended'
+    }
+
+    await client.query(
+      `UPDATE blinks
+       SET suspended_at = NOW(), suspension_reason = $2, suspended_with_creator = false,
+           status = CASE WHEN status = 'archived' THEN status ELSE 'paused' END,
+           publish_to_catalog = false
+       WHERE id = $1`,
+      [blinkId, reason]
+    )
+    await recordModerationAction(client, {
+      action: 'blink_suspended',
+      actor,
+      blinkId,
+      creatorId: blink.creator_id,
+      notes: reason,
+      details: { previous_status: blink.status, was_published: blink.publish_to_catalog },
+    })
+    return null
+  })
+}
+
+/**
+ * Lift a blink's suspension (it stays paused until its creator resumes it)
+ */
+export async function unsuspendBlink(
+  blinkId: string,
+  actor: string,
+  notes?: string | null
+): Promise<ModerationResult | null> {
+  return moderateBlink(blinkId, 'unsuspending blink', async (client, blink) => {
+    if (!blink.suspended_at) {
+      return 'Blink is not suspended'
+    }
+    if (blink.creator_suspended_at) {
+      return "The blink's creator is suspended - unsuspend the creator instead"
+    }
+
+    await client.query(
+      `UPDATE blinks
+       SET suspended_at = NULL, suspension_reason = NULL, suspended_with_creator = false
+       WHERE id = $1`,
+      [blinkId]
+    )
+    await recordModerationAction(client, {
+      action: 'blink_unsuspended',
+      actor,
+      blinkId,
+      creatorId: blink.creator_id,
+      notes,
+    })
+    return null
+  })
+}
+
+/**
+ * Suspend a creator and their active blinks
+ * @returns null if the creator doesn't exist
+ */
+export async function suspendCreator(
+  wallet: string,
+  actor: string,
+  reason: string
+): Promise<ModerationResult | null> {
+  const client = await getPool().connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const creator = await client.query(
+      `SELECT id, suspended_at FROM creators WHERE wallet = $1 FOR UPDATE`,
+      [wallet]
+    )
+
+    if (creator.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return null
+    }
+    if (creator.rows[0].suspended_at) {
+      await client.query('ROLLBACK')
+      return { success: false, error: 'Creator is already suspended' }
+    }
+
+    const creatorId: string = creator.rows[0].id
+    await client.query(
+      `UPDATE creators SET suspended_at = NOW(), suspension_reason = $2 WHERE id = $1`,
+      [creatorId, reason]
+    )
+
+    const blinks = await client.query(
+      `UPDATE blinks
+       SET suspended_at = NOW(), suspension_reason = $2, suspended_with_creator = true,
+           status = 'paused', publish_to_catalog = false
+       WHERE creator_id = $1 AND status = 'active' AND suspended_at IS NULL`,
+      [creatorId, reason]
+    )
+    const affectedBlinks = blinks.rowCount ?? 0
+
+    await recordModerationAction(client, {
+      action: 'creator_suspended',
+      actor,
+      creatorId,
+      notes: reason,
+      details: { suspended_blinks: affectedBlinks },
+    })
+
+    await client.query('COMMIT')
+
+    logger.warn('Suspended creator', { wallet, actor, suspendedBlinks: affectedBlinks })
+    return { success: true, affectedBlinks }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    logger.error('Error suspending creator', error as Error, { wallet })
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Lift a creator's suspension and reactivate the blinks it paused
+ * @returns null if the creator doesn't exist
+ */
+export async function unsuspendCreator(
+  wallet: string,
+  actor: string,
+  notes?: string | null
+): Promise<ModerationResult | null> {
+  const client = await getPool().connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const creator = await client.query(
+      `SELECT id, suspended_at FROM creators WHERE wallet = $1 FOR UPDATE`,
+      [wallet]
+    )
+
+    if (creator.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return null
+    }
+    if (!creator.rows[0].suspended_at) {
+      await client.query('ROLLBACK')
+      return { success: false, error: 'Creator is not suspended' }
+    }
+
+    const creatorId: string = creator.rows[0].id
+    await client.query(
+      `UPDATE creators SET suspended_at = NULL, suspension_reason = NULL WHERE id = $1`,
+      [creatorId]
+    )
+
+    const blinks = await client.query(
+      `UPDATE blinks
+       SET suspended_at = NULL, suspension_reason = NULL, suspended_with_creator = false, status = 'active'
+       WHERE creator_id = $1 AND suspended_with_creator = true`,
+      [creatorId]
+    )
+    const affectedBlinks = blinks.rowCount ?? 0
+
+    await recordModerationAction(client, {
+      action: 'creator_unsuspended',
+      actor,
+      creatorId,
+      notes,
+      details: { restored_blinks: affectedBlinks },
+    })
+
+    await client.query('COMMIT')
+
+    logger.info('Unsuspended creator', { wallet, actor, restoredBlinks: affectedBlinks })
+    return { success: true, affectedBlinks }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    logger.error('Error unsuspending creator', error as Error, { wallet })
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * A creator's suspension, if any
+ */
+export async function getCreatorSuspension(
+  wallet: string
+): Promise<{ suspended_at: Date; reason: string | null } | null> {
+  const result = await getPool().query(
+    `SELECT suspended_at, suspension_reason FROM creators WHERE wallet = $1 AND suspended_at IS NOT NULL`,
+    [wallet]
+  )
+
+  if (result.rows.length === 0) return null
+  return { suspended_at: result.rows[0].suspended_at, reason: result.rows[0].suspension_reason }
+}
+
+/**
+ * Audit log, newest first
+ */
+export async function getModerationActions(filters: {
+  blinkId?: string
+  creatorWallet?: string
+  limit?: number
+} = {}): Promise<ModerationAction[]> {
+  const conditions: string[] = []
+  const params: any[] = []
+
+  if (filters.blinkId) {
+    params.push(filters.blinkId)
+    conditions.push(`a.blink_id = $${params.length}`)
+  }
+  if (filters.creatorWallet) {
+    params.push(filters.creatorWallet)
+    conditions.push(`c.wallet = $${params.length}`)
+  }
+  params.push(filters.limit ?? 100)
+
+  const result = await getPool().query<ModerationAction>(
+    `SELECT a.id, a.action, a.actor, a.report_id, a.blink_id, b.slug AS blink_slug,
+       c.wallet AS creator_wallet, a.notes, a.details, a.created_at
+     FROM moderation_actions a
+     LEFT JOIN blinks b ON b.id = a.blink_id
+     LEFT JOIN creators c ON c.id = a.creator_id
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY a.created_at DESC
+     LIMIT $${params.length}`,
+    params
+  )
+
+  return result.rows
+}
@@ -0,0 +1,296 @@
+/**
+ * Access Passes Module
+ * Time-boxed passes that cover /bazaar calls instead of per-call payments
+ *
+ * A blink's access_pass config says what a pass costs, how long it lasts and
+ * how many calls it includes. Each paid purchase grants one pass
+ * (grantAccessPass); a renewal bought while a pass is still usable starts when
+ * that pass ends. Pass calls are counted inside the transaction that marks the
+ * run paid (see updateRunPaymentAtomic) and given back when the upstream call
+ * fails. Subscriptions get a pass.expiring webhook before they run out.
+ */
+
+import type { PoolClient } from 'pg'
+import type { AccessPass, BlinkAccessPassConfig } from '@blink402/types'
+import { getPool } from './connection.js'
+import { emitWebhookEvent } from './webhooks.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/database:passes')
+
+const PASS_FIELDS = `ap.id, ap.blink_id, b.slug AS blink_slug, ap.wallet, ap.price_usdc::text,
+  ap.starts_at, ap.expires_at, ap.call_limit, ap.calls_used,
+  CASE WHEN ap.call_limit IS NULL THEN NULL ELSE GREATEST(ap.call_limit - ap.calls_used, 0) END AS calls_remaining,
+  ap.subscription, ap.renewal_reminder_sent_at, ap.created_at`
+
+// A pass covers calls while it is inside its window and has calls left
+const PASS_USABLE = `ap.starts_at <= NOW() AND ap.expires_at > NOW()
+  AND (ap.call_limit IS NULL OR ap.calls_used < ap.call_limit)`
+
+/**
+ * Grant the pass bought by a paid run
+ * Idempotent per run. The pass starts when the wallet's last pass with calls left
+ * for this blink expires, or now if there is none.
+ * @param params.runId - Purchase run (already marked paid)
+ * @param params.config - The blink's access_pass config at purchase time
+ */
+export async function grantAccessPass(params: {
+  blinkId: string
+  wallet: string
+  runId: string
+  config: BlinkAccessPassConfig
+}): Promise<AccessPass> {
+  const { blinkId, wallet, runId, config } = params
+  const client = await getPool().connect()
+  let granted = false
+
+  try {
+    await client.query('BEGIN')
+
+    // Serialize purchases per wallet and blink so renewals chain correctly
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`access_pass:${wallet}:${blinkId}`])
+
+    const inserted = await client.query(
+      `INSERT INTO access_passes (blink_id, wallet, run_id, price_usdc, starts_at, expires_at, call_limit, subscription)
+       SELECT $1::uuid, $2::varchar, $3::uuid, $4::numeric, start.at, start.at + make_interval(hours => $5::int), $6::int, $7::boolean
+       FROM (
+         SELECT GREATEST(NOW(), COALESCE(MAX(ap.expires_at), NOW())) AS at
+         FROM access_passes ap
+         WHERE ap.wallet = $2::varchar AND ap.blink_id = $1::uuid AND ap.expires_at > NOW()
+           AND (ap.call_limit IS NULL OR ap.calls_used < ap.call_limit)
+       ) start
+       ON CONFLICT (run_id) DO NOTHING
+       RETURNING id`,
+      [blinkId, wallet, runId, config.price_usdc, config.duration_hours, config.call_limit ?? null, !!config.subscription]
+    )
+    granted = inserted.rows.length > 0
+
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+
+  const pass = (await getAccessPassByRunId(runId))!
+
+  if (granted) {
+    logger.info('Granted access pass', { passId: pass.id, wallet, blinkId, expiresAt: pass.expires_at })
+    await emitWebhookEvent({
+      blinkId,
+      type: 'pass.purchased',
+      data: { pass: formatPassEvent(pass) },
+    })
+  }
+
+  return pass
+}
+
+/**
+ * Get the pass granted for a purchase run
+ */
+export async function getAccessPassByRunId(runId: string): Promise<AccessPass | null> {
+  const result = await getPool().query(
+    `SELECT ${PASS_FIELDS}
+     FROM access_passes ap
+     JOIN blinks b ON b.id = ap.blink_id
+     WHERE ap.run_id = $1`,
+    [runId]
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Get the pass that would cover a wallet's next call to a blink
+ * @returns The usable pass that expires first, or null
+ */
+export async function getActiveAccessPass(wallet: string, blinkId: string): Promise<AccessPass | null> {
+  const result = await getPool().query(
+    `SELECT ${PASS_FIELDS}
+     FROM access_passes ap
+     JOIN blinks b ON b.id = ap.blink_id
+     WHERE ap.wallet = $1 AND ap.blink_id = $2 AND ${PASS_USABLE}
+     ORDER BY ap.expires_at ASC
+     LIMIT 1`,
+    [wallet, blinkId]
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Get a wallet's current and upcoming passes (expired ones are left out)
+ * @param params.slug - Only passes for this blink
+ */
+export async function getAccessPasses(params: { wallet: string; slug?: string }): Promise<AccessPass[]> {
+  const { wallet, slug } = params
+
+  const result = await getPool().query(
+    `SELECT ${PASS_FIELDS}
+     FROM access_passes ap
+     JOIN blinks b ON b.id = ap.blink_id
+     WHERE ap.wallet = $1 AND ap.expires_at > NOW() AND ($2::text IS NULL OR b.slug = $2::text)
+     ORDER BY b.slug, ap.starts_at ASC`,
+    [wallet, slug ?? null]
+  )
+  return result.rows
+}
+
+/**
+ * Count one call of a run against the wallet's pass for the blink
+ * Must run inside the transaction that marks the run paid, so a run is never paid without its pass call.
+ * @throws Error when the wallet has no usable pass (the caller rolls back)
+ */
+export async function consumeAccessPassCall(
+  params: { wallet: string; blinkId: string; runId: string },
+  client: PoolClient
+): Promise<void> {
+  const { wallet, blinkId, runId } = params
+
+  const passResult = await client.query(
+    `UPDATE access_passes
+     SET calls_used = calls_used + 1
+     WHERE id = (
+       SELECT ap.id FROM access_passes ap
+       WHERE ap.wallet = $1 AND ap.blink_id = $2 AND ${PASS_USABLE}
+       ORDER BY ap.expires_at ASC
+       LIMIT 1
+       FOR UPDATE
+     )
+     RETURNING id`,
+    [wallet, blinkId]
+  )
+  const pass = passResult.rows[0]
+  if (!pass) {
+    throw new Error('No active access pass for this blink - it expired or has no calls left')
+  }
+
+  await client.query(
+    `INSERT INTO access_pass_uses (run_id, pass_id) VALUES ($1, $2)`,
+    [runId, pass.id]
+  )
+}
+
+/**
+ * Give a pass call back after its run failed
+ * Idempotent: a run's call is returned at most once.
+ * @returns true if a call was returned
+ */
+export async function returnAccessPassCall(runId: string): Promise<boolean> {
+  const client = await getPool().connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const use = await client.query(
+      `DELETE FROM access_pass_uses WHERE run_id = $1 RETURNING pass_id`,
+      [runId]
+    )
+    if (use.rows[0]) {
+      await client.query(
+        `UPDATE access_passes SET calls_used = GREATEST(calls_used - 1, 0) WHERE id = $1`,
+        [use.rows[0].pass_id]
+      )
+    }
+
+    await client.query('COMMIT')
+
+    if (use.rows[0]) {
+      logger.info('Returned access pass call', { runId, passId: use.rows[0].pass_id })
+    }
+    return use.rows.length > 0
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Queue pass.expiring webhooks for subscriptions that end soon and were not renewed
+ * Each pass is reminded at most once. Holders see the reminder on their own calls and passes
+ * (see getPassRenewalDue and renewal_reminder_sent_at).
+ * @param withinHours - How far ahead of expiry to remind
+ * @returns Number of passes reminded
+ */
+export async function sendPassRenewalReminders(withinHours: number = 72): Promise<number> {
+  const result = await getPool().query(
+    `UPDATE access_passes ap
+     SET renewal_reminder_sent_at = NOW()
+     WHERE ap.subscription = true
+       AND ap.renewal_reminder_sent_at IS NULL
+       AND ap.expires_at > NOW()
+       AND ap.expires_at <= NOW() + make_interval(hours => $1::int)
+       AND NOT EXISTS (
+         SELECT 1 FROM access_passes renewal
+         WHERE renewal.wallet = ap.wallet AND renewal.blink_id = ap.blink_id
+           AND renewal.starts_at >= ap.expires_at
+       )
+     RETURNING ap.id`,
+    [withinHours]
+  )
+
+  for (const { id } of result.rows) {
+    const pass = await getAccessPassById(id)
+    if (!pass) continue
+    await emitWebhookEvent({
+      blinkId: pass.blink_id,
+      type: 'pass.expiring',
+      data: { pass: formatPassEvent(pass) },
+    })
+  }
+
+  if (result.rows.length > 0) {
+    logger.info('Sent pass renewal reminders', { count: result.rows.length })
+  }
+  return result.rows.length
+}
+
+/**
+ * When a wallet's reminded subscription for a blink ends, if it was not renewed yet
+ * @returns Expiry of the reminded pass, or null when no renewal is due
+ */
+export async function getPassRenewalDue(wallet: string, blinkId: string): Promise<Date | null> {
+  const result = await getPool().query(
+    `SELECT ap.expires_at
+     FROM access_passes ap
+     WHERE ap.wallet = $1 AND ap.blink_id = $2
+       AND ap.subscription = true
+       AND ap.renewal_reminder_sent_at IS NOT NULL
+       AND ap.expires_at > NOW()
+       AND NOT EXISTS (
+         SELECT 1 FROM access_passes renewal
+         WHERE renewal.wallet = ap.wallet AND renewal.blink_id = ap.blink_id
+           AND renewal.starts_at >= ap.expires_at
+       )
+     ORDER BY ap.expires_at ASC
+     LIMIT 1`,
+    [wallet, blinkId]
+  )
+  return result.rows[0]?.expires_at ?? null
+}
+
+async function getAccessPassById(id: string): Promise<AccessPass | null> {
+  const result = await getPool().query(
+    `SELECT ${PASS_FIELDS}
+     FROM access_passes ap
+     JOIN blinks b ON b.id = ap.blink_id
+     WHERE ap.id = $1`,
+    [id]
+  )
+  return result.rows[0] || null
+}
+
+function formatPassEvent(pass: AccessPass) {
+  return {
+    id: pass.id,
+    wallet: pass.wallet,
+    price_usdc: pass.price_usdc,
+    starts_at: pass.starts_at,
+    expires_at: pass.expires_at,
+    call_limit: pass.call_limit,
+    calls_used: pass.calls_used,
+    subscription: pass.subscription,
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Pipelines Module
+ * Per-step sub-runs of pipeline blink runs
+ *
+ * The parent run carries the payment; each step gets one row here, keyed by
+ * (parent run, step index) so a retried run overwrites its failed step.
+ */
+
+import { getPool } from './connection.js'
+import { createLogger } from '@blink402/config'
+import type { PipelineStepRun } from '@blink402/types'
+
+const logger = createLogger('@blink402/database:pipelines')
+
+/**
+ * Step record including its stored output
+ */
+export interface PipelineStepRunData extends PipelineStepRun {
+  inputs: Record<string, unknown> | null
+  output: unknown
+}
+
+const STEP_COLUMNS = `s.id, s.parent_run_id, s.step_index, s.blink_id, b.slug AS blink_slug, s.status, s.attempts,
+       s.inputs, s.output, s.error, s.duration_ms, s.started_at, s.completed_at`
+
+/**
+ * Get the step records of a pipeline run, in step order
+ * @param parentRunId - ID of the pipeline blink's run
+ */
+export async function getPipelineStepRuns(parentRunId: string): Promise<PipelineStepRunData[]> {
+  const result = await getPool().query<PipelineStepRunData>(
+    `SELECT ${STEP_COLUMNS}
+     FROM pipeline_step_runs s
+     JOIN blinks b ON b.id = s.blink_id
+     WHERE s.parent_run_id = $1
+     ORDER BY s.step_index`,
+    [parentRunId]
+  )
+
+  return result.rows
+}
+
+/**
+ * Record that a step has started (a retry of the same step resets its record)
+ * @returns Step record ID
+ */
+export async function startPipelineStepRun(params: {
+  parentRunId: string
+  stepIndex: number
+  blinkId: string
+  inputs: Record<string, unknown>
+}): Promise<string> {
+  const { parentRunId, stepIndex, blinkId, inputs } = params
+
+  const result = await getPool().query<{ id: string }>(
+    `INSERT INTO pipeline_step_runs (parent_run_id, step_index, blink_id, inputs)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (parent_run_id, step_index) DO UPDATE
+       SET blink_id = EXCLUDED.blink_id,
+           inputs = EXCLUDED.inputs,
+           status = 'running',
+           attempts = pipeline_step_runs.attempts + 1,
+           output = NULL,
+           error = NULL,
+           duration_ms = NULL,
+           started_at = NOW(),
+           completed_at = NULL
+     RETURNING id`,
+    [parentRunId, stepIndex, blinkId, JSON.stringify(inputs)]
+  )
+
+  return result.rows[0].id
+}
+
+/**
+ * Record the outcome of a step
+ * @param params.output - Step response (success only)
+ * @param params.error - Failure reason (failure only)
+ */
+export async function completePipelineStepRun(params: {
+  id: string
+  success: boolean
+  durationMs: number
+  output?: unknown
+  error?: string
+}): Promise<void> {
+  const { id, success, durationMs, output, error } = params
+
+  await getPool().query(
+    `UPDATE pipeline_step_runs
+     SET status = $2::varchar,
+         output = $3,
+         error = $4,
+         duration_ms = $5,
+         completed_at = NOW()
+     WHERE id = $1`,
+    [
+      id,
+      success ? 'executed' : 'failed',
+      success && output !== undefined ? JSON.stringify(output) : null,
+      error ? error.substring(0, 1000) : null,
+      durationMs,
+    ]
+  )
+
+  if (!success) {
+    logger.warn('Pipeline step failed', { stepRunId: id, error })
+  }
+}
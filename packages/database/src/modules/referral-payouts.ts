@@ -0,0 +1,237 @@
+/**
+ * Referral Payouts Module
+ * Batches of referral commissions, paid to the referrer in one transfer
+ *
+ * Commissions are recorded as pending when a referred payer's run executes. The payout
+ * worker groups a referrer's pending commissions into a batch, sends the batch total
+ * and marks each commission paid with the batch's signature. A broadcast batch is saved
+ * as sending and settled on-chain rather than sent again; failed transfers are retried
+ * with backoff. A batch keeps its commissions, so they are never paid twice through two
+ * different batches.
+ */
+
+import type { ReferralPayoutBatch } from '@blink402/types'
+import { getPool } from './connection.js'
+import { recordLedgerCommission } from './ledger.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/database:referral-payouts')
+
+/** Batches are retried with exponential backoff (2, 4, 8, 16 minutes) before giving up */
+export const MAX_REFERRAL_PAYOUT_ATTEMPTS = 5
+
+const BATCH_FIELDS = `id, referrer_wallet, amount_usdc::text, payout_count, status, signature,
+  last_valid_block_height::text, attempts, next_attempt_at, last_error, created_at, paid_at`
+
+/**
+ * Put pending commissions of one referrer into a new batch
+ * Commissions that were paid, batched or locked in the meantime are skipped.
+ * @returns The batch, or null if none of the commissions could be batched
+ */
+export async function createReferralPayoutBatch(params: {
+  referrerWallet: string
+  payoutIds: string[]
+}): Promise<ReferralPayoutBatch | null> {
+  const { referrerWallet, payoutIds } = params
+  const client = await getPool().connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const payouts = await client.query(
+      `SELECT id, amount_usdc FROM commission_payouts
+       WHERE id = ANY($1::uuid[]) AND referrer_wallet = $2 AND status = 'pending' AND batch_id IS NULL
+       FOR UPDATE SKIP LOCKED`,
+      [payoutIds, referrerWallet]
+    )
+
+    if (payouts.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return null
+    }
+
+    const ids: string[] = payouts.rows.map((row) => row.id)
+    const batch = await client.query<ReferralPayoutBatch>(
+      `INSERT INTO commission_payout_batches (referrer_wallet, amount_usdc, payout_count)
+       SELECT $1, SUM(amount_usdc), COUNT(*) FROM commission_payouts WHERE id = ANY($2::uuid[])
+       RETURNING ${BATCH_FIELDS}`,
+      [referrerWallet, ids]
+    )
+
+    await client.query(
+      `UPDATE commission_payouts SET batch_id = $1 WHERE id = ANY($2::uuid[])`,
+      [batch.rows[0].id, ids]
+    )
+
+    await client.query('COMMIT')
+    return batch.rows[0]
+  } catch (error) {
+    await client.query('ROLLBACK')
+    logger.error('Error creating referral payout batch', error as Error, { referrerWallet })
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Claim batches whose next attempt is due, and sending batches due an on-chain check
+ * Claimed batches get a 5 minute lease on next_attempt_at so concurrent workers
+ * (or a crashed worker) never send the same batch twice in a row.
+ */
+export async function claimReferralPayoutBatches(limit = 25): Promise<ReferralPayoutBatch[]> {
+  const result = await getPool().query<ReferralPayoutBatch>(
+    `WITH due AS (
+       SELECT id FROM commission_payout_batches
+       WHERE status IN ('pending', 'sending', 'failed')
+         AND next_attempt_at IS NOT NULL
+         AND next_attempt_at <= NOW()
+       ORDER BY next_attempt_at ASC
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     ), claimed AS (
+       UPDATE commission_payout_batches b
+       SET next_attempt_at = NOW() + INTERVAL '5 minutes'
+       FROM due
+       WHERE b.id = due.id
+       RETURNING b.*
+     )
+     SELECT ${BATCH_FIELDS} FROM claimed`,
+    [limit]
+  )
+
+  return result.rows
+}
+
+/**
+ * Record a broadcast batch transfer before waiting for it to confirm
+ * The payout worker checks the signature on-chain once next_attempt_at passes (the batch is
+ * never sent again while the transfer can still land).
+ */
+export async function markReferralPayoutBatchSending(params: {
+  id: string
+  signature: string
+  lastValidBlockHeight: number
+}): Promise<void> {
+  const result = await getPool().query(
+    `UPDATE commission_payout_batches
+     SET status = 'sending', signature = $1, last_valid_block_height = $2,
+         next_attempt_at = NOW() + INTERVAL '2 minutes'
+     WHERE id = $3 AND status IN ('pending', 'failed')`,
+    [params.signature, params.lastValidBlockHeight, params.id]
+  )
+
+  if (result.rowCount === 0) {
+    throw new Error(`Referral payout batch ${params.id} not found or already sent`)
+  }
+}
+
+/**
+ * Mark a batch sent and each of its commissions paid with the batch's signature
+ * Idempotent: completing a completed batch only records commissions that are still missing.
+ */
+export async function completeReferralPayoutBatch(params: {
+  id: string
+  signature: string
+}): Promise<void> {
+  const { id, signature } = params
+  const client = await getPool().connect()
+  let payoutIds: string[]
+
+  try {
+    await client.query('BEGIN')
+
+    const batch = await client.query(
+      `UPDATE commission_payout_batches
+       SET status = 'completed', signature = $1, attempts = attempts + 1, next_attempt_at = NULL,
+           last_error = NULL, paid_at = NOW()
+       WHERE id = $2 AND status <> 'completed'`,
+      [signature, id]
+    )
+
+    if (batch.rowCount === 0) {
+      const existing = await client.query(`SELECT id FROM commission_payout_batches WHERE id = $1`, [id])
+      if (existing.rows.length === 0) {
+        throw new Error(`Referral payout batch ${id} not found`)
+      }
+    }
+
+    await client.query(
+      `UPDATE commission_payouts SET status = 'completed', transaction_signature = $1
+       WHERE batch_id = $2 AND status = 'pending'`,
+      [signature, id]
+    )
+
+    const payouts = await client.query(`SELECT id FROM commission_payouts WHERE batch_id = $1`, [id])
+    payoutIds = payouts.rows.map((row) => row.id)
+
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    logger.error('Error completing referral payout batch', error as Error, { id })
+    throw error
+  } finally {
+    client.release()
+  }
+
+  // Ledger entries are keyed per commission, so recording them again is a no-op
+  for (const payoutId of payoutIds) {
+    await recordLedgerCommission(payoutId)
+  }
+
+  logger.info('Referral payout batch completed', { id, signature, commissions: payoutIds.length })
+}
+
+/**
+ * Record a failed transfer and schedule the next attempt
+ * After MAX_REFERRAL_PAYOUT_ATTEMPTS next_attempt_at stays NULL and the batch needs manual handling.
+ * Only call this when no transfer can land: before broadcasting, or once a sending batch's
+ * transfer failed or expired on-chain.
+ */
+export async function failReferralPayoutBatch(params: {
+  id: string
+  error: string
+}): Promise<ReferralPayoutBatch> {
+  const result = await getPool().query<ReferralPayoutBatch>(
+    `UPDATE commission_payout_batches
+     SET status = 'failed',
+         attempts = attempts + 1,
+         last_error = $1,
+         next_attempt_at = CASE
+           WHEN attempts + 1 < $3 THEN NOW() + INTERVAL '2 minutes' * POWER(2, attempts)
+           ELSE NULL
+         END
+     WHERE id = $2 AND status IN ('pending', 'sending', 'failed')
+     RETURNING ${BATCH_FIELDS}`,
+    [params.error, params.id, MAX_REFERRAL_PAYOUT_ATTEMPTS]
+  )
+
+  if (result.rows.length === 0) {
+    throw new Error(`Referral payout batch ${params.id} not found`)
+  }
+
+  logger.error('Referral payout batch failed', {
+    batchId: params.id,
+    error: params.error,
+    attempts: result.rows[0].attempts,
+    nextAttemptAt: result.rows[0].next_attempt_at,
+  })
+
+  return result.rows[0]
+}
+
+/**
+ * A referrer's payout batches, newest first
+ */
+export async function getReferralPayoutBatches(referrerWallet: string, limit = 10): Promise<ReferralPayoutBatch[]> {
+  const result = await getPool().query<ReferralPayoutBatch>(
+    `SELECT ${BATCH_FIELDS}
+     FROM commission_payout_batches
+     WHERE referrer_wallet = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [referrerWallet, limit]
+  )
+
+  return result.rows
+}
@@ -0,0 +1,322 @@
+/**
+ * Revenue Splits Module
+ * Per-run payout legs for blinks whose revenue is split across wallets
+ *
+ * Runs of these blinks are paid to the platform settlement wallet; the run's metadata
+ * records it (settlementWallet) together with the split in force when the run was
+ * created (revenueSplits). When the run is marked paid, one leg per recipient, the
+ * platform fee and the creator's remainder is written here (see updateRunPaymentAtomic).
+ * The payout worker sends the legs of executed runs and cancels those of failed runs;
+ * a broadcast leg is saved as sending and settled on-chain rather than sent again.
+ * Every sent leg is a revenue_split ledger transaction the reconciliation job checks.
+ */
+
+import type { PoolClient } from 'pg'
+import type {
+  BlinkRevenueSplits,
+  RevenueShare,
+  RevenueSplitPayout,
+  RevenueSplitRole,
+} from '@blink402/types'
+import { getPool } from './connection.js'
+import { recordLedgerRevenueSplit } from './ledger.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/database:revenue-splits')
+
+/** Legs are retried with exponential backoff (1, 2, 4, 8 minutes) before giving up */
+export const MAX_REVENUE_SPLIT_ATTEMPTS = 5
+
+const PAYOUT_FIELDS = `p.id, p.run_id, p.blink_id, p.role, p.wallet, p.bps, p.amount_usdc::text, p.status, p.signature,
+  p.attempts, p.next_attempt_at, p.last_error, p.created_at, p.paid_at`
+
+/**
+ * Leg claimed by the payout worker, with the run and blink it belongs to
+ */
+export interface RevenueSplitPayoutData extends RevenueSplitPayout {
+  reference: string
+  settlement_wallet: string
+  blink_slug: string
+  last_valid_block_height: string | null // Sending legs: the transfer can't land after this block height
+}
+
+/**
+ * Split a payment (in USDC micro-units) into legs
+ * Recipients and the platform fee are rounded down; the creator gets the rest.
+ */
+function splitAmount(
+  total: number,
+  splits: BlinkRevenueSplits,
+  payoutWallet: string
+): Array<{ role: RevenueSplitRole; wallet: string | null; bps: number; amount: number }> {
+  const legs: Array<{ role: RevenueSplitRole; wallet: string | null; bps: number; amount: number }> = [
+    ...splits.recipients.map((recipient) => ({
+      role: 'recipient' as const,
+      wallet: recipient.wallet,
+      bps: recipient.bps,
+      amount: Math.floor(total * recipient.bps / 10000),
+    })),
+  ]
+  if (splits.platform_fee_bps) {
+    legs.push({
+      role: 'platform',
+      wallet: null,
+      bps: splits.platform_fee_bps,
+      amount: Math.floor(total * splits.platform_fee_bps / 10000),
+    })
+  }
+
+  const creatorBps = 10000 - legs.reduce((sum, leg) => sum + leg.bps, 0)
+  if (creatorBps > 0) {
+    legs.push({
+      role: 'creator',
+      wallet: payoutWallet,
+      bps: creatorBps,
+      amount: total - legs.reduce((sum, leg) => sum + leg.amount, 0),
+    })
+  }
+
+  return legs
+}
+
+/**
+ * Write the payout legs of a run that was just marked paid (from run.metadata.revenueSplits)
+ * Must run inside the transaction that marks the run paid. The platform fee stays in the
+ * settlement wallet, so its leg is completed (and recorded in the ledger) right away.
+ */
+export async function recordRevenueSplitPayouts(
+  run: { id: string; blink_id: string; metadata?: Record<string, any> | null },
+  client: PoolClient
+): Promise<void> {
+  const splits: BlinkRevenueSplits | undefined = run.metadata?.revenueSplits
+  if (!run.metadata?.settlementWallet || !splits) return
+
+  const blinkResult = await client.query(
+    `SELECT price_usdc::text, payout_wallet FROM blinks WHERE id = $1`,
+    [run.blink_id]
+  )
+  const blink = blinkResult.rows[0]
+  if (!blink) return
+
+  const total = Math.round(parseFloat(run.metadata.amountUsdc ?? blink.price_usdc) * 1_000_000)
+
+  for (const leg of splitAmount(total, splits, blink.payout_wallet)) {
+    if (leg.amount <= 0) continue
+
+    const isPlatform = leg.role === 'platform'
+    const inserted = await client.query(
+      `INSERT INTO revenue_split_payouts (run_id, blink_id, role, wallet, bps, amount_usdc, status, next_attempt_at, paid_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, CASE WHEN $8::boolean THEN NULL ELSE NOW() END,
+               CASE WHEN $8::boolean THEN NOW() ELSE NULL END)
+       RETURNING id`,
+      [
+        run.id, run.blink_id, leg.role, leg.wallet, leg.bps, (leg.amount / 1_000_000).toFixed(6),
+        isPlatform ? 'completed' : 'pending', isPlatform,
+      ]
+    )
+
+    if (isPlatform) {
+      await recordLedgerRevenueSplit(inserted.rows[0].id, client)
+    }
+  }
+}
+
+/**
+ * Claim legs whose run has executed and whose next attempt is due, and sending legs due an on-chain check
+ * Claimed rows get a 5 minute lease on next_attempt_at so concurrent workers
+ * (or a crashed worker) never send the same leg twice in a row.
+ */
+export async function claimRevenueSplitPayouts(limit = 25): Promise<RevenueSplitPayoutData[]> {
+  const result = await getPool().query(
+    `WITH due AS (
+       SELECT p.id FROM revenue_split_payouts p
+       JOIN runs r ON r.id = p.run_id
+       WHERE p.status IN ('pending', 'sending', 'failed')
+         AND p.next_attempt_at IS NOT NULL
+         AND p.next_attempt_at <= NOW()
+         AND (r.status = 'executed' OR p.status = 'sending')
+       ORDER BY p.next_attempt_at ASC
+       LIMIT $1
+       FOR UPDATE OF p SKIP LOCKED
+     ), claimed AS (
+       UPDATE revenue_split_payouts p
+       SET next_attempt_at = NOW() + INTERVAL '5 minutes'
+       FROM due
+       WHERE p.id = due.id
+       RETURNING p.*
+     )
+     SELECT ${PAYOUT_FIELDS}, p.last_valid_block_height::text, r.reference,
+            r.metadata->>'settlementWallet' AS settlement_wallet, b.slug AS blink_slug
+     FROM claimed p
+     JOIN runs r ON r.id = p.run_id
+     JOIN blinks b ON b.id = p.blink_id`,
+    [limit]
+  )
+
+  return result.rows
+}
+
+/**
+ * Record a broadcast leg transfer before waiting for it to confirm
+ * The payout worker checks the signature on-chain once next_attempt_at passes (the leg is
+ * never sent again while the transfer can still land).
+ */
+export async function markRevenueSplitPayoutSending(params: {
+  id: string
+  signature: string
+  lastValidBlockHeight: number
+}): Promise<void> {
+  const result = await getPool().query(
+    `UPDATE revenue_split_payouts
+     SET status = 'sending', signature = $1, last_valid_block_height = $2,
+         next_attempt_at = NOW() + INTERVAL '2 minutes'
+     WHERE id = $3 AND status IN ('pending', 'failed')`,
+    [params.signature, params.lastValidBlockHeight, params.id]
+  )
+
+  if (result.rowCount === 0) {
+    throw new Error(`Revenue split payout ${params.id} not found or already sent`)
+  }
+}
+
+/**
+ * Mark a leg sent and record it in the ledger
+ * Idempotent: an already completed leg is returned unchanged.
+ */
+export async function completeRevenueSplitPayout(params: {
+  id: string
+  signature: string
+}): Promise<RevenueSplitPayout> {
+  const result = await getPool().query(
+    `UPDATE revenue_split_payouts p
+     SET status = 'completed', signature = $1, attempts = attempts + 1, next_attempt_at = NULL,
+         last_error = NULL, paid_at = NOW()
+     WHERE id = $2 AND status <> 'completed'
+     RETURNING ${PAYOUT_FIELDS}`,
+    [params.signature, params.id]
+  )
+
+  if (result.rows.length === 0) {
+    const existing = await getPool().query(
+      `SELECT ${PAYOUT_FIELDS} FROM revenue_split_payouts p WHERE id = $1 AND status = 'completed'`,
+      [params.id]
+    )
+    if (existing.rows.length === 0) {
+      throw new Error(`Revenue split payout ${params.id} not found`)
+    }
+    return existing.rows[0]
+  }
+
+  await recordLedgerRevenueSplit(params.id)
+
+  return result.rows[0]
+}
+
+/**
+ * Record a failed transfer and schedule the next attempt
+ * After MAX_REVENUE_SPLIT_ATTEMPTS next_attempt_at stays NULL and the leg needs manual handling.
+ * Only call this when no transfer can land: before broadcasting, or once a sending leg's
+ * transfer failed or expired on-chain.
+ */
+export async function failRevenueSplitPayout(params: {
+  id: string
+  error: string
+}): Promise<RevenueSplitPayout> {
+  const result = await getPool().query(
+    `UPDATE revenue_split_payouts p
+     SET status = 'failed',
+         attempts = attempts + 1,
+         last_error = $1,
+         next_attempt_at = CASE
+           WHEN attempts + 1 < $3 THEN NOW() + INTERVAL '1 minute' * POWER(2, attempts)
+           ELSE NULL
+         END
+     WHERE id = $2 AND status IN ('pending', 'sending', 'failed')
+     RETURNING ${PAYOUT_FIELDS}`,
+    [params.error, params.id, MAX_REVENUE_SPLIT_ATTEMPTS]
+  )
+
+  if (result.rows.length === 0) {
+    throw new Error(`Revenue split payout ${params.id} not found`)
+  }
+
+  logger.error('Revenue split payout failed', {
+    payoutId: params.id,
+    error: params.error,
+    attempts: result.rows[0].attempts,
+    nextAttemptAt: result.rows[0].next_attempt_at,
+  })
+
+  return result.rows[0]
+}
+
+/**
+ * Cancel the unsent legs of runs that failed (their payment is refunded instead)
+ * @returns Number of legs cancelled
+ */
+export async function cancelFailedRunRevenueSplits(): Promise<number> {
+  const result = await getPool().query(
+    `UPDATE revenue_split_payouts p
+     SET status = 'cancelled', next_attempt_at = NULL
+     FROM runs r
+     WHERE r.id = p.run_id AND r.status = 'failed' AND p.status IN ('pending', 'failed')`
+  )
+  return result.rowCount ?? 0
+}
+
+/**
+ * Cancel the unsent legs of a run that is being refunded
+ * Safe to call again when the refund is retried.
+ * @returns true when the run's payment was held for a split and no leg reached a wallet,
+ *          so the settlement wallet still holds it and the creator owes nothing for the refund
+ *          (a leg that is still sending may land, so it counts as sent)
+ */
+export async function cancelRunRevenueSplits(runId: string): Promise<boolean> {
+  await getPool().query(
+    `UPDATE revenue_split_payouts
+     SET status = 'cancelled', next_attempt_at = NULL
+     WHERE run_id = $1 AND status IN ('pending', 'failed')`,
+    [runId]
+  )
+
+  const result = await getPool().query(
+    `SELECT COUNT(*)::int AS legs,
+            COUNT(*) FILTER (WHERE status IN ('sending', 'completed') AND role <> 'platform')::int AS sent
+     FROM revenue_split_payouts
+     WHERE run_id = $1`,
+    [runId]
+  )
+
+  const { legs, sent } = result.rows[0]
+  return legs > 0 && sent === 0
+}
+
+/**
+ * A wallet's shares of revenue split blinks, as creator (remainder) or recipient
+ * Platform fee legs are not included.
+ */
+export async function getWalletRevenueShares(wallet: string): Promise<RevenueShare[]> {
+  const result = await getPool().query(
+    `SELECT b.id AS blink_id, b.slug AS blink_slug, b.title AS blink_title, p.role,
+            COALESCE(SUM(p.amount_usdc) FILTER (WHERE p.status = 'completed'), 0)::text AS paid_usdc,
+            COALESCE(SUM(p.amount_usdc) FILTER (WHERE p.status IN ('pending', 'sending', 'failed')), 0)::text AS pending_usdc,
+            COUNT(*) FILTER (WHERE p.status = 'completed')::int AS payouts,
+            MAX(p.paid_at) AS last_paid_at,
+            CASE
+              WHEN p.role = 'creator' AND b.revenue_splits IS NOT NULL AND b.payout_wallet = $1 THEN
+                10000 - COALESCE((SELECT SUM((rcp->>'bps')::int) FROM jsonb_array_elements(b.revenue_splits->'recipients') rcp), 0)
+                      - COALESCE((b.revenue_splits->>'platform_fee_bps')::int, 0)
+              WHEN p.role = 'recipient' THEN
+                (SELECT SUM((rcp->>'bps')::int) FROM jsonb_array_elements(b.revenue_splits->'recipients') rcp
+                 WHERE rcp->>'wallet' = $1)
+            END::int AS bps
+     FROM revenue_split_payouts p
+     JOIN blinks b ON b.id = p.blink_id
+     WHERE p.wallet = $1 AND p.status <> 'cancelled'
+     GROUP BY b.id, p.role
+     ORDER BY MAX(p.created_at) DESC`,
+    [wallet]
+  )
+
+  return result.rows
+}
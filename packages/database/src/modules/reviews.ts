@@ -0,0 +1,178 @@
+/**
+ * Reviews Module
+ * Ratings and reviews from verified payers, creator replies and the rating aggregate
+ *
+ * A wallet can only review a blink it has an executed run of (it paid, and the call
+ * went through); the review is tied to that run. Each wallet has one review per blink,
+ * so reviewing again replaces the rating and comment. The aggregate on blinks is
+ * recomputed in the same transaction: rating_avg/rating_count for display, and
+ * rating_score - a Bayesian average pulled toward REVIEW_PRIOR_MEAN, 0 when unrated -
+ * which the catalog's top_rated sort ranks by.
+ */
+
+import type { PoolClient } from 'pg'
+import type { BlinkRatingSummary, BlinkReview } from '@blink402/types'
+import { getPool } from './connection.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/database:reviews')
+
+/** Rating a blink is assumed to have before reviews come in */
+export const REVIEW_PRIOR_MEAN = 3
+/** How many reviews the prior counts as (more = slower to move away from it) */
+export const REVIEW_PRIOR_WEIGHT = 5
+
+/** top_rated badge: minimum reviews and average rating */
+export const TOP_RATED_MIN_REVIEWS = 5
+export const TOP_RATED_MIN_RATING = 4.5
+
+const REVIEW_COLUMNS = `id, blink_id, reviewer_wallet, rating, comment, creator_reply, replied_at, created_at, updated_at`
+
+/**
+ * Recompute a blink's rating aggregate from its reviews
+ */
+async function refreshBlinkRating(client: PoolClient, blinkId: string): Promise<void> {
+  await client.query(
+    `UPDATE blinks b
+     SET rating_count = s.review_count,
+         rating_avg = s.average,
+         rating_score = CASE
+           WHEN s.review_count = 0 THEN 0
+           ELSE (s.rating_sum + $2::numeric * $3::int) / (s.review_count + $3::int)
+         END
+     FROM (
+       SELECT COUNT(*)::int AS review_count, ROUND(AVG(rating), 2) AS average, COALESCE(SUM(rating), 0) AS rating_sum
+       FROM blink_reviews
+       WHERE blink_id = $1
+     ) s
+     WHERE b.id = $1`,
+    [blinkId, REVIEW_PRIOR_MEAN, REVIEW_PRIOR_WEIGHT]
+  )
+}
+
+/**
+ * Create or replace a wallet's review of a blink
+ * The review is tied to the wallet's most recent executed run of the blink.
+ * @returns The review, or null if the wallet has no executed run of the blink
+ */
+export async function submitBlinkReview(params: {
+  blinkId: string
+  wallet: string
+  rating: number
+  comment: string | null
+}): Promise<BlinkReview | null> {
+  const { blinkId, wallet, rating, comment } = params
+  const client = await getPool().connect()
+
+  try {
+    await client.query('BEGIN')
+
+    // Locks the blink so concurrent reviews update the aggregate one at a time
+    await client.query(`SELECT id FROM blinks WHERE id = $1 FOR UPDATE`, [blinkId])
+
+    const run = await client.query(
+      `SELECT id FROM runs
+       WHERE blink_id = $1 AND payer = $2 AND status = 'executed'
+       ORDER BY executed_at DESC NULLS LAST, created_at DESC
+       LIMIT 1`,
+      [blinkId, wallet]
+    )
+
+    if (run.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return null
+    }
+
+    const result = await client.query<BlinkReview>(
+      `INSERT INTO blink_reviews (blink_id, run_id, reviewer_wallet, rating, comment)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (blink_id, reviewer_wallet) DO UPDATE
+       SET run_id = EXCLUDED.run_id,
+           rating = EXCLUDED.rating,
+           comment = EXCLUDED.comment,
+           updated_at = NOW()
+       RETURNING ${REVIEW_COLUMNS}`,
+      [blinkId, run.rows[0].id, wallet, rating, comment]
+    )
+
+    await refreshBlinkRating(client, blinkId)
+
+    await client.query('COMMIT')
+
+    logger.info('Blink reviewed', { blinkId, reviewId: result.rows[0].id, rating })
+    return result.rows[0]
+  } catch (error) {
+    await client.query('ROLLBACK')
+    logger.error('Error submitting review', error as Error, { blinkId, wallet })
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Set (or clear, with null) the creator's reply to a review
+ * @returns The review, or null if it doesn't exist or belongs to another blink
+ */
+export async function replyToBlinkReview(params: {
+  reviewId: string
+  blinkId: string
+  reply: string | null
+}): Promise<BlinkReview | null> {
+  const result = await getPool().query<BlinkReview>(
+    `UPDATE blink_reviews
+     SET creator_reply = $3,
+         replied_at = CASE WHEN $3::text IS NULL THEN NULL ELSE NOW() END
+     WHERE id = $1 AND blink_id = $2
+     RETURNING ${REVIEW_COLUMNS}`,
+    [params.reviewId, params.blinkId, params.reply]
+  )
+
+  return result.rows[0] ?? null
+}
+
+/**
+ * A blink's reviews, newest first
+ */
+export async function getBlinkReviews(
+  blinkId: string,
+  options: { limit?: number; offset?: number } = {}
+): Promise<BlinkReview[]> {
+  const result = await getPool().query<BlinkReview>(
+    `SELECT ${REVIEW_COLUMNS}
+     FROM blink_reviews
+     WHERE blink_id = $1
+     ORDER BY created_at DESC, id DESC
+     LIMIT $2 OFFSET $3`,
+    [blinkId, options.limit ?? 20, options.offset ?? 0]
+  )
+
+  return result.rows
+}
+
+/**
+ * Average, count and star distribution of a blink's reviews
+ */
+export async function getBlinkRatingSummary(blinkId: string): Promise<BlinkRatingSummary> {
+  const result = await getPool().query(
+    `SELECT rating, COUNT(*)::int AS count
+     FROM blink_reviews
+     WHERE blink_id = $1
+     GROUP BY rating`,
+    [blinkId]
+  )
+
+  const distribution: BlinkRatingSummary['distribution'] = [0, 0, 0, 0, 0]
+  let total = 0
+  for (const row of result.rows) {
+    distribution[row.rating - 1] = row.count
+    total += row.rating * row.count
+  }
+  const count = distribution.reduce((sum, n) => sum + n, 0)
+
+  return {
+    average: count > 0 ? Math.round((total / count) * 100) / 100 : null,
+    count,
+    distribution,
+  }
+}
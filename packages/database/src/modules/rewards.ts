@@ -4,6 +4,8 @@
  */
 
 import { getPool, isPostgresError } from './connection.js'
+import { emitWebhookEvent } from './webhooks.js'
+import { recordLedgerReward } from './ledger.js'
 
 /**
  * Reward claim data interface
@@ -21,7 +23,7 @@ export interface RewardClaimData {
 /**
  * Create a reward claim record
  * Prevents duplicate claims via UNIQUE constraint on (blink_id, user_wallet, reference)
- * @param params - Reward claim parameters
+ * @param params - Reward claim parameters (amount/token: what was actually sent, for the ledger)
  * @returns Created reward claim data
  * @throws Error if user already claimed this reward
  */
@@ -30,8 +32,10 @@ export async function createRewardClaim(params: {
   userWallet: string
   reference: string
   signature: string
+  amount?: string
+  token?: 'SOL' | 'USDC'
 }): Promise<RewardClaimData> {
-  const { blinkId, userWallet, reference, signature } = params
+  const { blinkId, userWallet, reference, signature, amount, token } = params
 
   try {
     const result = await getPool().query(
@@ -41,7 +45,23 @@ export async function createRewardClaim(params: {
       [blinkId, userWallet, reference, signature]
     )
 
-    return result.rows[0]
+    const claim = result.rows[0]
+    await recordLedgerReward({ claimId: claim.id, blinkId, userWallet, signature, amount, token })
+    await emitWebhookEvent({
+      blinkId,
+      type: 'reward.claimed',
+      data: {
+        claim: {
+          id: claim.id,
+          user_wallet: claim.user_wallet,
+          reference: claim.reference,
+          signature: claim.signature,
+          claimed_at: claim.claimed_at,
+        },
+      },
+    })
+
+    return claim
   } catch (error) {
     if (isPostgresError(error) && error.code === '23505') {
       throw new Error('Reward already claimed by this wallet')
@@ -4,7 +4,15 @@
  */
 
 import { getPool } from './connection.js'
+import { emitWebhookEvent } from './webhooks.js'
+import { recordLedgerPayment } from './ledger.js'
+import { debitCreditsForRun } from './credits.js'
+import { consumeAccessPassCall } from './passes.js'
+import { recordCouponRedemption } from './coupons.js'
+import { recordRevenueSplitPayouts } from './revenue-splits.js'
+import { recordCreditSettlement } from './credit-settlements.js'
 import { createLogger } from '@blink402/config'
+import type { Blockchain, WebhookEventType } from '@blink402/types'
 
 const logger = createLogger('@blink402/database:runs')
 
@@ -25,6 +33,30 @@ export interface RunData {
   paid_at?: Date | null
   executed_at?: Date | null
   metadata?: Record<string, any>
+  blockchain?: Blockchain
+}
+
+/**
+ * Notify the blink creator's webhooks of a run state change (response data is never included)
+ */
+function emitRunWebhook(type: WebhookEventType, run: RunData): Promise<number> {
+  return emitWebhookEvent({
+    blinkId: run.blink_id,
+    type,
+    data: {
+      run: {
+        id: run.id,
+        reference: run.reference,
+        status: run.status,
+        payer: run.payer,
+        signature: run.signature,
+        duration_ms: run.duration_ms,
+        created_at: run.created_at,
+        paid_at: run.paid_at ?? null,
+        executed_at: run.executed_at ?? null,
+      },
+    },
+  })
 }
 
 /**
@@ -37,14 +69,15 @@ export async function createRun(params: {
   blinkId: string
   reference: string
   metadata?: Record<string, any>
+  blockchain?: Blockchain
 }): Promise<RunData> {
-  const { blinkId, reference, metadata } = params
+  const { blinkId, reference, metadata, blockchain = 'solana' } = params
 
   const result = await getPool().query(
-    `INSERT INTO runs (blink_id, reference, status, metadata)
-    VALUES ($1, $2, 'pending', $3)
-    RETURNING id, blink_id, reference, signature, payer, status, duration_ms, created_at, expires_at, metadata`,
-    [blinkId, reference, metadata ? JSON.stringify(metadata) : null]
+    `INSERT INTO runs (blink_id, reference, status, metadata, blockchain)
+    VALUES ($1, $2, 'pending', $3, $4)
+    RETURNING id, blink_id, reference, signature, payer, status, duration_ms, created_at, expires_at, metadata, blockchain`,
+    [blinkId, reference, metadata ? JSON.stringify(metadata) : null, blockchain]
   )
 
   return result.rows[0]
@@ -58,7 +91,7 @@ export async function createRun(params: {
  */
 export async function getRunByReference(reference: string): Promise<RunData | null> {
   const result = await getPool().query(
-    `SELECT id, blink_id, reference, signature, payer, status, duration_ms, created_at, expires_at, paid_at, executed_at, metadata
+    `SELECT id, blink_id, reference, signature, payer, status, duration_ms, created_at, expires_at, paid_at, executed_at, metadata, blockchain
     FROM runs
     WHERE reference = $1`,
     [reference]
@@ -122,6 +155,7 @@ export async function updateRunPayment(params: {
   )
 
   if (result.rows.length === 0) return null
+  await recordLedgerPayment(result.rows[0])
   return result.rows[0]
 }
 
@@ -129,15 +163,20 @@ export async function updateRunPayment(params: {
  * Atomically update run payment with row-level locking
  * Prevents race conditions and signature reuse
  * @param params - Payment update parameters
+ * @param params.credits - Pay from the payer's prepaid credits (debited in the same transaction)
+ * @param params.accessPass - Cover the run with one call of the payer's access pass for the blink
  * @returns Updated run data or null if not found
- * @throws Error if run already processed or signature already used
+ * @throws Error if run already processed, signature already used, or the credit debit, pass call or
+ *         coupon of a credit payment is refused
  */
 export async function updateRunPaymentAtomic(params: {
   reference: string
   signature: string
   payer: string
+  credits?: { amount: string }
+  accessPass?: boolean
 }): Promise<RunData | null> {
-  const { reference, signature, payer } = params
+  const { reference, signature, payer, credits, accessPass } = params
 
   const client = await getPool().connect()
   let transactionStarted = false
@@ -188,9 +227,45 @@ export async function updateRunPaymentAtomic(params: {
       [signature, payer, reference]
     )
 
+    if (credits) {
+      await debitCreditsForRun({ wallet: payer, runId: updateResult.rows[0].id, amount: credits.amount }, client)
+    }
+    if (accessPass) {
+      await consumeAccessPassCall({ wallet: payer, blinkId: updateResult.rows[0].blink_id, runId: updateResult.rows[0].id }, client)
+    }
+
+    // A coupon counts against its limits once the run it discounted is paid.
+    // Over its limits, a credit debit is refused; a payment already made on-chain is kept
+    // and the run is flagged (metadata.couponRefused) so the caller refunds it instead of executing.
+    const couponRefused = await recordCouponRedemption(updateResult.rows[0], client)
+    if (couponRefused && credits) {
+      throw new Error(couponRefused)
+    }
+    if (couponRefused) {
+      const flagged = await client.query(
+        `UPDATE runs
+        SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('couponRefused', $2::text)
+        WHERE id = $1
+        RETURNING id, blink_id, reference, signature, payer, status, duration_ms, created_at, paid_at, metadata`,
+        [updateResult.rows[0].id, couponRefused]
+      )
+      updateResult.rows[0] = flagged.rows[0]
+    }
+
+    // The payment's ledger entry commits together with the run update
+    await recordLedgerPayment(updateResult.rows[0], client)
+
+    // Revenue split runs get their payout legs (sent by the payout worker once the run executes)
+    await recordRevenueSplitPayouts(updateResult.rows[0], client)
+
+    // Credit-paid runs get their creator settlement (sent from the credits treasury once the run executes)
+    await recordCreditSettlement(updateResult.rows[0], client)
+
     await client.query('COMMIT')
     transactionStarted = false
 
+    await emitRunWebhook('run.paid', updateResult.rows[0])
+
     return updateResult.rows[0]
   } catch (error) {
     if (transactionStarted) {
@@ -267,6 +342,8 @@ export async function markRunExecuted(params: {
     await client.query('COMMIT')
     transactionStarted = false
 
+    await emitRunWebhook('run.executed', run)
+
     return run
   } catch (error) {
     if (transactionStarted) {
@@ -301,9 +378,42 @@ export async function markRunFailed(reference: string): Promise<RunData | null>
   )
 
   if (result.rows.length === 0) return null
+
+  await emitRunWebhook('run.failed', result.rows[0])
   return result.rows[0]
 }
 
+/**
+ * Count a blink's paid runs in the last few minutes (used for surge pricing)
+ */
+export async function countRecentPaidRuns(blinkId: string, windowMinutes: number): Promise<number> {
+  const result = await getPool().query(
+    `SELECT COUNT(*)::int AS count
+    FROM runs
+    WHERE blink_id = $1 AND paid_at > NOW() - make_interval(mins => $2::int)`,
+    [blinkId, windowMinutes]
+  )
+  return result.rows[0].count
+}
+
+/**
+ * Count a wallet's paid runs of a blink in the last few days (used for volume discounts)
+ */
+export async function countWalletPaidRuns(params: {
+  blinkId: string
+  wallet: string
+  windowDays: number
+}): Promise<number> {
+  const { blinkId, wallet, windowDays } = params
+  const result = await getPool().query(
+    `SELECT COUNT(*)::int AS count
+    FROM runs
+    WHERE blink_id = $1 AND payer = $2 AND paid_at > NOW() - make_interval(days => $3::int)`,
+    [blinkId, wallet, windowDays]
+  )
+  return result.rows[0].count
+}
+
 /**
  * Clean up expired runs
  * Deletes runs older than 30 days
@@ -0,0 +1,243 @@
+/**
+ * Slots Module
+ * Provably fair seed pairs per wallet and the spins played with them
+ *
+ * Server seeds are encrypted by the caller (see encryption.ts) and only revealed
+ * when the player rotates their seed pair.
+ */
+
+import { getPool } from './connection.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/database:slots')
+
+/**
+ * Seed pair record
+ * Contains the encrypted server seed while active - never send this to clients
+ */
+export interface SlotSeedPairData {
+  id: string
+  wallet: string
+  server_seed_hash: string
+  server_seed_encrypted: string | null
+  server_seed: string | null
+  client_seed: string
+  next_nonce: number
+  status: 'active' | 'revealed'
+  created_at: Date
+  revealed_at: Date | null
+}
+
+/**
+ * Spin record joined with its seed pair
+ */
+export interface SlotSpinData {
+  id: string
+  run_id: string
+  reference: string
+  seed_pair_id: string
+  wallet: string
+  nonce: number
+  reels: string[]
+  payout_usdc: string
+  multiplier: string
+  created_at: Date
+  server_seed_hash: string
+  server_seed: string | null
+  client_seed: string
+}
+
+const SEED_PAIR_COLUMNS = `id, wallet, server_seed_hash, server_seed_encrypted, server_seed, client_seed,
+       next_nonce, status, created_at, revealed_at`
+
+/**
+ * Get a wallet's active seed pair
+ * @param wallet - Player wallet address
+ * @returns Active seed pair or null if none has been issued
+ */
+export async function getActiveSlotSeedPair(wallet: string): Promise<SlotSeedPairData | null> {
+  const result = await getPool().query<SlotSeedPairData>(
+    `SELECT ${SEED_PAIR_COLUMNS}
+     FROM slot_seed_pairs
+     WHERE wallet = $1 AND status = 'active'`,
+    [wallet]
+  )
+
+  return result.rows[0] || null
+}
+
+/**
+ * Issue an active seed pair for a wallet (no-op if one already exists)
+ * @param params - Seed pair parameters (server seed already encrypted)
+ * @returns The wallet's active seed pair
+ */
+export async function createSlotSeedPair(params: {
+  wallet: string
+  serverSeedHash: string
+  encryptedServerSeed: string
+  clientSeed: string
+}): Promise<SlotSeedPairData> {
+  const { wallet, serverSeedHash, encryptedServerSeed, clientSeed } = params
+
+  const result = await getPool().query<SlotSeedPairData>(
+    `INSERT INTO slot_seed_pairs (wallet, server_seed_hash, server_seed_encrypted, client_seed)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (wallet) WHERE status = 'active' DO NOTHING
+     RETURNING ${SEED_PAIR_COLUMNS}`,
+    [wallet, serverSeedHash, encryptedServerSeed, clientSeed]
+  )
+
+  if (result.rows[0]) {
+    logger.info('Issued slot seed pair', { wallet, seedPairId: result.rows[0].id })
+    return result.rows[0]
+  }
+
+  // Lost a race with a concurrent request - use the pair it created
+  const existing = await getActiveSlotSeedPair(wallet)
+  if (!existing) {
+    throw new Error('Failed to issue slot seed pair')
+  }
+  return existing
+}
+
+/**
+ * Reveal a wallet's active seed pair and issue the next one in a single transaction
+ * @param params - Next seed pair (server seed already encrypted)
+ * @returns The revealed pair (null if the wallet had none) and the new active pair
+ */
+export async function rotateSlotSeedPair(params: {
+  wallet: string
+  revealServerSeed: (encryptedServerSeed: string) => string
+  next: { serverSeedHash: string; encryptedServerSeed: string; clientSeed: string }
+}): Promise<{ revealed: SlotSeedPairData | null; active: SlotSeedPairData }> {
+  const { wallet, revealServerSeed, next } = params
+  const client = await getPool().connect()
+
+  try {
+    await client.query('BEGIN')
+
+    const current = await client.query<SlotSeedPairData>(
+      `SELECT ${SEED_PAIR_COLUMNS}
+       FROM slot_seed_pairs
+       WHERE wallet = $1 AND status = 'active'
+       FOR UPDATE`,
+      [wallet]
+    )
+
+    let revealed: SlotSeedPairData | null = null
+    if (current.rows[0]) {
+      const pair = current.rows[0]
+      const revealedResult = await client.query<SlotSeedPairData>(
+        `UPDATE slot_seed_pairs
+         SET status = 'revealed',
+             server_seed = $2,
+             server_seed_encrypted = NULL,
+             revealed_at = NOW()
+         WHERE id = $1
+         RETURNING ${SEED_PAIR_COLUMNS}`,
+        [pair.id, revealServerSeed(pair.server_seed_encrypted!)]
+      )
+      revealed = revealedResult.rows[0]
+    }
+
+    const activeResult = await client.query<SlotSeedPairData>(
+      `INSERT INTO slot_seed_pairs (wallet, server_seed_hash, server_seed_encrypted, client_seed)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${SEED_PAIR_COLUMNS}`,
+      [wallet, next.serverSeedHash, next.encryptedServerSeed, next.clientSeed]
+    )
+
+    await client.query('COMMIT')
+
+    logger.info('Rotated slot seed pair', {
+      wallet,
+      revealedSeedPairId: revealed?.id,
+      seedPairId: activeResult.rows[0].id,
+    })
+    return { revealed, active: activeResult.rows[0] }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Take the next nonce of a wallet's active seed pair
+ * @param wallet - Player wallet address
+ * @returns The pair (with the nonce to use for this spin) or null if the wallet has no active pair
+ */
+export async function claimSlotSpinNonce(
+  wallet: string
+): Promise<(SlotSeedPairData & { nonce: number }) | null> {
+  const result = await getPool().query<SlotSeedPairData & { nonce: number }>(
+    `UPDATE slot_seed_pairs
+     SET next_nonce = next_nonce + 1
+     WHERE wallet = $1 AND status = 'active'
+     RETURNING ${SEED_PAIR_COLUMNS}, next_nonce - 1 AS nonce`,
+    [wallet]
+  )
+
+  return result.rows[0] || null
+}
+
+/**
+ * Record a spin with the seed pair and nonce it used
+ */
+export async function createSlotSpin(params: {
+  runId: string
+  seedPairId: string
+  wallet: string
+  nonce: number
+  reels: string[]
+  payoutUsdc: string
+  multiplier: number
+}): Promise<void> {
+  const { runId, seedPairId, wallet, nonce, reels, payoutUsdc, multiplier } = params
+
+  await getPool().query(
+    `INSERT INTO slot_spins (run_id, seed_pair_id, wallet, nonce, reels, payout_usdc, multiplier)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [runId, seedPairId, wallet, nonce, reels, payoutUsdc, multiplier]
+  )
+}
+
+const SPIN_SELECT = `SELECT s.id, s.run_id, r.reference, s.seed_pair_id, s.wallet, s.nonce, s.reels,
+         s.payout_usdc, s.multiplier, s.created_at,
+         p.server_seed_hash, p.server_seed, p.client_seed
+  FROM slot_spins s
+  JOIN runs r ON r.id = s.run_id
+  JOIN slot_seed_pairs p ON p.id = s.seed_pair_id`
+
+/**
+ * Get a spin by its payment reference
+ * @param reference - Run reference UUID
+ * @returns Spin with its seed pair, or null if not found
+ */
+export async function getSlotSpinByReference(reference: string): Promise<SlotSpinData | null> {
+  const result = await getPool().query<SlotSpinData>(
+    `${SPIN_SELECT}
+     WHERE r.reference = $1`,
+    [reference]
+  )
+
+  return result.rows[0] || null
+}
+
+/**
+ * Get a wallet's most recent spins
+ * @param wallet - Player wallet address
+ * @param limit - Maximum spins to return
+ */
+export async function getSlotSpinsByWallet(wallet: string, limit: number = 20): Promise<SlotSpinData[]> {
+  const result = await getPool().query<SlotSpinData>(
+    `${SPIN_SELECT}
+     WHERE s.wallet = $1
+     ORDER BY s.created_at DESC
+     LIMIT $2`,
+    [wallet, limit]
+  )
+
+  return result.rows
+}
@@ -0,0 +1,321 @@
+/**
+ * Webhooks Module
+ * Creator webhook endpoints and their delivery log
+ *
+ * Events are recorded here as one delivery row per subscribed webhook. Sending,
+ * signing and retries happen in the API's webhook dispatcher.
+ */
+
+import { randomUUID } from 'crypto'
+import { getPool } from './connection.js'
+import { createLogger } from '@blink402/config'
+import type {
+  CreatorWebhook,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookEventPayload,
+} from '@blink402/types'
+
+const logger = createLogger('@blink402/database:webhooks')
+
+/**
+ * Delivery joined with its webhook, as needed to send it
+ * Contains the encrypted signing secret - never send this to clients
+ */
+export interface WebhookDispatchData {
+  id: string
+  webhook_id: string
+  event_type: WebhookEventType
+  payload: WebhookEventPayload
+  attempts: number
+  status: WebhookDelivery['status']
+  url: string
+  secret_encrypted: string
+  is_active: boolean
+}
+
+const WEBHOOK_COLUMNS = 'w.id, w.url, w.description, w.events, w.is_active, w.created_at, w.updated_at'
+const DELIVERY_COLUMNS = `id, webhook_id, event_id, event_type, status, attempts, last_status_code, last_error,
+  last_attempt_at, next_attempt_at, delivered_at, replay_of, created_at`
+
+/**
+ * Record an event for every active webhook of the blink's creator that subscribes to it
+ * Best effort: failures are logged and never break the state transition that emitted the event.
+ * @param params.blinkId - Blink the event belongs to (its id and slug are added to data.blink)
+ * @returns Number of deliveries created
+ */
+export async function emitWebhookEvent(params: {
+  blinkId: string
+  type: WebhookEventType
+  data: Record<string, any>
+}): Promise<number> {
+  const { blinkId, type, data } = params
+  const payload: WebhookEventPayload = {
+    id: randomUUID(),
+    type,
+    created_at: new Date().toISOString(),
+    data,
+  }
+
+  try {
+    const result = await getPool().query(
+      `INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, payload)
+       SELECT w.id, $2, $3::varchar,
+              jsonb_set($4::jsonb, '{data,blink}', jsonb_build_object('id', b.id, 'slug', b.slug))
+       FROM creator_webhooks w
+       JOIN blinks b ON b.creator_id = w.creator_id
+       WHERE b.id = $1 AND w.is_active = true AND $3::varchar = ANY(w.events)`,
+      [blinkId, payload.id, type, JSON.stringify(payload)]
+    )
+
+    if (result.rowCount) {
+      logger.info('Queued webhook event', { blinkId, type, eventId: payload.id, deliveries: result.rowCount })
+    }
+    return result.rowCount || 0
+  } catch (error) {
+    logger.error('Failed to record webhook event', error as Error, { blinkId, type })
+    return 0
+  }
+}
+
+/**
+ * Create a webhook for a creator
+ * @param params - Webhook parameters (secret already encrypted)
+ */
+export async function createCreatorWebhook(params: {
+  creatorId: string
+  url: string
+  description?: string | null
+  events: WebhookEventType[]
+  encryptedSecret: string
+}): Promise<CreatorWebhook> {
+  const { creatorId, url, description, events, encryptedSecret } = params
+
+  const result = await getPool().query<CreatorWebhook>(
+    `INSERT INTO creator_webhooks AS w (creator_id, url, description, events, secret_encrypted)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${WEBHOOK_COLUMNS}`,
+    [creatorId, url, description || null, events, encryptedSecret]
+  )
+
+  logger.info('Created creator webhook', { creatorId, webhookId: result.rows[0].id })
+  return result.rows[0]
+}
+
+/**
+ * List a creator's webhooks
+ * @param wallet - Creator wallet address
+ */
+export async function getCreatorWebhooks(wallet: string): Promise<CreatorWebhook[]> {
+  const result = await getPool().query<CreatorWebhook>(
+    `SELECT ${WEBHOOK_COLUMNS}
+     FROM creator_webhooks w
+     JOIN creators c ON c.id = w.creator_id
+     WHERE c.wallet = $1
+     ORDER BY w.created_at DESC`,
+    [wallet]
+  )
+
+  return result.rows
+}
+
+/**
+ * Get a webhook if it belongs to the wallet
+ * @returns Webhook or null if not found / not owned
+ */
+export async function getCreatorWebhook(id: string, wallet: string): Promise<CreatorWebhook | null> {
+  const result = await getPool().query<CreatorWebhook>(
+    `SELECT ${WEBHOOK_COLUMNS}
+     FROM creator_webhooks w
+     JOIN creators c ON c.id = w.creator_id
+     WHERE w.id = $1 AND c.wallet = $2`,
+    [id, wallet]
+  )
+
+  return result.rows[0] || null
+}
+
+/**
+ * Update a webhook owned by the wallet
+ * @returns Updated webhook or null if not found / not owned
+ */
+export async function updateCreatorWebhook(
+  id: string,
+  wallet: string,
+  updates: {
+    url?: string
+    description?: string | null
+    events?: WebhookEventType[]
+    is_active?: boolean
+    encryptedSecret?: string
+  }
+): Promise<CreatorWebhook | null> {
+  const columns: Record<string, unknown> = {
+    url: updates.url,
+    description: updates.description,
+    events: updates.events,
+    is_active: updates.is_active,
+    secret_encrypted: updates.encryptedSecret,
+  }
+
+  const fields: string[] = []
+  const values: unknown[] = []
+  for (const [column, value] of Object.entries(columns)) {
+    if (value === undefined) continue
+    values.push(value)
+    fields.push(`${column} = $${values.length}`)
+  }
+
+  if (fields.length === 0) {
+    return getCreatorWebhook(id, wallet)
+  }
+
+  values.push(id, wallet)
+  const result = await getPool().query<CreatorWebhook>(
+    `UPDATE creator_webhooks w
+     SET ${fields.join(', ')}, updated_at = NOW()
+     FROM creators c
+     WHERE c.id = w.creator_id AND w.id = $${values.length - 1} AND c.wallet = $${values.length}
+     RETURNING ${WEBHOOK_COLUMNS}`,
+    values
+  )
+
+  return result.rows[0] || null
+}
+
+/**
+ * Delete a webhook owned by the wallet (its delivery log goes with it)
+ * @returns true if deleted
+ */
+export async function deleteCreatorWebhook(id: string, wallet: string): Promise<boolean> {
+  const result = await getPool().query(
+    `DELETE FROM creator_webhooks w
+     USING creators c
+     WHERE c.id = w.creator_id AND w.id = $1 AND c.wallet = $2`,
+    [id, wallet]
+  )
+
+  return (result.rowCount || 0) > 0
+}
+
+/**
+ * Recent deliveries for a webhook, newest first
+ */
+export async function getWebhookDeliveries(webhookId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+  const result = await getPool().query<WebhookDelivery>(
+    `SELECT ${DELIVERY_COLUMNS}, payload
+     FROM webhook_deliveries
+     WHERE webhook_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [webhookId, limit]
+  )
+
+  return result.rows
+}
+
+/**
+ * Queue a copy of a past delivery (same event ID and payload) for the webhook's current URL
+ * @returns New delivery or null if the delivery doesn't exist / isn't owned by the wallet
+ */
+export async function replayWebhookDelivery(deliveryId: string, wallet: string): Promise<WebhookDelivery | null> {
+  const result = await getPool().query<WebhookDelivery>(
+    `INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, payload, replay_of)
+     SELECT d.webhook_id, d.event_id, d.event_type, d.payload, d.id
+     FROM webhook_deliveries d
+     JOIN creator_webhooks w ON w.id = d.webhook_id
+     JOIN creators c ON c.id = w.creator_id
+     WHERE d.id = $1 AND c.wallet = $2
+     RETURNING ${DELIVERY_COLUMNS}`,
+    [deliveryId, wallet]
+  )
+
+  if (result.rows[0]) {
+    logger.info('Replaying webhook delivery', { deliveryId, replayId: result.rows[0].id })
+  }
+  return result.rows[0] || null
+}
+
+/**
+ * Mark new deliveries as queued so they can be handed to the dispatch queue
+ * @returns Claimed delivery IDs with the time they are due
+ */
+export async function claimPendingWebhookDeliveries(
+  limit: number = 100
+): Promise<Array<{ id: string; next_attempt_at: Date }>> {
+  const result = await getPool().query<{ id: string; next_attempt_at: Date }>(
+    `UPDATE webhook_deliveries
+     SET status = 'queued'
+     WHERE id IN (
+       SELECT id FROM webhook_deliveries
+       WHERE status = 'pending'
+       ORDER BY created_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, next_attempt_at`,
+    [limit]
+  )
+
+  return result.rows
+}
+
+/**
+ * Put queued deliveries that are long overdue back to pending (e.g. the queue was lost)
+ * @returns Number of deliveries reset
+ */
+export async function requeueStaleWebhookDeliveries(staleMinutes: number = 15): Promise<number> {
+  const result = await getPool().query(
+    `UPDATE webhook_deliveries
+     SET status = 'pending'
+     WHERE status = 'queued'
+       AND next_attempt_at < NOW() - ($1 || ' minutes')::INTERVAL`,
+    [staleMinutes]
+  )
+
+  return result.rowCount || 0
+}
+
+/**
+ * Get a delivery with its webhook's URL and encrypted secret
+ */
+export async function getWebhookDeliveryForDispatch(id: string): Promise<WebhookDispatchData | null> {
+  const result = await getPool().query<WebhookDispatchData>(
+    `SELECT d.id, d.webhook_id, d.event_type, d.payload, d.attempts, d.status,
+            w.url, w.secret_encrypted, w.is_active
+     FROM webhook_deliveries d
+     JOIN creator_webhooks w ON w.id = d.webhook_id
+     WHERE d.id = $1`,
+    [id]
+  )
+
+  return result.rows[0] || null
+}
+
+/**
+ * Record the outcome of a delivery attempt
+ * @param params.nextAttemptAt - When to retry after a failure (null = give up)
+ */
+export async function recordWebhookDeliveryAttempt(params: {
+  id: string
+  success: boolean
+  statusCode?: number | null
+  error?: string | null
+  nextAttemptAt?: Date | null
+}): Promise<void> {
+  const { id, success, statusCode, error, nextAttemptAt } = params
+  const status = success ? 'delivered' : nextAttemptAt ? 'queued' : 'failed'
+
+  await getPool().query(
+    `UPDATE webhook_deliveries
+     SET status = $2::varchar,
+         attempts = attempts + 1,
+         last_status_code = $3,
+         last_error = $4,
+         last_attempt_at = NOW(),
+         next_attempt_at = COALESCE($5, next_attempt_at),
+         delivered_at = CASE WHEN $2::varchar = 'delivered' THEN NOW() ELSE delivered_at END
+     WHERE id = $1`,
+    [id, status, statusCode ?? null, error ? error.substring(0, 1000) : null, nextAttemptAt ?? null]
+  )
+}
@@ -51,6 +51,9 @@ export async function validateBlinkForPublishing(
         b.avg_latency_ms,
         b.success_rate_percent,
         b.reported_count,
+        b.suspended_at,
+        b.catalog_hold,
+        (SELECT c.suspended_at FROM creators c WHERE c.id = b.creator_id) as creator_suspended_at,
         COUNT(DISTINCT r.id) as total_runs,
         COUNT(DISTINCT CASE WHEN r.created_at > NOW() - INTERVAL '7 days' THEN r.id END) as recent_runs,
         COUNT(DISTINCT CASE WHEN r.status = 'executed' THEN r.id END) as successful_runs,
@@ -138,6 +141,16 @@ export async function validateBlinkForPublishing(
       warnings.push('Consider testing your blink more thoroughly before publishing (at least 3 successful runs recommended)')
     }
 
+    // Check moderation
+    if (blink.creator_suspended_at) {
+      errors.push('Your creator account is suspended')
+    } else if (blink.suspended_at) {
+      errors.push('This blink is suspended')
+    }
+    if (blink.catalog_hold) {
+      errors.push('This blink was removed from the catalog by moderators and needs review before publishing')
+    }
+
     // Check for reports
     if (blink.reported_count > 5) {
       errors.push('This blink has been reported multiple times and needs review before publishing')
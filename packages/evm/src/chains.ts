@@ -34,6 +34,13 @@ export function getChainName(network: ChainNetwork): string {
   return network === 'mainnet' ? 'Base' : 'Base Sepolia'
 }
 
+/**
+ * Get the x402 network identifier used in payment requirements
+ */
+export function getX402Network(network: ChainNetwork): 'base' | 'base-sepolia' {
+  return network === 'mainnet' ? 'base' : 'base-sepolia'
+}
+
 /**
  * Get block explorer URL for a transaction
  */
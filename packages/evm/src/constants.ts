@@ -55,3 +55,30 @@ export const ERC20_ABI = [
     type: 'function'
   }
 ] as const
+
+/**
+ * ERC-20 Transfer event ABI
+ *
+ * Used to read USDC transfers out of transaction receipts when verifying payments.
+ */
+export const TRANSFER_EVENT_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'from', type: 'address' },
+      { indexed: true, name: 'to', type: 'address' },
+      { indexed: false, name: 'value', type: 'uint256' }
+    ],
+    name: 'Transfer',
+    type: 'event'
+  }
+] as const
+
+/**
+ * Payment reference length in bytes
+ *
+ * References are appended to the ERC-20 transfer calldata so a payment can be
+ * tied to a single run (the USDC contract ignores trailing calldata).
+ * 16 bytes keeps the hex form (0x + 32 chars) within the runs.reference column.
+ */
+export const PAYMENT_REFERENCE_BYTES = 16
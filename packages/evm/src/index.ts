@@ -34,12 +34,21 @@ export {
   type SendUsdcPaymentParams
 } from './transaction-builder.js'
 
+// Payment verification exports
+export {
+  verifyUsdcPayment,
+  isValidTxHash,
+  type VerifyUsdcPaymentParams,
+  type VerifiedUsdcPayment
+} from './payment-verifier.js'
+
 // Chain configuration exports
 export {
   CHAINS,
   getChain,
   getChainName,
   getExplorerUrl,
+  getX402Network,
   type ChainNetwork
 } from './chains.js'
 
@@ -47,7 +56,9 @@ export {
 export {
   USDC_ADDRESSES,
   USDC_DECIMALS,
-  ERC20_ABI
+  ERC20_ABI,
+  TRANSFER_EVENT_ABI,
+  PAYMENT_REFERENCE_BYTES
 } from './constants.js'
 
 // Re-export useful viem types
@@ -0,0 +1,166 @@
+/**
+ * EVM Payment Verification for Base Chain USDC Payments
+ *
+ * Verifies that a submitted transaction hash actually paid a merchant in USDC.
+ * The backend uses this instead of trusting a client-supplied txHash.
+ *
+ * Checks performed:
+ * - Transaction is mined and succeeded
+ * - Receipt contains a USDC Transfer log to the merchant for at least the required amount
+ * - Transaction calldata carries the run reference (binds the payment to one run)
+ */
+
+import {
+  createPublicClient,
+  http,
+  parseEventLogs,
+  type Address,
+  type Hash
+} from 'viem'
+import { getChain, type ChainNetwork } from './chains.js'
+import { USDC_ADDRESSES, TRANSFER_EVENT_ABI } from './constants.js'
+import { usdcToAtomic, isValidEthAddress } from './transaction-builder.js'
+import { createLogger } from '@blink402/config'
+
+const logger = createLogger('@blink402/evm-payment-verifier')
+
+/**
+ * Parameters for verifying a USDC payment
+ */
+export interface VerifyUsdcPaymentParams {
+  /** Transaction hash submitted by the payer */
+  txHash: Hash
+  /** Merchant's Ethereum address (expected recipient) */
+  merchant: Address
+  /** Minimum amount in USDC (e.g., 0.01 for $0.01) */
+  amountUsdc: number
+  /** Payment reference that must appear in the transaction calldata */
+  reference?: `0x${string}`
+  /** Network to use (mainnet = Base, testnet = Base Sepolia) */
+  network?: ChainNetwork
+  /** Optional RPC URL (defaults to public RPC) */
+  rpcUrl?: string
+  /** How long to wait for the transaction to be mined (default: 30s) */
+  timeoutMs?: number
+}
+
+/**
+ * Verified USDC payment details
+ */
+export interface VerifiedUsdcPayment {
+  /** Address the USDC was transferred from */
+  payer: Address
+  /** Amount transferred to the merchant in atomic units */
+  amount: bigint
+  /** Block the transaction was mined in */
+  blockNumber: bigint
+}
+
+/**
+ * Check whether a string is a transaction hash (0x + 64 hex chars)
+ */
+export function isValidTxHash(hash: string): hash is Hash {
+  return /^0x[a-fA-F0-9]{64}$/.test(hash)
+}
+
+/**
+ * Verify a USDC payment on Base chain
+ *
+ * @param params - Verification parameters
+ * @returns Payer, amount and block of the matching transfer
+ * @throws Error if the transaction failed, does not pay the merchant enough USDC,
+ *         or does not carry the expected reference
+ *
+ * @example
+ * ```typescript
+ * const payment = await verifyUsdcPayment({
+ *   txHash: '0xabc...',
+ *   merchant: '0x5678...',
+ *   amountUsdc: 0.01,
+ *   reference: '0x1f2e...',
+ *   network: 'mainnet'
+ * })
+ * console.log('Paid by', payment.payer)
+ * ```
+ */
+export async function verifyUsdcPayment(
+  params: VerifyUsdcPaymentParams
+): Promise<VerifiedUsdcPayment> {
+  const {
+    txHash,
+    merchant,
+    amountUsdc,
+    reference,
+    network = 'mainnet',
+    rpcUrl,
+    timeoutMs = 30000
+  } = params
+
+  if (!isValidTxHash(txHash)) {
+    throw new Error('Invalid transaction hash')
+  }
+  if (!isValidEthAddress(merchant)) {
+    throw new Error('Invalid merchant address')
+  }
+
+  const chain = getChain(network)
+  const usdcAddress = USDC_ADDRESSES[network]
+  const requiredAmount = usdcToAtomic(amountUsdc)
+
+  const publicClient = createPublicClient({
+    chain,
+    transport: http(rpcUrl)
+  })
+
+  logger.info('Verifying Base USDC payment', { txHash, merchant, amountUsdc, network })
+
+  // Wait for the transaction to be mined (clients submit right after broadcasting)
+  const receipt = await publicClient.waitForTransactionReceipt({
+    hash: txHash,
+    timeout: timeoutMs
+  })
+
+  if (receipt.status !== 'success') {
+    throw new Error('Transaction reverted')
+  }
+
+  // Find a USDC Transfer to the merchant covering the required amount
+  const transfers = parseEventLogs({
+    abi: TRANSFER_EVENT_ABI,
+    eventName: 'Transfer',
+    logs: receipt.logs
+  }).filter((log) =>
+    log.address.toLowerCase() === usdcAddress.toLowerCase() &&
+    log.args.to.toLowerCase() === merchant.toLowerCase()
+  )
+
+  if (transfers.length === 0) {
+    throw new Error('No USDC transfer to the merchant found in transaction')
+  }
+
+  const transfer = transfers.find((log) => log.args.value >= requiredAmount)
+  if (!transfer) {
+    throw new Error(`USDC transfer amount is less than required ${amountUsdc} USDC`)
+  }
+
+  // Reference is appended to the calldata (possibly wrapped by a smart wallet call)
+  if (reference) {
+    const tx = await publicClient.getTransaction({ hash: txHash })
+    if (!tx.input.toLowerCase().includes(reference.slice(2).toLowerCase())) {
+      throw new Error('Transaction does not include the payment reference')
+    }
+  }
+
+  logger.info('Base USDC payment verified', {
+    txHash,
+    payer: transfer.args.from,
+    amount: transfer.args.value.toString(),
+    blockNumber: receipt.blockNumber.toString()
+  })
+
+  return {
+    payer: transfer.args.from,
+    amount: transfer.args.value,
+    blockNumber: receipt.blockNumber
+  }
+}
@@ -42,6 +42,8 @@ export interface BuildUsdcPaymentTxParams {
   network?: ChainNetwork
   /** Optional RPC URL (defaults to public RPC) */
   rpcUrl?: string
+  /** Optional payment reference (0x-prefixed hex) appended to the transfer calldata */
+  reference?: `0x${string}`
 }
 
 /**
@@ -81,7 +83,7 @@ export async function buildUsdcPaymentTransaction(
   value: bigint
   chainId: number
 }> {
-  const { payer, merchant, amountUsdc, network = 'mainnet', rpcUrl } = params
+  const { payer, merchant, amountUsdc, network = 'mainnet', rpcUrl, reference } = params
 
   logger.info('Building Base USDC transaction', {
     payer,
@@ -123,12 +125,17 @@ export async function buildUsdcPaymentTransaction(
   }
 
   // Encode ERC-20 transfer function data
-  const data = encodeFunctionData({
+  const transferData = encodeFunctionData({
     abi: ERC20_ABI,
     functionName: 'transfer',
     args: [merchant, amount]
   })
 
+  // Append the payment reference (if any) so the backend can match this transfer to its run
+  const data = reference
+    ? (`${transferData}${reference.slice(2)}` as `0x${string}`)
+    : transferData
+
   logger.info('Transaction built successfully', {
     to: usdcAddress,
     data: data.substring(0, 20) + '...',
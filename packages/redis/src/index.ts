@@ -8,6 +8,7 @@
  * - Session storage (OAuth tokens, wallet sessions)
  * - Idempotency tracking (payment deduplication)
  * - Pub/sub for real-time updates
+ * - Delayed queues (scheduled retries)
  */
 
 import Redis, { Redis as RedisClient } from 'ioredis'
@@ -262,6 +263,27 @@ export async function releaseLock(key: string, lockValue: string): Promise<boole
   return result === 1
 }
 
+/**
+ * Extend a distributed lock we still hold (long-running critical sections)
+ * @param ttl - New lock TTL in milliseconds, from now
+ * @returns false if the lock already expired or is held by someone else
+ */
+export async function extendLock(key: string, lockValue: string, ttl: number): Promise<boolean> {
+  const redis = getRedis()
+
+  // Lua script to ensure we only extend our own lock
+  const script = `
+    if redis.call("get", KEYS[1]) == ARGV[1] then
+      return redis.call("pexpire", KEYS[1], ARGV[2])
+    else
+      return 0
+    end
+  `
+
+  const result = await redis.eval(script, 1, `lock:${key}`, lockValue, ttl.toString())
+  return result === 1
+}
+
 /**
  * CRITICAL FIX: Queue-based lock acquisition to prevent race conditions
  *
@@ -396,10 +418,11 @@ export async function withLock<T>(
  *
  * This is the production-safe version that prevents race conditions.
  * Use this for critical operations like payment processing.
+ * fn receives extend(ttl) to keep the lock past options.ttl when its work runs long.
  */
 export async function withLockSafe<T>(
   key: string,
-  fn: () => Promise<T>,
+  fn: (extend: (ttl: number) => Promise<boolean>) => Promise<T>,
   options?: LockOptions
 ): Promise<T | null> {
   const lock = await acquireLockSafe(key, options)
@@ -410,7 +433,7 @@ export async function withLockSafe<T>(
   }
 
   try {
-    return await fn()
+    return await fn((ttl) => extendLock(key, lock, ttl))
   } finally {
     await releaseLock(key, lock)
   }
@@ -525,6 +548,59 @@ export async function extendSession(sessionId: string, ttlSeconds: number): Prom
   await redis.expire(`session:${sessionId}`, ttlSeconds)
 }
 
+/**
+ * Track a wallet's sessions so they can be listed and revoked together
+ * The index expires with the wallet's newest session.
+ */
+export async function addWalletSession(wallet: string, sessionId: string, ttlSeconds: number): Promise<void> {
+  const redis = getRedis()
+  await redis
+    .multi()
+    .sadd(`sessions:wallet:${wallet}`, sessionId)
+    .expire(`sessions:wallet:${wallet}`, ttlSeconds)
+    .exec()
+}
+
+/**
+ * Session ids tracked for a wallet (some may have expired already)
+ */
+export async function getWalletSessionIds(wallet: string): Promise<string[]> {
+  const redis = getRedis()
+  return redis.smembers(`sessions:wallet:${wallet}`)
+}
+
+/**
+ * Stop tracking a session for a wallet
+ */
+export async function removeWalletSession(wallet: string, sessionId: string): Promise<void> {
+  const redis = getRedis()
+  await redis.srem(`sessions:wallet:${wallet}`, sessionId)
+}
+
+/**
+ * Store a one-time sign-in nonce (Sign-In-With-Solana)
+ */
+export async function storeSignInNonce(nonce: string, wallet: string, ttlSeconds: number = 300): Promise<void> {
+  const redis = getRedis()
+  await redis.setex(`siws:nonce:${nonce}`, ttlSeconds, wallet)
+}
+
+/**
+ * Use up a sign-in nonce
+ * @returns Wallet the nonce was issued to, or null if unknown, expired or already used
+ */
+export async function consumeSignInNonce(nonce: string): Promise<string | null> {
+  const redis = getRedis()
+  const result = await redis
+    .multi()
+    .get(`siws:nonce:${nonce}`)
+    .del(`siws:nonce:${nonce}`)
+    .exec()
+
+  const wallet = result?.[0]?.[1]
+  return typeof wallet === 'string' ? wallet : null
+}
+
 // ========== IDEMPOTENCY TRACKING ==========
 
 /**
@@ -546,6 +622,14 @@ export async function isDuplicate(
   return result !== 'OK' // Returns true if already exists
 }
 
+/**
+ * Forget an idempotency key set by isDuplicate once the work it guarded has finished
+ */
+export async function clearDuplicate(idempotencyKey: string): Promise<void> {
+  const redis = getRedis()
+  await redis.del(`idempotency:${idempotencyKey}`)
+}
+
 /**
  * Store idempotent response
  */
@@ -614,6 +698,36 @@ export async function subscribe(
   return subscriber
 }
 
+// ========== DELAYED QUEUES ==========
+
+/**
+ * Schedule a queue item to become due at a given time
+ * Re-scheduling an item that is already queued moves it to the new time.
+ */
+export async function scheduleQueueItem(queue: string, item: string, runAt: Date | number): Promise<void> {
+  const redis = getRedis()
+  const score = runAt instanceof Date ? runAt.getTime() : runAt
+  await redis.zadd(`queue:${queue}`, score, item)
+}
+
+/**
+ * Claim items that are due
+ * Each item is removed from the queue by exactly one caller, so concurrent workers never share an item.
+ */
+export async function claimDueQueueItems(queue: string, limit: number = 10): Promise<string[]> {
+  const redis = getRedis()
+  const key = `queue:${queue}`
+  const due = await redis.zrangebyscore(key, 0, Date.now(), 'LIMIT', 0, limit)
+
+  const claimed: string[] = []
+  for (const item of due) {
+    if (await redis.zrem(key, item) === 1) {
+      claimed.push(item)
+    }
+  }
+  return claimed
+}
+
 // ========== COUNTER & ANALYTICS ==========
 
 /**
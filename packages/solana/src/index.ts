@@ -490,6 +490,51 @@ export async function buildRewardTransaction(params: {
   return transaction
 }
 
+/**
+ * Called right after a transfer is broadcast and before it is confirmed
+ * Payout flows persist the signature here: from then on the transfer may land, so it must be
+ * settled with getTransferStatus rather than sent again.
+ */
+export type BroadcastHook = (broadcast: { signature: string; lastValidBlockHeight: number }) => Promise<void>
+
+/**
+ * Where a broadcast transfer stands
+ * - confirmed: landed and succeeded
+ * - failed: landed with an error, nothing was transferred
+ * - expired: not on-chain and its blockhash has expired, so it never will be
+ * - pending: not on-chain (yet) but can still land
+ */
+export type TransferStatus = 'confirmed' | 'failed' | 'expired' | 'pending'
+
+/**
+ * Look up a broadcast transfer on-chain
+ * Only 'failed' and 'expired' transfers are safe to send again.
+ *
+ * @param params.connection - Solana connection
+ * @param params.signature - Transfer signature
+ * @param params.lastValidBlockHeight - Last block height the transfer's blockhash is valid for
+ */
+export async function getTransferStatus(params: {
+  connection: Connection
+  signature: string
+  lastValidBlockHeight: number
+}): Promise<TransferStatus> {
+  const { connection, signature, lastValidBlockHeight } = params
+
+  const { value } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true })
+  const status = value[0]
+
+  if (status) {
+    if (status.err) return 'failed'
+    if (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized') return 'confirmed'
+    return 'pending'
+  }
+
+  // Not seen yet - it can still land until the block height passes the blockhash's validity
+  const blockHeight = await connection.getBlockHeight('confirmed')
+  return blockHeight > lastValidBlockHeight ? 'expired' : 'pending'
+}
+
 /**
  * Sign and broadcast a reward transaction with retry logic
  * SECURITY CRITICAL: Creator keypair must be securely managed
@@ -498,6 +543,7 @@ export async function buildRewardTransaction(params: {
  * @param params.transaction - Unsigned reward transaction
  * @param params.creatorKeypair - Creator's keypair (from secure storage)
  * @param params.skipConfirmation - Skip waiting for confirmation (faster for concurrent claims)
+ * @param params.onBroadcast - Called with the signature once the transaction is broadcast, before confirming
  * @returns Transaction signature
  */
 export async function signAndBroadcastReward(params: {
@@ -505,8 +551,9 @@ export async function signAndBroadcastReward(params: {
   transaction: Transaction
   creatorKeypair: Keypair
   skipConfirmation?: boolean
+  onBroadcast?: BroadcastHook
 }): Promise<string> {
-  const { connection, transaction, creatorKeypair, skipConfirmation = false } = params
+  const { connection, transaction, creatorKeypair, skipConfirmation = false, onBroadcast } = params
 
   try {
     // Get a FRESH blockhash right before signing to prevent expiration
@@ -533,6 +580,10 @@ export async function signAndBroadcastReward(params: {
       skipConfirmation,
     })
 
+    if (onBroadcast) {
+      await onBroadcast({ signature, lastValidBlockHeight })
+    }
+
     // Optionally wait for confirmation (disabled for high-throughput reward claims)
     if (!skipConfirmation) {
       if (!transaction.recentBlockhash) {
@@ -604,7 +655,7 @@ export async function signAndBroadcastReward(params: {
  * @param params.platformWallet - Platform refund wallet (sender, pays fees)
  * @param params.user - User's wallet (recipient of refund)
  * @param params.amount - Refund amount in lamports (typically matches original payment)
- * @param params.reference - Original reference keypair for tracking
+ * @param params.reference - Original reference keypair for tracking (omit for x402/ONCHAIN runs whose reference is not a public key)
  * @param params.memo - Optional memo (e.g., "Refund for failed API execution")
  * @param params.tokenMint - Token mint (undefined for SOL, USDC mint for USDC)
  * @returns Unsigned transaction (must be signed by platform keypair server-side)
@@ -614,7 +665,7 @@ export async function buildRefundTransaction(params: {
   platformWallet: PublicKey
   user: PublicKey
   amount: bigint
-  reference: PublicKey
+  reference?: PublicKey
   memo?: string
   tokenMint?: PublicKey // undefined for SOL, USDC mint for USDC
 }): Promise<Transaction> {
@@ -643,11 +694,13 @@ export async function buildRefundTransaction(params: {
     )
 
     // Add reference as read-only key for tracking
-    transferInstruction.keys.push({
-      pubkey: reference,
-      isSigner: false,
-      isWritable: false,
-    })
+    if (reference) {
+      transferInstruction.keys.push({
+        pubkey: reference,
+        isSigner: false,
+        isWritable: false,
+      })
+    }
 
     instructions.push(transferInstruction)
   } else {
@@ -659,11 +712,13 @@ export async function buildRefundTransaction(params: {
     })
 
     // Add reference as read-only key
-    transferInstruction.keys.push({
-      pubkey: reference,
-      isSigner: false,
-      isWritable: false,
-    })
+    if (reference) {
+      transferInstruction.keys.push({
+        pubkey: reference,
+        isSigner: false,
+        isWritable: false,
+      })
+    }
 
     instructions.push(transferInstruction)
   }
@@ -699,14 +754,20 @@ export async function buildRefundTransaction(params: {
  * @param params.connection - Solana connection
  * @param params.transaction - Unsigned refund transaction
  * @param params.platformKeypair - Platform's refund keypair (from secure storage/env var)
+ * @param params.onBroadcast - Called with the signature once the transaction is broadcast, before confirming
  * @returns Transaction signature
  */
 export async function executeRefund(params: {
   connection: Connection
   transaction: Transaction
   platformKeypair: Keypair
+  onBroadcast?: BroadcastHook
 }): Promise<string> {
-  const { connection, transaction, platformKeypair } = params
+  const { connection, transaction, platformKeypair, onBroadcast } = params
+
+  if (!transaction.recentBlockhash || !transaction.lastValidBlockHeight) {
+    throw new Error('Transaction missing recentBlockhash')
+  }
 
   // Sign transaction with platform's keypair
   transaction.sign(platformKeypair)
@@ -726,11 +787,15 @@ export async function executeRefund(params: {
     platform: platformKeypair.publicKey.toBase58(),
   })
 
-  // Wait for confirmation with timeout
-  const latestBlockhash = await connection.getLatestBlockhash()
+  if (onBroadcast) {
+    await onBroadcast({ signature, lastValidBlockHeight: transaction.lastValidBlockHeight })
+  }
+
+  // Wait for confirmation until the transaction's blockhash expires
   await connection.confirmTransaction({
     signature,
-    ...latestBlockhash,
+    blockhash: transaction.recentBlockhash,
+    lastValidBlockHeight: transaction.lastValidBlockHeight,
   }, 'confirmed')
 
   logger.info('Refund transaction confirmed', { signature })
@@ -1345,3 +1410,38 @@ export function generateChallengeMessage(params: {
   const { wallet, blinkId, nonce, timestamp} = params
   return `Blink402 Reward Claim\n\nWallet: ${wallet}\nBlink ID: ${blinkId}\nNonce: ${nonce}\nTimestamp: ${timestamp}\n\nSign this message to claim your reward.`
 }
+
+/**
+ * Generate the message a wallet signs to pay one call from its prepaid credits
+ * Used by the X-Credit-Authorization header on /bazaar/:slug
+ *
+ * @param params - Authorization parameters
+ * @returns Message to be signed by the paying wallet
+ */
+export function generateCreditAuthorizationMessage(params: {
+  wallet: string
+  slug: string
+  maxAmount: string
+  nonce: string
+  timestamp: number
+}): string {
+  const { wallet, slug, maxAmount, nonce, timestamp } = params
+  return `Blink402 Credit Payment\n\nWallet: ${wallet}\nBlink: ${slug}\nMax amount: ${maxAmount} USDC\nNonce: ${nonce}\nTimestamp: ${timestamp}\n\nSign this message to pay for this call from your Blink402 credits.`
+}
+
+/**
+ * Generate the message a wallet signs to use its access pass for one call
+ * Used by the X-Pass-Authorization header on /bazaar/:slug
+ *
+ * @param params - Authorization parameters
+ * @returns Message to be signed by the pass holder
+ */
+export function generatePassAuthorizationMessage(params: {
+  wallet: string
+  slug: string
+  nonce: string
+  timestamp: number
+}): string {
+  const { wallet, slug, nonce, timestamp } = params
+  return `Blink402 Access Pass\n\nWallet: ${wallet}\nBlink: ${slug}\nNonce: ${nonce}\nTimestamp: ${timestamp}\n\nSign this message to use your access pass for this call.`
+}
@@ -47,6 +47,170 @@ export interface BlinkParameter {
   options?: Array<{ label: string; value: string }> // Options for select/radio types
 }
 
+// Maps one input value into the upstream request
+export interface RequestTemplateField {
+  param: string // BlinkParameter name, or a system value: $reference, $payer, $signature
+  in: RequestTemplateLocation // Where the value goes in the upstream request
+  name?: string // Target name (defaults to param); dot paths nest body fields (e.g. "options.limit")
+  type?: RequestTemplateValueType // Coercion applied before sending (default: string)
+  default?: string | number | boolean // Used when the input is missing or empty
+  required?: boolean // Reject the request (before payment) when missing and no default
+}
+
+// Declared shape of a blink's (transformed) output - JSON Schema subset
+export interface ResponseOutputSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  title?: string // Display label on the results page
+  description?: string
+  format?: 'url' | 'image' | 'date-time' | 'markdown' // Rendering hint for string values
+  properties?: Record<string, ResponseOutputSchema> // For type 'object'
+  required?: string[] // For type 'object'
+  items?: ResponseOutputSchema // For type 'array'
+}
+
+// Per-blink post-processing of the upstream JSON response
+export interface ResponseTransform {
+  extract?: string // JSONPath selecting the part of the response to keep (e.g. "$.data.results[0]")
+  fields?: Array<{ path: string; as: string }> // Pick and rename: JSONPath (relative to extract) -> output key
+  redact?: string[] // Key names removed at any depth (case-insensitive), e.g. ["api_key", "email"]
+  output_schema?: ResponseOutputSchema // Declared output shape for the results view and MCP clients
+}
+
+// Per-blink upstream request shape (replaces the legacy body passthrough)
+export interface RequestTemplate {
+  fields: RequestTemplateField[]
+  body_format?: 'json' | 'form' // Encoding for body fields (default: json)
+  static_query?: Record<string, string> // Fixed query params added to every call
+  static_headers?: Record<string, string> // Fixed headers added to every call
+  static_body?: Record<string, any> // Fixed body fields (mapped fields are merged over it)
+}
+
+// Maps a value into one BlinkParameter of a pipeline step
+export interface PipelineStepInput {
+  param: string // Parameter name of the step's blink
+  from?: string // JSONPath into {input, steps, prev}: e.g. "$.input.wallet", "$.prev.summary", "$.steps[0].data.balance"
+  value?: string | number | boolean // Literal used instead of (or when "from" finds nothing)
+}
+
+// One call in a pipeline blink
+export interface PipelineStep {
+  slug: string // Blink to call (must belong to the pipeline's creator)
+  inputs?: PipelineStepInput[]
+}
+
+// Pipeline blinks call their steps in order instead of an endpoint, for one combined price
+export interface PipelineConfig {
+  steps: PipelineStep[]
+}
+
+// Per-step record of a pipeline run
+export interface PipelineStepRun {
+  id: string
+  parent_run_id: string
+  step_index: number
+  blink_id: string
+  blink_slug?: string
+  status: 'running' | 'executed' | 'failed'
+  attempts: number
+  duration_ms: number | null
+  error: string | null
+  started_at: Date
+  completed_at: Date | null
+}
+
+// One button in a blink's Solana Actions (Dialect) unfurl
+export interface BlinkActionButton {
+  label: string
+  amount?: string // Fixed price preset charged by this button (SOL for swap blinks, else the blink's token)
+  parameters?: Array<string | BlinkParameter> // Blink parameter names, or inline parameter definitions
+  slug?: string // Follow-up buttons only: open another blink's action (named parameters are that blink's)
+}
+
+// Stored Solana Actions metadata (replaces the per-slug defaults when set)
+export interface BlinkActionsConfig {
+  label?: string // Top-level action label (default "Use <title>")
+  icon_url?: string // Unfurl image (default: the blink's icon or generated OG image)
+  buttons?: BlinkActionButton[] // Default: one button with all blink parameters
+  follow_up?: BlinkActionButton[] // Shown with the result after a paid run, e.g. a second-step form
+  disabled?: boolean // Show the action greyed out
+  error?: string // Message shown on the unfurl (e.g. why it is disabled)
+}
+
+// ========== DYNAMIC PRICING ==========
+// Rules are evaluated when a run is created; the quote is locked into run.metadata.quote.
+// Amounts are USDC strings. Adjustments apply in order: option prices and input size tiers are
+// added to price_usdc, then time-of-day and surge multipliers, then the wallet's volume discount.
+
+// Price added when a select/radio parameter has one of these values
+export interface PricingOptionRule {
+  parameter: string
+  prices: Record<string, string> // option value -> USDC added
+}
+
+// Price added by the size of a text input (first tier whose up_to fits the size)
+export interface PricingInputSizeRule {
+  parameter: string
+  unit: 'characters' | 'words'
+  tiers: Array<{ up_to: number | null; price: string }> // up_to null = no upper bound
+}
+
+// Multiplier applied during a UTC time window (end_hour exclusive, may wrap past midnight)
+export interface PricingTimeWindow {
+  start_hour: number // 0-23
+  end_hour: number // 1-24
+  multiplier: number
+}
+
+// Multiplier applied when the blink had at least min_runs paid runs in the last window_minutes
+export interface PricingSurgeRule {
+  window_minutes: number
+  steps: Array<{ min_runs: number; multiplier: number }>
+}
+
+// Discount for wallets with at least min_runs paid runs of this blink in the last window_days
+export interface PricingVolumeDiscount {
+  window_days: number
+  tiers: Array<{ min_runs: number; percent_off: number }>
+}
+
+export interface BlinkPricingRules {
+  options?: PricingOptionRule[]
+  input_size?: PricingInputSizeRule[]
+  time_of_day?: PricingTimeWindow[]
+  surge?: PricingSurgeRule
+  volume_discount?: PricingVolumeDiscount
+}
+
+export type PriceAdjustmentRule = 'option' | 'input_size' | 'time_of_day' | 'surge' | 'volume_discount' | 'coupon'
+
+export interface PriceAdjustment {
+  rule: PriceAdjustmentRule
+  detail: string // e.g. "model = gpt-4", "412 characters", "14:00-18:00 UTC"
+  amount?: string // Added USDC (option, input_size)
+  multiplier?: number // time_of_day, surge
+  percent_off?: number // volume_discount, percent coupons
+  amount_off?: string // Fixed coupons (USDC)
+}
+
+// Price of one run, locked into run.metadata.quote when the run is created
+export interface PriceQuote {
+  price_usdc: string
+  base_price_usdc: string
+  adjustments: PriceAdjustment[]
+  wallet: string | null // Wallet the volume discount was evaluated for
+  quoted_at: string // ISO timestamp
+  coupon?: AppliedCoupon // Applied after the pricing rules
+}
+
+// Time-boxed pass sold for a blink, e.g. unlimited calls for 24h or 100 calls for 7 days
+export interface BlinkAccessPassConfig {
+  price_usdc: string // Price of one pass (paid in USDC)
+  duration_hours: number // How long a pass lasts (renewals start when the current pass ends)
+  call_limit?: number | null // Calls included in one pass (null = unlimited)
+  subscription?: boolean // Sold as a recurring subscription - holders are reminded to renew
+  label?: string // Shown on checkout, e.g. "Monthly subscription"
+}
+
 export interface Blink {
   id: string
   slug: string
@@ -66,8 +230,18 @@ export interface Blink {
   runs: number
   status: "active" | "paused" | "archived" // Must match database constraint
   payment_token: 'SOL' | 'USDC' // Payment currency
+  blockchain?: Blockchain // Chain payments settle on (defaults to 'solana')
   access_duration_days?: number // For gallery-type blinks: days of access after payment
   parameters?: BlinkParameter[] // Solana Actions spec parameter definitions for dynamic inputs
+  request_template?: RequestTemplate // How inputs map into the upstream request
+  response_transform?: ResponseTransform // How the upstream JSON is shaped before it is stored/returned
+  pipeline?: PipelineConfig // Set for pipeline blinks (endpoint_url is then unused)
+  actions_config?: BlinkActionsConfig // Buttons/parameters shown in Solana Actions unfurls
+  access_pass?: BlinkAccessPassConfig // Optional pass sold alongside per-call payments
+  pricing_rules?: BlinkPricingRules // Dynamic pricing on top of price_usdc (quoted per run)
+  revenue_splits?: BlinkRevenueSplits // Payments settle via the platform and are paid out per split
+  refund_policy?: RefundPolicy // What the payer gets back when the upstream call fails (always 'none' on Base)
+  refund_percent?: number // Percentage refunded under the 'partial' policy (0-100)
   created_at?: Date
   updated_at?: Date
   // Catalog fields
@@ -103,6 +277,17 @@ export interface Run {
   payment_method?: 'solana_actions' | 'x402' // Payment protocol used
   facilitator?: string // x402 facilitator name (e.g., "OctonetAI", "PayAI")
   facilitator_tx_hash?: string // Transaction hash from facilitator
+  blockchain?: Blockchain // Chain the payment was made on
+}
+
+// Binary upstream response stored for a run (image, audio, video, PDF...)
+export interface RunArtifactSummary {
+  id: string
+  content_type: string
+  size_bytes: number
+  sha256: string
+  url?: string // Signed download URL (added when the response is served)
+  expires_at?: string // When the signed URL stops working
 }
 
 export interface Receipt {
@@ -162,6 +347,36 @@ export interface X402Response {
   }
 }
 
+// x402 Payment Required response for Base (EVM) blinks
+export interface X402EvmResponse {
+  status: 402
+  message: string
+  x402Version: 1
+  reference: string // 32-byte hex reference to append to the transfer calldata
+  payment: {
+    recipientWallet: string // Payout wallet (0x address)
+    asset: string // USDC contract address
+    amount: string // Amount in smallest units (USDC has 6 decimals)
+    network: 'base' | 'base-sepolia'
+    chainId: number
+    scheme: 'exact'
+    reference: string
+  }
+  accepts: Array<{
+    scheme: 'exact'
+    network: 'base' | 'base-sepolia'
+    maxAmountRequired: string
+    resource: string
+    description: string
+    mimeType: string
+    payTo: string
+    asset: string
+    maxTimeoutSeconds: number
+    extra: { reference: string; chainId: number; decimals: number }
+  }>
+  description: string
+}
+
 // x402 Payment Header (client sends to backend)
 export interface X402PaymentHeader {
   x402Version: 1
@@ -190,22 +405,76 @@ export interface DashboardData {
   avgPrice: string
   blinks: DashboardBlink[]
   recentActivity: Activity[]
+  earnings?: EarningsBreakdown[] // Ledger totals per token (totalEarnings is the USDC net)
+  revenueShares?: RevenueShare[] // The wallet's shares of revenue split blinks (including other creators')
 }
 
 export interface DashboardBlink extends Blink {
-  revenue: string
+  revenue: string // Net ledger earnings in the blink's payment token
   successRate: number
   lastRun: string
 }
 
 export interface Activity {
-  id: number
+  id: number | string // Ledger transaction id
   blink: string
   amount: string
+  token?: 'SOL' | 'USDC'
+  kind?: LedgerTransactionKind
   time: string
   status: "success" | "failed"
 }
 
+// Creator analytics (GET /dashboard/:wallet/analytics)
+export type AnalyticsBucket = 'hour' | 'day' | 'week'
+
+export interface BlinkAnalyticsPoint {
+  bucket: string // Bucket start (ISO)
+  revenue: string // Net ledger earnings in the blink's payment token
+  paid_runs: number
+  executed_runs: number
+  failed_runs: number
+  latency_p50_ms: number | null // Upstream duration of executed runs
+  latency_p95_ms: number | null
+  unique_payers: number
+  repeat_payer_rate: number // Share of the bucket's payers who had paid this blink before (0-1)
+  coupon_redemptions: number // Paid runs that used a coupon
+}
+
+export interface CheckoutFunnel {
+  views: number // Solana Actions metadata requests
+  runs_created: number
+  paid: number
+  executed: number
+}
+
+export interface BlinkAnalytics {
+  blink_id: string
+  slug: string
+  title: string
+  payment_token: 'SOL' | 'USDC'
+  series: BlinkAnalyticsPoint[]
+  funnel: CheckoutFunnel
+}
+
+export interface CreatorAnalytics {
+  wallet: string
+  bucket: AnalyticsBucket
+  from: string
+  to: string
+  blinks: BlinkAnalytics[]
+  funnel: CheckoutFunnel // All blinks combined
+  coupons: CouponAnalytics[] // Redemptions in the range, per coupon
+}
+
+export interface CouponAnalytics {
+  coupon_id: string
+  code: string
+  redemptions: number
+  discount_usdc: string // Total taken off by the coupon
+  revenue_usdc: string // Total paid for the runs that used it
+}
+
 // ========== API PAYLOAD TYPES ==========
 
 export interface CreateBlinkPayload {
@@ -222,6 +491,36 @@ export interface CreateBlinkPayload {
   reward_amount?: string
   funded_wallet?: string
   max_claims_per_user?: number
+  refund_policy?: RefundPolicy
+  refund_percent?: number
+  blockchain?: Blockchain
+  parameters?: BlinkParameter[]
+  request_template?: RequestTemplate
+  response_transform?: ResponseTransform
+  pipeline?: PipelineConfig // Create a pipeline blink (endpoint_url not needed, price defaults to the sum of its steps)
+  actions_config?: BlinkActionsConfig
+  access_pass?: BlinkAccessPassConfig
+  pricing_rules?: BlinkPricingRules
+  revenue_splits?: BlinkRevenueSplits
+  upstream_auth?: UpstreamAuthInput // Secret sent to the upstream API (stored encrypted, never returned)
+}
+
+// Upstream API credentials (set by the creator, injected by the proxy only)
+export interface UpstreamAuthInput {
+  type: UpstreamAuthType
+  key_name?: string // Header name (api_key_header) or query parameter name (api_key_query)
+  value?: string // API key or bearer token
+  username?: string // Basic auth only
+  password?: string // Basic auth only
+}
+
+// Safe view of a blink's upstream credentials (no secret material)
+export interface UpstreamAuthSummary {
+  configured: boolean
+  type?: UpstreamAuthType
+  key_name?: string | null
+  masked?: string // e.g. "***...abc123"
+  updated_at?: Date | string
 }
 
 export interface UpdateBlinkPayload {
@@ -230,6 +529,15 @@ export interface UpdateBlinkPayload {
   price_usdc?: string
   status?: "active" | "paused" | "archived"
   icon_url?: string
+  refund_policy?: RefundPolicy
+  refund_percent?: number
+  request_template?: RequestTemplate | null
+  response_transform?: ResponseTransform | null
+  pipeline?: PipelineConfig // Pipeline blinks only
+  actions_config?: BlinkActionsConfig | null
+  access_pass?: BlinkAccessPassConfig | null
+  pricing_rules?: BlinkPricingRules | null
+  revenue_splits?: BlinkRevenueSplits | null
 }
 
 export interface UpdateCreatorProfilePayload {
@@ -256,12 +564,15 @@ export interface BlinkData {
   runs: number
   status: "active" | "paused" | "archived"
   payment_token: 'SOL' | 'USDC' // Required field
+  blockchain: Blockchain // Chain payments settle on ('base' requires USDC and a 0x payout wallet)
   payout_wallet: string // Wallet that receives payments (can differ from creator)
   payment_mode: 'charge' | 'reward' // charge: user pays | reward: creator pays user
   reward_amount?: string // Amount paid TO user in reward mode
   funded_wallet?: string // Creator wallet that pays rewards
   max_claims_per_user?: number // Max reward claims per wallet
   access_duration_days?: number // For gallery-type blinks: days of access after payment
+  refund_policy?: RefundPolicy // What the payer gets back when the upstream call fails
+  refund_percent?: number // Percentage refunded under the 'partial' policy (0-100)
   creator_id: string // UUID of the creator (for internal use)
   creator: {
     wallet: string
@@ -283,29 +594,110 @@ export interface BlinkData {
   fork_of_blink_id?: string
   is_forkable?: boolean
   health_status?: 'healthy' | 'degraded' | 'unhealthy'
+  // Moderation: suspended blinks stay paused; held blinks can't be republished until released
+  suspended_at?: Date | string
+  catalog_hold?: boolean
+  // Reviews from verified payers (rating_avg is unset until the first review)
+  rating_avg?: number
+  rating_count?: number
   // Lottery fields
   lottery_enabled?: boolean
   lottery_round_duration_minutes?: number
   // Dynamic parameters for Actions metadata and frontend rendering
   parameters?: BlinkParameter[]
+  // Upstream request mapping for parameters (path/query/header/body)
+  request_template?: RequestTemplate
+  // Extraction/renaming/redaction applied to upstream JSON, plus its declared output schema
+  response_transform?: ResponseTransform
+  // Steps of a pipeline blink (runs other blinks in order instead of endpoint_url)
+  pipeline?: PipelineConfig
+  // Solana Actions buttons, price presets and disabled state
+  actions_config?: BlinkActionsConfig
+  // Time-boxed pass (unlimited or N calls for a period) sold instead of per-call payment
+  access_pass?: BlinkAccessPassConfig
+  // Per-option, input size, time-of-day, surge and volume pricing evaluated at run creation
+  pricing_rules?: BlinkPricingRules
+  // Collaborator shares and platform fee paid out of each payment
+  revenue_splits?: BlinkRevenueSplits
 }
 
 // ========== CATALOG-SPECIFIC TYPES ==========
 
+export type BlinkReportReason = 'spam' | 'scam' | 'broken' | 'inappropriate' | 'copyright' | 'other'
+export type BlinkReportStatus = 'pending' | 'reviewing' | 'resolved' | 'dismissed'
+
 export interface BlinkReport {
   id: string
   blink_id: string
   reporter_wallet?: string
   reporter_email?: string
-  reason: 'spam' | 'scam' | 'broken' | 'inappropriate' | 'copyright' | 'other'
+  reason: BlinkReportReason
   details?: string
-  status: 'pending' | 'reviewing' | 'resolved' | 'dismissed'
+  status: BlinkReportStatus
   reviewed_by?: string
   reviewed_at?: Date
   resolution_notes?: string
   created_at: Date
 }
 
+// A report in the moderation queue, with the reported blink and its creator
+export interface ModerationReport extends BlinkReport {
+  blink_slug: string
+  blink_title: string
+  blink_status: BlinkStatus
+  publish_to_catalog: boolean
+  catalog_hold: boolean
+  blink_suspended_at: Date | null
+  open_reports: number // Pending or reviewing reports on the same blink
+  creator_wallet: string
+  creator_suspended_at: Date | null
+}
+
+export type ModerationActionType =
+  | 'report_reviewing'
+  | 'report_resolved'
+  | 'report_dismissed'
+  | 'blink_unpublished'
+  | 'blink_auto_unpublished'
+  | 'catalog_hold_released'
+  | 'blink_suspended'
+  | 'blink_unsuspended'
+  | 'creator_suspended'
+  | 'creator_unsuspended'
+
+// Audit log entry - every moderator (and automatic) action is recorded
+export interface ModerationAction {
+  id: string
+  action: ModerationActionType
+  actor: string // Moderator name, or 'system'
+  report_id: string | null
+  blink_id: string | null
+  blink_slug: string | null
+  creator_wallet: string | null
+  notes: string | null
+  details: Record<string, any>
+  created_at: Date
+}
+
+// Rating and review from a wallet with an executed (paid) run of the blink - one per wallet per blink
+export interface BlinkReview {
+  id: string
+  blink_id: string
+  reviewer_wallet: string
+  rating: number // 1-5
+  comment: string | null
+  creator_reply: string | null
+  replied_at: Date | null
+  created_at: Date
+  updated_at: Date
+}
+
+export interface BlinkRatingSummary {
+  average: number | null // null until the first review
+  count: number
+  distribution: [number, number, number, number, number] // Reviews with 1..5 stars
+}
+
 export interface FeaturedBlink {
   id: string
   blink_id: string
@@ -327,6 +719,38 @@ export interface CatalogFilters {
   search?: string
 }
 
+// 'relevance' ranks full-text matches and only applies when searching;
+// 'top_rated' ranks by Bayesian average rating, so a few perfect reviews don't top the list
+export type CatalogSort = 'relevance' | 'newest' | 'popular' | 'price_low' | 'price_high' | 'top_rated'
+
+export interface CatalogFacetCount {
+  value: string
+  count: number
+}
+
+export interface CatalogPriceBucket {
+  label: string
+  min: number
+  max: number | null // null = no upper bound
+  count: number
+}
+
+// Counts across all matching blinks. Category, media type and price counts ignore
+// their own filter so the other options stay visible; badge counts apply every filter.
+export interface CatalogFacets {
+  category: CatalogFacetCount[]
+  media_type: CatalogFacetCount[]
+  badges: CatalogFacetCount[]
+  price: CatalogPriceBucket[]
+}
+
+export interface CatalogSearchResult {
+  blinks: BlinkData[]
+  total: number
+  facets: CatalogFacets
+  next_cursor: string | null // Pass as ?cursor= for the next page (null = last page)
+}
+
 export interface BadgeDefinition {
   code: string
   name: string
@@ -375,6 +799,12 @@ export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH"
 export type MediaType = 'text' | 'json' | 'image' | 'video' | 'audio' | 'data' | 'ai' | 'utility'
 export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy'
 export type BadgeCode = 'verified' | 'fast' | 'reliable' | 'reverse' | 'forkable' | 'trending'
+export type RefundPolicy = 'full' | 'partial' | 'none'
+export type Blockchain = 'solana' | 'base'
+export type UpstreamAuthType = 'api_key_header' | 'bearer' | 'basic' | 'api_key_query'
+export type RequestTemplateLocation = 'path' | 'query' | 'header' | 'body'
+export type RequestTemplateValueType = 'string' | 'number' | 'integer' | 'boolean' | 'json'
+export type RefundStatus = 'pending' | 'issued' | 'failed'
 
 // ========== SOLANA TYPES ==========
 
@@ -461,16 +891,47 @@ export interface SpinResult {
   multiplier: number // Payout multiplier (e.g., 50 for 50x)
   betAmount: string // Original bet amount
   // Provably fair verification data
-  serverSeed: string // Revealed after spin
-  serverSeedHash: string // Pre-committed hash (for verification)
-  clientSeed: string // User's wallet address used as seed
-  nonce: string // Unique spin identifier (run ID)
+  seedPairId: string // Seed pair the spin was played with
+  serverSeedHash: string // Hash issued before the spin (seed revealed on rotation)
+  clientSeed: string // Player-chosen client seed
+  nonce: string // Spin counter within the seed pair
   reference: string // Payment reference UUID
   // Optional payout transaction
   payoutSignature?: string // Transaction signature if user won
   message?: string // User-friendly message
 }
 
+// Active seed pair as shown to the player (server seed stays hidden until rotation)
+export interface SlotSeedPair {
+  id: string
+  wallet: string
+  serverSeedHash: string
+  clientSeed: string
+  nextNonce: number
+  createdAt: Date
+}
+
+// Seed pair retired by a rotation, with its server seed revealed
+export interface RevealedSlotSeedPair extends SlotSeedPair {
+  serverSeed: string
+  revealedAt: Date
+}
+
+export interface SlotSpinVerification {
+  reference: string
+  seedPairId: string
+  serverSeedHash: string
+  serverSeed: string | null // null while the seed pair is still active
+  clientSeed: string
+  nonce: string
+  reels: [SlotSymbol, SlotSymbol, SlotSymbol]
+  payout: string
+  multiplier: number
+  createdAt: Date
+  verified: boolean | null // null until the server seed is revealed
+  replayedReels?: [SlotSymbol, SlotSymbol, SlotSymbol]
+}
+
 // ========== LOTTERY TYPES ==========
 
 export type LotteryRoundStatus = 'active' | 'closed' | 'distributed'
@@ -489,6 +950,12 @@ export interface LotteryRound {
   status: LotteryRoundStatus
   bonus_pool_usdc: string // Promotional bonus pool (e.g., $50 promo)
   created_at: Date
+  // Commit-reveal fairness (null for rounds drawn before commitments existed)
+  server_seed_hash?: string | null // sha256(server_seed), published when the round opens
+  server_seed?: string | null // Revealed after the draw
+  entropy_target_slot?: number | null // Fixed at close; first finalized block at/after it supplies entropy
+  entropy_slot?: number | null
+  entropy_blockhash?: string | null
 }
 
 export interface LotteryEntry {
@@ -592,6 +1059,7 @@ export interface LotteryCurrentRoundResponse {
   next_draw_at: Date
   time_remaining_seconds: number
   user_entries?: number // If wallet provided, show user's entry count
+  server_seed_hash?: string | null // Commitment to the seed used for this round's draw
   prize_breakdown: {
     first_place: string
     second_place: string
@@ -615,3 +1083,408 @@ export interface LotteryWinnersResponse {
   }>
   platform_fee_usdc: string
 }
+
+// Everything needed to recompute a round's winners independently
+export interface LotteryRoundProofResponse {
+  round_id: string
+  round_number: number
+  status: LotteryRoundStatus
+  started_at: Date
+  ended_at?: Date
+  server_seed_hash: string
+  server_seed: string | null // null until winners are drawn
+  entropy: {
+    source: 'solana_blockhash'
+    target_slot: number | null // First finalized block at or after this slot is used
+    slot: number | null
+    blockhash: string | null
+  }
+  draw_seed: string | null // sha256(`${server_seed}:${blockhash}`)
+  algorithm: string
+  entries: Array<{
+    entry_id: string
+    payer_wallet: string
+    entry_timestamp: Date
+  }>
+  winners: Array<{
+    rank: LotteryRank
+    wallet: string
+  }>
+  verified: boolean | null // Server-side recomputation matches the recorded winners (null until drawn)
+}
+
+// ========== WEBHOOK TYPES ==========
+
+export type WebhookEventType =
+  | 'run.paid'
+  | 'run.executed'
+  | 'run.failed'
+  | 'reward.claimed'
+  | 'lottery.payout_completed'
+  | 'lottery.payout_failed'
+  | 'pass.purchased'
+  | 'pass.expiring'
+
+export type WebhookDeliveryStatus = 'pending' | 'queued' | 'delivered' | 'failed'
+
+// Creator webhook as returned by the API (the signing secret is only shown on creation)
+export interface CreatorWebhook {
+  id: string
+  url: string
+  description: string | null
+  events: WebhookEventType[]
+  is_active: boolean
+  created_at: Date
+  updated_at: Date
+}
+
+// Body POSTed to a creator's webhook URL
+export interface WebhookEventPayload<T = Record<string, any>> {
+  id: string // Event ID (stable across retries and replays)
+  type: WebhookEventType
+  created_at: string
+  data: T
+}
+
+export interface WebhookDelivery {
+  id: string
+  webhook_id: string
+  event_id: string
+  event_type: WebhookEventType
+  status: WebhookDeliveryStatus
+  attempts: number
+  last_status_code: number | null
+  last_error: string | null
+  last_attempt_at: Date | null
+  next_attempt_at: Date
+  delivered_at: Date | null
+  replay_of: string | null
+  created_at: Date
+  payload?: WebhookEventPayload
+}
+
+// ========== BACKGROUND JOB TYPES ==========
+
+export type BackgroundJobStatus = 'pending' | 'running' | 'completed' | 'dead'
+
+export interface BackgroundJob {
+  id: string
+  name: string
+  dedupe_key: string
+  payload: Record<string, any>
+  status: BackgroundJobStatus
+  attempts: number
+  max_attempts: number
+  recurring_interval_ms: number | null
+  run_at: Date
+  locked_by: string | null // Worker holding the lease while running
+  locked_until: Date | null
+  last_error: string | null
+  last_started_at: Date | null
+  last_completed_at: Date | null
+  created_at: Date
+  updated_at: Date
+}
+
+// ========== LEDGER TYPES ==========
+
+export type LedgerTransactionKind =
+  | 'payment'
+  | 'refund'
+  | 'reward'
+  | 'referral_commission'
+  | 'lottery_payout'
+  | 'platform_fee'
+  | 'credit_deposit'
+  | 'credit_withdrawal'
+  | 'revenue_split'
+  | 'credit_settlement'
+
+export type LedgerReconciliationStatus = 'pending' | 'matched' | 'mismatch' | 'missing' | 'skipped'
+
+export interface LedgerEntry {
+  account: string // wallet:<address>, credits:<address>, creator:<id>, lottery_pool:<blink_id>, revenue_split:<blink_id>, platform:fees, platform:treasury
+  direction: 'debit' | 'credit'
+  amount: string
+}
+
+export interface LedgerTransaction {
+  id: string
+  kind: LedgerTransactionKind
+  idempotency_key: string
+  token: 'SOL' | 'USDC'
+  amount: string
+  blockchain: Blockchain
+  run_id: string | null
+  blink_id: string | null
+  creator_id: string | null
+  signature: string | null
+  from_wallet: string | null
+  to_wallet: string | null
+  metadata: Record<string, any>
+  reconciliation_status: LedgerReconciliationStatus
+  reconciliation_attempts: number
+  reconciliation_note: string | null
+  reconciled_at: Date | null
+  created_at: Date
+  entries: LedgerEntry[]
+}
+
+/**
+ * A creator's ledger totals in one token
+ */
+export interface EarningsBreakdown {
+  token: 'SOL' | 'USDC'
+  gross: string // Settled payments
+  refunds: string
+  rewards: string
+  net: string
+}
+
+// ========== CREDIT TYPES ==========
+
+export type CreditTransactionKind = 'deposit' | 'debit' | 'refund' | 'withdrawal'
+export type CreditTransactionStatus = 'pending' | 'sending' | 'completed' | 'failed' // sending = withdrawal broadcast, not confirmed yet
+
+/**
+ * Prepaid USDC balance of a wallet (amounts are USDC strings)
+ */
+export interface CreditAccount {
+  wallet: string
+  balance: string
+  per_call_limit: string | null
+  daily_limit: string | null
+  spent_last_24h: string
+  created_at: Date
+  updated_at: Date
+}
+
+export interface CreditTransaction {
+  id: string
+  wallet: string
+  kind: CreditTransactionKind
+  status: CreditTransactionStatus
+  amount: string
+  balance_after: string
+  signature: string | null
+  run_id: string | null
+  run_reference: string | null
+  blink_slug: string | null
+  error: string | null
+  created_at: Date
+}
+
+export type CreditSettlementStatus = 'pending' | 'sending' | 'completed' | 'failed' | 'cancelled' // sending = broadcast, not confirmed yet
+
+/**
+ * Transfer of one credit-paid run's payment from the credits treasury to the blink's payout wallet
+ */
+export interface CreditSettlement {
+  id: string
+  run_id: string
+  blink_id: string
+  creator_id: string
+  wallet: string
+  amount_usdc: string
+  status: CreditSettlementStatus
+  signature: string | null
+  attempts: number
+  next_attempt_at: Date | null
+  last_error: string | null
+  created_at: Date
+  paid_at: Date | null
+}
+
+/**
+ * Signed authorization for one credit-paid /bazaar call (base64 JSON in X-Credit-Authorization)
+ * The wallet signs generateCreditAuthorizationMessage() of these fields.
+ */
+export interface CreditAuthorization {
+  wallet: string
+  slug: string
+  max_amount: string // Most the caller agrees to pay for this call, in USDC
+  nonce: string // Unique per call - becomes part of the run reference
+  timestamp: number // Unix ms
+  signature: string // base58
+}
+
+// ========== ACCESS PASS TYPES ==========
+
+/**
+ * A wallet's pass for one blink (see BlinkAccessPassConfig)
+ * Passes bought while another is active start when it expires.
+ */
+export interface AccessPass {
+  id: string
+  blink_id: string
+  blink_slug: string
+  wallet: string
+  price_usdc: string
+  starts_at: Date
+  expires_at: Date
+  call_limit: number | null // null = unlimited
+  calls_used: number
+  calls_remaining: number | null // null = unlimited
+  subscription: boolean
+  renewal_reminder_sent_at: Date | null
+  created_at: Date
+}
+
+/**
+ * Signed authorization for one pass-covered /bazaar call (base64 JSON in X-Pass-Authorization)
+ * The wallet signs generatePassAuthorizationMessage() of these fields.
+ */
+export interface PassAuthorization {
+  wallet: string
+  slug: string
+  nonce: string // Unique per call - becomes part of the run reference
+  timestamp: number // Unix ms
+  signature: string // base58
+}
+
+// ========== COUPON TYPES ==========
+
+export type CouponDiscountType = 'percent' | 'fixed'
+
+/**
+ * Creator-issued promo code, applied after dynamic pricing
+ * A coupon never takes a run below 1% of its quoted price.
+ */
+export interface Coupon {
+  id: string
+  code: string // Uppercase; matched case-insensitively
+  discount_type: CouponDiscountType
+  discount_value: string // Percent off (1-99) or USDC off
+  blink_ids: string[] | null // Only these blinks (null = all of the creator's blinks)
+  max_redemptions: number | null // null = unlimited
+  max_per_wallet: number | null // null = unlimited
+  redemptions: number // Paid runs that used the coupon
+  discount_total_usdc: string
+  expires_at: Date | null
+  is_active: boolean
+  created_at: Date
+}
+
+// Coupon applied to one run (recorded in run.metadata.coupon)
+export interface AppliedCoupon {
+  id: string
+  code: string
+  discount_usdc: string
+}
+
+// ========== REVENUE SPLIT TYPES ==========
+
+/**
+ * Wallet that gets a share of every payment for a blink
+ */
+export interface RevenueSplitRecipient {
+  wallet: string
+  bps: number // Basis points of each payment (10000 = 100%)
+  label?: string // e.g. "API provider"
+}
+
+/**
+ * How a blink's payments are divided
+ * Payments go to the platform settlement wallet and a payout worker sends each share once the run
+ * has executed. The blink's payout_wallet gets what the recipients and platform fee leave.
+ */
+export interface BlinkRevenueSplits {
+  recipients: RevenueSplitRecipient[]
+  platform_fee_bps?: number // Kept by the platform
+}
+
+export type RevenueSplitRole = 'creator' | 'recipient' | 'platform'
+
+export type RevenueSplitPayoutStatus = 'pending' | 'sending' | 'completed' | 'failed' | 'cancelled' // sending = broadcast, not confirmed yet
+
+/**
+ * One leg of a paid run's split
+ */
+export interface RevenueSplitPayout {
+  id: string
+  run_id: string
+  blink_id: string
+  role: RevenueSplitRole
+  wallet: string | null // null for the platform fee
+  bps: number
+  amount_usdc: string
+  status: RevenueSplitPayoutStatus
+  signature: string | null
+  attempts: number
+  next_attempt_at: Date | null
+  last_error: string | null
+  created_at: Date
+  paid_at: Date | null
+}
+
+/**
+ * A wallet's share of one blink's revenue (shown on its dashboard)
+ */
+export interface RevenueShare {
+  blink_id: string
+  blink_slug: string
+  blink_title: string
+  role: Exclude<RevenueSplitRole, 'platform'>
+  bps: number | null // Current share (null once the wallet was removed from the split)
+  paid_usdc: string
+  pending_usdc: string
+  payouts: number // Completed payouts
+  last_paid_at: Date | null
+}
+
+// ========== REFERRAL PAYOUT TYPES ==========
+
+export type ReferralPayoutBatchStatus = 'pending' | 'sending' | 'completed' | 'failed' // sending = broadcast, not confirmed yet
+
+/**
+ * A referrer's unpaid commissions, paid together in one USDC transfer
+ */
+export interface ReferralPayoutBatch {
+  id: string
+  referrer_wallet: string
+  amount_usdc: string
+  payout_count: number // Commissions in the batch
+  status: ReferralPayoutBatchStatus
+  signature: string | null
+  last_valid_block_height: string | null // Sending batches: the transfer can't land after this block height
+  attempts: number
+  next_attempt_at: Date | null // null once completed or out of attempts
+  last_error: string | null
+  created_at: Date
+  paid_at: Date | null
+}
+
+// ========== AUTH SESSION & API KEY TYPES ==========
+
+/**
+ * What a creator API key may do
+ * - blinks:write: create, update and delete blinks, their credentials and coupons
+ * - analytics:read: dashboard data, analytics and ledger exports
+ * - payouts:manage: the creator payout key
+ */
+export type ApiKeyScope = 'blinks:write' | 'analytics:read' | 'payouts:manage'
+
+/**
+ * Long-lived creator API key (the secret itself is only returned when issued or rotated)
+ */
+export interface CreatorApiKey {
+  id: string
+  name: string
+  key_prefix: string // First characters of the key, to tell keys apart
+  scopes: ApiKeyScope[]
+  created_at: Date
+  last_used_at: Date | null
+  revoked_at: Date | null
+  rotated_to_id: string | null // Key that replaced this one
+}
+
+/**
+ * Server-side session issued by Sign-In-With-Solana (stored in Redis)
+ */
+export interface AuthSession {
+  id: string
+  wallet: string
+  created_at: string // ISO date
+  expires_at: string // ISO date
+  user_agent: string | null
+}